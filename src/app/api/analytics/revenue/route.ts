@@ -1,8 +1,13 @@
 import { createClient } from "@supabase/supabase-js";
 import { NextResponse, NextRequest } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
 
 export async function GET(req: NextRequest) {
   try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("reports.view");
+    if (!auth.success) return auth.response;
+
     const { searchParams } = new URL(req.url);
     const startDate = searchParams.get("startDate");
     const endDate = searchParams.get("endDate");
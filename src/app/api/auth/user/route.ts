@@ -1,5 +1,6 @@
 import { createClient } from "@/src/app/utils/supabase/server";
 import { NextRequest, NextResponse } from "next/server";
+import { loadRolePermissions } from "@/src/app/utils/permissions";
 
 export async function GET(request: NextRequest) {
   try {
@@ -18,7 +19,7 @@ export async function GET(request: NextRequest) {
     // Fetch the staff record to get the email_address and staff ID
     const { data: staffData, error: staffError } = await supabase
       .from("staff")
-      .select("id, email_address, first_name, last_name")
+      .select("id, email_address, first_name, last_name, staff_roles(role_id)")
       .eq("auth_id", user.id)
       .single();
 
@@ -29,11 +30,16 @@ export async function GET(request: NextRequest) {
           email: user.email || "",
           id: user.id,
           staff_id: null,
+          roles: [],
+          permissions: [],
         },
         { status: 200 }
       );
     }
 
+    const roles = (staffData.staff_roles || []).map((r: { role_id: string }) => r.role_id);
+    const permissions = await loadRolePermissions(supabase, roles);
+
     return NextResponse.json(
       {
         email: staffData.email_address || user.email || "",
@@ -42,6 +48,8 @@ export async function GET(request: NextRequest) {
         id: user.id,
         staff_id: staffData.id,
         staff_name: `${staffData.first_name} ${staffData.last_name}`,
+        roles,
+        permissions,
       },
       { status: 200 }
     );
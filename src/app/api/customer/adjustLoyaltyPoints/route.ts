@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+import { recordLoyaltyTransaction } from "@/src/app/utils/loyaltyProgram";
+
+/**
+ * POST /api/customer/adjustLoyaltyPoints
+ *
+ * Manually add or remove points for a customer (requires loyalty.adjust)
+ * Body: { customer_id: string, points: number (signed), notes: string }
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("loyalty.adjust");
+    if (!auth.success) return auth.response;
+
+    const { supabase, staff } = auth.data;
+
+    // === VALIDATE ===
+    const { customer_id, points, notes } = await req.json();
+    const change = Number(points);
+
+    if (!customer_id || !Number.isInteger(change) || change === 0) {
+      return NextResponse.json(
+        { success: false, error: "customer_id and a non-zero whole number of points are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!notes?.trim()) {
+      return NextResponse.json(
+        { success: false, error: "A reason is required for manual adjustments" },
+        { status: 400 }
+      );
+    }
+
+    // === RECORD ===
+    const { data, error } = await recordLoyaltyTransaction(supabase, {
+      customerId: customer_id,
+      type: "adjust",
+      points: change,
+      notes: notes.trim(),
+      staffId: staff.id,
+    });
+
+    if (error) {
+      const insufficient = error.includes("Insufficient loyalty points");
+      return NextResponse.json(
+        {
+          success: false,
+          error: insufficient
+            ? "Adjustment would make the balance negative"
+            : "Failed to adjust loyalty points",
+        },
+        { status: insufficient ? 400 : 500 }
+      );
+    }
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: "customer.adjust_loyalty_points",
+      entityType: "customer",
+      entityId: customer_id,
+      metadata: { points: change, notes: notes.trim() },
+    });
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("[LOYALTY ADJUST] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
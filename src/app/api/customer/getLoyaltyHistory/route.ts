@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/src/app/utils/supabase/server";
+
+/**
+ * GET /api/customer/getLoyaltyHistory?customer_id=...
+ *
+ * Loyalty ledger for one customer, newest first
+ */
+
+export async function GET(req: NextRequest) {
+  const supabase = await createClient();
+
+  try {
+    // === AUTHENTICATE ===
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const customerId = req.nextUrl.searchParams.get("customer_id");
+    if (!customerId) {
+      return NextResponse.json(
+        { success: false, error: "customer_id is required" },
+        { status: 400 }
+      );
+    }
+
+    // === FETCH LEDGER ===
+    const { data, error } = await supabase
+      .from("loyalty_transactions")
+      .select(
+        "id, order_id, type, points, balance_after, tier_id, notes, created_at, staff:created_by(first_name, last_name)"
+      )
+      .eq("customer_id", customerId)
+      .order("created_at", { ascending: false })
+      .limit(200);
+
+    if (error) {
+      console.error("[LOYALTY HISTORY] Error fetching ledger:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to fetch loyalty history" },
+        { status: 500 }
+      );
+    }
+
+    const history = (data || []).map((row) => {
+      const staff = Array.isArray(row.staff) ? row.staff[0] : row.staff;
+      return {
+        id: row.id,
+        order_id: row.order_id,
+        type: row.type,
+        points: row.points,
+        balance_after: row.balance_after,
+        tier_id: row.tier_id,
+        notes: row.notes,
+        created_at: row.created_at,
+        created_by_name: staff ? `${staff.first_name} ${staff.last_name}` : null,
+      };
+    });
+
+    return NextResponse.json({ success: true, data: history });
+  } catch (error) {
+    console.error("[LOYALTY HISTORY] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
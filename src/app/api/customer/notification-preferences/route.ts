@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireCustomer } from "@/src/app/utils/customer-auth";
+import {
+  DEFAULT_NOTIFICATION_CHANNELS,
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+  normalizeNotificationChannels,
+} from "@/src/app/utils/notificationTemplates";
+
+/**
+ * GET /api/customer/notification-preferences
+ *
+ * Mobile App: the channels the signed-in customer is notified on, in order
+ * (requires the customer's session)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireCustomer(req);
+    if (!auth.success) return auth.response;
+    const { supabase, customer } = auth.data;
+
+    const { data, error } = await supabase
+      .from("customers")
+      .select("notification_channels")
+      .eq("id", customer.id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      return NextResponse.json(
+        { error: "Customer not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      channels: data.notification_channels ?? DEFAULT_NOTIFICATION_CHANNELS,
+      available: NOTIFICATION_CHANNELS,
+    });
+  } catch (err) {
+    console.error("[NOTIFY] Failed to load preferences:", err);
+    return NextResponse.json(
+      { error: "Failed to load notification preferences" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/customer/notification-preferences
+ *
+ * Mobile App: set the channels to notify the signed-in customer on, most
+ * preferred first; an empty list turns notifications off (requires the
+ * customer's session)
+ * Body: { channels: ("push" | "sms" | "email")[] }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireCustomer(req);
+    if (!auth.success) return auth.response;
+    const { supabase } = auth.data;
+
+    const { channels } = await req.json();
+
+    if (!Array.isArray(channels)) {
+      return NextResponse.json(
+        { error: "Missing channels" },
+        { status: 400 }
+      );
+    }
+
+    const normalized = normalizeNotificationChannels(channels);
+    if (normalized.length !== new Set(channels).size) {
+      return NextResponse.json(
+        { error: `channels must be from: ${NOTIFICATION_CHANNELS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // Customers cannot update their row directly; the function only
+    // touches notification_channels of the caller's own row
+    const { data, error } = await supabase.rpc("set_own_notification_channels", {
+      p_channels: normalized,
+    });
+
+    if (error) throw error;
+    if (!data) {
+      return NextResponse.json(
+        { error: "Customer not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      channels: data as NotificationChannel[],
+    });
+  } catch (err) {
+    console.error("[NOTIFY] Failed to save preferences:", err);
+    return NextResponse.json(
+      { error: "Failed to save notification preferences" },
+      { status: 500 }
+    );
+  }
+}
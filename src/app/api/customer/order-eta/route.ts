@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireCustomer } from "@/src/app/utils/customer-auth";
+import { loadOrderEta } from "@/src/app/utils/rider-locations";
+
+/**
+ * GET /api/customer/order-eta?orderId=...
+ *
+ * Mobile App: how far the rider is from the customer for their pickup or
+ * delivery, e.g. "Arriving in ~12 min". Worked out from the rider's latest
+ * location to the order's pickup or delivery point (Google Directions when
+ * configured, otherwise estimated). Poll every 30 seconds or so while the
+ * order is out. Requires the customer's session (Bearer access token) and
+ * only answers for their own orders.
+ * Response: { success: true, eta: { state, label, minutes, distance_km, arrives_at, rider_name, rider_location, ... } }
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireCustomer(req);
+    if (!auth.success) return auth.response;
+    const { supabase, customer } = auth.data;
+
+    const orderId = req.nextUrl.searchParams.get("orderId");
+    if (!orderId) {
+      return NextResponse.json(
+        { error: "Missing orderId" },
+        { status: 400 }
+      );
+    }
+
+    const eta = await loadOrderEta(supabase, orderId, customer.id);
+    if (!eta) {
+      return NextResponse.json(
+        { error: "Order not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, eta });
+  } catch (err) {
+    console.error("[RIDER LOCATION] Failed to work out ETA:", err);
+    return NextResponse.json(
+      { error: "Failed to work out ETA" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,14 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
 
 export async function POST(req: Request) {
   try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("customers.manage");
+    if (!auth.success) return auth.response;
+
     const { id } = await req.json();
     
     // Stricter validation - ensure id is provided and is not null/undefined
@@ -18,7 +24,7 @@ export async function POST(req: Request) {
     // Step 1: Fetch the customer to get their auth_id
     const { data: customerData, error: fetchError } = await supabase
       .from("customers")
-      .select("auth_id")
+      .select("*")
       .eq("id", id)
       .single();
 
@@ -48,6 +54,14 @@ export async function POST(req: Request) {
       
     if (deleteError) throw deleteError;
 
+    await recordAudit(supabase, {
+      staffId: auth.data.staff.id,
+      action: "customer.remove",
+      entityType: "customer",
+      entityId: id,
+      before: customerData,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Failed to remove customer:", error);
@@ -1,8 +1,14 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
 
 export async function POST(req: Request) {
   try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("customers.manage");
+    if (!auth.success) return auth.response;
+
     const data = await req.json();
     const supabase = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -10,6 +16,7 @@ export async function POST(req: Request) {
     );
 
     let result: any = null;
+    let before = null;
 
     if (!data.id) {
       // New customer: Create auth user first if email provided
@@ -52,6 +59,13 @@ export async function POST(req: Request) {
       result = await supabase.from("customers").insert(customerPayload).select();
     } else {
       // Update existing customer
+      const { data: existing } = await supabase
+        .from("customers")
+        .select("*")
+        .eq("id", data.id)
+        .maybeSingle();
+      before = existing;
+
       const { email_address, loyalty_points, ...dataWithoutEmailAndPoints } = data;
 
       // If email is being set and customer doesn't have auth_id, send invitation
@@ -135,6 +149,15 @@ export async function POST(req: Request) {
 
     if (result.error) throw result.error;
 
+    await recordAudit(supabase, {
+      staffId: auth.data.staff.id,
+      action: data.id ? "customer.update" : "customer.create",
+      entityType: "customer",
+      entityId: result.data?.[0]?.id ?? data.id,
+      before,
+      after: result.data?.[0],
+    });
+
     return NextResponse.json({
       success: true,
       data: result.data,
@@ -0,0 +1,44 @@
+/**
+ * GET /api/machines/floor
+ *
+ * Live machine floor: every washer/dryer with the basket it is running
+ * (started, expected end) and the baskets queued for each machine type.
+ * Used by the machine floor page and the baskets page machine picker.
+ */
+
+import { NextResponse } from "next/server";
+import { createClient } from "@/src/app/utils/supabase/server";
+import { getMachineFloor } from "@/src/app/utils/machineFloor.server";
+
+export async function GET() {
+  const supabase = await createClient();
+
+  try {
+    // === AUTHENTICATE ===
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // === BUILD FLOOR ===
+    const floor = await getMachineFloor(supabase);
+
+    return NextResponse.json(
+      { success: true, data: floor, generated_at: new Date().toISOString() },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Machine floor error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load machine floor" },
+      { status: 500 }
+    );
+  }
+}
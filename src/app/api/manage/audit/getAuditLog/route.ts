@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { loadAuditLog } from "@/src/app/utils/auditLog";
+
+/**
+ * GET /api/manage/audit/getAuditLog
+ *
+ * Audit trail of staff actions, newest first (requires audit.view)
+ * Query: staff_id?, entity_type?, entity_id?, from?, to? (YYYY-MM-DD), page?
+ * Also returns every staff member so the page can filter by who acted.
+ */
+
+const PAGE_SIZE = 50;
+
+export async function GET(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("audit.view");
+    if (!auth.success) return auth.response;
+    const { supabase } = auth.data;
+
+    const params = req.nextUrl.searchParams;
+    const page = Math.max(1, Number(params.get("page")) || 1);
+    const isDate = (v: string | null) => (v && /^\d{4}-\d{2}-\d{2}$/.test(v) ? v : undefined);
+
+    // === FETCH ===
+    const [log, staffResult] = await Promise.all([
+      loadAuditLog(supabase, {
+        staffId: params.get("staff_id") || undefined,
+        entityType: params.get("entity_type") || undefined,
+        entityId: params.get("entity_id")?.trim() || undefined,
+        from: isDate(params.get("from")),
+        to: isDate(params.get("to")),
+        limit: PAGE_SIZE,
+        offset: (page - 1) * PAGE_SIZE,
+      }),
+      supabase
+        .from("staff")
+        .select("id, first_name, last_name")
+        .order("first_name", { ascending: true }),
+    ]);
+
+    if (staffResult.error) throw staffResult.error;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        entries: log.entries,
+        total: log.total,
+        page,
+        page_size: PAGE_SIZE,
+        staff: staffResult.data || [],
+      },
+    });
+  } catch (error) {
+    console.error("[AUDIT] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch audit log" },
+      { status: 500 }
+    );
+  }
+}
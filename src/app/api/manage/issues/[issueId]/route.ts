@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/src/app/utils/supabase/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
 
 /**
  * PATCH /api/manage/issues/[issueId]
@@ -11,36 +12,13 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ issueId: string }> }
 ) {
-  const supabase = await createClient();
   const { issueId } = await params;
 
   try {
-    // === AUTHENTICATE ===
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser();
-
-    if (authError || !user) {
-      return NextResponse.json(
-        { success: false, error: "Unauthorized" },
-        { status: 401 }
-      );
-    }
-
-    // === GET STAFF ID ===
-    const { data: staffData, error: staffError } = await supabase
-      .from("staff")
-      .select("id")
-      .eq("auth_id", user.id)
-      .single();
-
-    if (staffError || !staffData) {
-      return NextResponse.json(
-        { success: false, error: "Staff record not found" },
-        { status: 400 }
-      );
-    }
+    // === AUTHORIZE ===
+    const auth = await requireStaff("issues.manage");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
 
     // === PARSE REQUEST ===
     const body = await request.json();
@@ -61,15 +39,23 @@ export async function PATCH(
 
     // If status is being changed to resolved, set resolved_by and resolved_at
     if (status === "resolved") {
-      updateData.resolved_by = staffData.id;
+      updateData.resolved_by = staff.id;
       updateData.resolved_at = new Date().toISOString();
     }
 
     // === UPDATE ISSUE ===
-    const { error: updateError } = await supabase
+    const { data: before } = await supabase
+      .from("issues")
+      .select("*")
+      .eq("id", issueId)
+      .maybeSingle();
+
+    const { data: after, error: updateError } = await supabase
       .from("issues")
       .update(updateData)
-      .eq("id", issueId);
+      .eq("id", issueId)
+      .select()
+      .maybeSingle();
 
     if (updateError) {
       console.error("[ISSUE UPDATE] Error updating issue:", updateError);
@@ -82,7 +68,16 @@ export async function PATCH(
     console.log("[ISSUE UPDATE] Success:", {
       issue_id: issueId,
       status,
-      resolved_by: status === "resolved" ? staffData.id : null,
+      resolved_by: status === "resolved" ? staff.id : null,
+    });
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: `issue.${status === "open" ? "reopen" : status === "resolved" ? "resolve" : "cancel"}`,
+      entityType: "issue",
+      entityId: issueId,
+      before,
+      after,
     });
 
     return NextResponse.json({
@@ -1,28 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/src/app/utils/supabase/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
 
 /**
  * GET /api/manage/issues
  * 
- * Fetch all issues from the issues table with customer info
+ * Fetch all issues from the issues table with customer info and, for
+ * machine repairs, the machine from the downtime log
  */
 
 export async function GET(request: NextRequest) {
-  const supabase = await createClient();
-
   try {
-    // === AUTHENTICATE ===
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser();
-
-    if (authError || !user) {
-      return NextResponse.json(
-        { success: false, error: "Unauthorized" },
-        { status: 401 }
-      );
-    }
+    // === AUTHORIZE ===
+    const auth = await requireStaff("issues.manage");
+    if (!auth.success) return auth.response;
+    const { supabase } = auth.data;
 
     // === FETCH ISSUES ===
     const { data: issues, error: fetchError } = await supabase
@@ -40,6 +31,23 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // === FETCH LINKED MACHINES ===
+    const machineByIssue: Record<string, string> = {};
+    const issueIds = (issues || []).map((issue) => issue.id);
+    if (issueIds.length > 0) {
+      const { data: downtime } = await supabase
+        .from("machine_downtime")
+        .select("issue_id, machines:machine_id(machine_name)")
+        .in("issue_id", issueIds);
+
+      for (const row of (downtime || []) as unknown as {
+        issue_id: string;
+        machines: { machine_name: string } | null;
+      }[]) {
+        if (row.machines) machineByIssue[row.issue_id] = row.machines.machine_name;
+      }
+    }
+
     // === FETCH CUSTOMER INFO FOR EACH ISSUE ===
     const enrichedIssues = await Promise.all(
       (issues || []).map(async (issue) => {
@@ -88,6 +96,7 @@ export async function GET(request: NextRequest) {
           customer_name,
           customer_phone,
           resolved_by_name,
+          machine_name: machineByIssue[issue.id] || null,
         };
       })
     );
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+import { loadLoyaltyProgram } from "@/src/app/utils/loyaltyProgram";
+
+/**
+ * POST /api/manage/loyalty/expirePoints
+ *
+ * Expire the balances of customers with no loyalty activity in the
+ * configured expire_after_days (requires loyalty.edit). Each expiry is written to
+ * the ledger as an 'expire' entry.
+ */
+
+export async function POST() {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("loyalty.edit");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // === EXPIRE ===
+    const { settings } = await loadLoyaltyProgram(supabase);
+    if (!settings.expire_after_days) {
+      return NextResponse.json(
+        { success: false, error: "Point expiry is turned off" },
+        { status: 400 }
+      );
+    }
+
+    const { data: expiredCount, error: expireError } = await supabase.rpc(
+      "expire_inactive_loyalty_points",
+      { p_days: settings.expire_after_days }
+    );
+
+    if (expireError) {
+      console.error("[LOYALTY] Error expiring points:", expireError);
+      return NextResponse.json(
+        { success: false, error: "Failed to expire loyalty points" },
+        { status: 500 }
+      );
+    }
+
+    console.log(`[LOYALTY] Expired points for ${expiredCount} customers`);
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: "loyalty_settings.expire_points",
+      entityType: "loyalty_settings",
+      entityId: "1",
+      metadata: {
+        expire_after_days: settings.expire_after_days,
+        customers_expired: expiredCount,
+      },
+    });
+
+    return NextResponse.json({ success: true, expired: expiredCount });
+  } catch (error) {
+    console.error("[LOYALTY] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { loadLoyaltyProgram } from "@/src/app/utils/loyaltyProgram";
+
+/**
+ * GET /api/manage/loyalty/getLoyaltyProgram
+ *
+ * List all loyalty tiers (including inactive) and the earn rules
+ */
+
+export async function GET() {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("loyalty.edit");
+    if (!auth.success) return auth.response;
+    const { supabase } = auth.data;
+
+    // === FETCH PROGRAM ===
+    const { tiers, settings } = await loadLoyaltyProgram(supabase, true);
+
+    return NextResponse.json({ success: true, data: { tiers, settings } });
+  } catch (error) {
+    console.error("[LOYALTY] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
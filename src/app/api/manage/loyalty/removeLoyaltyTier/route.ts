@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+
+/**
+ * POST /api/manage/loyalty/removeLoyaltyTier
+ *
+ * Delete a loyalty tier that has never been redeemed (requires loyalty.edit).
+ * Redeemed tiers are referenced by past orders, so they can only be
+ * deactivated.
+ * Body: { id: string }
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("loyalty.edit");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // === VALIDATE ===
+    const { id } = await req.json();
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: "Tier id is required" },
+        { status: 400 }
+      );
+    }
+
+    const { count } = await supabase
+      .from("loyalty_transactions")
+      .select("id", { count: "exact", head: true })
+      .eq("tier_id", id);
+
+    if ((count || 0) > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "This tier has been redeemed before. Deactivate it instead.",
+        },
+        { status: 409 }
+      );
+    }
+
+    // === DELETE ===
+    const { data: before } = await supabase
+      .from("loyalty_tiers")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    const { error: deleteError } = await supabase
+      .from("loyalty_tiers")
+      .delete()
+      .eq("id", id);
+
+    if (deleteError) {
+      console.error("[LOYALTY] Error deleting tier:", deleteError);
+      return NextResponse.json(
+        { success: false, error: "Failed to delete loyalty tier" },
+        { status: 500 }
+      );
+    }
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: "loyalty_tier.remove",
+      entityType: "loyalty_tier",
+      entityId: id,
+      before,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[LOYALTY] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
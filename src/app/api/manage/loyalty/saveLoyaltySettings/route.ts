@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+import { validateLoyaltySettings } from "@/src/app/utils/loyaltyProgram";
+
+/**
+ * POST /api/manage/loyalty/saveLoyaltySettings
+ *
+ * Update the loyalty earn rules (requires loyalty.edit)
+ * Body: { points_per_order, pesos_per_point | null, expire_after_days | null }
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("loyalty.edit");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // === VALIDATE ===
+    const body = await req.json();
+
+    const validationError = validateLoyaltySettings(body);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    // === UPSERT ===
+    const { data: before } = await supabase
+      .from("loyalty_settings")
+      .select("*")
+      .eq("id", 1)
+      .maybeSingle();
+
+    const { data, error: upsertError } = await supabase
+      .from("loyalty_settings")
+      .upsert(
+        {
+          id: 1,
+          points_per_order: Number(body.points_per_order),
+          pesos_per_point:
+            body.pesos_per_point === null || body.pesos_per_point === undefined
+              ? null
+              : Number(body.pesos_per_point),
+          expire_after_days:
+            body.expire_after_days === null || body.expire_after_days === undefined
+              ? null
+              : Number(body.expire_after_days),
+          updated_by: staff.id,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "id" }
+      )
+      .select()
+      .single();
+
+    if (upsertError) {
+      console.error("[LOYALTY] Error saving settings:", upsertError);
+      return NextResponse.json(
+        { success: false, error: "Failed to save loyalty settings" },
+        { status: 500 }
+      );
+    }
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: "loyalty_settings.update",
+      entityType: "loyalty_settings",
+      entityId: "1",
+      before,
+      after: data,
+    });
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("[LOYALTY] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
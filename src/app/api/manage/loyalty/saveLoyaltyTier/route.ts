@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+import { validateLoyaltyTier } from "@/src/app/utils/loyaltyProgram";
+
+/**
+ * POST /api/manage/loyalty/saveLoyaltyTier
+ *
+ * Create or update a loyalty discount tier (requires loyalty.edit)
+ * Body: { id?, name, points_required, discount_percent, is_active }
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("loyalty.edit");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // === VALIDATE ===
+    const body = await req.json();
+
+    const validationError = validateLoyaltyTier(body);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const payload = {
+      name: body.name.trim(),
+      points_required: Number(body.points_required),
+      discount_percent: Number(body.discount_percent),
+      is_active: body.is_active !== false,
+      updated_by: staff.id,
+      updated_at: new Date().toISOString(),
+    };
+
+    // === INSERT OR UPDATE ===
+    const { data: before } = body.id
+      ? await supabase.from("loyalty_tiers").select("*").eq("id", body.id).maybeSingle()
+      : { data: null };
+
+    const { data, error: saveError } = body.id
+      ? await supabase
+          .from("loyalty_tiers")
+          .update(payload)
+          .eq("id", body.id)
+          .select()
+          .single()
+      : await supabase
+          .from("loyalty_tiers")
+          .insert({ id: crypto.randomUUID(), ...payload })
+          .select()
+          .single();
+
+    if (saveError) {
+      console.error("[LOYALTY] Error saving tier:", saveError);
+      return NextResponse.json(
+        { success: false, error: "Failed to save loyalty tier" },
+        { status: 500 }
+      );
+    }
+
+    console.log("[LOYALTY] Tier saved:", { id: data.id, ...payload });
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: body.id ? "loyalty_tier.update" : "loyalty_tier.create",
+      entityType: "loyalty_tier",
+      entityId: data.id,
+      before,
+      after: data,
+    });
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("[LOYALTY] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
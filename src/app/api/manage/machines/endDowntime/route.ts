@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+import { endMachineDowntime } from "@/src/app/utils/machineMaintenance";
+
+/**
+ * POST /api/manage/machines/endDowntime
+ *
+ * Put a machine back into service
+ * Body: { id, resolution? }
+ * Closing preventive maintenance resets the plan's cycle and day counters.
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("machines.manage");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    const { id, resolution } = await req.json();
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: "Missing downtime ID" },
+        { status: 400 }
+      );
+    }
+
+    // === CLOSE DOWNTIME ===
+    const result = await endMachineDowntime(
+      supabase,
+      id,
+      staff.id,
+      resolution?.trim() || null
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: "machine_downtime.end",
+      entityType: "machine_downtime",
+      entityId: id,
+      after: result.data,
+    });
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("[MAINTENANCE] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
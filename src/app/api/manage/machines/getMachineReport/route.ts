@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { loadMachineUptimeReport } from "@/src/app/utils/machineMaintenance";
+
+/**
+ * GET /api/manage/machines/getMachineReport?days=30
+ *
+ * Uptime percentage, cycles and breakdown/repair counts per machine over
+ * the last N days (default 30, max 365)
+ */
+
+export async function GET(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("machines.manage");
+    if (!auth.success) return auth.response;
+    const { supabase } = auth.data;
+
+    const days = Number(req.nextUrl.searchParams.get("days") || 30);
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      return NextResponse.json(
+        { success: false, error: "days must be between 1 and 365" },
+        { status: 400 }
+      );
+    }
+
+    // === BUILD REPORT ===
+    const to = new Date();
+    const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+    const rows = await loadMachineUptimeReport(supabase, from, to);
+
+    return NextResponse.json({
+      success: true,
+      data: rows,
+      from: from.toISOString(),
+      to: to.toISOString(),
+    });
+  } catch (error) {
+    console.error("[MACHINE REPORT] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to build machine report" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,25 @@
 import { createClient } from "@supabase/supabase-js";
 import { NextResponse } from "next/server";
+import { flagDueMaintenance } from "@/src/app/utils/machineMaintenance";
+import { requireStaff } from "@/src/app/utils/staff-auth";
 
 export async function GET(req: Request) {
 
   console.log("GET machines called");
 
   try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("machines.manage");
+    if (!auth.success) return auth.response;
+
     const supabase = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
       process.env.SUPABASE_SERVICE_ROLE_KEY! // use service key for admin-level queries
     );
 
+    // Switch machines with due maintenance plans before listing them
+    await flagDueMaintenance(supabase);
+
     const { data, error } = await supabase
       .from("machines")
       .select("*");
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { flagDueMaintenance, loadMachineMaintenance } from "@/src/app/utils/machineMaintenance";
+
+/**
+ * GET /api/manage/machines/getMaintenance?machine_id=
+ *
+ * Maintenance plans with their progress (cycles since last service, due
+ * date) and the downtime log, for one machine or all. Due plans are flagged
+ * first, so machines switch to maintenance as soon as they are due.
+ */
+
+export async function GET(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("machines.manage");
+    if (!auth.success) return auth.response;
+    const { supabase } = auth.data;
+
+    const machineId = req.nextUrl.searchParams.get("machine_id") || undefined;
+
+    // === FLAG + LOAD ===
+    await flagDueMaintenance(supabase, machineId);
+    const data = await loadMachineMaintenance(supabase, machineId);
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("[MAINTENANCE] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load maintenance" },
+      { status: 500 }
+    );
+  }
+}
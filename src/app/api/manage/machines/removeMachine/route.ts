@@ -1,8 +1,14 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
 
 export async function POST(req: Request) {
   try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("machines.manage");
+    if (!auth.success) return auth.response;
+
     const { id } = await req.json();
     if (!id) return NextResponse.json({ error: "Missing machine ID" }, { status: 400 });
 
@@ -11,9 +17,23 @@ export async function POST(req: Request) {
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
+    const { data: before } = await supabase
+      .from("machines")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
     const { error } = await supabase.from("machines").delete().eq("id", id);
     if (error) throw error;
 
+    await recordAudit(supabase, {
+      staffId: auth.data.staff.id,
+      action: "machine.remove",
+      entityType: "machine",
+      entityId: id,
+      before,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Failed to remove a machine:", error);
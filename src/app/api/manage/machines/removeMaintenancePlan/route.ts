@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+
+/**
+ * POST /api/manage/machines/removeMaintenancePlan
+ *
+ * Delete a maintenance plan (requires machines.plan). Its downtime entries are kept.
+ * Body: { id }
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("machines.plan");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    const { id } = await req.json();
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: "Missing plan ID" },
+        { status: 400 }
+      );
+    }
+
+    const { data: before } = await supabase
+      .from("machine_maintenance_plans")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    // === DELETE ===
+    const { error } = await supabase
+      .from("machine_maintenance_plans")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      console.error("[MAINTENANCE] Error removing plan:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to remove maintenance plan" },
+        { status: 500 }
+      );
+    }
+
+    console.log("[MAINTENANCE] Plan removed:", id);
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: "maintenance_plan.remove",
+      entityType: "maintenance_plan",
+      entityId: id,
+      before,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[MAINTENANCE] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,25 +1,48 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
 
 export async function POST(req: Request) {
   try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("machines.manage");
+    if (!auth.success) return auth.response;
+
     const data = await req.json();
     const supabase = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
+    let before = null;
     let result;
     if (!data.id) {
       // insert new machine
-      result = await supabase.from("machines").insert(data);
+      result = await supabase.from("machines").insert(data).select();
     } else {
       // update existing machine
-      result = await supabase.from("machines").update(data).eq("id", data.id);
+      const { data: existing } = await supabase
+        .from("machines")
+        .select("*")
+        .eq("id", data.id)
+        .maybeSingle();
+      before = existing;
+
+      result = await supabase.from("machines").update(data).eq("id", data.id).select();
     }
 
     if (result.error) throw result.error;
 
+    await recordAudit(supabase, {
+      staffId: auth.data.staff.id,
+      action: data.id ? "machine.update" : "machine.create",
+      entityType: "machine",
+      entityId: result.data?.[0]?.id ?? data.id,
+      before,
+      after: result.data?.[0],
+    });
+
   // After saving the machine, check the availability of machines of the same type
     const machineType = data.type;
 
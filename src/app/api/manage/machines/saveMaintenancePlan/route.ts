@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+import { validateMaintenancePlan } from "@/src/app/utils/machineMaintenance";
+
+/**
+ * POST /api/manage/machines/saveMaintenancePlan
+ *
+ * Create or update a preventive maintenance plan (requires machines.plan)
+ * Body: { id?, machine_id, name, interval_cycles?, interval_days?, is_active }
+ * New plans count from now and the machine's current cycle count.
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("machines.plan");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // === VALIDATE ===
+    const body = await req.json();
+    const plan = {
+      ...body,
+      interval_cycles: body.interval_cycles === "" || body.interval_cycles == null ? null : Number(body.interval_cycles),
+      interval_days: body.interval_days === "" || body.interval_days == null ? null : Number(body.interval_days),
+    };
+
+    const validationError = validateMaintenancePlan(plan);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const payload = {
+      machine_id: plan.machine_id,
+      name: plan.name.trim(),
+      interval_cycles: plan.interval_cycles,
+      interval_days: plan.interval_days,
+      is_active: plan.is_active !== false,
+      updated_by: staff.id,
+      updated_at: new Date().toISOString(),
+    };
+
+    // === INSERT OR UPDATE ===
+    let before = null;
+    let result;
+    if (plan.id) {
+      const { data: existing } = await supabase
+        .from("machine_maintenance_plans")
+        .select("*")
+        .eq("id", plan.id)
+        .maybeSingle();
+      before = existing;
+
+      result = await supabase
+        .from("machine_maintenance_plans")
+        .update(payload)
+        .eq("id", plan.id)
+        .select()
+        .single();
+    } else {
+      const { data: cycles } = await supabase.rpc("machine_cycle_count", {
+        p_machine_id: plan.machine_id,
+      });
+      result = await supabase
+        .from("machine_maintenance_plans")
+        .insert({ ...payload, last_done_cycles: Number(cycles) || 0 })
+        .select()
+        .single();
+    }
+
+    if (result.error) {
+      console.error("[MAINTENANCE] Error saving plan:", result.error);
+      return NextResponse.json(
+        { success: false, error: "Failed to save maintenance plan" },
+        { status: 500 }
+      );
+    }
+
+    console.log("[MAINTENANCE] Plan saved:", { id: result.data.id, ...payload });
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: plan.id ? "maintenance_plan.update" : "maintenance_plan.create",
+      entityType: "maintenance_plan",
+      entityId: result.data.id,
+      before,
+      after: result.data,
+    });
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("[MAINTENANCE] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+import {
+  DOWNTIME_REASONS,
+  DowntimeReason,
+  startMachineDowntime,
+} from "@/src/app/utils/machineMaintenance";
+
+/**
+ * POST /api/manage/machines/startDowntime
+ *
+ * Take a machine out of service and log why
+ * Body: { machine_id, reason, notes?, issue_id?, issue_description?, severity? }
+ * issue_description opens a new issue linked to the downtime; it is resolved
+ * when the machine goes back into service.
+ */
+
+const SEVERITIES = ["low", "medium", "high", "critical"];
+
+export async function POST(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("machines.manage");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // === VALIDATE ===
+    const body = await req.json();
+    const { machine_id, reason, notes, issue_id, issue_description, severity } = body;
+
+    if (!machine_id) {
+      return NextResponse.json(
+        { success: false, error: "Missing machine ID" },
+        { status: 400 }
+      );
+    }
+
+    if (!DOWNTIME_REASONS.includes(reason)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid reason" },
+        { status: 400 }
+      );
+    }
+
+    if (severity && !SEVERITIES.includes(severity)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid severity" },
+        { status: 400 }
+      );
+    }
+
+    // === OPEN ISSUE ===
+    let issueId: string | null = issue_id || null;
+    if (!issueId && issue_description?.trim()) {
+      const { data: issue, error: issueError } = await supabase
+        .from("issues")
+        .insert({
+          description: issue_description.trim(),
+          severity: severity || "medium",
+          status: "open",
+          reported_by: staff.id,
+        })
+        .select("id")
+        .single();
+
+      if (issueError || !issue) {
+        console.error("[MAINTENANCE] Error creating issue:", issueError);
+        return NextResponse.json(
+          { success: false, error: "Failed to create issue" },
+          { status: 500 }
+        );
+      }
+      issueId = issue.id;
+    }
+
+    // === LOG DOWNTIME ===
+    const result = await startMachineDowntime(supabase, {
+      machineId: machine_id,
+      reason: reason as DowntimeReason,
+      issueId,
+      notes: notes?.trim() || null,
+      staffId: staff.id,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: "machine_downtime.start",
+      entityType: "machine_downtime",
+      entityId: result.data.id,
+      after: result.data,
+    });
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("[MAINTENANCE] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
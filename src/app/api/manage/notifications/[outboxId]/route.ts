@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+import { outboxClient, retryOutboxEntry } from "@/src/app/utils/notification-outbox";
+
+/**
+ * POST /api/manage/notifications/[outboxId]
+ *
+ * Retry a failed notification (requires notifications.manage)
+ * The send gets a fresh set of attempts and goes out on the next worker run.
+ */
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ outboxId: string }> }
+) {
+  const { outboxId } = await params;
+
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("notifications.manage");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // === RETRY ===
+    const result = await retryOutboxEntry(outboxClient(), outboxId);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: "notification.retry",
+      entityType: "notification",
+      entityId: outboxId,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[NOTIFY OUTBOX] Retry failed:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to retry notification" },
+      { status: 500 }
+    );
+  }
+}
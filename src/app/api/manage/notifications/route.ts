@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { OutboxStatus, loadFailedSends, outboxClient } from "@/src/app/utils/notification-outbox";
+
+/**
+ * GET /api/manage/notifications
+ *
+ * Notifications that could not be delivered, newest first (requires notifications.manage)
+ * Query: include_retrying? ("true" also lists sends still being retried)
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("notifications.manage");
+    if (!auth.success) return auth.response;
+
+    const statuses: OutboxStatus[] =
+      request.nextUrl.searchParams.get("include_retrying") === "true" ? ["dead", "pending"] : ["dead"];
+
+    // === FETCH ===
+    // Outbox rows join customers, staff and notification history, which
+    // staff cannot all read under RLS
+    const entries = await loadFailedSends(outboxClient(), statuses);
+
+    return NextResponse.json({ success: true, data: entries });
+  } catch (error) {
+    console.error("[NOTIFY OUTBOX] Failed to load failed sends:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch failed notifications" },
+      { status: 500 }
+    );
+  }
+}
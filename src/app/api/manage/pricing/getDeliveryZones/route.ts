@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { loadDeliveryZones } from "@/src/app/utils/deliveryZones";
+
+/**
+ * GET /api/manage/pricing/getDeliveryZones
+ *
+ * List every delivery fee zone, highest priority first
+ */
+
+export async function GET() {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("pricing.edit");
+    if (!auth.success) return auth.response;
+    const { supabase } = auth.data;
+
+    // === FETCH ZONES ===
+    const data = await loadDeliveryZones(supabase);
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("[DELIVERY ZONES] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch delivery zones" },
+      { status: 500 }
+    );
+  }
+}
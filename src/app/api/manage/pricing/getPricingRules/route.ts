@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import {
+  DEFAULT_PRICING_RULES,
+  resolvePricingRules,
+} from "@/src/app/in/pos/logic/posHelpers";
+import { PricingRuleKey } from "@/src/app/in/pos/logic/posTypes";
+import { PRICING_RULE_DEFINITIONS } from "@/src/app/utils/pricingRules";
+
+/**
+ * GET /api/manage/pricing/getPricingRules
+ *
+ * List every pricing rule with its effective value, default and
+ * who last changed it
+ */
+
+export async function GET() {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("pricing.edit");
+    if (!auth.success) return auth.response;
+    const { supabase } = auth.data;
+
+    // === FETCH RULES ===
+    const { data: rows, error: fetchError } = await supabase
+      .from("pricing_rules")
+      .select("rule_key, value, updated_at, updated_by, staff:updated_by(first_name, last_name)");
+
+    if (fetchError) {
+      console.error("[PRICING RULES] Error fetching rules:", fetchError);
+      return NextResponse.json(
+        { success: false, error: "Failed to fetch pricing rules" },
+        { status: 500 }
+      );
+    }
+
+    const effective = resolvePricingRules(rows);
+
+    const data = (Object.keys(DEFAULT_PRICING_RULES) as PricingRuleKey[]).map(
+      (key) => {
+        const row = rows?.find((r) => r.rule_key === key);
+        const staff = Array.isArray(row?.staff) ? row?.staff[0] : row?.staff;
+        return {
+          rule_key: key,
+          ...PRICING_RULE_DEFINITIONS[key],
+          value: effective[key],
+          default_value: DEFAULT_PRICING_RULES[key],
+          is_default: !row,
+          updated_at: row?.updated_at ?? null,
+          updated_by_name: staff ? `${staff.first_name} ${staff.last_name}` : null,
+        };
+      }
+    );
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("[PRICING RULES] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+
+/**
+ * POST /api/manage/pricing/removeDeliveryZone
+ *
+ * Delete a delivery fee zone (requires pricing.edit)
+ * Orders already placed keep the quote stored in their handling.
+ * Body: { id: string }
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("pricing.edit");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    const { id } = await req.json();
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: "Missing zone ID" },
+        { status: 400 }
+      );
+    }
+
+    // === DELETE ===
+    const { data: before } = await supabase
+      .from("delivery_zones")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    const { error } = await supabase.from("delivery_zones").delete().eq("id", id);
+
+    if (error) {
+      console.error("[DELIVERY ZONES] Error removing zone:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to remove delivery zone" },
+        { status: 500 }
+      );
+    }
+
+    console.log("[DELIVERY ZONES] Zone removed:", { id, removed_by: staff.id });
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: "delivery_zone.remove",
+      entityType: "delivery_zone",
+      entityId: id,
+      before,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[DELIVERY ZONES] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+import { DEFAULT_PRICING_RULES } from "@/src/app/in/pos/logic/posHelpers";
+
+/**
+ * POST /api/manage/pricing/removePricingRule
+ *
+ * Remove a pricing rule override so the built-in default applies again
+ * (requires pricing.edit)
+ * Body: { rule_key: string }
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("pricing.edit");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // === VALIDATE ===
+    const { rule_key } = await req.json();
+    if (!rule_key || !(rule_key in DEFAULT_PRICING_RULES)) {
+      return NextResponse.json(
+        { success: false, error: "Unknown pricing rule" },
+        { status: 400 }
+      );
+    }
+
+    // === DELETE OVERRIDE ===
+    const { data: before } = await supabase
+      .from("pricing_rules")
+      .select("*")
+      .eq("rule_key", rule_key)
+      .maybeSingle();
+
+    const { error: deleteError } = await supabase
+      .from("pricing_rules")
+      .delete()
+      .eq("rule_key", rule_key);
+
+    if (deleteError) {
+      console.error("[PRICING RULES] Error resetting rule:", deleteError);
+      return NextResponse.json(
+        { success: false, error: "Failed to reset pricing rule" },
+        { status: 500 }
+      );
+    }
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: "pricing_rule.reset",
+      entityType: "pricing_rule",
+      entityId: rule_key,
+      before,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[PRICING RULES] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+import { DeliveryZone, validateDeliveryZone } from "@/src/app/utils/deliveryZones";
+
+/**
+ * POST /api/manage/pricing/saveDeliveryZone
+ *
+ * Create or update a delivery fee zone (requires pricing.edit)
+ * Body: { id?, name, zone_type: "radius" | "polygon", min_km, max_km?,
+ *         polygon?: { lat, lng }[], base_fee, included_km, per_km_rate,
+ *         priority?, is_active? }
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("pricing.edit");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // === VALIDATE ===
+    const body = await req.json();
+    const isRadius = body.zone_type === "radius";
+    const zone: Partial<DeliveryZone> = {
+      ...body,
+      min_km: isRadius ? Number(body.min_km) : 0,
+      max_km: isRadius && body.max_km !== "" && body.max_km != null ? Number(body.max_km) : null,
+      polygon: isRadius
+        ? null
+        : (body.polygon || []).map((p: { lat: unknown; lng: unknown }) => ({ lat: Number(p.lat), lng: Number(p.lng) })),
+      base_fee: Number(body.base_fee),
+      included_km: Number(body.included_km),
+      per_km_rate: Number(body.per_km_rate),
+      priority: body.priority === "" || body.priority == null ? 0 : Number(body.priority),
+    };
+
+    const validationError = validateDeliveryZone(zone);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const payload = {
+      name: zone.name!.trim(),
+      zone_type: zone.zone_type,
+      min_km: zone.min_km,
+      max_km: zone.max_km,
+      polygon: zone.polygon,
+      base_fee: zone.base_fee,
+      included_km: zone.included_km,
+      per_km_rate: zone.per_km_rate,
+      priority: zone.priority,
+      is_active: zone.is_active !== false,
+      updated_by: staff.id,
+      updated_at: new Date().toISOString(),
+    };
+
+    // === INSERT OR UPDATE ===
+    const { data: before } = body.id
+      ? await supabase.from("delivery_zones").select("*").eq("id", body.id).maybeSingle()
+      : { data: null };
+
+    const result = body.id
+      ? await supabase.from("delivery_zones").update(payload).eq("id", body.id).select().single()
+      : await supabase.from("delivery_zones").insert(payload).select().single();
+
+    if (result.error) {
+      console.error("[DELIVERY ZONES] Error saving zone:", result.error);
+      return NextResponse.json(
+        { success: false, error: "Failed to save delivery zone" },
+        { status: 500 }
+      );
+    }
+
+    console.log("[DELIVERY ZONES] Zone saved:", { id: result.data.id, ...payload });
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: body.id ? "delivery_zone.update" : "delivery_zone.create",
+      entityType: "delivery_zone",
+      entityId: result.data.id,
+      before,
+      after: result.data,
+    });
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("[DELIVERY ZONES] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+import { validatePricingRuleValue } from "@/src/app/in/pos/logic/posHelpers";
+
+/**
+ * POST /api/manage/pricing/savePricingRule
+ *
+ * Set the value of one pricing rule (requires pricing.edit)
+ * Body: { rule_key: string, value: number | { minutes, price }[] }
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("pricing.edit");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // === VALIDATE ===
+    const { rule_key, value } = await req.json();
+
+    const validationError = validatePricingRuleValue(rule_key, value);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const storedValue =
+      rule_key === "extra_dry_tiers"
+        ? (value as Array<{ minutes: number; price: number }>)
+            .map((t) => ({ minutes: Number(t.minutes), price: Number(t.price) }))
+            .sort((a, b) => a.minutes - b.minutes)
+        : Number(value);
+
+    // === UPSERT ===
+    const { data: before } = await supabase
+      .from("pricing_rules")
+      .select("*")
+      .eq("rule_key", rule_key)
+      .maybeSingle();
+
+    const { data, error: upsertError } = await supabase
+      .from("pricing_rules")
+      .upsert(
+        {
+          rule_key,
+          value: storedValue,
+          updated_by: staff.id,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "rule_key" }
+      )
+      .select()
+      .single();
+
+    if (upsertError) {
+      console.error("[PRICING RULES] Error saving rule:", upsertError);
+      return NextResponse.json(
+        { success: false, error: "Failed to save pricing rule" },
+        { status: 500 }
+      );
+    }
+
+    console.log("[PRICING RULES] Saved:", { rule_key, value: storedValue, updated_by: staff.id });
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: "pricing_rule.update",
+      entityType: "pricing_rule",
+      entityId: rule_key,
+      before,
+      after: data,
+    });
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("[PRICING RULES] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { requireStaff } from '@/src/app/utils/staff-auth';
+import { recordAudit } from '@/src/app/utils/auditLog';
 
 export async function POST(req: NextRequest) {
   try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff('inventory.adjust');
+    if (!auth.success) return auth.response;
+
     const { product_id, adjustment_amount, adjustment_type, notes } = await req.json();
 
     // Validate inputs
@@ -101,6 +107,16 @@ export async function POST(req: NextRequest) {
       // Don't fail the adjustment if logging fails
     }
 
+    await recordAudit(supabase, {
+      staffId: auth.data.staff.id,
+      action: 'product.adjust_quantity',
+      entityType: 'product',
+      entityId: product_id,
+      before: { quantity: currentQty },
+      after: { quantity: newQty },
+      metadata: { adjustment_type, amount, notes: notes || null },
+    });
+
     return NextResponse.json({
       success: true,
       product_id,
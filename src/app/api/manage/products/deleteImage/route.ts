@@ -1,8 +1,14 @@
 import { createClient } from "@supabase/supabase-js";
 import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
 
 export async function POST(request: NextRequest) {
   try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("inventory.manage");
+    if (!auth.success) return auth.response;
+
     // Use service role key for storage operations
     const supabase = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -54,6 +60,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    await recordAudit(supabase, {
+      staffId: auth.data.staff.id,
+      action: "product.delete_image",
+      entityType: "product",
+      entityId: productId,
+      before: { image_url: imageUrl },
+      after: { image_url: null },
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Image delete error:", error);
@@ -1,10 +1,15 @@
 import { createClient } from "@supabase/supabase-js";
 import { NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
 
 export async function GET(req: Request) {
   console.log("GET products called");
 
   try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("inventory.manage");
+    if (!auth.success) return auth.response;
+
     const supabase = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
       process.env.SUPABASE_SERVICE_ROLE_KEY!,
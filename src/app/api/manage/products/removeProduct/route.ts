@@ -1,8 +1,14 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
 
 export async function POST(req: Request) {
   try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("inventory.manage");
+    if (!auth.success) return auth.response;
+
     const { id } = await req.json();
     if (!id) {
       return NextResponse.json(
@@ -22,9 +28,19 @@ export async function POST(req: Request) {
       }
     );
 
+    const { data: before } = await supabase.from("products").select("*").eq("id", id).maybeSingle();
+
     const { error } = await supabase.from("products").delete().eq("id", id);
     if (error) throw error;
 
+    await recordAudit(supabase, {
+      staffId: auth.data.staff.id,
+      action: "product.remove",
+      entityType: "product",
+      entityId: id,
+      before,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Failed to remove product:", error);
@@ -1,8 +1,14 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
 
 export async function POST(req: Request) {
   try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("inventory.manage");
+    if (!auth.success) return auth.response;
+
     // Always use service role key to bypass RLS policies
     const supabase = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -63,6 +69,7 @@ export async function POST(req: Request) {
 
     let result: any;
     let isNewProduct = !productData.id;
+    let before: Record<string, unknown> | null = null;
 
     // Save product (insert or update)
     if (isNewProduct) {
@@ -70,6 +77,13 @@ export async function POST(req: Request) {
       const { id, ...dataToInsert } = productData;
       result = await supabase.from("products").insert(dataToInsert).select();
     } else {
+      const { data: current } = await supabase
+        .from("products")
+        .select("*")
+        .eq("id", productData.id)
+        .maybeSingle();
+      before = current;
+
       result = await supabase
         .from("products")
         .update(productData)
@@ -148,6 +162,15 @@ export async function POST(req: Request) {
       savedProduct.image_url = publicUrl.publicUrl;
     }
 
+    await recordAudit(supabase, {
+      staffId: auth.data.staff.id,
+      action: isNewProduct ? "product.create" : "product.update",
+      entityType: "product",
+      entityId: savedProduct.id,
+      before,
+      after: savedProduct,
+    });
+
     return NextResponse.json({ success: true, data: savedProduct });
   } catch (error) {
     console.error("Failed to save product:", error);
@@ -1,8 +1,14 @@
 import { createClient } from "@supabase/supabase-js";
 import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
 
 export async function POST(request: NextRequest) {
   try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("inventory.manage");
+    if (!auth.success) return auth.response;
+
     // Use service role key for storage operations
     const supabase = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -81,6 +87,14 @@ export async function POST(request: NextRequest) {
           { status: 500 }
         );
       }
+
+      await recordAudit(supabase, {
+        staffId: auth.data.staff.id,
+        action: "product.upload_image",
+        entityType: "product",
+        entityId: productId,
+        after: { image_url: publicUrl.publicUrl },
+      });
     }
 
     return NextResponse.json({
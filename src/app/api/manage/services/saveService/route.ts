@@ -1,8 +1,14 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
 
 export async function POST(req: Request) {
   try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("inventory.manage");
+    if (!auth.success) return auth.response;
+
     const data = await req.json();
     const supabase = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -34,6 +40,7 @@ export async function POST(req: Request) {
       data.sort_order = parseInt(data.sort_order, 10);
     }
 
+    let before = null;
     let result;
     if (!data.id) {
       // insert new service
@@ -41,6 +48,13 @@ export async function POST(req: Request) {
       result = await supabase.from("services").insert(dataToInsert).select();
     } else {
       // update existing service
+      const { data: existing } = await supabase
+        .from("services")
+        .select("*")
+        .eq("id", data.id)
+        .maybeSingle();
+      before = existing;
+
       result = await supabase
         .from("services")
         .update(data)
@@ -50,6 +64,15 @@ export async function POST(req: Request) {
 
     if (result.error) throw result.error;
 
+    await recordAudit(supabase, {
+      staffId: auth.data.staff.id,
+      action: data.id ? "service.update" : "service.create",
+      entityType: "service",
+      entityId: result.data?.[0]?.id,
+      before,
+      after: result.data?.[0],
+    });
+
     return NextResponse.json({
       success: true,
       data: result.data?.[0],
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { isSlotDate, todaySlotDate } from "@/src/app/utils/deliverySlots";
+
+/**
+ * GET /api/manage/slots/getSlots?date=YYYY-MM-DD
+ *
+ * Slot settings: every slot definition, upcoming blackout dates, and the
+ * riders with their availability overrides for the given date (default today).
+ */
+
+export async function GET(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("slots.manage");
+    if (!auth.success) return auth.response;
+    const { supabase } = auth.data;
+
+    const requested = req.nextUrl.searchParams.get("date");
+    const today = todaySlotDate();
+    const date = isSlotDate(requested) ? requested : today;
+
+    // === LOAD ===
+    const [slotsResult, blackoutResult, ridersResult, availabilityResult] = await Promise.all([
+      supabase
+        .from("delivery_slots")
+        .select("*")
+        .order("weekday", { ascending: true, nullsFirst: true })
+        .order("start_time", { ascending: true }),
+      supabase
+        .from("blackout_dates")
+        .select("date, reason")
+        .gte("date", today)
+        .order("date", { ascending: true }),
+      supabase
+        .from("staff")
+        .select("id, first_name, last_name, is_active, staff_roles!inner(role_id)")
+        .eq("staff_roles.role_id", "rider")
+        .order("first_name", { ascending: true }),
+      supabase.from("rider_availability").select("*").eq("date", date),
+    ]);
+
+    const failed = [slotsResult, blackoutResult, ridersResult, availabilityResult].find((r) => r.error);
+    if (failed?.error) {
+      console.error("[SLOTS] Error loading slot settings:", failed.error);
+      return NextResponse.json(
+        { success: false, error: "Failed to load time slots" },
+        { status: 500 }
+      );
+    }
+
+    const riders = (ridersResult.data || [])
+      .filter((r) => r.is_active !== false)
+      .map((r) => ({ id: r.id, first_name: r.first_name, last_name: r.last_name }));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        date,
+        slots: (slotsResult.data || []).map((s) => ({
+          ...s,
+          start_time: s.start_time.slice(0, 5),
+          end_time: s.end_time.slice(0, 5),
+        })),
+        blackout_dates: blackoutResult.data || [],
+        riders,
+        rider_availability: availabilityResult.data || [],
+      },
+    });
+  } catch (error) {
+    console.error("[SLOTS] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load time slots" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+
+/**
+ * POST /api/manage/slots/removeBlackoutDate
+ *
+ * Reopen a blackout date (requires slots.manage)
+ * Body: { date }
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("slots.manage");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    const { date } = await req.json();
+    if (!date) {
+      return NextResponse.json(
+        { success: false, error: "Missing date" },
+        { status: 400 }
+      );
+    }
+
+    // === DELETE ===
+    const { data: removed, error } = await supabase
+      .from("blackout_dates")
+      .delete()
+      .eq("date", date)
+      .select();
+
+    if (error) {
+      console.error("[SLOTS] Error removing blackout date:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to remove blackout date" },
+        { status: 500 }
+      );
+    }
+
+    console.log("[SLOTS] Blackout date removed:", date);
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: "blackout_date.remove",
+      entityType: "blackout_date",
+      entityId: date,
+      before: removed?.[0] ?? null,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[SLOTS] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+
+/**
+ * POST /api/manage/slots/removeSlot
+ *
+ * Delete a time slot (requires slots.manage). Slots that have ever been booked are kept
+ * for the booking history and switched off instead.
+ * Body: { id }
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("slots.manage");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    const { id } = await req.json();
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: "Missing slot ID" },
+        { status: 400 }
+      );
+    }
+
+    const { data: before } = await supabase
+      .from("delivery_slots")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    // === DEACTIVATE IF BOOKED ===
+    const { count, error: countError } = await supabase
+      .from("slot_bookings")
+      .select("id", { count: "exact", head: true })
+      .eq("slot_id", id);
+
+    if (countError) {
+      console.error("[SLOTS] Error checking slot bookings:", countError);
+      return NextResponse.json(
+        { success: false, error: "Failed to remove time slot" },
+        { status: 500 }
+      );
+    }
+
+    if ((count || 0) > 0) {
+      const { error } = await supabase
+        .from("delivery_slots")
+        .update({ is_active: false, updated_by: staff.id, updated_at: new Date().toISOString() })
+        .eq("id", id);
+
+      if (error) {
+        console.error("[SLOTS] Error deactivating slot:", error);
+        return NextResponse.json(
+          { success: false, error: "Failed to remove time slot" },
+          { status: 500 }
+        );
+      }
+
+      console.log("[SLOTS] Slot deactivated (has bookings):", id);
+
+      await recordAudit(supabase, {
+        staffId: staff.id,
+        action: "time_slot.deactivate",
+        entityType: "time_slot",
+        entityId: id,
+        before,
+        after: before ? { ...before, is_active: false } : null,
+      });
+      return NextResponse.json({ success: true, deactivated: true });
+    }
+
+    // === DELETE ===
+    const { error } = await supabase.from("delivery_slots").delete().eq("id", id);
+
+    if (error) {
+      console.error("[SLOTS] Error removing slot:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to remove time slot" },
+        { status: 500 }
+      );
+    }
+
+    console.log("[SLOTS] Slot removed:", id);
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: "time_slot.remove",
+      entityType: "time_slot",
+      entityId: id,
+      before,
+    });
+
+    return NextResponse.json({ success: true, deactivated: false });
+  } catch (error) {
+    console.error("[SLOTS] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+import { isSlotDate } from "@/src/app/utils/deliverySlots";
+
+/**
+ * POST /api/manage/slots/saveBlackoutDate
+ *
+ * Close a date to pickups and deliveries (requires slots.manage). Orders already booked
+ * on that date keep their booking; new bookings are refused.
+ * Body: { date: YYYY-MM-DD, reason? }
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("slots.manage");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // === VALIDATE ===
+    const { date, reason } = await req.json();
+    if (!isSlotDate(date)) {
+      return NextResponse.json(
+        { success: false, error: "Date must be YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
+
+    // === UPSERT ===
+    const { data: before } = await supabase
+      .from("blackout_dates")
+      .select("*")
+      .eq("date", date)
+      .maybeSingle();
+
+    const { data, error } = await supabase
+      .from("blackout_dates")
+      .upsert({ date, reason: reason?.trim() || null, created_by: staff.id }, { onConflict: "date" })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("[SLOTS] Error saving blackout date:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to save blackout date" },
+        { status: 500 }
+      );
+    }
+
+    console.log("[SLOTS] Blackout date saved:", data);
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: before ? "blackout_date.update" : "blackout_date.create",
+      entityType: "blackout_date",
+      entityId: date,
+      before,
+      after: data,
+    });
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("[SLOTS] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
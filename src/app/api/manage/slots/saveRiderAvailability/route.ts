@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+import { isSlotDate } from "@/src/app/utils/deliverySlots";
+
+/**
+ * POST /api/manage/slots/saveRiderAvailability
+ *
+ * Mark a rider available or off for a date, the whole day or one slot
+ * (requires slots.manage). Riders count as available unless overridden here. Passing
+ * is_available: null removes the override.
+ * Body: { staff_id, date, slot_id?, is_available: boolean | null, note? }
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("slots.manage");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // === VALIDATE ===
+    const body = await req.json();
+    if (!body.staff_id || !isSlotDate(body.date)) {
+      return NextResponse.json(
+        { success: false, error: "staff_id and date (YYYY-MM-DD) are required" },
+        { status: 400 }
+      );
+    }
+
+    const slotId: string | null = body.slot_id || null;
+
+    // === REPLACE OVERRIDE ===
+    // The unique index covers NULL slot ids, so clear the old row and insert
+    let remove = supabase
+      .from("rider_availability")
+      .delete()
+      .eq("staff_id", body.staff_id)
+      .eq("date", body.date);
+    remove = slotId ? remove.eq("slot_id", slotId) : remove.is("slot_id", null);
+
+    const { data: removed, error: removeError } = await remove.select();
+    if (removeError) {
+      console.error("[SLOTS] Error clearing rider availability:", removeError);
+      return NextResponse.json(
+        { success: false, error: "Failed to save rider availability" },
+        { status: 500 }
+      );
+    }
+
+    const audit = {
+      staffId: staff.id,
+      entityType: "rider_availability" as const,
+      entityId: body.staff_id,
+      before: removed?.[0] ?? null,
+      metadata: { date: body.date, slot_id: slotId },
+    };
+
+    if (body.is_available === null || body.is_available === undefined) {
+      console.log("[SLOTS] Rider availability reset:", { staff_id: body.staff_id, date: body.date, slot_id: slotId });
+      await recordAudit(supabase, { ...audit, action: "rider_availability.reset" });
+      return NextResponse.json({ success: true, data: null });
+    }
+
+    const { data, error } = await supabase
+      .from("rider_availability")
+      .insert({
+        staff_id: body.staff_id,
+        date: body.date,
+        slot_id: slotId,
+        is_available: body.is_available === true,
+        note: body.note?.trim() || null,
+        updated_by: staff.id,
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("[SLOTS] Error saving rider availability:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to save rider availability" },
+        { status: 500 }
+      );
+    }
+
+    console.log("[SLOTS] Rider availability saved:", data);
+
+    await recordAudit(supabase, { ...audit, action: "rider_availability.update", after: data });
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("[SLOTS] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+import { validateDeliverySlot } from "@/src/app/utils/deliverySlots";
+
+/**
+ * POST /api/manage/slots/saveSlot
+ *
+ * Create or update a pickup/delivery time slot (requires slots.manage)
+ * Body: { id?, weekday (0-6 or null for every day), start_time, end_time,
+ *         capacity, capacity_per_rider?, is_active }
+ * Lowering capacity does not cancel bookings already made.
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("slots.manage");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // === VALIDATE ===
+    const body = await req.json();
+    const slot = {
+      ...body,
+      weekday: body.weekday === "" || body.weekday == null ? null : Number(body.weekday),
+      capacity: Number(body.capacity),
+      capacity_per_rider:
+        body.capacity_per_rider === "" || body.capacity_per_rider == null ? null : Number(body.capacity_per_rider),
+    };
+
+    const validationError = validateDeliverySlot(slot);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const payload = {
+      weekday: slot.weekday,
+      start_time: slot.start_time,
+      end_time: slot.end_time,
+      capacity: slot.capacity,
+      capacity_per_rider: slot.capacity_per_rider,
+      is_active: slot.is_active !== false,
+      updated_by: staff.id,
+      updated_at: new Date().toISOString(),
+    };
+
+    // === INSERT OR UPDATE ===
+    const { data: before } = slot.id
+      ? await supabase.from("delivery_slots").select("*").eq("id", slot.id).maybeSingle()
+      : { data: null };
+
+    const result = slot.id
+      ? await supabase.from("delivery_slots").update(payload).eq("id", slot.id).select().single()
+      : await supabase.from("delivery_slots").insert(payload).select().single();
+
+    if (result.error) {
+      console.error("[SLOTS] Error saving slot:", result.error);
+      return NextResponse.json(
+        { success: false, error: "Failed to save time slot" },
+        { status: 500 }
+      );
+    }
+
+    console.log("[SLOTS] Slot saved:", { id: result.data.id, ...payload });
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: slot.id ? "time_slot.update" : "time_slot.create",
+      entityType: "time_slot",
+      entityId: result.data.id,
+      before,
+      after: result.data,
+    });
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("[SLOTS] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/src/app/utils/supabase/server";
+import { quoteDeliveryAddress } from "@/src/app/utils/deliveryZones.server";
+
+/**
+ * POST /api/maps/delivery-fee
+ *
+ * Delivery fee for an address from the delivery zones and the road distance
+ * to the store (haversine estimate without the Google key). The POS and the
+ * mobile app charge this fee; the create routes recompute it and only accept
+ * a different fee as a cashier override with a reason.
+ * Body: { lat, lng }
+ * Returns data: null when no zones are set up (flat default fee applies).
+ */
+
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+
+  try {
+    const body = await request.json();
+    if (typeof body?.lat !== "number" || typeof body?.lng !== "number") {
+      return NextResponse.json(
+        { success: false, error: "Missing delivery coordinates" },
+        { status: 400 }
+      );
+    }
+
+    const quote = await quoteDeliveryAddress(supabase, { lat: body.lat, lng: body.lng });
+
+    return NextResponse.json({ success: true, data: quote });
+  } catch (error) {
+    console.error("[DELIVERY FEE] Quote error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to calculate delivery fee" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import { getRoadDistance } from "@/src/app/utils/deliveryZones.server";
 
 interface DistanceRequest {
   delivery: {
@@ -25,61 +26,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const apiKey = process.env.GOOGLE_MAPS_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: "Google Maps API key not configured" },
-        { status: 500 }
-      );
-    }
-
     // Use provided store location or defaults
     const storeLat = body.store?.lat || DEFAULT_STORE_LAT;
     const storeLng = body.store?.lng || DEFAULT_STORE_LNG;
 
-    // Call Google Directions API
-    const origin = `${storeLat},${storeLng}`;
-    const destination = `${body.delivery.lat},${body.delivery.lng}`;
-
-    const directionsUrl = `https://maps.googleapis.com/maps/api/directions/json?origin=${origin}&destination=${destination}&key=${apiKey}`;
-
-    const response = await fetch(directionsUrl);
-    if (!response.ok) {
-      throw new Error("Failed to fetch directions from Google");
-    }
-
-    const data = await response.json();
-
-    if (data.status !== "OK") {
-      return NextResponse.json(
-        {
-          error: `Directions API error: ${data.status}`,
-          distance: null,
-        },
-        { status: 400 }
-      );
-    }
-
-    // Extract distance from first route
-    const route = data.routes[0];
-    if (!route) {
-      return NextResponse.json(
-        { error: "No routes found", distance: null },
-        { status: 400 }
-      );
-    }
-
-    const leg = route.legs[0];
-    const distance = leg.distance.value; // in meters
-    const duration = leg.duration.value; // in seconds
+    // Google Directions, or a haversine estimate without the API key
+    const road = await getRoadDistance(body.delivery, { lat: storeLat, lng: storeLng });
 
     return NextResponse.json({
       success: true,
-      distance, // meters
-      duration, // seconds
-      distanceKm: (distance / 1000).toFixed(2),
-      durationMinutes: Math.round(duration / 60),
-      polyline: route.overview_polyline.points,
+      distance: road.distance, // meters
+      duration: road.duration, // seconds
+      distanceKm: (road.distance / 1000).toFixed(2),
+      durationMinutes: Math.round(road.duration / 60),
+      polyline: road.polyline,
+      source: road.source,
     });
   } catch (error) {
     console.error("Distance calculation error:", error);
@@ -0,0 +1,34 @@
+/**
+ * GET /api/maps/rider-locations
+ *
+ * Riders who reported their position in the last few minutes, with their
+ * latest fix and how many open orders they hold (requires deliveries.view).
+ * Polled by the live map on /in/rider.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { loadActiveRiders, RIDER_LOCATION_FRESH_MINUTES } from "@/src/app/utils/rider-locations";
+
+export async function GET(request: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("deliveries.view", request);
+    if (!auth.success) return auth.response;
+    const { supabase } = auth.data;
+
+    // === FETCH ===
+    const riders = await loadActiveRiders(supabase);
+
+    return NextResponse.json({
+      success: true,
+      data: { riders, fresh_minutes: RIDER_LOCATION_FRESH_MINUTES },
+    });
+  } catch (error) {
+    console.error("[RIDER LOCATION] Failed to load rider locations:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load rider locations" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * GET /api/maps/route-plan?date=YYYY-MM-DD
+ *
+ * Optimized multi-stop round trip for the riders: every open pickup/delivery
+ * stop with coordinates for the date (default today), in visiting order with
+ * leg distances and estimated arrival times. Road figures come from Google
+ * Directions when the key is configured, otherwise from local estimates.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/src/app/utils/supabase/server";
+import { isSlotDate, todaySlotDate } from "@/src/app/utils/deliverySlots";
+import { planRiderRoute } from "@/src/app/utils/routePlanner.server";
+
+export async function GET(req: NextRequest) {
+  const supabase = await createClient();
+
+  try {
+    // === AUTHENTICATE ===
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const requested = req.nextUrl.searchParams.get("date");
+    if (requested && !isSlotDate(requested)) {
+      return NextResponse.json(
+        { success: false, error: "Pass date as YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
+
+    // === PLAN ===
+    const plan = await planRiderRoute(supabase, requested || todaySlotDate());
+
+    return NextResponse.json({ success: true, data: plan });
+  } catch (error) {
+    console.error("[ROUTE] Route plan error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to plan route" },
+      { status: 500 }
+    );
+  }
+}
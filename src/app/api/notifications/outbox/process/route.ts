@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { processNotificationOutbox } from "@/src/app/utils/notification-outbox";
+
+/**
+ * GET|POST /api/notifications/outbox/process
+ *
+ * Notification outbox worker: sends every queued or retrying notification
+ * that is due. Meant to be called every minute by a scheduler with
+ * "Authorization: Bearer <CRON_SECRET>"; staff with notifications.manage
+ * can also run it by hand.
+ * Query: limit? (default 20, max 100)
+ * Response: { success: true, data: { processed, sent, retrying, dead } }
+ */
+
+async function handle(request: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const secret = process.env.CRON_SECRET;
+    const isScheduler = !!secret && request.headers.get("authorization") === `Bearer ${secret}`;
+    if (!isScheduler) {
+      const auth = await requireStaff("notifications.manage", request);
+      if (!auth.success) return auth.response;
+    }
+
+    const limit = Math.min(100, Math.max(1, Number(request.nextUrl.searchParams.get("limit")) || 20));
+
+    // === PROCESS ===
+    const result = await processNotificationOutbox(limit);
+    if (result.processed > 0) {
+      console.log("[NOTIFY OUTBOX] Worker run:", result);
+    }
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error("[NOTIFY OUTBOX] Worker run failed:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to process notification outbox" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
@@ -11,7 +11,7 @@ import { createClient } from "@/src/app/utils/supabase/server";
  * - page: number (default: 1)
  * - limit: number (default: 20, max: 100)
  * - type: string (optional) - 'pickup', 'delivery', 'service_update', 'order_status', 'general'
- * - status: string (optional) - 'sent', 'delivered', 'read', 'failed'
+ * - status: string (optional) - 'pending', 'sent', 'delivered', 'read', 'failed'
  * - startDate: ISO string (optional) - Filter notifications from this date
  * - endDate: ISO string (optional) - Filter notifications until this date
  * - orderId: string (optional) - Filter by specific order
@@ -5,60 +5,43 @@
  * - Creates basket_service_status records if they don't exist
  * - Updates existing status records
  * - Tracks who started/completed and when
+ * - Wash/dry start reserves the chosen machine, complete/skip releases it
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/src/app/utils/supabase/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
 import { sendPushNotification } from "@/src/app/utils/send-notification";
-import { awardLoyaltyPoints } from "@/src/app/utils/send-notification";
+import { activeServices, transitionOrder } from "@/src/app/utils/orderStatus.server";
+import { dispatchNotification } from "@/src/app/utils/notification-outbox";
+import { releaseMachines, reserveMachine } from "@/src/app/utils/machineFloor.server";
+import { isMachineServiceType, MachineAssignment } from "@/src/app/utils/machineFloor";
 
 interface UpdateServiceStatusRequest {
   service_type: string; // 'wash', 'dry', 'spin', 'iron', 'fold'
   action: "start" | "complete" | "skip";
   notes?: string;
+  machine_id?: string; // Washer/dryer to load, required to start wash or dry
 }
 
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ orderId: string; basketNumber: string }> }
 ) {
-  const supabase = await createClient();
   const { orderId, basketNumber: basketNumberStr } = await params;
   const basketNumber = parseInt(basketNumberStr);
 
   try {
-    // === AUTHENTICATE ===
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser();
+    // === AUTHORIZE ===
+    const auth = await requireStaff("orders.process");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
 
-    if (authError || !user) {
-      return NextResponse.json(
-        { success: false, error: "Unauthorized" },
-        { status: 401 }
-      );
-    }
-
-    // Get staff record
-    const { data: staffData, error: staffError } = await supabase
-      .from("staff")
-      .select("id")
-      .eq("auth_id", user.id)
-      .single();
-
-    if (staffError || !staffData) {
-      return NextResponse.json(
-        { success: false, error: "Staff record not found" },
-        { status: 401 }
-      );
-    }
-
-    const staffId = staffData.id;
+    const staffId = staff.id;
 
     // === PARSE REQUEST ===
     const body: UpdateServiceStatusRequest = await request.json();
-    const { service_type, action, notes } = body;
+    const { service_type, action, notes, machine_id } = body;
 
     if (!service_type || !action) {
       return NextResponse.json(
@@ -84,7 +67,7 @@ export async function PATCH(
     // === FETCH ORDER DATA ===
     const { data: order, error: orderError } = await supabase
       .from("orders")
-      .select("handling, customer_id")
+      .select("handling, customer_id, breakdown")
       .eq("id", orderId)
       .single();
 
@@ -125,6 +108,39 @@ export async function PATCH(
       }
     }
 
+    // === RESERVE MACHINE ===
+    let machine: MachineAssignment | null = null;
+    if (action === "start" && isMachineServiceType(service_type)) {
+      const basket = (order.breakdown?.baskets || []).find(
+        (b: { basket_number?: number }) => b.basket_number === basketNumber
+      );
+
+      if (!basket) {
+        return NextResponse.json(
+          { success: false, error: `Basket #${basketNumber} not found` },
+          { status: 404 }
+        );
+      }
+
+      const reserved = await reserveMachine(supabase, {
+        machineId: machine_id || null,
+        orderId,
+        basketNumber,
+        serviceType: service_type,
+        staffId,
+        basketServices: basket.services || {},
+      });
+
+      if (!reserved.success) {
+        return NextResponse.json(
+          { success: false, error: reserved.error },
+          { status: reserved.status }
+        );
+      }
+
+      machine = reserved.assignment;
+    }
+
     // === UPSERT SERVICE STATUS ===
     const statusMap = {
       start: "in_progress",
@@ -167,6 +183,9 @@ export async function PATCH(
 
       if (updateError) {
         console.error("Update error:", updateError);
+        if (machine) {
+          await releaseMachines(supabase, orderId, { basketNumber, serviceType: service_type, reason: "failed" });
+        }
         return NextResponse.json(
           { success: false, error: "Failed to update service status" },
           { status: 500 }
@@ -196,6 +215,9 @@ export async function PATCH(
 
       if (insertError) {
         console.error("Insert error:", insertError);
+        if (machine) {
+          await releaseMachines(supabase, orderId, { basketNumber, serviceType: service_type, reason: "failed" });
+        }
         return NextResponse.json(
           { success: false, error: "Failed to create service status" },
           { status: 500 }
@@ -203,6 +225,15 @@ export async function PATCH(
       }
     }
 
+    // === RELEASE MACHINE ===
+    if (action !== "start" && isMachineServiceType(service_type)) {
+      await releaseMachines(supabase, orderId, {
+        basketNumber,
+        serviceType: service_type,
+        reason: action === "complete" ? "completed" : "skipped",
+      });
+    }
+
     // === SUCCESS ===
     console.log(
       `[Basket Service Status] Order: ${orderId}, Basket: ${basketNumber}, Service: ${service_type}, Action: ${action}`
@@ -358,6 +389,39 @@ export async function PATCH(
         `[Service Check] Order ${orderId} - Final result: allServicesComplete=${allServicesComplete}`
       );
 
+      // === BASKET COMPLETED NOTIFICATION ===
+      // Each finished basket of a multi-basket order is announced on the
+      // customer's channels; the last one is covered by the order-ready one
+      const currentBasket = fullOrder.breakdown.baskets.find(
+        (b: { basket_number: number }) => b.basket_number === basketNumber
+      );
+      const basketDone =
+        action !== "start" &&
+        !!currentBasket &&
+        activeServices(currentBasket.services || {}).every((serviceType) =>
+          allServiceStatuses?.some(
+            (s) =>
+              s.basket_number === basketNumber &&
+              s.service_type === serviceType &&
+              (s.status === "completed" || s.status === "skipped")
+          )
+        );
+
+      if (basketDone && !allServicesComplete && order.customer_id) {
+        await dispatchNotification({
+          customerId: order.customer_id,
+          event: "basket_completed",
+          vars: {
+            order_code: orderId.split("-")[0].toUpperCase(),
+            basket_number: basketNumber,
+            basket_count: fullOrder.breakdown.baskets.length,
+          },
+          orderId,
+          basketNumber,
+          metadata: { service_type, action },
+        });
+      }
+
       if (allServicesComplete) {
         // Check if both pickup and delivery are skipped (store addresses)
         const pickupAddr = order.handling?.pickup?.address?.toLowerCase() || "";
@@ -366,81 +430,51 @@ export async function PATCH(
           (pickupAddr === "store" || pickupAddr === "in-store") &&
           (deliveryAddr === "store" || deliveryAddr === "in-store");
 
-        if (isInStoreOnly) {
-          // For in-store only orders, go directly to "completed" when all services are done
-          const { error: statusError } = await supabase
-            .from("orders")
-            .update({ status: "completed" })
-            .eq("id", orderId)
-            .eq("status", "processing");
+        // In-store only orders go directly to "completed" when all services are done,
+        // orders with delivery go to "for_pick-up"
+        const result = await transitionOrder(
+          supabase,
+          orderId,
+          isInStoreOnly ? "completed" : "for_pick-up",
+          { staffId, reason: "All services done", from: ["processing"] }
+        );
 
-          if (statusError) {
-            console.warn("[Order Status Update] Warning:", statusError);
-          } else {
-            console.log(
-              `[Order Status Update] Order ${orderId} updated to completed (in-store only)`
-            );
-            
-            // === AWARD LOYALTY POINTS ON COMPLETION ===
-            if (order.customer_id) {
-              const success = await awardLoyaltyPoints(
-                order.customer_id,
-                supabase,
-                1
-              );
-              if (!success) {
-                console.warn(
-                  `[Loyalty Points] Failed to award points for order ${orderId}`
-                );
-              }
-            }
-          }
-        } else {
-          // For orders with delivery, go to "for_pick-up" when all services are done
-          const { error: statusError } = await supabase
-            .from("orders")
-            .update({ status: "for_pick-up" })
-            .eq("id", orderId)
-            .eq("status", "processing"); // Only update if currently processing
-
-          if (statusError) {
-            console.warn("[Order Status Update] Warning:", statusError);
-            // Don't fail the request, just warn
-          } else {
-            console.log(
-              `[Order Status Update] Order ${orderId} updated to for_pick-up`
-            );
-          }
+        if (!result.success) {
+          console.warn("[Order Status Update] Warning:", result.error);
         }
       } else if (newStatus === "in_progress") {
         // Update order status to "processing" when first service starts
-        const { data: currentOrder } = await supabase
-          .from("orders")
-          .select("status")
-          .eq("id", orderId)
-          .single();
-
-        if (currentOrder && currentOrder.status === "pending") {
-          const { error: statusError } = await supabase
-            .from("orders")
-            .update({ status: "processing" })
-            .eq("id", orderId);
-
-          if (statusError) {
-            console.warn("[Order Status Update] Warning:", statusError);
-          } else {
-            console.log(
-              `[Order Status Update] Order ${orderId} updated to processing`
-            );
-          }
+        const result = await transitionOrder(supabase, orderId, "processing", {
+          staffId,
+          reason: `${service_type} started`,
+          from: ["pending"],
+        });
+
+        if (!result.success && result.status !== 409) {
+          console.warn("[Order Status Update] Warning:", result.error);
         }
       }
     }
 
+    await recordAudit(supabase, {
+      staffId,
+      action: `order.service_${action}`,
+      entityType: "order",
+      entityId: orderId,
+      metadata: {
+        basket_number: basketNumber,
+        service_type,
+        status: newStatus,
+        machine_id: machine?.machine_id ?? null,
+        notes: notes || null,
+      },
+    });
+
     return NextResponse.json(
       {
         success: true,
         message: `Service ${service_type} marked as ${newStatus}`,
+        machine,
       },
       { status: 200 }
     );
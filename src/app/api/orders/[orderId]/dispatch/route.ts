@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+import { isDispatchLeg, offerNextRider } from "@/src/app/utils/rider-dispatch";
+
+/**
+ * POST /api/orders/{orderId}/dispatch
+ *
+ * Offer an order's pickup or delivery to the best available rider
+ * (requires orders.update_status). Returns the open offer if one is
+ * already out. restart asks riders who declined or let an offer expire
+ * again, and re-offers a leg that was already accepted.
+ * Body: { leg: "pickup" | "delivery", restart?: boolean }
+ */
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  const { orderId } = await params;
+
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("orders.update_status", request);
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // === VALIDATE ===
+    const body = await request.json().catch(() => ({}));
+    if (!isDispatchLeg(body.leg)) {
+      return NextResponse.json(
+        { success: false, error: "leg must be pickup or delivery" },
+        { status: 400 }
+      );
+    }
+
+    // === OFFER ===
+    const result = await offerNextRider(orderId, body.leg, { fresh: body.restart === true });
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: "order.dispatch",
+      entityType: "order",
+      entityId: orderId,
+      metadata: {
+        leg: body.leg,
+        restart: body.restart === true,
+        offer_id: result.data.id,
+        rider_id: result.data.rider_id,
+      },
+    });
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("[DISPATCH] Failed to dispatch order:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to dispatch a rider" },
+      { status: 500 }
+    );
+  }
+}
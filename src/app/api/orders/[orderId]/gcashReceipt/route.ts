@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/src/app/utils/supabase/server";
+
+/**
+ * POST /api/orders/{orderId}/gcashReceipt
+ *
+ * Mobile App: upload a new GCash receipt after staff asked for one
+ * The receipt goes back into the verification queue.
+ * Body: { gcash_receipt_url, gcash_reference? }
+ */
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  const { orderId } = await params;
+  const supabase = await createClient();
+
+  try {
+    // === VALIDATE ===
+    const body = await request.json().catch(() => ({}));
+    const receiptUrl = typeof body.gcash_receipt_url === "string" ? body.gcash_receipt_url.trim() : "";
+    if (!receiptUrl) {
+      return NextResponse.json(
+        { success: false, error: "gcash_receipt_url is required" },
+        { status: 400 }
+      );
+    }
+
+    const { data: order, error: fetchError } = await supabase
+      .from("orders")
+      .select("handling, gcash_verification_status")
+      .eq("id", orderId)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: "Order not found" },
+        { status: 404 }
+      );
+    }
+
+    if (order.gcash_verification_status !== "reupload_requested") {
+      return NextResponse.json(
+        { success: false, error: "A new GCash receipt was not requested for this order" },
+        { status: 409 }
+      );
+    }
+
+    // === SAVE ===
+    // A new receipt URL puts the order back in the queue (orders_gcash_receipt_pending)
+    const reference = typeof body.gcash_reference === "string" ? body.gcash_reference.trim() : "";
+    const { data, error } = await supabase
+      .from("orders")
+      .update({
+        gcash_receipt_url: receiptUrl,
+        handling: reference ? { ...order.handling, gcash_reference: reference } : order.handling,
+      })
+      .eq("id", orderId)
+      .eq("gcash_verification_status", "reupload_requested")
+      .select("id, gcash_verification_status")
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      return NextResponse.json(
+        { success: false, error: "A new GCash receipt was not requested for this order" },
+        { status: 409 }
+      );
+    }
+
+    console.log("[GCASH RECEIPT] New receipt uploaded:", { order_id: orderId });
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("[GCASH RECEIPT] Upload error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to save GCash receipt" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+import { sendPushNotification } from "@/src/app/utils/send-notification";
+import {
+  GcashReviewAction,
+  returnGcashReceipt,
+  validateGcashReview,
+  verifyGcashPayment,
+} from "@/src/app/utils/gcashVerification";
+
+// Customer push notification for receipts sent back
+const REVIEW_NOTIFICATIONS: Record<"reject" | "request_reupload", string> = {
+  reject: "❌ GCash Payment Rejected",
+  request_reupload: "📸 New GCash Receipt Needed",
+};
+
+/**
+ * POST /api/orders/{orderId}/gcashVerification
+ *
+ * Review an order's GCash receipt (requires payments.verify)
+ * - verify: records the GCash payment under the reference; a reference
+ *   already used on another payment is refused (409)
+ * - reject / request_reupload: sends the receipt back with a reason and
+ *   notifies the customer
+ * Body: { action: "verify" | "reject" | "request_reupload", reference?, reason? }
+ */
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  const { orderId } = await params;
+
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("payments.verify");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // === VALIDATE ===
+    const body = await request.json().catch(() => ({}));
+    const validationError = validateGcashReview(body);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+    const action = body.action as GcashReviewAction;
+
+    const { data: before } = await supabase
+      .from("orders")
+      .select("customer_id, gcash_verification_status, gcash_verification_note")
+      .eq("id", orderId)
+      .maybeSingle();
+
+    // === REVIEW ===
+    const result =
+      action === "verify"
+        ? await verifyGcashPayment(supabase, orderId, body.reference, staff.id)
+        : await returnGcashReceipt(supabase, orderId, {
+            action,
+            reason: body.reason,
+            staffId: staff.id,
+          });
+
+    if (!result.success) {
+      console.warn("[GCASH VERIFICATION] Review refused:", result.error);
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    console.log("[GCASH VERIFICATION] Receipt reviewed:", {
+      order_id: orderId,
+      action,
+      staff_id: staff.id,
+    });
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: `order.gcash_${action}`,
+      entityType: "order",
+      entityId: orderId,
+      before: before
+        ? {
+            gcash_verification_status: before.gcash_verification_status,
+            gcash_verification_note: before.gcash_verification_note,
+          }
+        : null,
+      after: {
+        gcash_verification_status:
+          action === "verify" ? "verified" : action === "reject" ? "rejected" : "reupload_requested",
+      },
+      metadata: action === "verify" ? { reference: body.reference.trim() } : { reason: body.reason.trim() },
+    });
+
+    if (action !== "verify" && before?.customer_id) {
+      await sendPushNotification(before.customer_id, REVIEW_NOTIFICATIONS[action], body.reason.trim(), undefined, {
+        orderId,
+        notificationType: "gcash_verification",
+        metadata: { action },
+      });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[GCASH VERIFICATION] Unexpected error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
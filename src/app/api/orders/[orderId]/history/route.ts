@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/src/app/utils/supabase/server";
+
+/**
+ * GET /api/orders/{orderId}/history
+ *
+ * Status transition history for one order, oldest first
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  const supabase = await createClient();
+  const { orderId } = await params;
+
+  try {
+    // === AUTHENTICATE ===
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // === FETCH HISTORY ===
+    const { data, error } = await supabase
+      .from("order_status_history")
+      .select(
+        "id, order_id, from_status, to_status, changed_by, reason, metadata, created_at, staff:changed_by(first_name, last_name)"
+      )
+      .eq("order_id", orderId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("[ORDER HISTORY] Error fetching history:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to fetch order history" },
+        { status: 500 }
+      );
+    }
+
+    const history = (data || []).map((row) => {
+      const staff = Array.isArray(row.staff) ? row.staff[0] : row.staff;
+      return {
+        id: row.id,
+        order_id: row.order_id,
+        from_status: row.from_status,
+        to_status: row.to_status,
+        changed_by: row.changed_by,
+        changed_by_name: staff ? `${staff.first_name} ${staff.last_name}` : null,
+        reason: row.reason,
+        metadata: row.metadata,
+        created_at: row.created_at,
+      };
+    });
+
+    return NextResponse.json({ success: true, data: history });
+  } catch (error) {
+    console.error("[ORDER HISTORY] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/src/app/utils/supabase/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+import { loadPricingRules } from "@/src/app/utils/pricingRules";
+import { validateIronWeight } from "@/src/app/in/pos/logic/posHelpers";
 
 /**
  * PATCH /api/orders/{orderId}/modify
@@ -16,22 +19,13 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ orderId: string }> }
 ) {
-  const supabase = await createClient();
   const { orderId } = await params;
 
   try {
-    // === AUTHENTICATE ===
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser();
-
-    if (authError || !user) {
-      return NextResponse.json(
-        { success: false, error: "Unauthorized" },
-        { status: 401 }
-      );
-    }
+    // === AUTHORIZE ===
+    const auth = await requireStaff("orders.edit");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
 
     // === PARSE REQUEST ===
     const body = await request.json();
@@ -86,6 +80,13 @@ export async function PATCH(
       );
     }
 
+    // Copy for the audit log; the legacy edits below change handling/breakdown in place
+    const before = structuredClone({
+      breakdown: order.breakdown,
+      handling: order.handling,
+      total_amount: order.total_amount,
+    });
+
     // === PREPARE UPDATE DATA ===
     const updateData: any = {};
 
@@ -98,6 +99,19 @@ export async function PATCH(
       console.log("[MODIFY ORDER] Items:", fullBreakdown.items?.length);
       console.log("[MODIFY ORDER] Summary total:", fullBreakdown.summary?.total);
 
+      // Iron weights must sit within the current pricing rules
+      const pricingRules = await loadPricingRules(supabase);
+      const baskets = fullBreakdown.baskets || [];
+      for (let i = 0; i < baskets.length; i++) {
+        const ironError = validateIronWeight(baskets[i].services?.iron_weight_kg, pricingRules);
+        if (ironError) {
+          return NextResponse.json(
+            { success: false, error: `Basket ${i + 1} ${ironError}` },
+            { status: 400 }
+          );
+        }
+      }
+
       // Enrich services with pricing snapshots (same logic as POS create)
       const { data: allServices } = await supabase
         .from("services")
@@ -284,6 +298,20 @@ export async function PATCH(
 
     console.log("[MODIFY ORDER] Order updated successfully:", updatedOrder.id);
 
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: "order.modify",
+      entityType: "order",
+      entityId: orderId,
+      before,
+      after: {
+        breakdown: updatedOrder.breakdown,
+        handling: updatedOrder.handling,
+        total_amount: updatedOrder.total_amount,
+      },
+      metadata: customer_phone !== undefined ? { customer_phone } : null,
+    });
+
     // === RETURN SUCCESS ===
     return NextResponse.json({
       success: true,
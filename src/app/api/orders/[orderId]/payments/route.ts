@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+import {
+  loadOrderPayments,
+  recordOrderPayment,
+  validatePaymentTender,
+} from "@/src/app/utils/orderPayments";
+import { PaymentTender } from "@/src/app/in/pos/logic/posTypes";
+
+/**
+ * GET /api/orders/{orderId}/payments
+ *
+ * Tenders paid on an order and its balance (requires orders.view)
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  const { orderId } = await params;
+
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("orders.view");
+    if (!auth.success) return auth.response;
+    const { supabase } = auth.data;
+
+    // === FETCH ===
+    const { data: order, error } = await supabase
+      .from("orders")
+      .select("id, total_amount, amount_paid, payment_status")
+      .eq("id", orderId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: "Order not found" },
+        { status: 404 }
+      );
+    }
+
+    const payments = await loadOrderPayments(supabase, orderId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        payments,
+        total: Number(order.total_amount),
+        amount_paid: Number(order.amount_paid),
+        balance: Math.max(0, Math.round((Number(order.total_amount) - Number(order.amount_paid)) * 100) / 100),
+        payment_status: order.payment_status,
+      },
+    });
+  } catch (error) {
+    console.error("[PAYMENTS] Error loading payments:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load payments" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/orders/{orderId}/payments
+ *
+ * Collect a payment towards the order's balance, e.g. at pickup (requires pos.use)
+ * Body: { method: "cash" | "gcash", amount, amount_tendered?, reference? }
+ */
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  const { orderId } = await params;
+
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("pos.use");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // === VALIDATE ===
+    const body = await request.json().catch(() => ({}));
+    const tender: PaymentTender = {
+      method: body.method,
+      amount: Number(body.amount),
+      amount_tendered:
+        body.amount_tendered === undefined || body.amount_tendered === null || body.amount_tendered === ""
+          ? null
+          : Number(body.amount_tendered),
+      reference: typeof body.reference === "string" ? body.reference.trim() || null : null,
+    };
+
+    const validationError =
+      validatePaymentTender(tender) ||
+      (tender.method === "gcash" && !tender.reference ? "GCash payments need a reference" : null);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    // === RECORD ===
+    const result = await recordOrderPayment(supabase, orderId, tender, staff.id);
+
+    if (!result.success) {
+      console.error("[PAYMENTS] Payment failed:", result.error);
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    console.log("[PAYMENTS] Payment recorded:", {
+      id: result.payment.id,
+      order_id: orderId,
+      method: tender.method,
+      amount: tender.amount,
+      received_by: staff.id,
+    });
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: "payment.create",
+      entityType: "payment",
+      entityId: result.payment.id,
+      after: result.payment,
+      metadata: { order_id: orderId },
+    });
+
+    return NextResponse.json({ success: true, data: result.payment }, { status: 201 });
+  } catch (error) {
+    console.error("[PAYMENTS] Unexpected error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
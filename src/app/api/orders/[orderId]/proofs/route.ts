@@ -0,0 +1,48 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { loadHandlingProofs } from "@/src/app/utils/handling-proofs";
+
+/**
+ * GET /api/orders/{orderId}/proofs
+ *
+ * Proof of pickup and delivery recorded for an order (requires orders.view)
+ * Response: { success: true, data: [{ leg, recipient_name, lat, lng, captured_at, photo_url, signature_url, expires_at, ... }] }
+ * Image links are signed and expire after a few minutes.
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  const { orderId } = await params;
+
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("orders.view", request);
+    if (!auth.success) return auth.response;
+
+    // === LOAD AND SIGN ===
+    // Use service role key: the proofs bucket has no storage policies
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          persistSession: false,
+          autoRefreshToken: false,
+        },
+      }
+    );
+
+    const proofs = await loadHandlingProofs(supabase, orderId);
+
+    return NextResponse.json({ success: true, data: proofs });
+  } catch (error) {
+    console.error("[HANDLING PROOF] Error loading proofs:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load proof of pickup and delivery" },
+      { status: 500 }
+    );
+  }
+}
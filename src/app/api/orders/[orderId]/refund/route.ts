@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+import {
+  createOrderRefund,
+  formatRefundSlip,
+  getRefundableLines,
+  loadOrderRefunds,
+  RefundMethod,
+  RefundRequestLine,
+  validateRefundRequest,
+} from "@/src/app/utils/orderRefunds";
+
+const ORDER_SELECT =
+  "id, status, total_amount, breakdown, customers:customer_id(first_name, last_name)";
+
+function customerName(order: { customers?: unknown }): string {
+  const raw = order.customers as
+    | { first_name: string; last_name: string }
+    | { first_name: string; last_name: string }[]
+    | null
+    | undefined;
+  const customer = Array.isArray(raw) ? raw[0] : raw;
+  return customer ? `${customer.first_name} ${customer.last_name}` : "Walk-in";
+}
+
+/**
+ * GET /api/orders/{orderId}/refund
+ *
+ * Refunds of an order and what is still refundable (requires orders.view)
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  const { orderId } = await params;
+
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("orders.view");
+    if (!auth.success) return auth.response;
+    const { supabase } = auth.data;
+
+    // === FETCH ===
+    const { data: order, error } = await supabase
+      .from("orders")
+      .select(ORDER_SELECT)
+      .eq("id", orderId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: "Order not found" },
+        { status: 404 }
+      );
+    }
+
+    const refunds = await loadOrderRefunds(supabase, orderId);
+    const name = customerName(order);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        refunds: refunds.map((refund) => ({
+          ...refund,
+          slip: formatRefundSlip(refund, name),
+        })),
+        refundable: getRefundableLines(order, refunds),
+      },
+    });
+  } catch (error) {
+    console.error("[REFUNDS] Error loading refunds:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load refunds" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/orders/{orderId}/refund
+ *
+ * Refund product quantities and/or baskets of an order (requires orders.refund)
+ * Returns refunded products to stock, takes back the loyalty points they
+ * earned and returns the refund with its printable slip.
+ * Body: { lines: [{ type: "product", product_id, quantity } | { type: "basket", basket_number }], method: "cash" | "gcash", reason }
+ */
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  const { orderId } = await params;
+
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("orders.refund");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // === VALIDATE ===
+    const body = await request.json().catch(() => ({}));
+    const validationError = validateRefundRequest(body);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const lines = (body.lines as RefundRequestLine[]).map((line) =>
+      line.type === "product"
+        ? { type: "product" as const, product_id: line.product_id, quantity: Number(line.quantity) }
+        : { type: "basket" as const, basket_number: Number(line.basket_number) }
+    );
+
+    // === REFUND ===
+    const result = await createOrderRefund(supabase, orderId, {
+      lines,
+      method: body.method as RefundMethod,
+      reason: body.reason.trim(),
+      staffId: staff.id,
+    });
+
+    if (!result.success) {
+      console.error("[REFUNDS] Refund failed:", result.error);
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const refund = {
+      ...result.refund,
+      staff_name: `${staff.first_name} ${staff.last_name}`,
+    };
+
+    console.log("[REFUNDS] Refund created:", {
+      id: refund.id,
+      order_id: orderId,
+      amount: refund.amount,
+      method: refund.method,
+      loyalty_points_reversed: refund.loyalty_points_reversed,
+    });
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: "refund.create",
+      entityType: "refund",
+      entityId: refund.id,
+      after: result.refund,
+      metadata: { order_id: orderId },
+    });
+
+    const { data: order } = await supabase
+      .from("orders")
+      .select(ORDER_SELECT)
+      .eq("id", orderId)
+      .single();
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { ...refund, slip: formatRefundSlip(refund, order ? customerName(order) : "Walk-in") },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("[REFUNDS] Unexpected error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
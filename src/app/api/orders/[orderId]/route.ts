@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@supabase/ssr';
+import { requireStaff } from '@/src/app/utils/staff-auth';
+import { recordAudit } from '@/src/app/utils/auditLog';
 
 // Helper functions
 function notFound(message: string) {
@@ -10,27 +12,6 @@ function serverError(message: string) {
   return NextResponse.json({ error: message }, { status: 500 });
 }
 
-async function verifyAuth(request: NextRequest) {
-  try {
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader?.startsWith('Bearer ')) {
-      return {
-        success: false,
-        error: NextResponse.json(
-          { error: 'Unauthorized' },
-          { status: 401 }
-        ),
-      };
-    }
-    return { success: true };
-  } catch (error) {
-    return {
-      success: false,
-      error: serverError('Authentication failed'),
-    };
-  }
-}
-
 /**
  * GET /api/orders/:orderId
  * 
@@ -44,11 +25,9 @@ export async function GET(
   try {
     const { orderId } = await params;
     
-    // Authenticate user
-    const authResult = await verifyAuth(request);
-    if (!authResult.success) {
-      return authResult.error;
-    }
+    // Authorize staff (cookie session or Bearer token)
+    const auth = await requireStaff('orders.view', request);
+    if (!auth.success) return auth.response;
 
     const supabase = createServerClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -130,11 +109,9 @@ export async function PUT(
   try {
     const { orderId } = await params;
 
-    // Authenticate user
-    const authResult = await verifyAuth(request);
-    if (!authResult.success) {
-      return authResult.error;
-    }
+    // Authorize staff (cookie session or Bearer token)
+    const auth = await requireStaff('orders.update_status', request);
+    if (!auth.success) return auth.response;
 
     const supabase = createServerClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -195,6 +172,15 @@ export async function PUT(
       return serverError('Failed to update order');
     }
 
+    await recordAudit(supabase, {
+      staffId: auth.data.staff.id,
+      action: 'order.update_handling',
+      entityType: 'order',
+      entityId: orderId,
+      before: { handling: currentOrder.handling },
+      after: { handling: updatedHandling },
+    });
+
     return NextResponse.json(
       {
         success: true,
@@ -1,39 +1,70 @@
+import { createClient } from "@supabase/supabase-js";
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/src/app/utils/supabase/server";
-import { sendPushNotification, sendRiderPushNotification } from "@/src/app/utils/send-notification";
-import { awardLoyaltyPoints } from "@/src/app/utils/send-notification";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { hasPermission } from "@/src/app/utils/permissions";
+import { recordAudit } from "@/src/app/utils/auditLog";
+import { sendPushNotification } from "@/src/app/utils/send-notification";
+import { offerNextRider } from "@/src/app/utils/rider-dispatch";
+import { transitionOrder } from "@/src/app/utils/orderStatus.server";
+import { gcashAcceptanceError } from "@/src/app/utils/gcashVerification";
+import { isRiderLeg } from "@/src/app/utils/routePlanner";
+import {
+  handlingProofFormFromJson,
+  hasHandlingProof,
+  HandlingProof,
+  HandlingProofInput,
+  parseHandlingProof,
+  removeHandlingProof,
+  storeHandlingProof,
+} from "@/src/app/utils/handling-proofs";
 
 /**
  * PATCH /api/orders/{orderId}/serviceStatus
  * 
  * Update handling status (pickup/delivery)
  * Legacy endpoint for handling updates (not service updates)
+ * Body: { action: "start" | "complete", handlingType: "pickup" | "delivery" }
+ *
+ * Completing a leg a rider goes out for needs proof: photo, signature?
+ * (images), recipient_name, lat, lng and accuracy_m? (see
+ * utils/handling-proofs.ts), sent as multipart/form-data with the fields
+ * above, or as JSON with the images as data URLs. JSON completions without
+ * any proof fields come from rider apps that predate proofs; they are let
+ * through with a warning until HANDLING_PROOF_REQUIRED=true.
+ * Staff with orders.process can update any order; the rider assigned to an
+ * order can complete its legs.
  */
 
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ orderId: string }> }
 ) {
-  const supabase = await createClient();
   const { orderId } = await params;
 
   try {
-    // === AUTHENTICATE ===
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser();
-
-    if (authError || !user) {
-      return NextResponse.json(
-        { success: false, error: "Unauthorized" },
-        { status: 401 }
-      );
-    }
+    // === AUTHORIZE ===
+    const auth = await requireStaff("orders.update_status", request);
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
 
     // === PARSE REQUEST ===
-    const body = await request.json();
-    const { staffId, action, handlingType } = body;
+    let action: string | undefined;
+    let handlingType: string | undefined;
+    let proofForm: FormData | null = null;
+
+    if (request.headers.get("content-type")?.includes("multipart/form-data")) {
+      proofForm = await request.formData();
+      const field = (name: string) => {
+        const value = proofForm?.get(name);
+        return typeof value === "string" && value ? value : undefined;
+      };
+      action = field("action");
+      handlingType = field("handlingType");
+    } else {
+      const body = await request.json();
+      ({ action, handlingType } = body);
+      proofForm = handlingProofFormFromJson(body);
+    }
 
     if (!action || !handlingType) {
       return NextResponse.json(
@@ -59,7 +90,7 @@ export async function PATCH(
     // === FETCH CURRENT ORDER ===
     const { data: order, error: fetchError } = await supabase
       .from("orders")
-      .select("handling, status, cashier_id, customer_id")
+      .select("handling, status, cashier_id, customer_id, assigned_rider_id, gcash_verification_status")
       .eq("id", orderId)
       .single();
 
@@ -70,6 +101,77 @@ export async function PATCH(
       );
     }
 
+    const isAssignedRider = action === "complete" && order.assigned_rider_id === staff.id;
+    if (!hasPermission(staff.permissions, "orders.process") && !isAssignedRider) {
+      return NextResponse.json(
+        { success: false, error: "You do not have permission to do this" },
+        { status: 403 }
+      );
+    }
+
+    // Starting the pickup accepts a pending order
+    if (handlingType === "pickup" && action === "start" && order.status === "pending") {
+      const acceptanceError = gcashAcceptanceError(order);
+      if (acceptanceError) {
+        return NextResponse.json(
+          { success: false, error: acceptanceError },
+          { status: 409 }
+        );
+      }
+    }
+
+    // === PROOF OF PICKUP / DELIVERY ===
+    const leg = handlingType as "pickup" | "delivery";
+    const needsProof = action === "complete" && isRiderLeg(order.handling, leg);
+    let proof: HandlingProofInput | null = null;
+
+    // Use service role key: the proofs bucket has no storage policies
+    const serviceClient = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          persistSession: false,
+          autoRefreshToken: false,
+        },
+      }
+    );
+
+    if (needsProof && proofForm) {
+      const parsed = parseHandlingProof(proofForm);
+      if (!parsed.success) {
+        return NextResponse.json(
+          { success: false, error: parsed.error },
+          { status: 400 }
+        );
+      }
+      proof = parsed.data;
+    } else if (needsProof && !(await hasHandlingProof(serviceClient, orderId, leg))) {
+      if (process.env.HANDLING_PROOF_REQUIRED === "true") {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `A photo, recipient name and location are required to complete the ${leg}`,
+          },
+          { status: 400 }
+        );
+      }
+      console.warn(`[HANDLING PROOF] ${leg} of order ${orderId} completed without proof by an older rider app`);
+    }
+
+    // Stored only once the request is known to be good, and removed again
+    // below if the completion cannot be saved
+    let storedProof: HandlingProof | null = null;
+    if (proof) {
+      storedProof = await storeHandlingProof(serviceClient, {
+        orderId,
+        leg,
+        staffId: staff.id,
+        input: proof,
+      });
+    }
+    const proofId = storedProof?.id ?? null;
+
     // === UPDATE HANDLING STATUS ===
     const handling = order.handling || {};
     const status = action === "start" ? "in_progress" : "completed";
@@ -83,6 +185,7 @@ export async function PATCH(
         status,
         ...(action === "start" && { started_at: now }),
         ...(action === "complete" && { completed_at: now }),
+        ...(proofId && { proof_id: proofId }),
       },
     };
 
@@ -94,64 +197,64 @@ export async function PATCH(
 
     if (updateError) {
       console.error("[HANDLING UPDATE] Error updating handling:", updateError);
+      if (storedProof) {
+        await removeHandlingProof(serviceClient, storedProof).catch((error) =>
+          console.warn(`[HANDLING PROOF] Failed to remove proof ${storedProof?.id}:`, error)
+        );
+      }
       return NextResponse.json(
         { success: false, error: "Failed to update handling status" },
         { status: 500 }
       );
     }
 
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: `order.${handlingType}_${action}`,
+      entityType: "order",
+      entityId: orderId,
+      before: { handling },
+      after: { handling: updatedHandling },
+      ...(proofId && { metadata: { proof_id: proofId } }),
+    });
+
     // === UPDATE ORDER STATUS IF NEEDED ===
     if (handlingType === "delivery" && status === "completed") {
       // If delivery is completed, mark order as completed
-      const { error: statusError } = await supabase
-        .from("orders")
-        .update({ status: "completed" })
-        .eq("id", orderId);
-
-      if (statusError) {
-        console.warn("[Order Status Update] Warning:", statusError);
-      } else {
-        console.log(
-          `[Order Status Update] Order ${orderId} updated to completed (delivery done)`
-        );
-      }
+      // (loyalty points are awarded by the order lifecycle)
+      const result = await transitionOrder(supabase, orderId, "completed", {
+        staffId: staff.id,
+        reason: "Delivery completed",
+      });
 
-      // === AWARD LOYALTY POINTS ON COMPLETION ===
-      if (order.customer_id) {
-        const success = await awardLoyaltyPoints(
-          order.customer_id,
-          supabase,
-          1
-        );
-        if (!success) {
-          console.warn(
-            `[Loyalty Points] Failed to award points for order ${orderId}`
-          );
-        }
+      if (!result.success) {
+        console.warn("[Order Status Update] Warning:", result.error);
       }
     } else if (handlingType === "pickup" && status === "in_progress") {
       // If pickup starts, move to processing and assign cashier
-      const updateData: any = { status: "processing" };
+      const result = await transitionOrder(supabase, orderId, "processing", {
+        staffId: staff.id,
+        reason: "Pickup started",
+        from: ["pending"],
+      });
 
-      // If staffId is provided and order doesn't have a cashier yet, assign it
-      if (staffId && !order.cashier_id) {
-        updateData.cashier_id = staffId;
-        console.log(
-          `[Order Approval] Assigning staff ${staffId} as cashier for order ${orderId}`
-        );
+      if (!result.success) {
+        console.warn("[Order Status Update] Warning:", result.error);
       }
 
-      const { error: statusError } = await supabase
-        .from("orders")
-        .update(updateData)
-        .eq("id", orderId);
-
-      if (statusError) {
-        console.warn("[Order Status Update] Warning:", statusError);
-      } else {
+      // The staff member accepting the order becomes its cashier if it has none
+      if (!order.cashier_id) {
         console.log(
-          `[Order Status Update] Order ${orderId} updated to processing (pickup started)`
+          `[Order Approval] Assigning staff ${staff.id} as cashier for order ${orderId}`
         );
+        const { error: cashierError } = await supabase
+          .from("orders")
+          .update({ cashier_id: staff.id })
+          .eq("id", orderId);
+
+        if (cashierError) {
+          console.warn("[Order Approval] Warning:", cashierError);
+        }
       }
     }
 
@@ -162,30 +265,13 @@ export async function PATCH(
       new_status: status,
     });
 
-    // === NOTIFY RIDERS when pickup starts ===
+    // === DISPATCH A RIDER when pickup starts ===
+    // Offered to one rider at a time (see utils/rider-dispatch.ts)
     if (handlingType === "pickup" && action === "start") {
-      const customerName = order.customer_id
-        ? await (async () => {
-            const { data: cust } = await supabase
-              .from("customers")
-              .select("first_name, last_name")
-              .eq("id", order.customer_id)
-              .single();
-            return cust ? `${cust.first_name} ${cust.last_name}` : "A customer";
-          })()
-        : "A customer";
-
-      const pickupAddress = updatedHandling?.pickup?.address || order.handling?.pickup?.address || "N/A";
-
-      await sendRiderPushNotification(
-        "📍 New Pickup Assignment",
-        `${customerName} - Pickup at ${pickupAddress}`,
-        {
-          type: "pickup_started",
-          orderId,
-          pickupAddress,
-        }
-      );
+      const dispatch = await offerNextRider(orderId, "pickup");
+      if (!dispatch.success) {
+        console.warn(`[DISPATCH] Pickup of order ${orderId} not dispatched: ${dispatch.error}`);
+      }
     }
 
     // === SEND PUSH NOTIFICATION (to customer) ===
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import {
+  GCASH_VERIFICATION_STATUSES,
+  GcashVerificationStatus,
+  loadGcashQueue,
+} from "@/src/app/utils/gcashVerification";
+
+/**
+ * GET /api/orders/gcashQueue?status=pending,reupload_requested
+ *
+ * Orders whose GCash receipt is waiting for review, oldest first, with the
+ * orders that already used the same reference (requires payments.verify)
+ * Defaults to receipts that are pending, rejected or sent back for re-upload.
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("payments.verify");
+    if (!auth.success) return auth.response;
+    const { supabase } = auth.data;
+
+    // === VALIDATE ===
+    const statusParam = request.nextUrl.searchParams.get("status");
+    const statuses = statusParam ? statusParam.split(",") : undefined;
+    if (statuses?.some((s) => !GCASH_VERIFICATION_STATUSES.includes(s as GcashVerificationStatus))) {
+      return NextResponse.json(
+        { success: false, error: `status must be one of: ${GCASH_VERIFICATION_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // === FETCH ===
+    const queue = await loadGcashQueue(supabase, statuses as GcashVerificationStatus[] | undefined);
+
+    return NextResponse.json({ success: true, data: queue });
+  } catch (error) {
+    console.error("[GCASH VERIFICATION] Error loading queue:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load GCash receipts" },
+      { status: 500 }
+    );
+  }
+}
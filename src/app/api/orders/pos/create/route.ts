@@ -5,16 +5,28 @@
  * - Creates/updates customer (if needed)
  * - Creates order with breakdown and handling JSONB
  * - Deducts product inventory
- * - Awards loyalty points
+ * - Redeems loyalty points for the selected discount tier
+ * - Records the drop-off tenders (split cash + GCash, or a down-payment that
+ *   leaves a balance due at pickup)
+ * - Charges the zone-priced delivery fee unless the cashier overrides it
+ *   with handling.delivery_fee_override_reason
  * - Generates receipt
+ * - Queues the receipt and basket tags for the thermal printer
+ *   (utils/printJobs.ts) unless print is false
  * 
- * All-or-nothing: Single failure rolls back entire transaction
+ * All-or-nothing: the create_order database function (utils/create-order.ts)
+ * rolls back every write if any step fails
  * 
  * Authenticated: Requires valid Supabase session (staff user)
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/src/app/utils/supabase/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { createOrder } from "@/src/app/utils/create-order";
+import { tendersFromHandling } from "@/src/app/utils/orderPayments";
+import { recordAudit } from "@/src/app/utils/auditLog";
+import { enqueueOrderPrintJobs } from "@/src/app/utils/printJobs";
+import { PaymentTender } from "@/src/app/in/pos/logic/posTypes";
 
 interface CreateOrderRequest {
   customer_id?: string | null;
@@ -25,186 +37,37 @@ interface CreateOrderRequest {
     email?: string;
   };
   breakdown: any; // OrderBreakdown JSONB with items, baskets, summary
-  handling: any; // OrderHandling JSONB with: pickup, delivery, payment_method, amount_paid, scheduled, scheduled_date, scheduled_time
+  handling: any; // OrderHandling JSONB with: pickup, delivery, payment_method, amount_paid, scheduled, scheduled_date, scheduled_time, slot_id
   loyalty?: {
-    discount_tier: null | 'tier1' | 'tier2';
+    discount_tier: string | null; // loyalty_tiers.id
   };
+  payments?: PaymentTender[]; // Defaults to the single payment in handling
+  print?: boolean; // Queue the receipt and basket tags, defaults to true
 }
 
 export async function POST(request: NextRequest) {
   console.log("[POS CREATE] POST /api/orders/pos/create called");
-  const supabase = await createClient();
-
   try {
-    // === AUTHENTICATE ===
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser();
-
-    if (authError || !user) {
-      return NextResponse.json(
-        { success: false, error: "Unauthorized" },
-        { status: 401 }
-      );
-    }
+    // === AUTHORIZE ===
+    const auth = await requireStaff("pos.use");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
 
-    // Get staff record
-    const { data: staffData, error: staffError } = await supabase
-      .from("staff")
-      .select("id")
-      .eq("auth_id", user.id)
-      .single();
-
-    if (staffError || !staffData) {
-      return NextResponse.json(
-        { success: false, error: "Staff record not found" },
-        { status: 401 }
-      );
-    }
-
-    const cashierId = staffData.id;
+    const cashierId = staff.id;
 
     // === PARSE REQUEST ===
     const body: CreateOrderRequest = await request.json();
     console.log("[POS CREATE] Parsed request body, baskets count:", body.breakdown?.baskets?.length || 0);
-    if (body.breakdown?.baskets?.[0]) {
-      console.log("[POS CREATE] Basket[0].services:", body.breakdown.baskets[0].services);
-      console.log("[POS CREATE] Basket[0].services.additional_dry_time_minutes:", body.breakdown.baskets[0].services?.additional_dry_time_minutes);
-    }
-
-    // *** ENTRY POINT TRACE ***
-    console.log("[TRACE-ENTRY] Frontend sent breakdown:", {
-      baskets_count: body.breakdown?.baskets?.length,
-      basket_0_subtotal: body.breakdown?.baskets?.[0]?.subtotal,
-      summary_subtotal_services: body.breakdown?.summary?.subtotal_services,
-      summary_total: body.breakdown?.summary?.total,
-      raw_json: JSON.stringify({
-        baskets: body.breakdown?.baskets?.map((b: any) => ({ subtotal: b.subtotal, services: b.services })),
-        summary: body.breakdown?.summary,
-      })
-    });
-
-    // === HELPER: Enrich services with pricing snapshots ===
-    async function enrichServicesWithPricing(breakdown: any) {
-      console.log("[ENRICH] Function called, baskets count:", breakdown.baskets?.length || 0);
-      if (!breakdown.baskets || !Array.isArray(breakdown.baskets)) {
-        console.log("[ENRICH] No baskets array, returning early");
-        return breakdown;
-      }
-
-      // Fetch all active services from database
-      const { data: allServices, error: servicesError } = await supabase
-        .from("services")
-        .select("service_type, tier, name, base_price");
-
-      if (servicesError || !allServices) {
-        console.error("[ENRICH] Failed to fetch services:", servicesError?.message);
-        return breakdown; // Return unchanged if fetch fails
-      }
-
-      console.log("[ENRICH] Fetched", allServices.length, "services from DB");
-
-      // Build pricing map: service_type + tier -> pricing info
-      const pricingMap: Record<string, any> = {};
-      for (const service of allServices) {
-        const key = `${service.service_type}:${service.tier || "null"}`;
-        pricingMap[key] = {
-          base_price: service.base_price,
-          service_type: service.service_type,
-          name: service.name,
-          tier: service.tier,
-        };
-      }
-
-      console.log("[ENRICH] Built pricing map with", Object.keys(pricingMap).length, "entries");
-
-      // Enrich each basket's services object with pricing snapshots
-      const enrichedBreakdown = {
-        ...breakdown,
-        baskets: breakdown.baskets.map((basket: any, idx: number) => {
-          const services = basket.services || {};
-          const enrichedServices = { ...services };
-
-          console.log("[ENRICH] Processing basket", idx, "with services:", Object.keys(services));
-
-          // Add pricing snapshot for each service type
-          // WASH
-          if (services.wash && services.wash !== "off") {
-            const pricingKey = `wash:${services.wash}`;
-            enrichedServices.wash_pricing = pricingMap[pricingKey] || {};
-            console.log("[ENRICH] Added wash_pricing for key", pricingKey);
-          }
-
-          // DRY
-          if (services.dry && services.dry !== "off") {
-            const pricingKey = `dry:${services.dry}`;
-            enrichedServices.dry_pricing = pricingMap[pricingKey] || {};
-            console.log("[ENRICH] Added dry_pricing for key", pricingKey);
-          }
-
-          // SPIN
-          if (services.spin) {
-            const pricingKey = `spin:null`;
-            enrichedServices.spin_pricing = pricingMap[pricingKey] || {};
-            console.log("[ENRICH] Added spin_pricing for key", pricingKey);
-          }
-
-          // IRON
-          if (services.iron_weight_kg && services.iron_weight_kg > 0) {
-            const pricingKey = `iron:null`;
-            enrichedServices.iron_pricing = pricingMap[pricingKey] || {};
-            console.log("[ENRICH] Added iron_pricing for key", pricingKey);
-          }
-
-          // FOLD
-          if (services.fold && services.fold !== "off") {
-            const pricingKey = `fold:${services.fold}`;
-            enrichedServices.fold_pricing = pricingMap[pricingKey] || {};
-            console.log("[ENRICH] Added fold_pricing for key", pricingKey);
-          }
-
-          // ADDITIONAL DRY TIME
-          if (services.additional_dry_time_minutes && services.additional_dry_time_minutes > 0) {
-            // Additional dry time is ₱15 per 8 minutes (hardcoded constant)
-            enrichedServices.additional_dry_time_pricing = {
-              service_type: "additional_dry_time",
-              price_per_increment: 15,
-              minutes_per_increment: 8,
-              total_minutes: services.additional_dry_time_minutes,
-              total_price: (services.additional_dry_time_minutes / 8) * 15,
-            };
-            console.log("[ENRICH] Added additional_dry_time_pricing:", enrichedServices.additional_dry_time_pricing);
-          }
-
-          // STAFF SERVICE (fee is per-order, add to summary but note it in services)
-          enrichedServices.staff_service_pricing = pricingMap["staff_service:null"] || {};
-
-          console.log("[ENRICH] Basket", idx, "enriched with", Object.keys(enrichedServices).filter(k => k.includes('pricing')).length, "pricing fields");
-
-          return {
-            ...basket,
-            services: enrichedServices,
-          };
-        }),
-      };
-
-      console.log("[ENRICH] Returning enriched breakdown");
-      return enrichedBreakdown;
-    }
-
-    // === VALIDATE INPUT ===
-    if (!body.breakdown) {
-      return NextResponse.json(
-        { success: false, error: "Missing breakdown data" },
-        { status: 400 }
-      );
-    }
 
     // === BUILD HANDLING STRUCTURE ===
     // For POS orders, pickup is always from "store"
     // Delivery can be "store" (in-store) or a real address from the request
     const handling = {
+      // Kept so the server can recompute fees from the cashier's choices
+      service_type: body.handling?.service_type,
+      handling_type: body.handling?.handling_type,
+      delivery_fee_override: body.handling?.delivery_fee_override ?? null,
+      delivery_fee_override_reason: body.handling?.delivery_fee_override_reason || null,
       pickup: {
         address: "store",
         status: "pending" as const,
@@ -222,384 +85,74 @@ export async function POST(request: NextRequest) {
       // Include payment info if provided
       payment_method: body.handling?.payment_method || null,
       amount_paid: body.handling?.amount_paid || null,
+      gcash_reference: body.handling?.gcash_reference?.trim() || undefined,
       // Include scheduling info if provided
       scheduled: body.handling?.scheduled || false,
       scheduled_date: body.handling?.scheduled_date || undefined,
       scheduled_time: body.handling?.scheduled_time || undefined,
+      slot_id: body.handling?.slot_id || undefined,
     };
 
-    // Replace body.handling with the properly structured version
-    body.handling = handling;
-
-    // Validate baskets have services object
-    if (body.breakdown.baskets && Array.isArray(body.breakdown.baskets)) {
-      for (let i = 0; i < body.breakdown.baskets.length; i++) {
-        const basket = body.breakdown.baskets[i];
-        if (!basket.services || typeof basket.services !== "object" || Array.isArray(basket.services)) {
-          return NextResponse.json(
-            { success: false, error: `Basket ${i + 1} missing services object` },
-            { status: 400 }
-          );
-        }
-      }
-    }
-
-    // Customer validation
-    if (!body.customer_id && !body.customer_data) {
-      return NextResponse.json(
-        { success: false, error: "Customer ID or customer data required" },
-        { status: 400 }
-      );
-    }
-
-    if (body.customer_data) {
-      if (
-        !body.customer_data.first_name?.trim() ||
-        !body.customer_data.last_name?.trim() ||
-        !body.customer_data.phone_number?.trim()
-      ) {
-        return NextResponse.json(
-          { success: false, error: "Customer first/last name and phone required" },
-          { status: 400 }
-        );
-      }
-    }
-
-    // === TRANSACTION BEGIN ===
-    // For Supabase, we use RLS with service role key to bypass
-    // For atomicity, we'll use a single INSERT with dependencies
-
-    let customerId: string;
-
-    // STEP 1: Create or get customer
-    if (body.customer_id) {
-      customerId = body.customer_id;
-    } else {
-      const { data: newCustomer, error: customerError } = await supabase
-        .from("customers")
-        .insert({
-          first_name: body.customer_data!.first_name,
-          last_name: body.customer_data!.last_name,
-          phone_number: body.customer_data!.phone_number,
-          email_address: body.customer_data!.email || null,
-          loyalty_points: 0,
-        })
-        .select("id")
-        .single();
-
-      if (customerError || !newCustomer) {
-        console.error("Customer creation error:", customerError);
-        return NextResponse.json(
-          { success: false, error: "Failed to create customer" },
-          { status: 500 }
-        );
-      }
-
-      customerId = newCustomer.id;
-    }
-
-    // STEP 2: Validate inventory before creating order
-    // First, ensure plastic bags from baskets are included in items
-    const itemsToValidate = [...(body.breakdown.items || [])];
-    
-    // Collect plastic bags from all baskets
-    if (body.breakdown.baskets && Array.isArray(body.breakdown.baskets)) {
-      const totalPlasticBags = body.breakdown.baskets.reduce(
-        (sum: number, basket: any) => sum + (basket.services?.plastic_bags || 0),
-        0
-      );
-      
-      if (totalPlasticBags > 0) {
-        // Find or create plastic bag product entry
-        const plasticBagIndex = itemsToValidate.findIndex(
-          (item: any) => item.product_name?.toLowerCase().includes("plastic") || item.product_name?.toLowerCase().includes("bag")
-        );
-        
-        if (plasticBagIndex >= 0) {
-          // Update existing plastic bag entry
-          itemsToValidate[plasticBagIndex].quantity = totalPlasticBags;
-        } else {
-          // Need to find plastic bag product ID from database
-          const { data: plasticBagProduct, error: pbError } = await supabase
-            .from("products")
-            .select("id")
-            .or("item_name.ilike.%plastic%,item_name.ilike.%bag%")
-            .limit(1)
-            .single();
-          
-          if (pbError || !plasticBagProduct) {
-            // Create plastic bag product if it doesn't exist
-            const { data: newBagProduct, error: createBagError } = await supabase
-              .from("products")
-              .insert({
-                item_name: "Plastic Bags",
-                unit_price: 0.50,
-                quantity: 1000, // Stock a large quantity
-                is_active: true,
-              })
-              .select("id")
-              .single();
-            
-            if (createBagError || !newBagProduct) {
-              console.error("Failed to create plastic bag product:", createBagError);
-              return NextResponse.json(
-                { success: false, error: "Failed to create plastic bag product" },
-                { status: 500 }
-              );
-            }
-            
-            itemsToValidate.push({
-              product_id: newBagProduct.id,
-              product_name: "Plastic Bags",
-              unit_price: 0.50,
-              quantity: totalPlasticBags,
-              subtotal: totalPlasticBags * 0.50,
-            });
-          } else {
-            itemsToValidate.push({
-              product_id: plasticBagProduct.id,
-              product_name: "Plastic Bags",
-              unit_price: 0.50,
-              quantity: totalPlasticBags,
-              subtotal: totalPlasticBags * 0.50,
-            });
-          }
-        }
-      }
-    }
-
-    // Now validate all items (including plastic bags)
-    for (const item of itemsToValidate) {
-      const { data: product, error: productError } = await supabase
-        .from("products")
-        .select("quantity")
-        .eq("id", item.product_id)
-        .single();
-
-      if (productError || !product) {
-        return NextResponse.json(
-          {
-            success: false,
-            error: `Product ${item.product_id} not found`,
-          },
-          { status: 404 }
-        );
-      }
-
-      if (product.quantity < item.quantity) {
-        return NextResponse.json(
-          {
-            success: false,
-            error: `Insufficient stock for product ${item.product_id}. Available: ${product.quantity}, Requested: ${item.quantity}`,
-          },
-          { status: 402 }
-        );
-      }
-    }
-    
-    // Update breakdown items to include plastic bags
-    body.breakdown.items = itemsToValidate;
-
-    // === STEP 3A: Enrich services with pricing snapshots ===
-    console.log("[POS CREATE] About to enrich services");
-    body.breakdown = await enrichServicesWithPricing(body.breakdown);
-    console.log("[POS CREATE] Services enriched");
-    if (body.breakdown?.baskets?.[0]) {
-      console.log("[POS CREATE] After enrichment - Basket[0].services.additional_dry_time_minutes:", body.breakdown.baskets[0].services?.additional_dry_time_minutes);
-    }
-
-    // STEP 3: Create order
-    console.log("[POS CREATE] About to insert order. Final breakdown baskets[0].services.additional_dry_time_minutes:", body.breakdown.baskets?.[0]?.services?.additional_dry_time_minutes);
-    console.log("[POS CREATE] Final breakdown baskets[0].subtotal:", body.breakdown.baskets?.[0]?.subtotal);
-    console.log("[POS CREATE] Final breakdown summary.subtotal_services:", body.breakdown.summary?.subtotal_services);
-    console.log("[POS CREATE] Final breakdown summary.total:", body.breakdown.summary?.total);
-    const { data: newOrder, error: orderError } = await supabase
-      .from("orders")
-      .insert({
-        customer_id: customerId,
-        cashier_id: cashierId,
-        source: "pos", // POS orders always have source='pos'
-        breakdown: body.breakdown,
-        handling: body.handling,
-        status: "pending",
-        total_amount: body.breakdown.summary.total,
-        created_at: new Date().toISOString(),
-      })
-      .select("id")
-      .single();
+    // === CREATE ORDER (single transaction) ===
+    const result = await createOrder(
+      supabase,
+      { ...body, customer_id: body.customer_id ?? null, handling },
+      { source: "pos", cashierId }
+    );
 
-    if (orderError || !newOrder) {
-      console.error("Order creation error:", orderError);
+    if (!result.success) {
       return NextResponse.json(
-        { success: false, error: "Failed to create order" },
-        { status: 500 }
+        { success: false, error: result.error, diff: result.diff },
+        { status: result.status }
       );
     }
 
-    const orderId = newOrder.id;
-
-    // *** EXIT POINT TRACE - VERIFY WHAT WAS SAVED ***
-    const { data: verifyOrder, error: verifyError } = await supabase
-      .from("orders")
-      .select("id, breakdown, total_amount")
-      .eq("id", orderId)
-      .single();
-
-    console.log("[TRACE-EXIT] Backend saved breakdown:", {
-      order_id: orderId,
-      total_amount_field: verifyOrder?.total_amount,
-      basket_0_subtotal: verifyOrder?.breakdown?.baskets?.[0]?.subtotal,
-      summary_subtotal_services: verifyOrder?.breakdown?.summary?.subtotal_services,
-      summary_total: verifyOrder?.breakdown?.summary?.total,
-      discrepancy: (verifyOrder?.breakdown?.summary?.total || 0) - (verifyOrder?.total_amount || 0),
-      raw_json: JSON.stringify({
-        baskets: verifyOrder?.breakdown?.baskets?.map((b: any) => ({ subtotal: b.subtotal })),
-        summary: verifyOrder?.breakdown?.summary,
-      })
+    const orderId = result.order_id;
+
+    await recordAudit(supabase, {
+      staffId: cashierId,
+      action: "order.create",
+      entityType: "order",
+      entityId: orderId,
+      after: {
+        customer_id: result.customer_id,
+        total_amount: result.breakdown.summary.total,
+        payment_method: handling.payment_method,
+        amount_paid: handling.amount_paid,
+        payments: body.payments,
+        delivery_fee_override: handling.delivery_fee_override,
+        delivery_fee_override_reason: handling.delivery_fee_override_reason,
+      },
+      metadata: { source: "pos" },
     });
 
-    // STEP 4: Deduct inventory (product_transactions)
-    // Collect all items to deduct: regular items + plastic bags from baskets
-    const itemsToDeduct = [...(body.breakdown.items || [])];
-    
-    // Add plastic bags to deduction list
-    if (body.breakdown.baskets && Array.isArray(body.breakdown.baskets)) {
-      const totalPlasticBags = body.breakdown.baskets.reduce(
-        (sum: number, basket: any) => sum + (basket.services?.plastic_bags || 0),
-        0
-      );
-      
-      if (totalPlasticBags > 0) {
-        // Find plastic bag product
-        const { data: plasticBagProduct } = await supabase
-          .from("products")
-          .select("id")
-          .or("item_name.ilike.%plastic%,item_name.ilike.%bag%")
-          .limit(1)
-          .single();
-        
-        if (plasticBagProduct) {
-          // Check if already in items list
-          const existingIndex = itemsToDeduct.findIndex(
-            (item: any) => item.product_id === plasticBagProduct.id
-          );
-          
-          if (existingIndex >= 0) {
-            itemsToDeduct[existingIndex].quantity += totalPlasticBags;
-          } else {
-            itemsToDeduct.push({
-              product_id: plasticBagProduct.id,
-              product_name: "Plastic Bags",
-              unit_price: 0.50,
-              quantity: totalPlasticBags,
-              subtotal: totalPlasticBags * 0.50,
-            });
-          }
-        }
-      }
-    }
-    
-    // Deduct all items including plastic bags
-    for (const item of itemsToDeduct) {
-      // Create product transaction record
-      const { error: txError } = await supabase
-        .from("product_transactions")
-        .insert({
-          product_id: item.product_id,
-          order_id: orderId,
-          quantity_change: -item.quantity, // Negative = deduction
-          transaction_type: "order",
-          notes: `POS order ${orderId}`,
-          created_at: new Date().toISOString(),
-        });
-
-      if (txError) {
-        console.error("Transaction error:", txError);
-        // Rollback order creation if transaction fails
-        await supabase.from("orders").delete().eq("id", orderId);
-        return NextResponse.json(
-          { success: false, error: "Failed to create inventory transaction" },
-          { status: 500 }
-        );
-      }
-
-      // Get current quantity before updating
-      const { data: currentProduct, error: getError } = await supabase
-        .from("products")
-        .select("quantity")
-        .eq("id", item.product_id)
-        .single();
-
-      if (getError || !currentProduct) {
-        console.error("Failed to fetch current product quantity:", getError);
-        // Rollback order creation
-        await supabase.from("orders").delete().eq("id", orderId);
-        return NextResponse.json(
-          { success: false, error: "Failed to update inventory" },
-          { status: 500 }
-        );
-      }
-
-      // Update product stock
-      const newQuantity = currentProduct.quantity - item.quantity;
-      const { error: updateError } = await supabase
-        .from("products")
-        .update({ quantity: newQuantity })
-        .eq("id", item.product_id);
-
-      if (updateError) {
-        console.error("Failed to update product quantity:", updateError);
-        // Rollback order creation
-        await supabase.from("orders").delete().eq("id", orderId);
-        return NextResponse.json(
-          { success: false, error: "Failed to update product inventory" },
-          { status: 500 }
-        );
-      }
-    }
+    // NOTE: Loyalty points are awarded when order is completed, not at creation
 
-    // STEP 5: Award or deduct loyalty points
-    const discountTier = body.loyalty?.discount_tier || null;
-    
-    if (discountTier) {
-      // Customer is using loyalty discount - deduct points
-      let pointsToDeduct = 0;
-      if (discountTier === 'tier1') pointsToDeduct = 10;  // 10 points for 5% discount
-      if (discountTier === 'tier2') pointsToDeduct = 20;  // 20 points for 15% discount
-      
-      if (pointsToDeduct > 0) {
-        const { data: currentCustomer } = await supabase
-          .from("customers")
-          .select("loyalty_points")
-          .eq("id", customerId)
-          .single();
-        
-        if (currentCustomer) {
-          const newPoints = Math.max(0, (currentCustomer.loyalty_points || 0) - pointsToDeduct);
-          const { error: updateError } = await supabase
-            .from("customers")
-            .update({ loyalty_points: newPoints })
-            .eq("id", customerId);
-          
-          if (updateError) {
-            console.error("Failed to deduct loyalty points:", updateError);
-          }
-        }
+    // === PRINT ===
+    // A printer problem never fails the order; the cashier can reprint
+    if (body.print !== false) {
+      const printJobs = await enqueueOrderPrintJobs(supabase, orderId, { staffId: cashierId });
+      if (!printJobs.success) {
+        console.error("[POS CREATE] Failed to queue print jobs:", printJobs.error);
       }
     }
-    // NOTE: Loyalty points are awarded when order is completed, not at creation
 
-    // STEP 6: Generate receipt data
+    // === GENERATE RECEIPT DATA ===
+    const payments = body.payments ?? tendersFromHandling(handling, result.breakdown.summary.total);
+    const paid = payments.reduce((sum, p) => sum + p.amount, 0);
+    const cash = payments.find((p) => p.method === "cash");
     const receiptData = {
       order_id: orderId,
       customer_name: `${body.customer_data?.first_name || "Customer"} ${body.customer_data?.last_name || ""}`.trim(),
-      items: body.breakdown.items || [],
-      baskets: body.breakdown.baskets || [],
-      total: body.breakdown.summary.total,
-      payment_method: body.handling.payment_method,
+      items: result.breakdown.items || [],
+      baskets: result.breakdown.baskets || [],
+      total: result.breakdown.summary.total,
+      payment_method: handling.payment_method,
+      payments,
+      balance_due: Math.round((result.breakdown.summary.total - paid) * 100) / 100,
       change:
-        body.handling.payment_method === "cash"
-          ? body.handling.amount_paid - body.breakdown.summary.total
+        cash?.amount_tendered != null
+          ? cash.amount_tendered - cash.amount
           : undefined,
     };
 
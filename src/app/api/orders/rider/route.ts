@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createServerClient } from "@supabase/ssr";
+import { RIDER_JOB_STATUSES } from "@/src/app/utils/orderStatus";
 
 /**
  * GET /api/orders/rider
  * 
  * Fetch all delivery and pickup orders for riders
- * Returns orders with handling details and location coordinates
+ * Returns orders with handling details, location coordinates and the
+ * rider who accepted the job (assigned_rider_id, see utils/rider-dispatch.ts)
  * Requires rider (staff) authentication
  */
 export async function GET(request: NextRequest) {
@@ -61,10 +63,12 @@ export async function GET(request: NextRequest) {
         created_at,
         handling,
         breakdown,
-        customers:customer_id(first_name, last_name, phone_number)
+        assigned_rider_id,
+        customers:customer_id(first_name, last_name, phone_number),
+        assigned_rider:assigned_rider_id(first_name, last_name)
       `
       )
-      .in("status", ["pending", "processing"])
+      .in("status", RIDER_JOB_STATUSES)
       .order("created_at", { ascending: false });
 
     if (error) {
@@ -33,8 +33,11 @@ export async function GET(request: NextRequest) {
         source,
         customer_id,
         cashier_id,
+        assigned_rider_id,
         status,
         total_amount,
+        amount_paid,
+        payment_status,
         breakdown,
         handling,
         gcash_receipt_url,
@@ -53,6 +56,11 @@ export async function GET(request: NextRequest) {
           first_name,
           last_name
         ),
+        assigned_rider:assigned_rider_id(
+          id,
+          first_name,
+          last_name
+        ),
         service_logs:basket_service_status(
           id,
           basket_number,
@@ -94,8 +102,12 @@ export async function GET(request: NextRequest) {
         source: order.source || 'pos', // 'pos' or 'mobile'
         customer_id: order.customer_id,
         cashier_id: order.cashier_id,
+        assigned_rider_id: order.assigned_rider_id || null,
         status: order.status,
         total_amount: order.total_amount,
+        amount_paid: Number(order.amount_paid) || 0,
+        payment_status: order.payment_status || 'unpaid',
+        balance_due: Math.max(0, Number(order.total_amount) - (Number(order.amount_paid) || 0)),
         order_note: breakdown.order_note || null,
         created_at: order.created_at,
         completed_at: order.updated_at,
@@ -159,13 +171,14 @@ export async function GET(request: NextRequest) {
           },
           payment: breakdown.payment || {
             method: handling.payment_method || 'cash',
-            amount_paid: order.total_amount,
+            amount_paid: Number(order.amount_paid) || 0,
             change: 0,
             payment_status: 'successful',
           },
         },
         customers: order.customers,
         staff: order.staff,
+        assigned_rider: order.assigned_rider || null,
         service_logs: order.service_logs || [],
       };
     });
@@ -1,21 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { transitionOrder } from "@/src/app/utils/orderStatus.server";
+import { recordAudit } from "@/src/app/utils/auditLog";
+import { isOrderStatus, ORDER_STATUSES } from "@/src/app/utils/orderStatus";
+import { requireStaff } from "@/src/app/utils/staff-auth";
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 );
 
-const VALID_STATUSES = ["pending", "processing", "completed", "cancelled"];
-
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ orderId: string }> }
 ) {
   try {
+    // Riders call this from the companion app with a
+    // Bearer token. History records the authenticated staff member.
+    const auth = await requireStaff("orders.update_status", request);
+    if (!auth.success) return auth.response;
+
     const { orderId } = await params;
     const body = await request.json();
-    const { status } = body;
+    const { status, reason } = body;
 
     console.log("[UPDATE-STATUS] Request received:", {
       orderId,
@@ -24,53 +31,51 @@ export async function PATCH(
     });
 
     // Validate status
-    if (!status || !VALID_STATUSES.includes(status)) {
+    if (!isOrderStatus(status)) {
       return NextResponse.json(
-        { error: `Invalid status. Must be one of: ${VALID_STATUSES.join(", ")}` },
+        { error: `Invalid status. Must be one of: ${ORDER_STATUSES.join(", ")}` },
         { status: 400 }
       );
     }
 
-    // Update order
-    const { data: updatedOrder, error: updateError } = await supabase
-      .from("orders")
-      .update({
-        status,
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", orderId)
-      .select("*")
-      .single();
+    // Apply transition (checks allowed transitions, writes status history)
+    const result = await transitionOrder(supabase, orderId, status, {
+      staffId: auth.data.staff.id,
+      reason: reason || null,
+    });
 
-    if (updateError) {
-      console.error("[UPDATE-STATUS] Update error:", updateError);
+    if (!result.success) {
+      console.warn("[UPDATE-STATUS] Transition refused:", result.error);
       return NextResponse.json(
-        { error: "Failed to update order", details: updateError.message },
-        { status: 500 }
+        { error: result.error },
+        { status: result.status }
       );
     }
 
-    if (!updatedOrder) {
-      console.warn("[UPDATE-STATUS] Order not found:", orderId);
-      return NextResponse.json(
-        { error: "Order not found" },
-        { status: 404 }
-      );
-    }
+    await recordAudit(supabase, {
+      staffId: auth.data.staff.id,
+      action: "order.update_status",
+      entityType: "order",
+      entityId: orderId,
+      before: { status: result.from },
+      after: { status: result.to },
+      metadata: reason ? { reason } : null,
+    });
 
     console.log("[UPDATE-STATUS] Success:", {
       orderId,
-      newStatus: status,
-      timestamp: updatedOrder.updated_at,
+      from: result.from,
+      newStatus: result.to,
+      timestamp: result.history.created_at,
     });
 
     return NextResponse.json({
       success: true,
       message: `Order status updated to ${status}`,
       order: {
-        id: updatedOrder.id,
-        status: updatedOrder.status,
-        updated_at: updatedOrder.updated_at,
+        id: orderId,
+        status: result.to,
+        updated_at: result.history.created_at,
       },
     });
   } catch (error) {
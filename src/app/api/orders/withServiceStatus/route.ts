@@ -39,6 +39,8 @@ export async function GET(request: NextRequest) {
         breakdown,
         handling,
         gcash_receipt_url,
+        gcash_verification_status,
+        gcash_verification_note,
         created_at,
         customers:customer_id(
           id,
@@ -127,6 +129,8 @@ export async function GET(request: NextRequest) {
         total_amount: order.total_amount,
         created_at: order.created_at,
         gcash_receipt_url: order.gcash_receipt_url,
+        gcash_verification_status: order.gcash_verification_status,
+        gcash_verification_note: order.gcash_verification_note,
         customers: order.customers,
         staff: order.staff,
         handling: safeHandling,
@@ -1,48 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@/src/app/utils/supabase/server';
+import { requireStaff } from '@/src/app/utils/staff-auth';
+import { buildLegacyBaskets, createOrder, CreateOrderInput } from '@/src/app/utils/create-order';
+import { recordAudit } from '@/src/app/utils/auditLog';
+import { calculateVATAmount, formatTaxRate } from '@/src/app/in/pos/logic/posHelpers';
+import { loadPricingRules } from '@/src/app/utils/pricingRules';
+import { OrderItem } from '@/src/app/in/pos/logic/posTypes';
 
 /**
  * POST /api/pos/create
- * 
+ *
  * Phase 1.2: Main POS order creation endpoint
- * AUTHENTICATED ENDPOINT - requires valid Supabase session
- * 
- * Transactional: Creates customer (if needed), order, deducts inventory, awards loyalty points
- * All-or-nothing: Single failure rolls back entire transaction
+ * AUTHENTICATED ENDPOINT - requires pos.use
+ *
+ * Legacy request shape (customer/baskets/products/summary). The body is
+ * converted to a CreateOrderPayload and created through createOrder(), so
+ * customer, order and inventory are written in one transaction.
  */
 
 export async function POST(request: NextRequest) {
   try {
-    const supabase = await createClient();
+    // STEP 1: Authorize cashier
+    const auth = await requireStaff('pos.use');
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
 
-    // STEP 1: Authenticate user
-    const {
-      data: { user },
-      error: userError,
-    } = await supabase.auth.getUser();
-
-    if (userError || !user) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
-
-    // Get staff/cashier record
-    const { data: staffData, error: staffError } = await supabase
-      .from('staff')
-      .select('id')
-      .eq('auth_id', user.id)
-      .single();
-
-    if (staffError || !staffData) {
-      return NextResponse.json(
-        { success: false, error: 'Staff record not found' },
-        { status: 401 }
-      );
-    }
-
-    const cashierId = staffData.id;
+    const cashierId = staff.id;
 
     // STEP 2: Parse request
     const body = await request.json();
@@ -67,196 +49,109 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // STEP 4: Validate order has items
-    const hasBaskets = body.baskets && body.baskets.length > 0;
-    const hasProducts = body.products && body.products.length > 0;
-
-    if (!hasBaskets && !hasProducts) {
+    // STEP 4: Map legacy baskets (list of service ids) to basket services
+    const { baskets, error: basketsError } = await buildLegacyBaskets(supabase, body.baskets || []);
+    if (basketsError) {
       return NextResponse.json(
-        { success: false, error: 'Order must have at least one basket or product' },
-        { status: 400 }
+        { success: false, error: basketsError },
+        { status: basketsError.startsWith('Service not found') ? 404 : 500 }
       );
     }
 
-    // STEP 5: Create or get customer
-    let customerId: string;
-
-    if (body.customer.id) {
-      // Update existing
-      const { data: existing } = await supabase
-        .from('customers')
-        .select('id')
-        .eq('id', body.customer.id)
-        .single();
-
-      if (!existing) {
-        return NextResponse.json(
-          { success: false, error: 'Customer not found' },
-          { status: 404 }
-        );
-      }
-
-      customerId = body.customer.id;
-    } else {
-      // Create new
-      const { data: newCustomer, error: createError } = await supabase
-        .from('customers')
-        .insert([
-          {
-            first_name: body.customer.first_name.trim(),
-            last_name: body.customer.last_name.trim(),
-            phone_number: body.customer.phone_number,
-            email_address: body.customer.email_address || null,
-            address: body.customer.address || null,
-            loyalty_points: 0,
-          },
-        ])
-        .select('id')
-        .single();
-
-      if (createError || !newCustomer) {
-        console.error('Customer creation error:', createError);
-        return NextResponse.json(
-          { success: false, error: 'Failed to create customer' },
-          { status: 500 }
-        );
-      }
-
-      customerId = newCustomer.id;
-    }
-
-    // STEP 6: Validate services exist
-    if (hasBaskets) {
-      for (const basket of body.baskets) {
-        for (const service of basket.services || []) {
-          const { data: svc } = await supabase
-            .from('services')
-            .select('id')
-            .eq('id', service.service_id)
-            .single();
-
-          if (!svc) {
-            return NextResponse.json(
-              { success: false, error: `Service not found: ${service.service_id}` },
-              { status: 404 }
-            );
-          }
-        }
-      }
-    }
-
-    // STEP 7: Validate products and stock
-    if (hasProducts) {
-      for (const product of body.products) {
-        const { data: prod } = await supabase
-          .from('products')
-          .select('id, quantity')
-          .eq('id', product.product_id)
-          .single();
-
-        if (!prod) {
-          return NextResponse.json(
-            { success: false, error: `Product not found: ${product.product_id}` },
-            { status: 404 }
-          );
-        }
-
-        if (prod.quantity < product.quantity) {
-          return NextResponse.json(
-            { success: false, error: `Insufficient stock: ${product.product_name}` },
-            { status: 400 }
-          );
-        }
-      }
-    }
-
-    // STEP 8: Create order
-    const { data: newOrder, error: orderError } = await supabase
-      .from('orders')
-      .insert([
-        {
-          source: 'store',
-          customer_id: customerId,
-          cashier_id: cashierId,
-          status: 'processing',
-          total_amount: body.summary?.grand_total || 0,
-          order_data: {
-            baskets: body.baskets || [],
-            products: body.products || [],
-            handling: body.handling || {},
-            payment: body.payment || {},
-            summary: body.summary || {},
-            loyalty: body.loyalty || {},
-            audit_log: [
-              {
-                action: 'created',
-                timestamp: new Date().toISOString(),
-                user_id: cashierId,
-              },
-            ],
-          },
+    const items: OrderItem[] = (body.products || []).map((product: OrderItem) => ({
+      product_id: product.product_id,
+      product_name: product.product_name,
+      quantity: product.quantity,
+      unit_price: product.unit_price,
+      total_price: product.quantity * product.unit_price,
+    }));
+
+    // STEP 5: Build breakdown (grand total is trusted as sent)
+    const pricingRules = await loadPricingRules(supabase);
+    const subtotalProducts = items.reduce((sum, i) => sum + i.total_price, 0);
+    const subtotalServices = baskets.reduce((sum, b) => sum + b.subtotal, 0);
+    const total = Number(body.summary?.grand_total) || 0;
+    const vatAmount = calculateVATAmount(total, pricingRules);
+
+    const payload: CreateOrderInput = {
+      customer_id: body.customer.id || null,
+      customer_data: {
+        first_name: body.customer.first_name.trim(),
+        last_name: body.customer.last_name.trim(),
+        phone_number: body.customer.phone_number,
+        email: body.customer.email_address || undefined,
+      },
+      breakdown: {
+        items,
+        baskets,
+        fees: vatAmount > 0 ? [{ type: 'vat', amount: vatAmount, description: `VAT (${formatTaxRate(pricingRules)} inclusive)` }] : [],
+        summary: {
+          subtotal_products: subtotalProducts,
+          subtotal_services: subtotalServices,
+          staff_service_fee: 0,
+          delivery_fee: 0,
+          subtotal_before_vat: total,
+          vat_amount: vatAmount,
+          loyalty_discount: 0,
+          total,
         },
-      ])
-      .select('id, created_at')
-      .single();
-
-    if (orderError || !newOrder) {
-      console.error('Order creation error:', orderError);
+      },
+      handling: {
+        ...(body.handling || {}),
+        // The legacy POS only sells in-store self service
+        service_type: 'self_service',
+        handling_type: body.handling?.delivery_address ? 'delivery' : 'pickup',
+        payment_method: body.payment?.method || 'cash',
+        amount_paid: Number(body.payment?.amount_paid) || total,
+      },
+      loyalty: { discount_tier: body.loyalty?.discount_tier || null },
+    };
+
+    // STEP 6: Create order (customer, order, inventory in one transaction)
+    const result = await createOrder(supabase, payload, {
+      source: 'store',
+      cashierId,
+      status: 'processing',
+      // Legacy payloads carry only a grand total, so mismatches are flagged
+      // for review instead of blocking the sale
+      onPriceMismatch: 'flag',
+    });
+
+    if (!result.success) {
       return NextResponse.json(
-        { success: false, error: 'Failed to create order' },
-        { status: 500 }
+        { success: false, error: result.error },
+        { status: result.status }
       );
     }
 
-    const orderId = newOrder.id;
-
-    // STEP 9: Deduct inventory
-    if (hasProducts) {
-      for (const product of body.products) {
-        // Get current quantity
-        const { data: prod } = await supabase
-          .from('products')
-          .select('quantity')
-          .eq('id', product.product_id)
-          .single();
-
-        if (!prod) continue;
-
-        const newQuantity = Math.max(0, (prod.quantity || 0) - product.quantity);
-
-        const { error: updateError } = await supabase
-          .from('products')
-          .update({ quantity: newQuantity })
-          .eq('id', product.product_id);
-
-        if (updateError) {
-          console.error('Inventory deduction error:', updateError);
-          // In production, should rollback order
-          return NextResponse.json(
-            { success: false, error: 'Failed to deduct inventory' },
-            { status: 500 }
-          );
-        }
-      }
-    }
+    await recordAudit(supabase, {
+      staffId: cashierId,
+      action: 'order.create',
+      entityType: 'order',
+      entityId: result.order_id,
+      after: {
+        customer_id: result.customer_id,
+        total_amount: total,
+        payment_method: payload.handling.payment_method,
+        amount_paid: payload.handling.amount_paid,
+      },
+      metadata: { source: 'store' },
+    });
 
-    // STEP 10: Award loyalty points
-    if (!body.loyalty?.use_discount) {
-      // NOTE: Loyalty points are awarded when order is completed, not at creation
-    }
+    // NOTE: Loyalty points are awarded when order is completed, not at creation
 
-    // STEP 11: Return success
+    // STEP 7: Return success
     return NextResponse.json(
       {
         success: true,
         order: {
-          id: orderId,
+          id: result.order_id,
           source: 'store',
-          customer_id: customerId,
+          customer_id: result.customer_id,
           cashier_id: cashierId,
           status: 'processing',
-          total_amount: body.summary?.grand_total || 0,
-          created_at: newOrder.created_at,
+          total_amount: total,
+          created_at: new Date().toISOString(),
         },
       },
       { status: 201 }
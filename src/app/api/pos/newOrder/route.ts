@@ -1,20 +1,29 @@
 // app/api/pos/newOrder/route.ts
 // 
-// Order creation endpoint used by both POS (staff) and mobile (customer) booking
+// Legacy staff order creation endpoint (requires pos.use). Customer bookings
+// from the mobile app go through /api/orders/mobile/create instead.
 //
-// KEY BEHAVIOR FOR MOBILE:
+// KEY BEHAVIOR:
 // - Orders with ONLY products (baskets.length === 0) are automatically marked as "completed"
-// - Orders with baskets are marked as "processing" (requires laundry service to complete)
+// - Orders with baskets are marked as "processing" (requires laundry service to complete),
+//   or "pending" when a pickup address is given (pickup must complete first)
 // - Empty baskets (weight === 0) should be filtered on client-side before sending
 //
 // INVENTORY MANAGEMENT:
 // - Product quantities are automatically deducted when order is created
 // - Validates sufficient stock before deducting
-// - Updates product.last_updated timestamp
 // - Inventory is restored when order is deleted (see removeOrder endpoint)
 //
+// The legacy payload is converted to a CreateOrderPayload and written by
+// createOrder(), so the order, stock deductions and payment are one transaction.
+// Payments are recorded in handling (first payment), not the old payments table.
+//
 import { NextResponse, type NextRequest } from "next/server";
-import { createClient } from "@supabase/supabase-js";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { buildLegacyBaskets, createOrder, CreateOrderInput } from "@/src/app/utils/create-order";
+import { Fee, OrderItem } from "@/src/app/in/pos/logic/posTypes";
+import { calculateVATAmount, formatTaxRate } from "@/src/app/in/pos/logic/posHelpers";
+import { loadPricingRules } from "@/src/app/utils/pricingRules";
 
 interface ServicePayload {
   service_id: string;
@@ -52,173 +61,105 @@ interface OrderPayload {
   pickupAddress?: string | null;
   deliveryAddress?: string | null;
   shippingFee?: number;
-  source?: "pos" | "mobile"; // Track source (defaults to 'mobile' for this endpoint)
 }
 
 export async function POST(req: NextRequest) {
-  const supabase = createClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.SUPABASE_SERVICE_ROLE_KEY!
-  );
-  
+  // === AUTHORIZE ===
+  const auth = await requireStaff("pos.use", req);
+  if (!auth.success) return auth.response;
+  const { supabase, staff } = auth.data;
+
   const body: OrderPayload = await req.json();
 
-  const { customerId, total, baskets, products, payments, pickupAddress, deliveryAddress, shippingFee, source } = body;
+  const { customerId, total, baskets = [], products = [], payments, pickupAddress, deliveryAddress, shippingFee } = body;
 
   try {
-    // 1️⃣ Insert order
+    // 1️⃣ Decide initial status
     // If no baskets exist (pure product purchase), mark as completed
-    // If pickupAddress exists, start with 'pick-up' status
+    // If pickupAddress exists, start as 'pending' until the pickup is done
     // Otherwise, mark as 'processing' (in-store laundry)
     let orderStatus = "processing";
     if (baskets.length === 0) {
       orderStatus = "completed";
     } else if (pickupAddress) {
-      orderStatus = "pick-up";
-    }
-    const completedAt = baskets.length === 0 ? new Date().toISOString() : null;
-    
-    const { data: order, error: orderErr } = await supabase
-      .from("orders")
-      .insert({
-        customer_id: customerId,
-        total_amount: total,
-        status: orderStatus,
-        completed_at: completedAt,
-        source: source || "mobile", // Default to mobile if not specified
-        pickup_address: pickupAddress || null,
-        delivery_address: deliveryAddress || null,
-        shipping_fee: shippingFee || 0,
-      })
-      .select()
-      .single();
-
-    if (orderErr || !order) throw orderErr || new Error("Order insertion failed");
-    const orderId = order.id;
-
-    // 2️⃣ Insert baskets and basket services
-    for (let i = 0; i < baskets.length; i++) {
-      const b = baskets[i];
-      const { data: basket, error: basketErr } = await supabase
-        .from("baskets")
-        .insert({
-          order_id: orderId,
-          basket_number: i + 1,
-          weight: b.weight || null,
-          price: b.subtotal,
-          notes: b.notes || null,
-          status: "processing",
-        })
-        .select()
-        .single();
-
-      if (basketErr || !basket) throw basketErr || new Error("Basket insertion failed");
-      const basketId = basket.id;
-
-      // Only insert services if present
-      if (b.services?.length) {
-        // If pickup exists, keep all services as 'pending' (pickup must complete first)
-        // Otherwise, set first service as 'in_progress' (in-store laundry)
-        const serviceInserts = b.services.map((s, index) => ({
-          basket_id: basketId,
-          service_id: s.service_id,
-          rate: s.rate,
-          subtotal: s.subtotal,
-          status: (index === 0 && !pickupAddress) ? "in_progress" : "pending",
-        }));
-
-        const { error: svcErr } = await supabase.from("basket_services").insert(serviceInserts);
-        if (svcErr) throw svcErr;
-      }
+      orderStatus = "pending";
     }
 
-    // 3️⃣ Insert order products and deduct inventory
-    if (products.length) {
-      console.log("=== PROCESSING PRODUCTS ===");
-      console.log("Products to insert:", JSON.stringify(products, null, 2));
-      
-      const productInserts = products.map((p) => ({
-        order_id: orderId,
-        product_id: p.product_id,
-        quantity: p.quantity,
-        unit_price: p.unit_price,
-        subtotal: p.subtotal,
-      }));
-
-      console.log("Product inserts:", JSON.stringify(productInserts, null, 2));
-
-      const { error: prodErr } = await supabase.from("order_products").insert(productInserts);
-      if (prodErr) {
-        console.error("Failed to insert order_products:", prodErr);
-        throw prodErr;
-      }
-      console.log("✓ Order products inserted successfully");
-
-      // Deduct quantities from inventory
-      for (const p of products) {
-        console.log(`Processing product deduction: ${p.product_id}, quantity: ${p.quantity}`);
-        
-        // Get current product quantity
-        const { data: product, error: fetchErr } = await supabase
-          .from("products")
-          .select("quantity, item_name")
-          .eq("id", p.product_id)
-          .single();
-
-        if (fetchErr) {
-          console.error(`Failed to fetch product ${p.product_id}:`, fetchErr);
-          throw new Error(`Failed to fetch product inventory`);
-        }
-
-        if (!product) {
-          throw new Error(`Product ${p.product_id} not found`);
-        }
-
-        const currentQty = Number(product.quantity);
-        const orderQty = Number(p.quantity);
-        
-        console.log(`Product ${product.item_name}: Current ${currentQty}, Ordering ${orderQty}`);
-        
-        // Check if sufficient quantity available
-        if (currentQty < orderQty) {
-          throw new Error(`Insufficient stock for ${product.item_name}. Available: ${currentQty}, Requested: ${orderQty}`);
-        }
-
-        const newQty = currentQty - orderQty;
-
-        // Update product quantity
-        const { error: updateErr } = await supabase
-          .from("products")
-          .update({ 
-            quantity: newQty,
-            last_updated: new Date().toISOString()
-          })
-          .eq("id", p.product_id);
-
-        if (updateErr) {
-          console.error(`Failed to update product ${p.product_id}:`, updateErr);
-          throw new Error(`Failed to update product inventory for ${product.item_name}`);
-        }
-        
-        console.log(`Successfully updated ${product.item_name} quantity to ${newQty}`);
-      }
+    // 2️⃣ Convert baskets and products to the breakdown format
+    const { baskets: breakdownBaskets, error: basketsError } = await buildLegacyBaskets(supabase, baskets);
+    if (basketsError) throw new Error(basketsError);
+
+    const items: OrderItem[] = products.map((p) => ({
+      product_id: p.product_id,
+      product_name: "",
+      quantity: p.quantity,
+      unit_price: p.unit_price,
+      total_price: p.subtotal,
+    }));
+
+    const payment = payments?.[0];
+    const deliveryFee = shippingFee || 0;
+    const pricingRules = await loadPricingRules(supabase);
+    const vatAmount = calculateVATAmount(total, pricingRules);
+
+    const fees: Fee[] = [];
+    if (deliveryFee > 0) {
+      fees.push({ type: "delivery_fee", amount: deliveryFee, description: "Delivery fee" });
     }
-
-    // 4️⃣ Insert payments
-    if (payments?.length) {
-      const paymentInserts = payments.map((pay) => ({
-        order_id: orderId,
-        amount: pay.amount,
-        method: pay.method,
-        reference_number: pay.reference || null,
-        status: "completed",
-      }));
-
-      const { error: payErr } = await supabase.from("payments").insert(paymentInserts);
-      if (payErr) throw payErr;
+    fees.push({ type: "vat", amount: vatAmount, description: `VAT (${formatTaxRate(pricingRules)} inclusive)` });
+    const stage = (address: string | null | undefined) => ({
+      address: address || "store",
+      status: "pending",
+      started_at: null,
+      completed_at: null,
+    });
+
+    const payload: CreateOrderInput = {
+      customer_id: customerId,
+      breakdown: {
+        items,
+        baskets: breakdownBaskets,
+        fees,
+        summary: {
+          subtotal_products: items.reduce((sum, i) => sum + i.total_price, 0),
+          subtotal_services: breakdownBaskets.reduce((sum, b) => sum + b.subtotal, 0),
+          staff_service_fee: 0,
+          delivery_fee: deliveryFee,
+          subtotal_before_vat: total,
+          vat_amount: vatAmount,
+          loyalty_discount: 0,
+          total,
+        },
+      },
+      handling: {
+        // Legacy bookings have no staff service option
+        service_type: "self_service",
+        handling_type: deliveryAddress ? "delivery" : "pickup",
+        delivery_fee_override: deliveryFee || null,
+        pickup: stage(pickupAddress),
+        delivery: stage(deliveryAddress),
+        payment_method: payment?.method || null,
+        amount_paid: payment?.amount ?? null,
+        gcash_reference: payment?.reference || undefined,
+      },
+    };
+
+    // 3️⃣ Create order, deduct inventory (single transaction)
+    const result = await createOrder(supabase, payload, {
+      source: "pos",
+      cashierId: staff.id,
+      status: orderStatus,
+      onPriceMismatch: "flag", // Legacy payloads are flagged for review, not rejected
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
     }
 
-    return NextResponse.json({ success: true, orderId });
+    return NextResponse.json({ success: true, orderId: result.order_id });
   } catch (err: any) {
     console.error("saveOrder API error:", err);
     return NextResponse.json(
@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@/src/app/utils/supabase/server';
+import { requireStaff } from '@/src/app/utils/staff-auth';
+import { transitionOrder } from '@/src/app/utils/orderStatus.server';
+import { recordAudit } from '@/src/app/utils/auditLog';
 
 /**
  * POST /api/pos/orders/:id/cancel
  * 
  * Phase 1.2: Cancel order and restore inventory
- * AUTHENTICATED ENDPOINT - requires valid session
+ * AUTHENTICATED ENDPOINT - requires orders.cancel
+ *
+ * Status change, inventory return and history go through the order lifecycle
  */
 
 export async function POST(
@@ -14,34 +18,11 @@ export async function POST(
 ) {
   try {
     const { id } = await params;
-    const supabase = await createClient();
 
-    // Authenticate
-    const {
-      data: { user },
-      error: userError,
-    } = await supabase.auth.getUser();
-
-    if (userError || !user) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
-
-    // Get cashier ID
-    const { data: staffData } = await supabase
-      .from('staff')
-      .select('id')
-      .eq('auth_id', user.id)
-      .single();
-
-    if (!staffData) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
+    // Authorize cashier
+    const auth = await requireStaff('orders.cancel');
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
 
     const orderId = id;
     const body = await request.json();
@@ -53,65 +34,26 @@ export async function POST(
       );
     }
 
-    // Get order
-    const { data: order, error: orderError } = await supabase
-      .from('orders')
-      .select('id, status, order_data')
-      .eq('id', orderId)
-      .single();
-
-    if (orderError || !order) {
-      return NextResponse.json(
-        { success: false, error: 'Order not found' },
-        { status: 404 }
-      );
-    }
-
-    // Validate state
-    if (order.status === 'cancelled') {
-      return NextResponse.json(
-        { success: false, error: 'Order already cancelled' },
-        { status: 400 }
-      );
-    }
+    // Cancel through the order lifecycle (validates state, restores inventory)
+    const result = await transitionOrder(supabase, orderId, 'cancelled', {
+      staffId: staff.id,
+      reason: body.reason,
+    });
 
-    if (order.status === 'completed') {
+    if (!result.success) {
       return NextResponse.json(
-        { success: false, error: 'Cannot cancel completed orders' },
-        { status: 400 }
+        { success: false, error: result.error },
+        { status: result.status }
       );
     }
 
-    // Restore inventory
-    const orderData = order.order_data;
-    if (orderData?.products && Array.isArray(orderData.products)) {
-      for (const product of orderData.products) {
-        // Get current quantity
-        const { data: prod } = await supabase
-          .from('products')
-          .select('quantity')
-          .eq('id', product.product_id)
-          .single();
-
-        if (!prod) continue;
-
-        const newQuantity = (prod.quantity || 0) + product.quantity;
-
-        await supabase
-          .from('products')
-          .update({ quantity: newQuantity })
-          .eq('id', product.product_id);
-      }
-    }
-
-    // Update order
+    // Record cancellation details
     const { data: cancelledOrder, error: cancelError } = await supabase
       .from('orders')
       .update({
-        status: 'cancelled',
         cancellation: {
           reason: body.reason,
-          cancelled_by: staffData.id,
+          cancelled_by: staff.id,
           cancelled_at: new Date().toISOString(),
         },
       })
@@ -127,6 +69,16 @@ export async function POST(
       );
     }
 
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: 'order.cancel',
+      entityType: 'order',
+      entityId: orderId,
+      before: { status: result.from },
+      after: { status: result.to },
+      metadata: { reason: body.reason },
+    });
+
     return NextResponse.json({
       success: true,
       order: {
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { completePrintJob } from "@/src/app/utils/printJobs";
+
+/**
+ * POST /api/print/jobs/{jobId}
+ *
+ * Print agent: report a claimed job printed or failed (requires pos.use)
+ * Body: { status: "printed" | "failed", error? }
+ */
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("pos.use", request);
+    if (!auth.success) return auth.response;
+    const { supabase } = auth.data;
+
+    // === VALIDATE ===
+    const body = await request.json().catch(() => ({}));
+    if (body.status !== "printed" && body.status !== "failed") {
+      return NextResponse.json(
+        { success: false, error: "status must be printed or failed" },
+        { status: 400 }
+      );
+    }
+
+    // === UPDATE ===
+    const result = await completePrintJob(supabase, jobId, {
+      printed: body.status === "printed",
+      error: typeof body.error === "string" ? body.error : null,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    if (body.status === "failed") {
+      console.warn("[PRINT JOBS] Job failed:", { id: jobId, printer: result.data.printer, error: result.data.error });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("[PRINT JOBS] Unexpected error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
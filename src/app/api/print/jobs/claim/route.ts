@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import {
+  DEFAULT_PRINTER,
+  claimPrintJobs,
+  completePrintJob,
+  renderPrintJob,
+} from "@/src/app/utils/printJobs";
+
+/**
+ * POST /api/print/jobs/claim
+ *
+ * Print agent: claim the next jobs for a printer (requires pos.use)
+ * Each job comes with its ESC/POS bytes (base64) to send to the printer as
+ * is; report the result to POST /api/print/jobs/{jobId}. Jobs whose order
+ * or basket is gone are failed here and not returned.
+ * Body: { printer?: string, limit?: number }
+ * Response: { success: true, data: [{ ...job, data: base64 }] }
+ */
+
+export async function POST(request: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("pos.use", request);
+    if (!auth.success) return auth.response;
+    const { supabase } = auth.data;
+
+    const body = await request.json().catch(() => ({}));
+    const printer = typeof body.printer === "string" && body.printer.trim() ? body.printer.trim() : DEFAULT_PRINTER;
+
+    // === CLAIM & RENDER ===
+    const jobs = await claimPrintJobs(supabase, printer, Number(body.limit) || 10);
+
+    const rendered = [];
+    for (const job of jobs) {
+      const bytes = await renderPrintJob(supabase, job);
+      if (!bytes) {
+        await completePrintJob(supabase, job.id, { printed: false, error: "Order or basket no longer exists" });
+        continue;
+      }
+      rendered.push({ ...job, data: Buffer.from(bytes).toString("base64") });
+    }
+
+    return NextResponse.json({ success: true, data: rendered });
+  } catch (error) {
+    console.error("[PRINT JOBS] Error claiming print jobs:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to claim print jobs" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import {
+  PRINT_JOB_KINDS,
+  PRINT_JOB_STATUSES,
+  PrintJobKind,
+  PrintJobStatus,
+  enqueueOrderPrintJobs,
+  loadPrintJobs,
+} from "@/src/app/utils/printJobs";
+
+/**
+ * GET /api/print/jobs?printer=default&status=failed&order_id=...
+ *
+ * Recent print jobs, newest first (requires pos.use)
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("pos.use", request);
+    if (!auth.success) return auth.response;
+    const { supabase } = auth.data;
+
+    // === VALIDATE ===
+    const params = request.nextUrl.searchParams;
+    const status = params.get("status") || undefined;
+    if (status && !PRINT_JOB_STATUSES.includes(status as PrintJobStatus)) {
+      return NextResponse.json(
+        { success: false, error: `status must be one of: ${PRINT_JOB_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // === FETCH ===
+    const jobs = await loadPrintJobs(supabase, {
+      printer: params.get("printer") || undefined,
+      status: status as PrintJobStatus | undefined,
+      orderId: params.get("order_id") || undefined,
+      limit: Number(params.get("limit")) || undefined,
+    });
+
+    return NextResponse.json({ success: true, data: jobs });
+  } catch (error) {
+    console.error("[PRINT JOBS] Error loading print jobs:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load print jobs" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/print/jobs
+ *
+ * Queue an order's receipt and/or basket tags, e.g. for a reprint (requires pos.use)
+ * Body: { order_id, kinds?: ("receipt" | "basket_tag")[], printer? }
+ */
+
+export async function POST(request: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("pos.use", request);
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // === VALIDATE ===
+    const body = await request.json().catch(() => ({}));
+    if (typeof body.order_id !== "string" || !body.order_id) {
+      return NextResponse.json(
+        { success: false, error: "order_id is required" },
+        { status: 400 }
+      );
+    }
+    if (
+      body.kinds !== undefined &&
+      (!Array.isArray(body.kinds) || body.kinds.some((k: unknown) => !PRINT_JOB_KINDS.includes(k as PrintJobKind)))
+    ) {
+      return NextResponse.json(
+        { success: false, error: `kinds must be a list of: ${PRINT_JOB_KINDS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // === QUEUE ===
+    const result = await enqueueOrderPrintJobs(supabase, body.order_id, {
+      staffId: staff.id,
+      printer: typeof body.printer === "string" ? body.printer : undefined,
+      kinds: body.kinds,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data }, { status: 201 });
+  } catch (error) {
+    console.error("[PRINT JOBS] Unexpected error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
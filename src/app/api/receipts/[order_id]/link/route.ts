@@ -0,0 +1,59 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { getOrderReceiptLink } from "@/src/app/utils/receipt-storage";
+
+/**
+ * GET /api/receipts/{order_id}/link
+ *
+ * Short-lived signed link to the latest stored receipt of an order (requires orders.view)
+ * Response: { success: true, data: { url, expires_at, created_at } }
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ order_id: string }> }
+) {
+  const { order_id } = await params;
+
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("orders.view", request);
+    if (!auth.success) return auth.response;
+
+    // === SIGN ===
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          persistSession: false,
+          autoRefreshToken: false,
+        },
+      }
+    );
+
+    const link = await getOrderReceiptLink(supabase, order_id);
+    if (!link) {
+      return NextResponse.json(
+        { success: false, error: "No stored receipt for this order" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        url: link.url,
+        expires_at: link.expires_at,
+        created_at: link.receipt.created_at,
+      },
+    });
+  } catch (error) {
+    console.error("[RECEIPTS] Error signing receipt link:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load receipt" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { formatReceiptAsPlaintext } from '@/src/app/in/pos/logic/receiptGenerator';
+import {
+  RECEIPT_CONTENT_TYPES,
+  RECEIPT_FORMATS,
+  ReceiptFormat,
+  formatReceiptAsEscPos,
+  formatReceiptAsHtml,
+  formatReceiptAsPdf,
+  loadOrderReceipt,
+} from '@/src/app/utils/receiptGenerator';
+import { requireStaff } from '@/src/app/utils/staff-auth';
 
 /**
  * Helper: Return 404 response
@@ -16,8 +27,11 @@ function serverError(message: string) {
 
 /**
  * GET /api/receipts/:order_id
- * 
- * Retrieve order receipt (plaintext and HTML)
+ *
+ * Receipt of a stored order, rebuilt from its breakdown and payments (requires orders.view)
+ * Query: ?format=txt|html|pdf|escpos (default txt)
+ * Customers get receipts through the signed links of the stored copies
+ * (/api/receipts/{order_id}/link), never through this route.
  */
 
 export async function GET(
@@ -28,21 +42,41 @@ export async function GET(
     const { order_id } = await params;
     const orderId = order_id;
 
-    // TODO: Implement receipt generation logic
-    // For now, return placeholder response
-    
-    return NextResponse.json(
-      {
-        success: true,
-        receipt: {
-          order_id: orderId,
-          plaintext: 'Receipt generation not yet implemented',
-          html: '<p>Receipt generation not yet implemented</p>',
-          generated_at: new Date().toISOString(),
-        },
-      },
-      { status: 200 }
-    );
+    // === AUTHORIZE ===
+    const auth = await requireStaff('orders.view', request);
+    if (!auth.success) return auth.response;
+    const { supabase } = auth.data;
+
+    // === VALIDATE ===
+    const format = (request.nextUrl.searchParams.get('format') || 'txt') as ReceiptFormat;
+    if (!RECEIPT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { success: false, error: `format must be one of: ${RECEIPT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // === BUILD ===
+    const receipt = await loadOrderReceipt(supabase, orderId);
+    if (!receipt) return notFound('Order not found');
+
+    const fileName = `receipt-${orderId.split('-')[0]}`;
+    const headers = { 'Content-Type': RECEIPT_CONTENT_TYPES[format], 'Cache-Control': 'no-store' };
+
+    switch (format) {
+      case 'html':
+        return new NextResponse(formatReceiptAsHtml(receipt), { headers });
+      case 'pdf':
+        return new NextResponse(formatReceiptAsPdf(receipt), {
+          headers: { ...headers, 'Content-Disposition': `inline; filename="${fileName}.pdf"` },
+        });
+      case 'escpos':
+        return new NextResponse(Buffer.from(formatReceiptAsEscPos(receipt)), {
+          headers: { ...headers, 'Content-Disposition': `attachment; filename="${fileName}.bin"` },
+        });
+      default:
+        return new NextResponse(formatReceiptAsPlaintext(receipt), { headers });
+    }
   } catch (error) {
     console.error('Get receipt error:', error);
     return serverError('Internal server error');
@@ -0,0 +1,73 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+import {
+  RECEIPT_RETENTION_DAYS,
+  migrateLegacyReceipts,
+  pruneExpiredReceipts,
+} from "@/src/app/utils/receipt-storage";
+
+/**
+ * POST /api/receipts/retention
+ *
+ * Apply the receipt retention policy (requires receipts.manage)
+ * Moves any receipt files still in public/receipts into the private bucket,
+ * then deletes stored receipts older than the retention period.
+ * Response: { success: true, data: { migrated, unmatched, pruned, retention_days } }
+ */
+
+export async function POST(request: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("receipts.manage", request);
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // Use service role key for storage operations
+    const serviceClient = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          persistSession: false,
+          autoRefreshToken: false,
+        },
+      }
+    );
+
+    // === MIGRATE & PRUNE ===
+    const migration = await migrateLegacyReceipts(serviceClient);
+    const pruned = await pruneExpiredReceipts(serviceClient);
+
+    console.log("[RECEIPTS] Retention run:", {
+      migrated: migration.migrated,
+      unmatched: migration.unmatched.length,
+      pruned,
+    });
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: "receipts.retention",
+      entityType: "receipt",
+      entityId: null,
+      metadata: { migrated: migration.migrated, unmatched: migration.unmatched, pruned },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        migrated: migration.migrated,
+        unmatched: migration.unmatched,
+        pruned,
+        retention_days: RECEIPT_RETENTION_DAYS,
+      },
+    });
+  } catch (error) {
+    console.error("[RECEIPTS] Retention run failed:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to apply receipt retention" },
+      { status: 500 }
+    );
+  }
+}
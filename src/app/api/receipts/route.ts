@@ -1,49 +1,58 @@
-import { jsPDF } from "jspdf";
-import { CompactReceipt, ReceiptItem, formatReceiptAsPlaintext } from "@/src/app/in/pos/logic/receiptGenerator";
+import { createClient } from "@supabase/supabase-js";
 import { NextRequest, NextResponse } from "next/server";
-import * as fs from "fs";
-import * as path from "path";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { storeOrderReceipt } from "@/src/app/utils/receipt-storage";
 
 /**
  * POST /api/receipts
- * Generates plaintext receipt and saves to server
- * Body: { receipt: CompactReceipt, orderId: string }
- * Response: { success: true, downloadUrl: string }
+ * Stores the order's plaintext receipt (rebuilt from the order) in the
+ * private receipts bucket (requires pos.use)
+ * Body: { orderId: string }
+ * Response: { success: true, downloadUrl: string, expiresAt: string }
+ * downloadUrl is a signed link that expires after a few minutes; ask
+ * GET /api/receipts/{orderId}/link for a new one.
  */
 export async function POST(request: NextRequest) {
   try {
-    const { receipt, orderId } = await request.json();
+    // === AUTHORIZE ===
+    const auth = await requireStaff("pos.use", request);
+    if (!auth.success) return auth.response;
+    const { staff } = auth.data;
 
-    if (!receipt || !orderId) {
+    const { orderId } = await request.json().catch(() => ({}));
+
+    if (!orderId) {
       return NextResponse.json(
-        { error: "Receipt and orderId required" },
+        { error: "orderId required" },
         { status: 400 }
       );
     }
 
-    // Generate plaintext receipt
-    const plaintext = formatReceiptAsPlaintext(receipt);
-
-    // Save to server
-    const receiptsDir = path.join(process.cwd(), "public", "receipts");
+    // Use service role key for storage operations
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          persistSession: false,
+          autoRefreshToken: false,
+        },
+      }
+    );
 
-    // Create directory if it doesn't exist
-    if (!fs.existsSync(receiptsDir)) {
-      fs.mkdirSync(receiptsDir, { recursive: true });
+    const link = await storeOrderReceipt(supabase, orderId, staff.id);
+    if (!link) {
+      return NextResponse.json(
+        { error: "Order not found" },
+        { status: 404 }
+      );
     }
 
-    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-    const filename = `receipt-${timestamp}.txt`;
-    const filepath = path.join(receiptsDir, filename);
-
-    fs.writeFileSync(filepath, plaintext, "utf-8");
-
-    const downloadUrl = `/receipts/${filename}`;
-
     return NextResponse.json({
       success: true,
-      downloadUrl,
-      filename,
+      downloadUrl: link.url,
+      expiresAt: link.expires_at,
+      filename: link.receipt.storage_path.split("/").pop(),
       orderId,
     });
   } catch (error) {
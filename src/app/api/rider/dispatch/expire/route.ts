@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { expireDispatchOffers } from "@/src/app/utils/rider-dispatch";
+
+/**
+ * GET|POST /api/rider/dispatch/expire
+ *
+ * Dispatch worker: expires job offers riders left unanswered and offers
+ * those jobs to the next rider. Scheduled every minute by the Vercel cron in
+ * vercel.json, which sends "Authorization: Bearer <CRON_SECRET>" (set
+ * CRON_SECRET in the project's environment; per-minute crons need a Vercel
+ * Pro plan, otherwise call this from any scheduler with the same header).
+ * Staff with orders.update_status can also run it by hand.
+ * Response: { success: true, data: { expired } }
+ */
+
+async function handle(request: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const secret = process.env.CRON_SECRET;
+    const isScheduler = !!secret && request.headers.get("authorization") === `Bearer ${secret}`;
+    if (!isScheduler) {
+      const auth = await requireStaff("orders.update_status", request);
+      if (!auth.success) return auth.response;
+    }
+
+    // === EXPIRE ===
+    const expired = await expireDispatchOffers();
+
+    return NextResponse.json({ success: true, data: { expired } });
+  } catch (error) {
+    console.error("[DISPATCH] Expiry run failed:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to expire job offers" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+import { respondToDispatchOffer } from "@/src/app/utils/rider-dispatch";
+
+/**
+ * POST /api/rider/dispatch/offers/[offerId]/accept
+ *
+ * Accept a job offered to the signed-in rider (requires deliveries.view)
+ * The rider becomes the order's assigned rider.
+ */
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ offerId: string }> }
+) {
+  const { offerId } = await params;
+
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("deliveries.view", request);
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // === RESPOND ===
+    const result = await respondToDispatchOffer(offerId, staff.id, "accept");
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: "order.dispatch_accept",
+      entityType: "order",
+      entityId: result.data.order_id,
+      metadata: { offer_id: offerId, leg: result.data.leg },
+    });
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("[DISPATCH] Failed to accept offer:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to accept job offer" },
+      { status: 500 }
+    );
+  }
+}
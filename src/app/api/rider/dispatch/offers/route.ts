@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { DISPATCH_OFFER_SECONDS, expireDispatchOffers, loadRiderOffers } from "@/src/app/utils/rider-dispatch";
+
+/**
+ * GET /api/rider/dispatch/offers
+ *
+ * Jobs offered to the signed-in rider and waiting for an answer (requires deliveries.view)
+ * Called by the rider app when a dispatch push arrives and when it opens.
+ * Unanswered offers past their deadline are moved on to the next rider first.
+ * Response: { success: true, data: { offers, offer_seconds } }
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("deliveries.view", request);
+    if (!auth.success) return auth.response;
+    const { staff } = auth.data;
+
+    // === FETCH ===
+    await expireDispatchOffers();
+    const offers = await loadRiderOffers(staff.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { offers, offer_seconds: DISPATCH_OFFER_SECONDS },
+    });
+  } catch (error) {
+    console.error("[DISPATCH] Failed to load rider offers:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch job offers" },
+      { status: 500 }
+    );
+  }
+}
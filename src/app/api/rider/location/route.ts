@@ -0,0 +1,73 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import {
+  LocationPing,
+  MAX_PINGS_PER_REQUEST,
+  recordRiderLocations,
+  validateLocationPing,
+} from "@/src/app/utils/rider-locations";
+
+/**
+ * POST /api/rider/location
+ *
+ * Report the signed-in rider's GPS position (requires deliveries.view)
+ * Called by the rider app every 15-30 seconds while on duty. Fixes taken
+ * while offline can be sent together in points (oldest first).
+ * Body: { lat, lng, accuracy_m?, heading?, speed_kmh?, recorded_at? }
+ *    or { points: [{ lat, lng, ... }] }
+ * Response: { success: true, data: { recorded } }
+ */
+
+export async function POST(request: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("deliveries.view", request);
+    if (!auth.success) return auth.response;
+    const { staff } = auth.data;
+
+    // === VALIDATE ===
+    const body = await request.json().catch(() => null);
+    const pings: LocationPing[] = Array.isArray(body?.points) ? body.points : [body];
+
+    if (pings.length === 0 || pings.length > MAX_PINGS_PER_REQUEST) {
+      return NextResponse.json(
+        { success: false, error: `Send between 1 and ${MAX_PINGS_PER_REQUEST} points` },
+        { status: 400 }
+      );
+    }
+
+    for (const ping of pings) {
+      const validationError = validateLocationPing(ping);
+      if (validationError) {
+        return NextResponse.json(
+          { success: false, error: validationError },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Use service role key: riders cannot write rider_locations under RLS
+    const serviceClient = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          persistSession: false,
+          autoRefreshToken: false,
+        },
+      }
+    );
+
+    // === RECORD ===
+    const recorded = await recordRiderLocations(serviceClient, staff.id, pings);
+
+    return NextResponse.json({ success: true, data: { recorded } });
+  } catch (error) {
+    console.error("[RIDER LOCATION] Failed to record location:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to record location" },
+      { status: 500 }
+    );
+  }
+}
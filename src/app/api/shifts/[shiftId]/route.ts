@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { hasPermission } from "@/src/app/utils/permissions";
+import { loadShiftReport } from "@/src/app/utils/cashShifts";
+
+/**
+ * GET /api/shifts/[shiftId]
+ *
+ * One shift with its cash movements, orders and totals (X report data)
+ * Cashiers see their own shifts; shifts.manage sees every shift.
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ shiftId: string }> }
+) {
+  const { shiftId } = await params;
+
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("shifts.use");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // === FETCH SHIFT ===
+    const report = await loadShiftReport(supabase, shiftId);
+
+    if (
+      !report ||
+      (report.shift.staff_id !== staff.id && !hasPermission(staff.permissions, "shifts.manage"))
+    ) {
+      return NextResponse.json(
+        { success: false, error: "Shift not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: report });
+  } catch (error) {
+    console.error("[SHIFTS] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch shift" },
+      { status: 500 }
+    );
+  }
+}
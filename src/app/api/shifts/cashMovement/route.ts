@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import {
+  CASH_MOVEMENT_TYPES,
+  CashMovementType,
+  loadOpenShift,
+  validateCashAmount,
+} from "@/src/app/utils/cashShifts";
+import { recordAudit } from "@/src/app/utils/auditLog";
+
+/**
+ * POST /api/shifts/cashMovement
+ *
+ * Record cash put into or taken out of the drawer during the signed-in
+ * cashier's open shift (change fund top-up, paid-out, bank drop)
+ * Body: { type: "cash_in" | "cash_out", amount, reason }
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("shifts.use");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // === VALIDATE ===
+    const { type, amount, reason } = await req.json();
+
+    if (!CASH_MOVEMENT_TYPES.includes(type)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid movement type" },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateCashAmount(amount, "Amount", false);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    if (!reason?.trim()) {
+      return NextResponse.json(
+        { success: false, error: "A reason is required" },
+        { status: 400 }
+      );
+    }
+
+    const shift = await loadOpenShift(supabase, staff.id);
+    if (!shift) {
+      return NextResponse.json(
+        { success: false, error: "Open a shift first" },
+        { status: 409 }
+      );
+    }
+
+    // === RECORD ===
+    const { data, error } = await supabase
+      .from("cash_movements")
+      .insert({
+        shift_id: shift.id,
+        type: type as CashMovementType,
+        amount: Number(amount),
+        reason: reason.trim(),
+        staff_id: staff.id,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("[SHIFTS] Error recording cash movement:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to record cash movement" },
+        { status: 500 }
+      );
+    }
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: `cash_shift.${type}`,
+      entityType: "cash_shift",
+      entityId: shift.id,
+      metadata: { amount: data.amount, reason: data.reason, movement_id: data.id },
+    });
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("[SHIFTS] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { hasPermission } from "@/src/app/utils/permissions";
+import {
+  loadOpenShift,
+  loadShiftReport,
+  summarizeShift,
+  validateCashAmount,
+} from "@/src/app/utils/cashShifts";
+import { recordAudit } from "@/src/app/utils/auditLog";
+
+/**
+ * POST /api/shifts/close
+ *
+ * Close a shift with the counted drawer cash and store its totals
+ * Body: { shift_id?, counted_cash, counted_gcash?, notes? }
+ * Without shift_id the signed-in cashier's open shift is closed; closing
+ * another cashier's shift requires shifts.manage.
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("shifts.use");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // === VALIDATE ===
+    const { shift_id, counted_cash, counted_gcash, notes } = await req.json();
+
+    const validationError =
+      validateCashAmount(counted_cash, "Counted cash") ||
+      (counted_gcash !== undefined && counted_gcash !== null && counted_gcash !== ""
+        ? validateCashAmount(counted_gcash, "GCash statement total")
+        : null);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const shiftId = shift_id || (await loadOpenShift(supabase, staff.id))?.id;
+    if (!shiftId) {
+      return NextResponse.json(
+        { success: false, error: "You have no open shift" },
+        { status: 404 }
+      );
+    }
+
+    // Orders and refunds from this instant on belong to the next shift
+    const closedAt = new Date();
+    const report = await loadShiftReport(supabase, shiftId);
+
+    if (!report) {
+      return NextResponse.json(
+        { success: false, error: "Shift not found" },
+        { status: 404 }
+      );
+    }
+
+    if (report.shift.staff_id !== staff.id && !hasPermission(staff.permissions, "shifts.manage")) {
+      return NextResponse.json(
+        { success: false, error: "You can only close your own shift" },
+        { status: 403 }
+      );
+    }
+
+    if (report.shift.status !== "open") {
+      return NextResponse.json(
+        { success: false, error: "Shift is already closed" },
+        { status: 409 }
+      );
+    }
+
+    // === CLOSE ===
+    const summary = summarizeShift(
+      report.shift,
+      report.movements,
+      report.payments.filter((p) => new Date(p.created_at) < closedAt),
+      report.refunds.filter((r) => new Date(r.created_at) < closedAt)
+    );
+    const countedCash = Number(counted_cash);
+    const countedGcash =
+      counted_gcash === undefined || counted_gcash === null || counted_gcash === ""
+        ? null
+        : Number(counted_gcash);
+
+    const { data, error } = await supabase
+      .from("cash_shifts")
+      .update({
+        status: "closed",
+        closed_at: closedAt.toISOString(),
+        closed_by: staff.id,
+        cash_sales: summary.cash_sales,
+        cash_in: summary.cash_in,
+        cash_out: summary.cash_out,
+        cash_refunds: summary.cash_refunds,
+        expected_cash: summary.expected_cash,
+        counted_cash: countedCash,
+        cash_variance: Math.round((countedCash - summary.expected_cash) * 100) / 100,
+        gcash_sales: summary.gcash_sales,
+        gcash_refunds: summary.gcash_refunds,
+        counted_gcash: countedGcash,
+        gcash_variance:
+          countedGcash === null ? null : Math.round((countedGcash - summary.expected_gcash) * 100) / 100,
+        notes: [report.shift.notes, notes?.trim()].filter(Boolean).join("\n") || null,
+      })
+      .eq("id", shiftId)
+      .eq("status", "open")
+      .select()
+      .maybeSingle();
+
+    if (error || !data) {
+      console.error("[SHIFTS] Error closing shift:", error);
+      return NextResponse.json(
+        { success: false, error: error ? "Failed to close shift" : "Shift is already closed" },
+        { status: error ? 500 : 409 }
+      );
+    }
+
+    console.log("[SHIFTS] Shift closed:", {
+      id: shiftId,
+      expected_cash: data.expected_cash,
+      counted_cash: data.counted_cash,
+      cash_variance: data.cash_variance,
+      closed_by: staff.id,
+    });
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: "cash_shift.close",
+      entityType: "cash_shift",
+      entityId: shiftId,
+      before: report.shift,
+      after: data,
+      metadata: { gcash: summary.gcash },
+    });
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("[SHIFTS] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { loadOpenShift, loadShiftReport } from "@/src/app/utils/cashShifts";
+
+/**
+ * GET /api/shifts/current
+ *
+ * The signed-in cashier's open shift with its running totals (X report data),
+ * or null when no shift is open
+ */
+
+export async function GET() {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("shifts.use");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // === FETCH SHIFT ===
+    const shift = await loadOpenShift(supabase, staff.id);
+    const data = shift ? await loadShiftReport(supabase, shift.id) : null;
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("[SHIFTS] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch shift" },
+      { status: 500 }
+    );
+  }
+}
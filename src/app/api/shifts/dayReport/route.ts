@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { loadDayReport } from "@/src/app/utils/cashShifts";
+import { isSlotDate, todaySlotDate } from "@/src/app/utils/deliverySlots";
+
+/**
+ * GET /api/shifts/dayReport?date=YYYY-MM-DD
+ *
+ * Every shift opened on a business day (default today, Manila time) with the
+ * day's totals and variances (Z report data; requires shifts.manage)
+ */
+
+export async function GET(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("shifts.manage");
+    if (!auth.success) return auth.response;
+    const { supabase } = auth.data;
+
+    const requested = req.nextUrl.searchParams.get("date");
+    const date = isSlotDate(requested) ? requested : todaySlotDate();
+
+    // === FETCH DAY ===
+    const data = await loadDayReport(supabase, date);
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("[SHIFTS] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch day report" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { loadOpenShift, validateCashAmount } from "@/src/app/utils/cashShifts";
+import { recordAudit } from "@/src/app/utils/auditLog";
+
+/**
+ * POST /api/shifts/open
+ *
+ * Open a cash drawer shift for the signed-in cashier
+ * Body: { opening_float, notes? }
+ * A cashier can only have one open shift.
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("shifts.use");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // === VALIDATE ===
+    const { opening_float, notes } = await req.json();
+    const validationError = validateCashAmount(opening_float, "Opening float");
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    if (await loadOpenShift(supabase, staff.id)) {
+      return NextResponse.json(
+        { success: false, error: "You already have an open shift" },
+        { status: 409 }
+      );
+    }
+
+    // === OPEN SHIFT ===
+    const { data, error } = await supabase
+      .from("cash_shifts")
+      .insert({
+        staff_id: staff.id,
+        opening_float: Number(opening_float),
+        notes: notes?.trim() || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // idx_cash_shifts_open_staff: opened in another tab
+      const status = error.code === "23505" ? 409 : 500;
+      console.error("[SHIFTS] Error opening shift:", error);
+      return NextResponse.json(
+        { success: false, error: status === 409 ? "You already have an open shift" : "Failed to open shift" },
+        { status }
+      );
+    }
+
+    console.log("[SHIFTS] Shift opened:", { id: data.id, staff_id: staff.id, opening_float: data.opening_float });
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: "cash_shift.open",
+      entityType: "cash_shift",
+      entityId: data.id,
+      after: data,
+    });
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("[SHIFTS] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
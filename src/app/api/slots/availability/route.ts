@@ -0,0 +1,65 @@
+/**
+ * GET /api/slots/availability?date=YYYY-MM-DD
+ * GET /api/slots/availability?from=YYYY-MM-DD&to=YYYY-MM-DD
+ *
+ * Pickup/delivery time slots with effective capacity, bookings and remaining
+ * places per day (at most 31 days). Blackout dates come back with capacity 0
+ * and the blackout reason. Used by the POS and the mobile app before an order
+ * is scheduled; the create routes enforce the same limits when booking.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/src/app/utils/supabase/server";
+import { isSlotDate, loadSlotAvailability } from "@/src/app/utils/deliverySlots";
+
+const MAX_RANGE_DAYS = 31;
+
+export async function GET(req: NextRequest) {
+  const supabase = await createClient();
+
+  try {
+    // === AUTHENTICATE ===
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // === VALIDATE RANGE ===
+    const params = req.nextUrl.searchParams;
+    const from = params.get("date") || params.get("from");
+    const to = params.get("date") || params.get("to") || from;
+
+    if (!isSlotDate(from) || !isSlotDate(to)) {
+      return NextResponse.json(
+        { success: false, error: "Pass date, or from and to, as YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
+
+    const days = (new Date(to).getTime() - new Date(from).getTime()) / 86400000;
+    if (days < 0 || days >= MAX_RANGE_DAYS) {
+      return NextResponse.json(
+        { success: false, error: `Range must be 1 to ${MAX_RANGE_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    // === LOAD ===
+    const data = await loadSlotAvailability(supabase, from, to);
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("[SLOTS] Availability error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load time slots" },
+      { status: 500 }
+    );
+  }
+}
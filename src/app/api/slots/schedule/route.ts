@@ -0,0 +1,49 @@
+/**
+ * GET /api/slots/schedule?date=YYYY-MM-DD
+ *
+ * A day's pickup/delivery schedule: every slot offered that day with its
+ * capacity and the orders booked into it (customer, phone, address, leg).
+ * Used by the rider page.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/src/app/utils/supabase/server";
+import { isSlotDate, loadSlotSchedule } from "@/src/app/utils/deliverySlots";
+
+export async function GET(req: NextRequest) {
+  const supabase = await createClient();
+
+  try {
+    // === AUTHENTICATE ===
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const date = req.nextUrl.searchParams.get("date");
+    if (!isSlotDate(date)) {
+      return NextResponse.json(
+        { success: false, error: "Pass date as YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
+
+    // === LOAD ===
+    const data = await loadSlotSchedule(supabase, date);
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("[SLOTS] Schedule error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load schedule" },
+      { status: 500 }
+    );
+  }
+}
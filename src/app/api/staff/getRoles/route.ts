@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { loadRoleDefinitions } from "@/src/app/utils/permissions";
+
+/**
+ * GET /api/staff/getRoles
+ *
+ * Every staff role with its permissions and how many staff hold it
+ */
+
+export async function GET() {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("staff.manage");
+    if (!auth.success) return auth.response;
+    const { supabase } = auth.data;
+
+    // === FETCH ROLES ===
+    const [roles, assignments] = await Promise.all([
+      loadRoleDefinitions(supabase),
+      supabase.from("staff_roles").select("role_id"),
+    ]);
+
+    if (assignments.error) throw assignments.error;
+
+    const data = roles.map((role) => ({
+      ...role,
+      staff_count: (assignments.data || []).filter((a) => a.role_id === role.id).length,
+    }));
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("[ROLES] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch roles" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,13 @@
 import { createClient } from "@supabase/supabase-js";
 import { NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
 
 export async function GET(req: Request) {
   try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("staff.manage");
+    if (!auth.success) return auth.response;
+
     const supabase = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
       process.env.SUPABASE_SERVICE_ROLE_KEY! // use service key for admin-level queries
@@ -15,10 +20,10 @@ export async function GET(req: Request) {
 
     if (error) throw error;
 
-    // Transform data to include role
+    // Transform data to include roles
     const transformedData = data.map((staff: any) => ({
       ...staff,
-      role: staff.staff_roles?.[0]?.role_id || null,
+      roles: (staff.staff_roles || []).map((r: { role_id: string }) => r.role_id),
     }));
 
     return NextResponse.json(transformedData);
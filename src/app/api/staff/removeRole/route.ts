@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+
+/**
+ * POST /api/staff/removeRole
+ *
+ * Delete a custom role that no staff member holds (requires staff.manage).
+ * Built-in roles cannot be removed.
+ * Body: { id: string }
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("staff.manage");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    const { id } = await req.json();
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: "Missing role ID" },
+        { status: 400 }
+      );
+    }
+
+    // === CHECK ROLE ===
+    const { data: role, error: roleError } = await supabase
+      .from("roles")
+      .select("id, name, description, is_system")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (roleError) throw roleError;
+
+    if (!role) {
+      return NextResponse.json(
+        { success: false, error: "Role not found" },
+        { status: 404 }
+      );
+    }
+
+    if (role.is_system) {
+      return NextResponse.json(
+        { success: false, error: "Built-in roles cannot be removed" },
+        { status: 400 }
+      );
+    }
+
+    const { count, error: countError } = await supabase
+      .from("staff_roles")
+      .select("staff_id", { count: "exact", head: true })
+      .eq("role_id", id);
+
+    if (countError) throw countError;
+
+    if (count && count > 0) {
+      return NextResponse.json(
+        { success: false, error: `This role is still assigned to ${count} staff member(s)` },
+        { status: 400 }
+      );
+    }
+
+    // === DELETE ===
+    // role_permissions rows go with it (ON DELETE CASCADE)
+    const { error } = await supabase.from("roles").delete().eq("id", id);
+
+    if (error) {
+      console.error("[ROLES] Error removing role:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to remove role" },
+        { status: 500 }
+      );
+    }
+
+    console.log("[ROLES] Role removed:", { id, removed_by: staff.id });
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: "role.remove",
+      entityType: "role",
+      entityId: id,
+      before: role,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[ROLES] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
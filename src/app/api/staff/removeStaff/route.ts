@@ -1,8 +1,14 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
 
 export async function POST(req: Request) {
   try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("staff.manage");
+    if (!auth.success) return auth.response;
+
     const { id } = await req.json();
     if (!id) return NextResponse.json({ error: "Missing staff ID" }, { status: 400 });
 
@@ -14,7 +20,7 @@ export async function POST(req: Request) {
     // Step 1: Fetch the staff member to get their auth_id
     const { data: staffData, error: fetchError } = await supabase
       .from("staff")
-      .select("auth_id")
+      .select("*")
       .eq("id", id)
       .single();
 
@@ -44,6 +50,14 @@ export async function POST(req: Request) {
 
     if (deleteError) throw deleteError;
 
+    await recordAudit(supabase, {
+      staffId: auth.data.staff.id,
+      action: "staff.remove",
+      entityType: "staff",
+      entityId: id,
+      before: staffData,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Failed to remove staff:", error);
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { recordAudit } from "@/src/app/utils/auditLog";
+import { ADMIN_ROLE, Permission, toRoleId, validateRoleDefinition } from "@/src/app/utils/permissions";
+
+/**
+ * POST /api/staff/saveRole
+ *
+ * Create a role or update its name, description and permissions
+ * (requires staff.manage). The admin role's permissions cannot be edited.
+ * Body: { id?, name, description?, permissions: Permission[] }
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("staff.manage");
+    if (!auth.success) return auth.response;
+    const { supabase, staff } = auth.data;
+
+    // === VALIDATE ===
+    const body = await req.json();
+    const isNew = !body.id;
+    const id: string = isNew ? toRoleId(body.name || "") : body.id;
+
+    const validationError = validateRoleDefinition({ id, name: body.name, permissions: body.permissions });
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from("roles")
+      .select("id, name, description, role_permissions(permission)")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (existingError) throw existingError;
+
+    if (isNew && existing) {
+      return NextResponse.json(
+        { success: false, error: "A role with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    if (!isNew && !existing) {
+      return NextResponse.json(
+        { success: false, error: "Role not found" },
+        { status: 404 }
+      );
+    }
+
+    // === SAVE ROLE ===
+    const payload = {
+      id,
+      name: body.name.trim(),
+      description: body.description?.trim() || null,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { error: roleError } = isNew
+      ? await supabase.from("roles").insert(payload)
+      : await supabase.from("roles").update(payload).eq("id", id);
+
+    if (roleError) {
+      console.error("[ROLES] Error saving role:", roleError);
+      return NextResponse.json(
+        { success: false, error: "Failed to save role" },
+        { status: 500 }
+      );
+    }
+
+    // === REPLACE PERMISSIONS ===
+    // Admin always holds every permission (see permissions.ts)
+    const permissions: Permission[] = [...new Set<Permission>(body.permissions)];
+
+    if (id !== ADMIN_ROLE) {
+      const { error: deleteError } = await supabase.from("role_permissions").delete().eq("role_id", id);
+      if (deleteError) throw deleteError;
+
+      if (permissions.length > 0) {
+        const { error: insertError } = await supabase
+          .from("role_permissions")
+          .insert(permissions.map((permission) => ({ role_id: id, permission })));
+        if (insertError) throw insertError;
+      }
+    }
+
+    console.log("[ROLES] Role saved:", { id, permissions, updated_by: staff.id });
+
+    await recordAudit(supabase, {
+      staffId: staff.id,
+      action: isNew ? "role.create" : "role.update",
+      entityType: "role",
+      entityId: id,
+      before: existing
+        ? {
+            name: existing.name,
+            description: existing.description,
+            permissions: (existing.role_permissions || []).map((p: { permission: string }) => p.permission),
+          }
+        : null,
+      after: { name: payload.name, description: payload.description, permissions },
+    });
+
+    return NextResponse.json({ success: true, data: { ...payload, permissions } });
+  } catch (error) {
+    console.error("[ROLES] Exception:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
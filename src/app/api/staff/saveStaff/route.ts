@@ -1,16 +1,56 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+import { ADMIN_ROLE } from "@/src/app/utils/permissions";
+import { recordAudit } from "@/src/app/utils/auditLog";
 
 export async function POST(req: Request) {
   try {
+    // === AUTHORIZE ===
+    const auth = await requireStaff("staff.manage");
+    if (!auth.success) return auth.response;
+
     const data = await req.json();
     const supabase = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
+    // Staff can hold several roles; a single "role" is still accepted
+    const roles: string[] | undefined = Array.isArray(data.roles)
+      ? [...new Set<string>(data.roles.filter((r: unknown) => typeof r === "string" && r))]
+      : data.role
+        ? [data.role]
+        : undefined;
+
+    if (roles && roles.length === 0) {
+      return NextResponse.json({ error: "Pick at least one role" }, { status: 400 });
+    }
+
+    if (roles) {
+      const { data: known, error: rolesError } = await supabase.from("roles").select("id").in("id", roles);
+      if (rolesError) throw rolesError;
+      if ((known || []).length !== roles.length) {
+        return NextResponse.json({ error: "Unknown role" }, { status: 400 });
+      }
+    }
+
+    // Never take admin away from the last active admin
+    if (data.id && roles && !roles.includes(ADMIN_ROLE)) {
+      const { data: admins, error: adminsError } = await supabase
+        .from("staff_roles")
+        .select("staff_id, staff!inner(is_active)")
+        .eq("role_id", ADMIN_ROLE)
+        .eq("staff.is_active", true);
+      if (adminsError) throw adminsError;
+      if ((admins || []).length === 1 && admins![0].staff_id === data.id) {
+        return NextResponse.json({ error: "At least one active admin is required" }, { status: 400 });
+      }
+    }
+
     let staffId: string;
     let result;
+    let before = null;
     
     if (!data.id) {
       // New staff: Create auth user first if email provided
@@ -43,8 +83,9 @@ export async function POST(req: Request) {
         }
       }
 
-      // Now insert staff profile with auth_id (without role)
-      const { id, role, ...dataWithoutIdAndRole } = data; // Remove id and role from payload for insert
+      // Now insert staff profile with auth_id (without roles)
+      const { id, role, ...dataWithoutIdAndRole } = data; // Remove id and roles from payload for insert
+      delete dataWithoutIdAndRole.roles;
       const staffPayload = {
         ...dataWithoutIdAndRole,
         auth_id: authUserId || null, // Use null instead of empty string
@@ -55,17 +96,26 @@ export async function POST(req: Request) {
       if (result.error) throw result.error;
       staffId = result.data[0].id;
       
-      // Now insert role into staff_roles junction table
-      if (data.role) {
-        const roleResult = await supabase.from("staff_roles").insert({
-          staff_id: staffId,
-          role_id: data.role,
-        });
+      // Now insert roles into staff_roles junction table
+      if (roles) {
+        const roleResult = await supabase
+          .from("staff_roles")
+          .insert(roles.map((roleId) => ({ staff_id: staffId, role_id: roleId })));
         
         if (roleResult.error) throw roleResult.error;
       }
     } else {
       // Update existing staff
+      const { data: existing } = await supabase
+        .from("staff")
+        .select("id, auth_id, first_name, last_name, email_address, is_active, staff_roles(role_id)")
+        .eq("id", data.id)
+        .maybeSingle();
+      if (existing) {
+        const { staff_roles, ...fields } = existing;
+        before = { ...fields, roles: (staff_roles || []).map((r: { role_id: string }) => r.role_id) };
+      }
+
       // Only allow updating these fields (not email_address, auth_id, or created_at)
       const validFields = ['first_name', 'middle_name', 'last_name', 'birthdate', 'gender', 'address', 'phone_number', 'is_active', 'updated_at', 'updated_by'];
       const updatePayload: Record<string, any> = {};
@@ -87,21 +137,19 @@ export async function POST(req: Request) {
       if (result.error) throw result.error;
       staffId = data.id;
       
-      // Update role in staff_roles if provided
-      if (data.role) {
-        // Delete existing roles and insert new one
+      // Replace roles in staff_roles if provided
+      if (roles) {
         await supabase.from("staff_roles").delete().eq("staff_id", staffId);
         
-        const roleResult = await supabase.from("staff_roles").insert({
-          staff_id: staffId,
-          role_id: data.role,
-        });
+        const roleResult = await supabase
+          .from("staff_roles")
+          .insert(roles.map((roleId) => ({ staff_id: staffId, role_id: roleId })));
         
         if (roleResult.error) throw roleResult.error;
       }
     }
 
-    // Fetch complete staff data with role
+    // Fetch complete staff data with roles
     const completeResult = await supabase
       .from("staff")
       .select("id, auth_id, first_name, last_name, email_address, is_active, staff_roles(role_id)")
@@ -112,8 +160,19 @@ export async function POST(req: Request) {
     
     const staffWithRole = {
       ...completeResult.data,
-      role: completeResult.data.staff_roles?.[0]?.role_id || null,
+      roles: (completeResult.data.staff_roles || []).map((r: { role_id: string }) => r.role_id),
     };
+
+    const auditAfter: Record<string, unknown> = { ...staffWithRole };
+    delete auditAfter.staff_roles;
+    await recordAudit(supabase, {
+      staffId: auth.data.staff.id,
+      action: data.id ? "staff.update" : "staff.create",
+      entityType: "staff",
+      entityId: staffId,
+      before,
+      after: auditAfter,
+    });
     
     return NextResponse.json({
       success: true,
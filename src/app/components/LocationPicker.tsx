@@ -9,11 +9,15 @@ export interface LocationCoords {
 }
 
 interface LocationPickerProps {
-  onSelect: (coords: LocationCoords) => void;
+  onSelect?: (coords: LocationCoords) => void;
   onClose: () => void;
   title?: string;
   defaultLocation?: LocationCoords;
   storeLocation?: LocationCoords;
+  // Polygon mode: map clicks add points and confirming returns the outline
+  polygonMode?: boolean;
+  defaultPolygon?: LocationCoords[];
+  onPolygonSelect?: (points: LocationCoords[]) => void;
 }
 
 declare global {
@@ -28,11 +32,15 @@ export function LocationPicker({
   title = "Pin Delivery Location",
   defaultLocation,
   storeLocation: propStoreLocation,
+  polygonMode = false,
+  defaultPolygon,
+  onPolygonSelect,
 }: LocationPickerProps) {
   const mapRef = useRef<HTMLDivElement>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const mapInstanceRef = useRef<any>(null);
   const polylineRef = useRef<any>(null);
+  const polygonShapeRef = useRef<{ setMap: (map: null) => void } | null>(null);
   const autocompleteRef = useRef<any>(null);
   const debounceTimerRef = useRef<NodeJS.Timeout | undefined>(undefined);
 
@@ -43,6 +51,9 @@ export function LocationPicker({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [scriptLoaded, setScriptLoaded] = useState(false);
+  const [polygonPoints, setPolygonPoints] = useState<LocationCoords[]>(
+    defaultPolygon || [],
+  );
 
   const storeLocation = propStoreLocation || {
     lat: parseFloat(process.env.NEXT_PUBLIC_KATFLIX_LATITUDE || "14.5994"),
@@ -156,8 +167,11 @@ export function LocationPicker({
       }
 
       try {
-        // Start at store location
-        const mapCenter = storeLocation;
+        // Start at store location (or the polygon being edited)
+        const mapCenter =
+          polygonMode && defaultPolygon?.length
+            ? defaultPolygon[0]
+            : storeLocation;
 
         const map = new window.google.maps.Map(mapRef.current, {
           zoom: 15,
@@ -255,6 +269,22 @@ export function LocationPicker({
           });
         }
 
+        // Polygon mode: each click on the map adds a point to the outline
+        if (polygonMode) {
+          map.addListener(
+            "click",
+            (e: { latLng: { lat: () => number; lng: () => number } }) => {
+              const point = { lat: e.latLng.lat(), lng: e.latLng.lng() };
+              setPolygonPoints((prev) => [...prev, point]);
+            },
+          );
+
+          setLoading(false);
+          setError(null);
+          console.log("Google Maps initialized in polygon mode");
+          return;
+        }
+
         // Listen to idle event to calculate distance after 0.2 seconds
         map.addListener("idle", () => {
           console.log("Map idle, scheduling distance calculation...");
@@ -321,6 +351,26 @@ export function LocationPicker({
     };
   }, [scriptLoaded]);
 
+  // Redraw the polygon outline whenever its points change
+  useEffect(() => {
+    if (!polygonMode || !scriptLoaded || !mapInstanceRef.current) return;
+
+    if (polygonShapeRef.current) {
+      polygonShapeRef.current.setMap(null);
+    }
+
+    polygonShapeRef.current = new window.google.maps.Polygon({
+      paths: polygonPoints,
+      strokeColor: "#4F46E5",
+      strokeOpacity: 0.8,
+      strokeWeight: 2,
+      fillColor: "#4F46E5",
+      fillOpacity: 0.15,
+      clickable: false,
+      map: mapInstanceRef.current,
+    });
+  }, [polygonMode, scriptLoaded, polygonPoints]);
+
   const calculateDistanceAndRoute = async (
     coords: LocationCoords,
     map: any,
@@ -388,6 +438,14 @@ export function LocationPicker({
   const isOverMaxDistance = distance !== null && distance / 1000 > 3;
 
   const handleConfirm = () => {
+    if (polygonMode) {
+      if (polygonPoints.length < 3) {
+        setError("Click at least 3 points on the map");
+        return;
+      }
+      onPolygonSelect?.(polygonPoints);
+      return;
+    }
     if (!selectedLocation) {
       setError("Please select a location on the map");
       return;
@@ -396,7 +454,7 @@ export function LocationPicker({
       setError("Distance exceeds the 3km maximum delivery range");
       return;
     }
-    onSelect(selectedLocation);
+    onSelect?.(selectedLocation);
   };
 
   return (
@@ -410,7 +468,9 @@ export function LocationPicker({
           <div>
             <h2 className="text-base font-bold text-gray-900">{title}</h2>
             <p className="text-xs text-gray-500 mt-0.5">
-              Drag the map or search for a location
+              {polygonMode
+                ? "Click the map to add the zone's corners in order"
+                : "Drag the map or search for a location"}
             </p>
           </div>
           <button
@@ -444,7 +504,11 @@ export function LocationPicker({
             style={{ minHeight: "400px" }}
           />
           {/* Fixed Pin at Map Center */}
-          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+          <div
+            className={`absolute inset-0 flex items-center justify-center pointer-events-none ${
+              polygonMode ? "hidden" : ""
+            }`}
+          >
             <div className="flex flex-col items-center">
               {/* Pin Icon */}
               <div className="text-red-500 text-4xl drop-shadow-lg">📍</div>
@@ -462,44 +526,58 @@ export function LocationPicker({
           {error && (
             <div className="text-red-600 text-xs font-medium mb-1">{error}</div>
           )}
-          {selectedLocation && distance !== null && duration !== null && (
-            <div className="space-y-2 text-sm">
-              <div className="grid grid-cols-2 gap-2">
-                <div>
-                  <span className="text-gray-600 text-xs">Latitude:</span>
-                  <p className="font-mono font-medium text-gray-900">
-                    {selectedLocation.lat.toFixed(6)}
-                  </p>
-                </div>
-                <div>
-                  <span className="text-gray-600 text-xs">Longitude:</span>
-                  <p className="font-mono font-medium text-gray-900">
-                    {selectedLocation.lng.toFixed(6)}
-                  </p>
-                </div>
-              </div>
-              <div className="bg-blue-50 rounded p-2 border border-blue-200 mt-1">
+          {polygonMode && (
+            <div className="text-sm text-gray-700">
+              {polygonPoints.length} point
+              {polygonPoints.length === 1 ? "" : "s"}
+              {polygonPoints.length < 3 && " (at least 3 needed)"}
+            </div>
+          )}
+          {!polygonMode &&
+            selectedLocation &&
+            distance !== null &&
+            duration !== null && (
+              <div className="space-y-2 text-sm">
                 <div className="grid grid-cols-2 gap-2">
                   <div>
-                    <span className="text-gray-600 text-xs">Distance:</span>
-                    <p className="font-bold text-green-700 text-base">
-                      {(distance / 1000).toFixed(2)} km
+                    <span className="text-gray-600 text-xs">Latitude:</span>
+                    <p className="font-mono font-medium text-gray-900">
+                      {selectedLocation.lat.toFixed(6)}
                     </p>
                   </div>
                   <div>
-                    <span className="text-gray-600 text-xs">Time:</span>
-                    <p className="font-bold text-blue-700 text-base">
-                      {Math.round(duration / 60)} min
+                    <span className="text-gray-600 text-xs">Longitude:</span>
+                    <p className="font-mono font-medium text-gray-900">
+                      {selectedLocation.lng.toFixed(6)}
                     </p>
                   </div>
                 </div>
+                <div className="bg-blue-50 rounded p-2 border border-blue-200 mt-1">
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <span className="text-gray-600 text-xs">Distance:</span>
+                      <p className="font-bold text-green-700 text-base">
+                        {(distance / 1000).toFixed(2)} km
+                      </p>
+                    </div>
+                    <div>
+                      <span className="text-gray-600 text-xs">Time:</span>
+                      <p className="font-bold text-blue-700 text-base">
+                        {Math.round(duration / 60)} min
+                      </p>
+                    </div>
+                  </div>
+                </div>
               </div>
-            </div>
-          )}
+            )}
         </div>
 
         {/* 3km max disclaimer */}
-        <div className="px-4 py-1.5 bg-amber-50 border-t border-amber-200 text-center shrink-0">
+        <div
+          className={`px-4 py-1.5 bg-amber-50 border-t border-amber-200 text-center shrink-0 ${
+            polygonMode ? "hidden" : ""
+          }`}
+        >
           <p className="text-xs font-semibold text-amber-700">
             ⚠️ Maximum delivery distance: 3km from store
           </p>
@@ -512,6 +590,24 @@ export function LocationPicker({
 
         {/* Footer */}
         <div className="px-4 py-2 border-t border-gray-200 flex justify-end gap-2 shrink-0">
+          {polygonMode && (
+            <>
+              <button
+                onClick={() => setPolygonPoints((prev) => prev.slice(0, -1))}
+                disabled={polygonPoints.length === 0}
+                className="px-3 py-1.5 border border-gray-300 rounded text-gray-900 text-sm font-medium hover:bg-gray-100 transition disabled:opacity-50"
+              >
+                Undo Point
+              </button>
+              <button
+                onClick={() => setPolygonPoints([])}
+                disabled={polygonPoints.length === 0}
+                className="mr-auto px-3 py-1.5 border border-gray-300 rounded text-gray-900 text-sm font-medium hover:bg-gray-100 transition disabled:opacity-50"
+              >
+                Clear
+              </button>
+            </>
+          )}
           <button
             onClick={onClose}
             className="px-3 py-1.5 border border-gray-300 rounded text-gray-900 text-sm font-medium hover:bg-gray-100 transition"
@@ -520,10 +616,14 @@ export function LocationPicker({
           </button>
           <button
             onClick={handleConfirm}
-            disabled={!selectedLocation || isOverMaxDistance}
+            disabled={
+              polygonMode
+                ? polygonPoints.length < 3
+                : !selectedLocation || isOverMaxDistance
+            }
             className="px-3 py-1.5 bg-blue-600 text-white rounded text-sm font-medium hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            Confirm Location
+            {polygonMode ? "Confirm Zone" : "Confirm Location"}
           </button>
         </div>
       </div>
@@ -5,6 +5,11 @@ import { useState, useEffect } from "react";
 import { usePathname } from "next/navigation";
 import { createClient } from "../utils/supabase/client";
 import { useRouter } from "next/navigation";
+import {
+  hasPermission,
+  loadStaffAccess,
+  Permission,
+} from "../utils/permissions";
 
 export default function Navbar() {
   const router = useRouter();
@@ -12,7 +17,7 @@ export default function Navbar() {
   const supabase = createClient();
   const [manageOpen, setManageOpen] = useState(false);
   const [accountsOpen, setAccountsOpen] = useState(false);
-  const [userRoles, setUserRoles] = useState<string[]>([]);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
   const [lowStockCount, setLowStockCount] = useState(0);
   const [loading, setLoading] = useState(true);
 
@@ -21,49 +26,33 @@ export default function Navbar() {
     return pathname === path || pathname.startsWith(path + "/");
   };
 
-  // Fetch user roles on component mount
+  // Fetch the signed-in staff member's permissions on component mount
   useEffect(() => {
-    const fetchUserRoles = async () => {
+    const fetchPermissions = async () => {
       try {
         const {
           data: { user },
         } = await supabase.auth.getUser();
         if (!user) {
-          setUserRoles([]);
-          setLoading(false);
+          setPermissions([]);
           return;
         }
 
-        // Fetch staff record to check is_active
-        const { data: staffData, error: staffError } = await supabase
-          .from("staff")
-          .select("id, is_active")
-          .eq("auth_id", user.id)
-          .single();
-
-        if (staffError || !staffData || !staffData.is_active) {
-          console.error("Staff not found or inactive:", staffError);
-          setUserRoles([]);
-          setLoading(false);
+        // Staff record, roles and the permissions they grant
+        const access = await loadStaffAccess(supabase, user.id);
+        if (!access || !access.is_active) {
+          console.error("Staff not found or inactive");
+          setPermissions([]);
           return;
         }
 
-        // Fetch roles via staff_roles junction table
-        const { data: staffRolesData, error: rolesError } = await supabase
-          .from("staff_roles")
-          .select("role_id")
-          .eq("staff_id", staffData.id);
-
-        if (rolesError) {
-          console.error("Error fetching user roles:", rolesError);
-          setUserRoles([]);
-        } else {
-          const roles = staffRolesData?.map((r) => r.role_id) || [];
-          setUserRoles(roles);
+        setPermissions(access.permissions);
+        if (hasPermission(access.permissions, "inventory.manage")) {
+          fetchLowStockCount();
         }
       } catch (err) {
-        console.error("Error in fetchUserRoles:", err);
-        setUserRoles([]);
+        console.error("Error in fetchPermissions:", err);
+        setPermissions([]);
       } finally {
         setLoading(false);
       }
@@ -85,18 +74,23 @@ export default function Navbar() {
       }
     };
 
-    fetchUserRoles();
-    fetchLowStockCount();
+    fetchPermissions();
   }, [supabase]);
 
   // Placeholder navigation functions
   const goToPOS = () => router.push("/in/pos");
+  const goToShifts = () => router.push("/in/shifts");
   const goToOrders = () => router.push("/in/orders");
   const goToBaskets = () => router.push("/in/baskets");
   const goToProducts = () => router.push("/in/manage/products");
   const goToMachines = () => router.push("/in/manage/machines");
   const goToServices = () => router.push("/in/manage/services");
   const goToIssues = () => router.push("/in/manage/issues");
+  const goToPricing = () => router.push("/in/manage/pricing");
+  const goToLoyalty = () => router.push("/in/manage/loyalty");
+  const goToSlots = () => router.push("/in/manage/slots");
+  const goToAudit = () => router.push("/in/manage/audit");
+  const goToNotifications = () => router.push("/in/manage/notifications");
   const goToStaff = () => router.push("/in/accounts/staff");
   const goToCustomer = () => router.push("/in/accounts/customers");
   const goToSettings = () => router.push("/in/settings");
@@ -107,21 +101,33 @@ export default function Navbar() {
       .then(() => console.log("Signed out"))
       .then(() => router.refresh());
 
-  // Role-based access control
-  const canAccessPOS =
-    userRoles.includes("admin") || userRoles.includes("cashier");
-  const canAccessOrders =
-    userRoles.includes("admin") ||
-    userRoles.includes("attendant") ||
-    userRoles.includes("cashier") ||
-    userRoles.includes("rider");
-  const canAccessBaskets =
-    userRoles.includes("admin") ||
-    userRoles.includes("attendant") ||
-    userRoles.includes("cashier");
+  // Permission-based access control (see utils/permissions.ts)
+  const can = (permission: Permission) =>
+    hasPermission(permissions, permission);
+  const canAccessPOS = can("pos.use");
+  const canAccessShifts = can("shifts.use");
+  const canAccessOrders = can("orders.view");
+  const canAccessBaskets = can("orders.process");
+  const canAccessProducts = can("inventory.manage");
+  const canAccessMachines = can("machines.manage");
+  const canAccessIssues = can("issues.manage");
+  const canAccessPricing = can("pricing.edit");
+  const canAccessLoyalty = can("loyalty.edit");
+  const canAccessSlots = can("slots.manage");
+  const canAccessAudit = can("audit.view");
+  const canAccessNotifications = can("notifications.manage");
   const canAccessManage =
-    userRoles.includes("admin") || userRoles.includes("attendant");
-  const canAccessAccounts = userRoles.includes("admin");
+    canAccessProducts ||
+    canAccessMachines ||
+    canAccessIssues ||
+    canAccessPricing ||
+    canAccessLoyalty ||
+    canAccessSlots ||
+    canAccessAudit ||
+    canAccessNotifications;
+  const canAccessStaff = can("staff.manage");
+  const canAccessCustomers = can("customers.manage");
+  const canAccessAccounts = canAccessStaff || canAccessCustomers;
 
   if (loading) {
     return (
@@ -135,7 +141,7 @@ export default function Navbar() {
     <nav className="bg-linear-to-r from-slate-900 via-slate-800 to-slate-900 border-b border-slate-700 shadow-lg px-6 py-4 flex justify-between items-center w-full m-0">
       {/* Left Navigation */}
       <div className="flex items-center space-x-6">
-        {/* POS - Cashier only */}
+        {/* POS */}
         {canAccessPOS && (
           <button
             onClick={goToPOS}
@@ -156,7 +162,28 @@ export default function Navbar() {
           </button>
         )}
 
-        {/* Orders - Rider and Admin */}
+        {/* Cash Drawer */}
+        {canAccessShifts && (
+          <button
+            onClick={goToShifts}
+            className={`font-medium transition-all px-3 py-2 rounded-lg relative group ${
+              isActive("/in/shifts")
+                ? "text-blue-400"
+                : "text-slate-200 hover:text-blue-400"
+            }`}
+          >
+            Drawer
+            <span
+              className={`absolute bottom-0 left-0 h-0.5 rounded-full transition-all duration-300 ${
+                isActive("/in/shifts")
+                  ? "w-full bg-blue-500 shadow-lg shadow-blue-500/50"
+                  : "w-0 group-hover:w-full bg-blue-500/50"
+              }`}
+            />
+          </button>
+        )}
+
+        {/* Orders */}
         {canAccessOrders && (
           <button
             onClick={goToOrders}
@@ -177,7 +204,7 @@ export default function Navbar() {
           </button>
         )}
 
-        {/* Baskets - Attendant, Cashier Attendant, and Admin */}
+        {/* Baskets */}
         {canAccessBaskets && (
           <button
             onClick={goToBaskets}
@@ -198,7 +225,7 @@ export default function Navbar() {
           </button>
         )}
 
-        {/* Manage Dropdown - Attendant, Cashier Attendant, and Admin */}
+        {/* Manage Dropdown - one entry per permitted section */}
         {canAccessManage && (
           <div
             className="relative"
@@ -231,40 +258,88 @@ export default function Navbar() {
                 manageOpen ? "block" : "hidden"
               }`}
             >
-              <button
-                onClick={goToProducts}
-                className="px-4 py-2 text-left text-slate-200 hover:bg-slate-700 hover:text-blue-400 transition flex items-center justify-between"
-              >
-                <span>Products</span>
-                {lowStockCount > 0 && (
-                  <span className="bg-red-600 text-white rounded-full px-2 py-0.5 text-xs font-bold ml-2">
-                    {lowStockCount}
-                  </span>
-                )}
-              </button>
-              {/* <button
-                onClick={goToMachines}
-                className="px-4 py-2 text-left text-slate-200 hover:bg-slate-700 hover:text-blue-400 transition"
-              >
-                Machines
-              </button> */}
-              <button
-                onClick={goToServices}
-                className="px-4 py-2 text-left text-slate-200 hover:bg-slate-700 hover:text-blue-400 transition"
-              >
-                Services
-              </button>
-              <button
-                onClick={goToIssues}
-                className="px-4 py-2 text-left text-slate-200 hover:bg-slate-700 hover:text-blue-400 transition"
-              >
-                Issues
-              </button>
+              {canAccessProducts && (
+                <button
+                  onClick={goToProducts}
+                  className="px-4 py-2 text-left text-slate-200 hover:bg-slate-700 hover:text-blue-400 transition flex items-center justify-between"
+                >
+                  <span>Products</span>
+                  {lowStockCount > 0 && (
+                    <span className="bg-red-600 text-white rounded-full px-2 py-0.5 text-xs font-bold ml-2">
+                      {lowStockCount}
+                    </span>
+                  )}
+                </button>
+              )}
+              {canAccessMachines && (
+                <button
+                  onClick={goToMachines}
+                  className="px-4 py-2 text-left text-slate-200 hover:bg-slate-700 hover:text-blue-400 transition"
+                >
+                  Machines
+                </button>
+              )}
+              {canAccessProducts && (
+                <button
+                  onClick={goToServices}
+                  className="px-4 py-2 text-left text-slate-200 hover:bg-slate-700 hover:text-blue-400 transition"
+                >
+                  Services
+                </button>
+              )}
+              {canAccessIssues && (
+                <button
+                  onClick={goToIssues}
+                  className="px-4 py-2 text-left text-slate-200 hover:bg-slate-700 hover:text-blue-400 transition"
+                >
+                  Issues
+                </button>
+              )}
+              {canAccessPricing && (
+                <button
+                  onClick={goToPricing}
+                  className="px-4 py-2 text-left text-slate-200 hover:bg-slate-700 hover:text-blue-400 transition"
+                >
+                  Pricing
+                </button>
+              )}
+              {canAccessLoyalty && (
+                <button
+                  onClick={goToLoyalty}
+                  className="px-4 py-2 text-left text-slate-200 hover:bg-slate-700 hover:text-blue-400 transition"
+                >
+                  Loyalty
+                </button>
+              )}
+              {canAccessSlots && (
+                <button
+                  onClick={goToSlots}
+                  className="px-4 py-2 text-left text-slate-200 hover:bg-slate-700 hover:text-blue-400 transition"
+                >
+                  Time Slots
+                </button>
+              )}
+              {canAccessAudit && (
+                <button
+                  onClick={goToAudit}
+                  className="px-4 py-2 text-left text-slate-200 hover:bg-slate-700 hover:text-blue-400 transition"
+                >
+                  Audit Log
+                </button>
+              )}
+              {canAccessNotifications && (
+                <button
+                  onClick={goToNotifications}
+                  className="px-4 py-2 text-left text-slate-200 hover:bg-slate-700 hover:text-blue-400 transition"
+                >
+                  Failed Notifications
+                </button>
+              )}
             </div>
           </div>
         )}
 
-        {/* Accounts Dropdown - Admin only */}
+        {/* Accounts Dropdown */}
         {canAccessAccounts && (
           <div
             className="relative"
@@ -292,24 +367,28 @@ export default function Navbar() {
                 accountsOpen ? "block" : "hidden"
               }`}
             >
-              <button
-                onClick={goToStaff}
-                className="px-4 py-2 text-left text-slate-200 hover:bg-slate-700 hover:text-blue-400 transition"
-              >
-                Staff
-              </button>
-              <button
-                onClick={goToCustomer}
-                className="px-4 py-2 text-left text-slate-200 hover:bg-slate-700 hover:text-blue-400 transition"
-              >
-                Customers
-              </button>
+              {canAccessStaff && (
+                <button
+                  onClick={goToStaff}
+                  className="px-4 py-2 text-left text-slate-200 hover:bg-slate-700 hover:text-blue-400 transition"
+                >
+                  Staff
+                </button>
+              )}
+              {canAccessCustomers && (
+                <button
+                  onClick={goToCustomer}
+                  className="px-4 py-2 text-left text-slate-200 hover:bg-slate-700 hover:text-blue-400 transition"
+                >
+                  Customers
+                </button>
+              )}
             </div>
           </div>
         )}
 
-        {/* Performance - Admin only
-        {canAccessAccounts && (
+        {/* Performance
+        {can("reports.view") && (
           <button
             onClick={goToAnalytics}
             className={`font-medium transition-all px-3 py-2 rounded-lg relative group ${
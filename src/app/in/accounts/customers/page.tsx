@@ -1,7 +1,16 @@
 // app/in/accounts/customers/page.tsx
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import { formatToPST } from "@/src/app/utils/dateUtils";
+import { LOYALTY_TRANSACTION_LABELS } from "@/src/app/utils/loyaltyProgram";
+import { LoyaltyTransactionType } from "@/src/app/in/pos/logic/posTypes";
+import {
+  DEFAULT_NOTIFICATION_CHANNELS,
+  NOTIFICATION_CHANNEL_LABELS,
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+} from "@/src/app/utils/notificationTemplates";
 
 // Customer type definition - matches the customers table schema
 type Customer = {
@@ -15,9 +24,22 @@ type Customer = {
   phone_number: string | null;
   email_address: string | null;
   loyalty_points: number | null;
+  notification_channels?: NotificationChannel[]; // Tried in this order, empty = opted out
   is_active?: boolean;
 };
 
+// Loyalty ledger entry as returned by /api/customer/getLoyaltyHistory
+type LoyaltyHistoryEntry = {
+  id: string;
+  order_id: string | null;
+  type: LoyaltyTransactionType;
+  points: number;
+  balance_after: number;
+  notes: string | null;
+  created_at: string;
+  created_by_name: string | null;
+};
+
 export default function CustomersPage() {
   // State management
   const [rows, setRows] = useState<Customer[]>([]);
@@ -96,6 +118,7 @@ export default function CustomersPage() {
       phone_number: "",
       email_address: "",
       loyalty_points: 0,
+      notification_channels: DEFAULT_NOTIFICATION_CHANNELS,
     };
     setEditing(newCustomer);
     setOriginalCustomer(null);
@@ -432,6 +455,7 @@ export default function CustomersPage() {
             setErrorMsg(null);
           }}
           onEdit={startEdit}
+          onLoyaltyChanged={load}
           isNewCustomer={!editing.id}
         />
       )}
@@ -452,6 +476,7 @@ function CustomerModal({
   successMsg,
   onCancel,
   onEdit,
+  onLoyaltyChanged,
   isNewCustomer,
 }: {
   customer: Customer;
@@ -465,6 +490,7 @@ function CustomerModal({
   successMsg: string | null;
   onCancel: () => void;
   onEdit: () => void;
+  onLoyaltyChanged: () => void;
   isNewCustomer: boolean;
 }) {
   const hasChanges =
@@ -515,17 +541,11 @@ function CustomerModal({
             </div>
 
             {/* Loyalty Points */}
-            {customer.loyalty_points !== null &&
-              customer.loyalty_points > 0 && (
-                <div className="bg-amber-50 rounded-lg p-4 border border-amber-200 mb-6">
-                  <div className="text-xs font-semibold text-gray-600 mb-1">
-                    Loyalty Points
-                  </div>
-                  <div className="text-sm font-medium text-gray-900">
-                    ⭐ {customer.loyalty_points}
-                  </div>
-                </div>
-              )}
+            <LoyaltyHistory
+              customerId={customer.id}
+              initialBalance={customer.loyalty_points || 0}
+              onChanged={onLoyaltyChanged}
+            />
 
             {/* Personal Information */}
             <div className="bg-gray-50 rounded-lg p-4 border border-gray-200 mb-6">
@@ -705,6 +725,45 @@ function CustomerModal({
               onChange={(v) => updateField("address", v)}
             />
 
+            <div className="flex flex-col">
+              <label className="text-sm font-medium text-gray-700 mb-1">
+                Notify When Laundry Is Done
+              </label>
+              <div className="flex gap-4">
+                {NOTIFICATION_CHANNELS.map((channel) => {
+                  const channels =
+                    customer.notification_channels ??
+                    DEFAULT_NOTIFICATION_CHANNELS;
+                  return (
+                    <label
+                      key={channel}
+                      className="flex items-center gap-2 text-sm text-gray-900"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={channels.includes(channel)}
+                        onChange={(e) =>
+                          updateField(
+                            "notification_channels",
+                            NOTIFICATION_CHANNELS.filter((c) =>
+                              c === channel
+                                ? e.target.checked
+                                : channels.includes(c),
+                            ),
+                          )
+                        }
+                      />
+                      {NOTIFICATION_CHANNEL_LABELS[channel]}
+                    </label>
+                  );
+                })}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Tried in this order until one gets through. Walk-in customers
+                without the app get an SMS.
+              </p>
+            </div>
+
             {isNewCustomer && (
               <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-xs text-blue-800">
                 <strong>📧 Account Creation:</strong> An invitation link will be
@@ -866,3 +925,163 @@ function Select({
     </div>
   );
 }
+
+// Loyalty balance, points history and manual adjustment (needs loyalty.adjust)
+function LoyaltyHistory({
+  customerId,
+  initialBalance,
+  onChanged,
+}: {
+  customerId: string;
+  initialBalance: number;
+  onChanged: () => void;
+}) {
+  const [history, setHistory] = useState<LoyaltyHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [adjustPoints, setAdjustPoints] = useState("");
+  const [adjustNotes, setAdjustNotes] = useState("");
+  const [adjusting, setAdjusting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(
+        `/api/customer/getLoyaltyHistory?customer_id=${customerId}`,
+      );
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body?.error || `Server responded ${res.status}`);
+      setHistory(body.data || []);
+    } catch (err) {
+      console.error("Failed to load loyalty history:", err);
+      setError("Failed to load points history");
+    } finally {
+      setLoading(false);
+    }
+  }, [customerId]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  async function adjust() {
+    setError(null);
+    setAdjusting(true);
+    try {
+      const res = await fetch("/api/customer/adjustLoyaltyPoints", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          customer_id: customerId,
+          points: Number(adjustPoints),
+          notes: adjustNotes,
+        }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body?.error || `Server responded ${res.status}`);
+
+      setAdjustPoints("");
+      setAdjustNotes("");
+      await loadHistory();
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to adjust points");
+    } finally {
+      setAdjusting(false);
+    }
+  }
+
+  const balance = history.length > 0 ? history[0].balance_after : initialBalance;
+
+  return (
+    <div className="bg-amber-50 rounded-lg p-4 border border-amber-200 mb-6">
+      <div className="flex justify-between items-center mb-3">
+        <div>
+          <div className="text-xs font-semibold text-gray-600 mb-1">
+            Loyalty Points
+          </div>
+          <div className="text-sm font-medium text-gray-900">⭐ {balance}</div>
+        </div>
+      </div>
+
+      {error && <div className="text-xs text-red-600 mb-2">{error}</div>}
+
+      {loading ? (
+        <div className="text-xs text-gray-500">Loading history...</div>
+      ) : history.length === 0 ? (
+        <div className="text-xs text-gray-500">No points history yet</div>
+      ) : (
+        <div className="max-h-48 overflow-y-auto border border-amber-200 rounded bg-white">
+          <table className="w-full text-xs">
+            <thead className="bg-amber-100 sticky top-0">
+              <tr>
+                <th className="p-1.5 text-left">Date</th>
+                <th className="p-1.5 text-left">Type</th>
+                <th className="p-1.5 text-right">Points</th>
+                <th className="p-1.5 text-right">Balance</th>
+                <th className="p-1.5 text-left">Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.map((h) => (
+                <tr key={h.id} className="border-t border-amber-100">
+                  <td className="p-1.5 whitespace-nowrap">
+                    {formatToPST(h.created_at)}
+                  </td>
+                  <td className="p-1.5">{LOYALTY_TRANSACTION_LABELS[h.type]}</td>
+                  <td
+                    className={`p-1.5 text-right font-semibold ${
+                      h.points > 0 ? "text-green-700" : "text-red-700"
+                    }`}
+                  >
+                    {h.points > 0 ? `+${h.points}` : h.points}
+                  </td>
+                  <td className="p-1.5 text-right">{h.balance_after}</td>
+                  <td className="p-1.5 text-gray-600">
+                    {h.notes || "—"}
+                    {h.order_id && (
+                      <span className="ml-1 text-gray-400">
+                        #{h.order_id.slice(0, 8)}
+                      </span>
+                    )}
+                    {h.created_by_name && (
+                      <span className="ml-1 text-gray-400">
+                        by {h.created_by_name}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Manual adjustment */}
+      <div className="flex gap-2 mt-3">
+        <input
+          type="number"
+          step="1"
+          placeholder="+/- pts"
+          value={adjustPoints}
+          onChange={(e) => setAdjustPoints(e.target.value)}
+          className="border border-gray-300 px-2 py-1 rounded text-xs w-20"
+        />
+        <input
+          type="text"
+          placeholder="Reason"
+          value={adjustNotes}
+          onChange={(e) => setAdjustNotes(e.target.value)}
+          className="border border-gray-300 px-2 py-1 rounded text-xs flex-1"
+        />
+        <button
+          onClick={adjust}
+          disabled={adjusting || !adjustPoints || !adjustNotes.trim()}
+          className="px-3 py-1 bg-amber-600 text-white rounded text-xs font-medium disabled:opacity-50"
+        >
+          {adjusting ? "Saving..." : "Adjust"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+"use client";
+
+/**
+ * Roles & Permissions tab of the staff page
+ *
+ * Lists every role with the permissions it grants and lets admins create
+ * custom roles or change which permissions a role holds. The admin role
+ * always has every permission; built-in roles can be edited but not removed.
+ */
+
+import { useState } from "react";
+import {
+  ADMIN_ROLE,
+  Permission,
+  PERMISSION_KEYS,
+  PERMISSIONS,
+  StaffRoleDefinition,
+} from "@/src/app/utils/permissions";
+
+export type StaffRoleOption = StaffRoleDefinition & { staff_count: number };
+
+type EditingRole = {
+  id?: string;
+  name: string;
+  description: string;
+  permissions: Permission[];
+};
+
+// Permission keys grouped for display, in PERMISSIONS order
+const PERMISSION_GROUPS = PERMISSION_KEYS.reduce<Record<string, Permission[]>>(
+  (groups, key) => {
+    const group = PERMISSIONS[key].group;
+    (groups[group] ||= []).push(key);
+    return groups;
+  },
+  {},
+);
+
+export function RolesPanel({
+  roles,
+  onChanged,
+}: {
+  roles: StaffRoleOption[];
+  onChanged: () => void;
+}) {
+  const [editing, setEditing] = useState<EditingRole | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  async function post(url: string, payload: Record<string, unknown>) {
+    setErrorMsg(null);
+    setSaving(true);
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok)
+        throw new Error(body.error || `Server responded ${res.status}`);
+      onChanged();
+      return body;
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : "Request failed");
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function openAdd() {
+    setEditing({ name: "", description: "", permissions: [] });
+    setErrorMsg(null);
+  }
+
+  function openEdit(role: StaffRoleOption) {
+    setEditing({
+      id: role.id,
+      name: role.name,
+      description: role.description ?? "",
+      permissions: [...role.permissions],
+    });
+    setErrorMsg(null);
+  }
+
+  function togglePermission(permission: Permission, checked: boolean) {
+    if (!editing) return;
+    setEditing({
+      ...editing,
+      permissions: checked
+        ? [...editing.permissions, permission]
+        : editing.permissions.filter((p) => p !== permission),
+    });
+  }
+
+  async function saveRole() {
+    if (!editing) return;
+    const body = await post("/api/staff/saveRole", editing);
+    if (body) setEditing(null);
+  }
+
+  async function removeRole() {
+    if (!editing?.id) return;
+    if (!confirm(`Remove the ${editing.name} role?`)) return;
+    const body = await post("/api/staff/removeRole", { id: editing.id });
+    if (body) setEditing(null);
+  }
+
+  const editingRole = roles.find((r) => r.id === editing?.id);
+  const isAdminRole = editing?.id === ADMIN_ROLE;
+
+  return (
+    <div className="space-y-4 mb-4">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-500">
+          Staff get every permission from all of their roles. Admins always have
+          full access.
+        </p>
+        <button
+          onClick={openAdd}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-semibold text-sm"
+        >
+          + Add Role
+        </button>
+      </div>
+
+      {errorMsg && !editing && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+          <div className="text-red-800 text-xs font-medium">{errorMsg}</div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {roles.map((role) => (
+          <button
+            key={role.id}
+            onClick={() => openEdit(role)}
+            className="text-left bg-white rounded-lg shadow p-4 hover:ring-2 hover:ring-blue-200 transition"
+          >
+            <div className="flex items-center justify-between">
+              <div className="font-semibold text-gray-900">{role.name}</div>
+              <div className="text-xs text-gray-500">
+                {role.staff_count} staff
+                {role.is_system && " • Built-in"}
+              </div>
+            </div>
+            {role.description && (
+              <div className="text-xs text-gray-500 mt-0.5">
+                {role.description}
+              </div>
+            )}
+            <div className="flex flex-wrap gap-1 mt-3">
+              {role.id === ADMIN_ROLE ? (
+                <span className="px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-800">
+                  All permissions
+                </span>
+              ) : role.permissions.length === 0 ? (
+                <span className="text-xs text-gray-400">No permissions</span>
+              ) : (
+                role.permissions.map((p) => (
+                  <span
+                    key={p}
+                    className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700"
+                  >
+                    {PERMISSIONS[p].label}
+                  </span>
+                ))
+              )}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {editing && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+          <div className="bg-white rounded-lg shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto flex flex-col">
+            <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center sticky top-0 bg-white shrink-0">
+              <h2 className="text-lg font-bold text-gray-900">
+                {editing.id
+                  ? `Edit ${editingRole?.name ?? "Role"}`
+                  : "Add Role"}
+              </h2>
+              <button
+                onClick={() => setEditing(null)}
+                className="text-gray-400 hover:text-gray-600 text-xl"
+                disabled={saving}
+              >
+                ✕
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-6 space-y-4">
+              {errorMsg && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700">
+                  {errorMsg}
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <Field
+                  label="Name"
+                  value={editing.name}
+                  onChange={(v) => setEditing({ ...editing, name: v })}
+                  required
+                />
+                <Field
+                  label="Description"
+                  value={editing.description}
+                  onChange={(v) => setEditing({ ...editing, description: v })}
+                />
+              </div>
+
+              {isAdminRole ? (
+                <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-xs text-blue-800">
+                  The admin role always has every permission.
+                </div>
+              ) : (
+                Object.entries(PERMISSION_GROUPS).map(([group, keys]) => (
+                  <div key={group}>
+                    <div className="text-sm font-semibold text-gray-900 mb-2">
+                      {group}
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      {keys.map((key) => (
+                        <label
+                          key={key}
+                          className="flex items-start gap-2 text-sm cursor-pointer"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={editing.permissions.includes(key)}
+                            onChange={(e) =>
+                              togglePermission(key, e.target.checked)
+                            }
+                            className="mt-0.5 w-4 h-4 rounded border-gray-300"
+                          />
+                          <span>
+                            {PERMISSIONS[key].label}
+                            <span className="block text-xs text-gray-400">
+                              {key}
+                            </span>
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="px-6 py-4 border-t border-gray-200 bg-gray-50 flex gap-2 justify-end shrink-0">
+              <button
+                onClick={() => setEditing(null)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-900 text-sm font-medium hover:bg-gray-100 transition disabled:opacity-50"
+                disabled={saving}
+              >
+                Cancel
+              </button>
+              {editingRole && !editingRole.is_system && (
+                <button
+                  onClick={removeRole}
+                  className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 transition disabled:opacity-50"
+                  disabled={saving || editingRole.staff_count > 0}
+                  title={
+                    editingRole.staff_count > 0
+                      ? "Unassign this role from all staff first"
+                      : undefined
+                  }
+                >
+                  Delete
+                </button>
+              )}
+              <button
+                onClick={saveRole}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700 transition disabled:opacity-50"
+                disabled={saving}
+              >
+                {saving ? "Saving..." : editing.id ? "Save" : "Add"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Field({
+  label,
+  value,
+  onChange,
+  required = false,
+}: {
+  label: string;
+  value: string;
+  onChange: (v: string) => void;
+  required?: boolean;
+}) {
+  return (
+    <div className="flex flex-col">
+      <label className="text-sm font-medium text-gray-700 mb-1">
+        {label}
+        {required && <span className="text-red-600 ml-1">*</span>}
+      </label>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="border border-gray-300 px-3 py-2 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+    </div>
+  );
+}
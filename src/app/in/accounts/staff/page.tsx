@@ -3,23 +3,26 @@
  *
  * Provides a table interface for managing laundry staff members including:
  * - Staff list with real-time search by name, email, phone
- * - Table display with columns for name, email, phone, role, status
+ * - Table display with columns for name, email, phone, roles, status
  * - Create, edit, and delete staff with validation
- * - Role assignment (admin, cashier, attendant, rider, cashier_attendant)
+ * - Assignment of one or more roles per staff member
+ * - Roles tab for editing which permissions each role grants (RolesPanel)
  * - Centered modal for viewing/editing staff details
  *
  * Architecture Notes:
  * - Table view with pagination and search
  * - Details modal with view/edit modes
  * - Role data comes from staff_roles junction table (handled by API)
+ * - Permissions are defined in utils/permissions.ts
  */
 
 "use client";
 
 import { useEffect, useState } from "react";
+import { RolesPanel, StaffRoleOption } from "./RolesPanel";
 
 // Staff type definition - represents a staff member record from the database
-// The role field is populated from the staff_roles junction table by the API
+// The roles field is populated from the staff_roles junction table by the API
 type Staff = {
   id: string;
   first_name: string;
@@ -27,7 +30,7 @@ type Staff = {
   last_name: string;
   birthdate: string | null;
   gender: "male" | "female" | null;
-  role: "admin" | "cashier" | "attendant" | "rider" | "cashier_attendant";
+  roles: string[];
   address: string | null;
   phone_number: string | null;
   email_address: string | null;
@@ -47,11 +50,14 @@ export default function StaffPage() {
   const [originalStaff, setOriginalStaff] = useState<Staff | null>(null); // Original data for change detection
   const [loading, setLoading] = useState(false); // Loading state for table
   const [currentPage, setCurrentPage] = useState(1);
+  const [tab, setTab] = useState<"staff" | "roles">("staff");
+  const [roles, setRoles] = useState<StaffRoleOption[]>([]); // Role definitions for badges and checkboxes
   const ITEMS_PER_PAGE = 10;
 
-  // Load staff from database on component mount
+  // Load staff and roles from database on component mount
   useEffect(() => {
     load();
+    loadRoles();
   }, []);
 
   // Debounced search filter - updates filtered list when search query changes (300ms delay)
@@ -97,6 +103,19 @@ export default function StaffPage() {
     }
   }
 
+  // Fetch role definitions (names, permissions, how many staff hold each)
+  async function loadRoles() {
+    try {
+      const res = await fetch("/api/staff/getRoles");
+      const body = await res.json();
+      if (!res.ok || !body.success) throw new Error(body.error);
+      setRoles(body.data || []);
+    } catch (error) {
+      console.error("Failed to load roles:", error);
+      setErrorMsg("Failed to load roles");
+    }
+  }
+
   // Initialize new staff form with default values
   function openNew() {
     const newStaff: Staff = {
@@ -106,7 +125,7 @@ export default function StaffPage() {
       last_name: "",
       birthdate: "",
       gender: null,
-      role: "cashier",
+      roles: ["cashier"],
       address: "",
       phone_number: "",
       email_address: "",
@@ -147,7 +166,6 @@ export default function StaffPage() {
       "last_name",
       "birthdate",
       "gender",
-      "role",
       "address",
       "phone_number",
     ];
@@ -165,6 +183,11 @@ export default function StaffPage() {
       }
     }
 
+    if (data.roles.length === 0) {
+      setErrorMsg("Pick at least one role");
+      return;
+    }
+
     // Validate phone number (PH format)
     const phone = editing!.phone_number;
     const phonePattern = /^09\d{9}$/;
@@ -195,6 +218,7 @@ export default function StaffPage() {
 
       setSuccessMsg(result.message || "Staff saved successfully");
       load(); // reload table
+      loadRoles(); // staff counts per role
       setTimeout(() => {
         setEditing(null);
         setSuccessMsg(null);
@@ -266,16 +290,37 @@ export default function StaffPage() {
               )}
             </p>
           </div>
-          <button
-            onClick={openNew}
-            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-semibold text-sm"
-          >
-            + Add New Staff
-          </button>
+          <div className="flex items-center gap-2">
+            <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+              {(["staff", "roles"] as const).map((t) => (
+                <button
+                  key={t}
+                  onClick={() => setTab(t)}
+                  className={`px-4 py-2 font-medium transition ${
+                    tab === t
+                      ? "bg-gray-900 text-white"
+                      : "bg-white text-gray-700 hover:bg-gray-100"
+                  }`}
+                >
+                  {t === "staff" ? "Staff" : "Roles & Permissions"}
+                </button>
+              ))}
+            </div>
+            {tab === "staff" && (
+              <button
+                onClick={openNew}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-semibold text-sm"
+              >
+                + Add New Staff
+              </button>
+            )}
+          </div>
         </div>
 
+        {tab === "roles" && <RolesPanel roles={roles} onChanged={loadRoles} />}
+
         {/* Search Bar */}
-        <div className="mb-4">
+        <div className={`mb-4 ${tab === "staff" ? "" : "hidden"}`}>
           <input
             type="text"
             placeholder="Search by name, email, or phone..."
@@ -302,7 +347,11 @@ export default function StaffPage() {
         )}
 
         {/* Table */}
-        <div className="bg-white rounded-lg shadow overflow-hidden flex flex-col">
+        <div
+          className={`bg-white rounded-lg shadow overflow-hidden flex flex-col ${
+            tab === "staff" ? "" : "hidden"
+          }`}
+        >
           {loading ? (
             <div className="p-8 text-center text-gray-500">
               Loading staff...
@@ -329,7 +378,7 @@ export default function StaffPage() {
                         Phone
                       </th>
                       <th className="px-6 py-3 text-left font-semibold text-gray-900">
-                        Role
+                        Roles
                       </th>
                       <th className="px-6 py-3 text-left font-semibold text-gray-900">
                         Status
@@ -360,17 +409,16 @@ export default function StaffPage() {
                             {staff.phone_number || "—"}
                           </td>
                           <td className="px-6 py-4 text-gray-700">
-                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                              {staff.role
-                                .replace(/_/g, " ")
-                                .split(" ")
-                                .map(
-                                  (word) =>
-                                    word.charAt(0).toUpperCase() +
-                                    word.slice(1).toLowerCase(),
-                                )
-                                .join(" ")}
-                            </span>
+                            <div className="flex flex-wrap gap-1">
+                              {staff.roles.map((role) => (
+                                <span
+                                  key={role}
+                                  className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+                                >
+                                  {getRoleName(roles, role)}
+                                </span>
+                              ))}
+                            </div>
                           </td>
                           <td className="px-6 py-4 text-gray-700">
                             <span
@@ -438,6 +486,7 @@ export default function StaffPage() {
         <StaffModal
           staff={editing}
           originalStaff={originalStaff}
+          roles={roles}
           mode={modalMode}
           updateField={updateField}
           save={save}
@@ -457,10 +506,23 @@ export default function StaffPage() {
   );
 }
 
+// Display name for a role ID, falling back to a title-cased ID
+function getRoleName(roles: StaffRoleOption[], roleId: string) {
+  return (
+    roles.find((r) => r.id === roleId)?.name ??
+    roleId
+      .replace(/_/g, " ")
+      .split(" ")
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+      .join(" ")
+  );
+}
+
 // Staff Modal - Centered Rectangle Modal
 function StaffModal({
   staff,
   originalStaff,
+  roles,
   mode,
   updateField,
   save,
@@ -474,6 +536,7 @@ function StaffModal({
 }: {
   staff: Staff;
   originalStaff: Staff | null;
+  roles: StaffRoleOption[];
   mode: "view" | "edit";
   updateField: (key: keyof Staff, value: any) => void;
   save: () => void;
@@ -496,7 +559,6 @@ function StaffModal({
       cashier: "bg-blue-100 text-blue-800",
       attendant: "bg-green-100 text-green-800",
       rider: "bg-purple-100 text-purple-800",
-      cashier_attendant: "bg-indigo-100 text-indigo-800",
     };
     return colors[role] || "bg-gray-100 text-gray-800";
   };
@@ -523,23 +585,18 @@ function StaffModal({
 
           {/* Modal Content */}
           <div className="p-6">
-            {/* Role Badge */}
-            <div className="mb-6">
-              <span
-                className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${getRoleBadgeColor(
-                  staff.role,
-                )}`}
-              >
-                {staff.role
-                  .replace(/_/g, " ")
-                  .split(" ")
-                  .map(
-                    (word) =>
-                      word.charAt(0).toUpperCase() +
-                      word.slice(1).toLowerCase(),
-                  )
-                  .join(" ")}
-              </span>
+            {/* Role Badges */}
+            <div className="mb-6 flex flex-wrap gap-2">
+              {staff.roles.map((role) => (
+                <span
+                  key={role}
+                  className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${getRoleBadgeColor(
+                    role,
+                  )}`}
+                >
+                  {getRoleName(roles, role)}
+                </span>
+              ))}
             </div>
 
             {/* Contact Info */}
@@ -733,19 +790,45 @@ function StaffModal({
                 ]}
                 required={true}
               />
-              <Select
-                label="Role"
-                value={staff.role}
-                onChange={(v) => updateField("role", v)}
-                options={[
-                  { value: "admin", label: "Admin" },
-                  { value: "cashier", label: "Cashier" },
-                  { value: "attendant", label: "Attendant" },
-                  { value: "rider", label: "Rider" },
-                  { value: "cashier_attendant", label: "Cashier & Attendant" },
-                ]}
-                required={true}
-              />
+            </div>
+
+            <div className="flex flex-col">
+              <label className="text-sm font-medium text-gray-700 mb-1">
+                Roles
+                <span className="text-red-600 ml-1">*</span>
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                {roles.map((role) => (
+                  <label
+                    key={role.id}
+                    className="flex items-start gap-2 p-2 border border-gray-200 rounded-lg text-sm cursor-pointer hover:bg-gray-50"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={staff.roles.includes(role.id)}
+                      onChange={(e) =>
+                        updateField(
+                          "roles",
+                          e.target.checked
+                            ? [...staff.roles, role.id]
+                            : staff.roles.filter((r) => r !== role.id),
+                        )
+                      }
+                      className="mt-0.5 w-4 h-4 rounded border-gray-300"
+                    />
+                    <span>
+                      <span className="font-medium text-gray-900">
+                        {role.name}
+                      </span>
+                      {role.description && (
+                        <span className="block text-xs text-gray-500">
+                          {role.description}
+                        </span>
+                      )}
+                    </span>
+                  </label>
+                ))}
+              </div>
             </div>
 
             <PhoneField
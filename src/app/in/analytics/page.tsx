@@ -99,6 +99,7 @@ export default function AnalyticsPage() {
   const [productsPage, setProductsPage] = useState(1);
   const [exporting, setExporting] = useState(false);
   const [userEmail, setUserEmail] = useState<string>("");
+  const [canExport, setCanExport] = useState(false);
 
   // Modal states
   const [showSummaryPreview, setShowSummaryPreview] = useState(false);
@@ -128,6 +129,7 @@ export default function AnalyticsPage() {
               : data.email || "";
           console.log("Setting userEmail to:", fullName);
           setUserEmail(fullName);
+          setCanExport((data.permissions || []).includes("reports.export"));
         } else {
           console.error(
             "Failed to fetch user - response not ok",
@@ -390,8 +392,8 @@ export default function AnalyticsPage() {
                 />
               </div>
 
-              {/* Export Buttons */}
-              <div className="flex gap-3">
+              {/* Export Buttons (reports.export) */}
+              <div className={`flex gap-3 ${canExport ? "" : "hidden"}`}>
                 {/* Export Summary (Blue) */}
                 <button
                   onClick={exportMonthlySummary}
@@ -0,0 +1,271 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  GCASH_VERIFICATION_LABELS,
+  GcashReviewAction,
+  GcashVerificationOrder,
+} from "@/src/app/utils/gcashVerification";
+
+/**
+ * GCash receipts waiting for review
+ * Hidden for staff without payments.verify (the queue endpoint refuses them).
+ */
+export default function GcashVerificationQueue({
+  onReviewed,
+}: {
+  onReviewed: () => void;
+}) {
+  const [queue, setQueue] = useState<GcashVerificationOrder[]>([]);
+  const [allowed, setAllowed] = useState(true);
+  const [expanded, setExpanded] = useState(true);
+  const [references, setReferences] = useState<Record<string, string>>({});
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/orders/gcashQueue", {
+        credentials: "include",
+      });
+      if (res.status === 403) {
+        setAllowed(false);
+        return;
+      }
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body?.error || `Server responded ${res.status}`);
+      }
+      setQueue(body.data || []);
+    } catch (err) {
+      setErrorMsg(
+        err instanceof Error ? err.message : "Failed to load GCash receipts",
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function review(
+    order: GcashVerificationOrder,
+    action: GcashReviewAction,
+  ) {
+    setSavingId(order.id);
+    setErrorMsg(null);
+    try {
+      const res = await fetch(`/api/orders/${order.id}/gcashVerification`, {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action,
+          reference: references[order.id] ?? order.gcash_reference ?? "",
+          reason: reasons[order.id] || "",
+        }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(
+          body?.error || `Failed to review receipt (${res.status})`,
+        );
+      }
+
+      setReasons((prev) => ({ ...prev, [order.id]: "" }));
+      await load();
+      onReviewed();
+    } catch (err) {
+      setErrorMsg(
+        err instanceof Error ? err.message : "Failed to review receipt",
+      );
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  if (!allowed) return null;
+
+  const pendingCount = queue.filter(
+    (o) => o.gcash_verification_status === "pending",
+  ).length;
+
+  return (
+    <div className="mb-6 bg-white rounded-lg border border-gray-200 shadow-sm">
+      <button
+        onClick={() => setExpanded((value) => !value)}
+        className="w-full flex items-center justify-between px-6 py-4"
+      >
+        <span className="text-lg font-bold text-gray-900">
+          💳 GCash verification
+        </span>
+        <span
+          className={`text-xs px-2 py-0.5 rounded-full font-bold ${
+            pendingCount > 0
+              ? "bg-purple-100 text-purple-800"
+              : "bg-gray-100 text-gray-600"
+          }`}
+        >
+          {pendingCount} awaiting review
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="border-t border-gray-200 px-6 py-4 space-y-3">
+          {errorMsg && <p className="text-sm text-red-600">{errorMsg}</p>}
+          {queue.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No GCash receipts to review.
+            </p>
+          ) : (
+            queue.map((order) => {
+              const pending = order.gcash_verification_status === "pending";
+              const reviewable =
+                pending ||
+                order.gcash_verification_status === "reupload_requested";
+              const reference =
+                references[order.id] ?? order.gcash_reference ?? "";
+              return (
+                <div
+                  key={order.id}
+                  className="flex gap-4 border border-gray-200 rounded-lg p-3"
+                >
+                  {order.gcash_receipt_url ? (
+                    <a
+                      href={`/api/gcash-receipt/${order.gcash_receipt_url.split("/").pop()}`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="w-24 h-24 shrink-0 rounded border border-purple-200 bg-purple-50 flex flex-col items-center justify-center text-xs font-semibold text-purple-700 hover:bg-purple-100"
+                    >
+                      <span className="text-2xl">📸</span>
+                      View receipt
+                    </a>
+                  ) : (
+                    <div className="w-24 h-24 shrink-0 rounded border border-dashed border-gray-300 flex items-center justify-center text-xs text-gray-400">
+                      No receipt
+                    </div>
+                  )}
+
+                  <div className="flex-1 space-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <div>
+                        <p className="font-semibold text-gray-900">
+                          {order.customer_name || "Customer"}{" "}
+                          <span className="text-gray-500 font-mono text-xs">
+                            #{order.id.slice(0, 8)}
+                          </span>
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {order.phone_number || "—"}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className="font-bold text-purple-700">
+                          ₱{(order.total_amount - order.amount_paid).toFixed(2)}
+                        </p>
+                        <p className="text-xs text-gray-600">
+                          {
+                            GCASH_VERIFICATION_LABELS[
+                              order.gcash_verification_status
+                            ]
+                          }
+                        </p>
+                      </div>
+                    </div>
+
+                    {order.gcash_verification_note && (
+                      <p className="text-xs text-gray-600">
+                        {order.gcash_verification_note}
+                        {order.gcash_verified_by_name &&
+                          ` — ${order.gcash_verified_by_name}`}
+                      </p>
+                    )}
+
+                    {order.duplicate_of.length > 0 && (
+                      <p className="text-xs font-semibold text-red-600">
+                        Reference already used on order
+                        {order.duplicate_of.length > 1 ? "s" : ""}{" "}
+                        {order.duplicate_of
+                          .map((id) => `#${id.slice(0, 8)}`)
+                          .join(", ")}
+                      </p>
+                    )}
+
+                    {reviewable && (
+                      <div className="grid grid-cols-2 gap-2">
+                        {pending && (
+                          <input
+                            type="text"
+                            value={reference}
+                            onChange={(e) =>
+                              setReferences((prev) => ({
+                                ...prev,
+                                [order.id]: e.target.value,
+                              }))
+                            }
+                            placeholder="GCash reference"
+                            className="border border-gray-300 rounded px-2 py-1.5 text-sm font-mono"
+                          />
+                        )}
+                        <input
+                          type="text"
+                          value={reasons[order.id] || ""}
+                          onChange={(e) =>
+                            setReasons((prev) => ({
+                              ...prev,
+                              [order.id]: e.target.value,
+                            }))
+                          }
+                          placeholder="Reason (reject / re-upload)"
+                          className="border border-gray-300 rounded px-2 py-1.5 text-sm"
+                        />
+                      </div>
+                    )}
+
+                    {reviewable && (
+                      <div className="flex gap-2">
+                        {pending && (
+                          <button
+                            onClick={() => review(order, "verify")}
+                            disabled={
+                              savingId === order.id || !reference.trim()
+                            }
+                            className="px-3 py-1.5 bg-green-600 text-white rounded text-xs font-semibold hover:bg-green-700 disabled:opacity-50"
+                          >
+                            ✓ Verify
+                          </button>
+                        )}
+                        <button
+                          onClick={() => review(order, "reject")}
+                          disabled={
+                            savingId === order.id || !reasons[order.id]?.trim()
+                          }
+                          className="px-3 py-1.5 bg-red-600 text-white rounded text-xs font-semibold hover:bg-red-700 disabled:opacity-50"
+                        >
+                          Reject
+                        </button>
+                        {pending && (
+                          <button
+                            onClick={() => review(order, "request_reupload")}
+                            disabled={
+                              savingId === order.id ||
+                              !reasons[order.id]?.trim()
+                            }
+                            className="px-3 py-1.5 bg-amber-500 text-white rounded text-xs font-semibold hover:bg-amber-600 disabled:opacity-50"
+                          >
+                            Request re-upload
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
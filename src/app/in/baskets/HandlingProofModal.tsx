@@ -0,0 +1,268 @@
+"use client";
+
+import { PointerEvent, useCallback, useEffect, useRef, useState } from "react";
+
+type ProofLeg = "pickup" | "delivery";
+
+interface Position {
+  lat: number;
+  lng: number;
+  accuracy_m: number;
+}
+
+function currentPosition(): Promise<Position> {
+  return new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error("This device cannot share its location"));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (fix) =>
+        resolve({
+          lat: fix.coords.latitude,
+          lng: fix.coords.longitude,
+          accuracy_m: Math.round(fix.coords.accuracy),
+        }),
+      (err) =>
+        reject(
+          new Error(
+            err.code === err.PERMISSION_DENIED
+              ? "Location permission was denied"
+              : "Could not get the current location",
+          ),
+        ),
+      { enableHighAccuracy: true, timeout: 20000, maximumAge: 60000 },
+    );
+  });
+}
+
+/**
+ * Proof capture before completing a pickup or delivery
+ * Collects a photo, the recipient's name, an optional signature drawn on
+ * screen and the device's GPS fix, and hands them over as the multipart
+ * fields serviceStatus expects (see utils/handling-proofs.ts).
+ */
+export default function HandlingProofModal({
+  leg,
+  defaultRecipient,
+  submitting,
+  error,
+  onSubmit,
+  onClose,
+}: {
+  leg: ProofLeg;
+  defaultRecipient: string;
+  submitting: boolean;
+  error: string | null;
+  onSubmit: (proof: FormData) => void;
+  onClose: () => void;
+}) {
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [recipient, setRecipient] = useState(defaultRecipient);
+  const [position, setPosition] = useState<Position | null>(null);
+  const [locating, setLocating] = useState(true);
+  const [locationError, setLocationError] = useState<string | null>(null);
+  const [hasSignature, setHasSignature] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const drawingRef = useRef(false);
+
+  const label = leg === "pickup" ? "Pickup" : "Delivery";
+
+  const locate = useCallback(async () => {
+    try {
+      setPosition(await currentPosition());
+    } catch (err) {
+      setLocationError(
+        err instanceof Error
+          ? err.message
+          : "Could not get the current location",
+      );
+    } finally {
+      setLocating(false);
+    }
+  }, []);
+
+  function retryLocation() {
+    setLocating(true);
+    setLocationError(null);
+    locate();
+  }
+
+  useEffect(() => {
+    locate();
+  }, [locate]);
+
+  function pointFor(e: PointerEvent<HTMLCanvasElement>) {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  }
+
+  function startStroke(e: PointerEvent<HTMLCanvasElement>) {
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const { x, y } = pointFor(e);
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = "round";
+    ctx.strokeStyle = "#111827";
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  }
+
+  function continueStroke(e: PointerEvent<HTMLCanvasElement>) {
+    if (!drawingRef.current) return;
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    const { x, y } = pointFor(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    setHasSignature(true);
+  }
+
+  function endStroke() {
+    drawingRef.current = false;
+  }
+
+  function clearSignature() {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasSignature(false);
+  }
+
+  async function submit() {
+    if (!photo || !position || !recipient.trim()) return;
+
+    const proof = new FormData();
+    proof.append("photo", photo);
+    proof.append("recipient_name", recipient.trim());
+    proof.append("lat", String(position.lat));
+    proof.append("lng", String(position.lng));
+    proof.append("accuracy_m", String(position.accuracy_m));
+
+    if (hasSignature && canvasRef.current) {
+      const signature = await new Promise<Blob | null>((resolve) =>
+        canvasRef.current?.toBlob(resolve, "image/png"),
+      );
+      if (signature) proof.append("signature", signature, "signature.png");
+    }
+
+    onSubmit(proof);
+  }
+
+  const ready = !!photo && !!position && !!recipient.trim();
+
+  return (
+    <div
+      className="fixed inset-0 z-60 flex items-center justify-center bg-black/50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl shadow-xl w-11/12 max-w-md p-6 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold text-gray-900">Proof of {label}</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-600 hover:text-gray-900 text-2xl font-light"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-1">
+            Photo
+          </label>
+          <input
+            type="file"
+            accept="image/jpeg,image/png,image/webp,image/heic,image/heif"
+            capture="environment"
+            onChange={(e) => setPhoto(e.target.files?.[0] || null)}
+            className="w-full text-sm"
+          />
+          {photo && (
+            <div className="text-xs text-gray-500 mt-1">
+              {photo.name} ({Math.round(photo.size / 1024)} KB)
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-1">
+            {leg === "pickup" ? "Handed over by" : "Received by"}
+          </label>
+          <input
+            type="text"
+            value={recipient}
+            onChange={(e) => setRecipient(e.target.value)}
+            maxLength={120}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <label className="text-sm font-semibold text-gray-700">
+              Signature (optional)
+            </label>
+            {hasSignature && (
+              <button
+                onClick={clearSignature}
+                className="text-xs text-blue-600 hover:underline"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+          <canvas
+            ref={canvasRef}
+            width={400}
+            height={140}
+            onPointerDown={startStroke}
+            onPointerMove={continueStroke}
+            onPointerUp={endStroke}
+            onPointerLeave={endStroke}
+            className="w-full h-28 border border-gray-300 rounded-lg bg-gray-50 touch-none"
+          />
+        </div>
+
+        <div className="text-sm">
+          {position ? (
+            <span className="text-green-700">
+              📍 {position.lat.toFixed(5)}, {position.lng.toFixed(5)} (±
+              {position.accuracy_m} m)
+            </span>
+          ) : locating ? (
+            <span className="text-gray-500">Getting location...</span>
+          ) : (
+            <span className="text-red-600">
+              {locationError || "Location not available"}{" "}
+              <button
+                onClick={retryLocation}
+                className="text-blue-600 hover:underline"
+              >
+                Try again
+              </button>
+            </span>
+          )}
+        </div>
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        <button
+          onClick={submit}
+          disabled={!ready || submitting}
+          className="w-full px-4 py-2 rounded-lg text-sm font-semibold transition-all bg-green-600 text-white hover:bg-green-700 active:scale-95 disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          {submitting ? "Saving..." : `Complete ${label}`}
+        </button>
+      </div>
+    </div>
+  );
+}
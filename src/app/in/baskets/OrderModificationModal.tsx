@@ -6,12 +6,19 @@ import {
   Basket,
   BasketServices,
   OrderItem,
+  LoyaltyTier,
   POSProduct,
+  PricingRules,
 } from "@/src/app/in/pos/logic/posTypes";
 import {
   buildOrderBreakdown,
   calculateBasketSubtotal,
+  DEFAULT_PRICING_RULES,
+  formatTaxRate,
+  getExtraDryPrice,
 } from "@/src/app/in/pos/logic/posHelpers";
+import { loadPricingRules } from "@/src/app/utils/pricingRules";
+import { loadLoyaltyProgram } from "@/src/app/utils/loyaltyProgram";
 
 // ============================================================================
 // TYPES
@@ -141,6 +148,9 @@ export default function OrderModificationModal({
   // --- Data from DB ---
   const [services, setServices] = useState<any[]>([]);
   const [products, setProducts] = useState<POSProduct[]>([]);
+  const [loyaltyTier, setLoyaltyTier] = useState<LoyaltyTier | null>(null);
+  const [pricingRules, setPricingRules] =
+    useState<PricingRules>(DEFAULT_PRICING_RULES);
   const [loading, setLoading] = useState(true);
 
   // --- Editable state ---
@@ -156,7 +166,7 @@ export default function OrderModificationModal({
     async function init() {
       const supabase = createClient();
 
-      const [servicesRes, productsRes] = await Promise.all([
+      const [servicesRes, productsRes, rules, loyalty] = await Promise.all([
         supabase.from("services").select("*").eq("is_active", true),
         supabase
           .from("products")
@@ -165,9 +175,17 @@ export default function OrderModificationModal({
           )
           .eq("is_active", true)
           .order("item_name"),
+        loadPricingRules(supabase),
+        loadLoyaltyProgram(supabase, true),
       ]);
 
       if (servicesRes.data) setServices(servicesRes.data);
+      setPricingRules(rules);
+      // Keep the discount the customer already redeemed points for
+      const redeemedTierId = order.breakdown?.summary?.loyalty_tier_id;
+      setLoyaltyTier(
+        loyalty.tiers.find((t) => t.id === redeemedTierId) || null,
+      );
       if (productsRes.data) {
         setProducts(
           productsRes.data.map((p: any) => ({
@@ -228,7 +246,7 @@ export default function OrderModificationModal({
       const updated = [...prev];
       updated[activeBasketIndex] = {
         ...updated[activeBasketIndex],
-        weight_kg: Math.min(weight, 8),
+        weight_kg: Math.min(weight, pricingRules.basket_weight_max),
       };
       return updated;
     });
@@ -310,6 +328,8 @@ export default function OrderModificationModal({
     originalDeliveryFee, // preserve original delivery fee
     services,
     products,
+    pricingRules,
+    loyaltyTier,
   );
 
   // --- Save ---
@@ -596,17 +616,20 @@ export default function OrderModificationModal({
                   {/* Additional Dry Time */}
                   <div>
                     <div className="text-sm font-bold text-gray-900 mb-1">
-                      ⏱️ Extra Dry Time (₱15/8min)
+                      ⏱️ Extra Dry Time
                     </div>
                     <div className="flex items-center gap-3 p-3 bg-gray-50 border border-gray-200 rounded-lg">
                       <button
                         onClick={() => {
                           const curr =
                             activeBasket.services.additional_dry_time_minutes;
+                          const prevTier = [...pricingRules.extra_dry_tiers]
+                            .reverse()
+                            .find((t) => t.minutes < curr);
                           if (curr > 0)
                             updateService(
                               "additional_dry_time_minutes",
-                              curr - 8,
+                              prevTier ? prevTier.minutes : 0,
                             );
                         }}
                         disabled={activeBasket.services.dry === "off"}
@@ -624,10 +647,13 @@ export default function OrderModificationModal({
                         onClick={() => {
                           const curr =
                             activeBasket.services.additional_dry_time_minutes;
-                          if (curr < 24)
+                          const nextTier = pricingRules.extra_dry_tiers.find(
+                            (t) => t.minutes > curr,
+                          );
+                          if (nextTier)
                             updateService(
                               "additional_dry_time_minutes",
-                              curr + 8,
+                              nextTier.minutes,
                             );
                         }}
                         disabled={activeBasket.services.dry === "off"}
@@ -637,10 +663,9 @@ export default function OrderModificationModal({
                       </button>
                       <span className="text-sm text-gray-600 ml-auto">
                         ₱
-                        {(
-                          (activeBasket.services.additional_dry_time_minutes /
-                            8) *
-                          15
+                        {getExtraDryPrice(
+                          activeBasket.services.additional_dry_time_minutes,
+                          pricingRules,
                         ).toFixed(2)}
                       </span>
                     </div>
@@ -653,7 +678,8 @@ export default function OrderModificationModal({
                       return (
                         <>
                           <div className="text-sm font-bold text-gray-900 mb-1">
-                            👔 Iron (₱{ironInfo.price.toFixed(2)}/kg, min 2kg)
+                            👔 Iron (₱{ironInfo.price.toFixed(2)}/kg, min{" "}
+                            {pricingRules.iron_weight_min}kg)
                           </div>
                           <div className="flex items-center gap-3 p-3 bg-gray-50 border border-gray-200 rounded-lg">
                             <button
@@ -663,7 +689,9 @@ export default function OrderModificationModal({
                                 if (curr > 0)
                                   updateService(
                                     "iron_weight_kg",
-                                    curr === 2 ? 0 : curr - 1,
+                                    curr === pricingRules.iron_weight_min
+                                      ? 0
+                                      : curr - 1,
                                   );
                               }}
                               className="w-9 h-9 rounded bg-gray-200 font-bold hover:bg-gray-300"
@@ -680,10 +708,12 @@ export default function OrderModificationModal({
                               onClick={() => {
                                 const curr =
                                   activeBasket.services.iron_weight_kg;
-                                if (curr < 8)
+                                if (curr < pricingRules.iron_weight_max)
                                   updateService(
                                     "iron_weight_kg",
-                                    curr === 0 ? 2 : ((curr + 1) as any),
+                                    curr === 0
+                                      ? pricingRules.iron_weight_min
+                                      : curr + 1,
                                   );
                               }}
                               className="w-9 h-9 rounded bg-gray-200 font-bold hover:bg-gray-300"
@@ -913,8 +943,14 @@ export default function OrderModificationModal({
                     <span>₱{breakdown.summary.delivery_fee.toFixed(2)}</span>
                   </div>
                 )}
+                {breakdown.summary.loyalty_discount > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span>Loyalty Discount</span>
+                    <span>-₱{breakdown.summary.loyalty_discount.toFixed(2)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-sm text-gray-500">
-                  <span>VAT (12% inclusive)</span>
+                  <span>VAT ({formatTaxRate(pricingRules)} inclusive)</span>
                   <span>₱{breakdown.summary.vat_amount.toFixed(2)}</span>
                 </div>
                 <div className="border-t border-pink-300 my-1"></div>
@@ -0,0 +1,231 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  FloorMachine,
+  MachineFloor,
+  MACHINE_SERVICE_TYPES,
+  MachineServiceType,
+  minutesRemaining,
+} from "@/src/app/utils/machineFloor";
+
+const AUTO_REFRESH_INTERVAL = 30000; // 30 seconds
+
+const SECTION_LABELS: Record<MachineServiceType, string> = {
+  wash: "Washers",
+  dry: "Dryers",
+};
+
+export default function MachineFloorPage() {
+  const [floor, setFloor] = useState<MachineFloor | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [now, setNow] = useState(new Date());
+
+  useEffect(() => {
+    load();
+    const interval = setInterval(load, AUTO_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Keep the countdowns moving between refreshes
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 15000);
+    return () => clearInterval(interval);
+  }, []);
+
+  async function load() {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/machines/floor");
+      const response = await res.json();
+      if (!res.ok || !response.success) {
+        throw new Error(response.error || `Server responded ${res.status}`);
+      }
+      setFloor(response.data);
+      setNow(new Date());
+      setErrorMsg(null);
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : "Failed to load machine floor");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Expected wait for the queue: baskets are loaded onto whichever machine
+  // frees up first
+  function estimateWaits(machines: FloorMachine[], durations: number[]): number[] {
+    const freeIn = machines
+      .filter((m) => m.status !== "maintenance")
+      .map((m) => (m.current ? minutesRemaining(m.current.expected_end_at, now) : 0));
+    if (freeIn.length === 0) return durations.map(() => -1);
+
+    return durations.map((duration) => {
+      freeIn.sort((a, b) => a - b);
+      const wait = freeIn[0];
+      freeIn[0] = wait + duration;
+      return wait;
+    });
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <div className="text-xl font-semibold">Machine Floor</div>
+          <div className="text-xs text-gray-500">
+            Updated {now.toLocaleTimeString()}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/in/baskets" className="px-3 py-1 border rounded">
+            Back to Baskets
+          </Link>
+          <button
+            onClick={load}
+            disabled={loading}
+            className="px-3 py-1 bg-blue-600 text-white rounded"
+          >
+            {loading ? "Refreshing..." : "Refresh"}
+          </button>
+        </div>
+      </div>
+
+      {errorMsg && <div className="text-red-600">{errorMsg}</div>}
+
+      {!floor ? (
+        <div>Loading...</div>
+      ) : (
+        MACHINE_SERVICE_TYPES.map((type) => {
+          const machines = floor.machines.filter((m) => m.type === type);
+          const queue = floor.queues[type] || [];
+          const waits = estimateWaits(
+            machines,
+            queue.map((q) => q.duration_minutes)
+          );
+
+          return (
+            <div key={type} className="space-y-3">
+              <div className="text-lg font-semibold">
+                {SECTION_LABELS[type]}
+                <span className="ml-2 text-sm text-gray-500 font-normal">
+                  {machines.filter((m) => m.status === "available" && !m.current).length} free
+                  of {machines.length}
+                </span>
+              </div>
+
+              <div className="flex gap-6 items-start">
+                <div className="flex-1 grid grid-cols-2 lg:grid-cols-4 gap-3">
+                  {machines.length === 0 && (
+                    <div className="text-sm text-gray-500">No machines set up</div>
+                  )}
+                  {machines.map((m) => (
+                    <MachineCard key={m.id} machine={m} now={now} />
+                  ))}
+                </div>
+
+                <div className="w-72 border rounded p-3 bg-white">
+                  <div className="font-semibold text-sm mb-2">
+                    Queue ({queue.length})
+                  </div>
+                  {queue.length === 0 ? (
+                    <div className="text-xs text-gray-500">No baskets waiting</div>
+                  ) : (
+                    <ol className="space-y-2">
+                      {queue.map((q, idx) => (
+                        <li
+                          key={`${q.order_id}-${q.basket_number}`}
+                          className="text-xs border-b pb-2 last:border-b-0"
+                        >
+                          <div className="font-medium">
+                            {idx + 1}. {q.customer_name || "Walk-in"} • Basket #
+                            {q.basket_number}
+                          </div>
+                          <div className="text-gray-500">
+                            {q.weight_kg} kg • {q.duration_minutes} min •{" "}
+                            {waits[idx] < 0
+                              ? "no machine available"
+                              : waits[idx] === 0
+                                ? "machine free now"
+                                : `~${waits[idx]} min wait`}
+                          </div>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
+
+function MachineCard({ machine, now }: { machine: FloorMachine; now: Date }) {
+  const current = machine.current;
+  const remaining = current ? minutesRemaining(current.expected_end_at, now) : 0;
+  const progress =
+    current && current.duration_minutes > 0
+      ? Math.min(100, Math.round(((current.duration_minutes - remaining) / current.duration_minutes) * 100))
+      : 100;
+
+  const statusClass =
+    machine.status === "maintenance"
+      ? "bg-gray-200 text-gray-700"
+      : current
+        ? remaining === 0
+          ? "bg-orange-100 text-orange-800"
+          : "bg-blue-100 text-blue-800"
+        : "bg-green-100 text-green-800";
+
+  const statusLabel =
+    machine.status === "maintenance"
+      ? "Maintenance"
+      : current
+        ? remaining === 0
+          ? "Done - unload"
+          : "Running"
+        : machine.status === "available"
+          ? "Free"
+          : machine.status;
+
+  return (
+    <div className="border rounded p-3 bg-white space-y-2">
+      <div className="flex justify-between items-center">
+        <div className="font-semibold">{machine.machine_name}</div>
+        <span className={`px-2 py-0.5 rounded text-xs font-semibold ${statusClass}`}>
+          {statusLabel}
+        </span>
+      </div>
+
+      {current ? (
+        <>
+          <div className="text-sm">
+            {current.customer_name || "Walk-in"} • Basket #{current.basket_number}
+          </div>
+          <div className="text-xs text-gray-500">
+            Order {current.order_id.slice(0, 8)} • started{" "}
+            {new Date(current.started_at).toLocaleTimeString([], {
+              hour: "2-digit",
+              minute: "2-digit",
+            })}
+          </div>
+          <div className="h-2 bg-gray-100 rounded">
+            <div
+              className="h-2 bg-blue-500 rounded"
+              style={{ width: `${progress}%` }}
+            />
+          </div>
+          <div className="text-xs font-medium">
+            {remaining > 0 ? `${remaining} min left` : "Cycle finished"}
+          </div>
+        </>
+      ) : (
+        <div className="text-xs text-gray-500">Empty</div>
+      )}
+    </div>
+  );
+}
@@ -17,6 +17,7 @@ if (typeof window !== "undefined") {
 }
 
 import { useEffect, useState } from "react";
+import Link from "next/link";
 import { createClient } from "@/src/app/utils/supabase/client";
 import ReceiptModal from "@/src/app/in/pos/components/receiptModal";
 import {
@@ -24,6 +25,18 @@ import {
   CompactReceipt,
 } from "@/src/app/in/pos/logic/receiptGenerator";
 import OrderModificationModal from "./OrderModificationModal";
+import GcashVerificationQueue from "./GcashVerificationQueue";
+import HandlingProofModal from "./HandlingProofModal";
+import {
+  GCASH_VERIFICATION_LABELS,
+  GcashVerificationStatus,
+  gcashAcceptanceError,
+} from "@/src/app/utils/gcashVerification";
+import {
+  FloorMachine,
+  isMachineServiceType,
+  minutesRemaining,
+} from "@/src/app/utils/machineFloor";
 
 // Status filter type (includes virtual handling-phase filters)
 type StatusFilter =
@@ -44,6 +57,8 @@ type Order = {
   total_amount: number;
   created_at: string;
   gcash_receipt_url?: string | null;
+  gcash_verification_status?: GcashVerificationStatus | null;
+  gcash_verification_note?: string | null;
   handling: {
     service_type?: string;
     handling_type?: string;
@@ -119,6 +134,16 @@ export default function BasketsPage() {
   const [showReceiptModal, setShowReceiptModal] = useState(false);
   const [receiptContent, setReceiptContent] = useState("");
   const [showOrderEditor, setShowOrderEditor] = useState<Order | null>(null);
+  // Pickup/delivery waiting for its proof before it can be completed
+  const [proofRequest, setProofRequest] = useState<{
+    order: Order;
+    leg: "pickup" | "delivery";
+  } | null>(null);
+  const [machines, setMachines] = useState<FloorMachine[]>([]);
+  // Selected washer/dryer per basket service, keyed "orderId:basket:service"
+  const [machineChoice, setMachineChoice] = useState<Record<string, string>>(
+    {},
+  );
 
   // Get authenticated staff user
   useEffect(() => {
@@ -186,6 +211,25 @@ export default function BasketsPage() {
     }
   }, [authLoading]);
 
+  // Reload machines and their current baskets (for the washer/dryer picker)
+  // whenever the orders reload
+  useEffect(() => {
+    async function loadMachines() {
+      try {
+        const res = await fetch("/api/machines/floor");
+        const response = await res.json();
+        if (!res.ok || !response.success) {
+          throw new Error(response.error || "Failed to load machines");
+        }
+        setMachines(response.data.machines);
+      } catch (err) {
+        console.error("[LOAD MACHINES] Error:", err);
+      }
+    }
+
+    loadMachines();
+  }, [orders]);
+
   // Live clock update every second
   useEffect(() => {
     const updateClock = () => {
@@ -206,6 +250,25 @@ export default function BasketsPage() {
     return () => clearInterval(interval);
   }, []);
 
+  // Machine currently running this basket service
+  const getRunningMachine = (
+    orderId: string,
+    basketNumber: number,
+    serviceType: string,
+  ) =>
+    machines.find(
+      (m) =>
+        m.current?.order_id === orderId &&
+        m.current.basket_number === basketNumber &&
+        m.current.service_type === serviceType,
+    );
+
+  // Machines of a type that can take a basket now
+  const getFreeMachines = (serviceType: string) =>
+    machines.filter(
+      (m) => m.type === serviceType && m.status === "available" && !m.current,
+    );
+
   async function load() {
     setLoading(true);
     setErrorMsg(null);
@@ -537,6 +600,8 @@ export default function BasketsPage() {
     handlingType: string | null,
     action: string,
     serviceType?: string,
+    machineId?: string,
+    proof?: FormData,
   ) {
     setProcessingId(orderId);
     console.log("[UPDATE SERVICE] Starting:", {
@@ -559,6 +624,7 @@ export default function BasketsPage() {
             body: JSON.stringify({
               service_type: serviceType,
               action: action,
+              machine_id: machineId,
             }),
           },
         );
@@ -571,7 +637,6 @@ export default function BasketsPage() {
       } else {
         // Handling (pickup/delivery) update via old endpoint
         const body: any = {
-          staffId: getStaffId(),
           action,
         };
 
@@ -583,10 +648,22 @@ export default function BasketsPage() {
         }
 
         console.log("[UPDATE SERVICE] Calling handling endpoint with:", body);
+        // Completing with proof goes as multipart so the photo can be attached
+        if (proof) {
+          Object.entries(body).forEach(([key, value]) => {
+            if (value !== null && value !== undefined) {
+              proof.append(key, String(value));
+            }
+          });
+        }
         const res = await fetch(`/api/orders/${orderId}/serviceStatus`, {
           method: "PATCH",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(body),
+          ...(proof
+            ? { body: proof }
+            : {
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(body),
+              }),
         });
 
         const responseData = await res.json();
@@ -600,9 +677,11 @@ export default function BasketsPage() {
       console.log("[UPDATE SERVICE] Reloading orders...");
       await load();
       console.log("[UPDATE SERVICE] Orders reloaded successfully");
+      return true;
     } catch (err: any) {
       console.error("[UPDATE SERVICE] Error:", err);
       setErrorMsg(err.message);
+      return false;
     } finally {
       setProcessingId(null);
     }
@@ -620,7 +699,6 @@ export default function BasketsPage() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          cashier_id: getStaffId(),
           reason: "Rejected by staff",
           notes: "Order rejected through mobile order review",
         }),
@@ -809,7 +887,13 @@ export default function BasketsPage() {
           {/* Separator */}
           <div className="h-12 w-px bg-linear-to-b from-transparent via-gray-300 to-transparent"></div>
 
-          {/* Right: Refresh Button */}
+          {/* Right: Machine Floor + Refresh Buttons */}
+          <Link
+            href="/in/baskets/floor"
+            className="px-6 py-3 bg-white border border-gray-300 text-gray-800 rounded-lg hover:bg-gray-50 transition font-semibold text-base whitespace-nowrap"
+          >
+            Machine Floor
+          </Link>
           <button
             onClick={() => load()}
             className="px-8 py-3 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition font-semibold text-base whitespace-nowrap shadow-lg hover:shadow-xl"
@@ -827,6 +911,9 @@ export default function BasketsPage() {
           </div>
         </div>
 
+        {/* GCash receipts waiting for review */}
+        <GcashVerificationQueue onReviewed={load} />
+
         {/* Error Message */}
         {errorMsg && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
@@ -1062,6 +1149,24 @@ export default function BasketsPage() {
                                     {isDone ? "✓" : isActive ? "●" : "○"}
                                   </span>
                                   <span className="flex-1">{serviceLabel}</span>
+                                  {isActive &&
+                                    (() => {
+                                      const runningMachine = getRunningMachine(
+                                        order.id,
+                                        basket.basket_number,
+                                        service.service_type,
+                                      );
+                                      return runningMachine?.current ? (
+                                        <span className="text-blue-700">
+                                          {runningMachine.machine_name} •{" "}
+                                          {minutesRemaining(
+                                            runningMachine.current
+                                              .expected_end_at,
+                                          )}{" "}
+                                          min left
+                                        </span>
+                                      ) : null;
+                                    })()}
                                 </div>
                               );
                             })}
@@ -1106,23 +1211,79 @@ export default function BasketsPage() {
 
                         {/* Service Action Button - Inside Basket */}
                         {nextAction && nextAction.type === "service" ? (
-                          <button
-                            onClick={() => {
-                              updateServiceStatus(
-                                order.id,
-                                nextAction.basketNumber || basket.basket_number,
-                                null,
-                                nextAction.action,
-                                nextAction.serviceType,
+                          (() => {
+                            const basketNumber =
+                              nextAction.basketNumber || basket.basket_number;
+                            const choiceKey = `${order.id}:${basketNumber}:${nextAction.serviceType}`;
+                            // Wash/dry start needs a free machine when the shop tracks machines
+                            const needsMachine =
+                              nextAction.action === "start" &&
+                              isMachineServiceType(nextAction.serviceType) &&
+                              machines.some(
+                                (m) => m.type === nextAction.serviceType,
                               );
-                            }}
-                            disabled={processingId === order.id}
-                            className="w-full mt-3 px-4 py-2 rounded-lg text-sm font-semibold transition-all bg-blue-600 text-white hover:bg-blue-700 active:scale-95 disabled:bg-gray-300 disabled:cursor-wait"
-                          >
-                            {processingId === order.id
-                              ? "Processing..."
-                              : nextAction.label}
-                          </button>
+                            const freeMachines = needsMachine
+                              ? getFreeMachines(nextAction.serviceType!)
+                              : [];
+                            const chosen = freeMachines.some(
+                              (m) => m.id === machineChoice[choiceKey],
+                            )
+                              ? machineChoice[choiceKey]
+                              : freeMachines[0]?.id;
+
+                            return (
+                              <>
+                                {needsMachine &&
+                                  (freeMachines.length > 0 ? (
+                                    <select
+                                      value={chosen}
+                                      onChange={(e) =>
+                                        setMachineChoice((prev) => ({
+                                          ...prev,
+                                          [choiceKey]: e.target.value,
+                                        }))
+                                      }
+                                      className="w-full mt-3 border border-gray-300 rounded-lg px-3 py-2 text-sm bg-white"
+                                    >
+                                      {freeMachines.map((m) => (
+                                        <option key={m.id} value={m.id}>
+                                          {m.machine_name}
+                                        </option>
+                                      ))}
+                                    </select>
+                                  ) : (
+                                    <div className="text-xs text-orange-700 text-center py-2 px-3 bg-orange-50 rounded-lg border border-orange-200 font-semibold mt-3">
+                                      All{" "}
+                                      {nextAction.serviceType === "wash"
+                                        ? "washers"
+                                        : "dryers"}{" "}
+                                      are busy
+                                    </div>
+                                  ))}
+                                <button
+                                  onClick={() => {
+                                    updateServiceStatus(
+                                      order.id,
+                                      basketNumber,
+                                      null,
+                                      nextAction.action,
+                                      nextAction.serviceType,
+                                      needsMachine ? chosen : undefined,
+                                    );
+                                  }}
+                                  disabled={
+                                    processingId === order.id ||
+                                    (needsMachine && !chosen)
+                                  }
+                                  className="w-full mt-3 px-4 py-2 rounded-lg text-sm font-semibold transition-all bg-blue-600 text-white hover:bg-blue-700 active:scale-95 disabled:bg-gray-300 disabled:cursor-wait"
+                                >
+                                  {processingId === order.id
+                                    ? "Processing..."
+                                    : nextAction.label}
+                                </button>
+                              </>
+                            );
+                          })()
                         ) : allServicesComplete ? (
                           <div className="text-xs text-green-700 text-center py-3 px-3 bg-green-50 rounded-lg border border-green-200 font-semibold mt-3">
                             ✓ Basket Complete
@@ -1158,7 +1319,9 @@ export default function BasketsPage() {
                       <div className="px-4 py-3 border-t border-gray-200 bg-gray-50">
                         <button
                           onClick={() => {
-                            if (orderAction.type === "pickup") {
+                            if (orderAction.action === "complete") {
+                              setProofRequest({ order, leg: orderAction.type });
+                            } else if (orderAction.type === "pickup") {
                               updateServiceStatus(
                                 order.id,
                                 null,
@@ -1466,6 +1629,15 @@ export default function BasketsPage() {
                     <div className="w-full h-full flex flex-col items-center justify-center">
                       <h3 className="font-semibold text-gray-900 mb-3 shrink-0">
                         💳 GCash Receipt
+                        {mobileOrderModal.gcash_verification_status && (
+                          <span className="ml-2 text-xs font-semibold text-purple-700">
+                            {
+                              GCASH_VERIFICATION_LABELS[
+                                mobileOrderModal.gcash_verification_status
+                              ]
+                            }
+                          </span>
+                        )}
                       </h3>
                       <img
                         src={`/api/gcash-receipt/${mobileOrderModal.gcash_receipt_url.split("/").pop()}`}
@@ -1516,11 +1688,17 @@ export default function BasketsPage() {
                     );
                     setMobileOrderModal(null);
                   }}
-                  disabled={processingId === mobileOrderModal.id}
+                  disabled={
+                    processingId === mobileOrderModal.id ||
+                    !!gcashAcceptanceError(mobileOrderModal)
+                  }
+                  title={gcashAcceptanceError(mobileOrderModal) || ""}
                   className={`flex-1 px-4 py-2 rounded-lg text-sm font-semibold transition ${
                     processingId === mobileOrderModal.id
                       ? "bg-gray-300 text-gray-700 cursor-wait"
-                      : "bg-blue-600 text-white hover:bg-blue-700"
+                      : gcashAcceptanceError(mobileOrderModal)
+                        ? "bg-gray-300 text-gray-700 cursor-not-allowed"
+                        : "bg-blue-600 text-white hover:bg-blue-700"
                   }`}
                 >
                   {processingId === mobileOrderModal.id
@@ -1559,6 +1737,34 @@ export default function BasketsPage() {
           />
         )}
 
+        {/* Proof of Pickup / Delivery Modal */}
+        {proofRequest && (
+          <HandlingProofModal
+            leg={proofRequest.leg}
+            defaultRecipient={
+              proofRequest.order.customers
+                ? `${proofRequest.order.customers.first_name} ${proofRequest.order.customers.last_name}`
+                : ""
+            }
+            submitting={processingId === proofRequest.order.id}
+            error={errorMsg}
+            onSubmit={async (proof) => {
+              setErrorMsg(null);
+              const saved = await updateServiceStatus(
+                proofRequest.order.id,
+                null,
+                proofRequest.leg,
+                "complete",
+                undefined,
+                undefined,
+                proof,
+              );
+              if (saved) setProofRequest(null);
+            }}
+            onClose={() => setProofRequest(null)}
+          />
+        )}
+
         {/* Receipt Modal */}
         <ReceiptModal
           isOpen={showReceiptModal}
@@ -0,0 +1,317 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import { formatToPST } from "@/src/app/utils/dateUtils";
+import {
+  AUDIT_ENTITY_LABELS,
+  AuditEntityType,
+  AuditLogEntry,
+} from "@/src/app/utils/auditLog";
+
+type StaffOption = { id: string; first_name: string; last_name: string };
+
+type Filters = {
+  staff_id: string;
+  entity_type: string;
+  entity_id: string;
+  from: string;
+  to: string;
+};
+
+const EMPTY_FILTERS: Filters = {
+  staff_id: "",
+  entity_type: "",
+  entity_id: "",
+  from: "",
+  to: "",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export default function AuditLogPage() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [staff, setStaff] = useState<StaffOption[]>([]);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [pageSize, setPageSize] = useState(50);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  // Filters take effect on Apply, not while typing
+  const [applied, setApplied] = useState<Filters>(EMPTY_FILTERS);
+
+  useEffect(() => {
+    async function load() {
+      setLoading(true);
+      setErrorMsg(null);
+      try {
+        const params = new URLSearchParams({ page: String(page) });
+        for (const [key, value] of Object.entries(applied)) {
+          if (value) params.set(key, value);
+        }
+        const res = await fetch(`/api/manage/audit/getAuditLog?${params}`);
+        const body = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          throw new Error(body?.error || `Server responded ${res.status}`);
+        }
+        setEntries(body.data.entries || []);
+        setTotal(body.data.total || 0);
+        setPageSize(body.data.page_size || 50);
+        setStaff(body.data.staff || []);
+      } catch {
+        setErrorMsg("Failed to load audit log");
+      } finally {
+        setLoading(false);
+      }
+    }
+    load();
+  }, [page, applied]);
+
+  function applyFilters(next: Filters) {
+    setExpanded(null);
+    setPage(1);
+    setApplied({ ...next });
+  }
+
+  function clearFilters() {
+    setFilters(EMPTY_FILTERS);
+    applyFilters(EMPTY_FILTERS);
+  }
+
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <div className="text-xl font-semibold">Audit Log</div>
+        <div className="text-sm text-gray-500">
+          Every change staff made to orders, stock, pricing and accounts
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="flex flex-col">
+          <label className="text-sm">Staff</label>
+          <select
+            value={filters.staff_id}
+            onChange={(e) =>
+              setFilters({ ...filters, staff_id: e.target.value })
+            }
+            className="border px-2 py-1 rounded"
+          >
+            <option value="">All staff</option>
+            {staff.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.first_name} {s.last_name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-col">
+          <label className="text-sm">Record type</label>
+          <select
+            value={filters.entity_type}
+            onChange={(e) =>
+              setFilters({ ...filters, entity_type: e.target.value })
+            }
+            className="border px-2 py-1 rounded"
+          >
+            <option value="">All records</option>
+            {Object.entries(AUDIT_ENTITY_LABELS).map(([key, label]) => (
+              <option key={key} value={key}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-col">
+          <label className="text-sm">Record ID</label>
+          <input
+            value={filters.entity_id}
+            onChange={(e) =>
+              setFilters({ ...filters, entity_id: e.target.value })
+            }
+            placeholder="e.g. order ID"
+            className="border px-2 py-1 rounded"
+          />
+        </div>
+
+        <div className="flex flex-col">
+          <label className="text-sm">From</label>
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+            className="border px-2 py-1 rounded"
+          />
+        </div>
+
+        <div className="flex flex-col">
+          <label className="text-sm">To</label>
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+            className="border px-2 py-1 rounded"
+          />
+        </div>
+
+        <button
+          onClick={() => applyFilters(filters)}
+          className="px-3 py-1 bg-blue-600 text-white rounded"
+          disabled={loading}
+        >
+          Apply
+        </button>
+        <button
+          onClick={clearFilters}
+          className="px-3 py-1 border rounded"
+          disabled={loading}
+        >
+          Clear
+        </button>
+      </div>
+
+      {errorMsg && <div className="text-red-600">{errorMsg}</div>}
+
+      {loading ? (
+        <div>Loading...</div>
+      ) : (
+        <table className="w-full table-fixed border">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="p-2 border w-48">Time</th>
+              <th className="p-2 border w-40">Staff</th>
+              <th className="p-2 border w-56">Action</th>
+              <th className="p-2 border w-64">Record</th>
+              <th className="p-2 border">Changes</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.length === 0 && (
+              <tr>
+                <td
+                  colSpan={5}
+                  className="p-2 border text-center text-gray-500"
+                >
+                  No matching entries
+                </td>
+              </tr>
+            )}
+            {entries.map((entry) => {
+              const changedFields = Object.keys(entry.changes || {});
+              const isOpen = expanded === entry.id;
+              return (
+                <Fragment key={entry.id}>
+                  <tr
+                    className="cursor-pointer hover:bg-gray-50 align-top"
+                    onClick={() => setExpanded(isOpen ? null : entry.id)}
+                  >
+                    <td className="p-2 border text-sm">
+                      {formatToPST(entry.created_at)}
+                    </td>
+                    <td className="p-2 border text-sm">
+                      {entry.staff_name || "—"}
+                    </td>
+                    <td className="p-2 border text-sm font-mono">
+                      {entry.action}
+                    </td>
+                    <td className="p-2 border text-sm">
+                      {AUDIT_ENTITY_LABELS[
+                        entry.entity_type as AuditEntityType
+                      ] || entry.entity_type}
+                      {entry.entity_id && (
+                        <div className="text-xs text-gray-500 font-mono break-all">
+                          {entry.entity_id}
+                        </div>
+                      )}
+                    </td>
+                    <td className="p-2 border text-sm">
+                      {changedFields.length > 0
+                        ? changedFields.join(", ")
+                        : "—"}
+                    </td>
+                  </tr>
+                  {isOpen && (
+                    <tr>
+                      <td
+                        colSpan={5}
+                        className="p-3 border bg-gray-50 space-y-3"
+                      >
+                        {changedFields.length > 0 && (
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="text-left text-gray-500">
+                                <th className="pr-3 w-48">Field</th>
+                                <th className="pr-3">Before</th>
+                                <th>After</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {changedFields.map((field) => (
+                                <tr key={field} className="align-top">
+                                  <td className="pr-3 font-mono">{field}</td>
+                                  <td className="pr-3 text-red-700 break-all">
+                                    {formatValue(entry.changes![field].from)}
+                                  </td>
+                                  <td className="text-green-700 break-all">
+                                    {formatValue(entry.changes![field].to)}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        )}
+                        {entry.metadata && (
+                          <div className="text-sm">
+                            <div className="text-gray-500">Details</div>
+                            <pre className="text-xs whitespace-pre-wrap break-all">
+                              {JSON.stringify(entry.metadata, null, 2)}
+                            </pre>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex items-center justify-between text-sm">
+        <div className="text-gray-500">
+          {total} entr{total === 1 ? "y" : "ies"}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setPage(page - 1)}
+            className="px-3 py-1 border rounded disabled:opacity-50"
+            disabled={loading || page <= 1}
+          >
+            Previous
+          </button>
+          <span>
+            Page {page} of {totalPages}
+          </span>
+          <button
+            onClick={() => setPage(page + 1)}
+            className="px-3 py-1 border rounded disabled:opacity-50"
+            disabled={loading || page >= totalPages}
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -17,6 +17,7 @@ type Issue = {
   customer_name?: string;
   customer_phone?: string;
   resolved_by_name?: string;
+  machine_name?: string | null;
 };
 
 type SortConfig = {
@@ -374,6 +375,11 @@ export default function IssuesPage() {
                           >
                             {issue.description}
                           </div>
+                          {issue.machine_name && (
+                            <div className="text-xs text-gray-500">
+                              Machine: {issue.machine_name}
+                            </div>
+                          )}
                         </td>
                         <td className="px-4 py-3 text-sm text-gray-700">
                           {issue.customer_name ? (
@@ -0,0 +1,385 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { LoyaltySettings, LoyaltyTier } from "@/src/app/in/pos/logic/posTypes";
+
+type EditingTier = {
+  id: string | null;
+  name: string;
+  points_required: string;
+  discount_percent: string;
+  is_active: boolean;
+};
+
+type SettingsForm = {
+  points_per_order: string;
+  pesos_per_point: string;
+  expire_after_days: string;
+};
+
+export default function LoyaltyPage() {
+  const [tiers, setTiers] = useState<LoyaltyTier[]>([]);
+  const [settings, setSettings] = useState<SettingsForm | null>(null);
+  const [editing, setEditing] = useState<EditingTier | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [successMsg, setSuccessMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  async function load() {
+    setLoading(true);
+    setErrorMsg(null);
+    try {
+      const res = await fetch("/api/manage/loyalty/getLoyaltyProgram");
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body?.error || `Server responded ${res.status}`);
+      }
+      const s: LoyaltySettings = body.data.settings;
+      setTiers(body.data.tiers || []);
+      setSettings({
+        points_per_order: String(s.points_per_order),
+        pesos_per_point: s.pesos_per_point === null ? "" : String(s.pesos_per_point),
+        expire_after_days: s.expire_after_days === null ? "" : String(s.expire_after_days),
+      });
+    } catch {
+      setErrorMsg("Failed to load loyalty program");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function post(url: string, payload: unknown) {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(body.error || `Server responded ${res.status}`);
+    return body;
+  }
+
+  function openNew() {
+    setEditing({
+      id: null,
+      name: "",
+      points_required: "",
+      discount_percent: "",
+      is_active: true,
+    });
+    setErrorMsg(null);
+  }
+
+  function openEdit(tier: LoyaltyTier) {
+    setEditing({
+      id: tier.id,
+      name: tier.name,
+      points_required: String(tier.points_required),
+      discount_percent: String(tier.discount_percent),
+      is_active: tier.is_active,
+    });
+    setErrorMsg(null);
+  }
+
+  async function saveTier() {
+    if (!editing) return;
+    setErrorMsg(null);
+    setSaving(true);
+    try {
+      await post("/api/manage/loyalty/saveLoyaltyTier", {
+        id: editing.id,
+        name: editing.name,
+        points_required: Number(editing.points_required),
+        discount_percent: Number(editing.discount_percent),
+        is_active: editing.is_active,
+      });
+      await load();
+      setEditing(null);
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : "Failed to save tier");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function removeTier() {
+    if (!editing?.id) return;
+    if (!confirm(`Delete tier "${editing.name}"?`)) return;
+    setErrorMsg(null);
+    setSaving(true);
+    try {
+      await post("/api/manage/loyalty/removeLoyaltyTier", { id: editing.id });
+      await load();
+      setEditing(null);
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : "Failed to delete tier");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function saveSettings() {
+    if (!settings) return;
+    setErrorMsg(null);
+    setSuccessMsg(null);
+    setSaving(true);
+    try {
+      await post("/api/manage/loyalty/saveLoyaltySettings", {
+        points_per_order: Number(settings.points_per_order),
+        pesos_per_point: settings.pesos_per_point === "" ? null : Number(settings.pesos_per_point),
+        expire_after_days: settings.expire_after_days === "" ? null : Number(settings.expire_after_days),
+      });
+      await load();
+      setSuccessMsg("Earn rules saved");
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : "Failed to save settings");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function expireNow() {
+    if (!confirm("Expire the points of all inactive customers now?")) return;
+    setErrorMsg(null);
+    setSuccessMsg(null);
+    setSaving(true);
+    try {
+      const body = await post("/api/manage/loyalty/expirePoints", {});
+      setSuccessMsg(`Expired points for ${body.expired} customer(s)`);
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : "Failed to expire points");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <div className="text-xl font-semibold">Loyalty Program</div>
+          <div className="text-sm text-gray-500">
+            Changes apply to new orders immediately
+          </div>
+        </div>
+        <button
+          onClick={openNew}
+          className="px-3 py-1 bg-blue-600 text-white rounded"
+        >
+          + Add Tier
+        </button>
+      </div>
+
+      {errorMsg && !editing && <div className="text-red-600">{errorMsg}</div>}
+      {successMsg && <div className="text-green-700">{successMsg}</div>}
+
+      {loading ? (
+        <div>Loading...</div>
+      ) : (
+        <>
+          <table className="w-full table-fixed border">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="p-2 border">Tier</th>
+                <th className="p-2 border">Points Required</th>
+                <th className="p-2 border">Discount</th>
+                <th className="p-2 border">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {tiers.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="p-2 border text-center text-gray-500">
+                    No tiers yet
+                  </td>
+                </tr>
+              )}
+              {tiers.map((t) => (
+                <tr
+                  key={t.id}
+                  className="cursor-pointer hover:bg-gray-50"
+                  onClick={() => openEdit(t)}
+                >
+                  <td className="p-2 border">{t.name}</td>
+                  <td className="p-2 border text-center">{t.points_required} pts</td>
+                  <td className="p-2 border text-center">{t.discount_percent}%</td>
+                  <td className="p-2 border text-center">
+                    {t.is_active ? "Active" : "Inactive"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {settings && (
+            <div className="border rounded p-4 space-y-4 max-w-xl">
+              <div className="font-semibold">Earn Rules</div>
+
+              <div className="flex flex-col">
+                <label className="text-sm">
+                  Points per completed order
+                  <span className="text-red-600 ml-1">*</span>
+                </label>
+                <input
+                  type="number"
+                  step="1"
+                  value={settings.points_per_order}
+                  onChange={(e) =>
+                    setSettings({ ...settings, points_per_order: e.target.value })
+                  }
+                  className="border px-2 py-1 rounded"
+                />
+              </div>
+
+              <div className="flex flex-col">
+                <label className="text-sm">
+                  Extra point for every ₱ spent (leave empty to turn off)
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={settings.pesos_per_point}
+                  onChange={(e) =>
+                    setSettings({ ...settings, pesos_per_point: e.target.value })
+                  }
+                  className="border px-2 py-1 rounded"
+                />
+              </div>
+
+              <div className="flex flex-col">
+                <label className="text-sm">
+                  Expire balance after days without activity (leave empty for never)
+                </label>
+                <input
+                  type="number"
+                  step="1"
+                  value={settings.expire_after_days}
+                  onChange={(e) =>
+                    setSettings({ ...settings, expire_after_days: e.target.value })
+                  }
+                  className="border px-2 py-1 rounded"
+                />
+              </div>
+
+              <div className="flex justify-end space-x-3">
+                {settings.expire_after_days !== "" && (
+                  <button
+                    onClick={expireNow}
+                    className="px-3 py-1 bg-red-600 text-white rounded"
+                    disabled={saving}
+                  >
+                    Expire Inactive Points Now
+                  </button>
+                )}
+                <button
+                  onClick={saveSettings}
+                  className="px-3 py-1 bg-green-600 text-white rounded"
+                  disabled={saving}
+                >
+                  {saving ? "Saving..." : "Save Earn Rules"}
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {editing && (
+        <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+          <div className="bg-white p-6 w-[500px] rounded shadow space-y-4">
+            <div className="text-lg font-semibold">
+              {editing.id ? "Edit Tier" : "New Tier"}
+            </div>
+
+            {errorMsg && <div className="text-red-600">{errorMsg}</div>}
+
+            <div className="flex flex-col">
+              <label className="text-sm">
+                Name<span className="text-red-600 ml-1">*</span>
+              </label>
+              <input
+                value={editing.name}
+                onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                className="border px-2 py-1 rounded"
+              />
+            </div>
+
+            <div className="flex flex-col">
+              <label className="text-sm">
+                Points Required<span className="text-red-600 ml-1">*</span>
+              </label>
+              <input
+                type="number"
+                step="1"
+                value={editing.points_required}
+                onChange={(e) =>
+                  setEditing({ ...editing, points_required: e.target.value })
+                }
+                className="border px-2 py-1 rounded"
+              />
+            </div>
+
+            <div className="flex flex-col">
+              <label className="text-sm">
+                Discount (%)<span className="text-red-600 ml-1">*</span>
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                value={editing.discount_percent}
+                onChange={(e) =>
+                  setEditing({ ...editing, discount_percent: e.target.value })
+                }
+                className="border px-2 py-1 rounded"
+              />
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={editing.is_active}
+                onChange={(e) =>
+                  setEditing({ ...editing, is_active: e.target.checked })
+                }
+              />
+              Active
+            </label>
+
+            <div className="flex justify-end space-x-3 pt-3">
+              <button
+                onClick={() => setEditing(null)}
+                className="px-3 py-1 border rounded"
+                disabled={saving}
+              >
+                Cancel
+              </button>
+
+              {editing.id && (
+                <button
+                  onClick={removeTier}
+                  className="px-3 py-1 bg-red-600 text-white rounded"
+                  disabled={saving}
+                >
+                  Delete
+                </button>
+              )}
+
+              <button
+                onClick={saveTier}
+                className="px-3 py-1 bg-green-600 text-white rounded"
+                disabled={saving}
+              >
+                {saving ? "Saving..." : "Save"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
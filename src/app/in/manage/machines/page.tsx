@@ -2,6 +2,14 @@
 
 import { useEffect, useState } from "react";
 import { formatToPST } from "@/src/app/utils/dateUtils";
+import {
+  DOWNTIME_REASON_LABELS,
+  DOWNTIME_REASONS,
+  DowntimeReason,
+  MachineDowntime,
+  MachineUptimeRow,
+  MaintenancePlanStatus,
+} from "@/src/app/utils/machineMaintenance";
 
 type Machine = {
   id: string;
@@ -18,11 +26,35 @@ export default function MachinesPage() {
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [reportDays, setReportDays] = useState(30);
+  const [report, setReport] = useState<Record<string, MachineUptimeRow>>({});
+  const [maintenanceFor, setMaintenanceFor] = useState<Machine | null>(null);
 
   useEffect(() => {
     load();
   }, []);
 
+  useEffect(() => {
+    loadReport(reportDays);
+  }, [reportDays]);
+
+  async function loadReport(days: number) {
+    try {
+      const res = await fetch(`/api/manage/machines/getMachineReport?days=${days}`);
+      const body = await res.json();
+      if (!res.ok || !body.success) {
+        throw new Error(body.error || `Server responded ${res.status}`);
+      }
+      const byMachine: Record<string, MachineUptimeRow> = {};
+      for (const row of body.data as MachineUptimeRow[]) {
+        byMachine[row.machine_id] = row;
+      }
+      setReport(byMachine);
+    } catch (err) {
+      console.error("Failed to load machine report:", err);
+    }
+  }
+
   async function load() {
     setLoading(true);
     setErrorMsg(null);
@@ -145,12 +177,26 @@ export default function MachinesPage() {
     <div className="p-6 space-y-6">
       <div className="flex justify-between items-center">
         <div className="text-xl font-semibold">Machines</div>
-        <button
-          onClick={openNew}
-          className="px-3 py-1 bg-blue-600 text-white rounded"
-        >
-          Add New
-        </button>
+        <div className="flex items-center gap-3">
+          <label className="text-sm">
+            Report period{" "}
+            <select
+              value={reportDays}
+              onChange={(e) => setReportDays(Number(e.target.value))}
+              className="border px-2 py-1 rounded"
+            >
+              <option value={7}>Last 7 days</option>
+              <option value={30}>Last 30 days</option>
+              <option value={90}>Last 90 days</option>
+            </select>
+          </label>
+          <button
+            onClick={openNew}
+            className="px-3 py-1 bg-blue-600 text-white rounded"
+          >
+            Add New
+          </button>
+        </div>
       </div>
 
       {loading ? (
@@ -165,6 +211,10 @@ export default function MachinesPage() {
               <th className="p-2 border">Type</th>
               <th className="p-2 border">Status</th>
               <th className="p-2 border">Last Serviced</th>
+              <th className="p-2 border">Cycles</th>
+              <th className="p-2 border">Uptime</th>
+              <th className="p-2 border">Breakdowns / Repairs</th>
+              <th className="p-2 border">Maintenance</th>
             </tr>
           </thead>
           <tbody>
@@ -180,12 +230,61 @@ export default function MachinesPage() {
                 <td className="p-2 border text-center">
                   {formatToPST(r.last_serviced_at)}
                 </td>
+                <td className="p-2 border text-center">
+                  {report[r.id] ? (
+                    <>
+                      {report[r.id].cycles}
+                      <span className="text-xs text-gray-500">
+                        {" "}
+                        ({report[r.id].total_cycles} total)
+                      </span>
+                    </>
+                  ) : (
+                    "-"
+                  )}
+                </td>
+                <td
+                  className={`p-2 border text-center ${
+                    report[r.id] && report[r.id].uptime_percent < 90
+                      ? "text-red-600 font-semibold"
+                      : ""
+                  }`}
+                >
+                  {report[r.id] ? `${report[r.id].uptime_percent}%` : "-"}
+                </td>
+                <td className="p-2 border text-center">
+                  {report[r.id]
+                    ? `${report[r.id].breakdowns} / ${report[r.id].repairs}`
+                    : "-"}
+                </td>
+                <td className="p-2 border text-center">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setMaintenanceFor(r);
+                    }}
+                    className="px-3 py-1 border rounded"
+                  >
+                    Plans & Log
+                  </button>
+                </td>
               </tr>
             ))}
           </tbody>
         </table>
       )}
 
+      {maintenanceFor && (
+        <MaintenanceModal
+          machine={maintenanceFor}
+          onClose={() => {
+            setMaintenanceFor(null);
+            load();
+            loadReport(reportDays);
+          }}
+        />
+      )}
+
       {modalOpen && editing && (
         <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
           <div className="bg-white p-6 w-[500px] rounded shadow space-y-4">
@@ -263,6 +362,352 @@ export default function MachinesPage() {
   );
 }
 
+const EMPTY_PLAN = {
+  id: "",
+  name: "",
+  interval_cycles: "",
+  interval_days: "",
+  is_active: true,
+};
+
+function MaintenanceModal({
+  machine,
+  onClose,
+}: {
+  machine: Machine;
+  onClose: () => void;
+}) {
+  const [plans, setPlans] = useState<MaintenancePlanStatus[]>([]);
+  const [downtime, setDowntime] = useState<MachineDowntime[]>([]);
+  const [plan, setPlan] = useState(EMPTY_PLAN);
+  const [downtimeForm, setDowntimeForm] = useState({
+    reason: "breakdown" as DowntimeReason,
+    notes: "",
+    issue_description: "",
+    severity: "medium",
+  });
+  const [resolutions, setResolutions] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    async function loadMaintenance() {
+      try {
+        const res = await fetch(
+          `/api/manage/machines/getMaintenance?machine_id=${machine.id}`
+        );
+        const body = await res.json();
+        if (!res.ok || !body.success) {
+          throw new Error(body.error || `Server responded ${res.status}`);
+        }
+        setPlans(body.data.plans);
+        setDowntime(body.data.downtime);
+      } catch (err) {
+        setErrorMsg(err instanceof Error ? err.message : "Failed to load maintenance");
+      }
+    }
+
+    loadMaintenance();
+  }, [machine.id, reloadKey]);
+
+  async function post(url: string, payload: Record<string, unknown>) {
+    setBusy(true);
+    setErrorMsg(null);
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok || body.success === false) {
+        throw new Error(body.error || `Server responded ${res.status}`);
+      }
+      setReloadKey((k) => k + 1);
+      return true;
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : "Request failed");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function savePlan() {
+    const ok = await post("/api/manage/machines/saveMaintenancePlan", {
+      ...(plan.id ? { id: plan.id } : {}),
+      machine_id: machine.id,
+      name: plan.name,
+      interval_cycles: plan.interval_cycles,
+      interval_days: plan.interval_days,
+      is_active: plan.is_active,
+    });
+    if (ok) setPlan(EMPTY_PLAN);
+  }
+
+  async function logDowntime() {
+    const ok = await post("/api/manage/machines/startDowntime", {
+      machine_id: machine.id,
+      ...downtimeForm,
+    });
+    if (ok) {
+      setDowntimeForm({ ...downtimeForm, notes: "", issue_description: "" });
+    }
+  }
+
+  const openDowntime = downtime.filter((d) => !d.ended_at);
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+      <div className="bg-white p-6 w-[760px] max-h-[90vh] overflow-y-auto rounded shadow space-y-5">
+        <div className="flex justify-between items-center">
+          <div className="text-lg font-semibold">
+            {machine.machine_name} - Maintenance
+          </div>
+          <button onClick={onClose} className="px-3 py-1 border rounded">
+            Close
+          </button>
+        </div>
+
+        {errorMsg && <div className="text-red-600">{errorMsg}</div>}
+
+        {/* Plans */}
+        <div className="space-y-2">
+          <div className="font-semibold">Preventive Maintenance Plans</div>
+          {plans.length === 0 ? (
+            <div className="text-sm text-gray-500">No plans yet</div>
+          ) : (
+            <table className="w-full border text-sm">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="p-2 border">Plan</th>
+                  <th className="p-2 border">Every</th>
+                  <th className="p-2 border">Progress</th>
+                  <th className="p-2 border"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {plans.map((p) => (
+                  <tr key={p.id} className={p.is_active ? "" : "text-gray-400"}>
+                    <td className="p-2 border">
+                      {p.name}
+                      {p.is_due && (
+                        <span className="ml-2 px-2 py-0.5 rounded text-xs bg-red-100 text-red-700">
+                          Due
+                        </span>
+                      )}
+                    </td>
+                    <td className="p-2 border text-center">
+                      {[
+                        p.interval_cycles ? `${p.interval_cycles} cycles` : null,
+                        p.interval_days ? `${p.interval_days} days` : null,
+                      ]
+                        .filter(Boolean)
+                        .join(" or ")}
+                    </td>
+                    <td className="p-2 border text-center">
+                      {p.cycles_left !== null && (
+                        <div>{p.cycles_left} cycles left</div>
+                      )}
+                      {p.due_at && <div>by {formatToPST(p.due_at)}</div>}
+                    </td>
+                    <td className="p-2 border text-center space-x-2">
+                      <button
+                        onClick={() =>
+                          setPlan({
+                            id: p.id,
+                            name: p.name,
+                            interval_cycles: p.interval_cycles?.toString() ?? "",
+                            interval_days: p.interval_days?.toString() ?? "",
+                            is_active: p.is_active,
+                          })
+                        }
+                        className="px-3 py-1 border rounded"
+                        disabled={busy}
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() =>
+                          post("/api/manage/machines/removeMaintenancePlan", { id: p.id })
+                        }
+                        className="px-3 py-1 bg-red-600 text-white rounded"
+                        disabled={busy}
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <Field
+                label={plan.id ? "Edit plan" : "New plan"}
+                value={plan.name}
+                onChange={(v) => setPlan({ ...plan, name: v })}
+              />
+            </div>
+            <div className="w-28">
+              <Field
+                label="Every N cycles"
+                type="number"
+                value={plan.interval_cycles}
+                onChange={(v) => setPlan({ ...plan, interval_cycles: v })}
+              />
+            </div>
+            <div className="w-28">
+              <Field
+                label="Every N days"
+                type="number"
+                value={plan.interval_days}
+                onChange={(v) => setPlan({ ...plan, interval_days: v })}
+              />
+            </div>
+            <label className="text-sm flex items-center gap-1 pb-1">
+              <input
+                type="checkbox"
+                checked={plan.is_active}
+                onChange={(e) => setPlan({ ...plan, is_active: e.target.checked })}
+              />
+              Active
+            </label>
+            {plan.id && (
+              <button
+                onClick={() => setPlan(EMPTY_PLAN)}
+                className="px-3 py-1 border rounded"
+                disabled={busy}
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={savePlan}
+              className="px-3 py-1 bg-green-600 text-white rounded"
+              disabled={busy}
+            >
+              {plan.id ? "Save" : "Add"}
+            </button>
+          </div>
+        </div>
+
+        {/* Downtime */}
+        <div className="space-y-2">
+          <div className="font-semibold">Downtime Log</div>
+
+          {openDowntime.length === 0 && (
+            <div className="grid grid-cols-2 gap-2 border rounded p-3">
+              <SelectField
+                label="Reason"
+                value={downtimeForm.reason}
+                onChange={(v) =>
+                  setDowntimeForm({ ...downtimeForm, reason: v as DowntimeReason })
+                }
+                options={[...DOWNTIME_REASONS]}
+              />
+              <SelectField
+                label="Issue severity"
+                value={downtimeForm.severity}
+                onChange={(v) => setDowntimeForm({ ...downtimeForm, severity: v })}
+                options={["low", "medium", "high", "critical"]}
+              />
+              <Field
+                label="Notes"
+                value={downtimeForm.notes}
+                onChange={(v) => setDowntimeForm({ ...downtimeForm, notes: v })}
+              />
+              <Field
+                label="Open issue (optional)"
+                value={downtimeForm.issue_description}
+                onChange={(v) =>
+                  setDowntimeForm({ ...downtimeForm, issue_description: v })
+                }
+              />
+              <div className="col-span-2 flex justify-end">
+                <button
+                  onClick={logDowntime}
+                  className="px-3 py-1 bg-red-600 text-white rounded"
+                  disabled={busy}
+                >
+                  Take Out of Service
+                </button>
+              </div>
+            </div>
+          )}
+
+          {downtime.length === 0 ? (
+            <div className="text-sm text-gray-500">No downtime recorded</div>
+          ) : (
+            <table className="w-full border text-sm">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="p-2 border">Reason</th>
+                  <th className="p-2 border">From</th>
+                  <th className="p-2 border">Until</th>
+                  <th className="p-2 border">Notes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {downtime.map((d) => (
+                  <tr key={d.id}>
+                    <td className="p-2 border">
+                      {DOWNTIME_REASON_LABELS[d.reason]}
+                      {d.issue_id && (
+                        <div className="text-xs text-gray-500">Linked issue</div>
+                      )}
+                    </td>
+                    <td className="p-2 border text-center">
+                      {formatToPST(d.started_at)}
+                    </td>
+                    <td className="p-2 border text-center">
+                      {d.ended_at ? (
+                        formatToPST(d.ended_at)
+                      ) : (
+                        <div className="flex flex-col gap-1">
+                          <input
+                            placeholder="What was done?"
+                            value={resolutions[d.id] || ""}
+                            onChange={(e) =>
+                              setResolutions({ ...resolutions, [d.id]: e.target.value })
+                            }
+                            className="border px-2 py-1 rounded"
+                          />
+                          <button
+                            onClick={() =>
+                              post("/api/manage/machines/endDowntime", {
+                                id: d.id,
+                                resolution: resolutions[d.id] || "",
+                              })
+                            }
+                            className="px-3 py-1 bg-green-600 text-white rounded"
+                            disabled={busy}
+                          >
+                            Back in Service
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                    <td className="p-2 border">
+                      {d.notes}
+                      {d.resolution && (
+                        <div className="text-xs text-gray-500">{d.resolution}</div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function Field({
   label,
   value,
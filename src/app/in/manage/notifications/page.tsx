@@ -0,0 +1,163 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { formatToPST } from "@/src/app/utils/dateUtils";
+import type { FailedSend } from "@/src/app/utils/notification-outbox";
+
+const KIND_LABELS: Record<FailedSend["kind"], string> = {
+  customer_event: "Customer",
+  customer_push: "Customer (app)",
+  staff_push: "Rider (app)",
+};
+
+export default function FailedNotificationsPage() {
+  const [entries, setEntries] = useState<FailedSend[]>([]);
+  const [includeRetrying, setIncludeRetrying] = useState(false);
+  const [retrying, setRetrying] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErrorMsg(null);
+    try {
+      const params = new URLSearchParams();
+      if (includeRetrying) params.set("include_retrying", "true");
+      const res = await fetch(`/api/manage/notifications?${params}`);
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body?.error || `Server responded ${res.status}`);
+      }
+      setEntries(body.data || []);
+    } catch {
+      setErrorMsg("Failed to load failed notifications");
+    } finally {
+      setLoading(false);
+    }
+  }, [includeRetrying]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function retry(id: string) {
+    setRetrying(id);
+    setErrorMsg(null);
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/manage/notifications/${id}`, {
+        method: "POST",
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body?.error || `Server responded ${res.status}`);
+      }
+      setNotice("Queued again; it will be sent within a minute");
+      await load();
+    } catch (err) {
+      setErrorMsg(
+        err instanceof Error ? err.message : "Failed to retry notification",
+      );
+    } finally {
+      setRetrying(null);
+    }
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <div className="text-xl font-semibold">Failed Notifications</div>
+        <div className="text-sm text-gray-500">
+          Push, SMS and email messages that could not be delivered after every
+          retry
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={includeRetrying}
+            onChange={(e) => setIncludeRetrying(e.target.checked)}
+          />
+          Also show sends still being retried
+        </label>
+        <button
+          onClick={load}
+          className="px-3 py-1 border rounded"
+          disabled={loading}
+        >
+          Refresh
+        </button>
+      </div>
+
+      {errorMsg && <div className="text-red-600">{errorMsg}</div>}
+      {notice && <div className="text-green-700">{notice}</div>}
+
+      {loading ? (
+        <div>Loading...</div>
+      ) : (
+        <table className="w-full table-fixed border">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="p-2 border w-48">Queued</th>
+              <th className="p-2 border w-48">Recipient</th>
+              <th className="p-2 border w-64">Message</th>
+              <th className="p-2 border w-24">Attempts</th>
+              <th className="p-2 border">Last error</th>
+              <th className="p-2 border w-28"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.length === 0 && (
+              <tr>
+                <td
+                  colSpan={6}
+                  className="p-2 border text-center text-gray-500"
+                >
+                  No failed notifications
+                </td>
+              </tr>
+            )}
+            {entries.map((entry) => (
+              <tr key={entry.id} className="align-top">
+                <td className="p-2 border text-sm">
+                  {formatToPST(entry.created_at)}
+                </td>
+                <td className="p-2 border text-sm">
+                  {entry.recipient_name || "—"}
+                  <div className="text-xs text-gray-500">
+                    {KIND_LABELS[entry.kind]}
+                  </div>
+                </td>
+                <td className="p-2 border text-sm">{entry.title || "—"}</td>
+                <td className="p-2 border text-sm">
+                  {entry.attempts} / {entry.max_attempts}
+                </td>
+                <td className="p-2 border text-sm text-red-700 break-all">
+                  {entry.last_error || "—"}
+                </td>
+                <td className="p-2 border text-sm">
+                  {entry.status === "dead" ? (
+                    <button
+                      onClick={() => retry(entry.id)}
+                      className="px-3 py-1 bg-blue-600 text-white rounded disabled:opacity-50"
+                      disabled={retrying !== null}
+                    >
+                      {retrying === entry.id ? "Retrying..." : "Retry"}
+                    </button>
+                  ) : (
+                    <span className="text-gray-500">
+                      Next try {formatToPST(entry.next_attempt_at)}
+                    </span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
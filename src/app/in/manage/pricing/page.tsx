@@ -0,0 +1,310 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { formatToPST } from "@/src/app/utils/dateUtils";
+import { ExtraDryTier } from "@/src/app/in/pos/logic/posTypes";
+
+type PricingRule = {
+  rule_key: string;
+  label: string;
+  description: string;
+  unit: "₱" | "kg" | "%" | "tiers";
+  value: number | ExtraDryTier[];
+  default_value: number | ExtraDryTier[];
+  is_default: boolean;
+  updated_at: string | null;
+  updated_by_name: string | null;
+};
+
+type Editing = {
+  rule: PricingRule;
+  value: string;
+  tiers: { minutes: string; price: string }[];
+};
+
+function formatValue(rule: PricingRule, value: number | ExtraDryTier[]) {
+  if (Array.isArray(value)) {
+    return value.map((t) => `${t.minutes}m = ₱${t.price.toFixed(2)}`).join(", ");
+  }
+  if (rule.unit === "%") return `${parseFloat((value * 100).toFixed(2))}%`;
+  if (rule.unit === "₱") return `₱${value.toFixed(2)}`;
+  return `${value} ${rule.unit}`;
+}
+
+export default function PricingPage() {
+  const [rows, setRows] = useState<PricingRule[]>([]);
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  async function load() {
+    setLoading(true);
+    setErrorMsg(null);
+    try {
+      const res = await fetch("/api/manage/pricing/getPricingRules");
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body?.error || `Server responded ${res.status}`);
+      }
+      setRows(body.data || []);
+    } catch {
+      setErrorMsg("Failed to load pricing rules");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function openEdit(rule: PricingRule) {
+    setEditing({
+      rule,
+      value: Array.isArray(rule.value) ? "" : String(rule.value),
+      tiers: Array.isArray(rule.value)
+        ? rule.value.map((t) => ({
+            minutes: String(t.minutes),
+            price: String(t.price),
+          }))
+        : [],
+    });
+    setErrorMsg(null);
+  }
+
+  function updateTier(index: number, key: "minutes" | "price", value: string) {
+    if (!editing) return;
+    setEditing({
+      ...editing,
+      tiers: editing.tiers.map((t, i) =>
+        i === index ? { ...t, [key]: value } : t
+      ),
+    });
+  }
+
+  async function save() {
+    if (!editing) return;
+    setErrorMsg(null);
+    setSaving(true);
+    try {
+      const value =
+        editing.rule.unit === "tiers"
+          ? editing.tiers.map((t) => ({
+              minutes: Number(t.minutes),
+              price: Number(t.price),
+            }))
+          : editing.value === ""
+            ? null
+            : Number(editing.value);
+
+      const res = await fetch("/api/manage/pricing/savePricingRule", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rule_key: editing.rule.rule_key, value }),
+      });
+
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok)
+        throw new Error(body.error || `Server responded ${res.status}`);
+
+      await load();
+      setEditing(null);
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : "Failed to save rule");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function resetToDefault() {
+    if (!editing) return;
+    setErrorMsg(null);
+    setSaving(true);
+    try {
+      const res = await fetch("/api/manage/pricing/removePricingRule", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rule_key: editing.rule.rule_key }),
+      });
+
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok)
+        throw new Error(body.error || `Server responded ${res.status}`);
+
+      await load();
+      setEditing(null);
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : "Failed to reset rule");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <div className="text-xl font-semibold">Pricing Rules</div>
+          <div className="text-sm text-gray-500">
+            Changes apply to new orders immediately
+          </div>
+        </div>
+        <Link
+          href="/in/manage/pricing/zones"
+          className="px-3 py-1 border rounded text-sm hover:bg-gray-50"
+        >
+          Delivery Zones
+        </Link>
+      </div>
+
+      {loading ? (
+        <div>Loading...</div>
+      ) : errorMsg && !editing ? (
+        <div className="text-red-600">{errorMsg}</div>
+      ) : (
+        <table className="w-full table-fixed border">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="p-2 border">Rule</th>
+              <th className="p-2 border">Value</th>
+              <th className="p-2 border">Default</th>
+              <th className="p-2 border">Last Updated</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => (
+              <tr
+                key={r.rule_key}
+                className="cursor-pointer hover:bg-gray-50"
+                onClick={() => openEdit(r)}
+              >
+                <td className="p-2 border">
+                  <div className="font-medium">{r.label}</div>
+                  <div className="text-xs text-gray-500">{r.description}</div>
+                </td>
+                <td className="p-2 border text-center">
+                  {formatValue(r, r.value)}
+                </td>
+                <td className="p-2 border text-center text-gray-500">
+                  {formatValue(r, r.default_value)}
+                </td>
+                <td className="p-2 border text-center text-sm">
+                  {r.updated_at ? formatToPST(r.updated_at) : "—"}
+                  {r.updated_by_name && (
+                    <div className="text-xs text-gray-500">
+                      by {r.updated_by_name}
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {editing && (
+        <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+          <div className="bg-white p-6 w-[500px] rounded shadow space-y-4">
+            <div className="text-lg font-semibold">{editing.rule.label}</div>
+            <div className="text-sm text-gray-500">
+              {editing.rule.description}
+            </div>
+
+            {errorMsg && <div className="text-red-600">{errorMsg}</div>}
+
+            {editing.rule.unit === "tiers" ? (
+              <div className="space-y-2">
+                {editing.tiers.map((t, i) => (
+                  <div key={i} className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      value={t.minutes}
+                      onChange={(e) => updateTier(i, "minutes", e.target.value)}
+                      className="border px-2 py-1 rounded w-24"
+                    />
+                    <span className="text-sm">min = ₱</span>
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={t.price}
+                      onChange={(e) => updateTier(i, "price", e.target.value)}
+                      className="border px-2 py-1 rounded w-24"
+                    />
+                    <button
+                      onClick={() =>
+                        setEditing({
+                          ...editing,
+                          tiers: editing.tiers.filter((_, j) => j !== i),
+                        })
+                      }
+                      className="px-2 py-1 text-red-600"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() =>
+                    setEditing({
+                      ...editing,
+                      tiers: [...editing.tiers, { minutes: "", price: "" }],
+                    })
+                  }
+                  className="px-3 py-1 border rounded text-sm"
+                >
+                  + Add Tier
+                </button>
+              </div>
+            ) : (
+              <div className="flex flex-col">
+                <label className="text-sm">
+                  Value ({editing.rule.unit === "%" ? "fraction, e.g. 0.12" : editing.rule.unit})
+                  <span className="text-red-600 ml-1">*</span>
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={editing.value}
+                  onChange={(e) =>
+                    setEditing({ ...editing, value: e.target.value })
+                  }
+                  className="border px-2 py-1 rounded"
+                />
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-3">
+              <button
+                onClick={() => setEditing(null)}
+                className="px-3 py-1 border rounded"
+                disabled={saving}
+              >
+                Cancel
+              </button>
+
+              {!editing.rule.is_default && (
+                <button
+                  onClick={resetToDefault}
+                  className="px-3 py-1 bg-red-600 text-white rounded"
+                  disabled={saving}
+                >
+                  Reset to Default
+                </button>
+              )}
+
+              <button
+                onClick={save}
+                className="px-3 py-1 bg-green-600 text-white rounded"
+                disabled={saving}
+              >
+                {saving ? "Saving..." : "Save"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
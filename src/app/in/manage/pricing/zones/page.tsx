@@ -0,0 +1,330 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { LocationCoords, LocationPicker } from "@/src/app/components/LocationPicker";
+import { DeliveryZone, DeliveryZoneType } from "@/src/app/utils/deliveryZones";
+
+type EditingZone = {
+  id?: string;
+  name: string;
+  zone_type: DeliveryZoneType;
+  min_km: string;
+  max_km: string;
+  polygon: LocationCoords[];
+  base_fee: string;
+  included_km: string;
+  per_km_rate: string;
+  priority: string;
+  is_active: boolean;
+};
+
+function formatArea(zone: DeliveryZone) {
+  if (zone.zone_type === "polygon") return `Drawn area (${zone.polygon?.length || 0} points)`;
+  return `${zone.min_km} – ${zone.max_km} km`;
+}
+
+function formatRate(zone: DeliveryZone) {
+  const base = `₱${zone.base_fee.toFixed(2)}`;
+  if (zone.per_km_rate === 0) return base;
+  const extra = `+ ₱${zone.per_km_rate.toFixed(2)}/km`;
+  return zone.included_km > 0 ? `${base} ${extra} after ${zone.included_km} km` : `${base} ${extra}`;
+}
+
+export default function DeliveryZonesPage() {
+  const [zones, setZones] = useState<DeliveryZone[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [editing, setEditing] = useState<EditingZone | null>(null);
+  const [drawing, setDrawing] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      try {
+        const res = await fetch("/api/manage/pricing/getDeliveryZones");
+        const body = await res.json().catch(() => ({}));
+        if (!res.ok || !body.success) {
+          throw new Error(body?.error || `Server responded ${res.status}`);
+        }
+        setZones(body.data || []);
+      } catch {
+        setErrorMsg("Failed to load delivery zones");
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [reloadKey]);
+
+  async function post(url: string, payload: Record<string, unknown>) {
+    setErrorMsg(null);
+    setSaving(true);
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error || `Server responded ${res.status}`);
+      setReloadKey((k) => k + 1);
+      return body;
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : "Request failed");
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function openAdd() {
+    setEditing({
+      name: "",
+      zone_type: "radius",
+      min_km: "0",
+      max_km: "",
+      polygon: [],
+      base_fee: "",
+      included_km: "0",
+      per_km_rate: "0",
+      priority: "0",
+      is_active: true,
+    });
+    setErrorMsg(null);
+  }
+
+  function openEdit(zone: DeliveryZone) {
+    setEditing({
+      id: zone.id,
+      name: zone.name,
+      zone_type: zone.zone_type,
+      min_km: String(zone.min_km),
+      max_km: zone.max_km === null ? "" : String(zone.max_km),
+      polygon: zone.polygon || [],
+      base_fee: String(zone.base_fee),
+      included_km: String(zone.included_km),
+      per_km_rate: String(zone.per_km_rate),
+      priority: String(zone.priority),
+      is_active: zone.is_active,
+    });
+    setErrorMsg(null);
+  }
+
+  async function saveZone() {
+    if (!editing) return;
+    const body = await post("/api/manage/pricing/saveDeliveryZone", editing);
+    if (body) setEditing(null);
+  }
+
+  async function removeZone() {
+    if (!editing?.id) return;
+    if (!confirm("Remove this delivery zone?")) return;
+    const body = await post("/api/manage/pricing/removeDeliveryZone", { id: editing.id });
+    if (body) setEditing(null);
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <div className="text-xl font-semibold">Delivery Zones</div>
+          <div className="text-sm text-gray-500">
+            The highest-priority zone containing the address prices the delivery. Without active zones the flat
+            delivery fee applies.
+          </div>
+        </div>
+        <button onClick={openAdd} className="px-3 py-1 bg-blue-600 text-white rounded">
+          + Add Zone
+        </button>
+      </div>
+
+      {errorMsg && !editing && <div className="text-red-600">{errorMsg}</div>}
+
+      {loading && zones.length === 0 ? (
+        <div>Loading...</div>
+      ) : (
+        <table className="w-full table-fixed border">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="p-2 border">Zone</th>
+              <th className="p-2 border">Area</th>
+              <th className="p-2 border">Fee</th>
+              <th className="p-2 border">Priority</th>
+              <th className="p-2 border">Active</th>
+            </tr>
+          </thead>
+          <tbody>
+            {zones.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="p-4 text-center text-gray-500">
+                  No delivery zones yet
+                </td>
+              </tr>
+            ) : (
+              zones.map((zone) => (
+                <tr
+                  key={zone.id}
+                  className={`cursor-pointer hover:bg-gray-50 ${zone.is_active ? "" : "text-gray-400"}`}
+                  onClick={() => openEdit(zone)}
+                >
+                  <td className="p-2 border font-medium">{zone.name}</td>
+                  <td className="p-2 border text-center">{formatArea(zone)}</td>
+                  <td className="p-2 border text-center">{formatRate(zone)}</td>
+                  <td className="p-2 border text-center">{zone.priority}</td>
+                  <td className="p-2 border text-center">{zone.is_active ? "Yes" : "No"}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      )}
+
+      {editing && !drawing && (
+        <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+          <div className="bg-white p-6 w-[500px] rounded shadow space-y-4">
+            <div className="text-lg font-semibold">{editing.id ? "Edit Delivery Zone" : "Add Delivery Zone"}</div>
+
+            {errorMsg && <div className="text-red-600">{errorMsg}</div>}
+
+            <Field label="Name" value={editing.name} onChange={(v) => setEditing({ ...editing, name: v })} required />
+
+            <div className="flex flex-col">
+              <label className="text-sm">Area</label>
+              <select
+                value={editing.zone_type}
+                onChange={(e) => setEditing({ ...editing, zone_type: e.target.value as DeliveryZoneType })}
+                className="border px-2 py-1 rounded"
+              >
+                <option value="radius">Distance band from the store</option>
+                <option value="polygon">Area drawn on the map</option>
+              </select>
+            </div>
+
+            {editing.zone_type === "radius" ? (
+              <div className="grid grid-cols-2 gap-3">
+                <Field
+                  label="From (km)"
+                  type="number"
+                  value={editing.min_km}
+                  onChange={(v) => setEditing({ ...editing, min_km: v })}
+                  required
+                />
+                <Field
+                  label="Up to (km)"
+                  type="number"
+                  value={editing.max_km}
+                  onChange={(v) => setEditing({ ...editing, max_km: v })}
+                  required
+                />
+              </div>
+            ) : (
+              <div className="flex items-center justify-between text-sm">
+                <span className={editing.polygon.length < 3 ? "text-red-600" : ""}>
+                  {editing.polygon.length < 3 ? "No area drawn yet" : `${editing.polygon.length} points`}
+                </span>
+                <button onClick={() => setDrawing(true)} className="px-3 py-1 border rounded">
+                  {editing.polygon.length < 3 ? "Draw on Map" : "Redraw on Map"}
+                </button>
+              </div>
+            )}
+
+            <div className="grid grid-cols-3 gap-3">
+              <Field
+                label="Base fee (₱)"
+                type="number"
+                value={editing.base_fee}
+                onChange={(v) => setEditing({ ...editing, base_fee: v })}
+                required
+              />
+              <Field
+                label="Included km"
+                type="number"
+                value={editing.included_km}
+                onChange={(v) => setEditing({ ...editing, included_km: v })}
+              />
+              <Field
+                label="Per extra km (₱)"
+                type="number"
+                value={editing.per_km_rate}
+                onChange={(v) => setEditing({ ...editing, per_km_rate: v })}
+              />
+            </div>
+            <Field
+              label="Priority (higher wins on overlap)"
+              type="number"
+              value={editing.priority}
+              onChange={(v) => setEditing({ ...editing, priority: v })}
+            />
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={editing.is_active}
+                onChange={(e) => setEditing({ ...editing, is_active: e.target.checked })}
+              />
+              Active
+            </label>
+
+            <div className="flex justify-end space-x-3 pt-3">
+              <button onClick={() => setEditing(null)} className="px-3 py-1 border rounded" disabled={saving}>
+                Cancel
+              </button>
+              {editing.id && (
+                <button onClick={removeZone} className="px-3 py-1 bg-red-600 text-white rounded" disabled={saving}>
+                  Remove
+                </button>
+              )}
+              <button onClick={saveZone} className="px-3 py-1 bg-green-600 text-white rounded" disabled={saving}>
+                {saving ? "Saving..." : "Save"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {editing && drawing && (
+        <LocationPicker
+          title={`Draw ${editing.name || "Delivery Zone"}`}
+          polygonMode
+          defaultPolygon={editing.polygon}
+          onPolygonSelect={(points) => {
+            setEditing({ ...editing, polygon: points.map((p) => ({ lat: p.lat, lng: p.lng })) });
+            setDrawing(false);
+          }}
+          onClose={() => setDrawing(false)}
+        />
+      )}
+    </div>
+  );
+}
+
+function Field({
+  label,
+  value,
+  onChange,
+  type = "text",
+  required = false,
+}: {
+  label: string;
+  value: string;
+  onChange: (v: string) => void;
+  type?: string;
+  required?: boolean;
+}) {
+  return (
+    <div className="flex flex-col">
+      <label className="text-sm">
+        {label}
+        {required && <span className="text-red-600 ml-1">*</span>}
+      </label>
+      <input
+        type={type}
+        step={type === "number" ? "0.01" : undefined}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="border px-2 py-1 rounded"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,462 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  BlackoutDate,
+  DeliverySlot,
+  formatSlotLabel,
+  RiderAvailability,
+  SlotAvailability,
+  todaySlotDate,
+  WEEKDAY_LABELS,
+} from "@/src/app/utils/deliverySlots";
+
+type Rider = {
+  id: string;
+  first_name: string;
+  last_name: string;
+};
+
+type SlotSettings = {
+  date: string;
+  slots: DeliverySlot[];
+  blackout_dates: BlackoutDate[];
+  riders: Rider[];
+  rider_availability: RiderAvailability[];
+};
+
+type EditingSlot = {
+  id?: string;
+  weekday: string;
+  start_time: string;
+  end_time: string;
+  capacity: string;
+  capacity_per_rider: string;
+  is_active: boolean;
+};
+
+const EVERY_DAY = "Every day";
+
+function weekdayLabel(weekday: number | null) {
+  return weekday === null ? EVERY_DAY : WEEKDAY_LABELS[weekday];
+}
+
+function availabilityValue(row: RiderAvailability | undefined) {
+  if (!row) return "default";
+  return row.is_available ? "available" : "off";
+}
+
+export default function SlotsPage() {
+  const [date, setDate] = useState(todaySlotDate());
+  const [settings, setSettings] = useState<SlotSettings | null>(null);
+  const [availability, setAvailability] = useState<SlotAvailability[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [editing, setEditing] = useState<EditingSlot | null>(null);
+  const [blackoutDate, setBlackoutDate] = useState("");
+  const [blackoutReason, setBlackoutReason] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      try {
+        const [settingsRes, availabilityRes] = await Promise.all([
+          fetch(`/api/manage/slots/getSlots?date=${date}`),
+          fetch(`/api/slots/availability?date=${date}`),
+        ]);
+        const settingsBody = await settingsRes.json().catch(() => ({}));
+        if (!settingsRes.ok || !settingsBody.success) {
+          throw new Error(settingsBody?.error || `Server responded ${settingsRes.status}`);
+        }
+        const availabilityBody = await availabilityRes.json().catch(() => ({}));
+        setSettings(settingsBody.data);
+        setAvailability(availabilityBody.success ? availabilityBody.data : []);
+      } catch {
+        setErrorMsg("Failed to load time slots");
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [date, reloadKey]);
+
+  async function post(url: string, payload: Record<string, unknown>) {
+    setErrorMsg(null);
+    setSaving(true);
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error || `Server responded ${res.status}`);
+      setReloadKey((k) => k + 1);
+      return body;
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : "Request failed");
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function openAdd() {
+    setEditing({
+      weekday: "",
+      start_time: "",
+      end_time: "",
+      capacity: "",
+      capacity_per_rider: "",
+      is_active: true,
+    });
+    setErrorMsg(null);
+  }
+
+  function openEdit(slot: DeliverySlot) {
+    setEditing({
+      id: slot.id,
+      weekday: slot.weekday === null ? "" : String(slot.weekday),
+      start_time: slot.start_time,
+      end_time: slot.end_time,
+      capacity: String(slot.capacity),
+      capacity_per_rider: slot.capacity_per_rider === null ? "" : String(slot.capacity_per_rider),
+      is_active: slot.is_active,
+    });
+    setErrorMsg(null);
+  }
+
+  async function saveSlot() {
+    if (!editing) return;
+    const body = await post("/api/manage/slots/saveSlot", editing);
+    if (body) setEditing(null);
+  }
+
+  async function removeSlot() {
+    if (!editing?.id) return;
+    if (!confirm("Remove this time slot? Slots with bookings are switched off instead.")) return;
+    const body = await post("/api/manage/slots/removeSlot", { id: editing.id });
+    if (body) setEditing(null);
+  }
+
+  async function addBlackout() {
+    const body = await post("/api/manage/slots/saveBlackoutDate", {
+      date: blackoutDate,
+      reason: blackoutReason,
+    });
+    if (body) {
+      setBlackoutDate("");
+      setBlackoutReason("");
+    }
+  }
+
+  function setRiderAvailability(staffId: string, slotId: string | null, value: string) {
+    post("/api/manage/slots/saveRiderAvailability", {
+      staff_id: staffId,
+      date,
+      slot_id: slotId,
+      is_available: value === "default" ? null : value === "available",
+    });
+  }
+
+  const riderOverride = (staffId: string, slotId: string | null) =>
+    settings?.rider_availability.find((a) => a.staff_id === staffId && a.slot_id === slotId);
+
+  return (
+    <div className="p-6 space-y-8">
+      <div className="flex justify-between items-center">
+        <div>
+          <div className="text-xl font-semibold">Pickup & Delivery Time Slots</div>
+          <div className="text-sm text-gray-500">
+            Scheduled orders must book a slot; full slots and blackout dates are refused
+          </div>
+        </div>
+        <button onClick={openAdd} className="px-3 py-1 bg-blue-600 text-white rounded">
+          + Add Slot
+        </button>
+      </div>
+
+      {errorMsg && !editing && <div className="text-red-600">{errorMsg}</div>}
+
+      {/* Slot definitions */}
+      {loading && !settings ? (
+        <div>Loading...</div>
+      ) : (
+        <table className="w-full table-fixed border">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="p-2 border">Day</th>
+              <th className="p-2 border">Time</th>
+              <th className="p-2 border">Capacity</th>
+              <th className="p-2 border">Per Rider</th>
+              <th className="p-2 border">Active</th>
+            </tr>
+          </thead>
+          <tbody>
+            {(settings?.slots || []).length === 0 ? (
+              <tr>
+                <td colSpan={5} className="p-4 text-center text-gray-500">
+                  No time slots yet
+                </td>
+              </tr>
+            ) : (
+              settings?.slots.map((slot) => (
+                <tr
+                  key={slot.id}
+                  className={`cursor-pointer hover:bg-gray-50 ${slot.is_active ? "" : "text-gray-400"}`}
+                  onClick={() => openEdit(slot)}
+                >
+                  <td className="p-2 border">{weekdayLabel(slot.weekday)}</td>
+                  <td className="p-2 border text-center">{formatSlotLabel(slot)}</td>
+                  <td className="p-2 border text-center">{slot.capacity}</td>
+                  <td className="p-2 border text-center">{slot.capacity_per_rider ?? "—"}</td>
+                  <td className="p-2 border text-center">{slot.is_active ? "Yes" : "No"}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      )}
+
+      {/* Blackout dates */}
+      <div className="space-y-3">
+        <div className="text-lg font-semibold">Blackout Dates</div>
+        <div className="flex items-end gap-2">
+          <Field label="Date" type="date" value={blackoutDate} onChange={setBlackoutDate} />
+          <Field label="Reason" value={blackoutReason} onChange={setBlackoutReason} />
+          <button
+            onClick={addBlackout}
+            className="px-3 py-1 bg-green-600 text-white rounded"
+            disabled={saving || !blackoutDate}
+          >
+            Add
+          </button>
+        </div>
+        {(settings?.blackout_dates || []).length === 0 ? (
+          <div className="text-sm text-gray-500">No upcoming blackout dates</div>
+        ) : (
+          <div className="divide-y border rounded">
+            {settings?.blackout_dates.map((b) => (
+              <div key={b.date} className="flex justify-between items-center p-2 text-sm">
+                <div>
+                  <span className="font-medium">{b.date}</span>
+                  <span className="text-gray-500 ml-2">{b.reason || "Closed"}</span>
+                </div>
+                <button
+                  onClick={() => post("/api/manage/slots/removeBlackoutDate", { date: b.date })}
+                  className="px-2 py-1 text-red-600"
+                  disabled={saving}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Rider availability for a date */}
+      <div className="space-y-3">
+        <div className="flex items-end justify-between">
+          <div>
+            <div className="text-lg font-semibold">Rider Availability</div>
+            <div className="text-sm text-gray-500">
+              Riders are available unless marked off; slots with a per-rider limit shrink when riders are off
+            </div>
+          </div>
+          <Field label="Date" type="date" value={date} onChange={(v) => v && setDate(v)} />
+        </div>
+
+        {availability.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {availability.map((s) => (
+              <div
+                key={s.slot_id}
+                className={`px-3 py-1 rounded border text-sm ${
+                  s.remaining === 0 ? "bg-red-50 border-red-200 text-red-700" : "bg-gray-50"
+                }`}
+              >
+                {formatSlotLabel(s)}: {s.booked}/{s.capacity} booked
+                {s.blackout_reason && ` (${s.blackout_reason})`}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {(settings?.riders || []).length === 0 ? (
+          <div className="text-sm text-gray-500">No active riders</div>
+        ) : (
+          <table className="w-full border">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="p-2 border">Rider</th>
+                <th className="p-2 border">Whole Day</th>
+                {availability.map((s) => (
+                  <th key={s.slot_id} className="p-2 border">
+                    {formatSlotLabel(s)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {settings?.riders.map((rider) => (
+                <tr key={rider.id}>
+                  <td className="p-2 border">
+                    {rider.first_name} {rider.last_name}
+                  </td>
+                  <td className="p-2 border text-center">
+                    <AvailabilitySelect
+                      value={availabilityValue(riderOverride(rider.id, null))}
+                      onChange={(v) => setRiderAvailability(rider.id, null, v)}
+                      disabled={saving}
+                    />
+                  </td>
+                  {availability.map((s) => (
+                    <td key={s.slot_id} className="p-2 border text-center">
+                      <AvailabilitySelect
+                        value={availabilityValue(riderOverride(rider.id, s.slot_id))}
+                        onChange={(v) => setRiderAvailability(rider.id, s.slot_id, v)}
+                        disabled={saving}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {editing && (
+        <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+          <div className="bg-white p-6 w-[500px] rounded shadow space-y-4">
+            <div className="text-lg font-semibold">{editing.id ? "Edit Time Slot" : "Add Time Slot"}</div>
+
+            {errorMsg && <div className="text-red-600">{errorMsg}</div>}
+
+            <div className="flex flex-col">
+              <label className="text-sm">Day</label>
+              <select
+                value={editing.weekday}
+                onChange={(e) => setEditing({ ...editing, weekday: e.target.value })}
+                className="border px-2 py-1 rounded"
+              >
+                <option value="">{EVERY_DAY}</option>
+                {WEEKDAY_LABELS.map((label, i) => (
+                  <option key={label} value={i}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <Field
+                label="Start"
+                type="time"
+                value={editing.start_time}
+                onChange={(v) => setEditing({ ...editing, start_time: v })}
+                required
+              />
+              <Field
+                label="End"
+                type="time"
+                value={editing.end_time}
+                onChange={(v) => setEditing({ ...editing, end_time: v })}
+                required
+              />
+              <Field
+                label="Capacity (bookings)"
+                type="number"
+                value={editing.capacity}
+                onChange={(v) => setEditing({ ...editing, capacity: v })}
+                required
+              />
+              <Field
+                label="Max per available rider"
+                type="number"
+                value={editing.capacity_per_rider}
+                onChange={(v) => setEditing({ ...editing, capacity_per_rider: v })}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={editing.is_active}
+                onChange={(e) => setEditing({ ...editing, is_active: e.target.checked })}
+              />
+              Active
+            </label>
+
+            <div className="flex justify-end space-x-3 pt-3">
+              <button onClick={() => setEditing(null)} className="px-3 py-1 border rounded" disabled={saving}>
+                Cancel
+              </button>
+              {editing.id && (
+                <button onClick={removeSlot} className="px-3 py-1 bg-red-600 text-white rounded" disabled={saving}>
+                  Remove
+                </button>
+              )}
+              <button onClick={saveSlot} className="px-3 py-1 bg-green-600 text-white rounded" disabled={saving}>
+                {saving ? "Saving..." : "Save"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function AvailabilitySelect({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: string;
+  onChange: (v: string) => void;
+  disabled: boolean;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      className={`border px-2 py-1 rounded text-sm ${value === "off" ? "text-red-600" : ""}`}
+    >
+      <option value="default">Default</option>
+      <option value="available">Available</option>
+      <option value="off">Off</option>
+    </select>
+  );
+}
+
+function Field({
+  label,
+  value,
+  onChange,
+  type = "text",
+  required = false,
+}: {
+  label: string;
+  value: string;
+  onChange: (v: string) => void;
+  type?: string;
+  required?: boolean;
+}) {
+  return (
+    <div className="flex flex-col">
+      <label className="text-sm">
+        {label}
+        {required && <span className="text-red-600 ml-1">*</span>}
+      </label>
+      <input
+        type={type}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="border px-2 py-1 rounded"
+      />
+    </div>
+  );
+}
@@ -2,6 +2,28 @@
 
 import { useEffect, useState } from "react";
 import { formatToPST } from "@/src/app/utils/dateUtils";
+import {
+  ORDER_STATUS_LABELS,
+  OrderStatus,
+  OrderStatusHistoryEntry,
+} from "@/src/app/utils/orderStatus";
+import {
+  REFUND_METHOD_LABELS,
+  REFUND_METHODS,
+  Refund,
+  RefundMethod,
+  RefundRequestLine,
+  RefundableLines,
+} from "@/src/app/utils/orderRefunds";
+import {
+  OrderPayment,
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_STATUS_LABELS,
+  PaymentStatus,
+} from "@/src/app/utils/orderPayments";
+import type { HandlingProofLinks } from "@/src/app/utils/handling-proofs";
+import { PaymentMethod, PricingReview } from "@/src/app/in/pos/logic/posTypes";
+import ReceiptModal from "@/src/app/in/pos/components/receiptModal";
 
 type Customer = {
   id: string;
@@ -17,8 +39,12 @@ type Order = {
   customer_id: string | null;
   cashier_id: string | null;
   cashier_name?: string; // For display
+  assigned_rider_id?: string | null;
   status: string;
   total_amount: number;
+  amount_paid?: number;
+  payment_status?: PaymentStatus;
+  balance_due?: number;
   order_note: string | null;
   created_at: string | null;
   completed_at: string | null;
@@ -78,6 +104,7 @@ type Order = {
       loyalty_discount?: number | null;
       total: number;
     };
+    pricing_review?: PricingReview;
     payment: {
       method: "cash" | "gcash";
       amount_paid: number;
@@ -91,6 +118,11 @@ type Order = {
     first_name: string;
     last_name: string;
   } | null;
+  assigned_rider?: {
+    id: string;
+    first_name: string;
+    last_name: string;
+  } | null;
   service_logs?: Array<{
     id: string;
     basket_number: number;
@@ -377,12 +409,7 @@ export default function OrdersPage() {
     })[status] || "bg-gray-100 text-gray-700";
 
   const getStatusLabel = (status: string) =>
-    ({
-      pending: "Pending",
-      processing: "Processing",
-      completed: "Completed",
-      cancelled: "Cancelled",
-    })[status] || status;
+    ORDER_STATUS_LABELS[status as OrderStatus] || status;
 
   return (
     <div className="min-h-screen bg-gray-50 p-6 flex flex-col">
@@ -594,6 +621,19 @@ export default function OrdersPage() {
                           </td>
                           <td className="px-4 py-2 text-sm font-semibold text-green-700">
                             ₱{order.total_amount.toFixed(2)}
+                            {order.payment_status &&
+                              order.payment_status !== "paid" &&
+                              order.status !== "cancelled" && (
+                                <span className="block text-xs font-medium text-amber-700">
+                                  {PAYMENT_STATUS_LABELS[order.payment_status]}{" "}
+                                  · ₱{(order.balance_due ?? 0).toFixed(2)} due
+                                </span>
+                              )}
+                            {order.breakdown?.pricing_review && (
+                              <span className="block text-xs font-medium text-red-700">
+                                ⚠️ Price check
+                              </span>
+                            )}
                           </td>
                           <td className="px-4 py-2 text-sm text-gray-600">
                             {formatToPST(order.created_at)}
@@ -671,6 +711,7 @@ function ViewModal({
   const [showCancelConfirm, setShowCancelConfirm] = useState(false);
   const [cancelError, setCancelError] = useState<string | null>(null);
   const [cancelSuccess, setCancelSuccess] = useState(false);
+  const [showRefund, setShowRefund] = useState(false);
 
   const handleCancelOrder = async () => {
     setCancelling(true);
@@ -866,6 +907,20 @@ function ViewModal({
               </div>
             </div>
 
+            {/* Assigned Rider */}
+            {order.assigned_rider && (
+              <p className="text-sm text-gray-700">
+                🛵 Rider:{" "}
+                <span className="font-medium text-gray-900">
+                  {order.assigned_rider.first_name}{" "}
+                  {order.assigned_rider.last_name}
+                </span>
+              </p>
+            )}
+
+            {/* Proof of Pickup / Delivery */}
+            <HandlingProofs orderId={order.id} />
+
             {/* Scheduling - If Present (Blue Highlight) */}
             {order.handling?.scheduled && order.handling?.scheduled_date && (
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
@@ -897,34 +952,7 @@ function ViewModal({
             )}
 
             {/* Payment Information */}
-            {order.handling && (
-              <div className="grid grid-cols-2 gap-4">
-                {order.handling.payment_method && (
-                  <div>
-                    <p className="text-xs text-gray-600 uppercase tracking-wide font-semibold mb-1">
-                      Payment Method
-                    </p>
-                    <p className="text-sm font-medium text-gray-900 capitalize">
-                      {order.handling.payment_method}
-                    </p>
-                  </div>
-                )}
-                {order.breakdown?.payment?.amount_paid !== null &&
-                  order.breakdown?.payment?.amount_paid !== undefined && (
-                    <div>
-                      <p className="text-xs text-gray-600 uppercase tracking-wide font-semibold mb-1">
-                        Amount Paid
-                      </p>
-                      <p className="text-sm font-medium text-gray-900">
-                        ₱
-                        {(
-                          order.breakdown.payment.amount_paid as number
-                        ).toFixed(2)}
-                      </p>
-                    </div>
-                  )}
-              </div>
-            )}
+            <PaymentsSection order={order} onPaid={onActionTaken} />
           </div>
 
           {/* BOTTOM SECTION: Pricing & Items (Condensed) */}
@@ -1021,6 +1049,19 @@ function ViewModal({
                       ₱{order.total_amount.toFixed(2)}
                     </span>
                   </div>
+                  {order.breakdown.pricing_review && (
+                    <p className="pt-2 text-xs text-red-700">
+                      ⚠️ Price check: the register sent ₱
+                      {(
+                        order.breakdown.pricing_review.submitted_total ??
+                        order.breakdown.summary.total
+                      ).toFixed(2)}
+                      , current pricing is ₱
+                      {order.breakdown.pricing_review.expected_total.toFixed(2)}{" "}
+                      (flagged{" "}
+                      {formatToPST(order.breakdown.pricing_review.flagged_at)})
+                    </p>
+                  )}
                 </div>
               </div>
             )}
@@ -1232,6 +1273,9 @@ function ViewModal({
                 </div>
               </div>
             )}
+
+            {/* Status History */}
+            <StatusHistory orderId={order.id} />
           </div>
         </div>
 
@@ -1269,6 +1313,15 @@ function ViewModal({
               </>
             ) : (
               <>
+                {order.status !== "cancelled" && (
+                  <button
+                    onClick={() => setShowRefund(true)}
+                    disabled={cancelling || cancelSuccess}
+                    className="px-4 py-2 border border-amber-300 rounded-lg text-amber-700 text-sm font-medium hover:bg-amber-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Refund
+                  </button>
+                )}
                 {order.status !== "cancelled" &&
                   order.status !== "completed" && (
                     <button
@@ -1291,6 +1344,572 @@ function ViewModal({
           </div>
         </div>
       </div>
+      {showRefund && (
+        <RefundModal
+          order={order}
+          onClose={() => setShowRefund(false)}
+          onRefunded={onActionTaken}
+        />
+      )}
+    </div>
+  );
+}
+
+type PaymentsSummary = {
+  payments: OrderPayment[];
+  total: number;
+  amount_paid: number;
+  balance: number;
+  payment_status: PaymentStatus;
+};
+
+function PaymentsSection({
+  order,
+  onPaid,
+}: {
+  order: Order;
+  onPaid: () => void;
+}) {
+  const [summary, setSummary] = useState<PaymentsSummary | null>(null);
+  const [method, setMethod] = useState<PaymentMethod>("cash");
+  const [amount, setAmount] = useState("");
+  const [tendered, setTendered] = useState("");
+  const [reference, setReference] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(`/api/orders/${order.id}/payments`, {
+          credentials: "include",
+        });
+        const body = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          throw new Error(body?.error || `Server responded ${res.status}`);
+        }
+        if (!cancelled) {
+          setSummary(body.data);
+          setAmount(body.data.balance > 0 ? body.data.balance.toFixed(2) : "");
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setErrorMsg(
+            err instanceof Error ? err.message : "Failed to load payments",
+          );
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [order.id, reloadKey]);
+
+  async function collectPayment() {
+    setSaving(true);
+    setErrorMsg(null);
+    try {
+      const res = await fetch(`/api/orders/${order.id}/payments`, {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          method,
+          amount: Number(amount),
+          amount_tendered:
+            method === "cash" && tendered ? Number(tendered) : null,
+          reference: method === "gcash" ? reference : null,
+        }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(
+          body?.error || `Failed to record payment (${res.status})`,
+        );
+      }
+
+      setTendered("");
+      setReference("");
+      setReloadKey((key) => key + 1);
+      onPaid();
+    } catch (err) {
+      setErrorMsg(
+        err instanceof Error ? err.message : "Failed to record payment",
+      );
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const change =
+    method === "cash" && tendered ? Number(tendered) - Number(amount) : 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <p className="text-xs text-gray-600 uppercase tracking-wide font-semibold mb-1">
+            Payment Status
+          </p>
+          <p
+            className={`text-sm font-bold ${
+              summary?.payment_status === "paid"
+                ? "text-green-700"
+                : "text-amber-700"
+            }`}
+          >
+            {summary ? PAYMENT_STATUS_LABELS[summary.payment_status] : "—"}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-600 uppercase tracking-wide font-semibold mb-1">
+            Amount Paid
+          </p>
+          <p className="text-sm font-medium text-gray-900">
+            ₱{(summary?.amount_paid ?? 0).toFixed(2)}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-600 uppercase tracking-wide font-semibold mb-1">
+            Balance Due
+          </p>
+          <p className="text-sm font-bold text-gray-900">
+            ₱{(summary?.balance ?? 0).toFixed(2)}
+          </p>
+        </div>
+      </div>
+
+      {summary && summary.payments.length > 0 && (
+        <table className="w-full text-xs">
+          <tbody>
+            {summary.payments.map((payment) => (
+              <tr key={payment.id} className="border-t border-gray-100">
+                <td className="py-1 text-gray-600">
+                  {formatToPST(payment.created_at)}
+                </td>
+                <td className="py-1 font-medium">
+                  {PAYMENT_METHOD_LABELS[payment.method]}
+                  {payment.reference && (
+                    <span className="text-gray-500 font-mono">
+                      {" "}
+                      · {payment.reference}
+                    </span>
+                  )}
+                </td>
+                <td className="py-1 text-gray-600">
+                  {payment.received_by_name || "—"}
+                </td>
+                <td className="py-1 text-right font-semibold">
+                  ₱{payment.amount.toFixed(2)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {summary && summary.balance > 0 && order.status !== "cancelled" && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-2">
+          <p className="text-xs font-semibold text-amber-800 uppercase tracking-wide">
+            Collect balance
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+              className="border border-gray-300 rounded px-2 py-1.5 text-sm"
+            >
+              <option value="cash">{PAYMENT_METHOD_LABELS.cash}</option>
+              <option value="gcash">{PAYMENT_METHOD_LABELS.gcash}</option>
+            </select>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="Amount"
+              className="border border-gray-300 rounded px-2 py-1.5 text-sm"
+            />
+            {method === "cash" ? (
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={tendered}
+                onChange={(e) => setTendered(e.target.value)}
+                placeholder="Cash handed over"
+                className="border border-gray-300 rounded px-2 py-1.5 text-sm"
+              />
+            ) : (
+              <input
+                type="text"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="GCash reference"
+                className="border border-gray-300 rounded px-2 py-1.5 text-sm"
+              />
+            )}
+            <button
+              onClick={collectPayment}
+              disabled={saving || !(Number(amount) > 0)}
+              className="px-3 py-1.5 bg-amber-600 text-white rounded text-sm font-medium hover:bg-amber-700 transition disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Record payment"}
+            </button>
+          </div>
+          {change > 0 && (
+            <p className="text-xs font-semibold text-gray-900">
+              Change: ₱{change.toFixed(2)}
+            </p>
+          )}
+        </div>
+      )}
+
+      {errorMsg && <p className="text-xs text-red-600">{errorMsg}</p>}
+    </div>
+  );
+}
+
+type RefundWithSlip = Refund & { slip: string };
+
+function RefundModal({
+  order,
+  onClose,
+  onRefunded,
+}: {
+  order: Order;
+  onClose: () => void;
+  onRefunded: () => void;
+}) {
+  const [refunds, setRefunds] = useState<RefundWithSlip[]>([]);
+  const [refundable, setRefundable] = useState<RefundableLines | null>(null);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [baskets, setBaskets] = useState<number[]>([]);
+  const [method, setMethod] = useState<RefundMethod>(
+    order.handling?.payment_method || "cash",
+  );
+  const [reason, setReason] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [slip, setSlip] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(`/api/orders/${order.id}/refund`, {
+          credentials: "include",
+        });
+        const body = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          throw new Error(body?.error || `Server responded ${res.status}`);
+        }
+        if (!cancelled) {
+          setRefunds(body.data.refunds || []);
+          setRefundable(body.data.refundable);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setErrorMsg(
+            err instanceof Error ? err.message : "Failed to load refunds",
+          );
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [order.id, reloadKey]);
+
+  const lines: RefundRequestLine[] = [
+    ...Object.entries(quantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([product_id, quantity]) => ({
+        type: "product" as const,
+        product_id,
+        quantity,
+      })),
+    ...baskets.map((basket_number) => ({
+      type: "basket" as const,
+      basket_number,
+    })),
+  ];
+
+  // List price of the selection; the server takes off the loyalty discount share
+  const selectedTotal =
+    (refundable?.products || []).reduce(
+      (sum, p) => sum + p.unit_price * (quantities[p.product_id] || 0),
+      0,
+    ) +
+    (refundable?.baskets || [])
+      .filter((b) => baskets.includes(b.basket_number))
+      .reduce((sum, b) => sum + b.subtotal, 0);
+
+  async function submitRefund() {
+    if (lines.length === 0) {
+      setErrorMsg("Choose at least one product or basket to refund");
+      return;
+    }
+    if (!reason.trim()) {
+      setErrorMsg("A reason is required");
+      return;
+    }
+
+    setSaving(true);
+    setErrorMsg(null);
+    try {
+      const res = await fetch(`/api/orders/${order.id}/refund`, {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ lines, method, reason }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body?.error || `Failed to refund (${res.status})`);
+      }
+
+      setSlip(body.data.slip);
+      setQuantities({});
+      setBaskets([]);
+      setReason("");
+      setReloadKey((key) => key + 1);
+      onRefunded();
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : "Failed to refund");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const nothingLeft =
+    refundable !== null &&
+    refundable.products.every((p) => p.remaining === 0) &&
+    refundable.baskets.every((b) => b.refunded);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Refund</h2>
+            <p className="text-xs text-gray-500 font-mono">
+              Order #{order.id.slice(0, 8)} • Paid ₱
+              {order.total_amount.toFixed(2)}
+              {refundable && refundable.refunded_total > 0 && (
+                <> • Refunded ₱{refundable.refunded_total.toFixed(2)}</>
+              )}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 text-2xl font-light transition"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-5">
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : (
+            <>
+              {refundable && refundable.products.length > 0 && (
+                <div>
+                  <p className="text-xs text-gray-600 uppercase tracking-wide font-semibold mb-2">
+                    Products
+                  </p>
+                  <div className="space-y-2">
+                    {refundable.products.map((p) => (
+                      <div
+                        key={p.product_id}
+                        className="flex items-center justify-between text-sm"
+                      >
+                        <div>
+                          <span className="font-medium text-gray-900">
+                            {p.product_name}
+                          </span>
+                          <span className="text-gray-500">
+                            {" "}
+                            · ₱{p.unit_price.toFixed(2)} each ·{" "}
+                            {p.remaining} of {p.ordered} refundable
+                          </span>
+                        </div>
+                        <input
+                          type="number"
+                          min={0}
+                          max={p.remaining}
+                          value={quantities[p.product_id] || 0}
+                          disabled={p.remaining === 0}
+                          onChange={(e) =>
+                            setQuantities({
+                              ...quantities,
+                              [p.product_id]: Math.min(
+                                p.remaining,
+                                Math.max(0, Math.floor(Number(e.target.value))),
+                              ),
+                            })
+                          }
+                          className="border px-2 py-1 rounded w-20 text-right"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {refundable && refundable.baskets.length > 0 && (
+                <div>
+                  <p className="text-xs text-gray-600 uppercase tracking-wide font-semibold mb-2">
+                    Baskets
+                  </p>
+                  <div className="space-y-2">
+                    {refundable.baskets.map((b) => (
+                      <label
+                        key={b.basket_number}
+                        className={`flex items-center justify-between text-sm ${
+                          b.refunded ? "text-gray-400" : "text-gray-900"
+                        }`}
+                      >
+                        <span>
+                          <input
+                            type="checkbox"
+                            className="mr-2"
+                            disabled={b.refunded}
+                            checked={baskets.includes(b.basket_number)}
+                            onChange={(e) =>
+                              setBaskets(
+                                e.target.checked
+                                  ? [...baskets, b.basket_number]
+                                  : baskets.filter(
+                                      (n) => n !== b.basket_number,
+                                    ),
+                              )
+                            }
+                          />
+                          Basket {b.basket_number}
+                          {b.weight_kg !== null && ` · ${b.weight_kg} kg`}
+                          {b.refunded && " · refunded"}
+                        </span>
+                        <span>₱{b.subtotal.toFixed(2)}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {nothingLeft ? (
+                <p className="text-sm text-gray-500">
+                  Everything on this order has been refunded
+                </p>
+              ) : (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="flex flex-col">
+                    <label className="text-sm">Refund via</label>
+                    <select
+                      value={method}
+                      onChange={(e) =>
+                        setMethod(e.target.value as RefundMethod)
+                      }
+                      className="border px-2 py-1 rounded"
+                    >
+                      {REFUND_METHODS.map((m) => (
+                        <option key={m} value={m}>
+                          {REFUND_METHOD_LABELS[m]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex flex-col justify-end text-sm text-gray-600">
+                    Selected: ₱{selectedTotal.toFixed(2)} before discounts
+                  </div>
+                  <div className="flex flex-col col-span-2">
+                    <label className="text-sm">Reason</label>
+                    <textarea
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      className="border px-2 py-1 rounded"
+                      rows={2}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {refunds.length > 0 && (
+                <div className="pt-2 border-t border-gray-200">
+                  <p className="text-xs text-gray-600 uppercase tracking-wide font-semibold mb-2">
+                    Previous Refunds
+                  </p>
+                  <div className="space-y-2">
+                    {refunds.map((r) => (
+                      <div
+                        key={r.id}
+                        className="flex justify-between items-start text-xs"
+                      >
+                        <div>
+                          <div className="font-medium text-gray-900">
+                            ₱{r.amount.toFixed(2)} via{" "}
+                            {REFUND_METHOD_LABELS[r.method]}
+                            {r.loyalty_points_reversed > 0 &&
+                              ` · ${r.loyalty_points_reversed} points taken back`}
+                          </div>
+                          <div className="text-gray-600">
+                            {formatToPST(r.created_at)}
+                            {r.staff_name && ` by ${r.staff_name}`} ·{" "}
+                            {r.reason}
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => setSlip(r.slip)}
+                          className="text-blue-600 hover:underline"
+                        >
+                          Slip
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="px-6 py-3 border-t border-gray-200 bg-gray-50 flex justify-between items-center gap-2">
+          <div className="text-red-600 text-xs font-medium">{errorMsg}</div>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              disabled={saving}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-900 text-sm font-medium hover:bg-gray-100 transition disabled:opacity-50"
+            >
+              Close
+            </button>
+            {!nothingLeft && (
+              <button
+                onClick={submitRefund}
+                disabled={saving || loading || lines.length === 0}
+                className="px-4 py-2 bg-amber-600 text-white rounded-lg text-sm font-medium hover:bg-amber-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving ? "Refunding..." : "Refund"}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <ReceiptModal
+        isOpen={slip !== null}
+        receiptContent={slip || ""}
+        orderId={order.id}
+        onClose={() => setSlip(null)}
+      />
     </div>
   );
 }
@@ -1469,6 +2088,167 @@ function EditModal({
   );
 }
 
+function StatusHistory({ orderId }: { orderId: string }) {
+  const [history, setHistory] = useState<OrderStatusHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(`/api/orders/${orderId}/history`, {
+          credentials: "include",
+        });
+        const body = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          throw new Error(body?.error || `Server responded ${res.status}`);
+        }
+        if (!cancelled) setHistory(body.data || []);
+      } catch (err) {
+        if (!cancelled) {
+          setErrorMsg(err instanceof Error ? err.message : "Failed to load history");
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId]);
+
+  const label = (status: string | null) =>
+    status ? ORDER_STATUS_LABELS[status as OrderStatus] || status : "—";
+
+  return (
+    <div className="pt-2 border-t border-gray-200">
+      <p className="text-xs text-gray-600 uppercase tracking-wide font-semibold mb-3">
+        Status History
+      </p>
+      {loading ? (
+        <p className="text-xs text-gray-500">Loading...</p>
+      ) : errorMsg ? (
+        <p className="text-xs text-red-600">{errorMsg}</p>
+      ) : history.length === 0 ? (
+        <p className="text-xs text-gray-500">No status changes recorded</p>
+      ) : (
+        <div className="space-y-2 pl-3 border-l-2 border-gray-300">
+          {history.map((entry) => (
+            <div key={entry.id} className="text-xs">
+              <div className="flex justify-between items-center">
+                <span className="font-medium text-gray-900">
+                  {entry.from_status
+                    ? `${label(entry.from_status)} → ${label(entry.to_status)}`
+                    : `Created as ${label(entry.to_status)}`}
+                </span>
+                <span className="text-gray-500">
+                  {formatToPST(entry.created_at)}
+                </span>
+              </div>
+              <div className="mt-1 text-gray-600">
+                {entry.changed_by_name ? `by ${entry.changed_by_name}` : "by system"}
+                {entry.reason && (
+                  <span className="italic"> • {entry.reason}</span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function HandlingProofs({ orderId }: { orderId: string }) {
+  const [proofs, setProofs] = useState<HandlingProofLinks[]>([]);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(`/api/orders/${orderId}/proofs`, {
+          credentials: "include",
+        });
+        const body = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          throw new Error(body?.error || `Server responded ${res.status}`);
+        }
+        if (!cancelled) setProofs(body.data || []);
+      } catch (err) {
+        if (!cancelled) {
+          setErrorMsg(
+            err instanceof Error ? err.message : "Failed to load proof",
+          );
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId]);
+
+  if (errorMsg) return <p className="text-xs text-red-600">{errorMsg}</p>;
+  if (proofs.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-2 gap-6">
+      {proofs.map((proof) => (
+        <div
+          key={proof.id}
+          className="bg-green-50 border border-green-200 rounded-lg p-4 text-xs space-y-1"
+        >
+          <p className="text-gray-600 uppercase tracking-wide font-semibold mb-2">
+            Proof of {proof.leg === "pickup" ? "Pickup" : "Delivery"}
+          </p>
+          <p className="text-sm font-medium text-gray-900">
+            {proof.leg === "pickup" ? "Handed over by" : "Received by"}{" "}
+            {proof.recipient_name}
+          </p>
+          <p className="text-gray-600">
+            {formatToPST(proof.captured_at)}
+            {proof.captured_by_name && ` • by ${proof.captured_by_name}`}
+          </p>
+          <p>
+            <a
+              href={`https://www.google.com/maps?q=${proof.lat},${proof.lng}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-blue-600 hover:underline"
+            >
+              📍 {proof.lat.toFixed(5)}, {proof.lng.toFixed(5)}
+            </a>
+            {proof.accuracy_m !== null && (
+              <span className="text-gray-500"> (±{proof.accuracy_m} m)</span>
+            )}
+          </p>
+          <p className="flex gap-3">
+            <a
+              href={proof.photo_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-blue-600 hover:underline"
+            >
+              📷 Photo
+            </a>
+            {proof.signature_url && (
+              <a
+                href={proof.signature_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-600 hover:underline"
+              >
+                ✍️ Signature
+              </a>
+            )}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function DetailField({ label, value }: { label: string; value: string }) {
   return (
     <div>
@@ -1,6 +1,6 @@
 "use client";
 
-import React from "react";
+import React, { useState } from "react";
 
 interface ReceiptModalProps {
   isOpen: boolean;
@@ -13,7 +13,8 @@ interface ReceiptModalProps {
 /**
  * Receipt Preview Modal
  * Displays formatted receipt with print functionality
- * Print button: Currently downloads as .txt (placeholder for thermal printer)
+ * Print button: opens the browser print dialog
+ * Thermal button: queues the stored order's receipt for the print agent
  */
 export default function ReceiptModal({
   isOpen,
@@ -22,8 +23,31 @@ export default function ReceiptModal({
   onClose,
   onPrint,
 }: ReceiptModalProps) {
+  const [queueStatus, setQueueStatus] = useState<string | null>(null);
+
   if (!isOpen) return null;
 
+  const handleQueuePrint = async () => {
+    setQueueStatus("Sending...");
+    try {
+      const res = await fetch("/api/print/jobs", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ order_id: orderId, kinds: ["receipt"] }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body?.error || `Server responded ${res.status}`);
+      }
+      setQueueStatus("Sent to the thermal printer");
+    } catch (err) {
+      setQueueStatus(
+        err instanceof Error ? err.message : "Failed to send to printer",
+      );
+    }
+  };
+
   const handlePrint = () => {
     // Optimized print for 58mm thermal printer (RONGTA, Epson, etc.)
     const printWindow = window.open("", "", "width=400,height=600");
@@ -153,6 +177,12 @@ export default function ReceiptModal({
           </pre>
         </div>
 
+        {queueStatus && (
+          <p className="px-6 pt-3 text-xs text-gray-600 bg-gray-100">
+            {queueStatus}
+          </p>
+        )}
+
         {/* Actions */}
         <div className="bg-gray-100 px-6 py-4 flex gap-3 border-t border-gray-200">
           <button
@@ -176,6 +206,17 @@ export default function ReceiptModal({
             Print
           </button>
 
+          {orderId && (
+            <button
+              onClick={handleQueuePrint}
+              disabled={queueStatus === "Sending..."}
+              className="flex-1 bg-gray-800 hover:bg-gray-900 text-white font-semibold py-2 px-4 rounded-lg transition disabled:opacity-50"
+              title="Send to the thermal printer queue"
+            >
+              🧾 Thermal
+            </button>
+          )}
+
           <button
             onClick={handleDownloadReceipt}
             className="flex-1 bg-green-600 hover:bg-green-700 text-white font-semibold py-2 px-4 rounded-lg transition flex items-center justify-center gap-2"
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_PRICING_RULES,
+  normalizeIronWeight,
+  validateIronWeight,
+} from "@/src/app/in/pos/logic/posHelpers";
+
+const RULES = { ...DEFAULT_PRICING_RULES, iron_weight_min: 3, iron_weight_max: 10 };
+
+describe("validateIronWeight", () => {
+  it("accepts iron turned off", () => {
+    expect(validateIronWeight(0, RULES)).toBeNull();
+    expect(validateIronWeight(undefined, RULES)).toBeNull();
+    expect(validateIronWeight(null, RULES)).toBeNull();
+  });
+
+  it("accepts whole kg within the pricing rules", () => {
+    expect(validateIronWeight(3, RULES)).toBeNull();
+    expect(validateIronWeight(10, RULES)).toBeNull();
+  });
+
+  it("rejects weights outside the pricing rules", () => {
+    expect(validateIronWeight(2, RULES)).toBe("iron_weight_kg must be 0 or a whole number from 3 to 10");
+    expect(validateIronWeight(11, RULES)).not.toBeNull();
+    expect(validateIronWeight(-1, RULES)).not.toBeNull();
+  });
+
+  it("rejects fractions and non-numbers", () => {
+    expect(validateIronWeight(4.5, RULES)).not.toBeNull();
+    expect(validateIronWeight("4", RULES)).not.toBeNull();
+    expect(validateIronWeight(NaN, RULES)).not.toBeNull();
+  });
+});
+
+describe("normalizeIronWeight", () => {
+  it("skips iron below the minimum and caps it at the maximum", () => {
+    expect(normalizeIronWeight(2, RULES)).toBe(0);
+    expect(normalizeIronWeight(6, RULES)).toBe(6);
+    expect(normalizeIronWeight(12, RULES)).toBe(10);
+  });
+});
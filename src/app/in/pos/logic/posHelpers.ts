@@ -2,43 +2,131 @@
  * posHelpers.ts
  * Calculation functions for POS orders
  * 
- * Key rules:
+ * Key rules (defaults, overridable from the pricing_rules table):
  * - VAT: 12% INCLUSIVE (not added on top)
  * - Staff service fee: 40 PHP per ORDER if selected (not per basket)
  * - Delivery fee: 50 PHP minimum, can override but not below 50
  * - Iron: minimum 2kg (skip if < 2kg)
  * - Basket weight: max 8kg (auto-create new basket if exceeded)
+ *
+ * Every calculation takes an optional `rules` argument. Callers load the
+ * live rules with loadPricingRules() and pass them through; when omitted
+ * the defaults below are used.
  */
 
-import { Basket, BasketServices, Service, OrderBreakdown, Fee, POSProduct } from "./posTypes";
+import { Basket, BreakdownDiff, Service, OrderBreakdown, Fee, POSProduct, PricingRules, PricingRuleRow, ExtraDryTier, LoyaltyTier } from "./posTypes";
 
 // ============================================================================
 // CONSTANTS
 // ============================================================================
 
-const PRICING = {
-  TAX_RATE: 0.12,                    // 12% VAT
-  STAFF_SERVICE_FEE: 40,             // Per ORDER (flat)
-  DELIVERY_FEE_DEFAULT: 50,
-  DELIVERY_FEE_MIN: 50,
-  BASKET_WEIGHT_MAX: 8,
-  IRON_WEIGHT_MIN: 2,
-  IRON_WEIGHT_MAX: 8,
-  FOLD_PRICE: 0,                     // Assume included or free for now
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  tax_rate: 0.12,                    // 12% VAT
+  staff_service_fee: 40,             // Per ORDER (flat)
+  delivery_fee_default: 50,
+  delivery_fee_min: 50,
+  basket_weight_max: 8,
+  iron_weight_min: 2,
+  iron_weight_max: 8,
+  fold_price: 0,                     // Assume included or free for now
+  extra_dry_tiers: [
+    { minutes: 8, price: 15 },
+    { minutes: 16, price: 30 },
+    { minutes: 24, price: 45 },
+  ],
 };
 
-// Extra dry time pricing tiers (hardcoded)
-export const EXTRA_DRY_TIERS = [
-  { minutes: 8, price: 15 },
-  { minutes: 16, price: 30 },
-  { minutes: 24, price: 45 },
-] as const;
+// Default extra dry time pricing tiers
+export const EXTRA_DRY_TIERS = DEFAULT_PRICING_RULES.extra_dry_tiers;
 
-export function getExtraDryPrice(minutes: number): number {
-  const tier = EXTRA_DRY_TIERS.find(t => t.minutes === minutes);
+export function getExtraDryPrice(
+  minutes: number,
+  rules: PricingRules = DEFAULT_PRICING_RULES
+): number {
+  const tier = rules.extra_dry_tiers.find(t => t.minutes === minutes);
   return tier?.price || 0;
 }
 
+// ============================================================================
+// PRICING RULES
+// ============================================================================
+
+function isExtraDryTierList(value: unknown): value is ExtraDryTier[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (t) =>
+        t &&
+        typeof t === "object" &&
+        Number.isFinite(Number(t.minutes)) &&
+        Number(t.minutes) > 0 &&
+        Number.isFinite(Number(t.price)) &&
+        Number(t.price) >= 0
+    )
+  );
+}
+
+/**
+ * Validate a single pricing rule value
+ * Returns an error message, or null if the value is acceptable
+ */
+export function validatePricingRuleValue(
+  ruleKey: string,
+  value: unknown
+): string | null {
+  if (!(ruleKey in DEFAULT_PRICING_RULES)) {
+    return `Unknown pricing rule: ${ruleKey}`;
+  }
+
+  if (ruleKey === "extra_dry_tiers") {
+    if (!isExtraDryTierList(value)) {
+      return "extra_dry_tiers must be a list of { minutes > 0, price >= 0 }";
+    }
+    const minutes = value.map((t) => Number(t.minutes));
+    if (new Set(minutes).size !== minutes.length) {
+      return "extra_dry_tiers must not repeat the same minutes";
+    }
+    return null;
+  }
+
+  const num = Number(value);
+  if (value === null || value === "" || !Number.isFinite(num) || num < 0) {
+    return `${ruleKey} must be a non-negative number`;
+  }
+  if (ruleKey === "tax_rate" && num >= 1) {
+    return "tax_rate must be a fraction below 1 (e.g. 0.12 for 12%)";
+  }
+  return null;
+}
+
+/**
+ * Build a complete PricingRules object from pricing_rules rows
+ * Missing or invalid rows fall back to DEFAULT_PRICING_RULES
+ */
+export function resolvePricingRules(
+  rows: PricingRuleRow[] | null | undefined
+): PricingRules {
+  const rules: PricingRules = {
+    ...DEFAULT_PRICING_RULES,
+    extra_dry_tiers: [...DEFAULT_PRICING_RULES.extra_dry_tiers],
+  };
+
+  for (const row of rows || []) {
+    if (validatePricingRuleValue(row.rule_key, row.value)) continue;
+
+    if (row.rule_key === "extra_dry_tiers") {
+      rules.extra_dry_tiers = (row.value as ExtraDryTier[])
+        .map((t) => ({ minutes: Number(t.minutes), price: Number(t.price) }))
+        .sort((a, b) => a.minutes - b.minutes);
+    } else {
+      const key = row.rule_key as Exclude<keyof PricingRules, "extra_dry_tiers">;
+      rules[key] = Number(row.value);
+    }
+  }
+
+  return rules;
+}
+
 // ============================================================================
 // SERVICE PRICING HELPERS
 // ============================================================================
@@ -99,7 +187,8 @@ export function getServiceDuration(
 export function calculateBasketSubtotal(
   basket: Basket,
   services: Service[],
-  products: POSProduct[]
+  products: POSProduct[],
+  rules: PricingRules = DEFAULT_PRICING_RULES
 ): number {
   let total = 0;
   console.log(`[calculateBasketSubtotal] Starting calculation for basket ${basket.basket_number}`);
@@ -136,7 +225,7 @@ export function calculateBasketSubtotal(
   // Iron (minimum 2kg, only if weight >= 2kg)
   if (
     basket.services.iron_weight_kg >=
-    PRICING.IRON_WEIGHT_MIN
+    rules.iron_weight_min
   ) {
     const ironPrice = getServicePrice(services, "iron");
     console.log(`[calculateBasketSubtotal] Iron (${basket.services.iron_weight_kg}kg @ ₱${ironPrice}/kg): ₱${basket.services.iron_weight_kg * ironPrice}`);
@@ -145,12 +234,12 @@ export function calculateBasketSubtotal(
 
   // Fold
   if (basket.services.fold) {
-    console.log(`[calculateBasketSubtotal] Fold: ₱${PRICING.FOLD_PRICE}`);
-    total += PRICING.FOLD_PRICE;
+    console.log(`[calculateBasketSubtotal] Fold: ₱${rules.fold_price}`);
+    total += rules.fold_price;
   }
 
-  // Additional dry time (hardcoded tiers: 8m=₱15, 16m=₱30, 24m=₱45)
-  const additionalDryTimeCost = getExtraDryPrice(basket.services.additional_dry_time_minutes);
+  // Additional dry time (tier price from pricing rules)
+  const additionalDryTimeCost = getExtraDryPrice(basket.services.additional_dry_time_minutes, rules);
   console.log(`[calculateBasketSubtotal] Additional Dry Time: ${basket.services.additional_dry_time_minutes}min = ₱${additionalDryTimeCost}`);
   total += additionalDryTimeCost;
 
@@ -173,7 +262,8 @@ export function calculateBasketSubtotal(
  */
 export function calculateBasketDuration(
   basket: Basket,
-  services: Service[]
+  services: Service[],
+  rules: PricingRules = DEFAULT_PRICING_RULES
 ): number {
   let totalMinutes = 0;
 
@@ -204,7 +294,7 @@ export function calculateBasketDuration(
   }
 
   // Iron
-  if (basket.services.iron_weight_kg >= PRICING.IRON_WEIGHT_MIN) {
+  if (basket.services.iron_weight_kg >= rules.iron_weight_min) {
     const duration = getServiceDuration(services, "iron");
     totalMinutes += duration;
   }
@@ -227,11 +317,14 @@ export function calculateBasketDuration(
 
 /**
  * Validate and normalize delivery fee
- * Must be >= 50, default is 50
+ * Must be >= delivery_fee_min, default is delivery_fee_default
  */
-export function validateDeliveryFee(fee: number | null | undefined): number {
-  if (!fee) return PRICING.DELIVERY_FEE_DEFAULT;
-  if (fee < PRICING.DELIVERY_FEE_MIN) return PRICING.DELIVERY_FEE_MIN;
+export function validateDeliveryFee(
+  fee: number | null | undefined,
+  rules: PricingRules = DEFAULT_PRICING_RULES
+): number {
+  if (!fee) return rules.delivery_fee_default;
+  if (fee < rules.delivery_fee_min) return rules.delivery_fee_min;
   return fee;
 }
 
@@ -240,23 +333,48 @@ export function validateDeliveryFee(fee: number | null | undefined): number {
 // ============================================================================
 
 /**
- * Calculate VAT amount (12% inclusive)
+ * Calculate VAT amount (12% inclusive by default)
  * VAT is already included in prices, not added on top
  * To extract VAT from a subtotal:
  * vat = subtotal * (taxRate / (1 + taxRate))
  * = subtotal * (0.12 / 1.12)
  */
-export function calculateVATAmount(subtotal: number): number {
-  return subtotal * (PRICING.TAX_RATE / (1 + PRICING.TAX_RATE));
+export function calculateVATAmount(
+  subtotal: number,
+  rules: PricingRules = DEFAULT_PRICING_RULES
+): number {
+  return subtotal * (rules.tax_rate / (1 + rules.tax_rate));
+}
+
+/**
+ * Calculate the discount for a redeemed loyalty tier
+ * Percentage of the order total, rounded to centavos
+ */
+export function calculateLoyaltyDiscount(
+  total: number,
+  tier: LoyaltyTier | null
+): number {
+  if (!tier || total <= 0) return 0;
+  return Math.round(total * (tier.discount_percent / 100) * 100) / 100;
 }
 
 /**
  * Calculate staff service fee
- * 40 PHP flat if service_type is staff_service
+ * Flat staff_service_fee if service_type is staff_service
  * Otherwise 0
  */
-export function calculateStaffServiceFee(isStaffService: boolean): number {
-  return isStaffService ? PRICING.STAFF_SERVICE_FEE : 0;
+export function calculateStaffServiceFee(
+  isStaffService: boolean,
+  rules: PricingRules = DEFAULT_PRICING_RULES
+): number {
+  return isStaffService ? rules.staff_service_fee : 0;
+}
+
+/**
+ * Format the tax rate for labels, e.g. 0.12 -> "12%"
+ */
+export function formatTaxRate(rules: PricingRules = DEFAULT_PRICING_RULES): string {
+  return `${parseFloat((rules.tax_rate * 100).toFixed(2))}%`;
 }
 
 /**
@@ -269,7 +387,9 @@ export function buildOrderBreakdown(
   isDelivery: boolean,
   deliveryFeeOverride: number | null,
   services: Service[],
-  products: POSProduct[]
+  products: POSProduct[],
+  rules: PricingRules = DEFAULT_PRICING_RULES,
+  loyaltyTier: LoyaltyTier | null = null
 ): OrderBreakdown {
   // Calculate product subtotal
   const itemsArray = items.map((item) => ({
@@ -331,7 +451,7 @@ export function buildOrderBreakdown(
     }
     
     // Add iron pricing
-    if (basket.services.iron_weight_kg >= PRICING.IRON_WEIGHT_MIN) {
+    if (basket.services.iron_weight_kg >= rules.iron_weight_min) {
       const ironService = services.find(s => s.service_type === "iron");
       if (ironService) {
         enrichedServices.iron_pricing = {
@@ -343,12 +463,12 @@ export function buildOrderBreakdown(
       }
     }
     
-    // Add additional dry time pricing (use hardcoded tier price)
+    // Add additional dry time pricing (tier price from pricing rules)
     if (basket.services.additional_dry_time_minutes > 0) {
       enrichedServices.additional_dry_time_pricing = {
         name: "Additional Dry Time",
         tier: null,
-        base_price: getExtraDryPrice(basket.services.additional_dry_time_minutes),
+        base_price: getExtraDryPrice(basket.services.additional_dry_time_minutes, rules),
         service_type: "additional_dry_time"
       };
     }
@@ -358,7 +478,7 @@ export function buildOrderBreakdown(
       enrichedServices.staff_service_pricing = {
         name: "Staff Service",
         tier: null,
-        base_price: PRICING.STAFF_SERVICE_FEE,
+        base_price: rules.staff_service_fee,
         service_type: "staff_service"
       };
     }
@@ -366,7 +486,7 @@ export function buildOrderBreakdown(
     return {
       ...basket,
       services: enrichedServices,
-      subtotal: calculateBasketSubtotal(basket, services, products),
+      subtotal: calculateBasketSubtotal(basket, services, products, rules),
     };
   });
   const subtotalServices = basketsWithSubtotals.reduce(
@@ -375,20 +495,23 @@ export function buildOrderBreakdown(
   );
 
   // Calculate fees
-  const staffServiceFee = calculateStaffServiceFee(isStaffService);
+  const staffServiceFee = calculateStaffServiceFee(isStaffService, rules);
   const deliveryFee = isDelivery
-    ? validateDeliveryFee(deliveryFeeOverride)
+    ? validateDeliveryFee(deliveryFeeOverride, rules)
     : 0;
 
   // Subtotal before VAT (includes all items, services, and fees)
   const subtotalBeforeVAT =
     subtotalProducts + subtotalServices + staffServiceFee + deliveryFee;
 
-  // Calculate VAT (12% inclusive)
-  const vatAmount = calculateVATAmount(subtotalBeforeVAT);
+  // Loyalty discount comes off the whole order
+  const loyaltyDiscount = calculateLoyaltyDiscount(subtotalBeforeVAT, loyaltyTier);
 
   // Final total
-  const total = subtotalBeforeVAT;
+  const total = subtotalBeforeVAT - loyaltyDiscount;
+
+  // Calculate VAT (inclusive, on the amount actually paid)
+  const vatAmount = calculateVATAmount(total, rules);
 
   // Build fees array
   const feesArray: Fee[] = [];
@@ -409,7 +532,7 @@ export function buildOrderBreakdown(
   feesArray.push({
     type: "vat",
     amount: vatAmount,
-    description: "VAT (12% inclusive)",
+    description: `VAT (${formatTaxRate(rules)} inclusive)`,
   });
 
   return {
@@ -423,12 +546,86 @@ export function buildOrderBreakdown(
       delivery_fee: deliveryFee,
       subtotal_before_vat: subtotalBeforeVAT,
       vat_amount: vatAmount,
-      loyalty_discount: 0, // TODO: implement loyalty
+      loyalty_discount: loyaltyDiscount,
+      loyalty_tier_id: loyaltyTier && loyaltyDiscount > 0 ? loyaltyTier.id : null,
       total,
     },
   };
 }
 
+// ============================================================================
+// PRICE VERIFICATION
+// ============================================================================
+
+// Differences below one centavo are rounding noise, not a price mismatch
+const PRICE_TOLERANCE = 0.01;
+
+/**
+ * Compare a submitted breakdown against one recomputed by the server
+ * Checks every item line, basket subtotal, fee and summary amount
+ * @returns one entry per amount that differs, empty if the prices match
+ */
+export function diffOrderBreakdown(
+  submitted: OrderBreakdown,
+  expected: OrderBreakdown
+): BreakdownDiff[] {
+  const diff: BreakdownDiff[] = [];
+
+  const compare = (field: string, a: unknown, b: number | null | undefined) => {
+    const submittedValue = a === undefined || a === null || a === "" ? null : Number(a);
+    const expectedValue = b === undefined || b === null ? null : b;
+    const same =
+      submittedValue === expectedValue ||
+      (submittedValue !== null &&
+        expectedValue !== null &&
+        Math.abs(submittedValue - expectedValue) < PRICE_TOLERANCE);
+    if (!same) diff.push({ field, submitted: submittedValue, expected: expectedValue });
+  };
+
+  // Product lines
+  const submittedItems = submitted.items || [];
+  expected.items.forEach((item, i) => {
+    compare(`items[${i}].unit_price`, submittedItems[i]?.unit_price, item.unit_price);
+    compare(`items[${i}].total_price`, submittedItems[i]?.total_price, item.total_price);
+  });
+
+  // Baskets
+  const submittedBaskets = submitted.baskets || [];
+  expected.baskets.forEach((basket, i) => {
+    compare(`baskets[${i}].subtotal`, submittedBaskets[i]?.subtotal, basket.subtotal);
+  });
+
+  // Fees (matched by type)
+  const feeTypes = new Set([
+    ...(submitted.fees || []).map((f) => f.type),
+    ...expected.fees.map((f) => f.type),
+  ]);
+  for (const type of feeTypes) {
+    compare(
+      `fees.${type}`,
+      (submitted.fees || []).find((f) => f.type === type)?.amount,
+      expected.fees.find((f) => f.type === type)?.amount
+    );
+  }
+
+  // Summary
+  const summaryFields = [
+    "subtotal_products",
+    "subtotal_services",
+    "staff_service_fee",
+    "delivery_fee",
+    "subtotal_before_vat",
+    "vat_amount",
+    "loyalty_discount",
+    "total",
+  ] as const;
+  for (const field of summaryFields) {
+    compare(`summary.${field}`, submitted.summary?.[field], expected.summary[field]);
+  }
+
+  return diff;
+}
+
 // ============================================================================
 // AUTO-BASKET CREATION
 // ============================================================================
@@ -440,17 +637,18 @@ export function buildOrderBreakdown(
 export function autoCreateBasketIfNeeded(
   baskets: Basket[],
   basketIndex: number,
-  newWeight: number
+  newWeight: number,
+  rules: PricingRules = DEFAULT_PRICING_RULES
 ): Basket[] {
   const basket = baskets[basketIndex];
   const newBasketArray = baskets.map((b) => ({ ...b }));
 
   // If new weight exceeds max, create new basket with overflow
-  if (newWeight > PRICING.BASKET_WEIGHT_MAX) {
-    const excess = newWeight - PRICING.BASKET_WEIGHT_MAX;
+  if (newWeight > rules.basket_weight_max) {
+    const excess = newWeight - rules.basket_weight_max;
 
     // Limit current basket to max
-    newBasketArray[basketIndex].weight_kg = PRICING.BASKET_WEIGHT_MAX;
+    newBasketArray[basketIndex].weight_kg = rules.basket_weight_max;
 
     // Create new basket with excess
     const newBasket: Basket = {
@@ -475,15 +673,37 @@ export function autoCreateBasketIfNeeded(
 
 /**
  * Validate iron weight
- * - Must be 0 (off) or between 2-8 kg
- * - Skip if < 2 kg (don't ask user)
+ * - Must be 0 (off) or between iron_weight_min and iron_weight_max kg
+ * - Skip if below the minimum (don't ask user)
  */
 export function normalizeIronWeight(
-  weight: number
-): 0 | 2 | 3 | 4 | 5 | 6 | 7 | 8 {
-  if (weight < PRICING.IRON_WEIGHT_MIN) return 0; // Skip iron
-  if (weight > PRICING.IRON_WEIGHT_MAX) return 8;
-  return weight as 0 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+  weight: number,
+  rules: PricingRules = DEFAULT_PRICING_RULES
+): number {
+  if (weight < rules.iron_weight_min) return 0; // Skip iron
+  if (weight > rules.iron_weight_max) return rules.iron_weight_max;
+  return weight;
+}
+
+/**
+ * Check a submitted iron weight against the pricing rules
+ * Returns an error message, or null for 0 / missing (off) or a whole kg
+ * between iron_weight_min and iron_weight_max
+ */
+export function validateIronWeight(
+  weight: unknown,
+  rules: PricingRules = DEFAULT_PRICING_RULES
+): string | null {
+  if (weight === undefined || weight === null || weight === 0) return null;
+  if (
+    typeof weight !== "number" ||
+    !Number.isInteger(weight) ||
+    weight < rules.iron_weight_min ||
+    weight > rules.iron_weight_max
+  ) {
+    return `iron_weight_kg must be 0 or a whole number from ${rules.iron_weight_min} to ${rules.iron_weight_max}`;
+  }
+  return null;
 }
 
 // ============================================================================
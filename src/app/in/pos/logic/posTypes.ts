@@ -37,10 +37,11 @@ export interface BasketServices {
   dry_pricing?: PricingInfo;              // Pricing info for dry service
   spin: boolean;                          // On/Off
   spin_pricing?: PricingInfo;             // Pricing info for spin service
-  iron_weight_kg: 0 | 2 | 3 | 4 | 5 | 6 | 7 | 8; // 0 = off, min 2kg
+  iron_weight_kg: number;                // 0 = off, else whole kg within iron_weight_min/max
   iron_pricing?: PricingInfo;             // Pricing info for iron service
   fold: boolean;                          // On/Off
-  additional_dry_time_minutes: 0 | 8 | 16 | 24;  // 0, 8, 16, or 24
+  fold_pricing?: PricingInfo;             // Pricing info for fold service
+  additional_dry_time_minutes: number;    // 0 or one of the configured extra dry tiers
   additional_dry_time_pricing?: PricingInfo; // Pricing info for additional dry time
   plastic_bags: number;                   // Quantity of plastic bags
   heavy_fabrics: boolean;                 // Heavy fabrics (jeans, comforter, etc) - informational flag
@@ -92,9 +93,29 @@ export interface OrderBreakdown {
     delivery_fee: number;                 // 0 if pickup, override or 50 if delivery
     subtotal_before_vat: number;          // products + services + staff fee + delivery
     vat_amount: number;                   // 12% inclusive
-    loyalty_discount: number;             // If applicable
+    loyalty_discount: number;             // Redeemed tier discount, 0 if none
+    loyalty_tier_id?: string | null;      // Redeemed loyalty_tiers.id
     total: number;                        // Final amount paid
   };
+  pricing_review?: PricingReview;         // Set when accepted despite a price mismatch
+}
+
+// ============================================================================
+// SERVER-SIDE PRICE VERIFICATION
+// ============================================================================
+
+export interface BreakdownDiff {
+  field: string;                          // e.g. "summary.total", "baskets[0].subtotal"
+  submitted: number | null;               // null if missing from the submitted breakdown
+  expected: number | null;                // null if the server has no such line
+}
+
+export interface PricingReview {
+  status: "flagged";                      // Needs a staff look before it is trusted
+  diff: BreakdownDiff[];
+  expected_total: number;                 // Server-computed total, the one stored and charged
+  submitted_total: number;                // What the client sent, kept for the review only
+  flagged_at: string;
 }
 
 // ============================================================================
@@ -107,11 +128,13 @@ export interface OrderHandling {
   delivery_address: string | null;        // If delivery
   delivery_lng?: number | null;           // Delivery location longitude
   delivery_lat?: number | null;           // Delivery location latitude
-  delivery_fee_override: number | null;   // Cashier override (min 50 if delivery)
+  delivery_fee_override: number | null;   // Cashier override of the zone-priced fee (min 50 if delivery)
+  delivery_fee_override_reason?: string;  // Required when the override differs from the zone fee
   special_instructions: string;           // Order-level notes
   scheduled: boolean;                     // Whether order is scheduled for later
   scheduled_date?: string;                // ISO date format (YYYY-MM-DD) for scheduled pickup/delivery
-  scheduled_time?: string;                // HH:MM format (13:00-17:00 range) for scheduled pickup/delivery
+  scheduled_time?: string;                // HH:MM start of the booked time slot
+  slot_id?: string;                       // delivery_slots.id booked for the scheduled date
   payment_method: PaymentMethod;
   amount_paid: number;
   amount_change?: number;                 // If cash
@@ -132,6 +155,10 @@ export interface CreateOrderPayload {
   };
   breakdown: OrderBreakdown;
   handling: OrderHandling;
+  loyalty?: {
+    discount_tier: string | null;         // loyalty_tiers.id to redeem
+  };
+  payments?: PaymentTender[];             // Tenders taken at drop-off, default from handling
 }
 
 // ============================================================================
@@ -164,6 +191,15 @@ export interface DeliveryData {
   special_instructions: string;
 }
 
+// One tender towards an order: several make a split payment, less than the
+// total leaves a balance due at pickup
+export interface PaymentTender {
+  method: PaymentMethod;
+  amount: number;                         // Applied to the order
+  amount_tendered?: number | null;        // Cash handed over, change = tendered - amount
+  reference?: string | null;              // GCash reference
+}
+
 export interface PaymentData {
   method: PaymentMethod;
   amount_paid: number;
@@ -185,6 +221,69 @@ export interface Service {
   is_active: boolean;
 }
 
+// ============================================================================
+// PRICING RULES (from database pricing_rules table)
+// ============================================================================
+
+export interface ExtraDryTier {
+  minutes: number;
+  price: number;
+}
+
+export interface PricingRules {
+  tax_rate: number;                       // VAT rate, inclusive (0.12 = 12%)
+  staff_service_fee: number;              // Per ORDER (flat)
+  delivery_fee_default: number;           // Used when no override is given
+  delivery_fee_min: number;               // Overrides cannot go below this
+  basket_weight_max: number;              // kg, overflow goes to a new basket
+  iron_weight_min: number;                // kg, iron is skipped below this
+  iron_weight_max: number;                // kg
+  fold_price: number;                     // Per basket
+  extra_dry_tiers: ExtraDryTier[];        // Additional dry time price tiers
+}
+
+export type PricingRuleKey = keyof PricingRules;
+
+export interface PricingRuleRow {
+  rule_key: string;
+  value: unknown;                         // JSONB: number, or tier array
+  updated_at?: string | null;
+  updated_by?: string | null;
+}
+
+// ============================================================================
+// LOYALTY PROGRAM (from database loyalty_tiers / loyalty_settings tables)
+// ============================================================================
+
+export interface LoyaltyTier {
+  id: string;
+  name: string;
+  points_required: number;                // Points redeemed for this discount
+  discount_percent: number;               // 5 = 5% off the order total
+  is_active: boolean;
+}
+
+export interface LoyaltySettings {
+  points_per_order: number;               // Flat points earned per completed order
+  pesos_per_point: number | null;         // Extra point per X pesos spent, null = off
+  expire_after_days: number | null;       // Balance expires after N idle days, null = never
+}
+
+export type LoyaltyTransactionType = "earn" | "redeem" | "expire" | "adjust";
+
+export interface LoyaltyTransaction {
+  id: string;
+  customer_id: string;
+  order_id: string | null;
+  type: LoyaltyTransactionType;
+  points: number;                         // Signed change
+  balance_after: number;
+  tier_id: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
 // ============================================================================
 // PRODUCT FOR POS SELECTOR
 // ============================================================================
@@ -4,6 +4,10 @@
  * Works with POS order creation endpoint response
  */
 
+import { getExtraDryPrice } from "./posHelpers";
+import { PaymentTender } from "./posTypes";
+import { formatToPST } from "@/src/app/utils/dateUtils";
+
 export interface ReceiptItem {
   product_name: string;
   quantity: number;
@@ -50,6 +54,13 @@ export interface CompactReceipt {
     loyalty_discount?: number;
   };
   change?: number;
+  payments?: PaymentTender[];             // Each tender, listed instead of paymentMethod
+  balanceDue?: number;                    // Left to pay at pickup
+  refund?: {                              // Set for a refund slip instead of a sale receipt
+    refundId: string;
+    reason: string;
+    staffName?: string | null;
+  };
 }
 
 /**
@@ -167,23 +178,31 @@ export function formatReceiptAsPlaintext(receipt: CompactReceipt): string {
   // Extract short order ID (before first hyphen)
   const shortOrderId = receipt.orderId.split("-")[0].toUpperCase();
 
+  const { refund } = receipt;
+
   // Header
   lines.push(separatorLine("=", 40));
   lines.push(centerLine("KATFLIX LAUNDRY", 40));
-  lines.push(centerLine("ORDER RECEIPT", 40));
+  lines.push(centerLine(refund ? "REFUND SLIP" : "ORDER RECEIPT", 40));
   lines.push(separatorLine("=", 40));
   lines.push("");
 
   // Order Info
+  if (refund) {
+    lines.push(formatReceiptLine("Refund ID:", refund.refundId.split("-")[0].toUpperCase(), 40));
+  }
   lines.push(formatReceiptLine("Order ID:", shortOrderId, 40));
   lines.push(formatReceiptLine("Customer:", receipt.customerName, 40));
   lines.push(
     formatReceiptLine(
       "Date/Time:",
-      new Date(receipt.timestamp).toLocaleString(),
+      formatToPST(receipt.timestamp),
       40
     )
   );
+  if (refund?.staffName) {
+    lines.push(formatReceiptLine("Refunded by:", refund.staffName, 40));
+  }
   lines.push("");
 
   // Baskets Section
@@ -217,9 +236,8 @@ export function formatReceiptAsPlaintext(receipt: CompactReceipt): string {
 
         if (services.additional_dry_time_minutes && services.additional_dry_time_minutes > 0) {
           const minutes = services.additional_dry_time_minutes;
-          // Hardcoded tier pricing: 8m=₱15, 16m=₱30, 24m=₱45
-          const EXTRA_DRY_TIERS: Record<number, number> = { 8: 15, 16: 30, 24: 45 };
-          const price = EXTRA_DRY_TIERS[minutes] || services.additional_dry_time_pricing?.base_price || 0;
+          // Prefer the price snapshot taken at order time, else the default tiers
+          const price = services.additional_dry_time_pricing?.base_price ?? getExtraDryPrice(minutes);
           lines.push(formatReceiptLine(`  Extra Dry (${minutes}m)`, price, 40));
         }
 
@@ -289,24 +307,56 @@ export function formatReceiptAsPlaintext(receipt: CompactReceipt): string {
 
   lines.push("");
   lines.push(separatorLine("=", 40));
-  lines.push(formatReceiptLine("TOTAL:", receipt.total, 40));
+  lines.push(formatReceiptLine(refund ? "TOTAL REFUND:" : "TOTAL:", receipt.total, 40));
   lines.push(separatorLine("=", 40));
 
   // Payment Section
-  if (receipt.paymentMethod) {
+  if (receipt.payments && receipt.payments.length > 0) {
+    lines.push("");
+    for (const tender of receipt.payments) {
+      lines.push(formatReceiptLine(tender.method === "gcash" ? "GCash:" : "Cash:", tender.amount, 40));
+      if (tender.reference) {
+        lines.push(formatReceiptLine("  Ref:", tender.reference, 40));
+      }
+      if (tender.amount_tendered && tender.amount_tendered > tender.amount) {
+        lines.push(formatReceiptLine("  Tendered:", tender.amount_tendered, 40));
+        lines.push(formatReceiptLine("  Change:", tender.amount_tendered - tender.amount, 40));
+      }
+    }
+  } else if (receipt.paymentMethod) {
     lines.push("");
-    lines.push(formatReceiptLine("Payment:", receipt.paymentMethod, 40));
+    lines.push(formatReceiptLine(refund ? "Refunded via:" : "Payment:", receipt.paymentMethod, 40));
 
     if (receipt.change !== undefined && receipt.change > 0) {
       lines.push(formatReceiptLine("Change:", receipt.change, 40));
     }
   }
 
+  if (!refund && receipt.balanceDue !== undefined && receipt.balanceDue > 0) {
+    lines.push("");
+    lines.push(formatReceiptLine("BALANCE DUE:", receipt.balanceDue, 40));
+    lines.push(centerLine("Please pay the balance at pickup", 40));
+  }
+
+  if (refund) {
+    lines.push("");
+    lines.push(truncateLine("Reason:", 40));
+    for (let i = 0; i < refund.reason.length; i += 38) {
+      lines.push(`  ${refund.reason.substring(i, i + 38)}`);
+    }
+  }
+
   // Footer
   lines.push("");
   lines.push(separatorLine("=", 40));
-  lines.push(centerLine("Thank you for your order!", 40));
-  lines.push(centerLine("Visit us again!", 40));
+  if (refund) {
+    lines.push(centerLine("Customer signature", 40));
+    lines.push("");
+    lines.push(centerLine("_".repeat(28), 40));
+  } else {
+    lines.push(centerLine("Thank you for your order!", 40));
+    lines.push(centerLine("Visit us again!", 40));
+  }
   lines.push(separatorLine("=", 40));
   lines.push("");
 
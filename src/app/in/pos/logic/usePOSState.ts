@@ -2,8 +2,12 @@
 
 import React, { useState, useCallback, useEffect } from "react";
 import { createClient } from "@/src/app/utils/supabase/client";
-import { Basket, BasketServices, ServiceType, CustomerData, PaymentMethod, OrderItem, POSProduct, POSCustomer, OrderBreakdown, OrderHandling } from "./posTypes";
-import { buildOrderBreakdown, calculateChange, isAmountSufficient } from "./posHelpers";
+import { Basket, BasketServices, ServiceType, CustomerData, PaymentMethod, OrderItem, POSProduct, POSCustomer, OrderBreakdown, OrderHandling, PricingRules, LoyaltyTier } from "./posTypes";
+import { buildOrderBreakdown, calculateChange, DEFAULT_PRICING_RULES } from "./posHelpers";
+import { loadPricingRules } from "@/src/app/utils/pricingRules";
+import { loadLoyaltyProgram } from "@/src/app/utils/loyaltyProgram";
+import { DeliveryFeeQuote } from "@/src/app/utils/deliveryZones";
+import { buildDropOffPayment } from "@/src/app/utils/orderPayments";
 import { formatReceiptAsPlaintext, CompactReceipt } from "./receiptGenerator";
 
 const createNewBasket = (basketNumber: number): Basket => ({
@@ -32,25 +36,35 @@ export function usePOSState() {
   const [deliveryLng, setDeliveryLng] = useState<number | null>(null);
   const [deliveryLat, setDeliveryLat] = useState<number | null>(null);
   const [deliveryFeeOverride, setDeliveryFeeOverride] = useState<number | null>(null);
+  const [deliveryFeeOverrideReason, setDeliveryFeeOverrideReason] = useState("");
+  const [deliveryFeeQuote, setDeliveryFeeQuote] = useState<DeliveryFeeQuote | null>(null);
   const [specialInstructions, setSpecialInstructions] = useState("");
   const [scheduled, setScheduled] = useState(false);
   const [scheduledDate, setScheduledDate] = useState("");
-  const [scheduledTime, setScheduledTime] = useState("13:00");
+  const [scheduledTime, setScheduledTime] = useState("");
+  const [slotId, setSlotId] = useState("");
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("cash");
   const [amountPaid, setAmountPaid] = useState(0);
   const [gcashReference, setGcashReference] = useState("");
+  const [splitPayment, setSplitPayment] = useState(false);
+  const [gcashAmount, setGcashAmount] = useState(0);
+  const [payLater, setPayLater] = useState(false);
   const [services, setServices] = useState<any[]>([]);
+  const [pricingRules, setPricingRules] = useState<PricingRules>(DEFAULT_PRICING_RULES);
   const [isProcessing, setIsProcessing] = useState(false);
   const [showReceiptModal, setShowReceiptModal] = useState(false);
   const [lastOrderId, setLastOrderId] = useState<string | null>(null);
   const [receiptContent, setReceiptContent] = useState("");
-  const [loyaltyDiscountTier, setLoyaltyDiscountTier] = useState<null | 'tier1' | 'tier2'>(null);
+  const [loyaltyTiers, setLoyaltyTiers] = useState<LoyaltyTier[]>([]);
+  const [loyaltyDiscountTier, setLoyaltyDiscountTier] = useState<string | null>(null);
 
   useEffect(() => {
     const loadInitialData = async () => {
       const supabase = createClient();
       const { data: servicesData } = await supabase.from("services").select("*").eq("is_active", true);
       if (servicesData) setServices(servicesData);
+      setPricingRules(await loadPricingRules(supabase));
+      setLoyaltyTiers((await loadLoyaltyProgram(supabase)).tiers);
       const { data: productsData } = await supabase.from("products").select("id, item_name, unit_price, quantity, image_url, reorder_level").eq("is_active", true).order("item_name");
       if (productsData) {
         setProducts(productsData.map((p: any) => ({ id: p.id, item_name: p.item_name, unit_price: p.unit_price, quantity_in_stock: p.quantity, image_url: p.image_url, reorder_level: p.reorder_level })));
@@ -60,6 +74,29 @@ export function usePOSState() {
     loadInitialData();
   }, []);
 
+  // Zone-priced delivery fee for the pinned address
+  useEffect(() => {
+    if (deliveryType !== "delivery" || deliveryLat === null || deliveryLng === null) {
+      setDeliveryFeeQuote(null);
+      return;
+    }
+    const loadQuote = async () => {
+      try {
+        const res = await fetch("/api/maps/delivery-fee", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ lat: deliveryLat, lng: deliveryLng }),
+        });
+        const body = await res.json();
+        setDeliveryFeeQuote(res.ok && body.success ? body.data : null);
+      } catch (err) {
+        console.error("[POS] Failed to quote delivery fee:", err);
+        setDeliveryFeeQuote(null);
+      }
+    };
+    loadQuote();
+  }, [deliveryType, deliveryLat, deliveryLng]);
+
   useEffect(() => {
     if (!customerSearch.trim()) { setCustomerSuggestions([]); return; }
     const timer = setTimeout(async () => {
@@ -79,16 +116,16 @@ export function usePOSState() {
   const updateActiveBasketWeight = useCallback((weight: number) => {
     const updated = [...baskets];
     updated[activeBasketIndex].weight_kg = weight;
-    if (weight > 8) {
-      const overflow = weight - 8;
-      updated[activeBasketIndex].weight_kg = 8;
+    if (weight > pricingRules.basket_weight_max) {
+      const overflow = weight - pricingRules.basket_weight_max;
+      updated[activeBasketIndex].weight_kg = pricingRules.basket_weight_max;
       const newBasket = createNewBasket(Math.max(...updated.map((b) => b.basket_number)) + 1);
       newBasket.weight_kg = overflow;
       updated.push(newBasket);
       setActiveBasketIndex(updated.length - 1);
     }
     setBaskets(updated);
-  }, [activeBasketIndex, baskets]);
+  }, [activeBasketIndex, baskets, pricingRules]);
 
   const updateActiveBasketNotes = useCallback((notes: string) => {
     const updated = [...baskets];
@@ -155,48 +192,46 @@ export function usePOSState() {
       dry: b.services.dry,
       additional_dry_time_minutes: b.services.additional_dry_time_minutes,
     })));
-    return buildOrderBreakdown(baskets, items, serviceType === "staff_service", deliveryType === "delivery", deliveryFeeOverride, services, products);
-  }, [baskets, selectedProducts, serviceType, deliveryType, deliveryFeeOverride, services, products]);
+    const loyaltyTier = customer && loyaltyDiscountTier ? loyaltyTiers.find((t) => t.id === loyaltyDiscountTier) || null : null;
+    const deliveryFee = deliveryFeeOverride ?? deliveryFeeQuote?.fee ?? null;
+    return buildOrderBreakdown(baskets, items, serviceType === "staff_service", deliveryType === "delivery", deliveryFee, services, products, pricingRules, loyaltyTier);
+  }, [baskets, selectedProducts, serviceType, deliveryType, deliveryFeeOverride, deliveryFeeQuote, services, products, pricingRules, customer, loyaltyDiscountTier, loyaltyTiers]);
+
+  // What is paid now: cash, GCash or both; GCash alone covers the whole
+  // total unless only a down-payment is taken
+  const calculateDropOffPayment = useCallback(() => {
+    const total = calculateOrderTotal().summary.total;
+    const usesCash = paymentMethod === "cash" || splitPayment;
+    const usesGcash = paymentMethod === "gcash" || splitPayment;
+    const gcashInFull = paymentMethod === "gcash" && !splitPayment && !payLater;
+    return buildDropOffPayment(
+      {
+        cash_tendered: usesCash ? amountPaid : 0,
+        gcash_amount: usesGcash ? (gcashInFull ? total : gcashAmount) : 0,
+        gcash_reference: gcashReference,
+      },
+      total
+    );
+  }, [paymentMethod, splitPayment, payLater, amountPaid, gcashAmount, gcashReference, calculateOrderTotal]);
 
   const isPaymentValid = useCallback((): boolean => {
-    if (paymentMethod === "cash") {
-      const breakdown = calculateOrderTotal();
-      let discountPercent = 0;
-      if (loyaltyDiscountTier === 'tier1') discountPercent = 0.05;
-      if (loyaltyDiscountTier === 'tier2') discountPercent = 0.15;
-      const totalAmount = customer && loyaltyDiscountTier ? breakdown.summary.total * (1 - discountPercent) : breakdown.summary.total;
-      return isAmountSufficient(amountPaid, totalAmount);
-    }
-    if (paymentMethod === "gcash") return gcashReference.trim().length > 0;
-    return false;
-  }, [paymentMethod, amountPaid, gcashReference, calculateOrderTotal, loyaltyDiscountTier, customer]);
+    const payment = calculateDropOffPayment();
+    const gcashTender = payment.tenders.find((t) => t.method === "gcash");
+    if (gcashTender && !gcashTender.reference) return false;
+    return payLater || payment.balance <= 0;
+  }, [calculateDropOffPayment, payLater]);
 
   const createOrder = useCallback(async () => {
     setIsProcessing(true);
     try {
-      let breakdown = calculateOrderTotal();
+      const breakdown = calculateOrderTotal();
+      const payment = calculateDropOffPayment();
       console.log("[POS CREATE] Breakdown baskets:", breakdown.baskets.map(b => ({
         number: b.basket_number,
         additional_dry_time_minutes: b.services.additional_dry_time_minutes,
         subtotal: b.subtotal,
       })));
-      let discountPercent = 0;
-      
-      // Apply loyalty discount tier if selected
-      if (loyaltyDiscountTier && customer) {
-        if (loyaltyDiscountTier === 'tier1') discountPercent = 0.05;
-        if (loyaltyDiscountTier === 'tier2') discountPercent = 0.15;
-        const discountAmount = breakdown.summary.total * discountPercent;
-        breakdown = {
-          ...breakdown,
-          summary: {
-            ...breakdown.summary,
-            loyalty_discount: discountAmount,
-            total: breakdown.summary.total - discountAmount,
-          },
-        };
-      }
-      
+
       const handling: OrderHandling = {
         service_type: serviceType,
         handling_type: deliveryType,
@@ -204,13 +239,15 @@ export function usePOSState() {
         delivery_lng: deliveryLng,
         delivery_lat: deliveryLat,
         delivery_fee_override: deliveryFeeOverride,
+        delivery_fee_override_reason: deliveryFeeOverride !== null ? deliveryFeeOverrideReason.trim() || undefined : undefined,
         special_instructions: specialInstructions,
         payment_method: paymentMethod,
         amount_paid: amountPaid,
-        gcash_reference: paymentMethod === "gcash" ? gcashReference : undefined,
+        gcash_reference: paymentMethod === "gcash" || splitPayment ? gcashReference : undefined,
         scheduled: scheduled,
         scheduled_date: scheduled ? scheduledDate : undefined,
         scheduled_time: scheduled ? scheduledTime : undefined,
+        slot_id: scheduled && slotId ? slotId : undefined,
       };
 
       console.log("[POS CREATE] Sending order with baskets:", breakdown.baskets.map(b => ({
@@ -230,8 +267,9 @@ export function usePOSState() {
         },
         breakdown: breakdown,
         handling: handling,
+        payments: payment.tenders,
         loyalty: {
-          discount_tier: loyaltyDiscountTier,
+          discount_tier: breakdown.summary.loyalty_tier_id || null,
         },
       };
 
@@ -247,6 +285,11 @@ export function usePOSState() {
 
       if (!response.ok) {
         const errorData = await response.json();
+        if (errorData.diff?.length) {
+          // Server pricing differs from what this page loaded (e.g. prices were edited)
+          console.warn("[POS CREATE] Price mismatch:", errorData.diff);
+          throw new Error(`${errorData.error}. Prices have changed, reload the POS and try again.`);
+        }
         throw new Error(errorData.error || `Failed to create order: ${response.statusText}`);
       }
 
@@ -273,9 +316,11 @@ export function usePOSState() {
         baskets: breakdown.baskets || [],
         total: breakdown.summary.total,
         timestamp: new Date().toISOString(),
-        paymentMethod: paymentMethod.toUpperCase(),
+        paymentMethod: payment.tenders.map((t) => t.method.toUpperCase()).join(" + ") || "UNPAID",
         summary: breakdown.summary,
-        change: paymentMethod === "cash" ? amountPaid - breakdown.summary.total : undefined,
+        change: payment.change > 0 ? payment.change : undefined,
+        payments: payment.tenders,
+        balanceDue: payment.balance > 0 ? payment.balance : undefined,
       };
 
       // Format receipt for display
@@ -289,7 +334,7 @@ export function usePOSState() {
     } finally {
       setIsProcessing(false);
     }
-  }, [calculateOrderTotal, serviceType, deliveryType, deliveryAddress, specialInstructions, paymentMethod, amountPaid, gcashReference, customer, loyaltyDiscountTier, scheduled, scheduledDate, scheduledTime])
+  }, [calculateOrderTotal, calculateDropOffPayment, serviceType, deliveryType, deliveryAddress, specialInstructions, paymentMethod, splitPayment, amountPaid, gcashReference, customer, scheduled, scheduledDate, scheduledTime, slotId, deliveryFeeOverride, deliveryFeeOverrideReason])
 
   const resetOrder = useCallback(() => {
     setStep(0);
@@ -304,10 +349,19 @@ export function usePOSState() {
     setDeliveryLng(null);
     setDeliveryLat(null);
     setDeliveryFeeOverride(null);
+    setDeliveryFeeOverrideReason("");
+    setDeliveryFeeQuote(null);
     setSpecialInstructions("");
+    setScheduled(false);
+    setScheduledDate("");
+    setScheduledTime("");
+    setSlotId("");
     setPaymentMethod("cash");
     setAmountPaid(0);
     setGcashReference("");
+    setSplitPayment(false);
+    setGcashAmount(0);
+    setPayLater(false);
     setLoyaltyDiscountTier(null);
   }, []);
 
@@ -316,11 +370,12 @@ export function usePOSState() {
     updateActiveBasketService, updateActiveBasketWeight, updateActiveBasketNotes, addNewBasket, deleteBasket,
     products, loadingProducts, selectedProducts, addProductToOrder, removeProductFromOrder, setProductQuantity,
     customer, setCustomer, customerSearch, setCustomerSearch, customerSuggestions, selectCustomer, clearCustomer, showCustomerForm, setShowCustomerForm, newCustomerForm, setNewCustomerForm, createNewCustomer,
-    deliveryType, setDeliveryType, deliveryAddress, setDeliveryAddress, deliveryLng, setDeliveryLng, deliveryLat, setDeliveryLat, deliveryFeeOverride, setDeliveryFeeOverride, specialInstructions, setSpecialInstructions,
-    scheduled, setScheduled, scheduledDate, setScheduledDate, scheduledTime, setScheduledTime,
+    deliveryType, setDeliveryType, deliveryAddress, setDeliveryAddress, deliveryLng, setDeliveryLng, deliveryLat, setDeliveryLat, deliveryFeeOverride, setDeliveryFeeOverride, deliveryFeeOverrideReason, setDeliveryFeeOverrideReason, deliveryFeeQuote, specialInstructions, setSpecialInstructions,
+    scheduled, setScheduled, scheduledDate, setScheduledDate, scheduledTime, setScheduledTime, slotId, setSlotId,
     paymentMethod, setPaymentMethod, amountPaid, setAmountPaid, gcashReference, setGcashReference,
-    loyaltyDiscountTier, setLoyaltyDiscountTier,
+    splitPayment, setSplitPayment, gcashAmount, setGcashAmount, payLater, setPayLater, calculateDropOffPayment,
+    loyaltyTiers, loyaltyDiscountTier, setLoyaltyDiscountTier,
     calculateOrderTotal, isPaymentValid, createOrder, resetOrder, isProcessing,
-    showReceiptModal, setShowReceiptModal, lastOrderId, receiptContent, services,
+    showReceiptModal, setShowReceiptModal, lastOrderId, receiptContent, services, pricingRules,
   };
 }
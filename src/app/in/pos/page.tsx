@@ -7,6 +7,11 @@ import {
   LocationCoords,
 } from "../../components/LocationPicker";
 import ReceiptModal from "./components/receiptModal";
+import { ExtraDryTier } from "./logic/posTypes";
+import { calculateLoyaltyDiscount, formatTaxRate } from "./logic/posHelpers";
+import { getRedeemableTiers } from "@/src/app/utils/loyaltyProgram";
+import { formatSlotLabel, formatSlotTime, SlotAvailability } from "@/src/app/utils/deliverySlots";
+import { DeliveryFeeQuote } from "@/src/app/utils/deliveryZones";
 
 /**
  * POS Page - 6-Step Clean Order Workflow
@@ -48,7 +53,9 @@ function Step1ServiceType({ pos }: { pos: any }) {
         >
           <div className="text-6xl mb-4">👥</div>
           <div className="font-bold text-xl text-slate-900">Staff Service</div>
-          <div className="text-sm text-slate-600 mt-2">+₱40.00 fee</div>
+          <div className="text-sm text-slate-600 mt-2">
+            +₱{pos.pricingRules.staff_service_fee.toFixed(2)} fee
+          </div>
         </button>
       </div>
     </div>
@@ -76,14 +83,9 @@ function Step2Baskets({ pos }: { pos: any }) {
     };
   };
 
-  // Extra dry time pricing tiers (hardcoded)
-  const EXTRA_DRY_TIERS = [
-    { minutes: 8, price: 15 },
-    { minutes: 16, price: 30 },
-    { minutes: 24, price: 45 },
-  ];
+  // Extra dry time pricing tiers (from pricing rules)
+  const EXTRA_DRY_TIERS: ExtraDryTier[] = pos.pricingRules.extra_dry_tiers;
   const getExtraDryPrice = (mins: number) => EXTRA_DRY_TIERS.find(t => t.minutes === mins)?.price || 0;
-  const maxExtraDryMinutes = EXTRA_DRY_TIERS[EXTRA_DRY_TIERS.length - 1].minutes; // 24
 
   if (pos.baskets.length === 0) {
     return (
@@ -122,7 +124,7 @@ function Step2Baskets({ pos }: { pos: any }) {
         <h2 className="text-2xl font-bold text-slate-900">Configure Basket</h2>
         <div className="px-6 py-3 bg-red-50 border-2 border-red-300 rounded-lg">
           <div className="text-lg font-bold text-red-900">
-            {activeBasket.services?.heavy_fabrics ? "⚠️ 5kg" : "8kg"} per basket
+            {activeBasket.services?.heavy_fabrics ? "⚠️ 5kg" : `${pos.pricingRules.basket_weight_max}kg`} per basket
             MAX
           </div>
         </div>
@@ -322,7 +324,10 @@ function Step2Baskets({ pos }: { pos: any }) {
                           const curr =
                             activeBasket.services?.iron_weight_kg || 0;
                           if (curr > 0) {
-                            const newVal = curr === 2 ? 0 : curr - 1;
+                            const newVal =
+                              curr === pos.pricingRules.iron_weight_min
+                                ? 0
+                                : curr - 1;
                             pos.updateActiveBasketService?.(
                               "iron_weight_kg",
                               newVal,
@@ -337,8 +342,11 @@ function Step2Baskets({ pos }: { pos: any }) {
                         onClick={() => {
                           const curr =
                             activeBasket.services?.iron_weight_kg || 0;
-                          if (curr < 8) {
-                            const newVal = curr === 0 ? 2 : curr + 1;
+                          if (curr < pos.pricingRules.iron_weight_max) {
+                            const newVal =
+                              curr === 0
+                                ? pos.pricingRules.iron_weight_min
+                                : curr + 1;
                             pos.updateActiveBasketService?.(
                               "iron_weight_kg",
                               newVal,
@@ -927,6 +935,33 @@ function Step5Handling({
   setShowLocationPicker: (show: boolean) => void;
 }) {
   const addressInputRef = React.useRef<HTMLInputElement>(null);
+  const [slots, setSlots] = useState<SlotAvailability[]>([]);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+
+  // Time slots (with remaining capacity) for the chosen date
+  useEffect(() => {
+    if (!pos.scheduled || !pos.scheduledDate) {
+      setSlots([]);
+      return;
+    }
+
+    const loadSlots = async () => {
+      setLoadingSlots(true);
+      try {
+        const res = await fetch(`/api/slots/availability?date=${pos.scheduledDate}`);
+        const body = await res.json();
+        setSlots(res.ok && body.success ? body.data : []);
+      } catch (err) {
+        console.error("Failed to load time slots:", err);
+        setSlots([]);
+      } finally {
+        setLoadingSlots(false);
+      }
+    };
+    loadSlots();
+  }, [pos.scheduled, pos.scheduledDate]);
+
+  const blackoutReason = slots.find((s) => s.blackout_reason)?.blackout_reason;
 
   // Setup Places Autocomplete on address field
   React.useEffect(() => {
@@ -969,15 +1004,16 @@ function Step5Handling({
     });
   }, [pos, pos.deliveryLng, pos.deliveryLat]);
 
-  // Get delivery fee from services table
-  const getDeliveryFeeDefault = () => {
-    const deliveryService = pos.services.find(
-      (s: any) => s.service_type === "delivery",
-    );
-    return deliveryService?.base_price || 50;
-  };
-
-  const deliveryFeeDefault = getDeliveryFeeDefault();
+  // Delivery fee default and minimum come from pricing rules; a pinned
+  // address is priced from the delivery zones
+  const deliveryFeeDefault = pos.pricingRules.delivery_fee_default;
+  const deliveryFeeMin = pos.pricingRules.delivery_fee_min;
+  const deliveryFeeQuote: DeliveryFeeQuote | null = pos.deliveryFeeQuote;
+  const computedDeliveryFee = deliveryFeeQuote?.fee ?? deliveryFeeDefault;
+  const deliveryFee = pos.deliveryFeeOverride ?? computedDeliveryFee;
+  const isFeeOverridden =
+    pos.deliveryFeeOverride !== null &&
+    (!deliveryFeeQuote || pos.deliveryFeeOverride !== deliveryFeeQuote.fee);
 
   return (
     <div className="space-y-4 w-full flex flex-col items-center">
@@ -1008,7 +1044,7 @@ function Step5Handling({
           <div className="text-3xl mb-2">🚚</div>
           <div className="font-bold text-sm">Deliver to customer</div>
           <div className="text-xs mt-1">
-            +₱{(pos.deliveryFeeOverride || deliveryFeeDefault).toFixed(2)}
+            +₱{deliveryFee.toFixed(2)}
           </div>
         </button>
       </div>
@@ -1039,24 +1075,59 @@ function Step5Handling({
               {pos.deliveryLng.toFixed(6)}
             </div>
           )}
+          {deliveryFeeQuote && (
+            <div
+              className={`text-xs font-medium ${
+                deliveryFeeQuote.out_of_area ? "text-red-600" : "text-slate-600"
+              }`}
+            >
+              {deliveryFeeQuote.out_of_area
+                ? `Outside the delivery zones (${deliveryFeeQuote.distance_km.toFixed(2)} km)`
+                : `${deliveryFeeQuote.zone_name} • ${deliveryFeeQuote.distance_km.toFixed(2)} km${
+                    deliveryFeeQuote.distance_source === "estimate" ? " (est.)" : ""
+                  } • ₱${computedDeliveryFee.toFixed(2)}`}
+            </div>
+          )}
           <div className="space-y-1">
             <label className="text-xs font-semibold text-slate-700">
-              Delivery Fee (minimum ₱{deliveryFeeDefault.toFixed(2)})
+              Delivery Fee (minimum ₱{deliveryFeeMin.toFixed(2)})
             </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                inputMode="decimal"
+                placeholder="Fee"
+                value={deliveryFee.toFixed(2)}
+                onChange={(e) => {
+                  const val = parseFloat(e.target.value) || computedDeliveryFee;
+                  // Enforce minimum delivery fee
+                  const finalVal = Math.max(val, deliveryFeeMin);
+                  pos.setDeliveryFeeOverride(finalVal);
+                }}
+                className="flex-1 border-2 border-slate-300 rounded-lg px-4 py-3 text-sm"
+              />
+              {pos.deliveryFeeOverride !== null && (
+                <button
+                  onClick={() => {
+                    pos.setDeliveryFeeOverride(null);
+                    pos.setDeliveryFeeOverrideReason("");
+                  }}
+                  className="px-3 py-2 border-2 border-slate-300 rounded-lg text-xs font-semibold hover:bg-slate-100 transition"
+                >
+                  Use computed
+                </button>
+              )}
+            </div>
+          </div>
+          {isFeeOverridden && deliveryFeeQuote && (
             <input
               type="text"
-              inputMode="decimal"
-              placeholder="Fee"
-              value={(pos.deliveryFeeOverride || deliveryFeeDefault).toFixed(2)}
-              onChange={(e) => {
-                const val = parseFloat(e.target.value) || deliveryFeeDefault;
-                // Enforce minimum delivery fee
-                const finalVal = Math.max(val, deliveryFeeDefault);
-                pos.setDeliveryFeeOverride(finalVal);
-              }}
-              className="w-full border-2 border-slate-300 rounded-lg px-4 py-3 text-sm"
+              placeholder="Reason for changing the delivery fee (required)"
+              value={pos.deliveryFeeOverrideReason}
+              onChange={(e) => pos.setDeliveryFeeOverrideReason(e.target.value)}
+              className="w-full border-2 border-amber-400 rounded-lg px-4 py-3 text-sm"
             />
-          </div>
+          )}
         </div>
       )}
 
@@ -1093,7 +1164,11 @@ function Step5Handling({
                 <input
                   type="date"
                   value={pos.scheduledDate}
-                  onChange={(e) => pos.setScheduledDate(e.target.value)}
+                  onChange={(e) => {
+                    pos.setScheduledDate(e.target.value);
+                    pos.setSlotId("");
+                    pos.setScheduledTime("");
+                  }}
                   min={new Date().toISOString().split("T")[0]}
                   max={
                     new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
@@ -1104,27 +1179,53 @@ function Step5Handling({
                 />
               </div>
 
-              {/* Time Picker */}
-              <div className="space-y-1">
-                <label className="text-xs font-semibold text-slate-700">
-                  Time (11:00 AM - 3:00 PM)
-                </label>
-                <select
-                  value={pos.scheduledTime}
-                  onChange={(e) => pos.setScheduledTime(e.target.value)}
-                  className="w-full border-2 border-blue-300 rounded-lg px-4 py-3 text-sm"
-                >
-                  <option value="11:00">11:00 AM</option>
-                  <option value="11:30">11:30 AM</option>
-                  <option value="12:00">12:00 PM</option>
-                  <option value="12:30">12:30 PM</option>
-                  <option value="13:00">1:00 PM</option>
-                  <option value="13:30">1:30 PM</option>
-                  <option value="14:00">2:00 PM</option>
-                  <option value="14:30">2:30 PM</option>
-                  <option value="15:00">3:00 PM</option>
-                </select>
-              </div>
+              {/* Time Slot Picker */}
+              {pos.scheduledDate && (
+                <div className="space-y-1">
+                  <label className="text-xs font-semibold text-slate-700">
+                    Time Slot
+                  </label>
+                  {loadingSlots ? (
+                    <div className="text-xs text-slate-500">Loading slots...</div>
+                  ) : blackoutReason ? (
+                    <div className="text-xs text-red-600">
+                      No deliveries on this date: {blackoutReason}
+                    </div>
+                  ) : slots.length === 0 ? (
+                    <div className="text-xs text-red-600">
+                      No time slots offered on this date
+                    </div>
+                  ) : (
+                    <div className="grid grid-cols-2 gap-2">
+                      {slots.map((slot) => {
+                        const full = slot.remaining <= 0;
+                        const selected = pos.slotId === slot.slot_id;
+                        return (
+                          <button
+                            key={slot.slot_id}
+                            type="button"
+                            disabled={full}
+                            onClick={() => {
+                              pos.setSlotId(slot.slot_id);
+                              pos.setScheduledTime(slot.start_time);
+                            }}
+                            className={`border-2 rounded-lg px-3 py-2 text-left text-xs transition ${
+                              selected
+                                ? "border-blue-600 bg-blue-100"
+                                : full
+                                  ? "border-slate-200 bg-slate-100 text-slate-400 cursor-not-allowed"
+                                  : "border-blue-300 bg-white hover:bg-blue-50"
+                            }`}
+                          >
+                            <div className="font-semibold">{formatSlotLabel(slot)}</div>
+                            <div>{full ? "Full" : `${slot.remaining} of ${slot.capacity} left`}</div>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -1194,12 +1295,8 @@ function OrderSummary({
     return plasticBagProduct?.unit_price || 0.5; // Default to 0.50 if not found
   };
 
-  // Extra dry time pricing tiers (hardcoded)
-  const EXTRA_DRY_TIERS = [
-    { minutes: 8, price: 15 },
-    { minutes: 16, price: 30 },
-    { minutes: 24, price: 45 },
-  ];
+  // Extra dry time pricing tiers (from pricing rules)
+  const EXTRA_DRY_TIERS: ExtraDryTier[] = pos.pricingRules.extra_dry_tiers;
   const getExtraDryPrice = (mins: number) => EXTRA_DRY_TIERS.find(t => t.minutes === mins)?.price || 0;
 
   return (
@@ -1353,7 +1450,7 @@ function OrderSummary({
                 month: "short",
                 day: "numeric",
               })}{" "}
-              at {pos.scheduledTime}
+              {pos.scheduledTime ? `at ${formatSlotTime(pos.scheduledTime)}` : "(choose a time slot)"}
             </div>
           </div>
         )}
@@ -1386,7 +1483,7 @@ function OrderSummary({
           </div>
         )}
         <div className="flex justify-between font-semibold text-slate-900">
-          <span>VAT (12%)</span>
+          <span>VAT ({formatTaxRate(pos.pricingRules)})</span>
           <span>₱{breakdown.summary.vat_amount.toFixed(2)}</span>
         </div>
 
@@ -1397,47 +1494,28 @@ function OrderSummary({
               💎 Loyalty Points: {pos.customer.loyalty_points || 0} pts
             </div>
 
-            {/* Tier 1: 10 points for 5% discount */}
-            {(pos.customer.loyalty_points || 0) >= 10 && (
-              <label className="flex items-start gap-2 cursor-pointer p-1.5 rounded hover:bg-pink-100 border border-pink-200">
-                <input
-                  type="radio"
-                  name="loyaltyTier"
-                  checked={pos.loyaltyDiscountTier === "tier1"}
-                  onChange={() => pos.setLoyaltyDiscountTier("tier1")}
-                  className="w-4 h-4 accent-[#c41d7f] rounded mt-0.5 shrink-0"
-                />
-                <div className="flex-1 text-xs">
-                  <div className="font-semibold text-slate-900">
-                    10 pts → 5% OFF
-                  </div>
-                  <div className="text-slate-600">
-                    Save ₱{(breakdown.summary.total * 0.05).toFixed(2)}
-                  </div>
-                </div>
-              </label>
-            )}
-
-            {/* Tier 2: 20 points for 15% discount */}
-            {(pos.customer.loyalty_points || 0) >= 20 && (
-              <label className="flex items-start gap-2 cursor-pointer p-1.5 rounded hover:bg-pink-100 border border-pink-200">
+            {getRedeemableTiers(pos.customer.loyalty_points || 0, pos.loyaltyTiers).map((tier) => (
+              <label
+                key={tier.id}
+                className="flex items-start gap-2 cursor-pointer p-1.5 rounded hover:bg-pink-100 border border-pink-200"
+              >
                 <input
                   type="radio"
                   name="loyaltyTier"
-                  checked={pos.loyaltyDiscountTier === "tier2"}
-                  onChange={() => pos.setLoyaltyDiscountTier("tier2")}
+                  checked={pos.loyaltyDiscountTier === tier.id}
+                  onChange={() => pos.setLoyaltyDiscountTier(tier.id)}
                   className="w-4 h-4 accent-[#c41d7f] rounded mt-0.5 shrink-0"
                 />
                 <div className="flex-1 text-xs">
                   <div className="font-semibold text-slate-900">
-                    20 pts → 15% OFF
+                    {tier.points_required} pts → {tier.discount_percent}% OFF
                   </div>
                   <div className="text-slate-600">
-                    Save ₱{(breakdown.summary.total * 0.15).toFixed(2)}
+                    Save ₱{calculateLoyaltyDiscount(breakdown.summary.subtotal_before_vat, tier).toFixed(2)}
                   </div>
                 </div>
               </label>
-            )}
+            ))}
 
             {/* No discount option */}
             <label className="flex items-center gap-2 cursor-pointer p-1.5 rounded hover:bg-pink-100 border border-pink-200">
@@ -1455,34 +1533,16 @@ function OrderSummary({
           </div>
         )}
 
-        {pos.loyaltyDiscountTier && pos.customer && (
+        {breakdown.summary.loyalty_discount > 0 && (
           <div className="flex justify-between text-amber-700 font-semibold text-sm">
             <span>Loyalty Discount</span>
-            <span>
-              -₱
-              {(pos.loyaltyDiscountTier === "tier1"
-                ? breakdown.summary.total * 0.05
-                : breakdown.summary.total * 0.15
-              ).toFixed(2)}
-            </span>
+            <span>-₱{breakdown.summary.loyalty_discount.toFixed(2)}</span>
           </div>
         )}
 
         <div className="flex justify-between font-bold text-base text-amber-700 bg-slate-100 rounded px-2 py-1">
           <span>TOTAL</span>
-          <span>
-            ₱
-            {(() => {
-              let discountPercent = 0;
-              if (pos.loyaltyDiscountTier === "tier1") discountPercent = 0.05;
-              if (pos.loyaltyDiscountTier === "tier2") discountPercent = 0.15;
-              const totalAmount =
-                pos.customer && pos.loyaltyDiscountTier
-                  ? breakdown.summary.total * (1 - discountPercent)
-                  : breakdown.summary.total;
-              return totalAmount.toFixed(2);
-            })()}
-          </span>
+          <span>₱{breakdown.summary.total.toFixed(2)}</span>
         </div>
 
         <div className="text-xs font-bold uppercase tracking-wider text-slate-500 pt-2">
@@ -1493,8 +1553,11 @@ function OrderSummary({
             <input
               type="radio"
               name="payment"
-              checked={pos.paymentMethod === "cash"}
-              onChange={() => pos.setPaymentMethod("cash")}
+              checked={pos.paymentMethod === "cash" && !pos.splitPayment}
+              onChange={() => {
+                pos.setPaymentMethod("cash");
+                pos.setSplitPayment(false);
+              }}
               className="w-4 h-4 accent-[#c41d7f]"
             />
             <span className="text-sm font-semibold text-slate-900">
@@ -1505,14 +1568,43 @@ function OrderSummary({
             <input
               type="radio"
               name="payment"
-              checked={pos.paymentMethod === "gcash"}
-              onChange={() => pos.setPaymentMethod("gcash")}
+              checked={pos.paymentMethod === "gcash" && !pos.splitPayment}
+              onChange={() => {
+                pos.setPaymentMethod("gcash");
+                pos.setSplitPayment(false);
+              }}
               className="w-4 h-4 accent-[#c41d7f]"
             />
             <span className="text-sm font-semibold text-slate-900">
               💳 GCash
             </span>
           </label>
+          <label className="flex items-center gap-3 cursor-pointer">
+            <input
+              type="radio"
+              name="payment"
+              checked={pos.splitPayment}
+              onChange={() => {
+                pos.setPaymentMethod("cash");
+                pos.setSplitPayment(true);
+              }}
+              className="w-4 h-4 accent-[#c41d7f]"
+            />
+            <span className="text-sm font-semibold text-slate-900">
+              💵 + 💳 Cash + GCash
+            </span>
+          </label>
+          <label className="flex items-center gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={pos.payLater}
+              onChange={(e) => pos.setPayLater(e.target.checked)}
+              className="w-4 h-4 accent-[#c41d7f]"
+            />
+            <span className="text-sm text-slate-700">
+              Down-payment only (balance due at pickup)
+            </span>
+          </label>
         </div>
 
         {pos.paymentMethod === "cash" && (
@@ -1539,15 +1631,8 @@ function OrderSummary({
             />
             {pos.amountPaid > 0 &&
               (() => {
-                let discountPercent = 0;
-                if (pos.loyaltyDiscountTier === "tier1") discountPercent = 0.05;
-                if (pos.loyaltyDiscountTier === "tier2") discountPercent = 0.15;
-                const totalAmount =
-                  pos.customer && pos.loyaltyDiscountTier
-                    ? breakdown.summary.total * (1 - discountPercent)
-                    : breakdown.summary.total;
-                const change = Math.max(0, pos.amountPaid - totalAmount);
-                return pos.amountPaid >= totalAmount && change > 0 ? (
+                const change = pos.calculateDropOffPayment().change;
+                return change > 0 ? (
                   <div className="p-2 bg-slate-100 rounded text-xs font-semibold text-slate-900">
                     Change: ₱{change.toFixed(2)}
                   </div>
@@ -1556,8 +1641,30 @@ function OrderSummary({
           </div>
         )}
 
-        {pos.paymentMethod === "gcash" && (
+        {(pos.paymentMethod === "gcash" || pos.splitPayment) && (
           <div className="space-y-2">
+            {(pos.splitPayment || pos.payLater) && (
+              <>
+                <label className="text-xs font-semibold text-slate-700">
+                  GCash Amount
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  placeholder="0.00"
+                  value={pos.gcashAmount || ""}
+                  onChange={(e) => {
+                    const val = parseFloat(e.target.value);
+                    if (!isNaN(val) && val >= 0) {
+                      pos.setGcashAmount(val);
+                    } else if (e.target.value === "") {
+                      pos.setGcashAmount(0);
+                    }
+                  }}
+                  className="w-full border-2 border-slate-300 rounded px-3 py-2 text-sm"
+                />
+              </>
+            )}
             <label className="text-xs font-semibold text-slate-700">
               GCash Reference
             </label>
@@ -1576,6 +1683,23 @@ function OrderSummary({
           </div>
         )}
 
+        {pos.payLater &&
+          (() => {
+            const payment = pos.calculateDropOffPayment();
+            return (
+              <div className="p-2 bg-amber-50 border border-amber-200 rounded text-xs text-amber-800 space-y-0.5">
+                <div className="flex justify-between">
+                  <span>Paid now</span>
+                  <span>₱{payment.paid.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between font-bold">
+                  <span>Balance due at pickup</span>
+                  <span>₱{payment.balance.toFixed(2)}</span>
+                </div>
+              </div>
+            );
+          })()}
+
         {/* Keypad */}
         <div className="border-t border-slate-300 pt-3 space-y-2">
           <div className="grid grid-cols-3 gap-1.5 text-xs">
@@ -1661,10 +1785,26 @@ function OrderSummary({
           const hasProducts = Object.keys(pos.selectedProducts).length > 0;
           const hasItems = hasBasketServices || hasProducts;
 
+          // Scheduled deliveries need a booked time slot
+          const isMissingSlot =
+            pos.deliveryType === "delivery" && pos.scheduled && !pos.slotId;
+
+          // Zone-priced deliveries: out-of-area or changed fees need a reason
+          const quote: DeliveryFeeQuote | null = pos.deliveryFeeQuote;
+          const needsFeeReason =
+            pos.deliveryType === "delivery" &&
+            !!quote &&
+            (pos.deliveryFeeOverride !== null
+              ? pos.deliveryFeeOverride !== quote.fee
+              : quote.out_of_area) &&
+            !pos.deliveryFeeOverrideReason.trim();
+
           const isDisabled =
             pos.isProcessing ||
             !pos.isPaymentValid() ||
             isScheduledDeliveryPastDate ||
+            isMissingSlot ||
+            needsFeeReason ||
             !hasItems;
 
           return (
@@ -1680,7 +1820,11 @@ function OrderSummary({
               title={
                 isScheduledDeliveryPastDate
                   ? "Cannot checkout for past dates"
-                  : ""
+                  : isMissingSlot
+                    ? "Choose a time slot for the scheduled delivery"
+                    : needsFeeReason
+                      ? "Give a reason for the manual delivery fee"
+                      : ""
               }
             >
               {pos.isProcessing ? "Processing..." : "Checkout"}
@@ -2,6 +2,24 @@
 
 import { useEffect, useState, useRef } from "react";
 import { formatToPST } from "@/src/app/utils/dateUtils";
+import {
+  formatSlotLabel,
+  SlotSchedule,
+  todaySlotDate,
+} from "@/src/app/utils/deliverySlots";
+import { RoutePlan, STORE_LOCATION } from "@/src/app/utils/routePlanner";
+import type { ActiveRider } from "@/src/app/utils/rider-locations";
+
+// The parts of google.maps.Map / Marker the live map keeps hold of
+interface LiveMap {
+  panTo(position: { lat: number; lng: number }): void;
+}
+
+interface LiveMarker {
+  setPosition(position: { lat: number; lng: number }): void;
+  setTitle(title: string): void;
+  setMap(map: LiveMap | null): void;
+}
 
 interface Order {
   id: string;
@@ -19,6 +37,11 @@ interface Order {
     last_name: string;
     phone_number?: string;
   } | null;
+  assigned_rider_id: string | null;
+  assigned_rider: {
+    first_name: string;
+    last_name: string;
+  } | null;
   breakdown: {
     baskets: Array<{
       basket_number: number;
@@ -36,10 +59,26 @@ export default function RiderPage() {
   const [loading, setLoading] = useState(true);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [lastRefresh, setLastRefresh] = useState<Date | null>(null);
+  const [view, setView] = useState<"orders" | "schedule" | "route" | "live">(
+    "orders",
+  );
+  const [scheduleDate, setScheduleDate] = useState(todaySlotDate());
+  const [schedule, setSchedule] = useState<SlotSchedule[]>([]);
+  const [loadingSchedule, setLoadingSchedule] = useState(false);
+  const [routePlan, setRoutePlan] = useState<RoutePlan | null>(null);
+  const [loadingRoute, setLoadingRoute] = useState(false);
+  const [routeError, setRouteError] = useState<string | null>(null);
+  const [liveRiders, setLiveRiders] = useState<ActiveRider[]>([]);
+  const [liveError, setLiveError] = useState<string | null>(null);
   const mapRef = useRef<HTMLDivElement>(null);
+  const routeMapRef = useRef<HTMLDivElement>(null);
+  const liveMapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<any>(null);
+  const liveMapInstanceRef = useRef<LiveMap | null>(null);
+  const liveMarkersRef = useRef(new Map<string, LiveMarker>());
 
   const AUTO_REFRESH_INTERVAL = 30000; // 30 seconds
+  const LIVE_REFRESH_INTERVAL = 15000; // Riders ping every 15-30 seconds
 
   const loadOrders = async () => {
     try {
@@ -69,6 +108,214 @@ export default function RiderPage() {
     return () => clearInterval(interval);
   }, []);
 
+  // Day schedule grouped by time slot (refreshed with the order list)
+  useEffect(() => {
+    if (view !== "schedule") return;
+
+    const loadSchedule = async () => {
+      setLoadingSchedule(true);
+      try {
+        const res = await fetch(`/api/slots/schedule?date=${scheduleDate}`, {
+          credentials: "include",
+        });
+        const body = await res.json();
+        setSchedule(res.ok && body.success ? body.data : []);
+      } catch (err) {
+        console.error("Failed to load schedule:", err);
+      } finally {
+        setLoadingSchedule(false);
+      }
+    };
+    loadSchedule();
+  }, [view, scheduleDate, lastRefresh]);
+
+  // Optimized route through the day's stops (refreshed with the order list)
+  useEffect(() => {
+    if (view !== "route") return;
+
+    const loadRoute = async () => {
+      setLoadingRoute(true);
+      setRouteError(null);
+      try {
+        const res = await fetch(`/api/maps/route-plan?date=${scheduleDate}`, {
+          credentials: "include",
+        });
+        const body = await res.json();
+        if (!res.ok || !body.success) {
+          throw new Error(body.error || `Server responded ${res.status}`);
+        }
+        setRoutePlan(body.data);
+      } catch (err) {
+        setRouteError(
+          err instanceof Error ? err.message : "Failed to plan route",
+        );
+      } finally {
+        setLoadingRoute(false);
+      }
+    };
+    loadRoute();
+  }, [view, scheduleDate, lastRefresh]);
+
+  // Live rider positions, polled while the live map is open
+  useEffect(() => {
+    if (view !== "live") return;
+
+    const loadLive = async () => {
+      try {
+        const res = await fetch("/api/maps/rider-locations", {
+          credentials: "include",
+        });
+        const body = await res.json();
+        if (!res.ok || !body.success) {
+          throw new Error(body.error || `Server responded ${res.status}`);
+        }
+        setLiveRiders(body.data.riders);
+        setLiveError(null);
+      } catch (err) {
+        setLiveError(
+          err instanceof Error ? err.message : "Failed to load rider locations",
+        );
+      }
+    };
+    loadLive();
+
+    const interval = setInterval(loadLive, LIVE_REFRESH_INTERVAL);
+    const markers = liveMarkersRef.current;
+    return () => {
+      clearInterval(interval);
+      // The map's element goes away with the view
+      liveMapInstanceRef.current = null;
+      markers.clear();
+    };
+  }, [view]);
+
+  // Move the rider markers on the live map (the map is created once)
+  useEffect(() => {
+    if (view !== "live" || !liveMapRef.current) return;
+
+    const drawRiders = () => {
+      if (!liveMapInstanceRef.current) {
+        liveMapInstanceRef.current = new window.google.maps.Map(
+          liveMapRef.current,
+          {
+            zoom: 13,
+            center: STORE_LOCATION,
+            mapTypeControl: true,
+            fullscreenControl: true,
+          },
+        );
+        new window.google.maps.Marker({
+          position: STORE_LOCATION,
+          map: liveMapInstanceRef.current,
+          title: "Store",
+          icon: "http://maps.google.com/mapfiles/ms/icons/green-dot.png",
+        });
+      }
+
+      const map = liveMapInstanceRef.current;
+      const markers = liveMarkersRef.current;
+
+      for (const [staffId, marker] of markers) {
+        if (!liveRiders.some((r) => r.staff_id === staffId)) {
+          marker.setMap(null);
+          markers.delete(staffId);
+        }
+      }
+
+      for (const rider of liveRiders) {
+        const position = { lat: rider.lat, lng: rider.lng };
+        const title = `${rider.name} • ${rider.active_jobs} job${
+          rider.active_jobs !== 1 ? "s" : ""
+        } • ${formatToPST(rider.recorded_at)}`;
+        const marker = markers.get(rider.staff_id);
+        if (marker) {
+          marker.setPosition(position);
+          marker.setTitle(title);
+        } else {
+          markers.set(
+            rider.staff_id,
+            new window.google.maps.Marker({
+              position,
+              map,
+              title,
+              label: rider.name.charAt(0).toUpperCase(),
+              icon: "http://maps.google.com/mapfiles/ms/icons/blue-dot.png",
+            }),
+          );
+        }
+      }
+    };
+
+    const checkGoogleMaps = () => {
+      if (window.google && window.google.maps) {
+        drawRiders();
+      } else {
+        setTimeout(checkGoogleMaps, 100);
+      }
+    };
+
+    checkGoogleMaps();
+  }, [view, liveRiders]);
+
+  // Draw the planned route with numbered stops
+  useEffect(() => {
+    if (view !== "route" || !routePlan || !routeMapRef.current) return;
+
+    const drawRoute = () => {
+      const map = new window.google.maps.Map(routeMapRef.current, {
+        zoom: 13,
+        center: routePlan.store,
+        mapTypeControl: true,
+        fullscreenControl: true,
+      });
+
+      const bounds = new window.google.maps.LatLngBounds();
+      bounds.extend(routePlan.store);
+
+      new window.google.maps.Marker({
+        position: routePlan.store,
+        map,
+        title: "Store",
+        icon: "http://maps.google.com/mapfiles/ms/icons/green-dot.png",
+      });
+
+      for (const stop of routePlan.stops) {
+        const position = { lat: stop.lat, lng: stop.lng };
+        bounds.extend(position);
+        new window.google.maps.Marker({
+          position,
+          map,
+          label: String(stop.sequence),
+          title: `${stop.sequence}. ${stop.customer_name || "Unknown"} (${stop.leg})`,
+        });
+      }
+
+      new window.google.maps.Polyline({
+        path: [
+          routePlan.store,
+          ...routePlan.stops.map((s) => ({ lat: s.lat, lng: s.lng })),
+          routePlan.store,
+        ],
+        map,
+        strokeColor: "#2563eb",
+        strokeOpacity: 0.8,
+        strokeWeight: 3,
+      });
+
+      if (routePlan.stops.length > 0) map.fitBounds(bounds);
+    };
+
+    const checkGoogleMaps = () => {
+      if (window.google && window.google.maps) {
+        drawRoute();
+      } else {
+        setTimeout(checkGoogleMaps, 100);
+      }
+    };
+
+    checkGoogleMaps();
+  }, [view, routePlan]);
+
   // Initialize map when order is selected
   useEffect(() => {
     if (!selectedOrder || !mapRef.current) return;
@@ -167,57 +414,282 @@ export default function RiderPage() {
           </p>
         </div>
 
-        {/* Orders List */}
-        <div className="flex-1 bg-white rounded-lg shadow overflow-y-auto">
-          {loading ? (
-            <div className="p-4 text-center text-gray-500">
-              Loading orders...
-            </div>
-          ) : orders.length === 0 ? (
-            <div className="p-4 text-center text-gray-500">
-              No pending delivery orders
+        <div className="flex gap-2 mb-3">
+          <button
+            onClick={() => setView("orders")}
+            className={`px-3 py-1 rounded text-sm ${
+              view === "orders" ? "bg-blue-600 text-white" : "bg-white border"
+            }`}
+          >
+            Orders
+          </button>
+          <button
+            onClick={() => setView("schedule")}
+            className={`px-3 py-1 rounded text-sm ${
+              view === "schedule" ? "bg-blue-600 text-white" : "bg-white border"
+            }`}
+          >
+            Day Schedule
+          </button>
+          <button
+            onClick={() => setView("route")}
+            className={`px-3 py-1 rounded text-sm ${
+              view === "route" ? "bg-blue-600 text-white" : "bg-white border"
+            }`}
+          >
+            Route
+          </button>
+          <button
+            onClick={() => setView("live")}
+            className={`px-3 py-1 rounded text-sm ${
+              view === "live" ? "bg-blue-600 text-white" : "bg-white border"
+            }`}
+          >
+            Live
+          </button>
+          {(view === "schedule" || view === "route") && (
+            <input
+              type="date"
+              value={scheduleDate}
+              onChange={(e) =>
+                e.target.value && setScheduleDate(e.target.value)
+              }
+              className="ml-auto border rounded px-2 py-1 text-sm"
+            />
+          )}
+        </div>
+
+        {view === "live" ? (
+          <div className="flex-1 bg-white rounded-lg shadow overflow-y-auto">
+            <div className="px-4 py-2 bg-gray-100 text-xs text-gray-600">
+              {liveRiders.length} rider{liveRiders.length !== 1 ? "s" : ""}{" "}
+              reporting their location
             </div>
-          ) : (
-            <div className="divide-y divide-gray-200">
-              {orders.map((order) => (
-                <button
-                  key={order.id}
-                  onClick={() => setSelectedOrder(order)}
-                  className={`w-full p-4 text-left hover:bg-gray-50 transition border-l-4 ${
-                    selectedOrder?.id === order.id
-                      ? "bg-blue-50 border-blue-600"
-                      : "border-gray-200"
-                  }`}
-                >
-                  <div className="flex justify-between items-start mb-2">
-                    <div className="font-semibold text-gray-900">
-                      {customerName}
+            {liveError ? (
+              <div className="p-4 text-center text-red-600">{liveError}</div>
+            ) : liveRiders.length === 0 ? (
+              <div className="p-4 text-center text-gray-500">
+                No rider has reported a location in the last few minutes
+              </div>
+            ) : (
+              <div className="divide-y divide-gray-200">
+                {liveRiders.map((rider) => (
+                  <button
+                    key={rider.staff_id}
+                    onClick={() =>
+                      liveMapInstanceRef.current?.panTo({
+                        lat: rider.lat,
+                        lng: rider.lng,
+                      })
+                    }
+                    className="w-full p-4 text-left hover:bg-gray-50"
+                  >
+                    <div className="flex justify-between items-start mb-1">
+                      <div className="font-semibold text-gray-900">
+                        🛵 {rider.name}
+                      </div>
+                      <span className="text-xs text-gray-500">
+                        {rider.active_jobs} job
+                        {rider.active_jobs !== 1 ? "s" : ""}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Seen {formatToPST(rider.recorded_at)}
+                      {rider.speed_kmh !== null &&
+                        ` • ${Math.round(rider.speed_kmh)} km/h`}
+                      {rider.accuracy_m !== null &&
+                        ` • ±${Math.round(rider.accuracy_m)} m`}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : view === "route" ? (
+          <div className="flex-1 bg-white rounded-lg shadow overflow-y-auto">
+            {routePlan && (
+              <div className="px-4 py-2 bg-gray-100 text-xs text-gray-600">
+                {routePlan.stops.length} stop
+                {routePlan.stops.length !== 1 ? "s" : ""} •{" "}
+                {routePlan.total_km.toFixed(1)} km • ~{routePlan.total_minutes}{" "}
+                min • back by {formatToPST(routePlan.returns_at)}
+                {routePlan.source === "estimate" && (
+                  <span className="ml-1 text-gray-400">(estimated)</span>
+                )}
+              </div>
+            )}
+            {routeError ? (
+              <div className="p-4 text-center text-red-600">{routeError}</div>
+            ) : loadingRoute && !routePlan ? (
+              <div className="p-4 text-center text-gray-500">
+                Planning route...
+              </div>
+            ) : !routePlan || routePlan.stops.length === 0 ? (
+              <div className="p-4 text-center text-gray-500">
+                No stops with a pinned location on this date
+              </div>
+            ) : (
+              <div className="divide-y divide-gray-200">
+                {routePlan.stops.map((stop) => (
+                  <div key={`${stop.order_id}-${stop.leg}`} className="p-4">
+                    <div className="flex justify-between items-start mb-1">
+                      <div className="font-semibold text-gray-900">
+                        {stop.sequence}. {stop.customer_name || "Unknown"}
+                      </div>
+                      <span className="text-xs uppercase text-gray-500">
+                        {stop.leg}
+                      </span>
+                    </div>
+                    <div className="text-sm text-gray-600 mb-1">
+                      📍 {stop.address || "No address"}
+                    </div>
+                    <div className="flex justify-between text-xs text-gray-500">
+                      <span>
+                        ETA {formatToPST(stop.eta)}
+                        {stop.slot_start && ` • slot ${stop.slot_start}`}
+                      </span>
+                      <span>
+                        {stop.distance_km.toFixed(1)} km • {stop.travel_minutes}{" "}
+                        min
+                      </span>
                     </div>
-                    <span className="text-xs font-mono text-gray-500">
-                      {order.id.slice(0, 8)}...
-                    </span>
-                  </div>
-                  <div className="text-sm text-gray-600 mb-2">
-                    📍 {order.handling?.delivery_address || "No address"}
                   </div>
-                  <div className="flex justify-between items-center">
-                    <span className="text-xs text-gray-500">
-                      {formatToPST(order.created_at)}
+                ))}
+              </div>
+            )}
+          </div>
+        ) : view === "schedule" ? (
+          <div className="flex-1 bg-white rounded-lg shadow overflow-y-auto">
+            {loadingSchedule && schedule.length === 0 ? (
+              <div className="p-4 text-center text-gray-500">
+                Loading schedule...
+              </div>
+            ) : schedule.length === 0 ? (
+              <div className="p-4 text-center text-gray-500">
+                No time slots on this date
+              </div>
+            ) : (
+              schedule.map((slot) => (
+                <div key={slot.slot_id} className="border-b border-gray-200">
+                  <div className="px-4 py-2 bg-gray-100 flex justify-between items-center">
+                    <span className="font-semibold text-gray-900 text-sm">
+                      {formatSlotLabel(slot)}
                     </span>
-                    <span className="text-sm font-bold text-green-700">
-                      ₱{order.total_amount.toFixed(2)}
+                    <span className="text-xs text-gray-500">
+                      {slot.blackout_reason
+                        ? slot.blackout_reason
+                        : `${slot.booked}/${slot.capacity} booked`}
                     </span>
                   </div>
-                </button>
-              ))}
-            </div>
-          )}
-        </div>
+                  {slot.orders.length === 0 ? (
+                    <div className="px-4 py-2 text-xs text-gray-400">
+                      Nothing booked
+                    </div>
+                  ) : (
+                    slot.orders.map((entry) => {
+                      const order = orders.find((o) => o.id === entry.order_id);
+                      return (
+                        <button
+                          key={entry.booking_id}
+                          onClick={() => order && setSelectedOrder(order)}
+                          disabled={!order}
+                          className={`w-full px-4 py-2 text-left text-sm border-l-4 ${
+                            selectedOrder?.id === entry.order_id
+                              ? "bg-blue-50 border-blue-600"
+                              : "border-transparent hover:bg-gray-50"
+                          } ${order ? "" : "text-gray-400"}`}
+                        >
+                          <div className="flex justify-between">
+                            <span className="font-medium">
+                              {entry.customer_name || "Unknown"}
+                            </span>
+                            <span className="text-xs uppercase">
+                              {entry.leg} • {entry.status}
+                            </span>
+                          </div>
+                          <div className="text-xs text-gray-600">
+                            📍 {entry.address || "No address"}
+                            {entry.phone_number && ` • ${entry.phone_number}`}
+                          </div>
+                        </button>
+                      );
+                    })
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        ) : (
+          /* Orders List */
+          <div className="flex-1 bg-white rounded-lg shadow overflow-y-auto">
+            {loading ? (
+              <div className="p-4 text-center text-gray-500">
+                Loading orders...
+              </div>
+            ) : orders.length === 0 ? (
+              <div className="p-4 text-center text-gray-500">
+                No pending delivery orders
+              </div>
+            ) : (
+              <div className="divide-y divide-gray-200">
+                {orders.map((order) => (
+                  <button
+                    key={order.id}
+                    onClick={() => setSelectedOrder(order)}
+                    className={`w-full p-4 text-left hover:bg-gray-50 transition border-l-4 ${
+                      selectedOrder?.id === order.id
+                        ? "bg-blue-50 border-blue-600"
+                        : "border-gray-200"
+                    }`}
+                  >
+                    <div className="flex justify-between items-start mb-2">
+                      <div className="font-semibold text-gray-900">
+                        {customerName}
+                      </div>
+                      <span className="text-xs font-mono text-gray-500">
+                        {order.id.slice(0, 8)}...
+                      </span>
+                    </div>
+                    <div className="text-sm text-gray-600 mb-2">
+                      📍 {order.handling?.delivery_address || "No address"}
+                    </div>
+                    <div className="text-xs mb-2">
+                      {order.assigned_rider ? (
+                        <span className="text-blue-700">
+                          🛵 {order.assigned_rider.first_name}{" "}
+                          {order.assigned_rider.last_name}
+                        </span>
+                      ) : (
+                        <span className="text-gray-400">No rider assigned</span>
+                      )}
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-xs text-gray-500">
+                        {formatToPST(order.created_at)}
+                      </span>
+                      <span className="text-sm font-bold text-green-700">
+                        ₱{order.total_amount.toFixed(2)}
+                      </span>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Map and Details */}
       <div className="flex-1 flex flex-col gap-6">
-        {selectedOrder ? (
+        {view === "live" ? (
+          <div className="flex-1 bg-white rounded-lg shadow overflow-hidden">
+            <div ref={liveMapRef} className="w-full h-full" />
+          </div>
+        ) : view === "route" ? (
+          <div className="flex-1 bg-white rounded-lg shadow overflow-hidden">
+            <div ref={routeMapRef} className="w-full h-full" />
+          </div>
+        ) : selectedOrder ? (
           <>
             {/* Map */}
             <div className="flex-1 bg-white rounded-lg shadow overflow-hidden">
@@ -247,6 +719,14 @@ export default function RiderPage() {
                       {selectedOrder.handling?.delivery_address || "—"}
                     </p>
                   </div>
+                  <div className="col-span-2">
+                    <span className="text-gray-600">Assigned Rider:</span>
+                    <p className="font-medium">
+                      {selectedOrder.assigned_rider
+                        ? `${selectedOrder.assigned_rider.first_name} ${selectedOrder.assigned_rider.last_name}`
+                        : "—"}
+                    </p>
+                  </div>
                   <div>
                     <span className="text-gray-600">Baskets:</span>
                     <p className="font-medium">
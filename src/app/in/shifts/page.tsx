@@ -0,0 +1,582 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatToPST } from "@/src/app/utils/dateUtils";
+import {
+  formatCurrency,
+  generateXReportPDF,
+  generateZReportPDF,
+} from "@/src/app/utils/exportUtils";
+import {
+  CASH_MOVEMENT_LABELS,
+  CashMovementType,
+  DayReport,
+  ShiftReport,
+} from "@/src/app/utils/cashShifts";
+
+type MovementForm = { type: CashMovementType; amount: string; reason: string };
+type CloseForm = { counted_cash: string; counted_gcash: string; notes: string };
+
+const todayInManila = () =>
+  new Date().toLocaleDateString("en-CA", { timeZone: "Asia/Manila" });
+
+function varianceLabel(value: number | null) {
+  if (value === null) return "—";
+  if (value === 0) return "Balanced";
+  return `${value > 0 ? "Over" : "Short"} ${formatCurrency(Math.abs(value))}`;
+}
+
+export default function ShiftsPage() {
+  const [userName, setUserName] = useState("");
+  const [canManage, setCanManage] = useState(false);
+  const [current, setCurrent] = useState<ShiftReport | null>(null);
+  const [day, setDay] = useState<DayReport | null>(null);
+  const [dayDate, setDayDate] = useState(todayInManila());
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [movement, setMovement] = useState<MovementForm>({
+    type: "cash_in",
+    amount: "",
+    reason: "",
+  });
+  const [closing, setClosing] = useState<CloseForm | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [successMsg, setSuccessMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/auth/user")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!data) return;
+        setUserName(
+          data.firstName && data.lastName
+            ? `${data.firstName} ${data.lastName}`
+            : data.email || "",
+        );
+        setCanManage((data.permissions || []).includes("shifts.manage"));
+      })
+      .catch((err) => console.error("Failed to fetch user info:", err));
+    loadCurrent();
+  }, []);
+
+  useEffect(() => {
+    if (canManage) loadDay(dayDate);
+  }, [canManage, dayDate]);
+
+  async function loadCurrent() {
+    setLoading(true);
+    setErrorMsg(null);
+    try {
+      const res = await fetch("/api/shifts/current");
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body?.error || `Server responded ${res.status}`);
+      }
+      setCurrent(body.data);
+    } catch {
+      setErrorMsg("Failed to load your shift");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function loadDay(date: string) {
+    try {
+      const res = await fetch(`/api/shifts/dayReport?date=${date}`);
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body?.error || `Server responded ${res.status}`);
+      }
+      setDay(body.data);
+    } catch {
+      setErrorMsg("Failed to load the day's shifts");
+    }
+  }
+
+  async function post(url: string, payload: unknown) {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok)
+      throw new Error(body.error || `Server responded ${res.status}`);
+    return body;
+  }
+
+  async function run(action: () => Promise<string>) {
+    setErrorMsg(null);
+    setSuccessMsg(null);
+    setSaving(true);
+    try {
+      setSuccessMsg(await action());
+      await loadCurrent();
+      if (canManage) await loadDay(dayDate);
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function openShift() {
+    run(async () => {
+      await post("/api/shifts/open", { opening_float: openingFloat });
+      setOpeningFloat("");
+      return "Shift opened";
+    });
+  }
+
+  function recordMovement() {
+    run(async () => {
+      await post("/api/shifts/cashMovement", movement);
+      setMovement({ ...movement, amount: "", reason: "" });
+      return `${CASH_MOVEMENT_LABELS[movement.type]} recorded`;
+    });
+  }
+
+  function closeShift() {
+    if (!closing) return;
+    run(async () => {
+      const body = await post("/api/shifts/close", closing);
+      setClosing(null);
+      return `Shift closed: ${varianceLabel(Number(body.data.cash_variance))}`;
+    });
+  }
+
+  async function printXReport(shiftId: string) {
+    setErrorMsg(null);
+    try {
+      const res = await fetch(`/api/shifts/${shiftId}`);
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok)
+        throw new Error(body.error || `Server responded ${res.status}`);
+      const report: ShiftReport = body.data;
+      generateXReportPDF(report, userName).save(
+        `x_report_${report.shift.opened_at.slice(0, 10)}_${shiftId.slice(0, 8)}.pdf`,
+      );
+    } catch (err) {
+      setErrorMsg(
+        err instanceof Error ? err.message : "Failed to print report",
+      );
+    }
+  }
+
+  function printZReport() {
+    if (!day) return;
+    generateZReportPDF(day, userName).save(`z_report_${day.date}.pdf`);
+  }
+
+  const summary = current?.summary;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <div className="text-xl font-semibold">Cash Drawer</div>
+        <div className="text-sm text-gray-500">
+          Open a shift before taking payments and count the drawer when you
+          close it
+        </div>
+      </div>
+
+      {errorMsg && !closing && <div className="text-red-600">{errorMsg}</div>}
+      {successMsg && <div className="text-green-700">{successMsg}</div>}
+
+      {loading && !current ? (
+        <div>Loading...</div>
+      ) : !current ? (
+        <div className="border rounded p-4 space-y-4 max-w-md">
+          <div className="font-semibold">Open Shift</div>
+          <div className="flex flex-col">
+            <label className="text-sm">
+              Opening float (cash in the drawer)
+              <span className="text-red-600 ml-1">*</span>
+            </label>
+            <input
+              type="number"
+              step="0.01"
+              value={openingFloat}
+              onChange={(e) => setOpeningFloat(e.target.value)}
+              className="border px-2 py-1 rounded"
+            />
+          </div>
+          <div className="flex justify-end">
+            <button
+              onClick={openShift}
+              className="px-3 py-1 bg-green-600 text-white rounded"
+              disabled={saving}
+            >
+              {saving ? "Opening..." : "Open Shift"}
+            </button>
+          </div>
+        </div>
+      ) : (
+        summary && (
+          <>
+            <div className="flex justify-between items-center">
+              <div className="text-sm text-gray-600">
+                Shift opened {formatToPST(current.shift.opened_at)}
+              </div>
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => printXReport(current.shift.id)}
+                  className="px-3 py-1 border rounded"
+                >
+                  Print X Report
+                </button>
+                <button
+                  onClick={() =>
+                    setClosing({
+                      counted_cash: "",
+                      counted_gcash: "",
+                      notes: "",
+                    })
+                  }
+                  className="px-3 py-1 bg-red-600 text-white rounded"
+                >
+                  Close Shift
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <Stat
+                label="Opening float"
+                value={formatCurrency(Number(current.shift.opening_float))}
+              />
+              <Stat
+                label={`Cash sales (${summary.cash_payment_count})`}
+                value={formatCurrency(summary.cash_sales)}
+              />
+              <Stat
+                label="Cash in / out"
+                value={`${formatCurrency(summary.cash_in)} / ${formatCurrency(summary.cash_out)}`}
+              />
+              <Stat
+                label="Expected in drawer"
+                value={formatCurrency(summary.expected_cash)}
+                highlight
+              />
+              <Stat
+                label={`GCash sales (${summary.gcash.count})`}
+                value={formatCurrency(summary.gcash_sales)}
+              />
+              <Stat
+                label="GCash without reference"
+                value={String(summary.gcash.missing_reference.length)}
+                warn={summary.gcash.missing_reference.length > 0}
+              />
+              <Stat
+                label="Duplicate GCash references"
+                value={summary.gcash.duplicate_references.join(", ") || "None"}
+                warn={summary.gcash.duplicate_references.length > 0}
+              />
+              <Stat label="Orders" value={String(summary.order_count)} />
+              <Stat
+                label={`Refunds (${current.refunds.length}) cash / GCash`}
+                value={`${formatCurrency(summary.cash_refunds)} / ${formatCurrency(summary.gcash_refunds)}`}
+              />
+            </div>
+
+            <div className="border rounded p-4 space-y-3 max-w-xl">
+              <div className="font-semibold">Cash In / Out</div>
+              <div className="flex gap-3">
+                <select
+                  value={movement.type}
+                  onChange={(e) =>
+                    setMovement({
+                      ...movement,
+                      type: e.target.value as CashMovementType,
+                    })
+                  }
+                  className="border px-2 py-1 rounded"
+                >
+                  {Object.entries(CASH_MOVEMENT_LABELS).map(([key, label]) => (
+                    <option key={key} value={key}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  step="0.01"
+                  placeholder="Amount"
+                  value={movement.amount}
+                  onChange={(e) =>
+                    setMovement({ ...movement, amount: e.target.value })
+                  }
+                  className="border px-2 py-1 rounded w-32"
+                />
+                <input
+                  placeholder="Reason, e.g. change fund, supplies"
+                  value={movement.reason}
+                  onChange={(e) =>
+                    setMovement({ ...movement, reason: e.target.value })
+                  }
+                  className="border px-2 py-1 rounded flex-1"
+                />
+                <button
+                  onClick={recordMovement}
+                  className="px-3 py-1 bg-blue-600 text-white rounded"
+                  disabled={saving}
+                >
+                  Record
+                </button>
+              </div>
+
+              {current.movements.length > 0 && (
+                <table className="w-full border text-sm">
+                  <tbody>
+                    {current.movements.map((m) => (
+                      <tr key={m.id}>
+                        <td className="p-2 border">
+                          {formatToPST(m.created_at)}
+                        </td>
+                        <td className="p-2 border">
+                          {CASH_MOVEMENT_LABELS[m.type]}
+                        </td>
+                        <td className="p-2 border">{m.reason}</td>
+                        <td className="p-2 border text-right">
+                          {m.type === "cash_out" ? "-" : ""}
+                          {formatCurrency(Number(m.amount))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )
+      )}
+
+      {canManage && (
+        <div className="space-y-3">
+          <div className="flex justify-between items-center">
+            <div className="font-semibold">Shifts by Day</div>
+            <div className="flex items-center space-x-3">
+              <input
+                type="date"
+                value={dayDate}
+                onChange={(e) => setDayDate(e.target.value)}
+                className="border px-2 py-1 rounded"
+              />
+              <button
+                onClick={printZReport}
+                className="px-3 py-1 bg-blue-600 text-white rounded"
+                disabled={!day}
+              >
+                Print Z Report
+              </button>
+            </div>
+          </div>
+
+          {day && day.open_shifts > 0 && (
+            <div className="text-sm text-amber-700">
+              {day.open_shifts} shift(s) still open. Close them before printing
+              the final Z report.
+            </div>
+          )}
+
+          <table className="w-full table-fixed border text-sm">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="p-2 border">Cashier</th>
+                <th className="p-2 border">Opened</th>
+                <th className="p-2 border">Closed</th>
+                <th className="p-2 border">Expected</th>
+                <th className="p-2 border">Counted</th>
+                <th className="p-2 border">Cash Variance</th>
+                <th className="p-2 border">GCash</th>
+                <th className="p-2 border">GCash Variance</th>
+                <th className="p-2 border w-24"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {(!day || day.shifts.length === 0) && (
+                <tr>
+                  <td
+                    colSpan={9}
+                    className="p-2 border text-center text-gray-500"
+                  >
+                    No shifts on this day
+                  </td>
+                </tr>
+              )}
+              {day?.shifts.map(({ shift, summary: s }) => {
+                const closed = shift.status === "closed";
+                return (
+                  <tr key={shift.id}>
+                    <td className="p-2 border">{shift.staff_name || "—"}</td>
+                    <td className="p-2 border">
+                      {formatToPST(shift.opened_at)}
+                    </td>
+                    <td className="p-2 border">
+                      {closed ? formatToPST(shift.closed_at) : "Open"}
+                    </td>
+                    <td className="p-2 border text-right">
+                      {formatCurrency(
+                        closed ? Number(shift.expected_cash) : s.expected_cash,
+                      )}
+                    </td>
+                    <td className="p-2 border text-right">
+                      {closed
+                        ? formatCurrency(Number(shift.counted_cash))
+                        : "—"}
+                    </td>
+                    <td
+                      className={`p-2 border text-right ${
+                        closed && Number(shift.cash_variance) !== 0
+                          ? "text-red-600"
+                          : ""
+                      }`}
+                    >
+                      {closed
+                        ? varianceLabel(Number(shift.cash_variance))
+                        : "—"}
+                    </td>
+                    <td className="p-2 border text-right">
+                      {formatCurrency(
+                        closed ? Number(shift.gcash_sales) : s.gcash_sales,
+                      )}
+                    </td>
+                    <td className="p-2 border text-right">
+                      {varianceLabel(
+                        shift.gcash_variance === null
+                          ? null
+                          : Number(shift.gcash_variance),
+                      )}
+                    </td>
+                    <td className="p-2 border text-center">
+                      <button
+                        onClick={() => printXReport(shift.id)}
+                        className="text-blue-600 hover:underline"
+                      >
+                        X Report
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {closing && summary && (
+        <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+          <div className="bg-white p-6 w-[500px] rounded shadow space-y-4">
+            <div className="text-lg font-semibold">Close Shift</div>
+
+            {errorMsg && <div className="text-red-600">{errorMsg}</div>}
+
+            <div className="text-sm text-gray-600">
+              Count the cash in the drawer, including the opening float.
+            </div>
+
+            <div className="flex flex-col">
+              <label className="text-sm">
+                Counted cash<span className="text-red-600 ml-1">*</span>
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                value={closing.counted_cash}
+                onChange={(e) =>
+                  setClosing({ ...closing, counted_cash: e.target.value })
+                }
+                className="border px-2 py-1 rounded"
+              />
+              {closing.counted_cash !== "" && (
+                <div className="text-sm mt-1">
+                  Expected {formatCurrency(summary.expected_cash)} ·{" "}
+                  {varianceLabel(
+                    Math.round(
+                      (Number(closing.counted_cash) - summary.expected_cash) *
+                        100,
+                    ) / 100,
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-col">
+              <label className="text-sm">
+                GCash statement total (optional)
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                value={closing.counted_gcash}
+                onChange={(e) =>
+                  setClosing({ ...closing, counted_gcash: e.target.value })
+                }
+                className="border px-2 py-1 rounded"
+              />
+              {summary.gcash_refunds > 0 && (
+                <div className="text-sm mt-1">
+                  Expected {formatCurrency(summary.expected_gcash)} after{" "}
+                  {formatCurrency(summary.gcash_refunds)} in GCash refunds
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-col">
+              <label className="text-sm">Notes</label>
+              <textarea
+                value={closing.notes}
+                onChange={(e) =>
+                  setClosing({ ...closing, notes: e.target.value })
+                }
+                className="border px-2 py-1 rounded"
+                rows={2}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-3">
+              <button
+                onClick={() => setClosing(null)}
+                className="px-3 py-1 border rounded"
+                disabled={saving}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={closeShift}
+                className="px-3 py-1 bg-red-600 text-white rounded"
+                disabled={saving}
+              >
+                {saving ? "Closing..." : "Close Shift"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Stat({
+  label,
+  value,
+  highlight = false,
+  warn = false,
+}: {
+  label: string;
+  value: string;
+  highlight?: boolean;
+  warn?: boolean;
+}) {
+  return (
+    <div
+      className={`border rounded p-3 ${highlight ? "bg-blue-50" : ""} ${
+        warn ? "border-red-300 bg-red-50" : ""
+      }`}
+    >
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="text-lg font-semibold">{value}</div>
+    </div>
+  );
+}
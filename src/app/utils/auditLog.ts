@@ -0,0 +1,160 @@
+/**
+ * Audit trail helpers
+ * Mutating staff routes call recordAudit() after a successful change with
+ * the record before and after it; the field-level diff is stored alongside
+ * so the audit page can show exactly what changed. Writing the log never
+ * fails the request that triggered it.
+ * Works with both the browser and the server Supabase clients.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+
+export const AUDIT_ENTITY_LABELS = {
+  order: "Order",
+  product: "Product",
+  service: "Service",
+  machine: "Machine",
+  maintenance_plan: "Maintenance Plan",
+  machine_downtime: "Machine Downtime",
+  issue: "Issue",
+  pricing_rule: "Pricing Rule",
+  delivery_zone: "Delivery Zone",
+  loyalty_tier: "Loyalty Tier",
+  loyalty_settings: "Loyalty Settings",
+  time_slot: "Time Slot",
+  blackout_date: "Blackout Date",
+  rider_availability: "Rider Availability",
+  customer: "Customer",
+  staff: "Staff",
+  role: "Role",
+  cash_shift: "Cash Shift",
+  refund: "Refund",
+  payment: "Payment",
+  receipt: "Receipt",
+  notification: "Notification",
+} as const;
+
+export type AuditEntityType = keyof typeof AUDIT_ENTITY_LABELS;
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface AuditLogEntry {
+  id: string;
+  staff_id: string | null;
+  staff_name: string | null;
+  action: string;                         // "<entity>.<verb>", e.g. "order.cancel"
+  entity_type: AuditEntityType;
+  entity_id: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  changes: AuditChanges | null;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface AuditLogFilters {
+  staffId?: string;
+  entityType?: string;
+  entityId?: string;
+  from?: string;                          // YYYY-MM-DD (Manila time), inclusive
+  to?: string;                            // YYYY-MM-DD (Manila time), inclusive
+  limit?: number;
+  offset?: number;
+}
+
+// Bookkeeping columns that change on every save
+const IGNORED_FIELDS = new Set(["updated_at", "updated_by", "created_at"]);
+
+/**
+ * Fields that differ between two versions of a record
+ * A missing side counts as null, so creates and deletes list every field.
+ */
+export function diffRecords(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    const from = before?.[key] ?? null;
+    const to = after?.[key] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Write one audit entry; errors are logged, never thrown
+ */
+export async function recordAudit(
+  supabase: SupabaseClient,
+  entry: {
+    staffId: string | null;
+    action: string;
+    entityType: AuditEntityType;
+    entityId?: string | null;
+    before?: object | null;
+    after?: object | null;
+    metadata?: Record<string, unknown> | null;
+  }
+): Promise<void> {
+  try {
+    const before = (entry.before ?? null) as Record<string, unknown> | null;
+    const after = (entry.after ?? null) as Record<string, unknown> | null;
+
+    const { error } = await supabase.from("audit_log").insert({
+      staff_id: entry.staffId,
+      action: entry.action,
+      entity_type: entry.entityType,
+      entity_id: entry.entityId ?? null,
+      before,
+      after,
+      changes: before || after ? diffRecords(before, after) : null,
+      metadata: entry.metadata ?? null,
+    });
+
+    if (error) {
+      console.error(`[AUDIT] Failed to record ${entry.action}:`, error.message);
+    }
+  } catch (error) {
+    console.error(`[AUDIT] Failed to record ${entry.action}:`, error);
+  }
+}
+
+/**
+ * Newest entries first, with the acting staff member's name
+ */
+export async function loadAuditLog(
+  supabase: SupabaseClient,
+  filters: AuditLogFilters = {}
+): Promise<{ entries: AuditLogEntry[]; total: number }> {
+  const limit = filters.limit ?? 50;
+  const offset = filters.offset ?? 0;
+
+  let query = supabase
+    .from("audit_log")
+    .select("*, staff(first_name, last_name)", { count: "exact" });
+
+  if (filters.staffId) query = query.eq("staff_id", filters.staffId);
+  if (filters.entityType) query = query.eq("entity_type", filters.entityType);
+  if (filters.entityId) query = query.eq("entity_id", filters.entityId);
+  if (filters.from) query = query.gte("created_at", `${filters.from}T00:00:00+08:00`);
+  if (filters.to) query = query.lte("created_at", `${filters.to}T23:59:59.999+08:00`);
+
+  const { data, error, count } = await query
+    .order("created_at", { ascending: false })
+    .range(offset, offset + limit - 1);
+  if (error) throw error;
+
+  const entries = (data || []).map(({ staff, ...row }) => ({
+    ...row,
+    staff_name: staff ? `${staff.first_name} ${staff.last_name}` : null,
+  })) as AuditLogEntry[];
+
+  return { entries, total: count ?? entries.length };
+}
@@ -0,0 +1,356 @@
+/**
+ * Cash drawer shifts
+ * A cashier opens a shift with an opening float and closes it by counting
+ * the drawer. Sales are the payments the cashier took during the shift
+ * (payments.shift_id), so a balance collected at pickup counts in the shift
+ * that received it; cash in/out entries cover everything else that moves
+ * cash. Refunds given during the shift (refunds.shift_id) come off the
+ * expected totals; they are the only money given back, so payments on orders
+ * cancelled later stay in. The X report is the running summary of an open shift, the
+ * Z report the closed shifts of a business day (Manila time).
+ * Works with both the browser and the server Supabase clients.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+
+export const CASH_MOVEMENT_TYPES = ["cash_in", "cash_out"] as const;
+
+export type CashMovementType = (typeof CASH_MOVEMENT_TYPES)[number];
+
+export const CASH_MOVEMENT_LABELS: Record<CashMovementType, string> = {
+  cash_in: "Cash in",
+  cash_out: "Cash out",
+};
+
+export interface CashShift {
+  id: string;
+  staff_id: string;
+  staff_name?: string | null;
+  status: "open" | "closed";
+  opening_float: number;
+  opened_at: string;
+  closed_at: string | null;
+  closed_by: string | null;
+  // Stored at close
+  cash_sales: number | null;
+  cash_in: number | null;
+  cash_out: number | null;
+  cash_refunds: number | null;
+  expected_cash: number | null;
+  counted_cash: number | null;
+  cash_variance: number | null;           // counted - expected; negative is a shortage
+  gcash_sales: number | null;
+  gcash_refunds: number | null;
+  counted_gcash: number | null;
+  gcash_variance: number | null;
+  notes: string | null;
+}
+
+export interface CashMovement {
+  id: string;
+  shift_id: string;
+  type: CashMovementType;
+  amount: number;
+  reason: string;
+  staff_id: string | null;
+  created_at: string;
+}
+
+export interface ShiftPayment {
+  id: string;
+  order_id: string;
+  created_at: string;
+  method: "cash" | "gcash";
+  amount: number;
+  reference: string | null;
+}
+
+export interface ShiftRefund {
+  id: string;
+  order_id: string;
+  amount: number;
+  method: "cash" | "gcash";
+  reason: string;
+  created_at: string;
+}
+
+export interface GcashReconciliation {
+  total: number;
+  count: number;
+  missing_reference: string[];            // Order IDs paid by GCash without a reference
+  duplicate_references: string[];         // References used by more than one payment
+}
+
+export interface ShiftSummary {
+  order_count: number;                    // Orders paid towards during the shift
+  cash_sales: number;
+  cash_payment_count: number;
+  gcash_sales: number;
+  cash_in: number;
+  cash_out: number;
+  cash_refunds: number;
+  expected_cash: number;                  // opening float + cash sales + cash in - cash out - cash refunds
+  gcash_refunds: number;
+  expected_gcash: number;                 // GCash sales - GCash refunds
+  gcash: GcashReconciliation;
+}
+
+export interface ShiftReport {
+  shift: CashShift;
+  movements: CashMovement[];
+  payments: ShiftPayment[];
+  refunds: ShiftRefund[];
+  summary: ShiftSummary;
+}
+
+export interface DayReport {
+  date: string;                           // YYYY-MM-DD, Manila time
+  shifts: ShiftReport[];
+  totals: {
+    opening_float: number;
+    cash_sales: number;
+    gcash_sales: number;
+    cash_in: number;
+    cash_out: number;
+    cash_refunds: number;
+    gcash_refunds: number;
+    expected_cash: number;
+    counted_cash: number;
+    cash_variance: number;
+    order_count: number;
+  };
+  open_shifts: number;                    // Shifts of the day still open
+}
+
+export function validateCashAmount(value: unknown, label: string, allowZero = true): string | null {
+  const amount = Number(value);
+  if (value === "" || value === null || value === undefined || !Number.isFinite(amount)) {
+    return `${label} is required`;
+  }
+  if (amount < 0 || (!allowZero && amount === 0)) {
+    return `${label} must be ${allowZero ? "zero or more" : "more than zero"}`;
+  }
+  return null;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Running totals of a shift
+ */
+export function summarizeShift(
+  shift: Pick<CashShift, "opening_float">,
+  movements: CashMovement[],
+  payments: ShiftPayment[],
+  refunds: ShiftRefund[] = []
+): ShiftSummary {
+  let cashSales = 0;
+  let cashPaymentCount = 0;
+  let gcashSales = 0;
+  const gcashPayments: ShiftPayment[] = [];
+
+  for (const payment of payments) {
+    const amount = Number(payment.amount) || 0;
+    if (payment.method === "cash") {
+      cashSales += amount;
+      cashPaymentCount++;
+    } else {
+      gcashSales += amount;
+      gcashPayments.push(payment);
+    }
+  }
+
+  const cashIn = movements
+    .filter((m) => m.type === "cash_in")
+    .reduce((sum, m) => sum + Number(m.amount), 0);
+  const cashOut = movements
+    .filter((m) => m.type === "cash_out")
+    .reduce((sum, m) => sum + Number(m.amount), 0);
+  const cashRefunds = refunds
+    .filter((r) => r.method === "cash")
+    .reduce((sum, r) => sum + Number(r.amount), 0);
+  const gcashRefunds = refunds
+    .filter((r) => r.method === "gcash")
+    .reduce((sum, r) => sum + Number(r.amount), 0);
+
+  // GCash: every payment needs a reference, and a reference is used once
+  const seen = new Map<string, number>();
+  for (const payment of gcashPayments) {
+    const ref = payment.reference?.trim();
+    if (ref) seen.set(ref, (seen.get(ref) || 0) + 1);
+  }
+
+  return {
+    order_count: new Set(payments.map((p) => p.order_id)).size,
+    cash_sales: roundMoney(cashSales),
+    cash_payment_count: cashPaymentCount,
+    gcash_sales: roundMoney(gcashSales),
+    cash_in: roundMoney(cashIn),
+    cash_out: roundMoney(cashOut),
+    cash_refunds: roundMoney(cashRefunds),
+    expected_cash: roundMoney(Number(shift.opening_float) + cashSales + cashIn - cashOut - cashRefunds),
+    gcash_refunds: roundMoney(gcashRefunds),
+    expected_gcash: roundMoney(gcashSales - gcashRefunds),
+    gcash: {
+      total: roundMoney(gcashSales),
+      count: gcashPayments.length,
+      missing_reference: gcashPayments.filter((p) => !p.reference?.trim()).map((p) => p.order_id),
+      duplicate_references: [...seen].filter(([, n]) => n > 1).map(([ref]) => ref),
+    },
+  };
+}
+
+function withStaffName<T extends { staff?: { first_name: string; last_name: string } | null }>(
+  row: T
+): Omit<T, "staff"> & { staff_name: string | null } {
+  const { staff, ...rest } = row;
+  return { ...rest, staff_name: staff ? `${staff.first_name} ${staff.last_name}` : null };
+}
+
+async function buildReports(supabase: SupabaseClient, shifts: CashShift[]): Promise<ShiftReport[]> {
+  if (shifts.length === 0) return [];
+
+  const shiftIds = shifts.map((s) => s.id);
+  const [
+    { data: movements, error },
+    { data: payments, error: paymentsError },
+    { data: refunds, error: refundsError },
+  ] = await Promise.all([
+    supabase
+      .from("cash_movements")
+      .select("*")
+      .in("shift_id", shiftIds)
+      .order("created_at", { ascending: true }),
+    // Payments on orders cancelled later still count: cancelling gives no
+    // money back, only a recorded refund does
+    supabase
+      .from("payments")
+      .select("id, order_id, created_at, method, amount, reference, shift_id")
+      .in("shift_id", shiftIds)
+      .order("created_at", { ascending: true }),
+    supabase
+      .from("refunds")
+      .select("id, order_id, amount, method, reason, created_at, shift_id")
+      .in("shift_id", shiftIds)
+      .order("created_at", { ascending: true }),
+  ]);
+  if (error) throw error;
+  if (paymentsError) throw paymentsError;
+  if (refundsError) throw refundsError;
+
+  return shifts.map((shift) => {
+    const shiftMovements = ((movements || []) as CashMovement[]).filter((m) => m.shift_id === shift.id);
+    const shiftPayments = (payments || [])
+      .filter((p) => p.shift_id === shift.id)
+      .map((p) => ({
+        id: p.id,
+        order_id: p.order_id,
+        created_at: p.created_at,
+        method: p.method,
+        amount: Number(p.amount),
+        reference: p.reference,
+      }));
+    const shiftRefunds = (refunds || [])
+      .filter((r) => r.shift_id === shift.id)
+      .map((r) => ({
+        id: r.id,
+        order_id: r.order_id,
+        amount: Number(r.amount),
+        method: r.method,
+        reason: r.reason,
+        created_at: r.created_at,
+      }));
+    return {
+      shift,
+      movements: shiftMovements,
+      payments: shiftPayments,
+      refunds: shiftRefunds,
+      summary: summarizeShift(shift, shiftMovements, shiftPayments, shiftRefunds),
+    };
+  });
+}
+
+const SHIFT_SELECT = "*, staff:staff_id(first_name, last_name)";
+
+export async function loadOpenShift(supabase: SupabaseClient, staffId: string): Promise<CashShift | null> {
+  const { data, error } = await supabase
+    .from("cash_shifts")
+    .select(SHIFT_SELECT)
+    .eq("staff_id", staffId)
+    .eq("status", "open")
+    .maybeSingle();
+  if (error) throw error;
+  return data ? (withStaffName(data) as CashShift) : null;
+}
+
+export async function loadShiftReport(supabase: SupabaseClient, shiftId: string): Promise<ShiftReport | null> {
+  const { data, error } = await supabase
+    .from("cash_shifts")
+    .select(SHIFT_SELECT)
+    .eq("id", shiftId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+
+  const [report] = await buildReports(supabase, [withStaffName(data) as CashShift]);
+  return report;
+}
+
+/**
+ * Every shift opened on a business day, with the day's totals
+ * Totals of closed shifts use the figures stored at close.
+ */
+export async function loadDayReport(supabase: SupabaseClient, date: string): Promise<DayReport> {
+  const { data, error } = await supabase
+    .from("cash_shifts")
+    .select(SHIFT_SELECT)
+    .gte("opened_at", `${date}T00:00:00+08:00`)
+    .lte("opened_at", `${date}T23:59:59.999+08:00`)
+    .order("opened_at", { ascending: true });
+  if (error) throw error;
+
+  const shifts = await buildReports(
+    supabase,
+    (data || []).map((row) => withStaffName(row) as CashShift)
+  );
+
+  const totals = {
+    opening_float: 0,
+    cash_sales: 0,
+    gcash_sales: 0,
+    cash_in: 0,
+    cash_out: 0,
+    cash_refunds: 0,
+    gcash_refunds: 0,
+    expected_cash: 0,
+    counted_cash: 0,
+    cash_variance: 0,
+    order_count: 0,
+  };
+
+  for (const { shift, summary } of shifts) {
+    const closed = shift.status === "closed";
+    totals.opening_float += Number(shift.opening_float);
+    totals.cash_sales += closed ? Number(shift.cash_sales) : summary.cash_sales;
+    totals.gcash_sales += closed ? Number(shift.gcash_sales) : summary.gcash_sales;
+    totals.cash_in += closed ? Number(shift.cash_in) : summary.cash_in;
+    totals.cash_out += closed ? Number(shift.cash_out) : summary.cash_out;
+    totals.cash_refunds += closed ? Number(shift.cash_refunds) : summary.cash_refunds;
+    totals.gcash_refunds += closed ? Number(shift.gcash_refunds) : summary.gcash_refunds;
+    totals.expected_cash += closed ? Number(shift.expected_cash) : summary.expected_cash;
+    totals.counted_cash += closed ? Number(shift.counted_cash) : 0;
+    totals.cash_variance += closed ? Number(shift.cash_variance) : 0;
+    totals.order_count += summary.order_count;
+  }
+
+  return {
+    date,
+    shifts,
+    totals: Object.fromEntries(
+      Object.entries(totals).map(([key, value]) => [key, roundMoney(value)])
+    ) as DayReport["totals"],
+    open_shifts: shifts.filter((s) => s.shift.status === "open").length,
+  };
+}
@@ -0,0 +1,636 @@
+/**
+ * Order creation service (server only)
+ *
+ * Every order entry point (/api/orders/pos/create, /api/orders/mobile/create
+ * and the legacy /api/pos/create, /api/pos/newOrder) goes through
+ * createOrder(). It validates the CreateOrderPayload, prices the delivery
+ * from the delivery zones, recomputes the breakdown against current pricing,
+ * snapshots service pricing into the breakdown, books the time slot of
+ * scheduled orders, then hands everything
+ * to the create_order Postgres function so the customer, order, loyalty
+ * redemption, stock deductions and drop-off payments are written in a
+ * single transaction.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import {
+  buildOrderBreakdown,
+  diffOrderBreakdown,
+  getExtraDryPrice,
+  validateIronWeight,
+} from "@/src/app/in/pos/logic/posHelpers";
+import {
+  Basket,
+  BasketServices,
+  BreakdownDiff,
+  CreateOrderPayload,
+  OrderBreakdown,
+  OrderItem,
+  POSProduct,
+  PricingInfo,
+  PricingReview,
+  Service,
+} from "@/src/app/in/pos/logic/posTypes";
+import { loadPricingRules } from "@/src/app/utils/pricingRules";
+import { loadLoyaltyProgram } from "@/src/app/utils/loyaltyProgram";
+import { attachSlotBooking, bookOrderSlot, cancelSlotBookings } from "@/src/app/utils/deliverySlots";
+import { DeliveryFeeQuote } from "@/src/app/utils/deliveryZones";
+import { getHandlingDeliveryPoint, quoteDeliveryAddress } from "@/src/app/utils/deliveryZones.server";
+import { tendersFromHandling, validatePaymentTenders } from "@/src/app/utils/orderPayments";
+
+export interface CreateOrderOptions {
+  source: "pos" | "mobile" | "store";
+  cashierId: string | null;
+  status?: string;                        // Initial order status, default 'pending'
+  matchCustomerByPhone?: boolean;         // Reuse an existing customer with the same phone
+  gcashReceiptUrl?: string | null;
+  onPriceMismatch?: "reject" | "flag";    // Default 'reject'; 'flag' stores the server prices with a pricing_review
+}
+
+// Routes build the stored handling JSONB (pickup/delivery legs, payment,
+// scheduling) from the request's OrderHandling before calling createOrder
+export type CreateOrderInput = Omit<CreateOrderPayload, "handling"> & {
+  handling: Record<string, unknown>;
+};
+
+export type CreateOrderResult =
+  | { success: true; order_id: string; customer_id: string; breakdown: OrderBreakdown }
+  | { success: false; error: string; status: number; diff?: BreakdownDiff[] };
+
+// create_order raises these SQLSTATEs for request problems
+const RPC_ERROR_STATUS: Record<string, number> = {
+  OC400: 400,
+  OC402: 402,
+  OC404: 404,
+  OC409: 409,
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isFilled(value: unknown): boolean {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+type DeliveryFeeResult =
+  | { success: true; fee: number | null; quote: DeliveryFeeQuote | null }
+  | { success: false; error: string; status: number };
+
+/**
+ * Delivery fee the order must charge
+ * The zone quote applies unless the cashier overrode it and said why. Fee is
+ * null (old flat-fee behaviour) for pickups, addresses without coordinates
+ * and shops with no delivery zones.
+ */
+async function resolveDeliveryFee(
+  supabase: SupabaseClient,
+  handling: Record<string, unknown>
+): Promise<DeliveryFeeResult> {
+  const point = getHandlingDeliveryPoint(handling);
+  if (handling.handling_type !== "delivery" || !point) {
+    return { success: true, fee: null, quote: null };
+  }
+
+  const quote = await quoteDeliveryAddress(supabase, point);
+  if (!quote) return { success: true, fee: null, quote: null };
+
+  const override = Number(handling.delivery_fee_override) || null;
+  if (override !== null && override !== quote.fee) {
+    if (!isFilled(handling.delivery_fee_override_reason)) {
+      return {
+        success: false,
+        error: quote.fee === null
+          ? "Address is outside the delivery zones; give a reason to charge a manual fee"
+          : `Give a reason for changing the delivery fee from ₱${quote.fee.toFixed(2)}`,
+        status: 400,
+      };
+    }
+    console.log(
+      `[CREATE ORDER] Delivery fee overridden ${quote.fee ?? "out of area"} -> ${override}: ${handling.delivery_fee_override_reason}`
+    );
+    return { success: true, fee: override, quote };
+  }
+
+  if (quote.fee === null) {
+    return { success: false, error: "Address is outside the delivery zones", status: 400 };
+  }
+  return { success: true, fee: quote.fee, quote };
+}
+
+/**
+ * Validate a request body against CreateOrderPayload
+ * Returns an error message, or null if the payload is acceptable
+ */
+export function validateCreateOrderPayload(payload: unknown): string | null {
+  if (!isObject(payload)) return "Request body must be an object";
+
+  // Customer
+  if (!payload.customer_id && !payload.customer_data) {
+    return "Customer ID or customer data required";
+  }
+  if (payload.customer_id && typeof payload.customer_id !== "string") {
+    return "customer_id must be a string";
+  }
+  if (!payload.customer_id) {
+    const c = payload.customer_data;
+    if (
+      !isObject(c) ||
+      !isFilled(c.first_name) ||
+      !isFilled(c.last_name) ||
+      !isFilled(c.phone_number)
+    ) {
+      return "Customer first/last name and phone required";
+    }
+  }
+
+  // Breakdown
+  const breakdown = payload.breakdown;
+  if (!isObject(breakdown)) return "Missing breakdown data";
+
+  const items = breakdown.items ?? [];
+  const baskets = breakdown.baskets ?? [];
+  if (!Array.isArray(items)) return "breakdown.items must be an array";
+  if (!Array.isArray(baskets)) return "breakdown.baskets must be an array";
+  if (items.length === 0 && baskets.length === 0) {
+    return "Order must have at least one basket or product";
+  }
+
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    if (!isObject(item) || typeof item.product_id !== "string" || !item.product_id) {
+      return `Item ${i + 1} missing product_id`;
+    }
+    if (!Number.isInteger(Number(item.quantity)) || Number(item.quantity) <= 0) {
+      return `Item ${i + 1} quantity must be a whole number above 0`;
+    }
+  }
+
+  for (let i = 0; i < baskets.length; i++) {
+    const basket = baskets[i];
+    if (!isObject(basket) || !isObject(basket.services)) {
+      return `Basket ${i + 1} missing services object`;
+    }
+  }
+
+  if (!isObject(breakdown.summary)) return "Missing breakdown summary";
+  const total = Number(breakdown.summary.total);
+  if (!Number.isFinite(total) || total < 0) {
+    return "breakdown.summary.total must be a non-negative number";
+  }
+
+  // Handling
+  if (!isObject(payload.handling)) return "Missing handling data";
+  // Fees follow from these, so they are never inferred from the client's figures
+  const serviceType = payload.handling.service_type;
+  if (serviceType !== "self_service" && serviceType !== "staff_service") {
+    return "handling.service_type must be self_service or staff_service";
+  }
+  const handlingType = payload.handling.handling_type;
+  if (handlingType !== "pickup" && handlingType !== "delivery") {
+    return "handling.handling_type must be pickup or delivery";
+  }
+  const method = payload.handling.payment_method;
+  if (method && method !== "cash" && method !== "gcash") {
+    return "payment_method must be cash or gcash";
+  }
+
+  // Loyalty
+  const loyalty = payload.loyalty;
+  if (loyalty !== undefined && loyalty !== null) {
+    if (
+      !isObject(loyalty) ||
+      (loyalty.discount_tier !== null &&
+        loyalty.discount_tier !== undefined &&
+        typeof loyalty.discount_tier !== "string")
+    ) {
+      return "loyalty.discount_tier must be a tier id or null";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Add a pricing snapshot to each basket service so receipts keep showing
+ * the price the customer was charged even after services are repriced
+ */
+async function enrichServicesWithPricing(
+  supabase: SupabaseClient,
+  breakdown: OrderBreakdown
+): Promise<OrderBreakdown> {
+  if (!breakdown.baskets || !Array.isArray(breakdown.baskets)) {
+    return breakdown;
+  }
+
+  const { data: allServices, error: servicesError } = await supabase
+    .from("services")
+    .select("service_type, tier, name, base_price");
+
+  if (servicesError || !allServices) {
+    console.warn("[CREATE ORDER] Failed to fetch services for pricing snapshot:", servicesError?.message);
+    return breakdown; // Return unchanged if fetch fails
+  }
+
+  // Build pricing map: service_type + tier -> pricing info
+  const pricingMap: Record<string, PricingInfo> = {};
+  for (const service of allServices) {
+    const key = `${service.service_type}:${service.tier || "null"}`;
+    pricingMap[key] = {
+      base_price: service.base_price,
+      service_type: service.service_type,
+      name: service.name,
+      tier: service.tier,
+    };
+  }
+
+  const pricingRules = await loadPricingRules(supabase);
+
+  return {
+    ...breakdown,
+    baskets: breakdown.baskets.map((basket) => {
+      const services = basket.services || {};
+      const enrichedServices = { ...services };
+
+      if (services.wash && services.wash !== "off") {
+        enrichedServices.wash_pricing = pricingMap[`wash:${services.wash}`] || {};
+      }
+      if (services.dry && services.dry !== "off") {
+        enrichedServices.dry_pricing = pricingMap[`dry:${services.dry}`] || {};
+      }
+      if (services.spin) {
+        enrichedServices.spin_pricing = pricingMap["spin:null"] || {};
+      }
+      if (services.iron_weight_kg && services.iron_weight_kg > 0) {
+        enrichedServices.iron_pricing = pricingMap["iron:null"] || {};
+      }
+      if (services.fold) {
+        enrichedServices.fold_pricing = pricingMap["fold:null"] || {};
+      }
+
+      // Additional dry time is priced by the configured extra dry tiers
+      if (services.additional_dry_time_minutes && services.additional_dry_time_minutes > 0) {
+        enrichedServices.additional_dry_time_pricing = {
+          name: "Additional Dry Time",
+          tier: null,
+          service_type: "additional_dry_time",
+          base_price: getExtraDryPrice(services.additional_dry_time_minutes, pricingRules),
+        };
+      }
+
+      // Staff service fee is per-order, note it in services for receipts
+      enrichedServices.staff_service_pricing = pricingMap["staff_service:null"] || {};
+
+      return { ...basket, services: enrichedServices };
+    }),
+  };
+}
+
+/**
+ * Make sure plastic bags used by baskets are in the item list so their
+ * stock gets deducted. The Plastic Bags product is seeded by
+ * 20261111_seed_plastic_bags_product.sql.
+ */
+async function includePlasticBagItems(
+  supabase: SupabaseClient,
+  breakdown: OrderBreakdown
+): Promise<{ items: OrderItem[]; error: string | null }> {
+  const items = [...(breakdown.items || [])];
+
+  const totalPlasticBags = (breakdown.baskets || []).reduce(
+    (sum, basket) => sum + (basket.services?.plastic_bags || 0),
+    0
+  );
+  if (totalPlasticBags <= 0) return { items, error: null };
+
+  const plasticBagIndex = items.findIndex(
+    (item) =>
+      item.product_name?.toLowerCase().includes("plastic") ||
+      item.product_name?.toLowerCase().includes("bag")
+  );
+
+  if (plasticBagIndex >= 0) {
+    items[plasticBagIndex] = { ...items[plasticBagIndex], quantity: totalPlasticBags };
+    return { items, error: null };
+  }
+
+  const { data: plasticBagProduct, error: bagError } = await supabase
+    .from("products")
+    .select("id")
+    .or("item_name.ilike.%plastic%,item_name.ilike.%bag%")
+    .limit(1)
+    .maybeSingle();
+
+  if (bagError || !plasticBagProduct) {
+    console.error("[CREATE ORDER] Plastic bag product not found:", bagError);
+    return { items, error: "Plastic bag product not found" };
+  }
+
+  items.push({
+    product_id: plasticBagProduct.id,
+    product_name: "Plastic Bags",
+    unit_price: 0.5,
+    quantity: totalPlasticBags,
+    total_price: totalPlasticBags * 0.5,
+  });
+
+  return { items, error: null };
+}
+
+/**
+ * Recompute the breakdown with buildOrderBreakdown using current services,
+ * product prices, pricing rules and loyalty tiers from the database.
+ * Only the customer's choices (basket services, item quantities, staff
+ * service, delivery, loyalty tier) are taken from the payload. deliveryFee
+ * is the zone-priced fee, when there is one. Items whose product is unknown
+ * or inactive make it an error, as there is no price to check them against.
+ */
+async function recomputeBreakdown(
+  supabase: SupabaseClient,
+  payload: CreateOrderInput,
+  deliveryFee: number | null
+): Promise<{ breakdown: OrderBreakdown | null; error: string | null }> {
+  const { breakdown, handling } = payload;
+  const discountTier = payload.loyalty?.discount_tier || null;
+
+  const [{ data: services }, { data: productRows }, pricingRules, loyalty] =
+    await Promise.all([
+      supabase.from("services").select("*").eq("is_active", true),
+      supabase
+        .from("products")
+        .select("id, item_name, unit_price, quantity, reorder_level")
+        .eq("is_active", true),
+      loadPricingRules(supabase),
+      discountTier ? loadLoyaltyProgram(supabase) : Promise.resolve(null),
+    ]);
+
+  const products: POSProduct[] = (productRows || []).map((p) => ({
+    id: p.id,
+    item_name: p.item_name,
+    unit_price: Number(p.unit_price),
+    quantity_in_stock: p.quantity,
+    reorder_level: p.reorder_level,
+  }));
+
+  // Product lines use the current price
+  const items: Parameters<typeof buildOrderBreakdown>[1] = [];
+  for (const item of breakdown.items || []) {
+    const product = products.find((p) => p.id === item.product_id);
+    if (!product) {
+      return { breakdown: null, error: `Product not found or inactive: ${item.product_id}` };
+    }
+    items.push({
+      product_id: item.product_id,
+      product_name: product.item_name,
+      unit_price: product.unit_price,
+      quantity: Number(item.quantity),
+    });
+  }
+
+  // Fees come from service_type / handling_type (required by
+  // validateCreateOrderPayload), never from the submitted summary. Without a
+  // zone-priced fee the cashier's override applies, clamped to the minimum.
+  const isStaffService = handling.service_type === "staff_service";
+  const isDelivery = handling.handling_type === "delivery";
+  const deliveryFeeOverride = deliveryFee ?? (Number(handling.delivery_fee_override) || null);
+
+  const loyaltyTier = loyalty?.tiers.find((t) => t.id === discountTier) || null;
+
+  return {
+    breakdown: buildOrderBreakdown(
+      breakdown.baskets || [],
+      items,
+      isStaffService,
+      isDelivery,
+      deliveryFeeOverride,
+      (services || []) as Service[],
+      products,
+      pricingRules,
+      loyaltyTier
+    ),
+    error: null,
+  };
+}
+
+/**
+ * Convert baskets from the legacy endpoints (/api/pos/create, /api/pos/newOrder),
+ * which list services by id, into breakdown baskets
+ * Basket subtotal falls back to the sum of the services' base prices, and
+ * the iron weight is kept within the pricing rules' iron limits
+ */
+export async function buildLegacyBaskets(
+  supabase: SupabaseClient,
+  legacyBaskets: {
+    weight?: number | null;
+    notes?: string | null;
+    subtotal?: number;
+    services?: { service_id: string }[];
+  }[]
+): Promise<{ baskets: Basket[]; error: string | null }> {
+  const serviceIds = legacyBaskets.flatMap((b) =>
+    (b.services || []).map((s) => s.service_id)
+  );
+
+  const servicesById: Record<string, { service_type: string; tier: string | null; base_price: number }> = {};
+  if (serviceIds.length > 0) {
+    const { data: services, error } = await supabase
+      .from("services")
+      .select("id, service_type, tier, base_price")
+      .in("id", serviceIds);
+
+    if (error) return { baskets: [], error: "Failed to load services" };
+
+    for (const svc of services || []) {
+      servicesById[svc.id] = svc;
+    }
+
+    const missing = serviceIds.find((id) => !servicesById[id]);
+    if (missing) return { baskets: [], error: `Service not found: ${missing}` };
+  }
+
+  const pricingRules = await loadPricingRules(supabase);
+
+  const baskets = legacyBaskets.map((basket, index) => {
+    const services: BasketServices = {
+      wash: "off",
+      wash_cycles: 1,
+      dry: "off",
+      spin: false,
+      iron_weight_kg: 0,
+      fold: false,
+      additional_dry_time_minutes: 0,
+      plastic_bags: 0,
+      heavy_fabrics: false,
+    };
+    let subtotal = 0;
+
+    for (const { service_id } of basket.services || []) {
+      const svc = servicesById[service_id];
+      subtotal += Number(svc.base_price) || 0;
+      if (svc.service_type === "wash") services.wash = svc.tier === "premium" ? "premium" : "basic";
+      if (svc.service_type === "dry") services.dry = svc.tier === "premium" ? "premium" : "basic";
+      if (svc.service_type === "spin") services.spin = true;
+      if (svc.service_type === "fold") services.fold = true;
+      if (svc.service_type === "iron") {
+        // Iron is sold in whole kg between the iron_weight_min/max rules
+        services.iron_weight_kg = Math.min(
+          pricingRules.iron_weight_max,
+          Math.max(pricingRules.iron_weight_min, Math.round(basket.weight || pricingRules.iron_weight_min))
+        );
+      }
+    }
+
+    return {
+      basket_number: index + 1,
+      weight_kg: basket.weight || 0,
+      services,
+      notes: basket.notes || "",
+      subtotal: basket.subtotal ?? subtotal,
+    };
+  });
+
+  return { baskets, error: null };
+}
+
+/**
+ * Create an order atomically
+ * Nothing is written unless every step (customer, order, loyalty, stock)
+ * succeeds. A breakdown that does not match server pricing is rejected
+ * (422 with the diff) or, with onPriceMismatch 'flag', saved at the
+ * server prices with a pricing_review noting what the client sent.
+ */
+export async function createOrder(
+  supabase: SupabaseClient,
+  payload: CreateOrderInput,
+  options: CreateOrderOptions
+): Promise<CreateOrderResult> {
+  const validationError = validateCreateOrderPayload(payload);
+  if (validationError) {
+    return { success: false, error: validationError, status: 400 };
+  }
+
+  // Iron limits are pricing rules, so they are checked against the database
+  const pricingRules = await loadPricingRules(supabase);
+  for (let i = 0; i < (payload.breakdown.baskets || []).length; i++) {
+    const ironError = validateIronWeight(payload.breakdown.baskets[i].services.iron_weight_kg, pricingRules);
+    if (ironError) {
+      return { success: false, error: `Basket ${i + 1} ${ironError}`, status: 400 };
+    }
+  }
+
+  // === PRICE DELIVERY ===
+  const delivery = await resolveDeliveryFee(supabase, payload.handling);
+  if (!delivery.success) {
+    return { success: false, error: delivery.error, status: delivery.status };
+  }
+
+  // === VERIFY PRICING ===
+  // Never trust client-computed totals: recompute and compare every line
+  const { breakdown: expected, error: recomputeError } = await recomputeBreakdown(supabase, payload, delivery.fee);
+  if (!expected) {
+    return { success: false, error: recomputeError || "Failed to price the order", status: 404 };
+  }
+  const diff = diffOrderBreakdown(payload.breakdown, expected);
+  let pricingReview: PricingReview | undefined;
+
+  if (diff.length > 0) {
+    console.warn(
+      `[CREATE ORDER] ${options.source} order price mismatch (submitted ${payload.breakdown.summary.total}, expected ${expected.summary.total}):`,
+      diff
+    );
+    if ((options.onPriceMismatch || "reject") === "reject") {
+      return {
+        success: false,
+        error: "Order prices do not match current pricing",
+        status: 422,
+        diff,
+      };
+    }
+    pricingReview = {
+      status: "flagged",
+      diff,
+      expected_total: expected.summary.total,
+      submitted_total: Number(payload.breakdown.summary.total),
+      flagged_at: new Date().toISOString(),
+    };
+  }
+
+  // === PREPARE BREAKDOWN ===
+  // A flagged order is charged the server prices; the client's figures
+  // only survive in the pricing_review
+  const priced = pricingReview ? expected : payload.breakdown;
+  const { items, error: itemsError } = await includePlasticBagItems(supabase, priced);
+  if (itemsError) {
+    return { success: false, error: itemsError, status: 500 };
+  }
+
+  const breakdown: OrderBreakdown = await enrichServicesWithPricing(supabase, {
+    ...priced,
+    items,
+    summary: {
+      ...priced.summary,
+      loyalty_tier_id: payload.loyalty?.discount_tier || null,
+    },
+    ...(pricingReview && { pricing_review: pricingReview }),
+  });
+
+  // === PAYMENTS ===
+  // Tenders are checked against the stored total; older clients only send
+  // the single payment in handling
+  const payments = payload.payments ?? tendersFromHandling(payload.handling, breakdown.summary.total);
+  const paymentsError = validatePaymentTenders(payments, breakdown.summary.total);
+  if (paymentsError) {
+    return { success: false, error: paymentsError, status: 400 };
+  }
+
+  // === BOOK TIME SLOT ===
+  // Booked before the order so a full slot rejects the order; released
+  // again if the order cannot be created
+  const slot = await bookOrderSlot(supabase, payload.handling);
+  if (!slot.success) {
+    return { success: false, error: slot.error, status: slot.status };
+  }
+
+  const handling = {
+    ...payload.handling,
+    payment_method: payload.handling.payment_method || payments[0]?.method || null,
+    ...(slot.data && { slot_id: slot.data.slot_id }),
+    ...(delivery.quote && { delivery_fee_quote: delivery.quote }),
+  };
+
+  // === RUN TRANSACTION ===
+  const { data, error } = await supabase.rpc("create_order", {
+    p_payload: { ...payload, handling, breakdown, payments },
+    p_source: options.source,
+    p_cashier_id: options.cashierId,
+    p_status: options.status || "pending",
+    p_match_customer_by_phone: options.matchCustomerByPhone || false,
+    p_gcash_receipt_url: options.gcashReceiptUrl || null,
+  });
+
+  if (error) {
+    const status = RPC_ERROR_STATUS[error.code] || 500;
+    console.error(`[CREATE ORDER] ${options.source} order failed (${error.code}):`, error.message);
+    if (slot.data) {
+      await cancelSlotBookings(supabase, { bookingId: slot.data.id });
+    }
+    return {
+      success: false,
+      error: status === 500 ? "Failed to create order" : error.message,
+      status,
+    };
+  }
+
+  console.log(`[CREATE ORDER] ${options.source} order ${data.order_id} created for customer ${data.customer_id}`);
+
+  if (slot.data) {
+    await attachSlotBooking(supabase, slot.data.id, data.order_id);
+  }
+
+  return {
+    success: true,
+    order_id: data.order_id,
+    customer_id: data.customer_id,
+    breakdown,
+  };
+}
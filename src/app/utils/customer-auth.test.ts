@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createClient as createSupabaseClient } from "@supabase/supabase-js";
+import { requireCustomer } from "@/src/app/utils/customer-auth";
+
+vi.mock("@/src/app/utils/supabase/server", () => ({ createClient: vi.fn() }));
+
+vi.mock("@supabase/supabase-js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@supabase/supabase-js")>()),
+  createClient: vi.fn(),
+}));
+
+const CUSTOMER = { id: "customer-1", first_name: "Lea", last_name: "Santos" };
+
+/**
+ * Token client answering auth.getUser() and the customer lookup
+ */
+function tokenClient(params: { signedIn?: boolean; customer?: typeof CUSTOMER | null }) {
+  const user = params.signedIn === false ? null : { id: "auth-1" };
+  const eq = vi.fn();
+  const query = {
+    eq: eq.mockImplementation(() => query),
+    maybeSingle: async () => ({ data: params.customer ?? null, error: null }),
+  };
+  const client = {
+    auth: {
+      getUser: vi.fn(async () => ({
+        data: { user },
+        error: user ? null : new Error("Invalid token"),
+      })),
+    },
+    from: () => ({ select: () => query }),
+  };
+  vi.mocked(createSupabaseClient).mockReturnValue(client as unknown as ReturnType<typeof createSupabaseClient>);
+  return { client, eq };
+}
+
+function appRequest() {
+  return new Request("http://localhost/api/customer/order-eta?orderId=order-1", {
+    headers: { Authorization: "Bearer customer-token" },
+  });
+}
+
+describe("requireCustomer", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("resolves the customer linked to the signed-in user", async () => {
+    const { client, eq } = tokenClient({ customer: CUSTOMER });
+
+    const auth = await requireCustomer(appRequest());
+
+    expect(auth.success).toBe(true);
+    if (!auth.success) return;
+    expect(auth.data.customer).toEqual(CUSTOMER);
+    expect(client.auth.getUser).toHaveBeenCalledWith("customer-token");
+    expect(eq).toHaveBeenCalledWith("auth_id", "auth-1");
+  });
+
+  it("denies callers without a valid token with 401", async () => {
+    tokenClient({ signedIn: false });
+
+    const auth = await requireCustomer(appRequest());
+
+    expect(auth.success).toBe(false);
+    if (auth.success) return;
+    expect(auth.response.status).toBe(401);
+  });
+
+  it("denies users without an active customer record with 403", async () => {
+    tokenClient({ customer: null });
+
+    const auth = await requireCustomer(appRequest());
+
+    expect(auth.success).toBe(false);
+    if (auth.success) return;
+    expect(auth.response.status).toBe(403);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Customer authorization for mobile app routes (server only)
+ *
+ * requireCustomer() resolves the customer signed in to the mobile app from
+ * customers.auth_id:
+ *
+ *   const auth = await requireCustomer(request);
+ *   if (!auth.success) return auth.response;
+ *   const { supabase, customer } = auth.data;
+ *
+ * The app sends "Authorization: Bearer <access token>"; the auth cookie works
+ * too. The returned client queries as that customer, so RLS limits it to
+ * their own records (20261110_create_customer_self_access.sql).
+ * No session is 401; no active customer linked to the user is 403.
+ */
+
+import { NextResponse } from "next/server";
+import { SupabaseClient, User } from "@supabase/supabase-js";
+import { getSessionClient } from "@/src/app/utils/staff-auth";
+
+export interface AuthorizedCustomer {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+}
+
+export type CustomerAuthResult =
+  | { success: true; data: { supabase: SupabaseClient; user: User; customer: AuthorizedCustomer } }
+  | { success: false; response: NextResponse };
+
+function deny(error: string, status: 401 | 403): CustomerAuthResult {
+  return { success: false, response: NextResponse.json({ success: false, error }, { status }) };
+}
+
+/**
+ * Authorize the caller as a signed-in customer
+ */
+export async function requireCustomer(request: Request): Promise<CustomerAuthResult> {
+  const { supabase, token } = await getSessionClient(request);
+
+  const {
+    data: { user },
+    error: authError,
+  } = token ? await supabase.auth.getUser(token) : await supabase.auth.getUser();
+
+  if (authError || !user) return deny("Unauthorized", 401);
+
+  const { data: customer, error } = await supabase
+    .from("customers")
+    .select("id, first_name, last_name")
+    .eq("auth_id", user.id)
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[AUTH] Failed to load customer:", error);
+    return deny("Customer record not found", 403);
+  }
+  if (!customer) return deny("Customer record not found", 403);
+
+  return { success: true, data: { supabase, user, customer } };
+}
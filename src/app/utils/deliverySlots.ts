@@ -0,0 +1,318 @@
+/**
+ * Pickup/delivery time slot helpers
+ * Slot definitions, blackout dates, rider availability and bookings.
+ * Capacity is worked out by the slot_availability function and bookings go
+ * through book_slot, which locks the slot so it can never be over-booked.
+ * Works with both the browser and the server Supabase clients.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+
+export const WEEKDAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export type SlotLeg = "pickup" | "delivery";
+
+export interface DeliverySlot {
+  id: string;
+  weekday: number | null;                 // 0 = Sunday, null = every day
+  start_time: string;                     // HH:MM
+  end_time: string;                       // HH:MM
+  capacity: number;                       // Max bookings in the slot
+  capacity_per_rider: number | null;      // Also limit to N bookings per available rider
+  is_active: boolean;
+}
+
+export interface SlotAvailability {
+  date: string;                           // YYYY-MM-DD
+  slot_id: string;
+  start_time: string;
+  end_time: string;
+  capacity: number;                       // Effective capacity (0 on blackout dates)
+  booked: number;
+  remaining: number;
+  riders_available: number;
+  blackout_reason: string | null;
+}
+
+export interface BlackoutDate {
+  date: string;
+  reason: string | null;
+}
+
+export interface RiderAvailability {
+  id: string;
+  staff_id: string;
+  date: string;
+  slot_id: string | null;                 // null = whole day
+  is_available: boolean;
+  note: string | null;
+}
+
+export interface SlotBooking {
+  id: string;
+  slot_id: string;
+  date: string;
+  order_id: string | null;
+  leg: SlotLeg;
+  status: "booked" | "cancelled";
+  created_at: string;
+}
+
+export interface SlotScheduleOrder {
+  booking_id: string;
+  order_id: string;
+  leg: SlotLeg;
+  status: string;                         // Order status
+  customer_name: string | null;
+  phone_number: string | null;
+  address: string | null;
+}
+
+export interface SlotSchedule extends SlotAvailability {
+  orders: SlotScheduleOrder[];
+}
+
+export type SlotResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string; status: number };
+
+// book_slot raises these SQLSTATEs
+const RPC_ERROR_STATUS: Record<string, number> = {
+  OC400: 400,
+  OC404: 404,
+  OC409: 409,
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+export function isSlotDate(value: unknown): value is string {
+  return typeof value === "string" && DATE_PATTERN.test(value) && !isNaN(new Date(value).getTime());
+}
+
+/**
+ * Today's date in the shop's timezone (YYYY-MM-DD)
+ */
+export function todaySlotDate(now: Date = new Date()): string {
+  return now.toLocaleDateString("en-CA", { timeZone: "Asia/Manila" });
+}
+
+/**
+ * "13:00:00" -> "13:00"
+ */
+export function toSlotTime(time: string): string {
+  return time.slice(0, 5);
+}
+
+/**
+ * "13:00" -> "1:00 PM"
+ */
+export function formatSlotTime(time: string): string {
+  const [hours, minutes] = toSlotTime(time).split(":").map(Number);
+  const suffix = hours >= 12 ? "PM" : "AM";
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, "0")} ${suffix}`;
+}
+
+export function formatSlotLabel(slot: { start_time: string; end_time: string }): string {
+  return `${formatSlotTime(slot.start_time)} - ${formatSlotTime(slot.end_time)}`;
+}
+
+export function validateDeliverySlot(slot: Partial<DeliverySlot>): string | null {
+  if (slot.weekday !== null && slot.weekday !== undefined) {
+    if (!Number.isInteger(slot.weekday) || slot.weekday < 0 || slot.weekday > 6) {
+      return "Weekday must be 0 (Sunday) to 6 (Saturday) or empty for every day";
+    }
+  }
+  if (!slot.start_time || !TIME_PATTERN.test(slot.start_time)) return "Start time must be HH:MM";
+  if (!slot.end_time || !TIME_PATTERN.test(slot.end_time)) return "End time must be HH:MM";
+  if (toSlotTime(slot.end_time) <= toSlotTime(slot.start_time)) return "End time must be after start time";
+  if (!Number.isInteger(Number(slot.capacity)) || Number(slot.capacity) <= 0) {
+    return "Capacity must be a whole number above 0";
+  }
+  if (
+    slot.capacity_per_rider !== null &&
+    slot.capacity_per_rider !== undefined &&
+    (!Number.isInteger(Number(slot.capacity_per_rider)) || Number(slot.capacity_per_rider) <= 0)
+  ) {
+    return "Capacity per rider must be a whole number above 0";
+  }
+  return null;
+}
+
+/**
+ * Slots between two dates (inclusive) with capacity and bookings
+ */
+export async function loadSlotAvailability(
+  supabase: SupabaseClient,
+  from: string,
+  to: string
+): Promise<SlotAvailability[]> {
+  const { data, error } = await supabase.rpc("slot_availability", {
+    p_from: from,
+    p_to: to,
+  });
+
+  if (error) throw error;
+
+  return ((data || []) as SlotAvailability[]).map((row) => ({
+    ...row,
+    start_time: toSlotTime(row.start_time),
+    end_time: toSlotTime(row.end_time),
+  }));
+}
+
+/**
+ * Book a slot for an order (order id can be attached later)
+ */
+export async function bookSlot(
+  supabase: SupabaseClient,
+  input: { slotId: string; date: string; orderId?: string | null; leg?: SlotLeg }
+): Promise<SlotResult<SlotBooking>> {
+  const { data, error } = await supabase.rpc("book_slot", {
+    p_slot_id: input.slotId,
+    p_date: input.date,
+    p_order_id: input.orderId ?? null,
+    p_leg: input.leg || "delivery",
+  });
+
+  if (error) {
+    const status = RPC_ERROR_STATUS[error.code] || 500;
+    console.error(`[SLOTS] Booking ${input.slotId} on ${input.date} failed (${error.code}):`, error.message);
+    return { success: false, error: status === 500 ? "Failed to book time slot" : error.message, status };
+  }
+
+  return { success: true, data: data as SlotBooking };
+}
+
+/**
+ * Book the slot a scheduled order asked for
+ * Uses handling.slot_id when given, otherwise the slot on scheduled_date
+ * whose window contains scheduled_time. Unscheduled orders book nothing.
+ */
+export async function bookOrderSlot(
+  supabase: SupabaseClient,
+  handling: Record<string, unknown>
+): Promise<SlotResult<SlotBooking | null>> {
+  if (!handling.scheduled) return { success: true, data: null };
+
+  const date = handling.scheduled_date;
+  if (!isSlotDate(date)) {
+    return { success: false, error: "Scheduled orders need a scheduled_date (YYYY-MM-DD)", status: 400 };
+  }
+
+  let slotId = typeof handling.slot_id === "string" ? handling.slot_id : null;
+
+  if (!slotId) {
+    const time = typeof handling.scheduled_time === "string" ? toSlotTime(handling.scheduled_time) : "";
+    if (!TIME_PATTERN.test(time)) {
+      return { success: false, error: "Scheduled orders need a time slot", status: 400 };
+    }
+
+    const slots = await loadSlotAvailability(supabase, date, date);
+    const match = slots.find((s) => s.start_time <= time && time < s.end_time);
+    if (!match) {
+      return { success: false, error: `No time slot at ${formatSlotTime(time)} on ${date}`, status: 400 };
+    }
+    slotId = match.slot_id;
+  }
+
+  const leg: SlotLeg = handling.handling_type === "pickup" ? "pickup" : "delivery";
+  return bookSlot(supabase, { slotId, date, leg });
+}
+
+/**
+ * Link a booking made before the order existed to the new order
+ */
+export async function attachSlotBooking(
+  supabase: SupabaseClient,
+  bookingId: string,
+  orderId: string
+): Promise<boolean> {
+  const { error } = await supabase
+    .from("slot_bookings")
+    .update({ order_id: orderId })
+    .eq("id", bookingId);
+
+  if (error) {
+    console.error(`[SLOTS] Failed to attach booking ${bookingId} to order ${orderId}:`, error.message);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Free booked slots, by booking id or for a whole order
+ */
+export async function cancelSlotBookings(
+  supabase: SupabaseClient,
+  target: { bookingId: string } | { orderId: string }
+): Promise<boolean> {
+  let query = supabase
+    .from("slot_bookings")
+    .update({ status: "cancelled", cancelled_at: new Date().toISOString() })
+    .eq("status", "booked");
+
+  query = "bookingId" in target ? query.eq("id", target.bookingId) : query.eq("order_id", target.orderId);
+
+  const { error } = await query;
+  if (error) {
+    console.error("[SLOTS] Failed to cancel slot booking:", error.message);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * A day's slots with the orders booked into each (cancelled orders left out)
+ */
+export async function loadSlotSchedule(
+  supabase: SupabaseClient,
+  date: string
+): Promise<SlotSchedule[]> {
+  const [slots, bookingsResult] = await Promise.all([
+    loadSlotAvailability(supabase, date, date),
+    supabase
+      .from("slot_bookings")
+      .select(
+        "id, slot_id, leg, order_id, orders:order_id(status, handling, customers:customer_id(first_name, last_name, phone_number))"
+      )
+      .eq("date", date)
+      .eq("status", "booked")
+      .not("order_id", "is", null)
+      .order("created_at", { ascending: true }),
+  ]);
+
+  if (bookingsResult.error) throw bookingsResult.error;
+
+  const bookings = (bookingsResult.data || []) as unknown as {
+    id: string;
+    slot_id: string;
+    leg: SlotLeg;
+    order_id: string;
+    orders: {
+      status: string;
+      handling: { delivery_address?: string | null } | null;
+      customers: { first_name: string | null; last_name: string | null; phone_number: string | null } | null;
+    } | null;
+  }[];
+
+  return slots.map((slot) => ({
+    ...slot,
+    orders: bookings
+      .filter((b) => b.slot_id === slot.slot_id && b.orders && b.orders.status !== "cancelled")
+      .map((b) => {
+        const customer = b.orders?.customers;
+        return {
+          booking_id: b.id,
+          order_id: b.order_id,
+          leg: b.leg,
+          status: b.orders?.status || "pending",
+          customer_name: customer
+            ? `${customer.first_name || ""} ${customer.last_name || ""}`.trim() || null
+            : null,
+          phone_number: customer?.phone_number || null,
+          address: b.orders?.handling?.delivery_address || null,
+        };
+      }),
+  }));
+}
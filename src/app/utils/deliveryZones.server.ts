@@ -0,0 +1,69 @@
+/**
+ * Delivery distance and fee (server only)
+ *
+ * getRoadDistance() asks Google Directions (fetchDirections()) for the
+ * store -> address leg and falls back to a haversine estimate when
+ * GOOGLE_MAPS_API_KEY is missing or Google fails. quoteDeliveryAddress() prices that distance with the
+ * delivery zones (see deliveryZones.ts).
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { loadPricingRules } from "@/src/app/utils/pricingRules";
+import { DeliveryFeeQuote, loadDeliveryZones, quoteDeliveryFee } from "@/src/app/utils/deliveryZones";
+import { estimateLeg, LatLng, STORE_LOCATION } from "@/src/app/utils/routePlanner";
+import { fetchDirections } from "@/src/app/utils/routePlanner.server";
+
+export interface RoadDistance {
+  distance: number;                       // meters
+  duration: number;                       // seconds
+  polyline: string | null;                // Encoded route (Google only)
+  source: "google" | "estimate";
+}
+
+/**
+ * Road distance from the store (or another origin) to a point
+ */
+export async function getRoadDistance(to: LatLng, from: LatLng = STORE_LOCATION): Promise<RoadDistance> {
+  const route = await fetchDirections(from, to);
+  if (route) {
+    return {
+      distance: Math.round(route.legs[0].distance_km * 1000),
+      duration: Math.round(route.legs[0].minutes * 60),
+      polyline: route.polyline,
+      source: "google",
+    };
+  }
+
+  const leg = estimateLeg(from, to);
+  return {
+    distance: Math.round(leg.distance_km * 1000),
+    duration: Math.round(leg.minutes * 60),
+    polyline: null,
+    source: "estimate",
+  };
+}
+
+/**
+ * Where an order is delivered, from the stored handling (handling.delivery)
+ * or the POS request shape (delivery_lat / delivery_lng)
+ */
+export function getHandlingDeliveryPoint(handling: Record<string, unknown>): LatLng | null {
+  const delivery = handling.delivery as { lat?: unknown; lng?: unknown } | undefined;
+  const lat = delivery?.lat ?? handling.delivery_lat;
+  const lng = delivery?.lng ?? handling.delivery_lng;
+  return typeof lat === "number" && typeof lng === "number" ? { lat, lng } : null;
+}
+
+/**
+ * Zone-based fee for a delivery address; null when no zones are set up
+ */
+export async function quoteDeliveryAddress(
+  supabase: SupabaseClient,
+  point: LatLng
+): Promise<DeliveryFeeQuote | null> {
+  const [zones, rules] = await Promise.all([loadDeliveryZones(supabase), loadPricingRules(supabase)]);
+  if (!zones.some((z) => z.is_active)) return null;
+
+  const road = await getRoadDistance(point);
+  return quoteDeliveryFee(zones, point, { km: road.distance / 1000, source: road.source }, rules);
+}
@@ -0,0 +1,172 @@
+/**
+ * Delivery fee zones
+ * Zones are radius bands (road distance from the store) or polygons drawn
+ * on the map. The first active zone containing the address, highest
+ * priority first, prices the delivery:
+ *   base_fee + per_km_rate x (distance - included_km), rounded up to the peso
+ * and never below delivery_fee_min. No active zones means the flat
+ * delivery_fee_default still applies (quote is null).
+ * Works with both the browser and the server Supabase clients.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { DEFAULT_PRICING_RULES } from "@/src/app/in/pos/logic/posHelpers";
+import { PricingRules } from "@/src/app/in/pos/logic/posTypes";
+import { LatLng } from "@/src/app/utils/routePlanner";
+
+export const DELIVERY_ZONE_TYPES = ["radius", "polygon"] as const;
+
+export type DeliveryZoneType = (typeof DELIVERY_ZONE_TYPES)[number];
+
+export interface DeliveryZone {
+  id: string;
+  name: string;
+  zone_type: DeliveryZoneType;
+  min_km: number;                         // Radius zones: band starts here (inclusive)
+  max_km: number | null;                  // Radius zones: band ends here (exclusive)
+  polygon: LatLng[] | null;               // Polygon zones: vertices in drawing order
+  base_fee: number;
+  included_km: number;                    // Distance covered by the base fee
+  per_km_rate: number;                    // Per km beyond included_km
+  priority: number;                       // Higher wins when zones overlap
+  is_active: boolean;
+}
+
+export interface DeliveryFeeQuote {
+  fee: number | null;                     // null when the address is outside every zone
+  zone_id: string | null;
+  zone_name: string | null;
+  distance_km: number;
+  distance_source: "google" | "estimate";
+  out_of_area: boolean;
+}
+
+export function validateDeliveryZone(zone: Partial<DeliveryZone>): string | null {
+  if (!zone.name?.trim()) return "Zone name is required";
+  if (!zone.zone_type || !DELIVERY_ZONE_TYPES.includes(zone.zone_type)) {
+    return "Zone type must be radius or polygon";
+  }
+
+  const numbers: [string, unknown][] = [
+    ["Base fee", zone.base_fee],
+    ["Included km", zone.included_km],
+    ["Per km rate", zone.per_km_rate],
+    ["Minimum km", zone.min_km],
+  ];
+  for (const [label, value] of numbers) {
+    if (value === undefined || value === null || isNaN(Number(value)) || Number(value) < 0) {
+      return `${label} must be 0 or more`;
+    }
+  }
+  if (zone.priority !== undefined && !Number.isInteger(Number(zone.priority))) {
+    return "Priority must be a whole number";
+  }
+
+  if (zone.zone_type === "radius") {
+    if (zone.max_km == null || isNaN(Number(zone.max_km)) || Number(zone.max_km) <= Number(zone.min_km)) {
+      return "Maximum km must be greater than minimum km";
+    }
+  } else {
+    const points = zone.polygon || [];
+    if (points.length < 3) return "Draw at least 3 points for the zone";
+    if (points.some((p) => typeof p?.lat !== "number" || typeof p?.lng !== "number")) {
+      return "Zone points need lat and lng";
+    }
+  }
+  return null;
+}
+
+/**
+ * Ray casting test; treats lng as x and lat as y (fine at city scale)
+ */
+export function isPointInPolygon(point: LatLng, polygon: LatLng[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses =
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * The zone that prices a delivery, or null when outside every zone
+ * Highest priority first; on a tie polygons win over radius bands.
+ */
+export function findDeliveryZone(
+  zones: DeliveryZone[],
+  point: LatLng,
+  distanceKm: number
+): DeliveryZone | null {
+  const candidates = zones
+    .filter((z) => z.is_active)
+    .sort(
+      (a, b) =>
+        b.priority - a.priority ||
+        (a.zone_type === b.zone_type ? 0 : a.zone_type === "polygon" ? -1 : 1) ||
+        a.min_km - b.min_km
+    );
+
+  return (
+    candidates.find((zone) =>
+      zone.zone_type === "polygon"
+        ? isPointInPolygon(point, zone.polygon || [])
+        : distanceKm >= zone.min_km && zone.max_km !== null && distanceKm < zone.max_km
+    ) || null
+  );
+}
+
+export function calculateZoneFee(
+  zone: DeliveryZone,
+  distanceKm: number,
+  rules: PricingRules = DEFAULT_PRICING_RULES
+): number {
+  const extraKm = Math.max(0, distanceKm - zone.included_km);
+  const fee = Math.ceil(zone.base_fee + zone.per_km_rate * extraKm);
+  return Math.max(fee, rules.delivery_fee_min);
+}
+
+/**
+ * Price a delivery from its zone; null when no zones are set up
+ */
+export function quoteDeliveryFee(
+  zones: DeliveryZone[],
+  point: LatLng,
+  distance: { km: number; source: "google" | "estimate" },
+  rules: PricingRules = DEFAULT_PRICING_RULES
+): DeliveryFeeQuote | null {
+  if (!zones.some((z) => z.is_active)) return null;
+
+  const zone = findDeliveryZone(zones, point, distance.km);
+  return {
+    fee: zone ? calculateZoneFee(zone, distance.km, rules) : null,
+    zone_id: zone?.id || null,
+    zone_name: zone?.name || null,
+    distance_km: Math.round(distance.km * 100) / 100,
+    distance_source: distance.source,
+    out_of_area: !zone,
+  };
+}
+
+export async function loadDeliveryZones(supabase: SupabaseClient): Promise<DeliveryZone[]> {
+  const { data, error } = await supabase
+    .from("delivery_zones")
+    .select("*")
+    .order("priority", { ascending: false })
+    .order("min_km", { ascending: true });
+
+  if (error) throw error;
+
+  // NUMERIC columns come back as strings
+  return (data || []).map((z) => ({
+    ...z,
+    min_km: Number(z.min_km),
+    max_km: z.max_km === null ? null : Number(z.max_km),
+    base_fee: Number(z.base_fee),
+    included_km: Number(z.included_km),
+    per_km_rate: Number(z.per_km_rate),
+  })) as DeliveryZone[];
+}
@@ -0,0 +1,161 @@
+/**
+ * ESC/POS encoding for 80mm thermal printers
+ * Print output is described as a list of blocks (text with bold, size and
+ * alignment, QR codes, paper feed and cut) and encoded to the raw bytes the
+ * printer understands. Receipts reuse the 40-column text of
+ * formatReceiptAsPlaintext with the headings and totals emphasised and a QR
+ * code of the order ID; basket tags are short slips clipped to each basket.
+ * Text is sent as ASCII; other characters print as "?" (₱ prints as "P").
+ * Works in the browser (WebUSB / Web Serial) and on the server.
+ */
+
+import {
+  BasketData,
+  CompactReceipt,
+  formatReceiptAsPlaintext,
+} from "@/src/app/in/pos/logic/receiptGenerator";
+import { formatToPST } from "@/src/app/utils/dateUtils";
+
+export type EscPosAlign = "left" | "center" | "right";
+
+export type EscPosBlock =
+  | { type: "text"; text: string; bold?: boolean; align?: EscPosAlign; doubleSize?: boolean }
+  | { type: "qr"; data: string; moduleSize?: number; align?: EscPosAlign }
+  | { type: "feed"; lines: number }
+  | { type: "cut"; partial?: boolean };
+
+export interface BasketTag {
+  orderId: string;
+  customerName: string;
+  basket: BasketData;
+  basketCount: number;
+  timestamp: string;
+}
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const ALIGN_CODES: Record<EscPosAlign, number> = { left: 0, center: 1, right: 2 };
+
+// Receipt lines printed bold (compared after trimming)
+const RECEIPT_HEADINGS = new Set(["KATFLIX LAUNDRY", "ORDER RECEIPT", "REFUND SLIP", "LAUNDRY SERVICES", "PRODUCTS", "SUMMARY"]);
+
+function asciiBytes(text: string): number[] {
+  return Array.from(text.replace(/₱/g, "P"), (char) => {
+    const code = char.charCodeAt(0);
+    return code === LF || (code >= 0x20 && code <= 0x7e) ? code : 0x3f;
+  });
+}
+
+function qrBytes(data: string, moduleSize: number): number[] {
+  const payload = asciiBytes(data);
+  const storeLength = payload.length + 3;
+  return [
+    GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00,       // Model 2
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, moduleSize,       // Module size
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31,             // Error correction M
+    GS, 0x28, 0x6b, storeLength & 0xff, storeLength >> 8, 0x31, 0x50, 0x30, ...payload,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30,             // Print the stored symbol
+    LF,
+  ];
+}
+
+/**
+ * Encode print blocks to ESC/POS bytes
+ * Each block resets the style it set, so blocks can be reordered freely.
+ */
+export function encodeEscPos(blocks: EscPosBlock[]): Uint8Array {
+  const bytes: number[] = [ESC, 0x40];
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case "text":
+        bytes.push(ESC, 0x61, ALIGN_CODES[block.align ?? "left"]);
+        if (block.bold) bytes.push(ESC, 0x45, 1);
+        if (block.doubleSize) bytes.push(GS, 0x21, 0x11);
+        bytes.push(...asciiBytes(block.text), LF);
+        if (block.doubleSize) bytes.push(GS, 0x21, 0x00);
+        if (block.bold) bytes.push(ESC, 0x45, 0);
+        break;
+      case "qr":
+        bytes.push(ESC, 0x61, ALIGN_CODES[block.align ?? "center"]);
+        bytes.push(...qrBytes(block.data, block.moduleSize ?? 6));
+        break;
+      case "feed":
+        bytes.push(ESC, 0x64, Math.max(0, Math.min(255, block.lines)));
+        break;
+      case "cut":
+        bytes.push(GS, 0x56, block.partial === false ? 0x00 : 0x01);
+        break;
+    }
+  }
+
+  bytes.push(ESC, 0x61, 0);
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Print blocks of a receipt: the plaintext receipt with bold headings and
+ * totals, a QR code of the order ID, then a cut
+ */
+export function receiptToEscPosBlocks(receipt: CompactReceipt): EscPosBlock[] {
+  const blocks: EscPosBlock[] = formatReceiptAsPlaintext(receipt)
+    .split("\n")
+    .map((line): EscPosBlock => {
+      const trimmed = line.trim();
+      if (trimmed === "KATFLIX LAUNDRY") {
+        return { type: "text", text: trimmed, bold: true, align: "center", doubleSize: true };
+      }
+      if (RECEIPT_HEADINGS.has(trimmed)) {
+        return { type: "text", text: trimmed, bold: true, align: "center" };
+      }
+      if (/^(TOTAL|TOTAL REFUND|BALANCE DUE):/.test(trimmed)) {
+        return { type: "text", text: line, bold: true };
+      }
+      return { type: "text", text: line };
+    });
+
+  blocks.push(
+    { type: "qr", data: receipt.orderId },
+    { type: "text", text: "Scan to look up this order", align: "center" },
+    { type: "feed", lines: 4 },
+    { type: "cut" }
+  );
+  return blocks;
+}
+
+function basketServiceNames(basket: BasketData): string[] {
+  const services = basket.services;
+  if (!services) return [];
+
+  const names: string[] = [];
+  if (services.wash) names.push(services.wash_pricing?.name || `Wash (${services.wash})`);
+  if (services.dry) names.push(services.dry_pricing?.name || `Dry (${services.dry})`);
+  if (services.spin) names.push(services.spin_pricing?.name || "Spin");
+  if (services.additional_dry_time_minutes) names.push(`+${services.additional_dry_time_minutes} min dry`);
+  if (services.iron_weight_kg) names.push(`Iron ${services.iron_weight_kg} kg`);
+  if (services.plastic_bags) names.push(`${services.plastic_bags} plastic bag(s)`);
+  return names;
+}
+
+/**
+ * Print blocks of a basket tag: order, customer and basket number in large
+ * print, the services to run, and a QR code of "<order id>:<basket number>"
+ */
+export function basketTagToEscPosBlocks(tag: BasketTag): EscPosBlock[] {
+  const shortOrderId = tag.orderId.split("-")[0].toUpperCase();
+
+  return [
+    { type: "text", text: `#${shortOrderId}`, bold: true, align: "center", doubleSize: true },
+    { type: "text", text: `BASKET ${tag.basket.basket_number} OF ${tag.basketCount}`, bold: true, align: "center", doubleSize: true },
+    { type: "text", text: tag.customerName.substring(0, 40), bold: true, align: "center" },
+    { type: "text", text: formatToPST(tag.timestamp), align: "center" },
+    { type: "text", text: "-".repeat(40) },
+    { type: "text", text: `Weight: ${tag.basket.weight_kg} kg` },
+    ...basketServiceNames(tag.basket).map((name): EscPosBlock => ({ type: "text", text: `- ${name}`.substring(0, 40) })),
+    { type: "qr", data: `${tag.orderId}:${tag.basket.basket_number}`, moduleSize: 5 },
+    { type: "feed", lines: 3 },
+    { type: "cut" },
+  ];
+}
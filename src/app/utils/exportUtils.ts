@@ -1,5 +1,7 @@
 import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
+import { formatToPST } from "@/src/app/utils/dateUtils";
+import { CASH_MOVEMENT_LABELS, DayReport, ShiftReport } from "@/src/app/utils/cashShifts";
 
 /**
  * Format a number as currency with proper symbol, decimals, and thousands separators
@@ -412,6 +414,273 @@ export function generateTransactionsPDF(
   return doc;
 }
 
+const SHIFT_TABLE_STYLES = {
+  margin: { left: 15, right: 15 },
+  theme: "grid" as const,
+  styles: {
+    fontSize: 8,
+    cellPadding: 2,
+  },
+  headStyles: {
+    fillColor: [59, 130, 246] as [number, number, number],
+    textColor: [255, 255, 255] as [number, number, number],
+    fontStyle: "bold" as const,
+    fontSize: 8,
+  },
+  alternateRowStyles: {
+    fillColor: [243, 244, 246] as [number, number, number],
+  },
+};
+
+// Bottom of the table autoTable drew last
+function lastTableY(doc: jsPDF): number {
+  return (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+}
+
+function formatVariance(value: number | null): string {
+  if (value === null) return "-";
+  if (value === 0) return formatCurrencyPDF(0);
+  return `${value > 0 ? "Over" : "Short"} ${formatCurrencyPDF(Math.abs(value))}`;
+}
+
+/**
+ * X report: the running totals of one shift
+ * Printed mid-shift it shows what the drawer should hold right now; printed
+ * for a closed shift it also shows the count and the variance.
+ */
+export function generateXReportPDF(report: ShiftReport, userEmail?: string) {
+  const { shift, summary, movements, refunds } = report;
+  const doc = new jsPDF();
+  let yPosition = 15;
+
+  doc.setFontSize(18);
+  doc.text("X Report", doc.internal.pageSize.getWidth() / 2, yPosition, {
+    align: "center",
+  });
+
+  yPosition += 10;
+  doc.setFontSize(9);
+  doc.text(`Cashier: ${shift.staff_name || "Unknown"}`, 15, yPosition);
+  yPosition += 4;
+  doc.text(
+    `Shift: ${formatToPST(shift.opened_at)} to ${shift.closed_at ? formatToPST(shift.closed_at) : "still open"}`,
+    15,
+    yPosition
+  );
+  yPosition += 4;
+  doc.text(`Generated: ${formatToPST(new Date().toISOString())} | By: ${userEmail || "System"}`, 15, yPosition);
+
+  yPosition += 6;
+  const cashRows = [
+    ["Opening float", formatCurrencyPDF(Number(shift.opening_float))],
+    [`Cash sales (${summary.cash_payment_count} payments)`, formatCurrencyPDF(summary.cash_sales)],
+    ["Cash in", formatCurrencyPDF(summary.cash_in)],
+    ["Cash out", `- ${formatCurrencyPDF(summary.cash_out)}`],
+    ["Cash refunds", `- ${formatCurrencyPDF(summary.cash_refunds)}`],
+    ["Expected cash in drawer", formatCurrencyPDF(summary.expected_cash)],
+  ];
+  if (shift.status === "closed") {
+    cashRows.push(
+      ["Counted cash", formatCurrencyPDF(Number(shift.counted_cash))],
+      ["Variance", formatVariance(shift.cash_variance === null ? null : Number(shift.cash_variance))]
+    );
+  }
+
+  autoTable(doc, {
+    ...SHIFT_TABLE_STYLES,
+    startY: yPosition,
+    head: [["Cash", "Amount"]],
+    body: cashRows,
+    columnStyles: { 1: { halign: "right" } },
+  });
+  yPosition = lastTableY(doc) + 6;
+
+  const gcashRows = [
+    [`GCash sales (${summary.gcash.count} payments)`, formatCurrencyPDF(summary.gcash_sales)],
+    ["GCash refunds", `- ${formatCurrencyPDF(summary.gcash_refunds)}`],
+    ["Expected on statement", formatCurrencyPDF(summary.expected_gcash)],
+    ["Missing reference", summary.gcash.missing_reference.length.toString()],
+    [
+      "Duplicate references",
+      summary.gcash.duplicate_references.length > 0 ? summary.gcash.duplicate_references.join(", ") : "None",
+    ],
+  ];
+  if (shift.counted_gcash !== null) {
+    gcashRows.push(
+      ["GCash statement total", formatCurrencyPDF(Number(shift.counted_gcash))],
+      ["Variance", formatVariance(shift.gcash_variance === null ? null : Number(shift.gcash_variance))]
+    );
+  }
+
+  autoTable(doc, {
+    ...SHIFT_TABLE_STYLES,
+    startY: yPosition,
+    head: [["GCash", ""]],
+    body: gcashRows,
+    columnStyles: { 1: { halign: "right" } },
+  });
+  yPosition = lastTableY(doc) + 6;
+
+  if (movements.length > 0) {
+    autoTable(doc, {
+      ...SHIFT_TABLE_STYLES,
+      startY: yPosition,
+      head: [["Time", "Type", "Reason", "Amount"]],
+      body: movements.map((m) => [
+        formatToPST(m.created_at),
+        CASH_MOVEMENT_LABELS[m.type],
+        m.reason,
+        formatCurrencyPDF(Number(m.amount)),
+      ]),
+      columnStyles: { 3: { halign: "right" } },
+    });
+    yPosition = lastTableY(doc) + 6;
+  }
+
+  if (refunds.length > 0) {
+    autoTable(doc, {
+      ...SHIFT_TABLE_STYLES,
+      startY: yPosition,
+      head: [["Time", "Order", "Method", "Reason", "Refund"]],
+      body: refunds.map((r) => [
+        formatToPST(r.created_at),
+        r.order_id.slice(0, 8),
+        r.method === "gcash" ? "GCash" : "Cash",
+        r.reason,
+        formatCurrencyPDF(Number(r.amount)),
+      ]),
+      columnStyles: { 4: { halign: "right" } },
+    });
+  }
+
+  return doc;
+}
+
+/**
+ * Z report: every shift of a business day with the day's totals
+ */
+export function generateZReportPDF(report: DayReport, userEmail?: string) {
+  const doc = new jsPDF("l");
+  let yPosition = 15;
+
+  doc.setFontSize(18);
+  doc.text("Z Report", doc.internal.pageSize.getWidth() / 2, yPosition, {
+    align: "center",
+  });
+
+  yPosition += 10;
+  doc.setFontSize(9);
+  doc.text(`Business day: ${formatDate(report.date)}`, 15, yPosition);
+  yPosition += 4;
+  doc.text(`Generated: ${formatToPST(new Date().toISOString())} | By: ${userEmail || "System"}`, 15, yPosition);
+  if (report.open_shifts > 0) {
+    yPosition += 4;
+    doc.setTextColor(220, 38, 38);
+    doc.text(
+      `${report.open_shifts} shift(s) still open: their figures are running totals and are not counted yet.`,
+      15,
+      yPosition
+    );
+    doc.setTextColor(0, 0, 0);
+  }
+
+  yPosition += 6;
+  const { totals } = report;
+  autoTable(doc, {
+    ...SHIFT_TABLE_STYLES,
+    startY: yPosition,
+    head: [
+      ["Cashier", "Opened", "Closed", "Float", "Cash Sales", "GCash", "Cash In", "Cash Out", "Refunds", "Expected", "Counted", "Variance"],
+    ],
+    body: [
+      ...report.shifts.map(({ shift, summary }) => {
+        const closed = shift.status === "closed";
+        return [
+          shift.staff_name || "Unknown",
+          formatToPST(shift.opened_at),
+          closed ? formatToPST(shift.closed_at) : "Open",
+          formatCurrencyPDF(Number(shift.opening_float)),
+          formatCurrencyPDF(closed ? Number(shift.cash_sales) : summary.cash_sales),
+          formatCurrencyPDF(closed ? Number(shift.gcash_sales) : summary.gcash_sales),
+          formatCurrencyPDF(closed ? Number(shift.cash_in) : summary.cash_in),
+          formatCurrencyPDF(closed ? Number(shift.cash_out) : summary.cash_out),
+          formatCurrencyPDF(closed ? Number(shift.cash_refunds) : summary.cash_refunds),
+          formatCurrencyPDF(closed ? Number(shift.expected_cash) : summary.expected_cash),
+          closed ? formatCurrencyPDF(Number(shift.counted_cash)) : "-",
+          closed ? formatVariance(Number(shift.cash_variance)) : "-",
+        ];
+      }),
+      [
+        "TOTAL",
+        "",
+        "",
+        formatCurrencyPDF(totals.opening_float),
+        formatCurrencyPDF(totals.cash_sales),
+        formatCurrencyPDF(totals.gcash_sales),
+        formatCurrencyPDF(totals.cash_in),
+        formatCurrencyPDF(totals.cash_out),
+        formatCurrencyPDF(totals.cash_refunds),
+        formatCurrencyPDF(totals.expected_cash),
+        formatCurrencyPDF(totals.counted_cash),
+        formatVariance(totals.cash_variance),
+      ],
+    ],
+    columnStyles: {
+      3: { halign: "right" },
+      4: { halign: "right" },
+      5: { halign: "right" },
+      6: { halign: "right" },
+      7: { halign: "right" },
+      8: { halign: "right" },
+      9: { halign: "right" },
+      10: { halign: "right" },
+      11: { halign: "right" },
+    },
+  });
+  yPosition = lastTableY(doc) + 6;
+
+  // GCash payments that cannot be matched to the statement
+  const gcashIssues = report.shifts.flatMap(({ shift, summary }) => [
+    ...summary.gcash.missing_reference.map((orderId) => [
+      shift.staff_name || "Unknown",
+      "Missing reference",
+      orderId,
+    ]),
+    ...summary.gcash.duplicate_references.map((ref) => [
+      shift.staff_name || "Unknown",
+      "Duplicate reference",
+      ref,
+    ]),
+  ]);
+
+  if (gcashIssues.length > 0) {
+    autoTable(doc, {
+      ...SHIFT_TABLE_STYLES,
+      startY: yPosition,
+      head: [["Cashier", "GCash Issue", "Order / Reference"]],
+      body: gcashIssues,
+    });
+  } else if (report.shifts.length === 0) {
+    doc.setFontSize(10);
+    doc.text("No shifts were opened on this day.", 15, yPosition);
+  }
+
+  // Footer
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.text(
+      `Page ${i} of ${pageCount}`,
+      doc.internal.pageSize.getWidth() / 2,
+      doc.internal.pageSize.getHeight() - 10,
+      { align: "center" }
+    );
+  }
+
+  return doc;
+}
+
 function formatDate(dateString: string): string {
   try {
     const date = new Date(dateString);
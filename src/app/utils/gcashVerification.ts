@@ -0,0 +1,218 @@
+/**
+ * GCash receipt verification
+ * Mobile orders paid by GCash carry a receipt screenshot (gcash_receipt_url)
+ * that staff review from the queue on the baskets page. Verifying records
+ * the GCash payment under the receipt's reference (verify_gcash_payment);
+ * a reference can back one payment only. Until the receipt is verified the
+ * order cannot be accepted (see the order lifecycle guards).
+ * Works with both the browser and the server Supabase clients.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+
+export const GCASH_VERIFICATION_STATUSES = ["pending", "verified", "rejected", "reupload_requested"] as const;
+
+export type GcashVerificationStatus = (typeof GCASH_VERIFICATION_STATUSES)[number];
+
+export const GCASH_VERIFICATION_LABELS: Record<GcashVerificationStatus, string> = {
+  pending: "Awaiting review",
+  verified: "Verified",
+  rejected: "Rejected",
+  reupload_requested: "Re-upload requested",
+};
+
+export const GCASH_REVIEW_ACTIONS = ["verify", "reject", "request_reupload"] as const;
+
+export type GcashReviewAction = (typeof GCASH_REVIEW_ACTIONS)[number];
+
+export interface GcashVerificationOrder {
+  id: string;
+  status: string;
+  source: string;
+  total_amount: number;
+  amount_paid: number;
+  created_at: string;
+  gcash_receipt_url: string | null;
+  gcash_reference: string | null;         // From the customer, confirmed at verification
+  gcash_verification_status: GcashVerificationStatus;
+  gcash_verification_note: string | null;
+  gcash_verified_by: string | null;
+  gcash_verified_by_name: string | null;
+  gcash_verified_at: string | null;
+  customer_id: string | null;
+  customer_name: string | null;
+  phone_number: string | null;
+  duplicate_of: string[];                 // Other orders already paid with the same reference
+}
+
+// verify_gcash_payment raises these SQLSTATEs
+const RPC_ERROR_STATUS: Record<string, number> = {
+  OC400: 400,
+  OC404: 404,
+  OC409: 409,
+};
+
+const QUEUE_SELECT = `
+  id, status, source, total_amount, amount_paid, created_at, handling, customer_id,
+  gcash_receipt_url, gcash_verification_status, gcash_verification_note,
+  gcash_verified_by, gcash_verified_at,
+  customers:customer_id(first_name, last_name, phone_number),
+  verifier:gcash_verified_by(first_name, last_name)
+`;
+
+/**
+ * Why a pending order cannot be accepted yet, or null when it can
+ * Orders without a GCash receipt are not held back.
+ */
+export function gcashAcceptanceError(order: { gcash_verification_status?: string | null }): string | null {
+  switch (order.gcash_verification_status) {
+    case "pending":
+      return "Verify the GCash receipt before accepting this order";
+    case "rejected":
+      return "The GCash receipt was rejected; the order cannot be accepted";
+    case "reupload_requested":
+      return "Waiting for the customer to upload a new GCash receipt";
+    default:
+      return null;
+  }
+}
+
+export function validateGcashReview(body: { action?: unknown; reference?: unknown; reason?: unknown }): string | null {
+  if (!GCASH_REVIEW_ACTIONS.includes(body.action as GcashReviewAction)) {
+    return `action must be one of: ${GCASH_REVIEW_ACTIONS.join(", ")}`;
+  }
+  if (body.action === "verify") {
+    if (typeof body.reference !== "string" || !body.reference.trim()) {
+      return "Enter the GCash reference from the receipt";
+    }
+  } else if (typeof body.reason !== "string" || !body.reason.trim()) {
+    return "A reason is required";
+  }
+  return null;
+}
+
+function normalizeReference(reference: unknown): string | null {
+  return typeof reference === "string" && reference.trim() ? reference.trim() : null;
+}
+
+/**
+ * Orders whose GCash receipt is waiting for review (or was sent back), oldest first
+ * Each is flagged with the orders that already used its reference.
+ */
+export async function loadGcashQueue(
+  supabase: SupabaseClient,
+  statuses: GcashVerificationStatus[] = ["pending", "reupload_requested", "rejected"]
+): Promise<GcashVerificationOrder[]> {
+  const { data, error } = await supabase
+    .from("orders")
+    .select(QUEUE_SELECT)
+    .in("gcash_verification_status", statuses)
+    .neq("status", "cancelled")
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+
+  const rows = data || [];
+  const references = [
+    ...new Set(rows.map((o) => normalizeReference(o.handling?.gcash_reference)).filter((r): r is string => !!r)),
+  ];
+
+  const usedBy = new Map<string, string[]>();
+  if (references.length > 0) {
+    const { data: payments, error: paymentsError } = await supabase
+      .from("payments")
+      .select("order_id, reference")
+      .eq("method", "gcash")
+      .in("reference", references);
+    if (paymentsError) throw paymentsError;
+
+    for (const payment of payments || []) {
+      usedBy.set(payment.reference, [...(usedBy.get(payment.reference) || []), payment.order_id]);
+    }
+  }
+
+  return rows.map((o) => {
+    const customer = Array.isArray(o.customers) ? o.customers[0] : o.customers;
+    const verifier = Array.isArray(o.verifier) ? o.verifier[0] : o.verifier;
+    const reference = normalizeReference(o.handling?.gcash_reference);
+    return {
+      id: o.id,
+      status: o.status,
+      source: o.source,
+      total_amount: Number(o.total_amount),
+      amount_paid: Number(o.amount_paid),
+      created_at: o.created_at,
+      gcash_receipt_url: o.gcash_receipt_url,
+      gcash_reference: reference,
+      gcash_verification_status: o.gcash_verification_status,
+      gcash_verification_note: o.gcash_verification_note,
+      gcash_verified_by: o.gcash_verified_by,
+      gcash_verified_by_name: verifier ? `${verifier.first_name} ${verifier.last_name}` : null,
+      gcash_verified_at: o.gcash_verified_at,
+      customer_id: o.customer_id,
+      customer_name: customer ? `${customer.first_name} ${customer.last_name}` : null,
+      phone_number: customer?.phone_number ?? null,
+      duplicate_of: (reference ? usedBy.get(reference) || [] : []).filter((id) => id !== o.id),
+    };
+  });
+}
+
+/**
+ * Verify an order's GCash receipt and record its payment
+ */
+export async function verifyGcashPayment(
+  supabase: SupabaseClient,
+  orderId: string,
+  reference: string,
+  staffId: string
+): Promise<{ success: true } | { success: false; error: string; status: number }> {
+  const { error } = await supabase.rpc("verify_gcash_payment", {
+    p_order_id: orderId,
+    p_reference: reference.trim(),
+    p_staff_id: staffId,
+  });
+
+  if (error) {
+    const status = RPC_ERROR_STATUS[error.code] ?? 500;
+    return {
+      success: false,
+      error: status === 500 ? "Failed to verify GCash payment" : error.message,
+      status,
+    };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Reject a GCash receipt or ask the customer for a new one
+ * Only receipts that are not verified yet can be sent back.
+ */
+export async function returnGcashReceipt(
+  supabase: SupabaseClient,
+  orderId: string,
+  params: { action: "reject" | "request_reupload"; reason: string; staffId: string }
+): Promise<{ success: true } | { success: false; error: string; status: number }> {
+  const { data, error } = await supabase
+    .from("orders")
+    .update({
+      gcash_verification_status: params.action === "reject" ? "rejected" : "reupload_requested",
+      gcash_verification_note: params.reason.trim(),
+      gcash_verified_by: params.staffId,
+      gcash_verified_at: new Date().toISOString(),
+    })
+    .eq("id", orderId)
+    .in("gcash_verification_status", ["pending", "reupload_requested"])
+    .neq("status", "cancelled")
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    console.error("[GCASH VERIFICATION] Failed to update receipt status:", error.message);
+    return { success: false, error: "Failed to update GCash receipt", status: 500 };
+  }
+  if (!data) {
+    return { success: false, error: "Order has no GCash receipt waiting for review", status: 409 };
+  }
+
+  return { success: true };
+}
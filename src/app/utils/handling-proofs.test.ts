@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { handlingProofFormFromJson, parseHandlingProof } from "@/src/app/utils/handling-proofs";
+
+const PNG_DATA_URL = `data:image/png;base64,${Buffer.from("fake png bytes").toString("base64")}`;
+
+describe("handlingProofFormFromJson", () => {
+  it("returns null for a JSON body without proof fields", () => {
+    expect(handlingProofFormFromJson({ action: "complete", handlingType: "delivery" })).toBeNull();
+  });
+
+  it("turns data URLs and fields into a proof parseHandlingProof accepts", async () => {
+    const form = handlingProofFormFromJson({
+      action: "complete",
+      handlingType: "delivery",
+      photo: PNG_DATA_URL,
+      signature: PNG_DATA_URL,
+      recipient_name: "  Lea Santos ",
+      lat: 14.5995,
+      lng: 120.9842,
+      accuracy_m: 8,
+    });
+    expect(form).not.toBeNull();
+
+    const parsed = parseHandlingProof(form!);
+    expect(parsed.success).toBe(true);
+    if (!parsed.success) return;
+    expect(parsed.data.photo.type).toBe("image/png");
+    expect(await parsed.data.photo.text()).toBe("fake png bytes");
+    expect(parsed.data.signature).not.toBeNull();
+    expect(parsed.data).toMatchObject({ recipient_name: "Lea Santos", lat: 14.5995, lng: 120.9842, accuracy_m: 8 });
+  });
+
+  it("leaves a photo that is not a data URL out so the proof is rejected", () => {
+    const form = handlingProofFormFromJson({ photo: "https://example.com/p.jpg", recipient_name: "Lea", lat: 1, lng: 2 });
+
+    expect(parseHandlingProof(form!)).toEqual({ success: false, error: "A proof photo is required" });
+  });
+});
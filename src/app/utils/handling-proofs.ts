@@ -0,0 +1,295 @@
+/**
+ * Proof of pickup and delivery (server only)
+ *
+ * A rider completes a pickup or delivery leg with a photo, an optional
+ * signature image, the recipient's name and their GPS fix. The images are
+ * kept in the private handling-proofs storage bucket under
+ * <order id>/<leg>-<kind>-<timestamp>.<ext> and listed in
+ * order_handling_proofs, one row per order leg. Files are only handed out
+ * through signed URLs that expire after PROOF_LINK_TTL_SECONDS.
+ * Needs a service role client: the bucket has no storage policies.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { RouteLeg } from "@/src/app/utils/routePlanner";
+
+export const HANDLING_PROOFS_BUCKET = "handling-proofs";
+export const PROOF_LINK_TTL_SECONDS = 5 * 60;
+export const MAX_PROOF_IMAGE_BYTES = 8 * 1024 * 1024;
+
+// Accepted image types and the extension they are stored under
+const PROOF_IMAGE_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/heic": "heic",
+  "image/heif": "heif",
+};
+
+const PROOF_COLUMNS =
+  "id, order_id, leg, photo_path, signature_path, recipient_name, lat, lng, accuracy_m, captured_by, captured_at";
+
+export interface HandlingProofInput {
+  photo: File;
+  signature: File | null;
+  recipient_name: string;
+  lat: number;
+  lng: number;
+  accuracy_m: number | null;
+}
+
+export interface HandlingProof {
+  id: string;
+  order_id: string;
+  leg: RouteLeg;
+  photo_path: string;
+  signature_path: string | null;
+  recipient_name: string;
+  lat: number;
+  lng: number;
+  accuracy_m: number | null;
+  captured_by: string | null;
+  captured_at: string;
+}
+
+export interface HandlingProofLinks extends HandlingProof {
+  captured_by_name: string | null;
+  photo_url: string;
+  signature_url: string | null;
+  expires_at: string;
+}
+
+export type ProofParseResult =
+  | { success: true; data: HandlingProofInput }
+  | { success: false; error: string };
+
+function imageError(file: File, field: string): string | null {
+  if (!PROOF_IMAGE_TYPES[file.type]) return `${field} must be a JPEG, PNG, WebP or HEIC image`;
+  if (file.size === 0) return `${field} is empty`;
+  if (file.size > MAX_PROOF_IMAGE_BYTES) return `${field} is larger than ${MAX_PROOF_IMAGE_BYTES / (1024 * 1024)} MB`;
+  return null;
+}
+
+function numberField(form: FormData, name: string): number | null {
+  const value = form.get(name);
+  if (typeof value !== "string" || value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : NaN;
+}
+
+// Proof fields a JSON complete request may carry
+const PROOF_JSON_FIELDS = ["photo", "signature", "recipient_name", "lat", "lng", "accuracy_m"];
+
+function dataUrlFile(value: unknown, name: string): File | null {
+  const match = typeof value === "string" ? value.match(/^data:([\w/+.-]+);base64,(.+)$/) : null;
+  if (!match) return null;
+  return new File([Buffer.from(match[2], "base64")], name, { type: match[1] });
+}
+
+/**
+ * Proof fields of a JSON complete request as the form parseHandlingProof()
+ * reads, for rider apps that cannot post multipart
+ * photo and signature are data URLs ("data:image/jpeg;base64,...").
+ * Returns null when the body carries no proof fields at all.
+ */
+export function handlingProofFormFromJson(body: Record<string, unknown>): FormData | null {
+  if (!PROOF_JSON_FIELDS.some((field) => body[field] !== undefined && body[field] !== null)) return null;
+
+  const form = new FormData();
+  const photo = dataUrlFile(body.photo, "photo");
+  const signature = dataUrlFile(body.signature, "signature");
+  if (photo) form.append("photo", photo);
+  if (signature) form.append("signature", signature);
+  for (const field of ["recipient_name", "lat", "lng", "accuracy_m"]) {
+    if (body[field] !== undefined && body[field] !== null) form.append(field, String(body[field]));
+  }
+  return form;
+}
+
+/**
+ * Read the proof fields of a multipart complete request
+ * Fields: photo (file), signature (file, optional), recipient_name, lat, lng,
+ * accuracy_m (optional)
+ */
+export function parseHandlingProof(form: FormData): ProofParseResult {
+  const photo = form.get("photo");
+  if (!(photo instanceof File)) return { success: false, error: "A proof photo is required" };
+  const photoError = imageError(photo, "photo");
+  if (photoError) return { success: false, error: photoError };
+
+  const signatureField = form.get("signature");
+  const signature = signatureField instanceof File && signatureField.size > 0 ? signatureField : null;
+  if (signature) {
+    const signatureError = imageError(signature, "signature");
+    if (signatureError) return { success: false, error: signatureError };
+  }
+
+  const recipientField = form.get("recipient_name");
+  const recipientName = typeof recipientField === "string" ? recipientField.trim() : "";
+  if (!recipientName) return { success: false, error: "recipient_name is required" };
+
+  const lat = numberField(form, "lat");
+  const lng = numberField(form, "lng");
+  if (lat === null || lng === null || isNaN(lat) || isNaN(lng)) {
+    return { success: false, error: "lat and lng are required numbers" };
+  }
+  if (lat < -90 || lat > 90 || lng < -180 || lng > 180) {
+    return { success: false, error: "lat or lng is out of range" };
+  }
+
+  const accuracy = numberField(form, "accuracy_m");
+  if (accuracy !== null && (isNaN(accuracy) || accuracy < 0)) {
+    return { success: false, error: "accuracy_m must be a non-negative number" };
+  }
+
+  return {
+    success: true,
+    data: {
+      photo,
+      signature,
+      recipient_name: recipientName.slice(0, 120),
+      lat,
+      lng,
+      accuracy_m: accuracy,
+    },
+  };
+}
+
+async function uploadProofImage(
+  supabase: SupabaseClient,
+  orderId: string,
+  name: string,
+  file: File,
+  capturedAt: Date
+): Promise<string> {
+  const stamp = capturedAt.toISOString().replace(/[:.]/g, "-");
+  const storagePath = `${orderId}/${name}-${stamp}.${PROOF_IMAGE_TYPES[file.type]}`;
+
+  const { error } = await supabase.storage
+    .from(HANDLING_PROOFS_BUCKET)
+    .upload(storagePath, await file.arrayBuffer(), { contentType: file.type, upsert: true });
+  if (error) throw error;
+
+  return storagePath;
+}
+
+/**
+ * Whether a leg of an order already has its proof
+ */
+export async function hasHandlingProof(supabase: SupabaseClient, orderId: string, leg: RouteLeg): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("order_handling_proofs")
+    .select("id")
+    .eq("order_id", orderId)
+    .eq("leg", leg)
+    .maybeSingle();
+  if (error) throw error;
+  return !!data;
+}
+
+/**
+ * Upload the images of a leg's proof and record it, replacing an earlier one
+ */
+export async function storeHandlingProof(
+  supabase: SupabaseClient,
+  params: { orderId: string; leg: RouteLeg; staffId: string | null; input: HandlingProofInput }
+): Promise<HandlingProof> {
+  const { orderId, leg, input } = params;
+  const capturedAt = new Date();
+
+  const { data: previous, error: previousError } = await supabase
+    .from("order_handling_proofs")
+    .select("photo_path, signature_path")
+    .eq("order_id", orderId)
+    .eq("leg", leg)
+    .maybeSingle();
+  if (previousError) throw previousError;
+
+  const photoPath = await uploadProofImage(supabase, orderId, `${leg}-photo`, input.photo, capturedAt);
+  const signaturePath = input.signature
+    ? await uploadProofImage(supabase, orderId, `${leg}-signature`, input.signature, capturedAt)
+    : null;
+
+  const { data, error } = await supabase
+    .from("order_handling_proofs")
+    .upsert(
+      {
+        order_id: orderId,
+        leg,
+        photo_path: photoPath,
+        signature_path: signaturePath,
+        recipient_name: input.recipient_name,
+        lat: input.lat,
+        lng: input.lng,
+        accuracy_m: input.accuracy_m,
+        captured_by: params.staffId,
+        captured_at: capturedAt.toISOString(),
+      },
+      { onConflict: "order_id,leg" }
+    )
+    .select(PROOF_COLUMNS)
+    .single();
+  if (error) throw error;
+
+  // The replaced images are no longer referenced anywhere
+  const stale = [previous?.photo_path, previous?.signature_path].filter(
+    (p): p is string => !!p && p !== photoPath && p !== signaturePath
+  );
+  if (stale.length > 0) {
+    const { error: removeError } = await supabase.storage.from(HANDLING_PROOFS_BUCKET).remove(stale);
+    if (removeError) {
+      console.warn(`[HANDLING PROOF] Failed to remove replaced images of order ${orderId}:`, removeError.message);
+    }
+  }
+
+  return data as HandlingProof;
+}
+
+/**
+ * Remove a stored proof and its images, e.g. when the completion it was
+ * captured for could not be saved
+ */
+export async function removeHandlingProof(supabase: SupabaseClient, proof: HandlingProof): Promise<void> {
+  const { error } = await supabase.from("order_handling_proofs").delete().eq("id", proof.id);
+  if (error) throw error;
+
+  const paths = proof.signature_path ? [proof.photo_path, proof.signature_path] : [proof.photo_path];
+  const { error: removeError } = await supabase.storage.from(HANDLING_PROOFS_BUCKET).remove(paths);
+  if (removeError) {
+    console.warn(`[HANDLING PROOF] Failed to remove images of proof ${proof.id}:`, removeError.message);
+  }
+}
+
+/**
+ * Proofs recorded for an order, with signed links to their images
+ */
+export async function loadHandlingProofs(supabase: SupabaseClient, orderId: string): Promise<HandlingProofLinks[]> {
+  const { data, error } = await supabase
+    .from("order_handling_proofs")
+    .select(`${PROOF_COLUMNS}, staff:captured_by(first_name, last_name)`)
+    .eq("order_id", orderId)
+    .order("captured_at", { ascending: true });
+  if (error) throw error;
+  if (!data || data.length === 0) return [];
+
+  const rows = data as unknown as (HandlingProof & {
+    staff: { first_name: string | null; last_name: string | null } | null;
+  })[];
+  const paths = rows.flatMap((row) => (row.signature_path ? [row.photo_path, row.signature_path] : [row.photo_path]));
+
+  const { data: signed, error: signError } = await supabase.storage
+    .from(HANDLING_PROOFS_BUCKET)
+    .createSignedUrls(paths, PROOF_LINK_TTL_SECONDS);
+  if (signError || !signed) throw signError ?? new Error("Failed to sign proof URLs");
+
+  const urlOf = (path: string | null) => (path ? signed.find((s) => s.path === path)?.signedUrl ?? null : null);
+  const expiresAt = new Date(Date.now() + PROOF_LINK_TTL_SECONDS * 1000).toISOString();
+
+  return rows.map(({ staff, ...proof }) => ({
+    ...proof,
+    captured_by_name: staff ? `${staff.first_name || ""} ${staff.last_name || ""}`.trim() : null,
+    photo_url: urlOf(proof.photo_path) ?? "",
+    signature_url: urlOf(proof.signature_path),
+    expires_at: expiresAt,
+  }));
+}
@@ -0,0 +1,378 @@
+/**
+ * Loyalty program helpers
+ * Loads tiers/earn rules and writes to the loyalty_transactions ledger.
+ * Every balance change goes through the record_loyalty_transaction RPC so
+ * customers.loyalty_points and the ledger never drift apart.
+ * Works with both the browser and the server Supabase clients.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import {
+  LoyaltySettings,
+  LoyaltyTier,
+  LoyaltyTransaction,
+  LoyaltyTransactionType,
+} from "@/src/app/in/pos/logic/posTypes";
+
+export const DEFAULT_LOYALTY_SETTINGS: LoyaltySettings = {
+  points_per_order: 1,
+  pesos_per_point: null,
+  expire_after_days: null,
+};
+
+export const LOYALTY_TRANSACTION_LABELS: Record<LoyaltyTransactionType, string> = {
+  earn: "Earned",
+  redeem: "Redeemed",
+  expire: "Expired",
+  adjust: "Adjusted",
+};
+
+function toTier(row: {
+  id: string;
+  name: string;
+  points_required: number | string;
+  discount_percent: number | string;
+  is_active: boolean | null;
+}): LoyaltyTier {
+  return {
+    id: row.id,
+    name: row.name,
+    points_required: Number(row.points_required),
+    discount_percent: Number(row.discount_percent),
+    is_active: row.is_active !== false,
+  };
+}
+
+/**
+ * Load loyalty tiers (sorted by points required) and earn settings
+ * Falls back to the defaults if the settings row cannot be read
+ */
+export async function loadLoyaltyProgram(
+  supabase: SupabaseClient,
+  includeInactive: boolean = false
+): Promise<{ tiers: LoyaltyTier[]; settings: LoyaltySettings }> {
+  let tiersQuery = supabase
+    .from("loyalty_tiers")
+    .select("id, name, points_required, discount_percent, is_active")
+    .order("points_required", { ascending: true });
+
+  if (!includeInactive) {
+    tiersQuery = tiersQuery.eq("is_active", true);
+  }
+
+  const [tiersResult, settingsResult] = await Promise.all([
+    tiersQuery,
+    supabase
+      .from("loyalty_settings")
+      .select("points_per_order, pesos_per_point, expire_after_days")
+      .eq("id", 1)
+      .maybeSingle(),
+  ]);
+
+  if (tiersResult.error) {
+    console.warn("[Loyalty] Failed to load tiers:", tiersResult.error.message);
+  }
+  if (settingsResult.error) {
+    console.warn("[Loyalty] Failed to load settings, using defaults:", settingsResult.error.message);
+  }
+
+  const row = settingsResult.data;
+  const settings: LoyaltySettings = row
+    ? {
+        points_per_order: Number(row.points_per_order),
+        pesos_per_point: row.pesos_per_point === null ? null : Number(row.pesos_per_point),
+        expire_after_days: row.expire_after_days === null ? null : Number(row.expire_after_days),
+      }
+    : { ...DEFAULT_LOYALTY_SETTINGS };
+
+  return {
+    tiers: (tiersResult.data || []).map(toTier),
+    settings,
+  };
+}
+
+/**
+ * Validate a tier from the admin page
+ * Returns an error message, or null if the tier is acceptable
+ */
+export function validateLoyaltyTier(tier: Partial<LoyaltyTier>): string | null {
+  if (!tier.name?.trim()) return "Tier name is required";
+  const points = Number(tier.points_required);
+  if (!Number.isInteger(points) || points <= 0) {
+    return "Points required must be a whole number above 0";
+  }
+  const percent = Number(tier.discount_percent);
+  if (!Number.isFinite(percent) || percent <= 0 || percent > 100) {
+    return "Discount must be between 0 and 100%";
+  }
+  return null;
+}
+
+/**
+ * Validate earn rules from the admin page
+ * Returns an error message, or null if the settings are acceptable
+ */
+export function validateLoyaltySettings(
+  settings: Partial<LoyaltySettings>
+): string | null {
+  const perOrder = Number(settings.points_per_order);
+  if (!Number.isInteger(perOrder) || perOrder < 0) {
+    return "Points per order must be a whole number of 0 or more";
+  }
+  if (
+    settings.pesos_per_point !== null &&
+    settings.pesos_per_point !== undefined &&
+    !(Number(settings.pesos_per_point) > 0)
+  ) {
+    return "Pesos per point must be above 0 (or empty to turn off)";
+  }
+  if (
+    settings.expire_after_days !== null &&
+    settings.expire_after_days !== undefined &&
+    !(Number.isInteger(Number(settings.expire_after_days)) && Number(settings.expire_after_days) > 0)
+  ) {
+    return "Expiry must be a whole number of days (or empty for never)";
+  }
+  return null;
+}
+
+/**
+ * Active tiers the customer has enough points to redeem
+ */
+export function getRedeemableTiers(
+  points: number,
+  tiers: LoyaltyTier[]
+): LoyaltyTier[] {
+  return tiers
+    .filter((t) => t.is_active && points >= t.points_required)
+    .sort((a, b) => a.points_required - b.points_required);
+}
+
+/**
+ * Points earned for a completed order
+ * Flat points_per_order plus one point per pesos_per_point spent (if set)
+ */
+export function calculateEarnedPoints(
+  orderTotal: number,
+  settings: LoyaltySettings
+): number {
+  let points = settings.points_per_order;
+  if (settings.pesos_per_point && orderTotal > 0) {
+    points += Math.floor(orderTotal / settings.pesos_per_point);
+  }
+  return Math.max(0, points);
+}
+
+/**
+ * Append a ledger entry and update the customer's balance atomically
+ * Fails (without changing anything) if the balance would go negative
+ */
+export async function recordLoyaltyTransaction(
+  supabase: SupabaseClient,
+  params: {
+    customerId: string;
+    type: LoyaltyTransactionType;
+    points: number;
+    orderId?: string | null;
+    tierId?: string | null;
+    notes?: string | null;
+    staffId?: string | null;
+  }
+): Promise<{ data: LoyaltyTransaction | null; error: string | null }> {
+  const { data, error } = await supabase.rpc("record_loyalty_transaction", {
+    p_customer_id: params.customerId,
+    p_type: params.type,
+    p_points: params.points,
+    p_order_id: params.orderId ?? null,
+    p_tier_id: params.tierId ?? null,
+    p_notes: params.notes ?? null,
+    p_created_by: params.staffId ?? null,
+  });
+
+  if (error) {
+    console.error(`[Loyalty] Failed to record ${params.type} for customer ${params.customerId}:`, error.message);
+    return { data: null, error: error.message };
+  }
+
+  return { data: data as LoyaltyTransaction, error: null };
+}
+
+/**
+ * Award points for a completed order using the current earn rules
+ * Safe to call more than once: an order only ever earns once
+ * @returns true if points were awarded or already had been, false on error
+ */
+export async function awardOrderLoyaltyPoints(
+  supabase: SupabaseClient,
+  orderId: string,
+  customerId: string
+): Promise<boolean> {
+  try {
+    const { data: existing, error: existingError } = await supabase
+      .from("loyalty_transactions")
+      .select("id")
+      .eq("order_id", orderId)
+      .eq("type", "earn")
+      .limit(1);
+
+    if (existingError) {
+      console.warn(`[Loyalty] Failed to check earn history for order ${orderId}:`, existingError.message);
+      return false;
+    }
+    if (existing && existing.length > 0) return true;
+
+    const [{ settings }, { data: order }, { data: refunds }] = await Promise.all([
+      loadLoyaltyProgram(supabase),
+      supabase.from("orders").select("total_amount").eq("id", orderId).single(),
+      supabase.from("refunds").select("amount").eq("order_id", orderId),
+    ]);
+
+    // Points are earned on what the customer kept, not on refunded lines
+    const refunded = (refunds || []).reduce((sum, r) => sum + Number(r.amount), 0);
+    const paid = (Number(order?.total_amount) || 0) - refunded;
+    if (paid <= 0) return true;
+
+    const points = calculateEarnedPoints(paid, settings);
+    if (points <= 0) return true;
+
+    const { error } = await recordLoyaltyTransaction(supabase, {
+      customerId,
+      type: "earn",
+      points,
+      orderId,
+      notes: "Order completed",
+    });
+
+    if (error) return false;
+
+    console.log(`[Loyalty] Awarded ${points} points to customer ${customerId} for order ${orderId}`);
+    return true;
+  } catch (err) {
+    console.error("[Loyalty] Error in awardOrderLoyaltyPoints:", err);
+    return false;
+  }
+}
+
+/**
+ * Take back the points an order earned on lines that were later refunded
+ * The order keeps what its remaining total would earn today (never more than
+ * it actually earned); points already taken back by earlier refunds count.
+ * Orders that have not earned yet need nothing: awardOrderLoyaltyPoints
+ * leaves refunds out. Clamped to the customer's current balance.
+ * @returns points taken back, or null on error
+ */
+export async function reverseRefundedLoyalty(
+  supabase: SupabaseClient,
+  params: {
+    orderId: string;
+    customerId: string;
+    remainingTotal: number;               // Order total less every refund so far
+    alreadyReversed: number;              // Points taken back by earlier refunds
+    staffId?: string | null;
+  }
+): Promise<number | null> {
+  try {
+    const [{ data: earned, error: earnedError }, { data: customer }, { settings }] =
+      await Promise.all([
+        supabase
+          .from("loyalty_transactions")
+          .select("points")
+          .eq("order_id", params.orderId)
+          .eq("type", "earn"),
+        supabase
+          .from("customers")
+          .select("loyalty_points")
+          .eq("id", params.customerId)
+          .single(),
+        loadLoyaltyProgram(supabase),
+      ]);
+
+    if (earnedError) {
+      console.warn(`[Loyalty] Failed to read earn history for order ${params.orderId}:`, earnedError.message);
+      return null;
+    }
+
+    const earnedPoints = (earned || []).reduce((sum, e) => sum + e.points, 0);
+    if (earnedPoints <= 0) return 0;
+
+    const keep = params.remainingTotal > 0
+      ? Math.min(earnedPoints, calculateEarnedPoints(params.remainingTotal, settings))
+      : 0;
+    const balance = customer?.loyalty_points || 0;
+    const points = Math.min(
+      Math.max(0, earnedPoints - params.alreadyReversed - keep),
+      balance
+    );
+
+    if (points === 0) return 0;
+
+    const { error } = await recordLoyaltyTransaction(supabase, {
+      customerId: params.customerId,
+      type: "adjust",
+      points: -points,
+      orderId: params.orderId,
+      notes: "Order refunded",
+      staffId: params.staffId,
+    });
+
+    return error ? null : points;
+  } catch (err) {
+    console.error("[Loyalty] Error in reverseRefundedLoyalty:", err);
+    return null;
+  }
+}
+
+/**
+ * Undo the loyalty effect of an order (cancelled/rejected orders)
+ * Returns redeemed points and takes back earned points, clamped to the
+ * customer's current balance. Safe to call more than once.
+ * @returns true if nothing needed reversing or the reversal was recorded
+ */
+export async function reverseOrderLoyalty(
+  supabase: SupabaseClient,
+  orderId: string,
+  customerId: string,
+  reason: string,
+  staffId: string | null = null
+): Promise<boolean> {
+  try {
+    const [{ data: entries, error: entriesError }, { data: customer }] =
+      await Promise.all([
+        supabase
+          .from("loyalty_transactions")
+          .select("points")
+          .eq("order_id", orderId)
+          .eq("customer_id", customerId),
+        supabase
+          .from("customers")
+          .select("loyalty_points")
+          .eq("id", customerId)
+          .single(),
+      ]);
+
+    if (entriesError) {
+      console.warn(`[Loyalty] Failed to read ledger for order ${orderId}:`, entriesError.message);
+      return false;
+    }
+
+    const net = (entries || []).reduce((sum, e) => sum + e.points, 0);
+    const balance = customer?.loyalty_points || 0;
+    const change = net > 0 ? -Math.min(net, balance) : -net;
+
+    if (change === 0) return true;
+
+    const { error } = await recordLoyaltyTransaction(supabase, {
+      customerId,
+      type: "adjust",
+      points: change,
+      orderId,
+      notes: reason,
+      staffId,
+    });
+
+    return !error;
+  } catch (err) {
+    console.error("[Loyalty] Error in reverseOrderLoyalty:", err);
+    return false;
+  }
+}
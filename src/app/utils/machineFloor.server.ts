@@ -0,0 +1,289 @@
+/**
+ * Machine occupancy (server only)
+ *
+ * Starting a wash or dry reserves a washer/dryer through the reserve_machine
+ * function, which locks the machine row, refuses busy or wrong-type machines
+ * and marks it running. Completing or skipping the service, or cancelling the
+ * order, releases it again (release_machines). getMachineFloor() builds the
+ * live floor view: each machine's current basket and the baskets waiting for
+ * each machine type.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { loadPricingRules } from "@/src/app/utils/pricingRules";
+import { flagDueMaintenance } from "@/src/app/utils/machineMaintenance";
+import { BasketServices, Service } from "@/src/app/in/pos/logic/posTypes";
+import {
+  calculateMachineRunMinutes,
+  FloorMachine,
+  FloorQueueEntry,
+  MachineAssignment,
+  MachineFloor,
+  MachineServiceType,
+} from "@/src/app/utils/machineFloor";
+
+export interface ReserveMachineInput {
+  machineId: string | null;
+  orderId: string;
+  basketNumber: number;
+  serviceType: MachineServiceType;
+  staffId?: string | null;
+  basketServices: Partial<BasketServices>;
+}
+
+export type ReserveMachineResult =
+  | { success: true; assignment: MachineAssignment | null }
+  | { success: false; error: string; status: number };
+
+interface FloorOrder {
+  id: string;
+  created_at: string;
+  handling: { pickup?: { address?: string; status?: string } } | null;
+  breakdown: { baskets?: { basket_number?: number; weight_kg?: number; services?: Partial<BasketServices> }[] } | null;
+  customers: { first_name: string | null; last_name: string | null } | null;
+}
+
+interface FloorServiceStatus {
+  order_id: string;
+  basket_number: number;
+  service_type: string;
+  status: string;
+  completed_at: string | null;
+}
+
+// reserve_machine raises these SQLSTATEs
+const RPC_ERROR_STATUS: Record<string, number> = {
+  OC400: 400,
+  OC404: 404,
+  OC409: 409,
+};
+
+// Order the attendants work through a basket (same as the baskets page)
+const SERVICE_SEQUENCE = ["wash", "spin", "dry", "iron", "fold"];
+
+function isServiceOn(services: Partial<BasketServices>, serviceType: string): boolean {
+  switch (serviceType) {
+    case "wash":
+      return !!services.wash && services.wash !== "off";
+    case "dry":
+      return !!services.dry && services.dry !== "off";
+    case "spin":
+      return services.spin === true;
+    case "iron":
+      return (services.iron_weight_kg || 0) > 0;
+    case "fold":
+      return !!services.fold;
+    default:
+      return false;
+  }
+}
+
+function customerName(customer: FloorOrder["customers"]): string | null {
+  if (!customer) return null;
+  return `${customer.first_name || ""} ${customer.last_name || ""}`.trim() || null;
+}
+
+async function loadDurationInputs(supabase: SupabaseClient) {
+  const [{ data: services }, rules] = await Promise.all([
+    supabase.from("services").select("*"),
+    loadPricingRules(supabase),
+  ]);
+  return { services: (services || []) as Service[], rules };
+}
+
+/**
+ * Put a basket service on a machine
+ * Without a machine id this only succeeds when the shop has no machines of
+ * that type set up (assignment is then null).
+ */
+export async function reserveMachine(
+  supabase: SupabaseClient,
+  input: ReserveMachineInput
+): Promise<ReserveMachineResult> {
+  const label = input.serviceType === "wash" ? "washer" : "dryer";
+
+  if (!input.machineId) {
+    const { count, error } = await supabase
+      .from("machines")
+      .select("id", { count: "exact", head: true })
+      .eq("type", input.serviceType);
+
+    if (error) {
+      console.error("[MACHINES] Failed to count machines:", error.message);
+      return { success: false, error: "Failed to check machines", status: 500 };
+    }
+    if ((count || 0) > 0) {
+      return { success: false, error: `Choose a ${label} to start ${input.serviceType}`, status: 400 };
+    }
+    return { success: true, assignment: null };
+  }
+
+  // A machine whose maintenance came due by date is taken out first
+  await flagDueMaintenance(supabase, input.machineId);
+
+  const { services, rules } = await loadDurationInputs(supabase);
+  const duration = calculateMachineRunMinutes(input.basketServices, input.serviceType, services, rules);
+
+  const { data, error } = await supabase.rpc("reserve_machine", {
+    p_machine_id: input.machineId,
+    p_order_id: input.orderId,
+    p_basket_number: input.basketNumber,
+    p_service_type: input.serviceType,
+    p_started_by: input.staffId ?? null,
+    p_duration_minutes: duration,
+  });
+
+  if (error) {
+    const status = RPC_ERROR_STATUS[error.code] || 500;
+    console.error(`[MACHINES] Reserve ${input.machineId} for ${input.orderId} #${input.basketNumber} failed (${error.code}):`, error.message);
+    return {
+      success: false,
+      error: status === 500 ? `Failed to reserve ${label}` : error.message,
+      status,
+    };
+  }
+
+  console.log(`[MACHINES] Machine ${input.machineId} running order ${input.orderId} basket #${input.basketNumber} (${duration} min)`);
+  return { success: true, assignment: data as MachineAssignment };
+}
+
+/**
+ * Release the machines held by an order
+ * Narrow to one basket and/or service with the options. Failures are logged
+ * and an empty list is returned.
+ */
+export async function releaseMachines(
+  supabase: SupabaseClient,
+  orderId: string,
+  options: { basketNumber?: number; serviceType?: string; reason: string }
+): Promise<MachineAssignment[]> {
+  const { data, error } = await supabase.rpc("release_machines", {
+    p_order_id: orderId,
+    p_basket_number: options.basketNumber ?? null,
+    p_service_type: options.serviceType ?? null,
+    p_reason: options.reason,
+  });
+
+  if (error) {
+    console.error(`[MACHINES] Failed to release machines for order ${orderId}:`, error.message);
+    return [];
+  }
+
+  const released = (data || []) as MachineAssignment[];
+  for (const assignment of released) {
+    console.log(`[MACHINES] Machine ${assignment.machine_id} released (${options.reason})`);
+  }
+  return released;
+}
+
+/**
+ * Live floor view: machines with their current basket, and per machine type
+ * the baskets whose next service needs that machine (oldest first)
+ */
+export async function getMachineFloor(supabase: SupabaseClient): Promise<MachineFloor> {
+  await flagDueMaintenance(supabase);
+
+  const [machinesResult, assignmentsResult, ordersResult, durationInputs] = await Promise.all([
+    supabase.from("machines").select("id, machine_name, type, status").order("machine_name"),
+    supabase
+      .from("machine_assignments")
+      .select("*, orders:order_id(customers:customer_id(first_name, last_name))")
+      .eq("status", "running"),
+    supabase
+      .from("orders")
+      .select("id, created_at, handling, breakdown, customers:customer_id(first_name, last_name)")
+      .in("status", ["pending", "processing"])
+      .order("created_at", { ascending: true }),
+    loadDurationInputs(supabase),
+  ]);
+
+  if (machinesResult.error) throw machinesResult.error;
+  if (assignmentsResult.error) throw assignmentsResult.error;
+  if (ordersResult.error) throw ordersResult.error;
+
+  const running = new Map<string, FloorMachine["current"]>();
+  for (const row of assignmentsResult.data || []) {
+    const { orders, ...assignment } = row as MachineAssignment & {
+      orders: { customers: FloorOrder["customers"] } | null;
+    };
+    running.set(assignment.machine_id, {
+      ...assignment,
+      customer_name: customerName(orders?.customers ?? null),
+    });
+  }
+
+  const machines: FloorMachine[] = (machinesResult.data || []).map((m) => ({
+    id: m.id,
+    machine_name: m.machine_name,
+    type: m.type,
+    status: m.status,
+    current: running.get(m.id) || null,
+  }));
+
+  // === QUEUES ===
+  const orders = (ordersResult.data || []) as unknown as FloorOrder[];
+  const queues: MachineFloor["queues"] = { wash: [], dry: [] };
+
+  if (orders.length > 0) {
+    const { data: statuses, error } = await supabase
+      .from("basket_service_status")
+      .select("order_id, basket_number, service_type, status, completed_at")
+      .in("order_id", orders.map((o) => o.id));
+
+    if (error) throw error;
+
+    for (const order of orders) {
+      // Baskets still out for pickup are not in the shop yet
+      const pickup = order.handling?.pickup;
+      const pickupAddr = pickup?.address?.toLowerCase() || "";
+      const isStorePickup = pickupAddr === "in-store" || pickupAddr === "store";
+      if (!isStorePickup && (pickup?.status === "pending" || pickup?.status === "in_progress")) {
+        continue;
+      }
+
+      for (const basket of order.breakdown?.baskets || []) {
+        const basketNumber = basket.basket_number || 0;
+        const services = basket.services || {};
+        const basketStatuses = ((statuses || []) as FloorServiceStatus[]).filter(
+          (s) => s.order_id === order.id && s.basket_number === basketNumber
+        );
+
+        if (basketStatuses.some((s) => s.status === "in_progress")) continue;
+
+        const next = SERVICE_SEQUENCE.find((serviceType) => {
+          if (!isServiceOn(services, serviceType)) return false;
+          const status = basketStatuses.find((s) => s.service_type === serviceType)?.status;
+          return status !== "completed" && status !== "skipped";
+        });
+
+        if (next !== "wash" && next !== "dry") continue;
+
+        const lastFinished = basketStatuses
+          .map((s) => s.completed_at)
+          .filter((t): t is string => !!t)
+          .sort()
+          .pop();
+
+        const entry: FloorQueueEntry = {
+          order_id: order.id,
+          basket_number: basketNumber,
+          customer_name: customerName(order.customers),
+          weight_kg: basket.weight_kg || 0,
+          duration_minutes: calculateMachineRunMinutes(
+            services,
+            next,
+            durationInputs.services,
+            durationInputs.rules
+          ),
+          queued_since: lastFinished || order.created_at,
+        };
+        queues[next].push(entry);
+      }
+    }
+
+    queues.wash.sort((a, b) => a.queued_since.localeCompare(b.queued_since));
+    queues.dry.sort((a, b) => a.queued_since.localeCompare(b.queued_since));
+  }
+
+  return { machines, queues };
+}
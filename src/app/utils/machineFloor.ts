@@ -0,0 +1,101 @@
+/**
+ * Machine floor definitions
+ * Which services run on a machine, the floor view shape and run durations.
+ * Shared by the server occupancy helpers (utils/machineFloor.server.ts), the
+ * baskets page and the machine floor page.
+ */
+
+import { calculateBasketDuration, DEFAULT_PRICING_RULES } from "@/src/app/in/pos/logic/posHelpers";
+import { BasketServices, PricingRules, Service } from "@/src/app/in/pos/logic/posTypes";
+
+// Services that occupy a washer or dryer (machines.type)
+export const MACHINE_SERVICE_TYPES = ["wash", "dry"] as const;
+
+export type MachineServiceType = (typeof MACHINE_SERVICE_TYPES)[number];
+
+export interface MachineAssignment {
+  id: string;
+  machine_id: string;
+  order_id: string;
+  basket_number: number;
+  service_type: MachineServiceType;
+  status: "running" | "released";
+  duration_minutes: number;
+  started_by: string | null;
+  started_at: string;
+  expected_end_at: string;
+  released_at: string | null;
+  release_reason: string | null;
+}
+
+export interface FloorMachine {
+  id: string;
+  machine_name: string;
+  type: string;
+  status: string;                         // available, running, maintenance
+  current: (MachineAssignment & { customer_name: string | null }) | null;
+}
+
+// A basket whose next service needs a machine of this type
+export interface FloorQueueEntry {
+  order_id: string;
+  basket_number: number;
+  customer_name: string | null;
+  weight_kg: number;
+  duration_minutes: number;
+  queued_since: string;                   // Order created_at, or when the previous service finished
+}
+
+export interface MachineFloor {
+  machines: FloorMachine[];
+  queues: Record<MachineServiceType, FloorQueueEntry[]>;
+}
+
+export function isMachineServiceType(value: unknown): value is MachineServiceType {
+  return MACHINE_SERVICE_TYPES.includes(value as MachineServiceType);
+}
+
+/**
+ * Minutes a basket occupies the machine for one service
+ * Uses calculateBasketDuration with every other service switched off, so
+ * dry includes the basket's additional dry time.
+ */
+export function calculateMachineRunMinutes(
+  basketServices: Partial<BasketServices>,
+  serviceType: MachineServiceType,
+  services: Service[],
+  rules: PricingRules = DEFAULT_PRICING_RULES
+): number {
+  const only: BasketServices = {
+    wash: "off",
+    wash_cycles: 1,
+    dry: "off",
+    spin: false,
+    iron_weight_kg: 0,
+    fold: false,
+    additional_dry_time_minutes: 0,
+    plastic_bags: 0,
+    heavy_fabrics: false,
+  };
+
+  if (serviceType === "wash") {
+    only.wash = basketServices.wash && basketServices.wash !== "off" ? basketServices.wash : "basic";
+  } else {
+    only.dry = basketServices.dry && basketServices.dry !== "off" ? basketServices.dry : "basic";
+    only.additional_dry_time_minutes = Number(basketServices.additional_dry_time_minutes) || 0;
+  }
+
+  return calculateBasketDuration(
+    { basket_number: 0, weight_kg: 0, services: only, notes: "", subtotal: 0 },
+    services,
+    rules
+  );
+}
+
+/**
+ * Minutes left on a running assignment (0 once overdue)
+ */
+export function minutesRemaining(expectedEndAt: string, now: Date = new Date()): number {
+  const ms = new Date(expectedEndAt).getTime() - now.getTime();
+  return Math.max(0, Math.ceil(ms / 60000));
+}
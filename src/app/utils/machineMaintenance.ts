@@ -0,0 +1,262 @@
+/**
+ * Machine maintenance helpers
+ * Preventive maintenance plans, the downtime/repair log and the uptime
+ * report. Due plans are flagged by the flag_due_maintenance RPC, which opens
+ * a maintenance downtime entry and switches the machine to maintenance;
+ * closing the entry (end_machine_downtime) resets the plan and frees the
+ * machine. Works with both the browser and the server Supabase clients.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+
+export const DOWNTIME_REASONS = ["maintenance", "repair", "breakdown"] as const;
+
+export type DowntimeReason = (typeof DOWNTIME_REASONS)[number];
+
+export const DOWNTIME_REASON_LABELS: Record<DowntimeReason, string> = {
+  maintenance: "Preventive maintenance",
+  repair: "Repair",
+  breakdown: "Breakdown",
+};
+
+export interface MaintenancePlan {
+  id: string;
+  machine_id: string;
+  name: string;
+  interval_cycles: number | null;         // Due every N cycles
+  interval_days: number | null;           // Due every N days
+  last_done_at: string;
+  last_done_cycles: number;               // Machine cycle count when last done
+  is_active: boolean;
+}
+
+export interface MaintenancePlanStatus extends MaintenancePlan {
+  cycles_since: number;
+  cycles_left: number | null;             // null when the plan has no cycle interval
+  due_at: string | null;                  // null when the plan has no day interval
+  is_due: boolean;
+}
+
+export interface MachineDowntime {
+  id: string;
+  machine_id: string;
+  reason: DowntimeReason;
+  plan_id: string | null;
+  issue_id: string | null;
+  notes: string | null;
+  started_at: string;
+  started_by: string | null;
+  ended_at: string | null;                // null while the machine is down
+  ended_by: string | null;
+  resolution: string | null;
+}
+
+export interface MachineUptimeRow {
+  machine_id: string;
+  machine_name: string;
+  type: string;
+  status: string;
+  cycles: number;                         // Cycles in the period
+  total_cycles: number;
+  downtime_minutes: number;
+  uptime_percent: number;
+  breakdowns: number;
+  repairs: number;
+  maintenance_stops: number;
+}
+
+export type MaintenanceResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string; status: number };
+
+// Downtime RPCs raise these SQLSTATEs
+const RPC_ERROR_STATUS: Record<string, number> = {
+  OC404: 404,
+  OC409: 409,
+};
+
+export function validateMaintenancePlan(plan: Partial<MaintenancePlan>): string | null {
+  if (!plan.machine_id) return "Machine is required";
+  if (!plan.name?.trim()) return "Plan name is required";
+
+  const cycles = plan.interval_cycles;
+  const days = plan.interval_days;
+  if (cycles == null && days == null) return "Set an interval in cycles, days or both";
+  if (cycles != null && (!Number.isInteger(Number(cycles)) || Number(cycles) <= 0)) {
+    return "Cycle interval must be a whole number above 0";
+  }
+  if (days != null && (!Number.isInteger(Number(days)) || Number(days) <= 0)) {
+    return "Day interval must be a whole number above 0";
+  }
+  return null;
+}
+
+/**
+ * Where a plan stands given the machine's current cycle count
+ */
+export function getPlanStatus(
+  plan: MaintenancePlan,
+  machineCycles: number,
+  now: Date = new Date()
+): MaintenancePlanStatus {
+  const cyclesSince = Math.max(0, machineCycles - plan.last_done_cycles);
+  const cyclesLeft =
+    plan.interval_cycles != null ? Math.max(0, plan.interval_cycles - cyclesSince) : null;
+
+  let dueAt: string | null = null;
+  if (plan.interval_days != null) {
+    const due = new Date(plan.last_done_at);
+    due.setDate(due.getDate() + plan.interval_days);
+    dueAt = due.toISOString();
+  }
+
+  return {
+    ...plan,
+    cycles_since: cyclesSince,
+    cycles_left: cyclesLeft,
+    due_at: dueAt,
+    is_due:
+      plan.is_active &&
+      (cyclesLeft === 0 || (dueAt !== null && new Date(dueAt).getTime() <= now.getTime())),
+  };
+}
+
+/**
+ * Put machines with a due plan into maintenance
+ * Omit machineId to check every machine. Returns the downtime entries opened.
+ */
+export async function flagDueMaintenance(
+  supabase: SupabaseClient,
+  machineId?: string
+): Promise<MachineDowntime[]> {
+  const { data, error } = await supabase.rpc("flag_due_maintenance", {
+    p_machine_id: machineId ?? null,
+  });
+
+  if (error) {
+    console.error("[MAINTENANCE] Failed to check due maintenance:", error.message);
+    return [];
+  }
+
+  const opened = (data || []) as MachineDowntime[];
+  for (const downtime of opened) {
+    console.log(`[MAINTENANCE] Machine ${downtime.machine_id} due: ${downtime.notes}`);
+  }
+  return opened;
+}
+
+/**
+ * Plans (with their progress) and recent downtime, for one machine or all
+ */
+export async function loadMachineMaintenance(
+  supabase: SupabaseClient,
+  machineId?: string
+): Promise<{ plans: MaintenancePlanStatus[]; downtime: MachineDowntime[] }> {
+  let plansQuery = supabase.from("machine_maintenance_plans").select("*").order("name");
+  let downtimeQuery = supabase
+    .from("machine_downtime")
+    .select("*")
+    .order("started_at", { ascending: false })
+    .limit(100);
+
+  if (machineId) {
+    plansQuery = plansQuery.eq("machine_id", machineId);
+    downtimeQuery = downtimeQuery.eq("machine_id", machineId);
+  }
+
+  const [plansResult, downtimeResult] = await Promise.all([plansQuery, downtimeQuery]);
+  if (plansResult.error) throw plansResult.error;
+  if (downtimeResult.error) throw downtimeResult.error;
+
+  const plans = (plansResult.data || []) as MaintenancePlan[];
+  const machineIds = [...new Set(plans.map((p) => p.machine_id))];
+  const cycleCounts = await Promise.all(
+    machineIds.map(async (id) => {
+      const { data } = await supabase.rpc("machine_cycle_count", { p_machine_id: id });
+      return [id, Number(data) || 0] as const;
+    })
+  );
+  const cycles = Object.fromEntries(cycleCounts);
+
+  return {
+    plans: plans.map((plan) => getPlanStatus(plan, cycles[plan.machine_id] || 0)),
+    downtime: (downtimeResult.data || []) as MachineDowntime[],
+  };
+}
+
+/**
+ * Take a machine out of service for a repair or breakdown
+ */
+export async function startMachineDowntime(
+  supabase: SupabaseClient,
+  input: {
+    machineId: string;
+    reason: DowntimeReason;
+    issueId?: string | null;
+    notes?: string | null;
+    staffId?: string | null;
+  }
+): Promise<MaintenanceResult<MachineDowntime>> {
+  const { data, error } = await supabase.rpc("start_machine_downtime", {
+    p_machine_id: input.machineId,
+    p_reason: input.reason,
+    p_issue_id: input.issueId ?? null,
+    p_notes: input.notes ?? null,
+    p_started_by: input.staffId ?? null,
+  });
+
+  if (error) {
+    const status = RPC_ERROR_STATUS[error.code] || 500;
+    console.error(`[MAINTENANCE] Failed to log downtime for ${input.machineId} (${error.code}):`, error.message);
+    return { success: false, error: status === 500 ? "Failed to log downtime" : error.message, status };
+  }
+
+  console.log(`[MAINTENANCE] Machine ${input.machineId} down (${input.reason})`);
+  return { success: true, data: data as MachineDowntime };
+}
+
+/**
+ * Put a machine back in service
+ */
+export async function endMachineDowntime(
+  supabase: SupabaseClient,
+  downtimeId: string,
+  staffId: string | null,
+  resolution: string | null
+): Promise<MaintenanceResult<MachineDowntime>> {
+  const { data, error } = await supabase.rpc("end_machine_downtime", {
+    p_downtime_id: downtimeId,
+    p_ended_by: staffId,
+    p_resolution: resolution,
+  });
+
+  if (error) {
+    const status = RPC_ERROR_STATUS[error.code] || 500;
+    console.error(`[MAINTENANCE] Failed to close downtime ${downtimeId} (${error.code}):`, error.message);
+    return { success: false, error: status === 500 ? "Failed to close downtime" : error.message, status };
+  }
+
+  console.log(`[MAINTENANCE] Downtime ${downtimeId} closed`);
+  return { success: true, data: data as MachineDowntime };
+}
+
+/**
+ * Uptime and cycles per machine between from and to
+ */
+export async function loadMachineUptimeReport(
+  supabase: SupabaseClient,
+  from: Date,
+  to: Date
+): Promise<MachineUptimeRow[]> {
+  const { data, error } = await supabase.rpc("machine_uptime_report", {
+    p_from: from.toISOString(),
+    p_to: to.toISOString(),
+  });
+
+  if (error) throw error;
+
+  return ((data || []) as MachineUptimeRow[]).map((row) => ({
+    ...row,
+    uptime_percent: Number(row.uptime_percent),
+  }));
+}
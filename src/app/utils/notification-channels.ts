@@ -0,0 +1,216 @@
+/**
+ * Customer notification channels (server only)
+ *
+ * Customers are reached over app push (Firebase), SMS (the provider named
+ * in SMS_PROVIDER; without one SMS is skipped) and email (Resend), tried
+ * in their preferred order
+ * (utils/notificationTemplates.ts). Messages are not sent from here
+ * directly: they go through the notification outbox
+ * (utils/notification-outbox.ts), which retries failures and falls back to
+ * the next channel. With NOTIFICATION_PROVIDER=stub nothing leaves the
+ * server: every message lands in stubOutbox, for tests and local
+ * development.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Resend } from "resend";
+import admin from "@/src/app/utils/firebase-admin";
+import {
+  DEFAULT_NOTIFICATION_CHANNELS,
+  NotificationChannel,
+  NotificationTemplate,
+  normalizeNotificationChannels,
+} from "@/src/app/utils/notificationTemplates";
+
+export interface NotificationRecipient {
+  customerId: string;
+  firstName: string;
+  fcmToken: string | null;
+  phone: string | null;
+  email: string | null;
+  channels: NotificationChannel[];
+}
+
+export interface ChannelAttempt {
+  channel: NotificationChannel;
+  success: boolean;
+  error?: string;
+  providerId?: string | null;
+}
+
+/**
+ * An SMS gateway; register more with registerSmsProvider()
+ */
+export interface SmsProvider {
+  name: string;
+  send(to: string, text: string): Promise<string | null>;   // Provider message id
+}
+
+export interface StubMessage {
+  channel: NotificationChannel;
+  to: string;
+  title: string;
+  body: string;
+  sent_at: string;
+}
+
+// Messages "sent" while NOTIFICATION_PROVIDER=stub (or SMS_PROVIDER=stub)
+export const stubOutbox: StubMessage[] = [];
+
+function stubSend(channel: NotificationChannel, to: string, message: NotificationTemplate): string {
+  stubOutbox.push({ channel, to, title: message.title, body: message.body, sent_at: new Date().toISOString() });
+  console.log(`[NOTIFY] (stub) ${channel} to ${to}: ${message.body}`);
+  return `stub-${stubOutbox.length}`;
+}
+
+// === SMS PROVIDERS ===
+
+// Semaphore (semaphore.co), a Philippine SMS gateway
+const semaphoreProvider: SmsProvider = {
+  name: "semaphore",
+  async send(to, text) {
+    const res = await fetch("https://api.semaphore.co/api/v4/messages", {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        apikey: process.env.SEMAPHORE_API_KEY || "",
+        number: to,
+        message: text,
+        ...(process.env.SEMAPHORE_SENDER_NAME ? { sendername: process.env.SEMAPHORE_SENDER_NAME } : {}),
+      }),
+    });
+    const body = await res.json().catch(() => null);
+    if (!res.ok || !Array.isArray(body)) {
+      throw new Error(`Semaphore responded ${res.status}`);
+    }
+    return body[0]?.message_id ? String(body[0].message_id) : null;
+  },
+};
+
+const stubSmsProvider: SmsProvider = {
+  name: "stub",
+  async send(to, text) {
+    return stubSend("sms", to, { title: "", body: text });
+  },
+};
+
+const SMS_PROVIDERS = new Map<string, SmsProvider>([
+  [semaphoreProvider.name, semaphoreProvider],
+  [stubSmsProvider.name, stubSmsProvider],
+]);
+
+export function registerSmsProvider(provider: SmsProvider) {
+  SMS_PROVIDERS.set(provider.name, provider);
+}
+
+function smsProvider(): SmsProvider {
+  const name = process.env.SMS_PROVIDER;
+  if (!name) throw new Error("No SMS provider configured");
+  const provider = SMS_PROVIDERS.get(name);
+  if (!provider) throw new Error(`Unknown SMS provider: ${name}`);
+  return provider;
+}
+
+// === CHANNELS ===
+
+function isStubbed(): boolean {
+  return process.env.NOTIFICATION_PROVIDER === "stub";
+}
+
+/**
+ * Whether a channel can send at all here: SMS needs SMS_PROVIDER set
+ */
+export function isChannelConfigured(channel: NotificationChannel): boolean {
+  if (isStubbed() || channel !== "sms") return true;
+  return !!process.env.SMS_PROVIDER;
+}
+
+export function channelAddress(recipient: NotificationRecipient, channel: NotificationChannel): string | null {
+  switch (channel) {
+    case "push":
+      return recipient.fcmToken;
+    case "sms":
+      return recipient.phone;
+    case "email":
+      return recipient.email;
+  }
+}
+
+// 09XXXXXXXXX -> 639XXXXXXXXX, the format SMS gateways expect
+function internationalPhone(phone: string): string {
+  const digits = phone.replace(/\D/g, "");
+  return digits.startsWith("0") ? `63${digits.slice(1)}` : digits;
+}
+
+/**
+ * Send one message on one channel; throws when the provider refuses it
+ */
+export async function sendOnChannel(
+  channel: NotificationChannel,
+  to: string,
+  message: NotificationTemplate,
+  data?: Record<string, string>
+): Promise<string | null> {
+  if (isStubbed()) return stubSend(channel, to, message);
+
+  switch (channel) {
+    case "push":
+      return admin.messaging().send({
+        notification: { title: message.title, body: message.body },
+        data: data || {},
+        token: to,
+      });
+    case "sms":
+      return smsProvider().send(internationalPhone(to), message.body);
+    case "email": {
+      const resend = new Resend(process.env.RESEND_API_KEY);
+      const { data: sent, error } = await resend.emails.send({
+        from: process.env.NOTIFICATION_EMAIL_FROM || "noreply@katflix.com",
+        to,
+        subject: message.title,
+        text: message.body,
+      });
+      if (error) throw new Error(error.message);
+      return sent?.id ?? null;
+    }
+  }
+}
+
+// Firebase answers these for tokens of uninstalled apps or reset devices
+const INVALID_PUSH_TOKEN_CODES = [
+  "messaging/registration-token-not-registered",
+  "messaging/invalid-registration-token",
+];
+
+export function isInvalidPushTokenError(err: unknown): boolean {
+  const code = (err as { code?: unknown } | null)?.code;
+  return typeof code === "string" && INVALID_PUSH_TOKEN_CODES.includes(code);
+}
+
+/**
+ * Customer contact details and channel preferences, or null if not found
+ */
+export async function loadNotificationRecipient(
+  supabase: SupabaseClient,
+  customerId: string
+): Promise<NotificationRecipient | null> {
+  const { data, error } = await supabase
+    .from("customers")
+    .select("id, first_name, fcm_device_token, phone_number, email_address, notification_channels")
+    .eq("id", customerId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  return {
+    customerId: data.id,
+    firstName: data.first_name || "",
+    fcmToken: data.fcm_device_token || null,
+    phone: data.phone_number || null,
+    email: data.email_address || null,
+    channels: data.notification_channels
+      ? normalizeNotificationChannels(data.notification_channels)
+      : DEFAULT_NOTIFICATION_CHANNELS,
+  };
+}
@@ -0,0 +1,212 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createClient as createSupabaseClient } from "@supabase/supabase-js";
+import { stubOutbox } from "@/src/app/utils/notification-channels";
+import { OutboxEntry, outboxBackoffSeconds, processNotificationOutbox } from "@/src/app/utils/notification-outbox";
+
+const pushSend = vi.hoisted(() => vi.fn());
+const emailSend = vi.hoisted(() => vi.fn());
+
+vi.mock("@/src/app/utils/firebase-admin", () => ({
+  default: { messaging: () => ({ send: pushSend }) },
+}));
+
+vi.mock("resend", () => ({
+  Resend: class {
+    emails = { send: emailSend };
+  },
+}));
+
+vi.mock("@supabase/supabase-js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@supabase/supabase-js")>()),
+  createClient: vi.fn(),
+}));
+
+const CUSTOMER = {
+  id: "customer-1",
+  first_name: "Lea",
+  fcm_device_token: "device-token",
+  phone_number: "09171234567",
+  email_address: "lea@example.com",
+  notification_channels: ["push", "sms", "email"],
+};
+
+function outboxEntry(overrides: Partial<OutboxEntry> = {}): OutboxEntry {
+  return {
+    id: "outbox-1",
+    kind: "customer_event",
+    customer_id: CUSTOMER.id,
+    staff_id: null,
+    notification_id: "notification-1",
+    payload: { event: "order_ready", vars: { order_code: "KF-1001", handoff: "Pick it up anytime." } },
+    status: "processing",
+    channel: null,
+    attempts: 1,
+    max_attempts: 5,
+    next_attempt_at: "2026-10-19T00:00:00.000Z",
+    last_error: null,
+    created_at: "2026-10-19T00:00:00.000Z",
+    sent_at: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Service client handing the worker one claimed row, answering the customer
+ * lookup and recording every update
+ */
+function serviceClient(entry: OutboxEntry, customer: Record<string, unknown> | null = CUSTOMER) {
+  const updates: { table: string; values: Record<string, unknown> }[] = [];
+  const client = {
+    rpc: vi.fn(async () => ({ data: [entry], error: null })),
+    from: (table: string) => {
+      const query = {
+        select: () => query,
+        eq: () => query,
+        update: (values: Record<string, unknown>) => {
+          updates.push({ table, values });
+          return query;
+        },
+        maybeSingle: async () => ({ data: table === "customers" ? customer : null, error: null }),
+        then: (resolve: (result: { data: null; error: null }) => void) => resolve({ data: null, error: null }),
+      };
+      return query;
+    },
+  };
+  vi.mocked(createSupabaseClient).mockReturnValue(client as unknown as ReturnType<typeof createSupabaseClient>);
+
+  const outboxUpdate = () => updates.find((u) => u.table === "notification_outbox")?.values;
+  return { updates, outboxUpdate };
+}
+
+describe("outboxBackoffSeconds", () => {
+  it("retries after 30 seconds and doubles each attempt", () => {
+    expect([1, 2, 3, 4].map(outboxBackoffSeconds)).toEqual([30, 60, 120, 240]);
+  });
+
+  it("caps the wait at an hour", () => {
+    expect(outboxBackoffSeconds(8)).toBe(3600);
+    expect(outboxBackoffSeconds(30)).toBe(3600);
+  });
+
+  it("treats a row without attempts like the first", () => {
+    expect(outboxBackoffSeconds(0)).toBe(30);
+  });
+});
+
+describe("processNotificationOutbox", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    stubOutbox.length = 0;
+    vi.useFakeTimers({ now: new Date("2026-10-19T02:00:00.000Z"), toFake: ["Date"] });
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("sends on the first preferred channel with a contact", async () => {
+    vi.stubEnv("NOTIFICATION_PROVIDER", "stub");
+    const { outboxUpdate } = serviceClient(outboxEntry(), {
+      ...CUSTOMER,
+      fcm_device_token: null,
+      notification_channels: ["push", "email", "sms"],
+    });
+
+    const result = await processNotificationOutbox();
+
+    expect(result).toEqual({ processed: 1, sent: 1, retrying: 0, dead: 0 });
+    expect(stubOutbox.map((m) => [m.channel, m.to])).toEqual([["email", "lea@example.com"]]);
+    expect(outboxUpdate()).toMatchObject({ status: "sent", channel: "email" });
+  });
+
+  it("falls back to the next channel when one fails", async () => {
+    vi.stubEnv("SMS_PROVIDER", "stub");
+    pushSend.mockRejectedValue(new Error("FCM unavailable"));
+    const { outboxUpdate } = serviceClient(outboxEntry());
+
+    await processNotificationOutbox();
+
+    expect(pushSend).toHaveBeenCalledTimes(1);
+    expect(stubOutbox.map((m) => [m.channel, m.to])).toEqual([["sms", "639171234567"]]);
+    expect(stubOutbox[0].body).toContain("order KF-1001");
+    expect(emailSend).not.toHaveBeenCalled();
+    expect(outboxUpdate()).toMatchObject({ status: "sent", channel: "sms" });
+  });
+
+  it("skips SMS without a provider and sends the email", async () => {
+    vi.stubEnv("SMS_PROVIDER", "");
+    emailSend.mockResolvedValue({ data: { id: "email-1" }, error: null });
+    const { outboxUpdate } = serviceClient(outboxEntry(), { ...CUSTOMER, notification_channels: ["sms", "email"] });
+
+    await processNotificationOutbox();
+
+    expect(stubOutbox).toHaveLength(0);
+    expect(emailSend).toHaveBeenCalledWith(expect.objectContaining({ to: "lea@example.com" }));
+    expect(outboxUpdate()).toMatchObject({ status: "sent", channel: "email" });
+  });
+
+  it("schedules a retry with backoff while attempts remain", async () => {
+    pushSend.mockRejectedValue(new Error("FCM unavailable"));
+    const { updates, outboxUpdate } = serviceClient(outboxEntry({ attempts: 2 }), {
+      ...CUSTOMER,
+      notification_channels: ["push"],
+    });
+
+    const result = await processNotificationOutbox();
+
+    expect(result).toEqual({ processed: 1, sent: 0, retrying: 1, dead: 0 });
+    expect(outboxUpdate()).toEqual({
+      status: "pending",
+      last_error: "push: FCM unavailable",
+      locked_at: null,
+      next_attempt_at: "2026-10-19T02:01:00.000Z",
+    });
+    expect(updates.some((u) => u.table === "notifications")).toBe(false);
+  });
+
+  it("goes dead on the last attempt and fails the history row", async () => {
+    pushSend.mockRejectedValue(new Error("FCM unavailable"));
+    const { updates, outboxUpdate } = serviceClient(outboxEntry({ attempts: 5 }), {
+      ...CUSTOMER,
+      notification_channels: ["push"],
+    });
+
+    const result = await processNotificationOutbox();
+
+    expect(result).toEqual({ processed: 1, sent: 0, retrying: 0, dead: 1 });
+    expect(outboxUpdate()).toEqual({ status: "dead", last_error: "push: FCM unavailable", locked_at: null });
+    expect(updates).toContainEqual({ table: "notifications", values: { status: "failed" } });
+  });
+
+  it("goes dead right away when the customer has no contact for their channels", async () => {
+    vi.stubEnv("NOTIFICATION_PROVIDER", "stub");
+    const { outboxUpdate } = serviceClient(outboxEntry(), {
+      ...CUSTOMER,
+      phone_number: null,
+      notification_channels: ["sms"],
+    });
+
+    const result = await processNotificationOutbox();
+
+    expect(result.dead).toBe(1);
+    expect(stubOutbox).toHaveLength(0);
+    expect(outboxUpdate()).toMatchObject({ status: "dead", last_error: "No sms contact on file" });
+  });
+
+  it("goes dead right away and clears the token when the only push token is invalid", async () => {
+    pushSend.mockRejectedValue(
+      Object.assign(new Error("Token not registered"), { code: "messaging/registration-token-not-registered" })
+    );
+    const { updates, outboxUpdate } = serviceClient(outboxEntry(), { ...CUSTOMER, notification_channels: ["push"] });
+
+    const result = await processNotificationOutbox();
+
+    expect(result.dead).toBe(1);
+    expect(updates).toContainEqual({ table: "customers", values: { fcm_device_token: null } });
+    expect(outboxUpdate()).toMatchObject({ status: "dead" });
+  });
+});
@@ -0,0 +1,421 @@
+/**
+ * Notification outbox (server only)
+ *
+ * Every customer and staff notification is queued in notification_outbox
+ * and tried once right away; failures are retried by
+ * processNotificationOutbox() (the worker route) with exponential backoff
+ * until max_attempts, after which the row is dead and listed on the admin
+ * failed-sends page. Customer notifications also get a notifications
+ * history row, kept in step: pending, then sent or failed.
+ * Three kinds of row:
+ *   customer_event  template event on the customer's preferred channels
+ *   customer_push   a push message to the customer's app
+ *   staff_push      a push message to a staff member (riders)
+ * Push tokens Firebase rejects as invalid are cleared.
+ */
+
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import {
+  ChannelAttempt,
+  channelAddress,
+  isChannelConfigured,
+  isInvalidPushTokenError,
+  loadNotificationRecipient,
+  sendOnChannel,
+} from "@/src/app/utils/notification-channels";
+import {
+  NOTIFICATION_TEMPLATES,
+  NotificationChannel,
+  NotificationEvent,
+  NotificationTemplate,
+  renderNotification,
+} from "@/src/app/utils/notificationTemplates";
+
+export type OutboxKind = "customer_event" | "customer_push" | "staff_push";
+
+export type OutboxStatus = "pending" | "processing" | "sent" | "dead";
+
+export interface OutboxPayload {
+  event?: NotificationEvent;                  // customer_event
+  vars?: Record<string, string | number>;     // customer_event
+  title?: string;                             // Push kinds
+  body?: string;                              // Push kinds
+  data?: Record<string, string>;              // Push data payload
+  metadata?: Record<string, unknown>;         // Context for the failed-sends page
+}
+
+export interface OutboxEntry {
+  id: string;
+  kind: OutboxKind;
+  customer_id: string | null;
+  staff_id: string | null;
+  notification_id: string | null;
+  payload: OutboxPayload;
+  status: OutboxStatus;
+  channel: NotificationChannel | null;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  created_at: string;
+  sent_at: string | null;
+}
+
+export interface FailedSend extends OutboxEntry {
+  recipient_name: string | null;
+  title: string | null;
+}
+
+export interface OutboxRunResult {
+  processed: number;
+  sent: number;
+  retrying: number;
+  dead: number;
+}
+
+interface EnqueueParams {
+  kind: OutboxKind;
+  customerId?: string | null;
+  staffId?: string | null;
+  payload: OutboxPayload;
+  history?: {                                 // Customer history row
+    type: string;
+    title: string;
+    body: string;
+    orderId?: string;
+    basketNumber?: number;
+    metadata?: Record<string, unknown>;
+  };
+}
+
+// First retry after 30 seconds, doubling up to an hour
+const BACKOFF_BASE_SECONDS = 30;
+const BACKOFF_MAX_SECONDS = 60 * 60;
+
+// Not worth retrying: the customer cannot be reached at all
+class UndeliverableError extends Error {}
+
+export function outboxClient(): SupabaseClient {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL || "",
+    process.env.SUPABASE_SERVICE_ROLE_KEY || ""
+  );
+}
+
+export function outboxBackoffSeconds(attempts: number): number {
+  return Math.min(BACKOFF_MAX_SECONDS, BACKOFF_BASE_SECONDS * 2 ** Math.max(0, attempts - 1));
+}
+
+async function pruneInvalidToken(
+  supabase: SupabaseClient,
+  table: "customers" | "staff",
+  id: string,
+  token: string
+) {
+  const { error } = await supabase
+    .from(table)
+    .update({ fcm_device_token: null })
+    .eq("id", id)
+    .eq("fcm_device_token", token);
+
+  if (error) {
+    console.warn(`[NOTIFY OUTBOX] Failed to clear invalid push token of ${table} ${id}:`, error.message);
+  } else {
+    console.log(`[NOTIFY OUTBOX] Cleared invalid push token of ${table} ${id}`);
+  }
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Send a claimed row; returns the channel and message that went out
+ * Throws when every channel failed (UndeliverableError when none could be tried).
+ */
+async function deliver(
+  supabase: SupabaseClient,
+  entry: OutboxEntry
+): Promise<{ channel: NotificationChannel; message: NotificationTemplate }> {
+  const { payload } = entry;
+
+  if (entry.kind === "staff_push") {
+    const { data: staff, error } = await supabase
+      .from("staff")
+      .select("fcm_device_token")
+      .eq("id", entry.staff_id)
+      .maybeSingle();
+    if (error) throw error;
+    const token = staff?.fcm_device_token;
+    if (!token) throw new UndeliverableError("Staff member has no device token");
+
+    const message = { title: payload.title || "", body: payload.body || "" };
+    try {
+      await sendOnChannel("push", token, message, payload.data);
+    } catch (err) {
+      if (isInvalidPushTokenError(err)) {
+        await pruneInvalidToken(supabase, "staff", entry.staff_id!, token);
+        throw new UndeliverableError(`Invalid device token: ${errorMessage(err)}`);
+      }
+      throw err;
+    }
+    return { channel: "push", message };
+  }
+
+  const recipient = await loadNotificationRecipient(supabase, entry.customer_id!);
+  if (!recipient) throw new UndeliverableError("Customer not found");
+
+  // Plain pushes go to the app only; events follow the customer's channels
+  const channels: NotificationChannel[] = entry.kind === "customer_push" ? ["push"] : recipient.channels;
+  if (channels.length === 0) throw new UndeliverableError("Customer opted out of notifications");
+
+  const vars = { customer_name: recipient.firstName || "there", ...payload.vars };
+  const attempts: ChannelAttempt[] = [];
+  let retryable = false;
+
+  for (const channel of channels) {
+    const to = channelAddress(recipient, channel);
+    if (!to) continue;
+    if (!isChannelConfigured(channel)) {
+      // Not retryable: move on to the next channel
+      attempts.push({ channel, success: false, error: `No ${channel} provider configured` });
+      continue;
+    }
+
+    const message =
+      entry.kind === "customer_event" && payload.event
+        ? renderNotification(payload.event, channel, vars)
+        : { title: payload.title || "", body: payload.body || "" };
+
+    try {
+      await sendOnChannel(channel, to, message, payload.data);
+      return { channel, message };
+    } catch (err) {
+      attempts.push({ channel, success: false, error: errorMessage(err) });
+      if (channel === "push" && isInvalidPushTokenError(err)) {
+        await pruneInvalidToken(supabase, "customers", recipient.customerId, to);
+      } else {
+        retryable = true;
+      }
+    }
+  }
+
+  if (attempts.length === 0) {
+    throw new UndeliverableError(`No ${channels.join(" / ")} contact on file`);
+  }
+  const summary = attempts.map((a) => `${a.channel}: ${a.error}`).join("; ");
+  throw retryable ? new Error(summary) : new UndeliverableError(summary);
+}
+
+/**
+ * Try a claimed row once and record the outcome
+ */
+async function processEntry(supabase: SupabaseClient, entry: OutboxEntry): Promise<OutboxStatus> {
+  const now = new Date();
+
+  try {
+    const { channel, message } = await deliver(supabase, entry);
+
+    await supabase
+      .from("notification_outbox")
+      .update({ status: "sent", channel, sent_at: now.toISOString(), last_error: null, locked_at: null })
+      .eq("id", entry.id);
+
+    if (entry.notification_id) {
+      await supabase
+        .from("notifications")
+        .update({ status: "sent", channel, ...(message.title ? { title: message.title } : {}), body: message.body })
+        .eq("id", entry.notification_id);
+    }
+    return "sent";
+  } catch (err) {
+    const error = errorMessage(err);
+    const dead = err instanceof UndeliverableError || entry.attempts >= entry.max_attempts;
+    const nextAttempt = new Date(now.getTime() + outboxBackoffSeconds(entry.attempts) * 1000);
+
+    console.warn(
+      `[NOTIFY OUTBOX] ${entry.kind} ${entry.id} attempt ${entry.attempts}/${entry.max_attempts} failed${dead ? " (dead)" : ""}: ${error}`
+    );
+
+    await supabase
+      .from("notification_outbox")
+      .update({
+        status: dead ? "dead" : "pending",
+        last_error: error,
+        locked_at: null,
+        ...(dead ? {} : { next_attempt_at: nextAttempt.toISOString() }),
+      })
+      .eq("id", entry.id);
+
+    if (dead && entry.notification_id) {
+      await supabase.from("notifications").update({ status: "failed" }).eq("id", entry.notification_id);
+    }
+    return dead ? "dead" : "pending";
+  }
+}
+
+/**
+ * Queue a notification and make the first attempt
+ * Never throws; returns the outbox row id, or null if it could not be queued.
+ */
+export async function enqueueNotification(params: EnqueueParams): Promise<string | null> {
+  const supabase = outboxClient();
+
+  try {
+    let notificationId: string | null = null;
+    if (params.history && params.customerId) {
+      const { data: history, error: historyError } = await supabase
+        .from("notifications")
+        .insert({
+          customer_id: params.customerId,
+          order_id: params.history.orderId,
+          basket_number: params.history.basketNumber,
+          type: params.history.type,
+          title: params.history.title,
+          body: params.history.body,
+          data: params.history.metadata,
+          status: "pending",
+        })
+        .select("id")
+        .single();
+
+      if (historyError) {
+        console.warn(`[NOTIFY OUTBOX] Failed to record notification for ${params.customerId}:`, historyError.message);
+      } else {
+        notificationId = history.id;
+      }
+    }
+
+    const { data: entry, error } = await supabase
+      .from("notification_outbox")
+      .insert({
+        kind: params.kind,
+        customer_id: params.customerId ?? null,
+        staff_id: params.staffId ?? null,
+        notification_id: notificationId,
+        payload: params.payload,
+        status: "processing",
+        attempts: 1,
+        locked_at: new Date().toISOString(),
+      })
+      .select("*")
+      .single<OutboxEntry>();
+
+    if (error) throw error;
+
+    await processEntry(supabase, entry);
+    return entry.id;
+  } catch (err) {
+    console.error("[NOTIFY OUTBOX] Failed to queue notification:", err);
+    return null;
+  }
+}
+
+/**
+ * Send a template event to a customer on their preferred channels
+ */
+export async function dispatchNotification(params: {
+  customerId: string;
+  event: NotificationEvent;
+  vars?: Record<string, string | number>;     // customer_name is filled in when sent
+  orderId?: string;
+  basketNumber?: number;
+  metadata?: Record<string, unknown>;
+  data?: Record<string, string>;
+}): Promise<string | null> {
+  const preview = renderNotification(params.event, "push", params.vars || {});
+  return enqueueNotification({
+    kind: "customer_event",
+    customerId: params.customerId,
+    payload: { event: params.event, vars: params.vars, data: params.data },
+    history: {
+      type: NOTIFICATION_TEMPLATES[params.event].type,
+      title: preview.title,
+      body: preview.body,
+      orderId: params.orderId,
+      basketNumber: params.basketNumber,
+      metadata: { ...params.metadata, event: params.event },
+    },
+  });
+}
+
+/**
+ * Worker: send every row that is due
+ */
+export async function processNotificationOutbox(limit = 20): Promise<OutboxRunResult> {
+  const supabase = outboxClient();
+  const { data, error } = await supabase.rpc("claim_notification_outbox", { p_limit: limit });
+  if (error) throw error;
+
+  const result: OutboxRunResult = { processed: 0, sent: 0, retrying: 0, dead: 0 };
+  for (const entry of (data || []) as OutboxEntry[]) {
+    const status = await processEntry(supabase, entry);
+    result.processed += 1;
+    if (status === "sent") result.sent += 1;
+    else if (status === "dead") result.dead += 1;
+    else result.retrying += 1;
+  }
+  return result;
+}
+
+/**
+ * Dead rows (and rows still retrying), newest first, with who they were for
+ */
+export async function loadFailedSends(
+  supabase: SupabaseClient,
+  statuses: OutboxStatus[] = ["dead"],
+  limit = 100
+): Promise<FailedSend[]> {
+  const { data, error } = await supabase
+    .from("notification_outbox")
+    .select(`
+      *,
+      customers:customer_id(first_name, last_name),
+      staff:staff_id(first_name, last_name),
+      notifications:notification_id(title)
+    `)
+    .in("status", statuses)
+    .order("created_at", { ascending: false })
+    .limit(Math.min(limit, 500));
+  if (error) throw error;
+
+  return (data || []).map((row) => {
+    const { customers, staff, notifications, ...entry } = row;
+    const person = (Array.isArray(customers) ? customers[0] : customers) ?? (Array.isArray(staff) ? staff[0] : staff);
+    const history = Array.isArray(notifications) ? notifications[0] : notifications;
+    return {
+      ...(entry as OutboxEntry),
+      recipient_name: person ? `${person.first_name} ${person.last_name}` : null,
+      title: history?.title ?? entry.payload?.title ?? entry.payload?.event ?? null,
+    };
+  });
+}
+
+/**
+ * Give a dead row a fresh set of attempts, picked up by the next worker run
+ */
+export async function retryOutboxEntry(
+  supabase: SupabaseClient,
+  id: string
+): Promise<{ success: true } | { success: false; error: string; status: number }> {
+  const { data, error } = await supabase
+    .from("notification_outbox")
+    .update({ status: "pending", attempts: 0, next_attempt_at: new Date().toISOString(), last_error: null })
+    .eq("id", id)
+    .eq("status", "dead")
+    .select("id, notification_id")
+    .maybeSingle();
+
+  if (error) {
+    console.error("[NOTIFY OUTBOX] Failed to retry:", error.message);
+    return { success: false, error: "Failed to retry notification", status: 500 };
+  }
+  if (!data) {
+    return { success: false, error: "Notification is not a failed send", status: 409 };
+  }
+
+  if (data.notification_id) {
+    await supabase.from("notifications").update({ status: "pending" }).eq("id", data.notification_id);
+  }
+  return { success: true };
+}
@@ -0,0 +1,95 @@
+/**
+ * Customer notification channels and message templates
+ * A customer is reached over app push, SMS or email, in the order of their
+ * notification_channels (customers table); an empty list opts them out.
+ * Each event has a template per channel ({{placeholders}} are filled from
+ * the event's variables). Sending lives in utils/notification-outbox.ts.
+ * Works with both the browser and the server Supabase clients.
+ */
+
+export const NOTIFICATION_CHANNELS = ["push", "sms", "email"] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  push: "App notification",
+  sms: "SMS",
+  email: "Email",
+};
+
+export const DEFAULT_NOTIFICATION_CHANNELS: NotificationChannel[] = ["push", "sms", "email"];
+
+export const NOTIFICATION_EVENTS = ["basket_completed", "order_ready"] as const;
+
+export type NotificationEvent = (typeof NOTIFICATION_EVENTS)[number];
+
+export interface NotificationTemplate {
+  title: string;                          // Push title and email subject, unused for SMS
+  body: string;
+}
+
+interface EventTemplates {
+  type: string;                           // notifications.type in the customer's history
+  push: NotificationTemplate;
+  sms: NotificationTemplate;
+  email: NotificationTemplate;
+}
+
+// Variables: customer_name, order_code, basket_number, basket_count, handoff
+export const NOTIFICATION_TEMPLATES: Record<NotificationEvent, EventTemplates> = {
+  basket_completed: {
+    type: "service_update",
+    push: {
+      title: "✅ Basket #{{basket_number}} Done",
+      body: "Basket {{basket_number}} of {{basket_count}} is washed and packed. We'll let you know when the whole order is ready.",
+    },
+    sms: {
+      title: "",
+      body: "KATFLIX LAUNDRY: Hi {{customer_name}}, basket {{basket_number}} of {{basket_count}} of order {{order_code}} is done.",
+    },
+    email: {
+      title: "Basket {{basket_number}} of order {{order_code}} is done",
+      body: "Hi {{customer_name}},\n\nBasket {{basket_number}} of {{basket_count}} of your order {{order_code}} is washed and packed. We'll let you know when the whole order is ready.\n\nKatflix Laundry",
+    },
+  },
+  order_ready: {
+    type: "order_status",
+    push: {
+      title: "🧺 Laundry Ready",
+      body: "Your laundry is done. {{handoff}}",
+    },
+    sms: {
+      title: "",
+      body: "KATFLIX LAUNDRY: Hi {{customer_name}}, your laundry (order {{order_code}}) is done. {{handoff}}",
+    },
+    email: {
+      title: "Your laundry is ready (order {{order_code}})",
+      body: "Hi {{customer_name}},\n\nYour laundry for order {{order_code}} is done. {{handoff}}\n\nThank you for choosing Katflix Laundry!",
+    },
+  },
+};
+
+/**
+ * Fill a template's {{placeholders}}; unknown ones are left empty
+ */
+export function renderNotification(
+  event: NotificationEvent,
+  channel: NotificationChannel,
+  vars: Record<string, string | number>
+): NotificationTemplate {
+  const template = NOTIFICATION_TEMPLATES[event][channel];
+  const fill = (text: string) =>
+    text.replace(/\{\{(\w+)\}\}/g, (_, name: string) => (vars[name] === undefined ? "" : String(vars[name]))).trim();
+
+  return { title: fill(template.title), body: fill(template.body) };
+}
+
+/**
+ * Valid channels in the given order, without duplicates
+ */
+export function normalizeNotificationChannels(value: unknown): NotificationChannel[] {
+  if (!Array.isArray(value)) return [];
+  return [...new Set(value)].filter((c): c is NotificationChannel =>
+    NOTIFICATION_CHANNELS.includes(c as NotificationChannel)
+  );
+}
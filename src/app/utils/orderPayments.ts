@@ -0,0 +1,189 @@
+/**
+ * Order payments
+ * An order is paid by one or more tenders (part cash, part GCash), at
+ * drop-off and/or later: a down-payment leaves a balance that is collected
+ * at pickup with record_order_payment. Each tender is a payments row linked
+ * to the receiving cashier's open drawer shift; triggers keep
+ * orders.amount_paid and orders.payment_status in step.
+ * Works with both the browser and the server Supabase clients.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { PaymentMethod, PaymentTender } from "@/src/app/in/pos/logic/posTypes";
+
+export const PAYMENT_STATUSES = ["unpaid", "partial", "paid"] as const;
+
+export type PaymentStatus = (typeof PAYMENT_STATUSES)[number];
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  unpaid: "Unpaid",
+  partial: "Partially paid",
+  paid: "Paid",
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  gcash: "GCash",
+};
+
+export interface OrderPayment {
+  id: string;
+  order_id: string;
+  method: PaymentMethod;
+  amount: number;
+  amount_tendered: number | null;
+  reference: string | null;
+  received_by: string | null;
+  received_by_name?: string | null;
+  shift_id: string | null;
+  created_at: string;
+}
+
+export interface DropOffPayment {
+  tenders: PaymentTender[];
+  paid: number;                           // Applied to the order now
+  change: number;                         // Cash handed back
+  balance: number;                        // Due at pickup
+}
+
+// record_order_payment raises these SQLSTATEs
+const RPC_ERROR_STATUS: Record<string, number> = {
+  OC400: 400,
+  OC404: 404,
+  OC409: 409,
+};
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Tenders for what the cashier took: GCash is applied first, then cash up
+ * to the remaining total (the rest of the cash is change)
+ */
+export function buildDropOffPayment(
+  input: { cash_tendered: number; gcash_amount: number; gcash_reference?: string | null },
+  total: number
+): DropOffPayment {
+  const gcash = roundMoney(Math.max(0, Math.min(input.gcash_amount || 0, total)));
+  const cashTendered = roundMoney(Math.max(0, input.cash_tendered || 0));
+  const cash = roundMoney(Math.min(cashTendered, total - gcash));
+
+  const tenders: PaymentTender[] = [];
+  if (cash > 0) {
+    tenders.push({ method: "cash", amount: cash, amount_tendered: cashTendered });
+  }
+  if (gcash > 0) {
+    tenders.push({ method: "gcash", amount: gcash, reference: input.gcash_reference?.trim() || null });
+  }
+
+  return {
+    tenders,
+    paid: roundMoney(cash + gcash),
+    change: roundMoney(cashTendered - cash),
+    balance: roundMoney(total - cash - gcash),
+  };
+}
+
+/**
+ * Tenders from the single-payment handling fields older clients send
+ * GCash without an amount was paid in full; cash amount_paid is what was
+ * handed over.
+ */
+export function tendersFromHandling(handling: Record<string, unknown>, total: number): PaymentTender[] {
+  const method = handling.payment_method;
+  if (method !== "cash" && method !== "gcash") return [];
+
+  const amountPaid = Number(handling.amount_paid) || null;
+  const amount = roundMoney(Math.min(amountPaid ?? (method === "gcash" ? total : 0), total));
+  if (amount <= 0) return [];
+
+  return [
+    {
+      method,
+      amount,
+      amount_tendered: method === "cash" ? amountPaid : null,
+      reference: typeof handling.gcash_reference === "string" ? handling.gcash_reference.trim() || null : null,
+    },
+  ];
+}
+
+export function validatePaymentTender(tender: Partial<PaymentTender> | null): string | null {
+  if (tender?.method !== "cash" && tender?.method !== "gcash") {
+    return "Payment method must be cash or gcash";
+  }
+  const amount = Number(tender.amount);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return "Payment amount must be more than zero";
+  }
+  if (tender.amount_tendered !== undefined && tender.amount_tendered !== null
+    && Number(tender.amount_tendered) < amount) {
+    return "Cash handed over is less than the payment amount";
+  }
+  return null;
+}
+
+export function validatePaymentTenders(tenders: unknown, total: number): string | null {
+  if (!Array.isArray(tenders)) return "payments must be a list of tenders";
+
+  let paid = 0;
+  for (let i = 0; i < tenders.length; i++) {
+    const error = validatePaymentTender(tenders[i]);
+    if (error) return `Tender ${i + 1}: ${error}`;
+    paid += Number(tenders[i].amount);
+  }
+
+  if (roundMoney(paid) > roundMoney(total)) {
+    return `Payments (₱${paid.toFixed(2)}) exceed the order total (₱${total.toFixed(2)})`;
+  }
+  return null;
+}
+
+/**
+ * Payments of an order, oldest first, with the receiving staff member's name
+ */
+export async function loadOrderPayments(supabase: SupabaseClient, orderId: string): Promise<OrderPayment[]> {
+  const { data, error } = await supabase
+    .from("payments")
+    .select("*, staff:received_by(first_name, last_name)")
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+
+  return (data || []).map(({ staff, ...row }) => ({
+    ...row,
+    amount: Number(row.amount),
+    amount_tendered: row.amount_tendered === null ? null : Number(row.amount_tendered),
+    received_by_name: staff ? `${staff.first_name} ${staff.last_name}` : null,
+  })) as OrderPayment[];
+}
+
+/**
+ * Collect a payment towards an order's balance
+ */
+export async function recordOrderPayment(
+  supabase: SupabaseClient,
+  orderId: string,
+  tender: PaymentTender,
+  staffId: string | null
+): Promise<{ success: true; payment: OrderPayment } | { success: false; error: string; status: number }> {
+  const { data, error } = await supabase.rpc("record_order_payment", {
+    p_order_id: orderId,
+    p_method: tender.method,
+    p_amount: tender.amount,
+    p_amount_tendered: tender.amount_tendered ?? null,
+    p_reference: tender.reference ?? null,
+    p_staff_id: staffId,
+  });
+
+  if (error) {
+    const status = RPC_ERROR_STATUS[error.code] ?? 500;
+    return {
+      success: false,
+      error: status === 500 ? "Failed to record payment" : error.message,
+      status,
+    };
+  }
+
+  return { success: true, payment: { ...(data as OrderPayment), amount: Number(data.amount) } };
+}
@@ -0,0 +1,297 @@
+/**
+ * Order refunds
+ * A refund covers some quantity of an order's product lines and/or whole
+ * baskets. The create_order_refund function prices it from the order's
+ * breakdown (less the order's loyalty discount share), returns refunded
+ * products to stock and links it to the refunding cashier's open drawer
+ * shift; createOrderRefund() then takes back loyalty points the refunded
+ * lines earned. Refund slips go through formatReceiptAsPlaintext.
+ * Works with both the browser and the server Supabase clients.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { reverseRefundedLoyalty } from "@/src/app/utils/loyaltyProgram";
+import {
+  CompactReceipt,
+  formatReceiptAsPlaintext,
+} from "@/src/app/in/pos/logic/receiptGenerator";
+
+export const REFUND_METHODS = ["cash", "gcash"] as const;
+
+export type RefundMethod = (typeof REFUND_METHODS)[number];
+
+export const REFUND_METHOD_LABELS: Record<RefundMethod, string> = {
+  cash: "Cash",
+  gcash: "GCash",
+};
+
+export type RefundLine =
+  | {
+      type: "product";
+      product_id: string;
+      product_name: string;
+      quantity: number;
+      unit_price: number;
+      amount: number;                     // What was given back for this line
+    }
+  | {
+      type: "basket";
+      basket_number: number;
+      weight_kg: number | null;
+      subtotal: number;
+      amount: number;
+    };
+
+// What the client asks for; amounts are always worked out by the database
+export type RefundRequestLine =
+  | { type: "product"; product_id: string; quantity: number }
+  | { type: "basket"; basket_number: number };
+
+export interface Refund {
+  id: string;
+  order_id: string;
+  amount: number;
+  method: RefundMethod;
+  reason: string;
+  lines: RefundLine[];
+  loyalty_points_reversed: number;
+  staff_id: string | null;
+  staff_name?: string | null;
+  shift_id: string | null;
+  created_at: string;
+}
+
+export interface RefundableOrder {
+  id: string;
+  status: string;
+  total_amount: number;
+  breakdown: {
+    items?: { product_id: string; product_name: string; quantity: number; unit_price: number }[];
+    baskets?: { basket_number: number; weight_kg?: number; weight?: number; subtotal?: number }[];
+  } | null;
+}
+
+export interface RefundableLines {
+  products: {
+    product_id: string;
+    product_name: string;
+    unit_price: number;
+    ordered: number;
+    remaining: number;
+  }[];
+  baskets: {
+    basket_number: number;
+    weight_kg: number | null;
+    subtotal: number;
+    refunded: boolean;
+  }[];
+  refunded_total: number;
+  remaining_total: number;                // Order total less every refund so far
+}
+
+// create_order_refund raises these SQLSTATEs
+const RPC_ERROR_STATUS: Record<string, number> = {
+  OC400: 400,
+  OC404: 404,
+  OC409: 409,
+};
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function validateRefundRequest(body: {
+  lines?: unknown;
+  method?: unknown;
+  reason?: unknown;
+}): string | null {
+  if (!Array.isArray(body.lines) || body.lines.length === 0) {
+    return "Choose at least one product or basket to refund";
+  }
+  for (const line of body.lines as Partial<RefundRequestLine>[]) {
+    if (line?.type === "product") {
+      if (!line.product_id) return "Product line is missing product_id";
+      if (!Number.isInteger(Number(line.quantity)) || Number(line.quantity) < 1) {
+        return "Refund quantity must be a whole number of at least 1";
+      }
+    } else if (line?.type === "basket") {
+      if (!Number.isInteger(Number(line.basket_number))) return "Basket line is missing basket_number";
+    } else {
+      return "Each line must be a product or a basket";
+    }
+  }
+  if (!REFUND_METHODS.includes(body.method as RefundMethod)) {
+    return "Refund method must be cash or gcash";
+  }
+  if (typeof body.reason !== "string" || !body.reason.trim()) {
+    return "A reason is required";
+  }
+  return null;
+}
+
+/**
+ * What is left to refund on an order after its earlier refunds
+ */
+export function getRefundableLines(order: RefundableOrder, refunds: Refund[]): RefundableLines {
+  const refundedQuantity = new Map<string, number>();
+  const refundedBaskets = new Set<number>();
+  for (const line of refunds.flatMap((r) => r.lines)) {
+    if (line.type === "product") {
+      refundedQuantity.set(line.product_id, (refundedQuantity.get(line.product_id) || 0) + line.quantity);
+    } else {
+      refundedBaskets.add(line.basket_number);
+    }
+  }
+
+  const refundedTotal = roundMoney(refunds.reduce((sum, r) => sum + Number(r.amount), 0));
+
+  return {
+    products: (order.breakdown?.items || []).map((item) => ({
+      product_id: item.product_id,
+      product_name: item.product_name,
+      unit_price: Number(item.unit_price) || 0,
+      ordered: item.quantity,
+      remaining: Math.max(0, item.quantity - (refundedQuantity.get(item.product_id) || 0)),
+    })),
+    baskets: (order.breakdown?.baskets || []).map((basket) => ({
+      basket_number: basket.basket_number,
+      weight_kg: basket.weight_kg ?? basket.weight ?? null,
+      subtotal: Number(basket.subtotal) || 0,
+      refunded: refundedBaskets.has(basket.basket_number),
+    })),
+    refunded_total: refundedTotal,
+    remaining_total: roundMoney(Math.max(0, Number(order.total_amount) - refundedTotal)),
+  };
+}
+
+/**
+ * Refund slip for the thermal printer
+ * Lines show list prices; the difference to the refunded amount is the
+ * order's loyalty discount share.
+ */
+export function formatRefundSlip(refund: Refund, customerName: string): string {
+  const products = refund.lines.filter((l) => l.type === "product");
+  const baskets = refund.lines.filter((l) => l.type === "basket");
+
+  const subtotalProducts = products.reduce((sum, l) => sum + l.unit_price * l.quantity, 0);
+  const subtotalServices = baskets.reduce((sum, l) => sum + l.subtotal, 0);
+  const discount = roundMoney(subtotalProducts + subtotalServices - Number(refund.amount));
+
+  const receipt: CompactReceipt = {
+    orderId: refund.order_id,
+    customerName: customerName || "Walk-in",
+    items: products.map((l) => ({
+      product_name: l.product_name,
+      quantity: l.quantity,
+      unit_price: l.unit_price,
+      subtotal: roundMoney(l.unit_price * l.quantity),
+    })),
+    baskets: baskets.map((l) => ({
+      basket_number: l.basket_number,
+      weight_kg: l.weight_kg ?? 0,
+      subtotal: l.subtotal,
+    })),
+    total: Number(refund.amount),
+    timestamp: refund.created_at,
+    paymentMethod: REFUND_METHOD_LABELS[refund.method] || refund.method,
+    summary: {
+      subtotal_products: roundMoney(subtotalProducts),
+      subtotal_services: roundMoney(subtotalServices),
+      loyalty_discount: discount > 0 ? discount : 0,
+    },
+    refund: {
+      refundId: refund.id,
+      reason: refund.reason,
+      staffName: refund.staff_name,
+    },
+  };
+
+  return formatReceiptAsPlaintext(receipt);
+}
+
+/**
+ * Refunds of an order, oldest first, with the refunding staff member's name
+ */
+export async function loadOrderRefunds(supabase: SupabaseClient, orderId: string): Promise<Refund[]> {
+  const { data, error } = await supabase
+    .from("refunds")
+    .select("*, staff:staff_id(first_name, last_name)")
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+
+  return (data || []).map(({ staff, ...row }) => ({
+    ...row,
+    amount: Number(row.amount),
+    staff_name: staff ? `${staff.first_name} ${staff.last_name}` : null,
+  })) as Refund[];
+}
+
+/**
+ * Refund lines of an order, then take back the loyalty points they earned
+ * A loyalty failure is logged and leaves loyalty_points_reversed at 0; the
+ * refund itself stands.
+ */
+export async function createOrderRefund(
+  supabase: SupabaseClient,
+  orderId: string,
+  params: {
+    lines: RefundRequestLine[];
+    method: RefundMethod;
+    reason: string;
+    staffId: string | null;
+  }
+): Promise<{ success: true; refund: Refund } | { success: false; error: string; status: number }> {
+  const { data, error } = await supabase.rpc("create_order_refund", {
+    p_order_id: orderId,
+    p_lines: params.lines,
+    p_method: params.method,
+    p_reason: params.reason,
+    p_staff_id: params.staffId,
+  });
+
+  if (error) {
+    const status = RPC_ERROR_STATUS[error.code] ?? 500;
+    return {
+      success: false,
+      error: status === 500 ? "Failed to create refund" : error.message,
+      status,
+    };
+  }
+
+  const refund = { ...(data as Refund), amount: Number(data.amount) };
+
+  // === Loyalty ===
+  const [{ data: order }, { data: earlier }] = await Promise.all([
+    supabase.from("orders").select("customer_id, total_amount").eq("id", orderId).single(),
+    supabase.from("refunds").select("amount, loyalty_points_reversed").eq("order_id", orderId),
+  ]);
+
+  if (order?.customer_id) {
+    const refundedTotal = (earlier || []).reduce((sum, r) => sum + Number(r.amount), 0);
+    const alreadyReversed = (earlier || []).reduce((sum, r) => sum + r.loyalty_points_reversed, 0);
+
+    const reversed = await reverseRefundedLoyalty(supabase, {
+      orderId,
+      customerId: order.customer_id,
+      remainingTotal: roundMoney(Number(order.total_amount) - refundedTotal),
+      alreadyReversed,
+      staffId: params.staffId,
+    });
+
+    if (reversed === null) {
+      console.warn(`[REFUNDS] Loyalty points were not adjusted for refund ${refund.id}`);
+    } else if (reversed > 0) {
+      const { error: updateError } = await supabase
+        .from("refunds")
+        .update({ loyalty_points_reversed: reversed })
+        .eq("id", refund.id);
+      if (updateError) {
+        console.warn(`[REFUNDS] Failed to store reversed points on refund ${refund.id}:`, updateError.message);
+      }
+      refund.loyalty_points_reversed = reversed;
+    }
+  }
+
+  return { success: true, refund };
+}
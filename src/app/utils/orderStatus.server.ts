@@ -0,0 +1,301 @@
+/**
+ * Order lifecycle state machine (server only)
+ *
+ * Every order status change goes through transitionOrder(). It checks the
+ * transition against ORDER_TRANSITIONS (utils/orderStatus.ts), runs the guard
+ * for the target status, then calls the transition_order_status function,
+ * which updates the order and writes the order_status_history row in one
+ * transaction (and returns stock for cancellations). Side effects that talk
+ * to other systems (loyalty, customer notifications, service timeline, machines,
+ * time slots, printing, rider dispatch) run after the transition is committed and
+ * only log on failure.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { sendPushNotification } from "@/src/app/utils/send-notification";
+import { dispatchNotification } from "@/src/app/utils/notification-outbox";
+import { awardOrderLoyaltyPoints, reverseOrderLoyalty } from "@/src/app/utils/loyaltyProgram";
+import { releaseMachines } from "@/src/app/utils/machineFloor.server";
+import { cancelSlotBookings } from "@/src/app/utils/deliverySlots";
+import { gcashAcceptanceError } from "@/src/app/utils/gcashVerification";
+import { enqueueOrderPrintJobs } from "@/src/app/utils/printJobs";
+import { cancelDispatchOffers, offerNextRider } from "@/src/app/utils/rider-dispatch";
+import {
+  canTransitionOrder,
+  isOrderStatus,
+  ORDER_STATUS_LABELS,
+  ORDER_TRANSITIONS,
+  OrderStatus,
+  OrderStatusHistoryEntry,
+} from "@/src/app/utils/orderStatus";
+
+export interface TransitionOrderOptions {
+  staffId?: string | null;                // Acting staff member, recorded in history
+  reason?: string | null;
+  metadata?: Record<string, unknown> | null;
+  from?: OrderStatus[];                   // Only move from these statuses, refuse otherwise
+}
+
+export type TransitionOrderResult =
+  | { success: true; from: OrderStatus; to: OrderStatus; history: OrderStatusHistoryEntry }
+  | { success: false; error: string; status: number };
+
+interface LifecycleOrder {
+  id: string;
+  status: string;
+  source: string | null;
+  customer_id: string | null;
+  gcash_verification_status: string | null;
+  breakdown: { baskets?: { basket_number?: number; services?: Record<string, unknown> }[] } | null;
+}
+
+// transition_order_status raises these SQLSTATEs
+const RPC_ERROR_STATUS: Record<string, number> = {
+  OC404: 404,
+  OC409: 409,
+};
+
+const SERVICE_TYPES = ["wash", "dry", "spin", "iron", "fold"];
+
+/**
+ * Guard conditions, checked before the transition is written
+ * Return an error message to refuse the transition
+ */
+const TRANSITION_GUARDS: Partial<
+  Record<OrderStatus, (order: LifecycleOrder) => string | null>
+> = {
+  // Accepting a pending order needs its GCash receipt verified
+  processing: (order) => (order.status === "pending" ? gcashAcceptanceError(order) : null),
+  completed: (order) =>
+    order.status === "pending" && (order.breakdown?.baskets || []).length > 0
+      ? "Orders with baskets must be processed before they are completed"
+      : order.status === "pending"
+        ? gcashAcceptanceError(order)
+        : null,
+};
+
+// Customer push notification sent when an order enters these statuses
+const STATUS_NOTIFICATIONS: Partial<Record<OrderStatus, { title: string; body: string }>> = {
+  cancelled: {
+    title: "❌ Order Cancelled",
+    body: "Your order has been cancelled. Contact us if this is unexpected.",
+  },
+};
+
+/**
+ * Services in the order that are switched on (iron is on when it has a weight)
+ */
+export function activeServices(services: Record<string, unknown>): string[] {
+  return SERVICE_TYPES.filter((serviceType) => {
+    const value = serviceType === "iron" ? services.iron_weight_kg : services[serviceType];
+    return value !== "off" && value !== false && value !== null && value !== undefined && value !== 0 && value !== "";
+  });
+}
+
+/**
+ * Mark every service that has no timeline entry yet as skipped
+ */
+async function skipRemainingServices(
+  supabase: SupabaseClient,
+  order: LifecycleOrder,
+  staffId: string | null,
+  note: string
+) {
+  const { data: existing } = await supabase
+    .from("basket_service_status")
+    .select("basket_number, service_type")
+    .eq("order_id", order.id);
+
+  const entries = [];
+  for (const basket of order.breakdown?.baskets || []) {
+    const basketNumber = basket.basket_number || 0;
+    for (const serviceType of activeServices(basket.services || {})) {
+      const hasEntry = (existing || []).some(
+        (s) => s.basket_number === basketNumber && s.service_type === serviceType
+      );
+      if (!hasEntry) {
+        entries.push({
+          order_id: order.id,
+          basket_number: basketNumber,
+          service_type: serviceType,
+          status: "skipped",
+          completed_by: staffId,
+          notes: note,
+        });
+      }
+    }
+  }
+
+  if (entries.length === 0) return;
+
+  const { error } = await supabase.from("basket_service_status").insert(entries);
+  if (error) {
+    console.error(`[ORDER LIFECYCLE] Failed to skip services for order ${order.id}:`, error.message);
+  }
+}
+
+/**
+ * Side effects of entering a status, run after the transition is committed
+ */
+async function runSideEffects(
+  supabase: SupabaseClient,
+  order: LifecycleOrder,
+  to: OrderStatus,
+  options: TransitionOrderOptions
+) {
+  const staffId = options.staffId ?? null;
+
+  if (to === "completed" && order.customer_id) {
+    const awarded = await awardOrderLoyaltyPoints(supabase, order.id, order.customer_id);
+    if (!awarded) {
+      console.warn(`[ORDER LIFECYCLE] Failed to award loyalty points for order ${order.id}`);
+    }
+  }
+
+  if (to === "cancelled") {
+    const note = options.reason || "Order cancelled";
+    await skipRemainingServices(supabase, order, staffId, note);
+    await releaseMachines(supabase, order.id, { reason: "cancelled" });
+    await cancelSlotBookings(supabase, { orderId: order.id });
+
+    if (order.customer_id) {
+      const reversed = await reverseOrderLoyalty(
+        supabase,
+        order.id,
+        order.customer_id,
+        note,
+        staffId
+      );
+      if (!reversed) {
+        console.warn(`[ORDER LIFECYCLE] Failed to reverse loyalty points for order ${order.id}`);
+      }
+    }
+  }
+
+  // Accepted mobile orders get their receipt and basket tags printed
+  // (POS orders are printed at creation)
+  if (to === "processing" && order.status === "pending" && order.source === "mobile") {
+    const printJobs = await enqueueOrderPrintJobs(supabase, order.id, { staffId });
+    if (!printJobs.success) {
+      console.warn(`[ORDER LIFECYCLE] Failed to queue print jobs for order ${order.id}: ${printJobs.error}`);
+    }
+  }
+
+  // Laundry done: waiting for delivery, or (in-store orders, which skip
+  // for_pick-up) ready to collect. Goes out on the customer's channels.
+  const laundryDone = to === "for_pick-up" || (to === "completed" && order.status === "processing");
+  if (laundryDone && order.customer_id) {
+    await dispatchNotification({
+      customerId: order.customer_id,
+      event: "order_ready",
+      vars: {
+        order_code: order.id.split("-")[0].toUpperCase(),
+        handoff: to === "for_pick-up" ? "We'll deliver it to you soon." : "You can pick it up at the shop.",
+      },
+      orderId: order.id,
+      metadata: { from: order.status, to },
+    });
+  }
+
+  // Laundry waiting for delivery goes to a rider; finished or cancelled
+  // orders withdraw any offer still out
+  if (to === "for_pick-up") {
+    const dispatch = await offerNextRider(order.id, "delivery");
+    if (!dispatch.success) {
+      console.warn(`[ORDER LIFECYCLE] Delivery of order ${order.id} not dispatched: ${dispatch.error}`);
+    }
+  } else if (to === "completed" || to === "cancelled") {
+    await cancelDispatchOffers(order.id);
+  }
+
+  const notification = STATUS_NOTIFICATIONS[to];
+  if (notification && order.customer_id) {
+    await sendPushNotification(order.customer_id, notification.title, notification.body, undefined, {
+      orderId: order.id,
+      notificationType: "order_status",
+      metadata: { from: order.status, to },
+    });
+  }
+}
+
+/**
+ * Move an order to a new status
+ * Validates the transition, writes history, then runs side effects
+ */
+export async function transitionOrder(
+  supabase: SupabaseClient,
+  orderId: string,
+  to: string,
+  options: TransitionOrderOptions = {}
+): Promise<TransitionOrderResult> {
+  if (!isOrderStatus(to)) {
+    return { success: false, error: `Invalid status: ${to}`, status: 400 };
+  }
+
+  const { data: order, error: fetchError } = await supabase
+    .from("orders")
+    .select("id, status, source, customer_id, gcash_verification_status, breakdown")
+    .eq("id", orderId)
+    .single<LifecycleOrder>();
+
+  if (fetchError || !order) {
+    return { success: false, error: "Order not found", status: 404 };
+  }
+
+  const from = order.status;
+
+  if (options.from && !options.from.includes(from as OrderStatus)) {
+    return { success: false, error: `Order is ${from.replace(/_/g, " ")}`, status: 409 };
+  }
+
+  if (from === to) {
+    return { success: false, error: `Order is already ${ORDER_STATUS_LABELS[to].toLowerCase()}`, status: 400 };
+  }
+
+  if (!canTransitionOrder(from, to)) {
+    const allowed = isOrderStatus(from) ? ORDER_TRANSITIONS[from] : [];
+    return {
+      success: false,
+      error: allowed.length
+        ? `Cannot move order from ${from} to ${to}. Allowed: ${allowed.join(", ")}`
+        : `Cannot move order from ${from} to ${to}`,
+      status: 409,
+    };
+  }
+
+  const guardError = TRANSITION_GUARDS[to]?.(order);
+  if (guardError) {
+    return { success: false, error: guardError, status: 409 };
+  }
+
+  const { data: history, error } = await supabase.rpc("transition_order_status", {
+    p_order_id: orderId,
+    p_from: from,
+    p_to: to,
+    p_changed_by: options.staffId ?? null,
+    p_reason: options.reason ?? null,
+    p_metadata: options.metadata ?? null,
+    p_return_stock: to === "cancelled",
+  });
+
+  if (error) {
+    const status = RPC_ERROR_STATUS[error.code] || 500;
+    console.error(`[ORDER LIFECYCLE] ${orderId} ${from} -> ${to} failed (${error.code}):`, error.message);
+    return {
+      success: false,
+      error: status === 500 ? "Failed to update order status" : error.message,
+      status,
+    };
+  }
+
+  console.log(`[ORDER LIFECYCLE] Order ${orderId}: ${from} -> ${to}`);
+
+  await runSideEffects(supabase, order, to, options);
+
+  return {
+    success: true,
+    from: from as OrderStatus,
+    to,
+    history: history as OrderStatusHistoryEntry,
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Order lifecycle definitions
+ * Statuses, labels and the allowed transitions between them.
+ * Shared by the server state machine (utils/orderStatus.server.ts) and the
+ * orders page.
+ */
+
+export const ORDER_STATUSES = [
+  "pending",
+  "processing",
+  "for_pick-up",
+  "for_delivery",
+  "completed",
+  "cancelled",
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+// Statuses an order can have while a pickup or delivery is still to do
+export const RIDER_JOB_STATUSES: OrderStatus[] = [
+  "pending",
+  "processing",
+  "for_pick-up",
+  "for_delivery",
+];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "Pending",
+  processing: "Processing",
+  "for_pick-up": "For Pick-up",
+  for_delivery: "For Delivery",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+/**
+ * Allowed next statuses for each status
+ * completed and cancelled are final
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["processing", "completed", "cancelled"],
+  processing: ["for_pick-up", "for_delivery", "completed", "cancelled"],
+  "for_pick-up": ["for_delivery", "completed", "cancelled"],
+  for_delivery: ["completed", "cancelled"],
+  completed: [],
+  cancelled: [],
+};
+
+export interface OrderStatusHistoryEntry {
+  id: string;
+  order_id: string;
+  from_status: string | null;             // null for the creation entry
+  to_status: string;
+  changed_by: string | null;              // staff.id
+  changed_by_name?: string | null;
+  reason: string | null;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return ORDER_STATUSES.includes(value as OrderStatus);
+}
+
+export function canTransitionOrder(from: string, to: string): boolean {
+  return isOrderStatus(from) && isOrderStatus(to) && ORDER_TRANSITIONS[from].includes(to);
+}
@@ -0,0 +1,142 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { SupabaseClient } from "@supabase/supabase-js";
+import {
+  getPagePermission,
+  hasPermission,
+  loadRolePermissions,
+  PAGE_PERMISSIONS,
+  Permission,
+  PERMISSION_KEYS,
+} from "@/src/app/utils/permissions";
+
+interface RolePermissionRow {
+  role_id: string;
+  permission: string;
+}
+
+/**
+ * Just enough of a Supabase client to answer
+ * from("role_permissions").select().in("role_id", [...])
+ */
+function rolePermissionsClient(rows: RolePermissionRow[], error: Error | null = null) {
+  const queried: string[][] = [];
+  const client = {
+    from: (table: string) => {
+      expect(table).toBe("role_permissions");
+      return {
+        select: () => ({
+          in: async (_column: string, roleIds: string[]) => {
+            queried.push(roleIds);
+            return {
+              data: error ? null : rows.filter((r) => roleIds.includes(r.role_id)),
+              error,
+            };
+          },
+        }),
+      };
+    },
+  };
+  return { supabase: client as unknown as SupabaseClient, queried };
+}
+
+const ROLE_ROWS: RolePermissionRow[] = [
+  { role_id: "cashier", permission: "pos.use" },
+  { role_id: "cashier", permission: "orders.view" },
+  { role_id: "attendant", permission: "orders.view" },
+  { role_id: "attendant", permission: "orders.process" },
+  { role_id: "rider", permission: "deliveries.view" },
+  { role_id: "rider", permission: "orders.fly_to_moon" },
+];
+
+describe("hasPermission", () => {
+  it("is true only for permissions in the list", () => {
+    const permissions: Permission[] = ["orders.view", "pos.use"];
+    expect(hasPermission(permissions, "pos.use")).toBe(true);
+    expect(hasPermission(permissions, "staff.manage")).toBe(false);
+    expect(hasPermission([], "orders.view")).toBe(false);
+  });
+});
+
+describe("loadRolePermissions", () => {
+  it("gives admin every permission without reading role_permissions", async () => {
+    const { supabase, queried } = rolePermissionsClient([]);
+    const permissions = await loadRolePermissions(supabase, ["admin"]);
+    expect(permissions).toEqual(PERMISSION_KEYS);
+    expect(queried).toHaveLength(0);
+  });
+
+  it("gives admin every permission alongside other roles", async () => {
+    const { supabase } = rolePermissionsClient(ROLE_ROWS);
+    expect(await loadRolePermissions(supabase, ["rider", "admin"])).toEqual(PERMISSION_KEYS);
+  });
+
+  it("returns nothing for no roles", async () => {
+    const { supabase, queried } = rolePermissionsClient(ROLE_ROWS);
+    expect(await loadRolePermissions(supabase, [])).toEqual([]);
+    expect(queried).toHaveLength(0);
+  });
+
+  it("drops permissions the app does not know", async () => {
+    const { supabase } = rolePermissionsClient(ROLE_ROWS);
+    expect(await loadRolePermissions(supabase, ["rider"])).toEqual(["deliveries.view"]);
+  });
+
+  it("combines roles without duplicates, in PERMISSIONS order", async () => {
+    const { supabase } = rolePermissionsClient(ROLE_ROWS);
+    expect(await loadRolePermissions(supabase, ["attendant", "cashier"])).toEqual([
+      "pos.use",
+      "orders.view",
+      "orders.process",
+    ]);
+  });
+
+  it("maps the legacy cashier_attendant role to cashier and attendant", async () => {
+    const { supabase, queried } = rolePermissionsClient(ROLE_ROWS);
+    expect(await loadRolePermissions(supabase, ["cashier_attendant"])).toEqual([
+      "pos.use",
+      "orders.view",
+      "orders.process",
+    ]);
+    expect(queried[0]).toEqual(["cashier", "attendant"]);
+  });
+
+  it("returns nothing for a role without permissions", async () => {
+    const { supabase } = rolePermissionsClient(ROLE_ROWS);
+    expect(await loadRolePermissions(supabase, ["trainee"])).toEqual([]);
+  });
+
+  it("throws when role_permissions cannot be read", async () => {
+    const { supabase } = rolePermissionsClient([], new Error("boom"));
+    await expect(loadRolePermissions(supabase, ["cashier"])).rejects.toThrow("boom");
+  });
+});
+
+describe("getPagePermission", () => {
+  const original = [...PAGE_PERMISSIONS];
+
+  afterEach(() => {
+    PAGE_PERMISSIONS.splice(0, PAGE_PERMISSIONS.length, ...original);
+  });
+
+  it("matches a page and the pages under it", () => {
+    expect(getPagePermission("/in/orders")).toBe("orders.view");
+    expect(getPagePermission("/in/manage/pricing/zones")).toBe("pricing.edit");
+  });
+
+  it("only matches whole path segments", () => {
+    expect(getPagePermission("/in/posters")).toBeNull();
+  });
+
+  it("returns null for pages open to every staff member", () => {
+    expect(getPagePermission("/in/settings")).toBeNull();
+  });
+
+  it("lets the longest prefix win whatever the list order", () => {
+    PAGE_PERMISSIONS.unshift(["/in/manage", "staff.manage"]);
+    expect(getPagePermission("/in/manage/pricing")).toBe("pricing.edit");
+    expect(getPagePermission("/in/manage/other")).toBe("staff.manage");
+
+    PAGE_PERMISSIONS.push(["/in/manage/pricing/zones", "slots.manage"]);
+    expect(getPagePermission("/in/manage/pricing/zones/1")).toBe("slots.manage");
+  });
+});
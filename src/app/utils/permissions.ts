@@ -0,0 +1,233 @@
+/**
+ * Staff permissions
+ * Named permissions are grouped into roles (roles + role_permissions tables)
+ * and staff can hold several roles. The navbar, the page guards in the
+ * proxy and the API guard (utils/staff-auth.ts) all resolve access through
+ * loadStaffAccess() and hasPermission().
+ * The admin role always holds every permission so it cannot be locked out.
+ * Works with both the browser and the server Supabase clients.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+
+export const PERMISSIONS = {
+  "pos.use": { label: "Create orders at the POS", group: "Orders" },
+  "orders.view": { label: "View orders", group: "Orders" },
+  "orders.update_status": { label: "Update order and delivery status", group: "Orders" },
+  "orders.process": { label: "Process baskets and services", group: "Orders" },
+  "orders.edit": { label: "Modify orders", group: "Orders" },
+  "orders.cancel": { label: "Cancel and reject orders", group: "Orders" },
+  "orders.refund": { label: "Refund products and baskets", group: "Orders" },
+  "payments.verify": { label: "Verify GCash receipts", group: "Orders" },
+  "deliveries.view": { label: "Rider schedule and routes", group: "Orders" },
+  "shifts.use": { label: "Open and close own cash drawer shift", group: "Cash" },
+  "shifts.manage": { label: "Review all shifts and Z reports", group: "Cash" },
+  "inventory.manage": { label: "Manage products and services", group: "Inventory" },
+  "inventory.adjust": { label: "Adjust stock quantities", group: "Inventory" },
+  "machines.manage": { label: "Machines and downtime", group: "Operations" },
+  "machines.plan": { label: "Maintenance plans", group: "Operations" },
+  "issues.manage": { label: "Handle reported issues", group: "Operations" },
+  "slots.manage": { label: "Delivery time slots", group: "Operations" },
+  "notifications.manage": { label: "Notification delivery and failed sends", group: "Operations" },
+  "pricing.edit": { label: "Pricing rules and delivery zones", group: "Settings" },
+  "loyalty.edit": { label: "Loyalty program", group: "Settings" },
+  "loyalty.adjust": { label: "Adjust customer points", group: "Accounts" },
+  "customers.manage": { label: "Manage customers", group: "Accounts" },
+  "staff.manage": { label: "Manage staff and roles", group: "Accounts" },
+  "reports.view": { label: "View reports", group: "Reports" },
+  "reports.export": { label: "Export reports", group: "Reports" },
+  "audit.view": { label: "View the audit log", group: "Reports" },
+  "receipts.manage": { label: "Receipt storage and retention", group: "Settings" },
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const PERMISSION_KEYS = Object.keys(PERMISSIONS) as Permission[];
+
+export const ADMIN_ROLE = "admin";
+
+// Roles from before configurable roles, mapped to the roles that replace
+// them, so staff still holding one keep their access until the
+// role_permissions migration moves them over
+const LEGACY_ROLES: Record<string, string[]> = {
+  cashier_attendant: ["cashier", "attendant"],
+};
+
+export interface StaffRoleDefinition {
+  id: string;
+  name: string;
+  description: string | null;
+  is_system: boolean;                     // Built-in roles cannot be deleted
+  permissions: Permission[];
+}
+
+export interface StaffAccess {
+  staff_id: string;
+  first_name: string | null;
+  last_name: string | null;
+  is_active: boolean;
+  roles: string[];
+  permissions: Permission[];
+}
+
+/**
+ * Pages and the permission needed to open them (longest prefix wins)
+ * Pages not listed here are open to every active staff member.
+ */
+export const PAGE_PERMISSIONS: [string, Permission][] = [
+  ["/in/pos", "pos.use"],
+  ["/in/orders", "orders.view"],
+  ["/in/baskets", "orders.process"],
+  ["/in/rider", "deliveries.view"],
+  ["/in/shifts", "shifts.use"],
+  ["/in/inventory", "inventory.adjust"],
+  ["/in/manage/products", "inventory.manage"],
+  ["/in/manage/services", "inventory.manage"],
+  ["/in/manage/machines", "machines.manage"],
+  ["/in/manage/issues", "issues.manage"],
+  ["/in/manage/slots", "slots.manage"],
+  ["/in/manage/pricing", "pricing.edit"],
+  ["/in/manage/loyalty", "loyalty.edit"],
+  ["/in/manage/audit", "audit.view"],
+  ["/in/manage/notifications", "notifications.manage"],
+  ["/in/accounts/staff", "staff.manage"],
+  ["/in/accounts/customers", "customers.manage"],
+  ["/in/analytics", "reports.view"],
+];
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === "string" && value in PERMISSIONS;
+}
+
+export function validateRoleDefinition(role: {
+  id?: string;
+  name?: string;
+  permissions?: unknown;
+}): string | null {
+  if (!role.name?.trim()) return "Role name is required";
+  if (role.id !== undefined && !/^[a-z][a-z0-9_]*$/.test(role.id)) {
+    return "Role ID must be lowercase letters, numbers and underscores";
+  }
+  if (!Array.isArray(role.permissions) || !role.permissions.every(isPermission)) {
+    return "Unknown permission in the list";
+  }
+  return null;
+}
+
+/**
+ * Role ID for a new role name, e.g. "Shift Lead" -> "shift_lead"
+ */
+export function toRoleId(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .replace(/^(\d)/, "role_$1");
+}
+
+export function hasPermission(permissions: readonly Permission[], permission: Permission): boolean {
+  return permissions.includes(permission);
+}
+
+export function getPagePermission(pathname: string): Permission | null {
+  const match = PAGE_PERMISSIONS
+    .filter(([prefix]) => pathname === prefix || pathname.startsWith(prefix + "/"))
+    .sort((a, b) => b[0].length - a[0].length)[0];
+  return match ? match[1] : null;
+}
+
+// Where to send staff who open a page they may not use
+const FALLBACK_PAGES: [Permission, string][] = [
+  ["pos.use", "/in/pos"],
+  ["orders.process", "/in/baskets"],
+  ["orders.view", "/in/orders"],
+];
+
+export function getFallbackPage(permissions: readonly Permission[]): string {
+  const page = FALLBACK_PAGES.find(([permission]) => hasPermission(permissions, permission));
+  return page ? page[1] : "/in/settings";
+}
+
+/**
+ * Roles with legacy roles replaced by the roles they stand for
+ */
+export function expandLegacyRoles(roles: readonly string[]): string[] {
+  return [...new Set(roles.flatMap((role) => LEGACY_ROLES[role] ?? [role]))];
+}
+
+/**
+ * Permissions granted by a set of roles
+ */
+export async function loadRolePermissions(
+  supabase: SupabaseClient,
+  roles: string[]
+): Promise<Permission[]> {
+  const roleIds = expandLegacyRoles(roles);
+  if (roleIds.includes(ADMIN_ROLE)) return [...PERMISSION_KEYS];
+  if (roleIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("role_permissions")
+    .select("permission")
+    .in("role_id", roleIds);
+
+  if (error) throw error;
+
+  const granted = new Set((data || []).map((r) => r.permission).filter(isPermission));
+  return PERMISSION_KEYS.filter((p) => granted.has(p));
+}
+
+/**
+ * Staff record, roles and permissions for a signed-in user; null when the
+ * user is not staff
+ */
+export async function loadStaffAccess(
+  supabase: SupabaseClient,
+  authId: string
+): Promise<StaffAccess | null> {
+  const { data: staff, error } = await supabase
+    .from("staff")
+    .select("id, first_name, last_name, is_active, staff_roles(role_id)")
+    .eq("auth_id", authId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!staff) return null;
+
+  const roles = (staff.staff_roles || []).map((r: { role_id: string }) => r.role_id);
+  return {
+    staff_id: staff.id,
+    first_name: staff.first_name,
+    last_name: staff.last_name,
+    is_active: staff.is_active !== false,
+    roles,
+    permissions: await loadRolePermissions(supabase, roles),
+  };
+}
+
+/**
+ * Every role with its permissions (staff accounts page)
+ */
+export async function loadRoleDefinitions(supabase: SupabaseClient): Promise<StaffRoleDefinition[]> {
+  const [rolesResult, permissionsResult] = await Promise.all([
+    supabase.from("roles").select("id, name, description, is_system").order("name", { ascending: true }),
+    supabase.from("role_permissions").select("role_id, permission"),
+  ]);
+
+  if (rolesResult.error) throw rolesResult.error;
+  if (permissionsResult.error) throw permissionsResult.error;
+
+  return (rolesResult.data || []).map((role) => ({
+    id: role.id,
+    name: role.name || role.id,
+    description: role.description ?? null,
+    is_system: !!role.is_system,
+    permissions:
+      role.id === ADMIN_ROLE
+        ? [...PERMISSION_KEYS]
+        : PERMISSION_KEYS.filter((p) =>
+            (permissionsResult.data || []).some((r) => r.role_id === role.id && r.permission === p)
+          ),
+  }));
+}
@@ -0,0 +1,81 @@
+/**
+ * Pricing rules loader
+ * Reads the pricing_rules table and merges it over DEFAULT_PRICING_RULES.
+ * Works with both the browser and the server Supabase clients.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { resolvePricingRules } from "@/src/app/in/pos/logic/posHelpers";
+import { PricingRuleKey, PricingRules } from "@/src/app/in/pos/logic/posTypes";
+
+/**
+ * Display metadata for each pricing rule (admin page + API)
+ */
+export const PRICING_RULE_DEFINITIONS: Record<
+  PricingRuleKey,
+  { label: string; description: string; unit: "₱" | "kg" | "%" | "tiers" }
+> = {
+  tax_rate: {
+    label: "VAT Rate",
+    description: "VAT included in all prices (0.12 = 12%)",
+    unit: "%",
+  },
+  staff_service_fee: {
+    label: "Staff Service Fee",
+    description: "Flat fee per order when staff handles the laundry",
+    unit: "₱",
+  },
+  delivery_fee_default: {
+    label: "Default Delivery Fee",
+    description: "Delivery fee used when the cashier does not override it",
+    unit: "₱",
+  },
+  delivery_fee_min: {
+    label: "Minimum Delivery Fee",
+    description: "Delivery fee overrides cannot go below this amount",
+    unit: "₱",
+  },
+  basket_weight_max: {
+    label: "Basket Weight Limit",
+    description: "Weight above this moves to a new basket",
+    unit: "kg",
+  },
+  iron_weight_min: {
+    label: "Iron Minimum Weight",
+    description: "Ironing below this weight is skipped",
+    unit: "kg",
+  },
+  iron_weight_max: {
+    label: "Iron Maximum Weight",
+    description: "Largest ironing weight per basket",
+    unit: "kg",
+  },
+  fold_price: {
+    label: "Fold Price",
+    description: "Price per basket for folding",
+    unit: "₱",
+  },
+  extra_dry_tiers: {
+    label: "Extra Dry Time Tiers",
+    description: "Additional dry time options and their prices",
+    unit: "tiers",
+  },
+};
+
+/**
+ * Load the effective pricing rules
+ * Falls back to the defaults if the table cannot be read
+ */
+export async function loadPricingRules(
+  supabase: SupabaseClient
+): Promise<PricingRules> {
+  const { data, error } = await supabase
+    .from("pricing_rules")
+    .select("rule_key, value");
+
+  if (error) {
+    console.warn("[Pricing Rules] Failed to load, using defaults:", error.message);
+  }
+
+  return resolvePricingRules(data);
+}
@@ -0,0 +1,186 @@
+/**
+ * Thermal printer job queue
+ * Orders queue a receipt and one tag per basket in print_jobs when they are
+ * created at the POS or when staff accept a mobile order. A print agent
+ * (local service or the POS over WebUSB / Web Serial) claims jobs for its
+ * printer through /api/print/jobs/claim, gets the ESC/POS bytes rendered
+ * here from the stored order, and reports each job printed or failed.
+ * Works with both the browser and the server Supabase clients.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { loadOrderReceipt } from "@/src/app/utils/receiptGenerator";
+import {
+  basketTagToEscPosBlocks,
+  encodeEscPos,
+  receiptToEscPosBlocks,
+} from "@/src/app/utils/escpos";
+
+export const PRINT_JOB_KINDS = ["receipt", "basket_tag"] as const;
+
+export type PrintJobKind = (typeof PRINT_JOB_KINDS)[number];
+
+export const PRINT_JOB_STATUSES = ["queued", "printing", "printed", "failed", "expired"] as const;
+
+export type PrintJobStatus = (typeof PRINT_JOB_STATUSES)[number];
+
+export const DEFAULT_PRINTER = "default";
+
+export interface PrintJob {
+  id: string;
+  order_id: string;
+  kind: PrintJobKind;
+  basket_number: number | null;
+  printer: string;
+  status: PrintJobStatus;
+  attempts: number;
+  error: string | null;
+  created_by: string | null;
+  created_at: string;
+  claimed_at: string | null;
+  printed_at: string | null;
+}
+
+type PrintJobResult<T> = { success: true; data: T } | { success: false; error: string; status: number };
+
+/**
+ * Queue an order's receipt and basket tags
+ * kinds limits what is printed, e.g. ["receipt"] for a receipt reprint.
+ */
+export async function enqueueOrderPrintJobs(
+  supabase: SupabaseClient,
+  orderId: string,
+  options: { staffId?: string | null; printer?: string; kinds?: PrintJobKind[] } = {}
+): Promise<PrintJobResult<PrintJob[]>> {
+  const kinds = options.kinds ?? [...PRINT_JOB_KINDS];
+
+  const { data: order, error: orderError } = await supabase
+    .from("orders")
+    .select("id, breakdown")
+    .eq("id", orderId)
+    .maybeSingle();
+
+  if (orderError) {
+    console.error("[PRINT JOBS] Failed to load order:", orderError.message);
+    return { success: false, error: "Failed to queue print jobs", status: 500 };
+  }
+  if (!order) {
+    return { success: false, error: "Order not found", status: 404 };
+  }
+
+  const base = {
+    order_id: orderId,
+    printer: options.printer?.trim() || DEFAULT_PRINTER,
+    created_by: options.staffId ?? null,
+  };
+  const rows = [
+    ...(kinds.includes("receipt") ? [{ ...base, kind: "receipt", basket_number: null }] : []),
+    ...(kinds.includes("basket_tag")
+      ? ((order.breakdown?.baskets || []) as { basket_number: number }[]).map((basket) => ({
+          ...base,
+          kind: "basket_tag",
+          basket_number: basket.basket_number,
+        }))
+      : []),
+  ];
+  if (rows.length === 0) return { success: true, data: [] };
+
+  const { data, error } = await supabase.from("print_jobs").insert(rows).select("*");
+  if (error) {
+    console.error("[PRINT JOBS] Failed to queue print jobs:", error.message);
+    return { success: false, error: "Failed to queue print jobs", status: 500 };
+  }
+
+  return { success: true, data: data as PrintJob[] };
+}
+
+/**
+ * Recent print jobs, newest first
+ */
+export async function loadPrintJobs(
+  supabase: SupabaseClient,
+  filters: { printer?: string; status?: PrintJobStatus; orderId?: string; limit?: number } = {}
+): Promise<PrintJob[]> {
+  let query = supabase
+    .from("print_jobs")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(Math.min(filters.limit ?? 50, 200));
+
+  if (filters.printer) query = query.eq("printer", filters.printer);
+  if (filters.status) query = query.eq("status", filters.status);
+  if (filters.orderId) query = query.eq("order_id", filters.orderId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as PrintJob[];
+}
+
+/**
+ * Claim the next jobs for a printer (claim_print_jobs)
+ */
+export async function claimPrintJobs(supabase: SupabaseClient, printer: string, limit = 10): Promise<PrintJob[]> {
+  const { data, error } = await supabase.rpc("claim_print_jobs", {
+    p_printer: printer,
+    p_limit: limit,
+  });
+  if (error) throw error;
+  return (data || []) as PrintJob[];
+}
+
+/**
+ * ESC/POS bytes of a job, rendered from the order as it is stored now
+ * Returns null when the order or the basket no longer exists.
+ */
+export async function renderPrintJob(supabase: SupabaseClient, job: PrintJob): Promise<Uint8Array | null> {
+  const receipt = await loadOrderReceipt(supabase, job.order_id);
+  if (!receipt) return null;
+
+  if (job.kind === "receipt") {
+    return encodeEscPos(receiptToEscPosBlocks(receipt));
+  }
+
+  const basket = receipt.baskets?.find((b) => b.basket_number === job.basket_number);
+  if (!basket) return null;
+
+  return encodeEscPos(
+    basketTagToEscPosBlocks({
+      orderId: receipt.orderId,
+      customerName: receipt.customerName,
+      basket,
+      basketCount: receipt.baskets?.length ?? 1,
+      timestamp: receipt.timestamp,
+    })
+  );
+}
+
+/**
+ * Record the outcome of a claimed job
+ */
+export async function completePrintJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  outcome: { printed: boolean; error?: string | null }
+): Promise<PrintJobResult<PrintJob>> {
+  const { data, error } = await supabase
+    .from("print_jobs")
+    .update(
+      outcome.printed
+        ? { status: "printed", printed_at: new Date().toISOString(), error: null }
+        : { status: "failed", error: outcome.error?.trim() || "Printer error" }
+    )
+    .eq("id", jobId)
+    .eq("status", "printing")
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    console.error("[PRINT JOBS] Failed to update print job:", error.message);
+    return { success: false, error: "Failed to update print job", status: 500 };
+  }
+  if (!data) {
+    return { success: false, error: "Print job is not being printed", status: 409 };
+  }
+
+  return { success: true, data: data as PrintJob };
+}
@@ -0,0 +1,215 @@
+/**
+ * Stored order receipts (server only)
+ *
+ * Printed receipts are kept in the private order-receipts storage bucket
+ * under <order id>/receipt-<timestamp>.txt and listed in order_receipts.
+ * Files are only handed out through signed URLs that expire after
+ * RECEIPT_LINK_TTL_SECONDS, and are deleted RECEIPT_RETENTION_DAYS after
+ * they were stored (the order itself can always rebuild its receipt).
+ * Needs a service role client: the bucket has no storage policies.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import * as fs from "fs";
+import * as path from "path";
+import { formatReceiptAsPlaintext } from "@/src/app/in/pos/logic/receiptGenerator";
+import { loadOrderReceipt } from "@/src/app/utils/receiptGenerator";
+
+export const RECEIPTS_BUCKET = "order-receipts";
+export const RECEIPT_LINK_TTL_SECONDS = 5 * 60;
+export const RECEIPT_RETENTION_DAYS = 90;
+
+// Where POST /api/receipts used to write receipt files
+const LEGACY_RECEIPTS_DIR = path.join(process.cwd(), "public", "receipts");
+
+export interface StoredReceipt {
+  id: string;
+  order_id: string;
+  storage_path: string;
+  source: "pos" | "legacy";
+  created_at: string;
+  delete_after: string;
+}
+
+export interface ReceiptLink {
+  receipt: StoredReceipt;
+  url: string;
+  expires_at: string;
+}
+
+export interface LegacyMigrationResult {
+  migrated: number;
+  unmatched: string[];        // Files whose order could not be found, left in place
+}
+
+function deleteAfter(from: Date): string {
+  return new Date(from.getTime() + RECEIPT_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+async function signReceipt(supabase: SupabaseClient, receipt: StoredReceipt): Promise<ReceiptLink> {
+  const { data, error } = await supabase.storage
+    .from(RECEIPTS_BUCKET)
+    .createSignedUrl(receipt.storage_path, RECEIPT_LINK_TTL_SECONDS, {
+      download: path.basename(receipt.storage_path),
+    });
+  if (error || !data) throw error ?? new Error("Failed to sign receipt URL");
+
+  return {
+    receipt,
+    url: data.signedUrl,
+    expires_at: new Date(Date.now() + RECEIPT_LINK_TTL_SECONDS * 1000).toISOString(),
+  };
+}
+
+async function saveReceiptFile(
+  supabase: SupabaseClient,
+  params: {
+    orderId: string;
+    fileName: string;
+    plaintext: string;
+    source: StoredReceipt["source"];
+    createdAt: Date;
+    staffId?: string | null;
+  }
+): Promise<StoredReceipt> {
+  const storagePath = `${params.orderId}/${params.fileName}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(RECEIPTS_BUCKET)
+    .upload(storagePath, params.plaintext, {
+      contentType: "text/plain; charset=utf-8",
+      upsert: true,
+    });
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from("order_receipts")
+    .upsert(
+      {
+        order_id: params.orderId,
+        storage_path: storagePath,
+        source: params.source,
+        created_by: params.staffId ?? null,
+        created_at: params.createdAt.toISOString(),
+        delete_after: deleteAfter(params.createdAt),
+      },
+      { onConflict: "storage_path" }
+    )
+    .select("id, order_id, storage_path, source, created_at, delete_after")
+    .single();
+  if (error) throw error;
+
+  return data as StoredReceipt;
+}
+
+/**
+ * Store the receipt of an order, rebuilt from the order, and sign a link to it
+ * Returns null when the order does not exist.
+ */
+export async function storeOrderReceipt(
+  supabase: SupabaseClient,
+  orderId: string,
+  staffId: string | null
+): Promise<ReceiptLink | null> {
+  const receipt = await loadOrderReceipt(supabase, orderId);
+  if (!receipt) return null;
+
+  const now = new Date();
+  const stored = await saveReceiptFile(supabase, {
+    orderId,
+    fileName: `receipt-${now.toISOString().replace(/[:.]/g, "-")}.txt`,
+    plaintext: formatReceiptAsPlaintext(receipt),
+    source: "pos",
+    createdAt: now,
+    staffId,
+  });
+
+  return signReceipt(supabase, stored);
+}
+
+/**
+ * Fresh signed link to the latest stored receipt of an order, or null
+ */
+export async function getOrderReceiptLink(supabase: SupabaseClient, orderId: string): Promise<ReceiptLink | null> {
+  const { data, error } = await supabase
+    .from("order_receipts")
+    .select("id, order_id, storage_path, source, created_at, delete_after")
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+
+  return signReceipt(supabase, data as StoredReceipt);
+}
+
+/**
+ * Delete stored receipts past their retention date
+ * Returns the number of files removed.
+ */
+export async function pruneExpiredReceipts(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase
+    .from("order_receipts")
+    .select("id, storage_path")
+    .lt("delete_after", new Date().toISOString())
+    .limit(500);
+  if (error) throw error;
+  if (!data || data.length === 0) return 0;
+
+  const { error: removeError } = await supabase.storage
+    .from(RECEIPTS_BUCKET)
+    .remove(data.map((r) => r.storage_path));
+  if (removeError) throw removeError;
+
+  const { error: deleteError } = await supabase
+    .from("order_receipts")
+    .delete()
+    .in("id", data.map((r) => r.id));
+  if (deleteError) throw deleteError;
+
+  return data.length;
+}
+
+/**
+ * Move receipt files left in public/receipts into the bucket
+ * Each file is matched to its order through the short order ID printed on
+ * it; files that match no order are left where they are and reported.
+ * Retention counts from the file's original date.
+ */
+export async function migrateLegacyReceipts(supabase: SupabaseClient): Promise<LegacyMigrationResult> {
+  const result: LegacyMigrationResult = { migrated: 0, unmatched: [] };
+  if (!fs.existsSync(LEGACY_RECEIPTS_DIR)) return result;
+
+  const fileNames = fs.readdirSync(LEGACY_RECEIPTS_DIR).filter((name) => name.endsWith(".txt"));
+
+  for (const fileName of fileNames) {
+    const filePath = path.join(LEGACY_RECEIPTS_DIR, fileName);
+    const plaintext = fs.readFileSync(filePath, "utf-8");
+    const shortId = plaintext.match(/Order ID:\s*([0-9A-F]{8})\b/i)?.[1];
+
+    let orderId: string | null = null;
+    if (shortId) {
+      const { data, error } = await supabase.rpc("find_order_by_short_id", { p_short_id: shortId });
+      if (error) throw error;
+      orderId = data;
+    }
+
+    if (!orderId) {
+      result.unmatched.push(fileName);
+      continue;
+    }
+
+    await saveReceiptFile(supabase, {
+      orderId,
+      fileName,
+      plaintext,
+      source: "legacy",
+      createdAt: fs.statSync(filePath).mtime,
+    });
+    fs.unlinkSync(filePath);
+    result.migrated += 1;
+  }
+
+  return result;
+}
@@ -1,12 +1,34 @@
 /**
- * Receipt Generator (Frontend Utility)
- * Generates plaintext receipts from database order records
- * Can be called anytime to regenerate/reprint receipts
- * 
- * Usage: const receipt = await generateReceiptFromDB(orderId);
+ * Order receipts from the database
+ * Rebuilds the CompactReceipt of a stored order (breakdown, customer and
+ * every payment tender) and renders it as plaintext, HTML, PDF or ESC/POS.
+ * All formats go through formatReceiptAsPlaintext (pos/logic/receiptGenerator.ts),
+ * so the POS, reprints, the mobile apps and emails print the same receipt.
+ * Works with both the browser and the server Supabase clients.
+ *
+ * Usage: const receipt = await generateReceiptFromDB(supabase, orderId);
  */
 
-import { createClient } from "@/src/app/utils/supabase/client";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { jsPDF } from "jspdf";
+import {
+  BasketData,
+  CompactReceipt,
+  formatReceiptAsPlaintext,
+} from "@/src/app/in/pos/logic/receiptGenerator";
+import { PaymentTender } from "@/src/app/in/pos/logic/posTypes";
+import { encodeEscPos, receiptToEscPosBlocks } from "@/src/app/utils/escpos";
+
+export const RECEIPT_FORMATS = ["txt", "html", "pdf", "escpos"] as const;
+
+export type ReceiptFormat = (typeof RECEIPT_FORMATS)[number];
+
+export const RECEIPT_CONTENT_TYPES: Record<ReceiptFormat, string> = {
+  txt: "text/plain; charset=utf-8",
+  html: "text/html; charset=utf-8",
+  pdf: "application/pdf",
+  escpos: "application/octet-stream",
+};
 
 export interface ReceiptData {
   plaintext: string;
@@ -14,350 +36,160 @@ export interface ReceiptData {
   timestamp: string;
 }
 
+const RECEIPT_SELECT = `
+  id, created_at, total_amount, amount_paid, breakdown, handling,
+  customers:customer_id(first_name, last_name),
+  payments(method, amount, amount_tendered, reference, created_at)
+`;
+
+// Stored baskets come from the POS (weight_kg, subtotal) or older mobile
+// builds (weight, total, services_data)
+interface StoredBasket {
+  basket_number: number;
+  weight_kg?: number;
+  weight?: number;
+  subtotal?: number;
+  total?: number;
+  services?: unknown;
+  services_data?: BasketData["services"];
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
 /**
- * Fetch order from DB and generate plaintext receipt
- * Used by POS after successful order creation, and for reprint functionality
+ * Receipt of a stored order, or null when the order does not exist
  */
-export async function generateReceiptFromDB(orderId: string): Promise<ReceiptData> {
-  console.log("🔄 [Receipt] Starting receipt generation for orderId:", orderId);
-  
-  const supabase = createClient();
-
-  // Fetch order with all related data
-  console.log("🔄 [Receipt] Fetching order from database...");
-  const { data: orderData, error: orderError } = await supabase
+export async function loadOrderReceipt(supabase: SupabaseClient, orderId: string): Promise<CompactReceipt | null> {
+  const { data: order, error } = await supabase
     .from("orders")
-    .select(
-      `
-      *,
-      customers:customer_id (
-        id,
-        first_name,
-        last_name,
-        phone_number,
-        email_address
-      ),
-      staff:cashier_id (
-        id,
-        first_name,
-        last_name
-      )
-      `
-    )
+    .select(RECEIPT_SELECT)
     .eq("id", orderId)
-    .single();
-
-  if (orderError) {
-    console.error("❌ [Receipt] Database fetch error:", orderError);
-    throw new Error(`Failed to fetch order: ${orderError.message}`);
-  }
-
-  if (!orderData) {
-    console.error("❌ [Receipt] No order data returned");
-    throw new Error("Order not found");
-  }
-
-  console.log("✅ [Receipt] Order fetched successfully:", {
-    orderId: orderData.id,
-    customerId: orderData.customer_id,
-    cashierId: orderData.cashier_id,
-    totalAmount: orderData.total_amount,
-    hasBreakdown: !!orderData.breakdown,
-    hasHandling: !!orderData.handling,
-  });
-
-  // Extract customer and staff info
-  const customer = orderData.customers || {};
-  const staff = orderData.staff || {};
-  const breakdown = orderData.breakdown || {};
-  const handling = orderData.handling || {};
-  const timestamp = orderData.created_at;
+    .maybeSingle();
 
-  console.log("📋 [Receipt] Extracted data:", {
-    customerName: `${customer.first_name} ${customer.last_name}`,
-    staffName: `${staff.first_name} ${staff.last_name}`,
-    breakdownKeys: Object.keys(breakdown),
-    handlingKeys: Object.keys(handling),
-  });
+  if (error) throw error;
+  if (!order) return null;
 
-  // Generate plaintext receipt
-  console.log("🖨️ [Receipt] Formatting plaintext receipt...");
-  const plaintext = formatReceiptAsPlaintext(
-    orderId,
-    timestamp,
-    customer,
-    breakdown,
-    handling,
-    staff,
-    orderData.total_amount
-  );
+  const customer = Array.isArray(order.customers) ? order.customers[0] : order.customers;
+  const breakdown = order.breakdown || {};
+  const total = Number(order.total_amount) || 0;
 
-  console.log("✅ [Receipt] Plaintext receipt formatted successfully", {
-    contentLength: plaintext.length,
-    hasContent: plaintext.trim().length > 0,
-  });
+  const payments: PaymentTender[] = [...(order.payments || [])]
+    .sort((a, b) => String(a.created_at).localeCompare(String(b.created_at)))
+    .map((p) => ({
+      method: p.method,
+      amount: Number(p.amount),
+      amount_tendered: p.amount_tendered === null ? null : Number(p.amount_tendered),
+      reference: p.reference,
+    }));
+  const balance = roundMoney(total - Number(order.amount_paid || 0));
 
   return {
-    plaintext,
-    orderId,
-    timestamp,
+    orderId: order.id,
+    customerName: customer ? `${customer.first_name} ${customer.last_name}`.trim() : "Walk-in",
+    items: (breakdown.items || []).map(
+      (item: { product_name: string; quantity: number; unit_price: number }) => ({
+        product_name: item.product_name,
+        quantity: item.quantity,
+        unit_price: Number(item.unit_price) || 0,
+        subtotal: roundMoney((Number(item.unit_price) || 0) * item.quantity),
+      })
+    ),
+    baskets: (breakdown.baskets || []).map((basket: StoredBasket) => ({
+      basket_number: basket.basket_number,
+      weight_kg: basket.weight_kg ?? basket.weight ?? 0,
+      subtotal: basket.subtotal ?? basket.total ?? 0,
+      services:
+        basket.services_data ??
+        (basket.services && !Array.isArray(basket.services)
+          ? (basket.services as BasketData["services"])
+          : undefined),
+    })),
+    total,
+    timestamp: order.created_at,
+    paymentMethod: payments.length === 0 ? order.handling?.payment_method?.toUpperCase() || "UNPAID" : undefined,
+    summary: breakdown.summary,
+    payments,
+    balanceDue: balance > 0 ? balance : undefined,
   };
 }
 
 /**
- * Format order data as plaintext receipt for thermal printer
- * 80mm width optimized, plain text suitable for all printers
+ * Fetch order from DB and generate plaintext receipt
+ * Used for reprints; throws when the order does not exist
  */
+export async function generateReceiptFromDB(supabase: SupabaseClient, orderId: string): Promise<ReceiptData> {
+  const receipt = await loadOrderReceipt(supabase, orderId);
+  if (!receipt) throw new Error("Order not found");
 
-// Helper: Ensure line doesn't exceed max width by truncation
-function truncateLine(text: string, maxWidth: number = 40): string {
-  if (text.length > maxWidth) {
-    return text.substring(0, maxWidth);
-  }
-  return text;
+  return {
+    plaintext: formatReceiptAsPlaintext(receipt),
+    orderId,
+    timestamp: receipt.timestamp,
+  };
 }
 
-// Helper: Right-align amount on a line with max width of 40 chars
-function formatReceiptLine(label: string, amount?: number, maxWidth: number = 40): string {
-  if (amount === undefined) {
-    // Just a label line - still truncate it
-    return truncateLine(label, maxWidth);
-  }
-
-  const amountStr = `₱${amount.toFixed(2)}`;
-  const amountWidth = amountStr.length;
-  const availableForLabel = maxWidth - amountWidth;
-  
-  // Truncate label if it's too long
-  const truncatedLabel = label.length > availableForLabel ? label.substring(0, availableForLabel - 1) : label;
-  const padding = availableForLabel - truncatedLabel.length;
-
-  const line = truncatedLabel + " ".repeat(Math.max(1, padding)) + amountStr;
-  return truncateLine(line, maxWidth);
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
 }
 
-function formatReceiptAsPlaintext(
-  orderId: string,
-  timestamp: string,
-  customer: any,
-  breakdown: any,
-  handling: any,
-  staff: any,
-  totalAmount: number
-): string {
-  console.log("📝 [Receipt] formatReceiptAsPlaintext called with:", {
-    orderId,
-    timestamp,
-    customerKeys: Object.keys(customer),
-    breakdownKeys: Object.keys(breakdown),
-    handlingKeys: Object.keys(handling),
-    staffKeys: Object.keys(staff),
-    totalAmount,
-  });
-  const orderDate = new Date(timestamp);
-  const dateStr = orderDate.toLocaleDateString("en-PH", {
-    month: "2-digit",
-    day: "2-digit",
-    year: "numeric",
-  });
-  const timeStr = orderDate.toLocaleTimeString("en-PH", {
-    hour: "2-digit",
-    minute: "2-digit",
-    second: "2-digit",
-    hour12: true,
-  });
-
-  const customerName = `${customer.first_name || ""} ${customer.last_name || ""}`.trim();
-  const customerPhone = customer.phone_number || "";
-
-  // Extract breakdown items and baskets (separate arrays in breakdown)
-  const items = breakdown.items || [];
-  const baskets = breakdown.baskets || [];
-  
-  console.log("🔍 [Receipt] Full breakdown structure:", {
-    breakdown,
-    itemsCount: items.length,
-    basketsCount: baskets.length,
-  });
-
-  const productItems = items.filter((i: any) => i.type === "product");
-  const basketItems = baskets;
-
-  console.log("📦 [Receipt] Extracted items:", {
-    totalItems: items.length,
-    productItems: productItems.length,
-    basketItems: basketItems.length,
-    itemsStructure: items.slice(0, 2), // Log first 2 items for structure
-  });
+/**
+ * Receipt as a standalone HTML page (emails, the mobile apps' web view)
+ */
+export function formatReceiptAsHtml(receipt: CompactReceipt): string {
+  const shortOrderId = receipt.orderId.split("-")[0].toUpperCase();
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Receipt ${shortOrderId}</title>
+<style>
+  body { margin: 0; padding: 16px; background: #f3f4f6; }
+  pre { max-width: 42ch; margin: 0 auto; padding: 16px; background: #fff; font: 13px/1.4 "Courier New", monospace; white-space: pre; }
+</style>
+</head>
+<body>
+<pre>${escapeHtml(formatReceiptAsPlaintext(receipt))}</pre>
+</body>
+</html>
+`;
+}
 
-  // Fees and totals
-  const fees = breakdown.fees || [];
-  const serviceFee = fees.find((f: any) => f.type === "service_fee")?.amount || 0;
-  const handlingFee = fees.find((f: any) => f.type === "handling_fee")?.amount || 0;
-  // VAT is stored in summary, not in fees array
-  const summary = breakdown.summary || {};
-  const taxes = summary.vat_amount || 0;
+// The standard PDF fonts have no peso sign
+function withAsciiPeso(text: string): string {
+  return text.replace(/₱/g, "P");
+}
 
-  console.log("💰 [Receipt] Extracted fees:", {
-    serviceFee,
-    handlingFee,
-    taxes,
-    feesCount: fees.length,
+/**
+ * Receipt as an 80mm-wide PDF, one monospace line per receipt line
+ */
+export function formatReceiptAsPdf(receipt: CompactReceipt): ArrayBuffer {
+  const lines = withAsciiPeso(formatReceiptAsPlaintext(receipt)).split("\n");
+  const lineHeight = 3.6;
+  const margin = 6;
+
+  const doc = new jsPDF({
+    unit: "mm",
+    format: [80, Math.max(80, lines.length * lineHeight + margin * 2)],
   });
-
-  const productSubtotal = productItems.reduce((sum: number, i: any) => sum + i.lineTotal, 0);
-  const basketSubtotal = basketItems.reduce((sum: number, i: any) => sum + (i.total || i.lineTotal), 0);
-  const subtotal = productSubtotal + basketSubtotal;
-
-  console.log("📊 [Receipt] Calculated totals:", {
-    productSubtotal,
-    basketSubtotal,
-    subtotal,
-    totalAmount,
+  doc.setFont("courier", "normal");
+  doc.setFontSize(8);
+  lines.forEach((line, index) => {
+    doc.text(line, margin, margin + (index + 1) * lineHeight);
   });
 
-  // Build receipt
-  let receipt = "";
-  
-  // Extract short order ID (before first hyphen)
-  const shortOrderId = orderId.split("-")[0].toUpperCase();
-
-  // === HEADER ===
-  receipt += truncateLine("=".repeat(40), 40) + "\n";
-  receipt += truncateLine(" ".repeat(12) + "KATFLIX", 40) + "\n";
-  receipt += truncateLine(" ".repeat(9) + "Laundry Services", 40) + "\n";
-  receipt += truncateLine("=".repeat(40), 40) + "\n";
-  receipt += "\n";
-
-  // === ORDER & CUSTOMER INFO ===
-  receipt += truncateLine(`ORDER: ${shortOrderId}`, 40) + "\n";
-  receipt += truncateLine(`${dateStr}, ${timeStr}`, 40) + "\n";
-  receipt += truncateLine(`Customer: ${customerName || "Walk-in"}`, 40) + "\n";
-  if (customerPhone) {
-    receipt += truncateLine(`Phone: ${customerPhone}`, 40) + "\n";
-  }
-  receipt += truncateLine("-".repeat(40), 40) + "\n";
-  receipt += "\n";
-
-  // === PRODUCTS (if any) ===
-  if (productItems.length > 0) {
-    for (const item of productItems) {
-      const qty = item.quantity || 1;
-      const total = item.subtotal || 0;
-
-      receipt += truncateLine(`${item.product_name} x${qty}`, 40) + "\n";
-      receipt += formatReceiptLine(`  ${item.product_name}`, total, 40) + "\n";
-      receipt += "\n";
-    }
-
-    if (basketItems.length > 0) {
-      receipt += truncateLine("-".repeat(40), 40) + "\n";
-      receipt += "\n";
-    }
-  }
-
-  // === BASKETS WITH SERVICES ===
-  if (basketItems.length > 0) {
-    for (const basket of basketItems) {
-      const basketName = `Basket ${basket.basket_number}`;
-      const basketTotal = basket.total || 0;
-
-      receipt += truncateLine(basketName, 40) + "\n";
-
-      // Services breakdown from basket.services array (exclude staff_service - it's order-level)
-      if (basket.services && Array.isArray(basket.services)) {
-        for (const service of basket.services) {
-          const serviceName = service.service_name || "Service";
-          const serviceType = service.service_type || "";
-          
-          // Skip staff_service - it's computed at order level, not basket level
-          if (serviceType === "staff_service" || serviceName.toLowerCase().includes("staff service")) continue;
-          
-          const isPremium = service.is_premium || false;
-          const servicePrice = service.subtotal || 0;
-          
-          const serviceLabel = `  ${serviceName}${isPremium ? " (Premium)" : ""}`;
-          receipt += formatReceiptLine(serviceLabel, servicePrice, 40) + "\n";
-        }
-      }
-
-      const subtotalLabel = `  Subtotal (Basket ${basket.basket_number})`;
-      receipt += formatReceiptLine(subtotalLabel, basketTotal, 40) + "\n";
-      receipt += "\n";
-    }
-  }
-
-  // === TOTALS ===
-  receipt += truncateLine("-".repeat(40), 40) + "\n";
-  receipt += "\n";
-  receipt += formatReceiptLine("Subtotal", subtotal, 40) + "\n";
-  if (serviceFee > 0) {
-    receipt += formatReceiptLine("Service Fee", serviceFee, 40) + "\n";
-  }
-  if (handlingFee > 0) {
-    receipt += formatReceiptLine("Handling Fee", handlingFee, 40) + "\n";
-  }
-  if (taxes > 0) {
-    receipt += formatReceiptLine("Tax (VAT)", taxes, 40) + "\n";
-  }
-  receipt += truncateLine("=".repeat(40), 40) + "\n";
-  receipt += formatReceiptLine("TOTAL", totalAmount, 40) + "\n";
-  receipt += truncateLine("=".repeat(40), 40) + "\n";
-  receipt += "\n";
-
-  // === PAYMENT INFO ===
-  const paymentMethod = breakdown.payment?.method || "CASH";
-  receipt += truncateLine(`Payment: ${paymentMethod.toUpperCase()}`, 40) + "\n";
-
-  if (breakdown.payment?.amount_paid) {
-    const amountPaid = breakdown.payment.amount_paid;
-    receipt += formatReceiptLine("Amount Paid", amountPaid, 40) + "\n";
-    const change = amountPaid - totalAmount;
-    if (paymentMethod.toUpperCase() === "CASH" && change >= 0) {
-      receipt += formatReceiptLine("Change", change, 40) + "\n";
-    }
-  }
-
-  receipt += "\n";
-  receipt += truncateLine("-".repeat(40), 40) + "\n";
-
-  // === HANDLING INFO ===
-  if (handling.pickup?.status === "pending" || handling.delivery?.status === "pending") {
-    receipt += "\n";
-    if (handling.delivery?.status === "pending") {
-      receipt += truncateLine("DELIVERY", 40) + "\n";
-      if (handling.delivery?.address) {
-        receipt += truncateLine(`Address: ${handling.delivery.address}`, 40) + "\n";
-      }
-      if (handling.delivery?.fee > 0) {
-        receipt += truncateLine(`Fee: ₱${handling.delivery.fee.toFixed(2)}`, 40) + "\n";
-      }
-    } else if (handling.pickup?.status === "pending") {
-      receipt += truncateLine("PICKUP AT STORE", 40) + "\n";
-    }
-    receipt += "\n";
-  }
-
-  // === CASHIER & META INFO ===
-  if (staff?.first_name || staff?.last_name) {
-    const staffName = `${staff.first_name || ""} ${staff.last_name || ""}`.trim();
-    receipt += truncateLine(`Cashier: ${staffName}`, 40) + "\n";
-  }
-
-  receipt += truncateLine(`Source: ${breakdown.source || "Store"}`, 40) + "\n";
-  receipt += truncateLine(`Order ID: ${shortOrderId}`, 40) + "\n";
-
-  receipt += "\n";
-  receipt += truncateLine("=".repeat(40), 40) + "\n";
-  receipt += truncateLine(" ".repeat(14) + "Thank you!", 40) + "\n";
-  receipt += truncateLine(" ".repeat(11) + "Come again!", 40) + "\n";
-  receipt += "\n";
-
-  console.log("✅ [Receipt] Receipt string generated successfully", {
-    receiptLength: receipt.length,
-    hasContent: receipt.trim().length > 0,
-    lines: receipt.split("\n").length,
-  });
+  return doc.output("arraybuffer");
+}
 
-  return receipt;
+/**
+ * Receipt as raw ESC/POS bytes for an 80mm thermal printer (see utils/escpos.ts)
+ */
+export function formatReceiptAsEscPos(receipt: CompactReceipt): Uint8Array {
+  return encodeEscPos(receiptToEscPosBlocks(receipt));
 }
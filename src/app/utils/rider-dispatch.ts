@@ -0,0 +1,442 @@
+/**
+ * Targeted rider dispatch (server only)
+ *
+ * A pickup or delivery job is offered to one rider at a time instead of
+ * being pushed to every rider. Riders on shift (not marked off for today
+ * or the current time slot) are ranked by their distance to the stop plus
+ * a penalty per job they already hold; riders at MAX_RIDER_JOBS are
+ * skipped. The best rider gets a push and DISPATCH_OFFER_SECONDS to accept
+ * or decline in the rider app. A decline or an expired offer (swept by
+ * expireDispatchOffers() every minute through the Vercel cron in
+ * vercel.json, and whenever a rider polls their offers) moves the job on to
+ * the next rider. Accepting sets orders.assigned_rider_id.
+ * A rider's position is their latest location ping (utils/rider-locations.ts),
+ * else their latest open job's stop, else the store.
+ * Offers are written with the service role: riders and the staff who move
+ * orders along cannot write them under RLS.
+ */
+
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import { enqueueNotification } from "@/src/app/utils/notification-outbox";
+import { todaySlotDate } from "@/src/app/utils/deliverySlots";
+import { loadLatestRiderLocations } from "@/src/app/utils/rider-locations";
+import { OrderStatus, RIDER_JOB_STATUSES } from "@/src/app/utils/orderStatus";
+import {
+  handlingLegStop,
+  haversineKm,
+  LatLng,
+  RouteLeg,
+  ROAD_FACTOR,
+  StopHandling,
+  STORE_LOCATION,
+} from "@/src/app/utils/routePlanner";
+
+export const DISPATCH_LEGS = ["pickup", "delivery"] as const;
+
+export type DispatchLeg = RouteLeg;
+
+export type DispatchOfferStatus = "offered" | "accepted" | "declined" | "expired" | "cancelled";
+
+export const DISPATCH_OFFER_SECONDS = 90;
+export const MAX_RIDER_JOBS = 4;
+const LOAD_PENALTY_KM = 2;                    // Each job already held counts like 2 km more riding
+
+
+export interface DispatchOffer {
+  id: string;
+  order_id: string;
+  leg: DispatchLeg;
+  rider_id: string;
+  status: DispatchOfferStatus;
+  rank: number;
+  distance_km: number | null;
+  active_jobs: number;
+  offered_at: string;
+  expires_at: string;
+  responded_at: string | null;
+  decline_reason: string | null;
+}
+
+export interface DispatchCandidate {
+  rider_id: string;
+  name: string;
+  position: LatLng;
+  distance_km: number;                        // Estimated road distance to the stop
+  active_jobs: number;
+  score: number;                              // Lower is better
+}
+
+export interface RiderOffer extends DispatchOffer {
+  address: string | null;
+  customer_name: string | null;
+  phone_number: string | null;
+  location: LatLng | null;
+}
+
+export type DispatchResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string; status: number };
+
+interface DispatchOrder {
+  id: string;
+  status: string;
+  handling: StopHandling | null;
+  assigned_rider_id: string | null;
+  customers: { first_name: string | null; last_name: string | null; phone_number: string | null } | null;
+}
+
+const ORDER_SELECT = "id, status, handling, assigned_rider_id, customers:customer_id(first_name, last_name, phone_number)";
+
+export function isDispatchLeg(value: unknown): value is DispatchLeg {
+  return DISPATCH_LEGS.includes(value as DispatchLeg);
+}
+
+export function dispatchClient(): SupabaseClient {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL || "",
+    process.env.SUPABASE_SERVICE_ROLE_KEY || ""
+  );
+}
+
+function customerName(order: DispatchOrder): string | null {
+  const customer = order.customers;
+  return customer ? `${customer.first_name || ""} ${customer.last_name || ""}`.trim() || null : null;
+}
+
+async function loadDispatchOrder(supabase: SupabaseClient, orderId: string): Promise<DispatchOrder | null> {
+  const { data, error } = await supabase.from("orders").select(ORDER_SELECT).eq("id", orderId).maybeSingle();
+  if (error) throw error;
+  return data as unknown as DispatchOrder | null;
+}
+
+/**
+ * Ids of the time slots running right now (Manila time)
+ */
+async function loadCurrentSlotIds(supabase: SupabaseClient, now: Date): Promise<string[]> {
+  const weekday = new Date(`${todaySlotDate(now)}T00:00:00Z`).getUTCDay();
+  const time = now.toLocaleTimeString("en-GB", { timeZone: "Asia/Manila", hour12: false });
+
+  const { data, error } = await supabase
+    .from("delivery_slots")
+    .select("id, weekday, start_time, end_time")
+    .eq("is_active", true);
+  if (error) throw error;
+
+  return (data || [])
+    .filter((s) => (s.weekday === null || s.weekday === weekday) && s.start_time <= time && time < s.end_time)
+    .map((s) => s.id);
+}
+
+/**
+ * Riders who could take a job at the given stop, best first
+ * Riders marked off today (or for the slot running now) and riders in
+ * `exclude` are left out, as are riders already holding MAX_RIDER_JOBS.
+ */
+export async function loadDispatchCandidates(
+  supabase: SupabaseClient,
+  stop: LatLng,
+  exclude: Set<string> = new Set(),
+  now: Date = new Date()
+): Promise<DispatchCandidate[]> {
+  const { data: riders, error: ridersError } = await supabase
+    .from("staff")
+    .select("id, first_name, last_name, staff_roles!inner(role_id)")
+    .eq("staff_roles.role_id", "rider")
+    .eq("is_active", true);
+  if (ridersError) throw ridersError;
+
+  const riderIds = (riders || []).map((r) => r.id).filter((id) => !exclude.has(id));
+  if (riderIds.length === 0) return [];
+
+  const [slotIds, locations, availabilityResult, jobsResult] = await Promise.all([
+    loadCurrentSlotIds(supabase, now),
+    loadLatestRiderLocations(supabase, now),
+    supabase
+      .from("rider_availability")
+      .select("staff_id, slot_id, is_available")
+      .eq("date", todaySlotDate(now))
+      .in("staff_id", riderIds),
+    // Jobs each rider accepted, newest first
+    supabase
+      .from("rider_dispatch_offers")
+      .select("rider_id, leg, responded_at, orders:order_id(status, handling)")
+      .eq("status", "accepted")
+      .in("rider_id", riderIds)
+      .order("responded_at", { ascending: false })
+      .limit(500),
+  ]);
+  if (availabilityResult.error) throw availabilityResult.error;
+  if (jobsResult.error) throw jobsResult.error;
+
+  // A slot-specific override wins over a whole-day one (as in slot_riders_available)
+  const onShift = (riderId: string) => {
+    const rows = (availabilityResult.data || []).filter((a) => a.staff_id === riderId);
+    const slotRow = rows.find((a) => a.slot_id && slotIds.includes(a.slot_id));
+    const dayRow = rows.find((a) => a.slot_id === null);
+    return (slotRow ?? dayRow)?.is_available ?? true;
+  };
+
+  const openJobs = new Map<string, LatLng[]>();
+  for (const job of jobsResult.data || []) {
+    const order = (Array.isArray(job.orders) ? job.orders[0] : job.orders) as
+      | { status: string; handling: StopHandling | null }
+      | null;
+    if (!order || !RIDER_JOB_STATUSES.includes(order.status as OrderStatus)) continue;
+    const leg = order.handling?.[job.leg as DispatchLeg];
+    if (leg?.status === "completed") continue;
+
+    const point = handlingLegStop(order.handling, job.leg as DispatchLeg);
+    const list = openJobs.get(job.rider_id) || [];
+    list.push(point ?? STORE_LOCATION);
+    openJobs.set(job.rider_id, list);
+  }
+
+  return (riders || [])
+    .filter((rider) => riderIds.includes(rider.id) && onShift(rider.id))
+    .map((rider) => {
+      const jobs = openJobs.get(rider.id) || [];
+      const ping = locations.get(rider.id);
+      const position = ping ? { lat: ping.lat, lng: ping.lng } : (jobs[0] ?? STORE_LOCATION);
+      const distance = haversineKm(position, stop) * ROAD_FACTOR;
+      return {
+        rider_id: rider.id,
+        name: `${rider.first_name || ""} ${rider.last_name || ""}`.trim(),
+        position,
+        distance_km: Math.round(distance * 100) / 100,
+        active_jobs: jobs.length,
+        score: distance + jobs.length * LOAD_PENALTY_KM,
+      };
+    })
+    .filter((candidate) => candidate.active_jobs < MAX_RIDER_JOBS)
+    .sort((a, b) => a.score - b.score);
+}
+
+/**
+ * Offer an order leg to the best rider not yet asked
+ * Returns the open offer if there already is one. With fresh, riders who
+ * declined or let earlier offers expire are asked again.
+ */
+export async function offerNextRider(
+  orderId: string,
+  leg: DispatchLeg,
+  options: { fresh?: boolean } = {}
+): Promise<DispatchResult<DispatchOffer>> {
+  const supabase = dispatchClient();
+
+  const order = await loadDispatchOrder(supabase, orderId);
+  if (!order) {
+    return { success: false, error: "Order not found", status: 404 };
+  }
+  if (!RIDER_JOB_STATUSES.includes(order.status as OrderStatus) || order.handling?.[leg]?.status === "completed") {
+    return { success: false, error: `The ${leg} for this order is no longer open`, status: 409 };
+  }
+
+  const stop = handlingLegStop(order.handling, leg);
+  if (!stop) {
+    return { success: false, error: `The ${leg} has no pinned location to dispatch a rider to`, status: 400 };
+  }
+
+  const { data: previous, error: previousError } = await supabase
+    .from("rider_dispatch_offers")
+    .select("*")
+    .eq("order_id", orderId)
+    .eq("leg", leg);
+  if (previousError) throw previousError;
+
+  const offers = (previous || []) as DispatchOffer[];
+  const open = offers.find((o) => o.status === "offered");
+  if (open) return { success: true, data: open };
+
+  const accepted = offers.find((o) => o.status === "accepted");
+  if (accepted && !options.fresh) {
+    return { success: false, error: `The ${leg} was already accepted by a rider`, status: 409 };
+  }
+
+  const asked = new Set(
+    options.fresh ? [] : offers.filter((o) => o.status === "declined" || o.status === "expired").map((o) => o.rider_id)
+  );
+  const [best] = await loadDispatchCandidates(supabase, stop, asked);
+  if (!best) {
+    console.warn(`[DISPATCH] No rider left for the ${leg} of order ${orderId}`);
+    return { success: false, error: "No available rider to offer this job to", status: 409 };
+  }
+
+  const expiresAt = new Date(Date.now() + DISPATCH_OFFER_SECONDS * 1000).toISOString();
+  const { data: offer, error } = await supabase
+    .from("rider_dispatch_offers")
+    .insert({
+      order_id: orderId,
+      leg,
+      rider_id: best.rider_id,
+      rank: offers.length + 1,
+      distance_km: best.distance_km,
+      active_jobs: best.active_jobs,
+      expires_at: expiresAt,
+    })
+    .select("*")
+    .single<DispatchOffer>();
+
+  if (error) {
+    // Another request opened an offer for this leg first
+    if (error.code === "23505") {
+      return { success: false, error: "This job is already being offered", status: 409 };
+    }
+    throw error;
+  }
+
+  console.log(`[DISPATCH] Offered the ${leg} of order ${orderId} to ${best.name} (${best.rider_id})`, {
+    rank: offer.rank,
+    distance_km: best.distance_km,
+    active_jobs: best.active_jobs,
+  });
+
+  const name = customerName(order) || "A customer";
+  await enqueueNotification({
+    kind: "staff_push",
+    staffId: best.rider_id,
+    payload: {
+      title: leg === "pickup" ? "📍 New Pickup Job" : "🚚 New Delivery Job",
+      body: `${name} - ${stop.address || "No address"} (${best.distance_km.toFixed(1)} km). Accept within ${DISPATCH_OFFER_SECONDS} seconds.`,
+      data: {
+        type: "dispatch_offer",
+        offerId: offer.id,
+        orderId,
+        leg,
+        expiresAt,
+      },
+    },
+  });
+
+  return { success: true, data: offer };
+}
+
+/**
+ * Accept or decline an offer made to this rider
+ * A decline moves the job on to the next rider.
+ */
+export async function respondToDispatchOffer(
+  offerId: string,
+  riderId: string,
+  response: "accept" | "decline",
+  reason?: string | null
+): Promise<DispatchResult<DispatchOffer>> {
+  const supabase = dispatchClient();
+  const now = new Date().toISOString();
+
+  const { data: offer, error } = await supabase
+    .from("rider_dispatch_offers")
+    .update({
+      status: response === "accept" ? "accepted" : "declined",
+      responded_at: now,
+      decline_reason: response === "decline" ? reason || null : null,
+    })
+    .eq("id", offerId)
+    .eq("rider_id", riderId)
+    .eq("status", "offered")
+    .gt("expires_at", now)
+    .select("*")
+    .maybeSingle<DispatchOffer>();
+  if (error) throw error;
+
+  if (!offer) {
+    const { data: existing } = await supabase
+      .from("rider_dispatch_offers")
+      .select("status, rider_id, expires_at")
+      .eq("id", offerId)
+      .maybeSingle();
+
+    if (!existing || existing.rider_id !== riderId) {
+      return { success: false, error: "Offer not found", status: 404 };
+    }
+    const state = existing.status === "offered" ? "expired" : existing.status;
+    return { success: false, error: `This offer has already ${state === "cancelled" ? "been cancelled" : state}`, status: 409 };
+  }
+
+  if (response === "accept") {
+    const { error: assignError } = await supabase
+      .from("orders")
+      .update({ assigned_rider_id: riderId })
+      .eq("id", offer.order_id);
+    if (assignError) throw assignError;
+
+    console.log(`[DISPATCH] Rider ${riderId} accepted the ${offer.leg} of order ${offer.order_id}`);
+  } else {
+    console.log(`[DISPATCH] Rider ${riderId} declined the ${offer.leg} of order ${offer.order_id}`);
+    const next = await offerNextRider(offer.order_id, offer.leg);
+    if (!next.success) {
+      console.warn(`[DISPATCH] Could not re-offer order ${offer.order_id}: ${next.error}`);
+    }
+  }
+
+  return { success: true, data: offer };
+}
+
+/**
+ * Expire unanswered offers and offer those jobs to the next rider
+ * Returns how many offers expired.
+ */
+export async function expireDispatchOffers(): Promise<number> {
+  const supabase = dispatchClient();
+
+  const { data: expired, error } = await supabase
+    .from("rider_dispatch_offers")
+    .update({ status: "expired" })
+    .eq("status", "offered")
+    .lte("expires_at", new Date().toISOString())
+    .select("order_id, leg, rider_id");
+  if (error) throw error;
+
+  for (const offer of expired || []) {
+    console.log(`[DISPATCH] Offer of the ${offer.leg} of order ${offer.order_id} to ${offer.rider_id} expired`);
+    const next = await offerNextRider(offer.order_id, offer.leg as DispatchLeg);
+    if (!next.success) {
+      console.warn(`[DISPATCH] Could not re-offer order ${offer.order_id}: ${next.error}`);
+    }
+  }
+
+  return expired?.length || 0;
+}
+
+/**
+ * Withdraw open offers for an order (cancelled or finished)
+ */
+export async function cancelDispatchOffers(orderId: string): Promise<void> {
+  const { error } = await dispatchClient()
+    .from("rider_dispatch_offers")
+    .update({ status: "cancelled", responded_at: new Date().toISOString() })
+    .eq("order_id", orderId)
+    .eq("status", "offered");
+
+  if (error) {
+    console.error(`[DISPATCH] Failed to cancel offers for order ${orderId}:`, error.message);
+  }
+}
+
+/**
+ * A rider's offers still waiting for an answer, with where to go
+ */
+export async function loadRiderOffers(riderId: string): Promise<RiderOffer[]> {
+  const supabase = dispatchClient();
+
+  const { data, error } = await supabase
+    .from("rider_dispatch_offers")
+    .select(`*, orders:order_id(${ORDER_SELECT})`)
+    .eq("rider_id", riderId)
+    .eq("status", "offered")
+    .gt("expires_at", new Date().toISOString())
+    .order("offered_at", { ascending: true });
+  if (error) throw error;
+
+  return (data || []).map((row) => {
+    const { orders, ...offer } = row;
+    const order = (Array.isArray(orders) ? orders[0] : orders) as DispatchOrder | null;
+    const stop = order ? handlingLegStop(order.handling, offer.leg) : null;
+    return {
+      ...(offer as DispatchOffer),
+      address: stop?.address ?? null,
+      customer_name: order ? customerName(order) : null,
+      phone_number: order?.customers?.phone_number ?? null,
+      location: stop ? { lat: stop.lat, lng: stop.lng } : null,
+    };
+  });
+}
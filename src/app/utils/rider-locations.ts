@@ -0,0 +1,264 @@
+/**
+ * Rider location tracking (server only)
+ *
+ * The rider app pings its GPS fix to /api/rider/location; every ping is
+ * kept in rider_locations. A rider's latest ping counts as their position
+ * for RIDER_LOCATION_FRESH_MINUTES: it puts them on the live map, is where
+ * dispatch measures their distance from, and is where the customer ETA is
+ * worked out from. Pings older than RIDER_TRAIL_DAYS are pruned as new ones
+ * arrive. Write with the service role: riders cannot insert under RLS.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { estimateRoadLeg } from "@/src/app/utils/routePlanner.server";
+import { OrderStatus, RIDER_JOB_STATUSES } from "@/src/app/utils/orderStatus";
+import { handlingLegStop, LatLng, RouteLeg, StopHandling } from "@/src/app/utils/routePlanner";
+
+export const RIDER_LOCATION_FRESH_MINUTES = 10;
+export const RIDER_TRAIL_DAYS = 7;
+export const MAX_PINGS_PER_REQUEST = 50;      // The app sends what it buffered while offline
+
+export interface LocationPing {
+  lat: number;
+  lng: number;
+  accuracy_m?: number | null;
+  heading?: number | null;
+  speed_kmh?: number | null;
+  recorded_at?: string;                       // ISO; defaults to when it arrives
+}
+
+export interface RiderLocation extends LatLng {
+  id: string;
+  staff_id: string;
+  accuracy_m: number | null;
+  heading: number | null;
+  speed_kmh: number | null;
+  recorded_at: string;
+}
+
+export interface ActiveRider extends RiderLocation {
+  name: string;
+  active_jobs: number;                        // Open orders assigned to the rider
+}
+
+export type EtaState = "en_route" | "assigned" | "unassigned" | "no_location" | "done";
+
+export interface OrderEta {
+  order_id: string;
+  leg: RouteLeg | null;
+  state: EtaState;
+  label: string;                              // Ready to show, e.g. "Arriving in ~12 min"
+  rider_name: string | null;                  // First name only
+  rider_location: (LatLng & { recorded_at: string }) | null;
+  distance_km: number | null;                 // Remaining road distance
+  minutes: number | null;
+  arrives_at: string | null;
+  source: "google" | "estimate" | null;
+}
+
+interface EtaOrder {
+  id: string;
+  status: string;
+  customer_id: string | null;
+  assigned_rider_id: string | null;
+  handling: StopHandling | null;
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function freshSince(now: Date): string {
+  return new Date(now.getTime() - RIDER_LOCATION_FRESH_MINUTES * 60000).toISOString();
+}
+
+/**
+ * Check one ping from the rider app; returns an error message or null
+ */
+export function validateLocationPing(ping: Partial<LocationPing> | null | undefined): string | null {
+  if (!ping || !isNumber(ping.lat) || !isNumber(ping.lng)) return "lat and lng are required numbers";
+  if (ping.lat < -90 || ping.lat > 90 || ping.lng < -180 || ping.lng > 180) return "lat or lng is out of range";
+  for (const field of ["accuracy_m", "heading", "speed_kmh"] as const) {
+    const value = ping[field];
+    if (value !== undefined && value !== null && (!isNumber(value) || value < 0)) {
+      return `${field} must be a non-negative number`;
+    }
+  }
+  if (ping.recorded_at !== undefined && isNaN(new Date(ping.recorded_at).getTime())) {
+    return "recorded_at must be an ISO timestamp";
+  }
+  return null;
+}
+
+/**
+ * Store a rider's pings (already validated) and prune their old trail
+ */
+export async function recordRiderLocations(
+  supabase: SupabaseClient,
+  staffId: string,
+  pings: LocationPing[],
+  now: Date = new Date()
+): Promise<number> {
+  // Device clocks run ahead; a fix can't be from the future
+  const rows = pings.map((ping) => {
+    const recordedAt = ping.recorded_at ? new Date(ping.recorded_at) : now;
+    return {
+      staff_id: staffId,
+      lat: ping.lat,
+      lng: ping.lng,
+      accuracy_m: ping.accuracy_m ?? null,
+      heading: ping.heading ?? null,
+      speed_kmh: ping.speed_kmh ?? null,
+      recorded_at: (recordedAt > now ? now : recordedAt).toISOString(),
+    };
+  });
+
+  const { error } = await supabase.from("rider_locations").insert(rows);
+  if (error) throw error;
+
+  const cutoff = new Date(now.getTime() - RIDER_TRAIL_DAYS * 86400000).toISOString();
+  const { error: pruneError } = await supabase
+    .from("rider_locations")
+    .delete()
+    .eq("staff_id", staffId)
+    .lt("recorded_at", cutoff);
+  if (pruneError) {
+    console.warn(`[RIDER LOCATION] Failed to prune the trail of ${staffId}:`, pruneError.message);
+  }
+
+  return rows.length;
+}
+
+/**
+ * Latest fresh ping per rider, keyed by staff id
+ */
+export async function loadLatestRiderLocations(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<Map<string, RiderLocation>> {
+  const { data, error } = await supabase.rpc("latest_rider_locations", { p_since: freshSince(now) });
+  if (error) throw error;
+
+  return new Map(((data || []) as RiderLocation[]).map((location) => [location.staff_id, location]));
+}
+
+/**
+ * Riders who pinged recently, for the live map
+ */
+export async function loadActiveRiders(supabase: SupabaseClient, now: Date = new Date()): Promise<ActiveRider[]> {
+  const locations = await loadLatestRiderLocations(supabase, now);
+  const riderIds = [...locations.keys()];
+  if (riderIds.length === 0) return [];
+
+  const [staffResult, ordersResult] = await Promise.all([
+    supabase.from("staff").select("id, first_name, last_name").in("id", riderIds),
+    supabase
+      .from("orders")
+      .select("assigned_rider_id")
+      .in("assigned_rider_id", riderIds)
+      .in("status", RIDER_JOB_STATUSES),
+  ]);
+  if (staffResult.error) throw staffResult.error;
+  if (ordersResult.error) throw ordersResult.error;
+
+  return riderIds
+    .map((id) => {
+      const staff = (staffResult.data || []).find((s) => s.id === id);
+      return {
+        ...locations.get(id)!,
+        name: staff ? `${staff.first_name || ""} ${staff.last_name || ""}`.trim() : "Unknown rider",
+        active_jobs: (ordersResult.data || []).filter((o) => o.assigned_rider_id === id).length,
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * The leg a rider is on (or will be) for an order, or null when none is left
+ */
+function currentLeg(order: EtaOrder): RouteLeg | null {
+  if (!RIDER_JOB_STATUSES.includes(order.status as OrderStatus)) return null;
+  const pickup = order.handling?.pickup;
+  if (pickup && handlingLegStop(order.handling, "pickup") && (pickup.status === "pending" || pickup.status === "in_progress")) {
+    return "pickup";
+  }
+  return order.handling?.delivery?.status === "completed" ? null : "delivery";
+}
+
+function etaLabel(state: EtaState, leg: RouteLeg | null, minutes: number | null): string {
+  const around = minutes === null ? "" : ` ~${Math.max(1, Math.round(minutes))} min`;
+  switch (state) {
+    case "en_route":
+      return `Arriving in${around}`;
+    case "assigned":
+      return `Rider assigned,${around} away`;
+    case "unassigned":
+      return `Waiting for a rider to accept the ${leg}`;
+    case "no_location":
+      return "Rider location not available yet";
+    case "done":
+      return "No pickup or delivery on the way";
+  }
+}
+
+/**
+ * How far the order's rider is from their next stop for the order
+ * Returns null when the order doesn't exist or belongs to another customer.
+ */
+export async function loadOrderEta(
+  supabase: SupabaseClient,
+  orderId: string,
+  customerId: string | null,
+  now: Date = new Date()
+): Promise<OrderEta | null> {
+  const { data, error } = await supabase
+    .from("orders")
+    .select("id, status, customer_id, assigned_rider_id, handling, assigned_rider:assigned_rider_id(first_name)")
+    .eq("id", orderId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data || (customerId && data.customer_id !== customerId)) return null;
+
+  const order = data as unknown as EtaOrder & { assigned_rider: { first_name: string | null } | null };
+  const leg = currentLeg(order);
+  const stop = leg ? handlingLegStop(order.handling, leg) : null;
+  const riderName = order.assigned_rider?.first_name || null;
+
+  const result = (state: EtaState, extra: Partial<OrderEta> = {}): OrderEta => ({
+    order_id: order.id,
+    leg,
+    state,
+    label: etaLabel(state, leg, extra.minutes ?? null),
+    rider_name: riderName,
+    rider_location: null,
+    distance_km: null,
+    minutes: null,
+    arrives_at: null,
+    source: null,
+    ...extra,
+  });
+
+  if (!leg || !stop) return result("done");
+  if (!order.assigned_rider_id) return result("unassigned");
+
+  const { data: ping, error: pingError } = await supabase
+    .from("rider_locations")
+    .select("lat, lng, recorded_at")
+    .eq("staff_id", order.assigned_rider_id)
+    .gte("recorded_at", freshSince(now))
+    .order("recorded_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (pingError) throw pingError;
+  if (!ping) return result("no_location");
+
+  const road = await estimateRoadLeg({ lat: ping.lat, lng: ping.lng }, stop);
+  const enRoute = order.handling?.[leg]?.status === "in_progress";
+  return result(enRoute ? "en_route" : "assigned", {
+    rider_location: { lat: ping.lat, lng: ping.lng, recorded_at: ping.recorded_at },
+    distance_km: Math.round(road.distance_km * 100) / 100,
+    minutes: Math.round(road.minutes),
+    arrives_at: new Date(now.getTime() + road.minutes * 60000).toISOString(),
+    source: road.source,
+  });
+}
@@ -0,0 +1,212 @@
+/**
+ * Rider route planning (server only)
+ *
+ * Collects the day's pickup and delivery stops that have coordinates, orders
+ * them with optimizeStopOrder() and puts them on a timeline. When
+ * GOOGLE_MAPS_API_KEY is set, the optimized order is sent to Google
+ * Directions once for road distances and times; without the key (or if
+ * Google fails) the haversine estimates are used. fetchDirections() is the
+ * one Directions client, also used for single legs (rider ETAs, delivery fees).
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { todaySlotDate } from "@/src/app/utils/deliverySlots";
+import { RIDER_JOB_STATUSES } from "@/src/app/utils/orderStatus";
+import {
+  buildRoutePlan,
+  estimateLeg,
+  LatLng,
+  LegEstimate,
+  optimizeStopOrder,
+  RoutePlan,
+  RouteStop,
+  STORE_LOCATION,
+} from "@/src/app/utils/routePlanner";
+
+interface HandlingPoint {
+  address?: string | null;
+  lat?: number | null;
+  lng?: number | null;
+  status?: string | null;
+}
+
+interface RouteOrder {
+  id: string;
+  handling: {
+    handling_type?: string;
+    delivery_address?: string | null;
+    delivery_lat?: number | null;
+    delivery_lng?: number | null;
+    scheduled?: boolean;
+    scheduled_date?: string;
+    scheduled_time?: string;
+    pickup?: HandlingPoint;
+    delivery?: HandlingPoint;
+  } | null;
+  customers: { first_name: string | null; last_name: string | null; phone_number: string | null } | null;
+}
+
+// Google Directions takes at most 25 waypoints per request
+const MAX_GOOGLE_WAYPOINTS = 25;
+
+// Day starts for rounds planned ahead
+const DAY_START_TIME = "09:00";
+
+function isOpen(point: HandlingPoint | undefined): boolean {
+  return point?.status === "pending" || point?.status === "in_progress";
+}
+
+function hasCoords<T extends { lat?: number | null; lng?: number | null }>(
+  point: T | undefined
+): point is T & LatLng {
+  return typeof point?.lat === "number" && typeof point?.lng === "number";
+}
+
+/**
+ * The next stop a rider has to make for an order, or null
+ * Mobile orders keep pickup and delivery points under handling.pickup and
+ * handling.delivery; POS orders only have the delivery fields.
+ */
+function getOrderStop(order: RouteOrder): RouteStop | null {
+  const handling = order.handling;
+  if (!handling) return null;
+
+  const customer = order.customers;
+  const base = {
+    order_id: order.id,
+    customer_name: customer ? `${customer.first_name || ""} ${customer.last_name || ""}`.trim() || null : null,
+    phone_number: customer?.phone_number || null,
+    slot_start: handling.scheduled && handling.scheduled_time ? handling.scheduled_time.slice(0, 5) : null,
+  };
+
+  const pickup = handling.pickup;
+  const pickupAddr = pickup?.address?.toLowerCase() || "";
+  if (isOpen(pickup) && pickupAddr !== "in-store" && pickupAddr !== "store" && hasCoords(pickup)) {
+    return { ...base, leg: "pickup", lat: pickup.lat, lng: pickup.lng, address: pickup.address || null };
+  }
+
+  const delivery = handling.delivery;
+  if (delivery && isOpen(delivery) && hasCoords(delivery)) {
+    return { ...base, leg: "delivery", lat: delivery.lat, lng: delivery.lng, address: delivery.address || null };
+  }
+
+  if (!delivery && handling.handling_type === "delivery") {
+    const point = { lat: handling.delivery_lat, lng: handling.delivery_lng };
+    if (hasCoords(point)) {
+      return { ...base, leg: "delivery", lat: point.lat, lng: point.lng, address: handling.delivery_address || null };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Open pickup/delivery stops for a date
+ * Orders scheduled for another date are left out; unscheduled ones count as
+ * due today.
+ */
+export async function loadRouteStops(supabase: SupabaseClient, date: string): Promise<RouteStop[]> {
+  const { data, error } = await supabase
+    .from("orders")
+    .select("id, handling, customers:customer_id(first_name, last_name, phone_number)")
+    .in("status", RIDER_JOB_STATUSES)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+
+  const today = todaySlotDate();
+  return ((data || []) as unknown as RouteOrder[])
+    .filter((order) => {
+      const scheduledDate = order.handling?.scheduled ? order.handling.scheduled_date : undefined;
+      return scheduledDate ? scheduledDate === date : date === today;
+    })
+    .map(getOrderStop)
+    .filter((stop): stop is RouteStop => stop !== null);
+}
+
+export interface DirectionsRoute {
+  legs: LegEstimate[];
+  polyline: string | null;                // Encoded overview route
+}
+
+/**
+ * Road route origin -> waypoints -> destination from Google Directions
+ * Null without GOOGLE_MAPS_API_KEY, with too many waypoints or when Google
+ * fails, so callers fall back to the haversine estimates.
+ */
+export async function fetchDirections(
+  origin: LatLng,
+  destination: LatLng,
+  waypoints: LatLng[] = []
+): Promise<DirectionsRoute | null> {
+  const apiKey = process.env.GOOGLE_MAPS_API_KEY;
+  if (!apiKey || waypoints.length > MAX_GOOGLE_WAYPOINTS) return null;
+
+  try {
+    let url =
+      `https://maps.googleapis.com/maps/api/directions/json?origin=${origin.lat},${origin.lng}` +
+      `&destination=${destination.lat},${destination.lng}&key=${apiKey}`;
+    if (waypoints.length > 0) {
+      url += `&waypoints=${encodeURIComponent(waypoints.map((w) => `${w.lat},${w.lng}`).join("|"))}`;
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Directions responded ${response.status}`);
+
+    const data = await response.json();
+    const route = data.routes?.[0];
+    const legs = route?.legs;
+    if (data.status !== "OK" || !Array.isArray(legs) || legs.length !== waypoints.length + 1) {
+      throw new Error(`Directions API error: ${data.status}`);
+    }
+
+    return {
+      legs: legs.map((leg: { distance: { value: number }; duration: { value: number } }) => ({
+        distance_km: leg.distance.value / 1000,
+        minutes: leg.duration.value / 60,
+      })),
+      polyline: route.overview_polyline?.points || null,
+    };
+  } catch (error) {
+    console.error("[ROUTE] Google Directions failed, using estimates:", error);
+    return null;
+  }
+}
+
+/**
+ * Road distance and riding time between two points
+ * From Google Directions when GOOGLE_MAPS_API_KEY is set, otherwise (or if
+ * Google fails) estimated from the straight line.
+ */
+export async function estimateRoadLeg(
+  from: LatLng,
+  to: LatLng
+): Promise<LegEstimate & { source: "google" | "estimate" }> {
+  const route = await fetchDirections(from, to);
+  if (route) return { ...route.legs[0], source: "google" };
+
+  return { ...estimateLeg(from, to), source: "estimate" };
+}
+
+/**
+ * Optimized round trip through the day's stops
+ * Today's round starts now; other days start at DAY_START_TIME (Manila).
+ */
+export async function planRiderRoute(
+  supabase: SupabaseClient,
+  date: string,
+  now: Date = new Date()
+): Promise<RoutePlan> {
+  const stops = await loadRouteStops(supabase, date);
+
+  const order = optimizeStopOrder(STORE_LOCATION, stops);
+  const orderedStops = order.map((i) => stops[i]);
+
+  const startAt = date === todaySlotDate(now) ? now : new Date(`${date}T${DAY_START_TIME}:00+08:00`);
+  const route =
+    orderedStops.length > 0 ? await fetchDirections(STORE_LOCATION, STORE_LOCATION, orderedStops) : null;
+  const legs = route?.legs;
+
+  console.log(`[ROUTE] Planned ${orderedStops.length} stops for ${date} (${legs ? "google" : "estimate"})`);
+  return buildRoutePlan(STORE_LOCATION, orderedStops, startAt, legs || undefined);
+}
@@ -0,0 +1,257 @@
+/**
+ * Rider route planning helpers
+ * Orders the day's pickup/delivery stops into one round trip from the store:
+ * a nearest-neighbour tour improved with 2-opt, on straight-line (haversine)
+ * distances. Leg times are estimated from an average city speed unless road
+ * distances from Google Directions are supplied.
+ * Pure functions, safe to use in the browser and on the server.
+ */
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export type RouteLeg = "pickup" | "delivery";
+
+export interface RouteStop extends LatLng {
+  order_id: string;
+  leg: RouteLeg;
+  address: string | null;
+  customer_name: string | null;
+  phone_number: string | null;
+  slot_start: string | null;              // HH:MM of the booked time slot, if any
+}
+
+export interface PlannedStop extends RouteStop {
+  sequence: number;                       // 1-based visiting order
+  distance_km: number;                    // From the previous stop (or the store)
+  travel_minutes: number;
+  eta: string;                            // ISO arrival time
+}
+
+export interface RoutePlan {
+  store: LatLng;
+  stops: PlannedStop[];
+  return_km: number;                      // Last stop back to the store
+  total_km: number;
+  total_minutes: number;                  // Travel plus time spent at stops
+  returns_at: string;                     // ISO
+  source: "google" | "estimate";          // Where leg distances/times came from
+}
+
+export interface LegEstimate {
+  distance_km: number;
+  minutes: number;
+}
+
+// A pickup or delivery point in orders.handling
+export interface HandlingStop {
+  address?: string | null;
+  lat?: number | null;
+  lng?: number | null;
+  status?: string | null;
+}
+
+export interface StopHandling {
+  handling_type?: string;
+  delivery_address?: string | null;
+  delivery_lat?: number | null;
+  delivery_lng?: number | null;
+  pickup?: HandlingStop;
+  delivery?: HandlingStop;
+}
+
+export const STORE_LOCATION: LatLng = {
+  lat: parseFloat(process.env.NEXT_PUBLIC_KATFLIX_LATITUDE || "14.5994"),
+  lng: parseFloat(process.env.NEXT_PUBLIC_KATFLIX_LONGITUDE || "120.9842"),
+};
+
+export const AVERAGE_SPEED_KMH = 20;      // City riding incl. traffic
+export const ROAD_FACTOR = 1.3;           // Roads are longer than a straight line
+export const MINUTES_PER_STOP = 5;        // Handing over / collecting baskets
+
+const EARTH_RADIUS_KM = 6371;
+
+function toRadians(degrees: number): number {
+  return degrees * (Math.PI / 180);
+}
+
+/**
+ * Straight-line distance between two points in km
+ */
+export function haversineKm(a: LatLng, b: LatLng): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+/**
+ * Road distance and riding time estimated from the straight line
+ */
+export function estimateLeg(from: LatLng, to: LatLng): LegEstimate {
+  const distance = haversineKm(from, to) * ROAD_FACTOR;
+  return {
+    distance_km: distance,
+    minutes: (distance / AVERAGE_SPEED_KMH) * 60,
+  };
+}
+
+function isStoreAddress(address: string | null | undefined): boolean {
+  const value = address?.toLowerCase() || "";
+  return value === "store" || value === "in-store";
+}
+
+/**
+ * An order's pickup or delivery point as stored, or undefined when it has none
+ * Mobile orders keep pickup and delivery points under handling.pickup and
+ * handling.delivery; POS orders only have the delivery fields.
+ */
+function handlingLegPoint(handling: StopHandling, leg: RouteLeg): HandlingStop | undefined {
+  if (leg === "pickup") return handling.pickup;
+  return (
+    handling.delivery ??
+    (handling.handling_type === "delivery"
+      ? { address: handling.delivery_address, lat: handling.delivery_lat, lng: handling.delivery_lng }
+      : undefined)
+  );
+}
+
+/**
+ * Whether a rider goes out for this leg (it has an address that isn't the store)
+ */
+export function isRiderLeg(handling: StopHandling | null, leg: RouteLeg): boolean {
+  const point = handling ? handlingLegPoint(handling, leg) : undefined;
+  return !!point?.address && !isStoreAddress(point.address);
+}
+
+/**
+ * Where an order's pickup or delivery stop is, or null for in-store legs
+ * and unpinned addresses
+ */
+export function handlingLegStop(
+  handling: StopHandling | null,
+  leg: RouteLeg
+): (LatLng & { address: string | null }) | null {
+  if (!handling) return null;
+
+  const point = handlingLegPoint(handling, leg);
+  if (!point || isStoreAddress(point.address)) return null;
+  if (typeof point.lat !== "number" || typeof point.lng !== "number") return null;
+  return { lat: point.lat, lng: point.lng, address: point.address || null };
+}
+
+function tourLength(points: LatLng[], tour: number[]): number {
+  let total = 0;
+  for (let i = 0; i < tour.length - 1; i++) {
+    total += haversineKm(points[tour[i]], points[tour[i + 1]]);
+  }
+  return total;
+}
+
+/**
+ * Visiting order for the stops (indexes into stops) on a round trip that
+ * starts and ends at the store
+ */
+export function optimizeStopOrder(store: LatLng, stops: LatLng[]): number[] {
+  if (stops.length <= 1) return stops.map((_, i) => i);
+
+  // Point 0 is the store, stop i is point i + 1
+  const points = [store, ...stops];
+
+  // === NEAREST NEIGHBOUR ===
+  const tour = [0];
+  const remaining = new Set(stops.map((_, i) => i + 1));
+  while (remaining.size > 0) {
+    const last = points[tour[tour.length - 1]];
+    let nearest = -1;
+    let nearestKm = Infinity;
+    for (const candidate of remaining) {
+      const km = haversineKm(last, points[candidate]);
+      if (km < nearestKm) {
+        nearest = candidate;
+        nearestKm = km;
+      }
+    }
+    tour.push(nearest);
+    remaining.delete(nearest);
+  }
+  tour.push(0);
+
+  // === 2-OPT ===
+  // Reverse any segment that shortens the tour until nothing improves
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < tour.length - 2; i++) {
+      for (let j = i + 1; j < tour.length - 1; j++) {
+        const before =
+          haversineKm(points[tour[i - 1]], points[tour[i]]) +
+          haversineKm(points[tour[j]], points[tour[j + 1]]);
+        const after =
+          haversineKm(points[tour[i - 1]], points[tour[j]]) +
+          haversineKm(points[tour[i]], points[tour[j + 1]]);
+        if (after < before - 1e-9) {
+          tour.splice(i, j - i + 1, ...tour.slice(i, j + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+  }
+
+  // Sanity check: never return something longer than the unoptimized order
+  const straight = [0, ...stops.map((_, i) => i + 1), 0];
+  const best = tourLength(points, tour) <= tourLength(points, straight) ? tour : straight;
+
+  return best.slice(1, -1).map((p) => p - 1);
+}
+
+/**
+ * Put the ordered stops on a timeline
+ * legs has one entry per stop (arriving there) plus the trip back to the
+ * store; missing legs are estimated.
+ */
+export function buildRoutePlan(
+  store: LatLng,
+  orderedStops: RouteStop[],
+  startAt: Date,
+  legs?: LegEstimate[]
+): RoutePlan {
+  const points = [store, ...orderedStops, store];
+  const legFor = (i: number) => legs?.[i] || estimateLeg(points[i], points[i + 1]);
+
+  let clock = startAt.getTime();
+  let totalKm = 0;
+
+  const stops: PlannedStop[] = orderedStops.map((stop, i) => {
+    const leg = legFor(i);
+    if (i > 0) clock += MINUTES_PER_STOP * 60000;
+    clock += leg.minutes * 60000;
+    totalKm += leg.distance_km;
+    return {
+      ...stop,
+      sequence: i + 1,
+      distance_km: Math.round(leg.distance_km * 100) / 100,
+      travel_minutes: Math.round(leg.minutes),
+      eta: new Date(clock).toISOString(),
+    };
+  });
+
+  const back = orderedStops.length > 0 ? legFor(orderedStops.length) : { distance_km: 0, minutes: 0 };
+  if (orderedStops.length > 0) clock += MINUTES_PER_STOP * 60000;
+  clock += back.minutes * 60000;
+  totalKm += back.distance_km;
+
+  return {
+    store,
+    stops,
+    return_km: Math.round(back.distance_km * 100) / 100,
+    total_km: Math.round(totalKm * 100) / 100,
+    total_minutes: Math.round((clock - startAt.getTime()) / 60000),
+    returns_at: new Date(clock).toISOString(),
+    source: legs ? "google" : "estimate",
+  };
+}
@@ -0,0 +1,162 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createClient as createSupabaseClient } from "@supabase/supabase-js";
+import { createClient } from "@/src/app/utils/supabase/server";
+import { requireStaff } from "@/src/app/utils/staff-auth";
+
+vi.mock("@/src/app/utils/supabase/server", () => ({ createClient: vi.fn() }));
+
+vi.mock("@supabase/supabase-js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@supabase/supabase-js")>()),
+  createClient: vi.fn(),
+}));
+
+interface FakeStaff {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  is_active: boolean;
+  staff_roles: { role_id: string }[];
+}
+
+const ROLE_ROWS = [
+  { role_id: "cashier", permission: "pos.use" },
+  { role_id: "cashier", permission: "orders.view" },
+  { role_id: "rider", permission: "deliveries.view" },
+];
+
+function staffMember(roles: string[], overrides: Partial<FakeStaff> = {}): FakeStaff {
+  return {
+    id: "staff-1",
+    first_name: "Ana",
+    last_name: "Reyes",
+    is_active: true,
+    staff_roles: roles.map((role_id) => ({ role_id })),
+    ...overrides,
+  };
+}
+
+/**
+ * Session client answering auth.getUser(), the staff lookup and
+ * role_permissions
+ */
+function sessionClient(params: { signedIn?: boolean; staff?: FakeStaff | null }) {
+  const user = params.signedIn === false ? null : { id: "auth-1" };
+  return {
+    auth: {
+      getUser: vi.fn(async () => ({
+        data: { user },
+        error: user ? null : new Error("Auth session missing"),
+      })),
+    },
+    from: (table: string) =>
+      table === "staff"
+        ? {
+            select: () => ({
+              eq: () => ({
+                maybeSingle: async () => ({ data: params.staff ?? null, error: null }),
+              }),
+            }),
+          }
+        : {
+            select: () => ({
+              in: async (_column: string, roleIds: string[]) => ({
+                data: ROLE_ROWS.filter((r) => roleIds.includes(r.role_id)),
+                error: null,
+              }),
+            }),
+          },
+  };
+}
+
+function useCookieSession(client: ReturnType<typeof sessionClient>) {
+  vi.mocked(createClient).mockResolvedValue(client as unknown as Awaited<ReturnType<typeof createClient>>);
+}
+
+describe("requireStaff", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("allows staff whose roles grant the permission", async () => {
+    useCookieSession(sessionClient({ staff: staffMember(["cashier"]) }));
+
+    const auth = await requireStaff("pos.use");
+
+    expect(auth.success).toBe(true);
+    if (!auth.success) return;
+    expect(auth.data.staff).toEqual({
+      id: "staff-1",
+      first_name: "Ana",
+      last_name: "Reyes",
+      roles: ["cashier"],
+      permissions: ["pos.use", "orders.view"],
+    });
+  });
+
+  it("allows admins any permission", async () => {
+    useCookieSession(sessionClient({ staff: staffMember(["admin"]) }));
+
+    const auth = await requireStaff("staff.manage");
+
+    expect(auth.success).toBe(true);
+  });
+
+  it("denies staff whose roles lack the permission with 403", async () => {
+    useCookieSession(sessionClient({ staff: staffMember(["rider"]) }));
+
+    const auth = await requireStaff("pos.use");
+
+    expect(auth.success).toBe(false);
+    if (auth.success) return;
+    expect(auth.response.status).toBe(403);
+    expect(await auth.response.json()).toEqual({
+      success: false,
+      error: "You do not have permission to do this",
+    });
+  });
+
+  it("denies callers without a session with 401", async () => {
+    useCookieSession(sessionClient({ signedIn: false }));
+
+    const auth = await requireStaff("orders.view");
+
+    expect(auth.success).toBe(false);
+    if (auth.success) return;
+    expect(auth.response.status).toBe(401);
+  });
+
+  it("denies users without a staff record with 403", async () => {
+    useCookieSession(sessionClient({ staff: null }));
+
+    const auth = await requireStaff("orders.view");
+
+    expect(auth.success).toBe(false);
+    if (auth.success) return;
+    expect(auth.response.status).toBe(403);
+  });
+
+  it("denies inactive staff with 403", async () => {
+    useCookieSession(sessionClient({ staff: staffMember(["admin"], { is_active: false }) }));
+
+    const auth = await requireStaff("orders.view");
+
+    expect(auth.success).toBe(false);
+    if (auth.success) return;
+    expect(auth.response.status).toBe(403);
+  });
+
+  it("verifies a Bearer token instead of the cookie session", async () => {
+    const client = sessionClient({ staff: staffMember(["rider"]) });
+    vi.mocked(createSupabaseClient).mockReturnValue(client as unknown as ReturnType<typeof createSupabaseClient>);
+
+    const request = new Request("http://localhost/api/rider/location", {
+      headers: { Authorization: "Bearer rider-token" },
+    });
+    const auth = await requireStaff("deliveries.view", request);
+
+    expect(auth.success).toBe(true);
+    expect(client.auth.getUser).toHaveBeenCalledWith("rider-token");
+    expect(createClient).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Staff authorization for API routes (server only)
+ *
+ * requireStaff() resolves the signed-in staff member, their roles and the
+ * permissions those roles grant (utils/permissions.ts), then checks the one
+ * permission the route needs:
+ *
+ *   const auth = await requireStaff("inventory.manage");
+ *   if (!auth.success) return auth.response;
+ *   const { supabase, staff } = auth.data;
+ *
+ * The session comes from the auth cookie (web) or an
+ * "Authorization: Bearer <access token>" header (companion apps); either way
+ * the returned client queries as that user, so RLS still applies.
+ * No session is 401; an inactive/missing staff record or a missing
+ * permission is 403.
+ */
+
+import { NextResponse } from "next/server";
+import { createClient as createSupabaseClient, SupabaseClient, User } from "@supabase/supabase-js";
+import { createClient } from "@/src/app/utils/supabase/server";
+import { hasPermission, loadStaffAccess, Permission } from "@/src/app/utils/permissions";
+
+export interface AuthorizedStaff {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  roles: string[];
+  permissions: Permission[];
+}
+
+export type StaffAuthResult =
+  | { success: true; data: { supabase: SupabaseClient; user: User; staff: AuthorizedStaff } }
+  | { success: false; response: NextResponse };
+
+function deny(error: string, status: 401 | 403): StaffAuthResult {
+  return { success: false, response: NextResponse.json({ success: false, error }, { status }) };
+}
+
+/**
+ * Supabase client acting as the caller, plus the token to verify when the
+ * request carries a Bearer header (also used by utils/customer-auth.ts)
+ */
+export async function getSessionClient(request?: Request): Promise<{ supabase: SupabaseClient; token?: string }> {
+  const token = request?.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token) return { supabase: await createClient() };
+
+  const supabase = createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!,
+    {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false, autoRefreshToken: false },
+    }
+  );
+  return { supabase, token };
+}
+
+/**
+ * Authorize the caller for a route
+ * Pass the request so Bearer tokens are honoured; routes only used by the
+ * web app can omit it.
+ */
+export async function requireStaff(permission: Permission, request?: Request): Promise<StaffAuthResult> {
+  const { supabase, token } = await getSessionClient(request);
+
+  const {
+    data: { user },
+    error: authError,
+  } = token ? await supabase.auth.getUser(token) : await supabase.auth.getUser();
+
+  if (authError || !user) return deny("Unauthorized", 401);
+
+  let access;
+  try {
+    access = await loadStaffAccess(supabase, user.id);
+  } catch (error) {
+    console.error("[AUTH] Failed to load staff access:", error);
+    return deny("Staff record not found", 403);
+  }
+
+  if (!access || !access.is_active) {
+    return deny("Staff record not found", 403);
+  }
+
+  if (!hasPermission(access.permissions, permission)) {
+    console.warn("[AUTH] Permission denied:", { staff_id: access.staff_id, roles: access.roles, permission });
+    return deny("You do not have permission to do this", 403);
+  }
+
+  return {
+    success: true,
+    data: {
+      supabase,
+      user,
+      staff: {
+        id: access.staff_id,
+        first_name: access.first_name,
+        last_name: access.last_name,
+        roles: access.roles,
+        permissions: access.permissions,
+      },
+    },
+  };
+}
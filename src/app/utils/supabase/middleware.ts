@@ -1,5 +1,12 @@
 import { createServerClient } from '@supabase/ssr'
 import { NextResponse, type NextRequest } from 'next/server'
+import {
+  getFallbackPage,
+  getPagePermission,
+  hasPermission,
+  loadRolePermissions,
+  Permission,
+} from '@/src/app/utils/permissions'
 
 export async function updateSession(request: NextRequest) {
   let supabaseResponse = NextResponse.next({
@@ -96,6 +103,9 @@ export async function updateSession(request: NextRequest) {
       return NextResponse.redirect(url)
     }
 
+    // Permissions granted by all of the staff member's roles
+    const permissions = await loadRolePermissions(supabase, roles).catch((): Permission[] => [])
+
     // Helper function to get appropriate home page based on roles
     const getHomePageForRoles = (userRoles: string[]): string => {
       // Priority order: admin > cashier > attendant > rider
@@ -103,78 +113,39 @@ export async function updateSession(request: NextRequest) {
       if (userRoles.includes('cashier')) return '/in/pos'
       if (userRoles.includes('attendant')) return '/in/baskets'
       if (userRoles.includes('rider')) return '/in/orders'
-      return '/in/orders' // default fallback
+      return getFallbackPage(permissions) // custom roles
     }
 
     // Redirect logged-in users from auth pages to their appropriate home page
     const isBackNavigation = request.headers.get('sec-fetch-user') !== '?1'
     if (!isBackNavigation && request.nextUrl.pathname.startsWith('/auth/sign-in')) {
+      const home = getHomePageForRoles(roles)
+      const homePermission = getPagePermission(home)
       const url = request.nextUrl.clone()
-      url.pathname = getHomePageForRoles(roles)
+      url.pathname = !homePermission || hasPermission(permissions, homePermission) ? home : getFallbackPage(permissions)
       return NextResponse.redirect(url)
     }
 
-    // CASHIER - Can access POS, Orders, and Baskets
-    if (roles.includes('cashier') && !roles.includes('admin') && !roles.includes('attendant')) {
-      const allowedPaths = ['/in/pos', '/in/orders', '/in/baskets']
-      const isAllowed = allowedPaths.some(path => request.nextUrl.pathname.startsWith(path))
-      
-      if (request.nextUrl.pathname.startsWith('/in/') && !isAllowed) {
-        const url = request.nextUrl.clone()
-        url.pathname = '/in/pos'
-        console.log(`PROXY: Cashier unauthorized access, redirecting to /in/pos`)
-        return NextResponse.redirect(url)
-      }
-    }
-
-    // RIDER - Can access Orders only
-    if (roles.includes('rider') && !roles.includes('admin') && !roles.includes('attendant') && !roles.includes('cashier')) {
-      if (request.nextUrl.pathname.startsWith('/in/') && !request.nextUrl.pathname.startsWith('/in/orders')) {
-        const url = request.nextUrl.clone()
-        url.pathname = '/in/orders'
-        console.log(`PROXY: Rider unauthorized access, redirecting to /in/orders`)
-        return NextResponse.redirect(url)
-      }
-    }
-
-    // ATTENDANT - Can access Orders, Baskets, Manage (but not POS)
-    if (roles.includes('attendant') && !roles.includes('admin') && !roles.includes('cashier')) {
-      const allowedPaths = ['/in/orders', '/in/baskets', '/in/manage']
-      const isAllowed = allowedPaths.some(path => request.nextUrl.pathname.startsWith(path))
-      
-      if (request.nextUrl.pathname.startsWith('/in/') && !isAllowed) {
-        const url = request.nextUrl.clone()
-        url.pathname = '/in/baskets'
-        console.log(`PROXY: Attendant unauthorized access, redirecting to /in/baskets`)
-        return NextResponse.redirect(url)
-      }
-    }
-
-    // ADMIN - Can access everything, so no restrictions
-    // But protect /in/analytics for admin only
-    if (!roles.includes('admin') && request.nextUrl.pathname.startsWith('/in/analytics')) {
+    // Page access - each /in page needs the permission listed in PAGE_PERMISSIONS
+    const pagePermission = request.nextUrl.pathname.startsWith('/in/')
+      ? getPagePermission(request.nextUrl.pathname)
+      : null
+    if (pagePermission && !hasPermission(permissions, pagePermission)) {
       const url = request.nextUrl.clone()
-      url.pathname = '/in/orders' // or wherever appropriate home page is
-      console.log(`PROXY: Non-admin unauthorized access to analytics, redirecting`)
+      url.pathname = getFallbackPage(permissions)
+      console.log(`PROXY: Missing ${pagePermission} for ${request.nextUrl.pathname}, redirecting to ${url.pathname}`)
       return NextResponse.redirect(url)
     }
 
     // API-level access control
-    // Only admin can access /api/staff
-    if (!roles.includes('admin') && request.nextUrl.pathname.startsWith('/api/staff')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
-    }
-
-    // Only admin can access /api/analytics
-    if (!roles.includes('admin') && request.nextUrl.pathname.startsWith('/api/analytics')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
-    }
-
-    // Only admin and attendant can access /api/manage
-    if (
-      (!roles.includes('admin') && !roles.includes('attendant')) &&
-      request.nextUrl.pathname.startsWith('/api/manage')
-    ) {
+    // Route handlers check their own permission with requireStaff(); these
+    // are coarse checks for whole API groups
+    const apiPermissions: [string, Permission][] = [
+      ['/api/staff', 'staff.manage'],
+      ['/api/analytics', 'reports.view'],
+    ]
+    const apiPermission = apiPermissions.find(([prefix]) => request.nextUrl.pathname.startsWith(prefix))
+    if (apiPermission && !hasPermission(permissions, apiPermission[1])) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
     }
   }
@@ -0,0 +1,45 @@
+-- Pricing rules: owner-editable fees and limits used by buildOrderBreakdown
+-- A missing row means the default in posHelpers.ts DEFAULT_PRICING_RULES applies
+CREATE TABLE IF NOT EXISTS pricing_rules (
+  rule_key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_by UUID REFERENCES staff(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE pricing_rules ENABLE ROW LEVEL SECURITY;
+
+-- Prices are needed by the POS and mobile order flows
+CREATE POLICY "pricing_rules_read" ON pricing_rules
+  FOR SELECT USING (true);
+
+-- Only admins can change pricing
+CREATE POLICY "pricing_rules_admin_write" ON pricing_rules
+  FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM staff s
+      JOIN staff_roles sr ON sr.staff_id = s.id
+      WHERE s.auth_id = auth.uid() AND sr.role_id = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM staff s
+      JOIN staff_roles sr ON sr.staff_id = s.id
+      WHERE s.auth_id = auth.uid() AND sr.role_id = 'admin'
+    )
+  );
+
+-- Seed with the values that used to be hard-coded
+INSERT INTO pricing_rules (rule_key, value) VALUES
+  ('tax_rate', '0.12'),
+  ('staff_service_fee', '40'),
+  ('delivery_fee_default', '50'),
+  ('delivery_fee_min', '50'),
+  ('basket_weight_max', '8'),
+  ('iron_weight_min', '2'),
+  ('iron_weight_max', '8'),
+  ('fold_price', '0'),
+  ('extra_dry_tiers', '[{"minutes": 8, "price": 15}, {"minutes": 16, "price": 30}, {"minutes": 24, "price": 45}]')
+ON CONFLICT (rule_key) DO NOTHING;
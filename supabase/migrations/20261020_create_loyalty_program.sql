@@ -0,0 +1,176 @@
+-- Loyalty program: configurable discount tiers, earn rules and a points ledger
+-- customers.loyalty_points stays as the running balance; every change to it
+-- goes through record_loyalty_transaction() so the ledger always reconciles
+
+-- Discount tiers (redeem N points for X% off an order)
+CREATE TABLE IF NOT EXISTS loyalty_tiers (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  points_required INTEGER NOT NULL CHECK (points_required > 0),
+  discount_percent NUMERIC(5, 2) NOT NULL CHECK (discount_percent > 0 AND discount_percent <= 100),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_by UUID REFERENCES staff(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Earn rules (single row)
+CREATE TABLE IF NOT EXISTS loyalty_settings (
+  id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  points_per_order INTEGER NOT NULL DEFAULT 1 CHECK (points_per_order >= 0),
+  pesos_per_point NUMERIC(10, 2) CHECK (pesos_per_point IS NULL OR pesos_per_point > 0), -- Extra point per X pesos spent, NULL = off
+  expire_after_days INTEGER CHECK (expire_after_days IS NULL OR expire_after_days > 0),  -- Balance expires after N days without activity, NULL = never
+  updated_by UUID REFERENCES staff(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Append-only points ledger
+CREATE TABLE IF NOT EXISTS loyalty_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  type TEXT NOT NULL CHECK (type IN ('earn', 'redeem', 'expire', 'adjust')),
+  points INTEGER NOT NULL CHECK (points <> 0),
+  balance_after INTEGER NOT NULL CHECK (balance_after >= 0),
+  tier_id TEXT,
+  notes TEXT,
+  created_by UUID REFERENCES staff(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (
+    (type = 'earn' AND points > 0) OR
+    (type IN ('redeem', 'expire') AND points < 0) OR
+    type = 'adjust'
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_transactions_customer
+  ON loyalty_transactions(customer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_loyalty_transactions_order
+  ON loyalty_transactions(order_id);
+
+-- Ledger rows can never be edited. Deletes and FK nulling are only allowed
+-- when the parent customer/order row is already gone (cascades).
+CREATE OR REPLACE FUNCTION loyalty_transactions_append_only()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF EXISTS (SELECT 1 FROM customers WHERE id = OLD.customer_id) THEN
+      RAISE EXCEPTION 'loyalty_transactions is append-only';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF NEW.order_id IS NULL AND OLD.order_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM orders WHERE id = OLD.order_id)
+     AND (to_jsonb(NEW) - 'order_id') = (to_jsonb(OLD) - 'order_id') THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'loyalty_transactions is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_loyalty_transactions_append_only ON loyalty_transactions;
+CREATE TRIGGER trg_loyalty_transactions_append_only
+  BEFORE UPDATE OR DELETE ON loyalty_transactions
+  FOR EACH ROW EXECUTE FUNCTION loyalty_transactions_append_only();
+
+-- Atomically change a customer's balance and append the ledger row
+CREATE OR REPLACE FUNCTION record_loyalty_transaction(
+  p_customer_id UUID,
+  p_type TEXT,
+  p_points INTEGER,
+  p_order_id UUID DEFAULT NULL,
+  p_tier_id TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS loyalty_transactions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_balance INTEGER;
+  v_row loyalty_transactions;
+BEGIN
+  SELECT COALESCE(loyalty_points, 0) INTO v_balance
+  FROM customers
+  WHERE id = p_customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', p_customer_id;
+  END IF;
+
+  IF v_balance + p_points < 0 THEN
+    RAISE EXCEPTION 'Insufficient loyalty points: balance %, requested %', v_balance, -p_points;
+  END IF;
+
+  UPDATE customers
+  SET loyalty_points = v_balance + p_points
+  WHERE id = p_customer_id;
+
+  INSERT INTO loyalty_transactions (
+    customer_id, order_id, type, points, balance_after, tier_id, notes, created_by
+  ) VALUES (
+    p_customer_id, p_order_id, p_type, p_points, v_balance + p_points, p_tier_id, p_notes, p_created_by
+  )
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$;
+
+-- Expire the whole balance of customers with no earn/redeem/adjust activity
+-- in the last p_days days. Returns the number of customers expired.
+CREATE OR REPLACE FUNCTION expire_inactive_loyalty_points(p_days INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_customer RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_customer IN
+    SELECT c.id, c.loyalty_points
+    FROM customers c
+    WHERE COALESCE(c.loyalty_points, 0) > 0
+      AND COALESCE(
+        (SELECT MAX(t.created_at) FROM loyalty_transactions t
+         WHERE t.customer_id = c.id AND t.type <> 'expire'),
+        '-infinity'::timestamptz
+      ) < NOW() - make_interval(days => p_days)
+  LOOP
+    PERFORM record_loyalty_transaction(
+      v_customer.id,
+      'expire',
+      -v_customer.loyalty_points,
+      NULL,
+      NULL,
+      format('No activity for %s days', p_days),
+      NULL
+    );
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Seed with the tiers and earn rate that used to be hard-coded
+INSERT INTO loyalty_tiers (id, name, points_required, discount_percent) VALUES
+  ('tier1', '5% Off', 10, 5),
+  ('tier2', '15% Off', 20, 15)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO loyalty_settings (id, points_per_order) VALUES (1, 1)
+ON CONFLICT (id) DO NOTHING;
+
+-- Opening balances so the ledger matches existing customers.loyalty_points
+INSERT INTO loyalty_transactions (customer_id, type, points, balance_after, notes)
+SELECT id, 'adjust', loyalty_points, loyalty_points, 'Opening balance'
+FROM customers
+WHERE COALESCE(loyalty_points, 0) > 0
+  AND NOT EXISTS (
+    SELECT 1 FROM loyalty_transactions t WHERE t.customer_id = customers.id
+  );
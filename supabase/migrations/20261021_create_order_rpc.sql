@@ -0,0 +1,156 @@
+-- Transactional order creation shared by every order entry point
+-- Called through createOrder() in src/app/utils/create-order.ts, which
+-- validates the CreateOrderPayload and prepares the breakdown first.
+--
+-- Everything below runs in one transaction: if any step raises, the
+-- customer insert, order insert, loyalty redemption and stock deductions
+-- are all rolled back together.
+--
+-- Error codes (mapped to HTTP statuses by the TypeScript wrapper):
+--   OC400 invalid request, OC402 insufficient stock, OC404 missing record
+
+CREATE OR REPLACE FUNCTION create_order(
+  p_payload JSONB,
+  p_source TEXT,
+  p_cashier_id UUID DEFAULT NULL,
+  p_status TEXT DEFAULT 'pending',
+  p_match_customer_by_phone BOOLEAN DEFAULT FALSE,
+  p_gcash_receipt_url TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_customer_data JSONB := p_payload->'customer_data';
+  v_breakdown JSONB := p_payload->'breakdown';
+  v_tier_id TEXT := NULLIF(p_payload#>>'{loyalty,discount_tier}', '');
+  v_customer_id UUID;
+  v_order_id UUID;
+  v_tier loyalty_tiers;
+  v_balance INTEGER;
+  v_item JSONB;
+  v_quantity INTEGER;
+  v_stock INTEGER;
+  v_item_name TEXT;
+BEGIN
+  -- === STEP 1: Resolve or create customer ===
+  IF NULLIF(p_payload->>'customer_id', '') IS NOT NULL THEN
+    SELECT id INTO v_customer_id
+    FROM customers
+    WHERE id = (p_payload->>'customer_id')::uuid;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Customer not found' USING ERRCODE = 'OC404';
+    END IF;
+  ELSE
+    IF v_customer_data IS NULL THEN
+      RAISE EXCEPTION 'Customer ID or customer data required' USING ERRCODE = 'OC400';
+    END IF;
+
+    IF p_match_customer_by_phone THEN
+      SELECT id INTO v_customer_id
+      FROM customers
+      WHERE phone_number = v_customer_data->>'phone_number'
+      LIMIT 1;
+    END IF;
+
+    IF v_customer_id IS NULL THEN
+      INSERT INTO customers (first_name, last_name, phone_number, email_address, loyalty_points)
+      VALUES (
+        v_customer_data->>'first_name',
+        v_customer_data->>'last_name',
+        v_customer_data->>'phone_number',
+        NULLIF(v_customer_data->>'email', ''),
+        0
+      )
+      RETURNING id INTO v_customer_id;
+    END IF;
+  END IF;
+
+  -- === STEP 2: Create order ===
+  INSERT INTO orders (
+    customer_id, cashier_id, source, breakdown, handling, status,
+    total_amount, gcash_receipt_url, created_at
+  ) VALUES (
+    v_customer_id,
+    p_cashier_id,
+    p_source,
+    v_breakdown,
+    p_payload->'handling',
+    p_status,
+    COALESCE((v_breakdown#>>'{summary,total}')::numeric, 0),
+    p_gcash_receipt_url,
+    NOW()
+  )
+  RETURNING id INTO v_order_id;
+
+  -- === STEP 3: Redeem loyalty tier ===
+  IF v_tier_id IS NOT NULL THEN
+    SELECT * INTO v_tier
+    FROM loyalty_tiers
+    WHERE id = v_tier_id AND is_active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Unknown or inactive loyalty tier' USING ERRCODE = 'OC400';
+    END IF;
+
+    SELECT COALESCE(loyalty_points, 0) INTO v_balance
+    FROM customers
+    WHERE id = v_customer_id;
+
+    IF v_balance < v_tier.points_required THEN
+      RAISE EXCEPTION 'Not enough loyalty points for % (requires %)',
+        v_tier.name, v_tier.points_required USING ERRCODE = 'OC400';
+    END IF;
+
+    PERFORM record_loyalty_transaction(
+      v_customer_id,
+      'redeem',
+      -v_tier.points_required,
+      v_order_id,
+      v_tier.id,
+      format('%s (%s%% off)', v_tier.name, trim_scale(v_tier.discount_percent)),
+      p_cashier_id
+    );
+  END IF;
+
+  -- === STEP 4: Deduct inventory ===
+  -- Rows are locked so two orders cannot both take the last unit
+  FOR v_item IN
+    SELECT * FROM jsonb_array_elements(COALESCE(v_breakdown->'items', '[]'::jsonb))
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    SELECT quantity, item_name INTO v_stock, v_item_name
+    FROM products
+    WHERE id = (v_item->>'product_id')::uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % not found', v_item->>'product_id' USING ERRCODE = 'OC404';
+    END IF;
+
+    IF v_stock < v_quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %. Available: %, Requested: %',
+        v_item_name, v_stock, v_quantity USING ERRCODE = 'OC402';
+    END IF;
+
+    UPDATE products
+    SET quantity = v_stock - v_quantity
+    WHERE id = (v_item->>'product_id')::uuid;
+
+    INSERT INTO product_transactions (
+      product_id, order_id, quantity_change, transaction_type, notes, created_at
+    ) VALUES (
+      (v_item->>'product_id')::uuid,
+      v_order_id,
+      -v_quantity,
+      'order',
+      format('%s order %s', CASE p_source WHEN 'pos' THEN 'POS' ELSE initcap(p_source) END, v_order_id),
+      NOW()
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object('order_id', v_order_id, 'customer_id', v_customer_id);
+END;
+$$;
@@ -0,0 +1,121 @@
+-- Order lifecycle: status transition history
+-- Allowed transitions, guards and side effects live in
+-- src/app/utils/order-lifecycle.ts. This migration adds the history table and
+-- the transition function that changes the status and writes history together.
+
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status TEXT,                       -- NULL for the creation entry
+  to_status TEXT NOT NULL,
+  changed_by UUID REFERENCES staff(id) ON DELETE SET NULL,
+  reason TEXT,
+  metadata JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order
+  ON order_status_history (order_id, created_at);
+
+-- Creation entry for every new order (covers all entry points)
+CREATE OR REPLACE FUNCTION order_status_history_on_create()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO order_status_history (order_id, from_status, to_status, changed_by, reason)
+  VALUES (NEW.id, NULL, NEW.status, NEW.cashier_id, 'Order created');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_status_history_on_create ON orders;
+CREATE TRIGGER orders_status_history_on_create
+  AFTER INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION order_status_history_on_create();
+
+-- Move an order from p_from to p_to and record the transition
+-- Fails with OC409 if the status changed since the caller read it, so two
+-- concurrent transitions cannot both apply.
+-- p_return_stock puts the order's products back into inventory (once).
+CREATE OR REPLACE FUNCTION transition_order_status(
+  p_order_id UUID,
+  p_from TEXT,
+  p_to TEXT,
+  p_changed_by UUID DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT NULL,
+  p_return_stock BOOLEAN DEFAULT FALSE
+)
+RETURNS order_status_history
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_status TEXT;
+  v_breakdown JSONB;
+  v_item JSONB;
+  v_history order_status_history;
+BEGIN
+  SELECT status, breakdown INTO v_status, v_breakdown
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'OC404';
+  END IF;
+
+  IF v_status IS DISTINCT FROM p_from THEN
+    RAISE EXCEPTION 'Order status changed to % before this update', v_status
+      USING ERRCODE = 'OC409';
+  END IF;
+
+  UPDATE orders
+  SET status = p_to,
+      updated_at = NOW(),
+      cancelled_at = CASE WHEN p_to = 'cancelled' THEN NOW() ELSE cancelled_at END
+  WHERE id = p_order_id;
+
+  -- === Return stock ===
+  IF p_return_stock AND NOT EXISTS (
+    SELECT 1 FROM product_transactions
+    WHERE order_id = p_order_id AND transaction_type = 'return'
+  ) THEN
+    FOR v_item IN
+      SELECT * FROM jsonb_array_elements(COALESCE(v_breakdown->'items', '[]'::jsonb))
+    LOOP
+      UPDATE products
+      SET quantity = quantity + (v_item->>'quantity')::integer
+      WHERE id = (v_item->>'product_id')::uuid;
+
+      IF FOUND THEN
+        INSERT INTO product_transactions (
+          product_id, order_id, quantity_change, transaction_type, notes, created_at
+        ) VALUES (
+          (v_item->>'product_id')::uuid,
+          p_order_id,
+          (v_item->>'quantity')::integer,
+          'return',
+          format('Order %s %s', p_order_id, p_to),
+          NOW()
+        );
+      END IF;
+    END LOOP;
+  END IF;
+
+  INSERT INTO order_status_history (order_id, from_status, to_status, changed_by, reason, metadata)
+  VALUES (p_order_id, v_status, p_to, p_changed_by, p_reason, p_metadata)
+  RETURNING * INTO v_history;
+
+  RETURN v_history;
+END;
+$$;
+
+-- Existing orders start their history at their current status
+INSERT INTO order_status_history (order_id, from_status, to_status, changed_by, reason, created_at)
+SELECT o.id, NULL, o.status, o.cashier_id, 'Order created', o.created_at
+FROM orders o
+WHERE NOT EXISTS (
+  SELECT 1 FROM order_status_history h WHERE h.order_id = o.id
+);
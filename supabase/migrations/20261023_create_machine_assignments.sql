@@ -0,0 +1,143 @@
+-- Machine occupancy: which basket is on which washer/dryer
+-- A wash or dry start reserves a machine (reserve_machine) and complete, skip
+-- or order cancellation releases it (release_machines). Both lock the machine
+-- row so two attendants cannot load the same machine. Released rows are kept
+-- as the machine's cycle history.
+
+CREATE TABLE IF NOT EXISTS machine_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  machine_id UUID NOT NULL REFERENCES machines(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  basket_number INTEGER NOT NULL,
+  service_type TEXT NOT NULL CHECK (service_type IN ('wash', 'dry')),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'released')),
+  duration_minutes INTEGER NOT NULL DEFAULT 0,
+  started_by UUID REFERENCES staff(id) ON DELETE SET NULL,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expected_end_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  released_at TIMESTAMPTZ,
+  release_reason TEXT,                    -- completed, skipped, cancelled
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One basket per machine, one machine per basket service
+CREATE UNIQUE INDEX IF NOT EXISTS idx_machine_assignments_running_machine
+  ON machine_assignments (machine_id)
+  WHERE status = 'running';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_machine_assignments_running_basket
+  ON machine_assignments (order_id, basket_number, service_type)
+  WHERE status = 'running';
+
+CREATE INDEX IF NOT EXISTS idx_machine_assignments_machine
+  ON machine_assignments (machine_id, started_at);
+
+-- Put a basket service on a machine and mark the machine running
+-- OC404: machine not found, OC400: wrong machine type,
+-- OC409: machine busy or the basket is already on a machine
+CREATE OR REPLACE FUNCTION reserve_machine(
+  p_machine_id UUID,
+  p_order_id UUID,
+  p_basket_number INTEGER,
+  p_service_type TEXT,
+  p_started_by UUID DEFAULT NULL,
+  p_duration_minutes INTEGER DEFAULT 0
+)
+RETURNS machine_assignments
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_machine machines;
+  v_current TEXT;
+  v_assignment machine_assignments;
+BEGIN
+  SELECT * INTO v_machine
+  FROM machines
+  WHERE id = p_machine_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Machine not found' USING ERRCODE = 'OC404';
+  END IF;
+
+  IF v_machine.type IS DISTINCT FROM p_service_type THEN
+    RAISE EXCEPTION '% is a % machine, not %', v_machine.machine_name, v_machine.type, p_service_type
+      USING ERRCODE = 'OC400';
+  END IF;
+
+  IF v_machine.status = 'maintenance' THEN
+    RAISE EXCEPTION '% is under maintenance', v_machine.machine_name
+      USING ERRCODE = 'OC409';
+  END IF;
+
+  IF v_machine.status <> 'available' OR EXISTS (
+    SELECT 1 FROM machine_assignments
+    WHERE machine_id = p_machine_id AND status = 'running'
+  ) THEN
+    RAISE EXCEPTION '% is in use', v_machine.machine_name
+      USING ERRCODE = 'OC409';
+  END IF;
+
+  SELECT m.machine_name INTO v_current
+  FROM machine_assignments a
+  JOIN machines m ON m.id = a.machine_id
+  WHERE a.order_id = p_order_id
+    AND a.basket_number = p_basket_number
+    AND a.service_type = p_service_type
+    AND a.status = 'running';
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Basket #% is already on %', p_basket_number, v_current
+      USING ERRCODE = 'OC409';
+  END IF;
+
+  INSERT INTO machine_assignments (
+    machine_id, order_id, basket_number, service_type,
+    duration_minutes, started_by, started_at, expected_end_at
+  ) VALUES (
+    p_machine_id, p_order_id, p_basket_number, p_service_type,
+    GREATEST(COALESCE(p_duration_minutes, 0), 0), p_started_by, NOW(),
+    NOW() + make_interval(mins => GREATEST(COALESCE(p_duration_minutes, 0), 0))
+  )
+  RETURNING * INTO v_assignment;
+
+  UPDATE machines SET status = 'running' WHERE id = p_machine_id;
+
+  RETURN v_assignment;
+END;
+$$;
+
+-- Take baskets off their machines and mark the machines available again
+-- NULL basket/service releases every running assignment of the order.
+-- Machines switched to maintenance while running keep that status.
+CREATE OR REPLACE FUNCTION release_machines(
+  p_order_id UUID,
+  p_basket_number INTEGER DEFAULT NULL,
+  p_service_type TEXT DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS SETOF machine_assignments
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_assignment machine_assignments;
+BEGIN
+  FOR v_assignment IN
+    UPDATE machine_assignments
+    SET status = 'released',
+        released_at = NOW(),
+        release_reason = p_reason
+    WHERE order_id = p_order_id
+      AND status = 'running'
+      AND (p_basket_number IS NULL OR basket_number = p_basket_number)
+      AND (p_service_type IS NULL OR service_type = p_service_type)
+    RETURNING *
+  LOOP
+    UPDATE machines
+    SET status = 'available'
+    WHERE id = v_assignment.machine_id AND status = 'running';
+
+    RETURN NEXT v_assignment;
+  END LOOP;
+END;
+$$;
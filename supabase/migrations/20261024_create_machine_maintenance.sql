@@ -0,0 +1,298 @@
+-- Preventive maintenance and machine downtime
+-- Plans put a machine into maintenance every N cycles and/or N days. Cycles
+-- are machine_assignments (one per wash/dry start). Downtime rows record when
+-- a machine was out of service and why; repairs can link to an issue.
+
+CREATE TABLE IF NOT EXISTS machine_maintenance_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  machine_id UUID NOT NULL REFERENCES machines(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,                     -- e.g. "Clean lint filter"
+  interval_cycles INTEGER CHECK (interval_cycles IS NULL OR interval_cycles > 0),
+  interval_days INTEGER CHECK (interval_days IS NULL OR interval_days > 0),
+  last_done_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_done_cycles INTEGER NOT NULL DEFAULT 0, -- machine cycle count when last done
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_by UUID REFERENCES staff(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (interval_cycles IS NOT NULL OR interval_days IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_machine_maintenance_plans_machine
+  ON machine_maintenance_plans (machine_id);
+
+CREATE TABLE IF NOT EXISTS machine_downtime (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  machine_id UUID NOT NULL REFERENCES machines(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (reason IN ('maintenance', 'repair', 'breakdown')),
+  plan_id UUID REFERENCES machine_maintenance_plans(id) ON DELETE SET NULL,
+  issue_id UUID REFERENCES issues(id) ON DELETE SET NULL,
+  notes TEXT,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_by UUID REFERENCES staff(id) ON DELETE SET NULL,
+  ended_at TIMESTAMPTZ,                   -- NULL while the machine is down
+  ended_by UUID REFERENCES staff(id) ON DELETE SET NULL,
+  resolution TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_machine_downtime_machine
+  ON machine_downtime (machine_id, started_at);
+
+-- One open downtime per plan, so a due plan is only flagged once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_machine_downtime_open_plan
+  ON machine_downtime (plan_id)
+  WHERE ended_at IS NULL AND plan_id IS NOT NULL;
+
+-- Cycles a machine has run (every wash/dry start that reached the machine)
+CREATE OR REPLACE FUNCTION machine_cycle_count(
+  p_machine_id UUID,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COUNT(*)::integer
+  FROM machine_assignments
+  WHERE machine_id = p_machine_id
+    AND release_reason IS DISTINCT FROM 'failed'
+    AND (p_from IS NULL OR started_at >= p_from)
+    AND (p_to IS NULL OR started_at < p_to);
+$$;
+
+-- Open maintenance downtime for every active plan that is due and put the
+-- machine into maintenance. Machines that are running are left alone and
+-- picked up when their basket is released. NULL checks every machine.
+-- Returns the downtime rows it opened.
+CREATE OR REPLACE FUNCTION flag_due_maintenance(p_machine_id UUID DEFAULT NULL)
+RETURNS SETOF machine_downtime
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_plan RECORD;
+  v_downtime machine_downtime;
+BEGIN
+  FOR v_plan IN
+    SELECT p.*, m.status AS machine_status, machine_cycle_count(p.machine_id) AS cycles
+    FROM machine_maintenance_plans p
+    JOIN machines m ON m.id = p.machine_id
+    WHERE p.is_active
+      AND (p_machine_id IS NULL OR p.machine_id = p_machine_id)
+      AND NOT EXISTS (
+        SELECT 1 FROM machine_downtime d
+        WHERE d.plan_id = p.id AND d.ended_at IS NULL
+      )
+    FOR UPDATE OF m
+  LOOP
+    IF v_plan.machine_status = 'running' THEN
+      CONTINUE;
+    END IF;
+
+    IF (v_plan.interval_cycles IS NOT NULL
+          AND v_plan.cycles - v_plan.last_done_cycles >= v_plan.interval_cycles)
+       OR (v_plan.interval_days IS NOT NULL
+          AND NOW() >= v_plan.last_done_at + make_interval(days => v_plan.interval_days))
+    THEN
+      INSERT INTO machine_downtime (machine_id, reason, plan_id, notes)
+      VALUES (v_plan.machine_id, 'maintenance', v_plan.id, format('Due: %s', v_plan.name))
+      RETURNING * INTO v_downtime;
+
+      UPDATE machines SET status = 'maintenance' WHERE id = v_plan.machine_id;
+
+      RETURN NEXT v_downtime;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Take a machine out of service (repair or breakdown logged by staff)
+-- OC404: machine not found
+CREATE OR REPLACE FUNCTION start_machine_downtime(
+  p_machine_id UUID,
+  p_reason TEXT,
+  p_issue_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_started_by UUID DEFAULT NULL
+)
+RETURNS machine_downtime
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_downtime machine_downtime;
+BEGIN
+  PERFORM 1 FROM machines WHERE id = p_machine_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Machine not found' USING ERRCODE = 'OC404';
+  END IF;
+
+  INSERT INTO machine_downtime (machine_id, reason, issue_id, notes, started_by)
+  VALUES (p_machine_id, p_reason, p_issue_id, p_notes, p_started_by)
+  RETURNING * INTO v_downtime;
+
+  UPDATE machines SET status = 'maintenance' WHERE id = p_machine_id;
+
+  RETURN v_downtime;
+END;
+$$;
+
+-- Close a downtime entry. Maintenance resets its plan's counters and the
+-- machine's last_serviced_at; a linked open issue is resolved. The machine is
+-- available again once it has no other open downtime.
+-- OC404: downtime not found, OC409: already closed
+CREATE OR REPLACE FUNCTION end_machine_downtime(
+  p_downtime_id UUID,
+  p_ended_by UUID DEFAULT NULL,
+  p_resolution TEXT DEFAULT NULL
+)
+RETURNS machine_downtime
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_downtime machine_downtime;
+BEGIN
+  SELECT * INTO v_downtime
+  FROM machine_downtime
+  WHERE id = p_downtime_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Downtime entry not found' USING ERRCODE = 'OC404';
+  END IF;
+
+  IF v_downtime.ended_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Machine is already back in service' USING ERRCODE = 'OC409';
+  END IF;
+
+  UPDATE machine_downtime
+  SET ended_at = NOW(),
+      ended_by = p_ended_by,
+      resolution = p_resolution
+  WHERE id = p_downtime_id
+  RETURNING * INTO v_downtime;
+
+  IF v_downtime.plan_id IS NOT NULL THEN
+    UPDATE machine_maintenance_plans
+    SET last_done_at = NOW(),
+        last_done_cycles = machine_cycle_count(v_downtime.machine_id),
+        updated_at = NOW()
+    WHERE id = v_downtime.plan_id;
+  END IF;
+
+  IF v_downtime.reason IN ('maintenance', 'repair') THEN
+    UPDATE machines SET last_serviced_at = NOW() WHERE id = v_downtime.machine_id;
+  END IF;
+
+  IF v_downtime.issue_id IS NOT NULL THEN
+    UPDATE issues
+    SET status = 'resolved',
+        resolved_by = p_ended_by,
+        resolved_at = NOW(),
+        updated_at = NOW()
+    WHERE id = v_downtime.issue_id AND status = 'open';
+  END IF;
+
+  UPDATE machines
+  SET status = 'available'
+  WHERE id = v_downtime.machine_id
+    AND status = 'maintenance'
+    AND NOT EXISTS (
+      SELECT 1 FROM machine_downtime
+      WHERE machine_id = v_downtime.machine_id AND ended_at IS NULL
+    );
+
+  RETURN v_downtime;
+END;
+$$;
+
+-- Uptime and cycles per machine for a period
+-- Downtime is clipped to the period; open downtime counts until p_to.
+CREATE OR REPLACE FUNCTION machine_uptime_report(p_from TIMESTAMPTZ, p_to TIMESTAMPTZ)
+RETURNS TABLE (
+  machine_id UUID,
+  machine_name TEXT,
+  type TEXT,
+  status TEXT,
+  cycles INTEGER,
+  total_cycles INTEGER,
+  downtime_minutes INTEGER,
+  uptime_percent NUMERIC,
+  breakdowns INTEGER,
+  repairs INTEGER,
+  maintenance_stops INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    m.id,
+    m.machine_name,
+    m.type,
+    m.status,
+    machine_cycle_count(m.id, p_from, p_to),
+    machine_cycle_count(m.id),
+    COALESCE(d.minutes, 0)::integer,
+    ROUND(
+      100 * GREATEST(
+        0,
+        1 - COALESCE(d.minutes, 0) / GREATEST(EXTRACT(EPOCH FROM (p_to - p_from)) / 60, 1)
+      ),
+      1
+    ),
+    COALESCE(d.breakdowns, 0)::integer,
+    COALESCE(d.repairs, 0)::integer,
+    COALESCE(d.maintenance_stops, 0)::integer
+  FROM machines m
+  LEFT JOIN LATERAL (
+    SELECT
+      SUM(
+        EXTRACT(EPOCH FROM (
+          LEAST(COALESCE(dt.ended_at, p_to), p_to) - GREATEST(dt.started_at, p_from)
+        )) / 60
+      ) AS minutes,
+      COUNT(*) FILTER (WHERE dt.reason = 'breakdown') AS breakdowns,
+      COUNT(*) FILTER (WHERE dt.reason = 'repair') AS repairs,
+      COUNT(*) FILTER (WHERE dt.reason = 'maintenance') AS maintenance_stops
+    FROM machine_downtime dt
+    WHERE dt.machine_id = m.id
+      AND dt.started_at < p_to
+      AND COALESCE(dt.ended_at, p_to) > p_from
+  ) d ON TRUE
+  ORDER BY m.type, m.machine_name;
+$$;
+
+-- Check a machine's plans as soon as its basket comes off
+CREATE OR REPLACE FUNCTION release_machines(
+  p_order_id UUID,
+  p_basket_number INTEGER DEFAULT NULL,
+  p_service_type TEXT DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS SETOF machine_assignments
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_assignment machine_assignments;
+BEGIN
+  FOR v_assignment IN
+    UPDATE machine_assignments
+    SET status = 'released',
+        released_at = NOW(),
+        release_reason = p_reason
+    WHERE order_id = p_order_id
+      AND status = 'running'
+      AND (p_basket_number IS NULL OR basket_number = p_basket_number)
+      AND (p_service_type IS NULL OR service_type = p_service_type)
+    RETURNING *
+  LOOP
+    UPDATE machines
+    SET status = 'available'
+    WHERE id = v_assignment.machine_id AND status = 'running';
+
+    PERFORM flag_due_maintenance(v_assignment.machine_id);
+
+    RETURN NEXT v_assignment;
+  END LOOP;
+END;
+$$;
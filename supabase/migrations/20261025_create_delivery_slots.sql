@@ -0,0 +1,207 @@
+-- Pickup/delivery time slots
+-- Scheduled orders book a slot on a date. A slot takes at most `capacity`
+-- bookings, and when capacity_per_rider is set, no more than that many per
+-- rider available in the slot. Blackout dates take no bookings at all.
+-- Riders (staff with the rider role) are available unless a
+-- rider_availability row says otherwise.
+
+CREATE TABLE IF NOT EXISTS delivery_slots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  weekday SMALLINT CHECK (weekday BETWEEN 0 AND 6), -- 0 = Sunday, NULL = every day
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  capacity INTEGER NOT NULL CHECK (capacity > 0),
+  capacity_per_rider INTEGER CHECK (capacity_per_rider IS NULL OR capacity_per_rider > 0),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_by UUID REFERENCES staff(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (end_time > start_time)
+);
+
+CREATE TABLE IF NOT EXISTS blackout_dates (
+  date DATE PRIMARY KEY,
+  reason TEXT,
+  created_by UUID REFERENCES staff(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Per-date overrides of a rider's availability (NULL slot = whole day)
+CREATE TABLE IF NOT EXISTS rider_availability (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  staff_id UUID NOT NULL REFERENCES staff(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  slot_id UUID REFERENCES delivery_slots(id) ON DELETE CASCADE,
+  is_available BOOLEAN NOT NULL DEFAULT FALSE,
+  note TEXT,
+  updated_by UUID REFERENCES staff(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rider_availability_unique
+  ON rider_availability (staff_id, date, COALESCE(slot_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+CREATE TABLE IF NOT EXISTS slot_bookings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  slot_id UUID NOT NULL REFERENCES delivery_slots(id) ON DELETE RESTRICT,
+  date DATE NOT NULL,
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE, -- NULL while the order is being created
+  leg TEXT NOT NULL DEFAULT 'delivery' CHECK (leg IN ('pickup', 'delivery')),
+  status TEXT NOT NULL DEFAULT 'booked' CHECK (status IN ('booked', 'cancelled')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  cancelled_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_slot_bookings_slot_date
+  ON slot_bookings (slot_id, date)
+  WHERE status = 'booked';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_slot_bookings_order_leg
+  ON slot_bookings (order_id, leg)
+  WHERE status = 'booked' AND order_id IS NOT NULL;
+
+-- Riders available for a slot on a date
+CREATE OR REPLACE FUNCTION slot_riders_available(p_slot_id UUID, p_date DATE)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COUNT(*)::integer
+  FROM staff s
+  JOIN staff_roles r ON r.staff_id = s.id AND r.role_id = 'rider'
+  WHERE COALESCE(s.is_active, TRUE)
+    AND COALESCE((
+      -- A slot-specific override wins over a whole-day one
+      SELECT a.is_available
+      FROM rider_availability a
+      WHERE a.staff_id = s.id
+        AND a.date = p_date
+        AND (a.slot_id = p_slot_id OR a.slot_id IS NULL)
+      ORDER BY a.slot_id NULLS LAST
+      LIMIT 1
+    ), TRUE);
+$$;
+
+-- Every slot between two dates with its capacity and bookings
+CREATE OR REPLACE FUNCTION slot_availability(p_from DATE, p_to DATE)
+RETURNS TABLE (
+  date DATE,
+  slot_id UUID,
+  start_time TIME,
+  end_time TIME,
+  capacity INTEGER,
+  booked INTEGER,
+  remaining INTEGER,
+  riders_available INTEGER,
+  blackout_reason TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH days AS (
+    SELECT d::date AS date
+    FROM generate_series(p_from, p_to, INTERVAL '1 day') d
+  ),
+  slots AS (
+    SELECT
+      days.date,
+      s.id AS slot_id,
+      s.start_time,
+      s.end_time,
+      s.capacity,
+      s.capacity_per_rider,
+      slot_riders_available(s.id, days.date) AS riders,
+      b.date IS NOT NULL AS is_blackout,
+      b.reason AS blackout_reason,
+      (
+        SELECT COUNT(*)::integer FROM slot_bookings sb
+        WHERE sb.slot_id = s.id AND sb.date = days.date AND sb.status = 'booked'
+      ) AS booked
+    FROM days
+    JOIN delivery_slots s
+      ON s.is_active AND (s.weekday IS NULL OR s.weekday = EXTRACT(DOW FROM days.date))
+    LEFT JOIN blackout_dates b ON b.date = days.date
+  )
+  SELECT
+    date,
+    slot_id,
+    start_time,
+    end_time,
+    CASE
+      WHEN is_blackout THEN 0
+      WHEN capacity_per_rider IS NULL THEN capacity
+      ELSE LEAST(capacity, capacity_per_rider * riders)
+    END AS capacity,
+    booked,
+    GREATEST(
+      0,
+      CASE
+        WHEN is_blackout THEN 0
+        WHEN capacity_per_rider IS NULL THEN capacity
+        ELSE LEAST(capacity, capacity_per_rider * riders)
+      END - booked
+    ) AS remaining,
+    riders AS riders_available,
+    CASE WHEN is_blackout THEN COALESCE(blackout_reason, 'Closed') END AS blackout_reason
+  FROM slots
+  ORDER BY date, start_time;
+$$;
+
+-- Book a slot, refusing blackout dates and full slots
+-- Locks the slot row so concurrent bookings are counted one at a time.
+-- OC400: slot not offered on that date or date in the past,
+-- OC404: slot not found, OC409: blackout date or slot full
+CREATE OR REPLACE FUNCTION book_slot(
+  p_slot_id UUID,
+  p_date DATE,
+  p_order_id UUID DEFAULT NULL,
+  p_leg TEXT DEFAULT 'delivery'
+)
+RETURNS slot_bookings
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_slot delivery_slots;
+  v_availability RECORD;
+  v_booking slot_bookings;
+BEGIN
+  SELECT * INTO v_slot
+  FROM delivery_slots
+  WHERE id = p_slot_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Time slot not found' USING ERRCODE = 'OC404';
+  END IF;
+
+  IF p_date < (NOW() AT TIME ZONE 'Asia/Manila')::date THEN
+    RAISE EXCEPTION 'Cannot book a slot in the past' USING ERRCODE = 'OC400';
+  END IF;
+
+  SELECT * INTO v_availability
+  FROM slot_availability(p_date, p_date) a
+  WHERE a.slot_id = p_slot_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The % slot is not offered on %', to_char(v_slot.start_time, 'HH24:MI'), p_date
+      USING ERRCODE = 'OC400';
+  END IF;
+
+  IF v_availability.blackout_reason IS NOT NULL THEN
+    RAISE EXCEPTION 'No pickups or deliveries on %: %', p_date, v_availability.blackout_reason
+      USING ERRCODE = 'OC409';
+  END IF;
+
+  IF v_availability.remaining <= 0 THEN
+    RAISE EXCEPTION 'The %-% slot on % is fully booked',
+      to_char(v_slot.start_time, 'HH24:MI'), to_char(v_slot.end_time, 'HH24:MI'), p_date
+      USING ERRCODE = 'OC409';
+  END IF;
+
+  INSERT INTO slot_bookings (slot_id, date, order_id, leg)
+  VALUES (p_slot_id, p_date, p_order_id, COALESCE(p_leg, 'delivery'))
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$;
@@ -0,0 +1,32 @@
+-- Delivery fee zones
+-- A delivery is priced by the first active zone (highest priority first) that
+-- contains the address: a polygon drawn on the map, or a band of road
+-- distance from the store (min_km <= distance < max_km). The fee is
+-- base_fee plus per_km_rate for every km beyond included_km, never below the
+-- delivery_fee_min pricing rule. With no active zones the old flat
+-- delivery_fee_default applies.
+
+CREATE TABLE IF NOT EXISTS delivery_zones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  zone_type TEXT NOT NULL CHECK (zone_type IN ('radius', 'polygon')),
+  min_km NUMERIC(6, 2) NOT NULL DEFAULT 0 CHECK (min_km >= 0),
+  max_km NUMERIC(6, 2),                   -- Radius zones only
+  polygon JSONB,                          -- Polygon zones only: [{ "lat": .., "lng": .. }, ...]
+  base_fee NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (base_fee >= 0),
+  included_km NUMERIC(6, 2) NOT NULL DEFAULT 0 CHECK (included_km >= 0),
+  per_km_rate NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (per_km_rate >= 0),
+  priority INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_by UUID REFERENCES staff(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (
+    (zone_type = 'radius' AND max_km IS NOT NULL AND max_km > min_km)
+    OR (zone_type = 'polygon' AND jsonb_typeof(polygon) = 'array' AND jsonb_array_length(polygon) >= 3)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_zones_active
+  ON delivery_zones (priority DESC)
+  WHERE is_active;
@@ -0,0 +1,114 @@
+-- Editable staff roles and named permissions
+-- A role is a named set of permissions (role_permissions); staff hold any
+-- number of roles through staff_roles. The app checks permissions, not role
+-- names (src/app/utils/permissions.ts lists them). The admin role always
+-- holds every permission. The old cashier_attendant hybrid is replaced by
+-- holding both the cashier and attendant roles.
+
+CREATE TABLE IF NOT EXISTS roles (
+  id TEXT PRIMARY KEY
+);
+
+ALTER TABLE roles ADD COLUMN IF NOT EXISTS name TEXT;
+ALTER TABLE roles ADD COLUMN IF NOT EXISTS description TEXT;
+ALTER TABLE roles ADD COLUMN IF NOT EXISTS is_system BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE roles ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+INSERT INTO roles (id, name, description, is_system) VALUES
+  ('admin', 'Admin', 'Full access, including staff and settings', TRUE),
+  ('cashier', 'Cashier', 'POS and front-desk order handling', TRUE),
+  ('attendant', 'Attendant', 'Baskets, machines and stock', TRUE),
+  ('rider', 'Rider', 'Pickups and deliveries', TRUE)
+ON CONFLICT (id) DO UPDATE SET is_system = TRUE, name = COALESCE(roles.name, EXCLUDED.name);
+
+-- Any role already assigned to staff keeps working as a custom role
+INSERT INTO roles (id)
+SELECT DISTINCT role_id FROM staff_roles
+ON CONFLICT (id) DO NOTHING;
+
+UPDATE roles SET name = initcap(replace(id, '_', ' ')) WHERE name IS NULL;
+ALTER TABLE roles ALTER COLUMN name SET NOT NULL;
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role_id TEXT NOT NULL REFERENCES roles(id) ON DELETE CASCADE,
+  permission TEXT NOT NULL,
+  PRIMARY KEY (role_id, permission)
+);
+
+-- Built-in role defaults (what the hard-coded checks used to allow)
+INSERT INTO role_permissions (role_id, permission) VALUES
+  ('cashier', 'pos.use'),
+  ('cashier', 'orders.view'),
+  ('cashier', 'orders.update_status'),
+  ('cashier', 'orders.process'),
+  ('cashier', 'orders.edit'),
+  ('cashier', 'orders.cancel'),
+  ('attendant', 'orders.view'),
+  ('attendant', 'orders.update_status'),
+  ('attendant', 'orders.process'),
+  ('attendant', 'orders.edit'),
+  ('attendant', 'orders.cancel'),
+  ('attendant', 'inventory.manage'),
+  ('attendant', 'inventory.adjust'),
+  ('attendant', 'machines.manage'),
+  ('attendant', 'issues.manage'),
+  ('rider', 'orders.view'),
+  ('rider', 'orders.update_status'),
+  ('rider', 'deliveries.view')
+ON CONFLICT DO NOTHING;
+
+-- cashier_attendant -> cashier + attendant
+INSERT INTO staff_roles (staff_id, role_id)
+SELECT sr.staff_id, r.role_id
+FROM staff_roles sr
+CROSS JOIN (VALUES ('cashier'), ('attendant')) AS r(role_id)
+WHERE sr.role_id = 'cashier_attendant'
+  AND NOT EXISTS (
+    SELECT 1 FROM staff_roles x WHERE x.staff_id = sr.staff_id AND x.role_id = r.role_id
+  );
+
+DELETE FROM staff_roles WHERE role_id = 'cashier_attendant';
+DELETE FROM roles WHERE id = 'cashier_attendant';
+
+-- For RLS policies: does the signed-in staff member hold a permission?
+CREATE OR REPLACE FUNCTION staff_has_permission(p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM staff s
+    JOIN staff_roles sr ON sr.staff_id = s.id
+    LEFT JOIN role_permissions rp ON rp.role_id = sr.role_id
+    WHERE s.auth_id = auth.uid()
+      AND s.is_active
+      AND (sr.role_id = 'admin' OR rp.permission = p_permission)
+  );
+$$;
+
+ALTER TABLE roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+-- Every signed-in user resolves their own permissions (navbar, proxy)
+DROP POLICY IF EXISTS "roles_read" ON roles;
+CREATE POLICY "roles_read" ON roles
+  FOR SELECT TO authenticated USING (true);
+
+DROP POLICY IF EXISTS "role_permissions_read" ON role_permissions;
+CREATE POLICY "role_permissions_read" ON role_permissions
+  FOR SELECT TO authenticated USING (true);
+
+DROP POLICY IF EXISTS "roles_staff_manage_write" ON roles;
+CREATE POLICY "roles_staff_manage_write" ON roles
+  FOR ALL TO authenticated
+  USING (staff_has_permission('staff.manage'))
+  WITH CHECK (staff_has_permission('staff.manage'));
+
+DROP POLICY IF EXISTS "role_permissions_staff_manage_write" ON role_permissions;
+CREATE POLICY "role_permissions_staff_manage_write" ON role_permissions
+  FOR ALL TO authenticated
+  USING (staff_has_permission('staff.manage'))
+  WITH CHECK (staff_has_permission('staff.manage'));
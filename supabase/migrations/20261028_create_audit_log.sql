@@ -0,0 +1,42 @@
+-- Audit trail of staff actions
+-- Every mutating staff route writes one row: who did it, what they did
+-- (action, e.g. "order.cancel"), which record, and the record before and
+-- after. changes holds only the fields that differ ({ field: { from, to } }).
+-- Rows are never updated or deleted by the app.
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  staff_id UUID REFERENCES staff(id) ON DELETE SET NULL,
+  action TEXT NOT NULL,                   -- "<entity>.<verb>", e.g. "product.adjust_quantity"
+  entity_type TEXT NOT NULL,              -- e.g. "order", "product", "pricing_rule"
+  entity_id TEXT,                         -- TEXT so non-UUID keys (pricing rules, roles) fit
+  before JSONB,                           -- NULL for creates
+  after JSONB,                            -- NULL for deletes
+  changes JSONB,
+  metadata JSONB,                         -- Extra context, e.g. cancel reason
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created
+  ON audit_log (created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_staff
+  ON audit_log (staff_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity
+  ON audit_log (entity_type, entity_id, created_at DESC);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Staff write entries for their own actions only
+DROP POLICY IF EXISTS "audit_log_insert_own" ON audit_log;
+CREATE POLICY "audit_log_insert_own" ON audit_log
+  FOR INSERT TO authenticated
+  WITH CHECK (staff_id IN (SELECT id FROM staff WHERE auth_id = auth.uid()));
+
+DROP POLICY IF EXISTS "audit_log_read" ON audit_log;
+CREATE POLICY "audit_log_read" ON audit_log
+  FOR SELECT TO authenticated
+  USING (staff_has_permission('audit.view'));
+
+-- No UPDATE or DELETE policies: the log is append-only
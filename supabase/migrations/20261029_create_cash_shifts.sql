@@ -0,0 +1,95 @@
+-- Cash drawer shifts
+-- A cashier opens a shift with the opening float in the drawer and closes it
+-- by counting the cash. The shift's sales are the cashier's POS orders created
+-- between opened_at and closed_at (cancelled orders excluded); cash_movements
+-- record cash put into or taken out of the drawer in between (change fund
+-- top-ups, paid-outs, bank drops). At close the expected cash, the counted
+-- cash and the GCash totals are stored so Z reports never change afterwards.
+
+CREATE TABLE IF NOT EXISTS cash_shifts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  staff_id UUID NOT NULL REFERENCES staff(id) ON DELETE RESTRICT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  opening_float NUMERIC(10, 2) NOT NULL CHECK (opening_float >= 0),
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  closed_at TIMESTAMPTZ,
+  closed_by UUID REFERENCES staff(id) ON DELETE SET NULL,
+  -- Snapshot taken at close
+  cash_sales NUMERIC(10, 2),
+  cash_in NUMERIC(10, 2),
+  cash_out NUMERIC(10, 2),
+  expected_cash NUMERIC(10, 2),
+  counted_cash NUMERIC(10, 2) CHECK (counted_cash IS NULL OR counted_cash >= 0),
+  cash_variance NUMERIC(10, 2),           -- counted - expected; negative is a shortage
+  gcash_sales NUMERIC(10, 2),
+  counted_gcash NUMERIC(10, 2),           -- Total on the GCash app statement, if entered
+  gcash_variance NUMERIC(10, 2),
+  notes TEXT,
+  CHECK (status = 'open' OR (closed_at IS NOT NULL AND counted_cash IS NOT NULL))
+);
+
+-- One open shift per cashier
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cash_shifts_open_staff
+  ON cash_shifts (staff_id)
+  WHERE status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_cash_shifts_opened
+  ON cash_shifts (opened_at DESC);
+
+CREATE TABLE IF NOT EXISTS cash_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shift_id UUID NOT NULL REFERENCES cash_shifts(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('cash_in', 'cash_out')),
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  reason TEXT NOT NULL,
+  staff_id UUID REFERENCES staff(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cash_movements_shift
+  ON cash_movements (shift_id, created_at);
+
+-- Orders of a shift are found by cashier and creation time
+CREATE INDEX IF NOT EXISTS idx_orders_cashier_created
+  ON orders (cashier_id, created_at);
+
+-- New permissions: cashiers run their own drawer, managers review every shift
+INSERT INTO role_permissions (role_id, permission) VALUES
+  ('cashier', 'shifts.use')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE cash_shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cash_movements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "cash_shifts_read" ON cash_shifts;
+CREATE POLICY "cash_shifts_read" ON cash_shifts
+  FOR SELECT TO authenticated
+  USING (
+    staff_has_permission('shifts.manage')
+    OR staff_id IN (SELECT id FROM staff WHERE auth_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "cash_shifts_write_own" ON cash_shifts;
+CREATE POLICY "cash_shifts_write_own" ON cash_shifts
+  FOR ALL TO authenticated
+  USING (
+    staff_has_permission('shifts.manage')
+    OR (staff_has_permission('shifts.use') AND staff_id IN (SELECT id FROM staff WHERE auth_id = auth.uid()))
+  )
+  WITH CHECK (
+    staff_has_permission('shifts.manage')
+    OR (staff_has_permission('shifts.use') AND staff_id IN (SELECT id FROM staff WHERE auth_id = auth.uid()))
+  );
+
+DROP POLICY IF EXISTS "cash_movements_read" ON cash_movements;
+CREATE POLICY "cash_movements_read" ON cash_movements
+  FOR SELECT TO authenticated
+  USING (shift_id IN (SELECT id FROM cash_shifts));
+
+DROP POLICY IF EXISTS "cash_movements_insert" ON cash_movements;
+CREATE POLICY "cash_movements_insert" ON cash_movements
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    shift_id IN (SELECT id FROM cash_shifts WHERE status = 'open')
+    AND staff_id IN (SELECT id FROM staff WHERE auth_id = auth.uid())
+  );
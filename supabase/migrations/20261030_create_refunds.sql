@@ -0,0 +1,310 @@
+-- Order refunds
+-- A refund gives money back for some of an order's product lines (any
+-- quantity up to what is left unrefunded) and/or whole baskets. Amounts are
+-- worked out here from the order's breakdown, scaled by the share of the
+-- subtotal the customer actually paid (loyalty discounts), so the client only
+-- says what is refunded. Refunded products go back into stock with 'return'
+-- entries in product_transactions. A refund made while the staff member has
+-- an open cash drawer shift is linked to it so the drawer count allows for it.
+-- Loyalty adjustments are made by the API (src/app/utils/orderRefunds.ts).
+
+CREATE TABLE IF NOT EXISTS refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  method TEXT NOT NULL CHECK (method IN ('cash', 'gcash')),
+  reason TEXT NOT NULL,
+  -- [{ type: 'product', product_id, product_name, quantity, unit_price, amount }
+  --  | { type: 'basket', basket_number, weight_kg, subtotal, amount }]
+  lines JSONB NOT NULL,
+  loyalty_points_reversed INTEGER NOT NULL DEFAULT 0,
+  staff_id UUID REFERENCES staff(id) ON DELETE SET NULL,
+  shift_id UUID REFERENCES cash_shifts(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_order
+  ON refunds (order_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_shift
+  ON refunds (shift_id)
+  WHERE shift_id IS NOT NULL;
+
+-- Drawer shifts store their refunds at close like the other totals
+ALTER TABLE cash_shifts ADD COLUMN IF NOT EXISTS cash_refunds NUMERIC(10, 2);
+ALTER TABLE cash_shifts ADD COLUMN IF NOT EXISTS gcash_refunds NUMERIC(10, 2);
+
+-- Refund lines of an order and return their products to inventory
+-- p_lines: [{ type: 'product', product_id, quantity } | { type: 'basket', basket_number }]
+-- Fails with OC400 for anything already refunded or not on the order, OC404
+-- for a missing order and OC409 for a cancelled one.
+CREATE OR REPLACE FUNCTION create_order_refund(
+  p_order_id UUID,
+  p_lines JSONB,
+  p_method TEXT,
+  p_reason TEXT,
+  p_staff_id UUID DEFAULT NULL
+)
+RETURNS refunds
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_order orders;
+  v_ratio NUMERIC;
+  v_line JSONB;
+  v_item JSONB;
+  v_basket JSONB;
+  v_quantity INTEGER;
+  v_refunded INTEGER;
+  v_amount NUMERIC(10, 2);
+  v_total NUMERIC(10, 2) := 0;
+  v_previous NUMERIC(10, 2);
+  v_lines JSONB := '[]'::jsonb;
+  v_shift_id UUID;
+  v_refund refunds;
+BEGIN
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'OC404';
+  END IF;
+
+  IF v_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cancelled orders cannot be refunded' USING ERRCODE = 'OC409';
+  END IF;
+
+  IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one product or basket to refund' USING ERRCODE = 'OC400';
+  END IF;
+
+  -- Share of the list price the customer paid (1 without a discount)
+  v_ratio := LEAST(1, COALESCE(
+    v_order.total_amount / NULLIF((v_order.breakdown->'summary'->>'subtotal_before_vat')::numeric, 0),
+    1
+  ));
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    IF v_line->>'type' = 'product' THEN
+      SELECT i INTO v_item
+      FROM jsonb_array_elements(COALESCE(v_order.breakdown->'items', '[]'::jsonb)) AS i
+      WHERE i->>'product_id' = v_line->>'product_id'
+      LIMIT 1;
+
+      IF v_item IS NULL THEN
+        RAISE EXCEPTION 'Product % is not on this order', v_line->>'product_id' USING ERRCODE = 'OC400';
+      END IF;
+
+      v_quantity := COALESCE((v_line->>'quantity')::integer, 0);
+
+      -- Already refunded: earlier refunds plus earlier lines of this one
+      SELECT COALESCE(SUM((l->>'quantity')::integer), 0) INTO v_refunded
+      FROM (
+        SELECT jsonb_array_elements(r.lines) AS l FROM refunds r WHERE r.order_id = p_order_id
+        UNION ALL
+        SELECT jsonb_array_elements(v_lines)
+      ) x
+      WHERE l->>'type' = 'product' AND l->>'product_id' = v_line->>'product_id';
+
+      IF v_quantity < 1 OR v_quantity > (v_item->>'quantity')::integer - v_refunded THEN
+        RAISE EXCEPTION 'Only % of % can still be refunded',
+          (v_item->>'quantity')::integer - v_refunded, v_item->>'product_name'
+          USING ERRCODE = 'OC400';
+      END IF;
+
+      v_amount := ROUND((v_item->>'unit_price')::numeric * v_quantity * v_ratio, 2);
+
+      UPDATE products
+      SET quantity = quantity + v_quantity
+      WHERE id = (v_item->>'product_id')::uuid;
+
+      IF FOUND THEN
+        INSERT INTO product_transactions (
+          product_id, order_id, quantity_change, transaction_type, notes, created_at
+        ) VALUES (
+          (v_item->>'product_id')::uuid,
+          p_order_id,
+          v_quantity,
+          'return',
+          format('Refund on order %s', p_order_id),
+          NOW()
+        );
+      END IF;
+
+      v_lines := v_lines || jsonb_build_object(
+        'type', 'product',
+        'product_id', v_item->>'product_id',
+        'product_name', v_item->>'product_name',
+        'quantity', v_quantity,
+        'unit_price', (v_item->>'unit_price')::numeric,
+        'amount', v_amount
+      );
+
+    ELSIF v_line->>'type' = 'basket' THEN
+      SELECT b INTO v_basket
+      FROM jsonb_array_elements(COALESCE(v_order.breakdown->'baskets', '[]'::jsonb)) AS b
+      WHERE (b->>'basket_number')::integer = (v_line->>'basket_number')::integer
+      LIMIT 1;
+
+      IF v_basket IS NULL THEN
+        RAISE EXCEPTION 'Basket % is not on this order', v_line->>'basket_number' USING ERRCODE = 'OC400';
+      END IF;
+
+      IF EXISTS (
+        SELECT 1
+        FROM (
+          SELECT jsonb_array_elements(r.lines) AS l FROM refunds r WHERE r.order_id = p_order_id
+          UNION ALL
+          SELECT jsonb_array_elements(v_lines)
+        ) x
+        WHERE l->>'type' = 'basket'
+          AND (l->>'basket_number')::integer = (v_basket->>'basket_number')::integer
+      ) THEN
+        RAISE EXCEPTION 'Basket % has already been refunded', v_basket->>'basket_number'
+          USING ERRCODE = 'OC400';
+      END IF;
+
+      v_amount := ROUND(COALESCE((v_basket->>'subtotal')::numeric, 0) * v_ratio, 2);
+
+      v_lines := v_lines || jsonb_build_object(
+        'type', 'basket',
+        'basket_number', (v_basket->>'basket_number')::integer,
+        'weight_kg', (v_basket->>'weight_kg')::numeric,
+        'subtotal', COALESCE((v_basket->>'subtotal')::numeric, 0),
+        'amount', v_amount
+      );
+
+    ELSE
+      RAISE EXCEPTION 'Unknown refund line type %', v_line->>'type' USING ERRCODE = 'OC400';
+    END IF;
+
+    v_total := v_total + v_amount;
+  END LOOP;
+
+  -- Rounding must never refund more than was paid
+  SELECT COALESCE(SUM(amount), 0) INTO v_previous FROM refunds WHERE order_id = p_order_id;
+  v_total := LEAST(v_total, v_order.total_amount - v_previous);
+
+  IF v_total <= 0 THEN
+    RAISE EXCEPTION 'Nothing left to refund on this order' USING ERRCODE = 'OC400';
+  END IF;
+
+  SELECT id INTO v_shift_id
+  FROM cash_shifts
+  WHERE staff_id = p_staff_id AND status = 'open';
+
+  INSERT INTO refunds (order_id, amount, method, reason, lines, staff_id, shift_id)
+  VALUES (p_order_id, v_total, p_method, p_reason, v_lines, p_staff_id, v_shift_id)
+  RETURNING * INTO v_refund;
+
+  RETURN v_refund;
+END;
+$$;
+
+-- Cancelling an order returns only what a refund has not already returned
+CREATE OR REPLACE FUNCTION transition_order_status(
+  p_order_id UUID,
+  p_from TEXT,
+  p_to TEXT,
+  p_changed_by UUID DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT NULL,
+  p_return_stock BOOLEAN DEFAULT FALSE
+)
+RETURNS order_status_history
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_status TEXT;
+  v_breakdown JSONB;
+  v_item JSONB;
+  v_returned INTEGER;
+  v_quantity INTEGER;
+  v_history order_status_history;
+BEGIN
+  SELECT status, breakdown INTO v_status, v_breakdown
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'OC404';
+  END IF;
+
+  IF v_status IS DISTINCT FROM p_from THEN
+    RAISE EXCEPTION 'Order status changed to % before this update', v_status
+      USING ERRCODE = 'OC409';
+  END IF;
+
+  UPDATE orders
+  SET status = p_to,
+      updated_at = NOW(),
+      cancelled_at = CASE WHEN p_to = 'cancelled' THEN NOW() ELSE cancelled_at END
+  WHERE id = p_order_id;
+
+  -- === Return stock ===
+  IF p_return_stock THEN
+    FOR v_item IN
+      SELECT * FROM jsonb_array_elements(COALESCE(v_breakdown->'items', '[]'::jsonb))
+    LOOP
+      SELECT COALESCE(SUM(quantity_change), 0) INTO v_returned
+      FROM product_transactions
+      WHERE order_id = p_order_id
+        AND product_id = (v_item->>'product_id')::uuid
+        AND transaction_type = 'return';
+
+      v_quantity := (v_item->>'quantity')::integer - v_returned;
+      CONTINUE WHEN v_quantity <= 0;
+
+      UPDATE products
+      SET quantity = quantity + v_quantity
+      WHERE id = (v_item->>'product_id')::uuid;
+
+      IF FOUND THEN
+        INSERT INTO product_transactions (
+          product_id, order_id, quantity_change, transaction_type, notes, created_at
+        ) VALUES (
+          (v_item->>'product_id')::uuid,
+          p_order_id,
+          v_quantity,
+          'return',
+          format('Order %s %s', p_order_id, p_to),
+          NOW()
+        );
+      END IF;
+    END LOOP;
+  END IF;
+
+  INSERT INTO order_status_history (order_id, from_status, to_status, changed_by, reason, metadata)
+  VALUES (p_order_id, v_status, p_to, p_changed_by, p_reason, p_metadata)
+  RETURNING * INTO v_history;
+
+  RETURN v_history;
+END;
+$$;
+
+-- Front desk refunds; managers get it through their roles
+INSERT INTO role_permissions (role_id, permission) VALUES
+  ('cashier', 'orders.refund')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE refunds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "refunds_read" ON refunds;
+CREATE POLICY "refunds_read" ON refunds
+  FOR SELECT TO authenticated
+  USING (staff_has_permission('orders.view'));
+
+DROP POLICY IF EXISTS "refunds_insert" ON refunds;
+CREATE POLICY "refunds_insert" ON refunds
+  FOR INSERT TO authenticated
+  WITH CHECK (staff_has_permission('orders.refund'));
+
+DROP POLICY IF EXISTS "refunds_update" ON refunds;
+CREATE POLICY "refunds_update" ON refunds
+  FOR UPDATE TO authenticated
+  USING (staff_has_permission('orders.refund'))
+  WITH CHECK (staff_has_permission('orders.refund'));
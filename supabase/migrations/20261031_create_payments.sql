@@ -0,0 +1,404 @@
+-- Order payments: split tenders, deposits and balances
+-- An order can be paid with several tenders (part cash, part GCash) and in
+-- instalments: a down-payment at drop-off and the balance at pickup. Each
+-- tender is a row in payments, linked to the receiving cashier's open drawer
+-- shift, so shift sales are the payments taken during the shift rather than
+-- the orders created in it. orders.amount_paid and orders.payment_status
+-- (unpaid / partial / paid) are kept up to date by triggers.
+-- handling.payment_method and handling.amount_paid stay as the drop-off
+-- summary for older screens.
+
+-- The legacy /api/pos/newOrder route wrote to a payments table on some
+-- databases, so create it only if missing and add the new columns
+CREATE TABLE IF NOT EXISTS payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  amount NUMERIC(10, 2) NOT NULL,
+  method TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS reference TEXT;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS amount_tendered NUMERIC(10, 2);  -- Cash handed over, change = tendered - amount
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS received_by UUID REFERENCES staff(id) ON DELETE SET NULL;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS shift_id UUID REFERENCES cash_shifts(id) ON DELETE SET NULL;
+
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_method_check;
+ALTER TABLE payments ADD CONSTRAINT payments_method_check CHECK (method IN ('cash', 'gcash'));
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_amount_check;
+ALTER TABLE payments ADD CONSTRAINT payments_amount_check CHECK (amount > 0);
+
+CREATE INDEX IF NOT EXISTS idx_payments_order
+  ON payments (order_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_payments_shift
+  ON payments (shift_id)
+  WHERE shift_id IS NOT NULL;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS amount_paid NUMERIC(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS payment_status TEXT NOT NULL DEFAULT 'unpaid'
+  CHECK (payment_status IN ('unpaid', 'partial', 'paid'));
+
+CREATE INDEX IF NOT EXISTS idx_orders_payment_status
+  ON orders (payment_status)
+  WHERE payment_status <> 'paid';
+
+CREATE OR REPLACE FUNCTION order_payment_status(p_paid NUMERIC, p_total NUMERIC)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_paid >= COALESCE(p_total, 0) THEN 'paid'
+    WHEN p_paid > 0 THEN 'partial'
+    ELSE 'unpaid'
+  END;
+$$;
+
+-- Keep orders.amount_paid / payment_status in step with the payments
+CREATE OR REPLACE FUNCTION payments_refresh_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_order_id UUID := COALESCE(NEW.order_id, OLD.order_id);
+  v_paid NUMERIC(10, 2);
+BEGIN
+  SELECT COALESCE(SUM(amount), 0) INTO v_paid
+  FROM payments
+  WHERE order_id = v_order_id;
+
+  UPDATE orders
+  SET amount_paid = v_paid,
+      payment_status = order_payment_status(v_paid, total_amount)
+  WHERE id = v_order_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS payments_refresh_order ON payments;
+CREATE TRIGGER payments_refresh_order
+  AFTER INSERT OR UPDATE OR DELETE ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION payments_refresh_order();
+
+-- A modified order total can leave a balance (or clear one)
+CREATE OR REPLACE FUNCTION orders_refresh_payment_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.payment_status := order_payment_status(NEW.amount_paid, NEW.total_amount);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_refresh_payment_status ON orders;
+CREATE TRIGGER orders_refresh_payment_status
+  BEFORE INSERT OR UPDATE OF total_amount, amount_paid ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION orders_refresh_payment_status();
+
+-- Refunds give back money that was actually paid
+CREATE OR REPLACE FUNCTION refunds_within_paid()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_paid NUMERIC(10, 2);
+  v_refunded NUMERIC(10, 2);
+BEGIN
+  SELECT amount_paid INTO v_paid FROM orders WHERE id = NEW.order_id;
+  SELECT COALESCE(SUM(amount), 0) INTO v_refunded FROM refunds WHERE order_id = NEW.order_id;
+
+  IF v_refunded + NEW.amount > v_paid THEN
+    RAISE EXCEPTION 'Only ₱% has been paid on this order', v_paid - v_refunded
+      USING ERRCODE = 'OC400';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refunds_within_paid ON refunds;
+CREATE TRIGGER refunds_within_paid
+  BEFORE INSERT ON refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION refunds_within_paid();
+
+-- Existing orders: one payment from the drop-off summary in handling.
+-- GCash orders without an amount were paid in full up front; cash amounts
+-- are what was handed over, so the payment is capped at the total.
+INSERT INTO payments (order_id, method, amount, amount_tendered, reference, received_by, created_at)
+SELECT
+  o.id,
+  o.handling->>'payment_method',
+  LEAST(COALESCE(NULLIF(o.handling->>'amount_paid', '')::numeric, o.total_amount), o.total_amount),
+  CASE WHEN o.handling->>'payment_method' = 'cash'
+    THEN NULLIF(o.handling->>'amount_paid', '')::numeric END,
+  NULLIF(trim(o.handling->>'gcash_reference'), ''),
+  o.cashier_id,
+  o.created_at
+FROM orders o
+WHERE o.handling->>'payment_method' IN ('cash', 'gcash')
+  AND o.total_amount > 0
+  AND LEAST(COALESCE(NULLIF(o.handling->>'amount_paid', '')::numeric, o.total_amount), o.total_amount) > 0
+  AND NOT EXISTS (SELECT 1 FROM payments p WHERE p.order_id = o.id);
+
+UPDATE orders o
+SET amount_paid = COALESCE((SELECT SUM(amount) FROM payments p WHERE p.order_id = o.id), 0);
+
+-- Payments already taken belong to the drawer shift they were taken in
+UPDATE payments p
+SET shift_id = s.id
+FROM cash_shifts s
+WHERE p.shift_id IS NULL
+  AND s.staff_id = p.received_by
+  AND p.created_at >= s.opened_at
+  AND (s.closed_at IS NULL OR p.created_at < s.closed_at);
+
+-- Collect a payment towards an order's balance
+-- Fails with OC400 for more than the balance, OC404 for a missing order and
+-- OC409 for a cancelled one.
+CREATE OR REPLACE FUNCTION record_order_payment(
+  p_order_id UUID,
+  p_method TEXT,
+  p_amount NUMERIC,
+  p_amount_tendered NUMERIC DEFAULT NULL,
+  p_reference TEXT DEFAULT NULL,
+  p_staff_id UUID DEFAULT NULL
+)
+RETURNS payments
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_order orders;
+  v_shift_id UUID;
+  v_payment payments;
+BEGIN
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'OC404';
+  END IF;
+
+  IF v_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cancelled orders cannot take payments' USING ERRCODE = 'OC409';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be more than zero' USING ERRCODE = 'OC400';
+  END IF;
+
+  IF p_amount > v_order.total_amount - v_order.amount_paid THEN
+    RAISE EXCEPTION 'Only ₱% is due on this order', v_order.total_amount - v_order.amount_paid
+      USING ERRCODE = 'OC400';
+  END IF;
+
+  SELECT id INTO v_shift_id
+  FROM cash_shifts
+  WHERE staff_id = p_staff_id AND status = 'open';
+
+  INSERT INTO payments (order_id, method, amount, amount_tendered, reference, received_by, shift_id)
+  VALUES (p_order_id, p_method, p_amount, p_amount_tendered, NULLIF(trim(p_reference), ''), p_staff_id, v_shift_id)
+  RETURNING * INTO v_payment;
+
+  RETURN v_payment;
+END;
+$$;
+
+-- Order creation records the drop-off tenders in the same transaction
+-- (unchanged from 20261021_create_order_rpc.sql apart from STEP 5)
+CREATE OR REPLACE FUNCTION create_order(
+  p_payload JSONB,
+  p_source TEXT,
+  p_cashier_id UUID DEFAULT NULL,
+  p_status TEXT DEFAULT 'pending',
+  p_match_customer_by_phone BOOLEAN DEFAULT FALSE,
+  p_gcash_receipt_url TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_customer_data JSONB := p_payload->'customer_data';
+  v_breakdown JSONB := p_payload->'breakdown';
+  v_tier_id TEXT := NULLIF(p_payload#>>'{loyalty,discount_tier}', '');
+  v_customer_id UUID;
+  v_order_id UUID;
+  v_tier loyalty_tiers;
+  v_balance INTEGER;
+  v_item JSONB;
+  v_quantity INTEGER;
+  v_stock INTEGER;
+  v_item_name TEXT;
+  v_payment JSONB;
+  v_paid NUMERIC(10, 2) := 0;
+  v_shift_id UUID;
+BEGIN
+  -- === STEP 1: Resolve or create customer ===
+  IF NULLIF(p_payload->>'customer_id', '') IS NOT NULL THEN
+    SELECT id INTO v_customer_id
+    FROM customers
+    WHERE id = (p_payload->>'customer_id')::uuid;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Customer not found' USING ERRCODE = 'OC404';
+    END IF;
+  ELSE
+    IF v_customer_data IS NULL THEN
+      RAISE EXCEPTION 'Customer ID or customer data required' USING ERRCODE = 'OC400';
+    END IF;
+
+    IF p_match_customer_by_phone THEN
+      SELECT id INTO v_customer_id
+      FROM customers
+      WHERE phone_number = v_customer_data->>'phone_number'
+      LIMIT 1;
+    END IF;
+
+    IF v_customer_id IS NULL THEN
+      INSERT INTO customers (first_name, last_name, phone_number, email_address, loyalty_points)
+      VALUES (
+        v_customer_data->>'first_name',
+        v_customer_data->>'last_name',
+        v_customer_data->>'phone_number',
+        NULLIF(v_customer_data->>'email', ''),
+        0
+      )
+      RETURNING id INTO v_customer_id;
+    END IF;
+  END IF;
+
+  -- === STEP 2: Create order ===
+  INSERT INTO orders (
+    customer_id, cashier_id, source, breakdown, handling, status,
+    total_amount, gcash_receipt_url, created_at
+  ) VALUES (
+    v_customer_id,
+    p_cashier_id,
+    p_source,
+    v_breakdown,
+    p_payload->'handling',
+    p_status,
+    COALESCE((v_breakdown#>>'{summary,total}')::numeric, 0),
+    p_gcash_receipt_url,
+    NOW()
+  )
+  RETURNING id INTO v_order_id;
+
+  -- === STEP 3: Redeem loyalty tier ===
+  IF v_tier_id IS NOT NULL THEN
+    SELECT * INTO v_tier
+    FROM loyalty_tiers
+    WHERE id = v_tier_id AND is_active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Unknown or inactive loyalty tier' USING ERRCODE = 'OC400';
+    END IF;
+
+    SELECT COALESCE(loyalty_points, 0) INTO v_balance
+    FROM customers
+    WHERE id = v_customer_id;
+
+    IF v_balance < v_tier.points_required THEN
+      RAISE EXCEPTION 'Not enough loyalty points for % (requires %)',
+        v_tier.name, v_tier.points_required USING ERRCODE = 'OC400';
+    END IF;
+
+    PERFORM record_loyalty_transaction(
+      v_customer_id,
+      'redeem',
+      -v_tier.points_required,
+      v_order_id,
+      v_tier.id,
+      format('%s (%s%% off)', v_tier.name, trim_scale(v_tier.discount_percent)),
+      p_cashier_id
+    );
+  END IF;
+
+  -- === STEP 4: Deduct inventory ===
+  -- Rows are locked so two orders cannot both take the last unit
+  FOR v_item IN
+    SELECT * FROM jsonb_array_elements(COALESCE(v_breakdown->'items', '[]'::jsonb))
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    SELECT quantity, item_name INTO v_stock, v_item_name
+    FROM products
+    WHERE id = (v_item->>'product_id')::uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % not found', v_item->>'product_id' USING ERRCODE = 'OC404';
+    END IF;
+
+    IF v_stock < v_quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %. Available: %, Requested: %',
+        v_item_name, v_stock, v_quantity USING ERRCODE = 'OC402';
+    END IF;
+
+    UPDATE products
+    SET quantity = v_stock - v_quantity
+    WHERE id = (v_item->>'product_id')::uuid;
+
+    INSERT INTO product_transactions (
+      product_id, order_id, quantity_change, transaction_type, notes, created_at
+    ) VALUES (
+      (v_item->>'product_id')::uuid,
+      v_order_id,
+      -v_quantity,
+      'order',
+      format('%s order %s', CASE p_source WHEN 'pos' THEN 'POS' ELSE initcap(p_source) END, v_order_id),
+      NOW()
+    );
+  END LOOP;
+
+  -- === STEP 5: Record payments ===
+  -- Tenders taken at drop-off; anything short of the total is due later
+  IF p_cashier_id IS NOT NULL THEN
+    SELECT id INTO v_shift_id
+    FROM cash_shifts
+    WHERE staff_id = p_cashier_id AND status = 'open';
+  END IF;
+
+  FOR v_payment IN
+    SELECT * FROM jsonb_array_elements(COALESCE(p_payload->'payments', '[]'::jsonb))
+  LOOP
+    INSERT INTO payments (
+      order_id, method, amount, amount_tendered, reference, received_by, shift_id
+    ) VALUES (
+      v_order_id,
+      v_payment->>'method',
+      (v_payment->>'amount')::numeric,
+      NULLIF(v_payment->>'amount_tendered', '')::numeric,
+      NULLIF(trim(v_payment->>'reference'), ''),
+      p_cashier_id,
+      v_shift_id
+    );
+    v_paid := v_paid + (v_payment->>'amount')::numeric;
+  END LOOP;
+
+  IF v_paid > COALESCE((v_breakdown#>>'{summary,total}')::numeric, 0) THEN
+    RAISE EXCEPTION 'Payments exceed the order total' USING ERRCODE = 'OC400';
+  END IF;
+
+  RETURN jsonb_build_object('order_id', v_order_id, 'customer_id', v_customer_id);
+END;
+$$;
+
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "payments_read" ON payments;
+CREATE POLICY "payments_read" ON payments
+  FOR SELECT TO authenticated
+  USING (staff_has_permission('orders.view') OR staff_has_permission('shifts.manage'));
+
+DROP POLICY IF EXISTS "payments_insert" ON payments;
+CREATE POLICY "payments_insert" ON payments
+  FOR INSERT TO authenticated
+  WITH CHECK (staff_has_permission('pos.use'));
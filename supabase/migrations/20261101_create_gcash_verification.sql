@@ -0,0 +1,155 @@
+-- GCash receipt verification
+-- Mobile orders paid by GCash upload a receipt screenshot. Staff check it
+-- against the GCash statement from the queue on the baskets page and
+-- verify it (which records the GCash payment), reject it with a reason or
+-- ask the customer to upload a new one. A pending order cannot be accepted
+-- until its GCash payment is verified, and a GCash reference can be used
+-- for one payment only.
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS gcash_verification_status TEXT
+  CHECK (gcash_verification_status IN ('pending', 'verified', 'rejected', 'reupload_requested'));
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS gcash_verification_note TEXT;   -- Rejection or re-upload reason
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS gcash_verified_by UUID REFERENCES staff(id) ON DELETE SET NULL;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS gcash_verified_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_orders_gcash_verification
+  ON orders (gcash_verification_status, created_at)
+  WHERE gcash_verification_status IN ('pending', 'reupload_requested');
+
+-- A receipt uploaded with an order, or again after a re-upload request,
+-- waits for review
+CREATE OR REPLACE FUNCTION orders_gcash_receipt_pending()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.gcash_receipt_url IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.gcash_receipt_url IS DISTINCT FROM OLD.gcash_receipt_url)
+     AND NEW.gcash_verification_status IS DISTINCT FROM 'verified' THEN
+    NEW.gcash_verification_status := 'pending';
+    NEW.gcash_verification_note := NULL;
+    NEW.gcash_verified_by := NULL;
+    NEW.gcash_verified_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_gcash_receipt_pending ON orders;
+CREATE TRIGGER orders_gcash_receipt_pending
+  BEFORE INSERT OR UPDATE OF gcash_receipt_url ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION orders_gcash_receipt_pending();
+
+-- Existing receipts: orders staff already accepted count as verified
+UPDATE orders
+SET gcash_verification_status = CASE WHEN status = 'pending' THEN 'pending' ELSE 'verified' END
+WHERE gcash_receipt_url IS NOT NULL
+  AND gcash_verification_status IS NULL;
+
+-- One payment per GCash reference. Older duplicates stay (the shift report
+-- flags them), so this is a trigger rather than a unique index.
+CREATE INDEX IF NOT EXISTS idx_payments_gcash_reference
+  ON payments (lower(reference))
+  WHERE method = 'gcash' AND reference IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION payments_unique_gcash_reference()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_order_id UUID;
+BEGIN
+  IF NEW.method = 'gcash' AND NEW.reference IS NOT NULL THEN
+    SELECT order_id INTO v_order_id
+    FROM payments
+    WHERE method = 'gcash'
+      AND lower(reference) = lower(trim(NEW.reference))
+      AND id <> NEW.id
+    LIMIT 1;
+
+    IF FOUND THEN
+      RAISE EXCEPTION 'GCash reference % is already used on order %', NEW.reference, left(v_order_id::text, 8)
+        USING ERRCODE = 'OC409';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS payments_unique_gcash_reference ON payments;
+CREATE TRIGGER payments_unique_gcash_reference
+  BEFORE INSERT OR UPDATE OF reference ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION payments_unique_gcash_reference();
+
+-- Verify an order's GCash receipt: records the balance as a GCash payment
+-- under the reference (in the verifier's open drawer shift) and marks the
+-- receipt verified in one transaction.
+-- Fails with OC400 without a reference, OC404 for a missing order and
+-- OC409 for a cancelled order, a receipt not waiting for review or a
+-- reference already used.
+CREATE OR REPLACE FUNCTION verify_gcash_payment(
+  p_order_id UUID,
+  p_reference TEXT,
+  p_staff_id UUID
+)
+RETURNS orders
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_order orders;
+  v_reference TEXT := NULLIF(trim(p_reference), '');
+  v_balance NUMERIC(10, 2);
+  v_shift_id UUID;
+BEGIN
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'OC404';
+  END IF;
+
+  IF v_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Order is cancelled' USING ERRCODE = 'OC409';
+  END IF;
+
+  IF v_order.gcash_verification_status IS DISTINCT FROM 'pending' THEN
+    RAISE EXCEPTION 'Order has no GCash receipt waiting for review' USING ERRCODE = 'OC409';
+  END IF;
+
+  IF v_reference IS NULL THEN
+    RAISE EXCEPTION 'Enter the GCash reference from the receipt' USING ERRCODE = 'OC400';
+  END IF;
+
+  v_balance := v_order.total_amount - v_order.amount_paid;
+
+  IF v_balance > 0 THEN
+    SELECT id INTO v_shift_id
+    FROM cash_shifts
+    WHERE staff_id = p_staff_id AND status = 'open';
+
+    INSERT INTO payments (order_id, method, amount, reference, received_by, shift_id)
+    VALUES (p_order_id, 'gcash', v_balance, v_reference, p_staff_id, v_shift_id);
+  END IF;
+
+  UPDATE orders
+  SET gcash_verification_status = 'verified',
+      gcash_verification_note = NULL,
+      gcash_verified_by = p_staff_id,
+      gcash_verified_at = NOW(),
+      handling = jsonb_set(COALESCE(handling, '{}'::jsonb), '{gcash_reference}', to_jsonb(v_reference))
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$;
+
+INSERT INTO role_permissions (role_id, permission) VALUES
+  ('cashier', 'payments.verify')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,51 @@
+-- Stored order receipts
+-- Printed receipts used to be written to public/receipts on the web
+-- server: downloadable by anyone, lost on every redeploy and not linked to
+-- an order. They now go to the private order-receipts storage bucket under
+-- <order id>/, are handed out through short-lived signed URLs only, and
+-- each file is listed in order_receipts with the date it may be deleted
+-- (see utils/receipt-storage.ts for the retention period). A receipt can
+-- always be rebuilt from the order (GET /api/receipts/<order id>), so
+-- expired copies are safe to remove.
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('order-receipts', 'order-receipts', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+CREATE TABLE IF NOT EXISTS order_receipts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL UNIQUE,          -- Object in the order-receipts bucket
+  source TEXT NOT NULL DEFAULT 'pos'
+    CHECK (source IN ('pos', 'legacy')),      -- legacy = migrated from public/receipts
+  created_by UUID REFERENCES staff(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  delete_after TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_receipts_order
+  ON order_receipts (order_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_order_receipts_delete_after
+  ON order_receipts (delete_after);
+
+-- Legacy receipt files only carry the short order ID printed on the
+-- receipt (first 8 characters of the UUID)
+CREATE OR REPLACE FUNCTION find_order_by_short_id(p_short_id TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT id
+  FROM orders
+  WHERE id::text LIKE lower(p_short_id) || '-%'
+  ORDER BY created_at DESC
+  LIMIT 1;
+$$;
+
+ALTER TABLE order_receipts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "order_receipts_read" ON order_receipts;
+CREATE POLICY "order_receipts_read" ON order_receipts
+  FOR SELECT TO authenticated
+  USING (staff_has_permission('orders.view'));
@@ -0,0 +1,82 @@
+-- Print job queue for thermal printers
+-- Creating an order queues its receipt and one tag per basket. A print
+-- agent next to the printer (a small local service, or the POS itself over
+-- WebUSB / Web Serial) claims queued jobs for its printer, prints the
+-- ESC/POS bytes the API renders from the stored order and reports back.
+-- Jobs claimed but never reported are handed out again after two minutes;
+-- jobs nobody picked up within a day expire so a printer coming back
+-- online does not print yesterday's queue.
+
+CREATE TABLE IF NOT EXISTS print_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('receipt', 'basket_tag')),
+  basket_number INTEGER,                      -- Set for basket tags
+  printer TEXT NOT NULL DEFAULT 'default',
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'printing', 'printed', 'failed', 'expired')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  created_by UUID REFERENCES staff(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  claimed_at TIMESTAMPTZ,
+  printed_at TIMESTAMPTZ,
+  CHECK (kind <> 'basket_tag' OR basket_number IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_print_jobs_queue
+  ON print_jobs (printer, created_at)
+  WHERE status IN ('queued', 'printing');
+
+CREATE INDEX IF NOT EXISTS idx_print_jobs_order
+  ON print_jobs (order_id, created_at);
+
+-- Claim up to p_limit jobs for a printer, oldest first
+-- SKIP LOCKED lets several agents poll the same printer without printing
+-- a job twice.
+CREATE OR REPLACE FUNCTION claim_print_jobs(p_printer TEXT, p_limit INTEGER DEFAULT 10)
+RETURNS SETOF print_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE print_jobs
+  SET status = 'expired'
+  WHERE printer = p_printer
+    AND status = 'queued'
+    AND created_at < NOW() - INTERVAL '1 day';
+
+  RETURN QUERY
+  UPDATE print_jobs
+  SET status = 'printing',
+      claimed_at = NOW(),
+      attempts = attempts + 1
+  WHERE id IN (
+    SELECT id
+    FROM print_jobs
+    WHERE printer = p_printer
+      AND (status = 'queued'
+           OR (status = 'printing' AND claimed_at < NOW() - INTERVAL '2 minutes' AND attempts < 3))
+    ORDER BY created_at
+    LIMIT GREATEST(1, LEAST(p_limit, 50))
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+ALTER TABLE print_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "print_jobs_read" ON print_jobs;
+CREATE POLICY "print_jobs_read" ON print_jobs
+  FOR SELECT TO authenticated
+  USING (staff_has_permission('pos.use'));
+
+DROP POLICY IF EXISTS "print_jobs_insert" ON print_jobs;
+CREATE POLICY "print_jobs_insert" ON print_jobs
+  FOR INSERT TO authenticated
+  WITH CHECK (staff_has_permission('pos.use'));
+
+DROP POLICY IF EXISTS "print_jobs_update" ON print_jobs;
+CREATE POLICY "print_jobs_update" ON print_jobs
+  FOR UPDATE TO authenticated
+  USING (staff_has_permission('pos.use'));
@@ -0,0 +1,17 @@
+-- Notification channels and preferences
+-- Customers are notified over app push, SMS or email, tried in the order of
+-- customers.notification_channels until one gets through (an empty list
+-- opts the customer out). notifications.channel records which channel a
+-- message went out on; older rows were all push.
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS notification_channels TEXT[] NOT NULL
+  DEFAULT ARRAY['push', 'sms', 'email'];
+
+ALTER TABLE customers DROP CONSTRAINT IF EXISTS customers_notification_channels_check;
+ALTER TABLE customers ADD CONSTRAINT customers_notification_channels_check
+  CHECK (notification_channels <@ ARRAY['push', 'sms', 'email']);
+
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS channel TEXT
+  CHECK (channel IN ('push', 'sms', 'email'));
+
+UPDATE notifications SET channel = 'push' WHERE channel IS NULL;
@@ -0,0 +1,75 @@
+-- Notification outbox
+-- Push, SMS and email sends used to happen inline in the request that
+-- caused them, and a failure was only logged. Every notification is now a
+-- notification_outbox row written by the order and basket transitions; it
+-- gets one immediate attempt, and the worker (/api/notifications/outbox/process,
+-- run by a scheduler every minute) retries failures with exponential
+-- backoff. After max_attempts the row is dead: it stays for the admin
+-- failed-sends page and the customer's notifications row is marked failed.
+-- Push tokens Firebase reports as invalid are cleared on the customer or
+-- staff member so they are not tried again.
+
+-- Customer history rows exist from the moment a notification is queued
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_status_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_status_check
+  CHECK (status IN ('pending', 'sent', 'delivered', 'read', 'failed'));
+
+CREATE TABLE IF NOT EXISTS notification_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind TEXT NOT NULL
+    CHECK (kind IN ('customer_event', 'customer_push', 'staff_push')),
+  customer_id UUID REFERENCES customers(id) ON DELETE CASCADE,
+  staff_id UUID REFERENCES staff(id) ON DELETE CASCADE,
+  notification_id UUID REFERENCES notifications(id) ON DELETE SET NULL,  -- Customer history row
+  payload JSONB NOT NULL,                   -- Event and variables, or title / body / data
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'sent', 'dead')),
+  channel TEXT CHECK (channel IN ('push', 'sms', 'email')),  -- Channel that delivered
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_error TEXT,
+  locked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMPTZ,
+  CHECK ((kind = 'staff_push') = (staff_id IS NOT NULL)),
+  CHECK ((kind = 'staff_push') OR customer_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_due
+  ON notification_outbox (next_attempt_at)
+  WHERE status IN ('pending', 'processing');
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_dead
+  ON notification_outbox (created_at DESC)
+  WHERE status = 'dead';
+
+-- Claim due rows for sending, oldest first
+-- Rows stuck in processing for five minutes (a worker that died) are
+-- claimed again. SKIP LOCKED keeps overlapping workers apart.
+CREATE OR REPLACE FUNCTION claim_notification_outbox(p_limit INTEGER DEFAULT 20)
+RETURNS SETOF notification_outbox
+LANGUAGE sql
+AS $$
+  UPDATE notification_outbox
+  SET status = 'processing',
+      locked_at = NOW(),
+      attempts = attempts + 1
+  WHERE id IN (
+    SELECT id
+    FROM notification_outbox
+    WHERE (status = 'pending' AND next_attempt_at <= NOW())
+       OR (status = 'processing' AND locked_at < NOW() - INTERVAL '5 minutes')
+    ORDER BY next_attempt_at
+    LIMIT GREATEST(1, LEAST(p_limit, 100))
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+ALTER TABLE notification_outbox ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "notification_outbox_read" ON notification_outbox;
+CREATE POLICY "notification_outbox_read" ON notification_outbox
+  FOR SELECT TO authenticated
+  USING (staff_has_permission('notifications.manage'));
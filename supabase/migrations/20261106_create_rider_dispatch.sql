@@ -0,0 +1,50 @@
+-- Targeted rider dispatch
+-- Pickup and delivery jobs used to be pushed to every rider at once. A job
+-- is now offered to one rider at a time, best first by distance, current
+-- load and whether they are on shift (utils/rider-dispatch.ts). The rider
+-- accepts or declines in the rider app; an offer left unanswered expires
+-- after its deadline (swept by /api/rider/dispatch/expire) and the job moves
+-- on to the next rider. orders.assigned_rider_id is the rider who accepted
+-- the order's current leg.
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS assigned_rider_id UUID
+  REFERENCES staff(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_assigned_rider
+  ON orders (assigned_rider_id)
+  WHERE assigned_rider_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS rider_dispatch_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  leg TEXT NOT NULL CHECK (leg IN ('pickup', 'delivery')),
+  rider_id UUID NOT NULL REFERENCES staff(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'offered'
+    CHECK (status IN ('offered', 'accepted', 'declined', 'expired', 'cancelled')),
+  rank INTEGER NOT NULL,                    -- 1 = first rider asked for this leg
+  distance_km NUMERIC(8, 2),                -- Rider to the stop when offered
+  active_jobs INTEGER NOT NULL DEFAULT 0,   -- Rider's open jobs when offered
+  offered_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  responded_at TIMESTAMPTZ,
+  decline_reason TEXT
+);
+
+-- One open offer per order leg
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rider_dispatch_offers_open
+  ON rider_dispatch_offers (order_id, leg)
+  WHERE status = 'offered';
+
+CREATE INDEX IF NOT EXISTS idx_rider_dispatch_offers_rider
+  ON rider_dispatch_offers (rider_id, offered_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_rider_dispatch_offers_expiry
+  ON rider_dispatch_offers (expires_at)
+  WHERE status = 'offered';
+
+ALTER TABLE rider_dispatch_offers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "rider_dispatch_offers_read" ON rider_dispatch_offers;
+CREATE POLICY "rider_dispatch_offers_read" ON rider_dispatch_offers
+  FOR SELECT TO authenticated
+  USING (staff_has_permission('deliveries.view'));
@@ -0,0 +1,43 @@
+-- Rider location tracking
+-- The rider app pings /api/rider/location while a rider is working; every
+-- ping is kept in rider_locations as a trail. The latest ping per rider
+-- drives the live map on /in/rider, the customer ETA and the rider's
+-- position when jobs are dispatched. Pings older than RIDER_TRAIL_DAYS
+-- (utils/rider-locations.ts) are pruned when new ones arrive.
+
+CREATE TABLE IF NOT EXISTS rider_locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  staff_id UUID NOT NULL REFERENCES staff(id) ON DELETE CASCADE,
+  lat DOUBLE PRECISION NOT NULL CHECK (lat BETWEEN -90 AND 90),
+  lng DOUBLE PRECISION NOT NULL CHECK (lng BETWEEN -180 AND 180),
+  accuracy_m NUMERIC(8, 1),                 -- Reported GPS accuracy
+  heading NUMERIC(5, 1),                    -- Degrees from north
+  speed_kmh NUMERIC(6, 1),
+  recorded_at TIMESTAMPTZ NOT NULL,         -- When the device took the fix
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rider_locations_staff_recorded
+  ON rider_locations (staff_id, recorded_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_rider_locations_recorded
+  ON rider_locations (recorded_at);
+
+-- Latest ping of every rider seen since p_since
+CREATE OR REPLACE FUNCTION latest_rider_locations(p_since TIMESTAMPTZ)
+RETURNS SETOF rider_locations
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT DISTINCT ON (staff_id) *
+  FROM rider_locations
+  WHERE recorded_at >= p_since
+  ORDER BY staff_id, recorded_at DESC;
+$$;
+
+ALTER TABLE rider_locations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "rider_locations_read" ON rider_locations;
+CREATE POLICY "rider_locations_read" ON rider_locations
+  FOR SELECT TO authenticated
+  USING (staff_has_permission('deliveries.view'));
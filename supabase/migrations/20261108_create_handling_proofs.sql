@@ -0,0 +1,36 @@
+-- Proof of pickup and delivery
+-- Completing a pickup or delivery used to leave only a timestamp in
+-- orders.handling, so disputes about missing items had no evidence. The
+-- rider now completes a leg with a photo, an optional signature image, the
+-- recipient's name and their GPS fix (PATCH /api/orders/<id>/serviceStatus).
+-- The images go to the private handling-proofs storage bucket under
+-- <order id>/ and are only handed out through short-lived signed URLs
+-- (utils/handling-proofs.ts). One proof per order leg; capturing it again
+-- replaces it.
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('handling-proofs', 'handling-proofs', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+CREATE TABLE IF NOT EXISTS order_handling_proofs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  leg TEXT NOT NULL CHECK (leg IN ('pickup', 'delivery')),
+  photo_path TEXT NOT NULL,                 -- Object in the handling-proofs bucket
+  signature_path TEXT,
+  recipient_name TEXT NOT NULL,
+  lat DOUBLE PRECISION NOT NULL CHECK (lat BETWEEN -90 AND 90),
+  lng DOUBLE PRECISION NOT NULL CHECK (lng BETWEEN -180 AND 180),
+  accuracy_m NUMERIC(8, 1),                 -- Reported GPS accuracy
+  captured_by UUID REFERENCES staff(id) ON DELETE SET NULL,
+  captured_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (order_id, leg)
+);
+
+ALTER TABLE order_handling_proofs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "order_handling_proofs_read" ON order_handling_proofs;
+CREATE POLICY "order_handling_proofs_read" ON order_handling_proofs
+  FOR SELECT TO authenticated
+  USING (staff_has_permission('orders.view'));
@@ -0,0 +1,11 @@
+-- Pricing rules writable by any role holding pricing.edit
+-- 20261019_create_pricing_rules.sql let only the admin role write
+-- pricing_rules. The manage/pricing routes write through the session client
+-- and check pricing.edit (requireStaff), so RLS has to grant the same.
+
+DROP POLICY IF EXISTS "pricing_rules_admin_write" ON pricing_rules;
+DROP POLICY IF EXISTS "pricing_rules_pricing_edit_write" ON pricing_rules;
+CREATE POLICY "pricing_rules_pricing_edit_write" ON pricing_rules
+  FOR ALL TO authenticated
+  USING (staff_has_permission('pricing.edit'))
+  WITH CHECK (staff_has_permission('pricing.edit'));
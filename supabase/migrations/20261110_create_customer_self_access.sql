@@ -0,0 +1,54 @@
+-- Customer access to their own records
+-- The mobile app signs customers in with Supabase Auth (customers.auth_id).
+-- Customer routes (utils/customer-auth.ts) query with the customer's own
+-- session instead of the service role, so RLS has to let a customer read
+-- their own customer row and orders, and the live location of the rider
+-- assigned to one of their open orders (the ETA on the order screen).
+-- Notification preferences are changed through a function so customers
+-- cannot update any other column of their row.
+
+CREATE OR REPLACE FUNCTION current_customer_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM customers WHERE auth_id = auth.uid() AND is_active LIMIT 1;
+$$;
+
+DROP POLICY IF EXISTS "customers_self_read" ON customers;
+CREATE POLICY "customers_self_read" ON customers
+  FOR SELECT TO authenticated
+  USING (id = current_customer_id());
+
+DROP POLICY IF EXISTS "orders_customer_read" ON orders;
+CREATE POLICY "orders_customer_read" ON orders
+  FOR SELECT TO authenticated
+  USING (customer_id = current_customer_id());
+
+DROP POLICY IF EXISTS "rider_locations_customer_read" ON rider_locations;
+CREATE POLICY "rider_locations_customer_read" ON rider_locations
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM orders o
+      WHERE o.assigned_rider_id = rider_locations.staff_id
+        AND o.customer_id = current_customer_id()
+        AND o.status IN ('pending', 'processing', 'for_pick-up', 'for_delivery')
+    )
+  );
+
+-- Set the signed-in customer's notification channels; returns the saved list
+CREATE OR REPLACE FUNCTION set_own_notification_channels(p_channels TEXT[])
+RETURNS TEXT[]
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE customers
+  SET notification_channels = p_channels
+  WHERE id = current_customer_id()
+  RETURNING notification_channels;
+$$;
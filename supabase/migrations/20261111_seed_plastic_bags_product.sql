@@ -0,0 +1,13 @@
+-- Plastic Bags product
+-- Baskets can use plastic bags (services.plastic_bags); createOrder adds them
+-- to the order items so create_order deducts their stock. The product used to
+-- be inserted on the fly by the first order needing it, outside the order
+-- transaction, so it is seeded here instead. Any existing plastic or bag
+-- product is kept.
+
+INSERT INTO products (item_name, unit_price, quantity, is_active)
+SELECT 'Plastic Bags', 0.5, 1000, TRUE
+WHERE NOT EXISTS (
+  SELECT 1 FROM products
+  WHERE item_name ILIKE '%plastic%' OR item_name ILIKE '%bag%'
+);